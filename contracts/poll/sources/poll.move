@@ -47,6 +47,7 @@ module poll::poll {
     const E_QUESTIONNAIRE_MAX_COMPLETERS_REACHED: u64 = 29;
     const E_BATCH_VECTOR_LENGTH_MISMATCH: u64 = 30;
     const E_BATCH_EMPTY: u64 = 31;
+    const E_NO_FINALIZE_DELEGATE: u64 = 32;
 
     /// Poll status
     const STATUS_ACTIVE: u8 = 0;
@@ -185,6 +186,19 @@ module poll::poll {
         new_fee_bps: u64,
     }
 
+    /// Account allowed to finalize the holder's polls on their behalf
+    /// Stored under the creator's address
+    struct FinalizeDelegate has key {
+        delegate: address,
+    }
+
+    #[event]
+    struct FinalizeDelegateUpdated has drop, store {
+        creator: address,
+        delegate: address,
+        enabled: bool,
+    }
+
     #[event]
     struct PollFinalized has drop, store {
         poll_id: u64,
@@ -902,6 +916,9 @@ module poll::poll {
         // Set status to CLAIMING_OR_DISTRIBUTION
         poll.status = STATUS_CLAIMING_OR_DISTRIBUTION;
 
+        // The claim period runs from here: finalization opens at closed_at + claim_period_secs
+        poll.closed_at = timestamp::now_seconds();
+
         let total_voters = vector::length(&poll.voters);
 
         event::emit(PollClosed {
@@ -928,8 +945,10 @@ module poll::poll {
         assert!(poll.creator == caller, E_NOT_OWNER);
         assert!(poll.status == STATUS_CLAIMING_OR_DISTRIBUTION, E_POLL_NOT_CLAIMABLE);
 
-        // Record closed timestamp for finalization grace period calculation
-        poll.closed_at = timestamp::now_seconds();
+        // Polls that entered CLAIMING before start_claims stamped closed_at start their grace period here
+        if (poll.closed_at == 0) {
+            poll.closed_at = timestamp::now_seconds();
+        };
 
         // Set status to CLOSED
         poll.status = STATUS_CLOSED;
@@ -1347,18 +1366,19 @@ module poll::poll {
     }
 
     /// Finalize a CLOSED poll with MOVE rewards
+    /// Callable by the creator or their finalize delegate
     public entry fun finalize_poll_move(
         account: &signer,
         registry_addr: address,
         poll_id: u64,
-    ) acquires PollRegistry, RewardVault {
+    ) acquires PollRegistry, RewardVault, FinalizeDelegate {
         let caller = signer::address_of(account);
         let registry = borrow_global_mut<PollRegistry>(registry_addr);
 
         assert!(poll_id < vector::length(&registry.polls), E_POLL_NOT_FOUND);
 
         let poll = vector::borrow_mut(&mut registry.polls, poll_id);
-        assert!(poll.creator == caller, E_NOT_OWNER);
+        assert!(poll.creator == caller || is_finalize_delegate(poll.creator, caller), E_NOT_OWNER);
         assert!(poll.coin_type_id == COIN_TYPE_APTOS, E_COIN_TYPE_MISMATCH);
         assert!(poll.status == STATUS_CLOSED, E_POLL_NOT_IN_CLAIMING);
 
@@ -1387,18 +1407,19 @@ module poll::poll {
     }
 
     /// Finalize a CLOSED poll with FA rewards
+    /// Callable by the creator or their finalize delegate
     public entry fun finalize_poll_fa(
         account: &signer,
         registry_addr: address,
         poll_id: u64,
-    ) acquires PollRegistry, GenericFAVault {
+    ) acquires PollRegistry, GenericFAVault, FinalizeDelegate {
         let caller = signer::address_of(account);
         let registry = borrow_global_mut<PollRegistry>(registry_addr);
 
         assert!(poll_id < vector::length(&registry.polls), E_POLL_NOT_FOUND);
 
         let poll = vector::borrow_mut(&mut registry.polls, poll_id);
-        assert!(poll.creator == caller, E_NOT_OWNER);
+        assert!(poll.creator == caller || is_finalize_delegate(poll.creator, caller), E_NOT_OWNER);
         assert!(poll.coin_type_id != COIN_TYPE_APTOS, E_COIN_TYPE_MISMATCH);
         assert!(poll.status == STATUS_CLOSED, E_POLL_NOT_IN_CLAIMING);
 
@@ -1429,6 +1450,32 @@ module poll::poll {
         });
     }
 
+    // ============== Finalize delegation ==============
+
+    /// Let `delegate` finalize the caller's polls once their claim period has elapsed
+    /// Replaces any existing delegate
+    public entry fun set_finalize_delegate(account: &signer, delegate: address) acquires FinalizeDelegate {
+        let creator = signer::address_of(account);
+
+        if (exists<FinalizeDelegate>(creator)) {
+            borrow_global_mut<FinalizeDelegate>(creator).delegate = delegate;
+        } else {
+            move_to(account, FinalizeDelegate { delegate });
+        };
+
+        event::emit(FinalizeDelegateUpdated { creator, delegate, enabled: true });
+    }
+
+    /// Revoke the caller's finalize delegate
+    public entry fun remove_finalize_delegate(account: &signer) acquires FinalizeDelegate {
+        let creator = signer::address_of(account);
+        assert!(exists<FinalizeDelegate>(creator), E_NO_FINALIZE_DELEGATE);
+
+        let FinalizeDelegate { delegate } = move_from<FinalizeDelegate>(creator);
+
+        event::emit(FinalizeDelegateUpdated { creator, delegate, enabled: false });
+    }
+
     // ============== Backward compatibility functions ==============
     // These call the generic FA functions for existing code that uses _pulse or _usdc suffixes
 
@@ -1505,7 +1552,7 @@ module poll::poll {
         account: &signer,
         registry_addr: address,
         poll_id: u64,
-    ) acquires PollRegistry, GenericFAVault {
+    ) acquires PollRegistry, GenericFAVault, FinalizeDelegate {
         finalize_poll_fa(account, registry_addr, poll_id);
     }
 
@@ -1590,6 +1637,12 @@ module poll::poll {
         current_time >= finalize_deadline
     }
 
+    #[view]
+    /// View function to check if `delegate` may finalize `creator`'s polls
+    public fun is_finalize_delegate(creator: address, delegate: address): bool acquires FinalizeDelegate {
+        exists<FinalizeDelegate>(creator) && borrow_global<FinalizeDelegate>(creator).delegate == delegate
+    }
+
     #[view]
     /// View function to check if FA store is initialized for a metadata address
     public fun is_fa_store_initialized(registry_addr: address, fa_metadata_address: address): bool acquires GenericFAVault {
@@ -1914,6 +1967,43 @@ module poll::poll {
         });
     }
 
+    // ============== Batch Claims ==============
+
+    /// Claim rewards from several polls and questionnaire pools in one transaction
+    /// Each poll is claimed through the MOVE or FA path matching its coin type
+    /// All claims succeed or all fail - atomic transaction
+    public entry fun claim_rewards_batch(
+        account: &signer,
+        registry_addr: address,
+        poll_ids: vector<u64>,
+        questionnaire_ids: vector<u64>,
+    ) acquires PollRegistry, RewardVault, GenericFAVault, QuestionnaireRegistry {
+        let poll_count = vector::length(&poll_ids);
+        let questionnaire_count = vector::length(&questionnaire_ids);
+        assert!(poll_count + questionnaire_count > 0, E_BATCH_EMPTY);
+
+        let i = 0;
+        while (i < poll_count) {
+            let poll_id = *vector::borrow(&poll_ids, i);
+            let registry = borrow_global<PollRegistry>(registry_addr);
+            assert!(poll_id < vector::length(&registry.polls), E_POLL_NOT_FOUND);
+            let coin_type_id = vector::borrow(&registry.polls, poll_id).coin_type_id;
+
+            if (coin_type_id == COIN_TYPE_APTOS) {
+                claim_reward_move(account, registry_addr, poll_id);
+            } else {
+                claim_reward_fa(account, registry_addr, poll_id);
+            };
+            i = i + 1;
+        };
+
+        let j = 0;
+        while (j < questionnaire_count) {
+            claim_questionnaire_reward_fa(account, registry_addr, *vector::borrow(&questionnaire_ids, j));
+            j = j + 1;
+        };
+    }
+
     #[view]
     /// Check if user has completed all polls in a questionnaire
     public fun has_completed_questionnaire(
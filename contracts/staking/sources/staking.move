@@ -1,12 +1,14 @@
 /// PULSE Staking module for MVPulse dApp
 /// Users can stake PULSE tokens for fixed lock periods to boost their tier qualification
 /// Supports multiple stake positions per user with different lock durations
+/// Stakers earn PULSE emissions shared by lock-weighted stake (longer locks earn more
+/// while locked; unlocked positions count at 1x)
 module staking::staking {
     use std::signer;
     use std::vector;
     use aptos_framework::timestamp;
-    use aptos_framework::object::{Self, Object};
-    use aptos_framework::fungible_asset::{Self, Metadata, FungibleStore};
+    use aptos_framework::object::{Self, Object, ExtendRef};
+    use aptos_framework::fungible_asset::{Self, FungibleAsset, Metadata, FungibleStore};
     use aptos_framework::primary_fungible_store;
     use aptos_framework::event;
 
@@ -23,6 +25,21 @@ module staking::staking {
     const LOCK_180_DAYS: u64 = 15552000;    // 180 * 24 * 60 * 60
     const LOCK_365_DAYS: u64 = 31536000;    // 365 * 24 * 60 * 60
 
+    /// Reward weight of each lock period in basis points (10000 = 1x)
+    const MULTIPLIER_7_DAYS: u64 = 10000;   // 1.0x
+    const MULTIPLIER_14_DAYS: u64 = 11000;  // 1.1x
+    const MULTIPLIER_21_DAYS: u64 = 12000;  // 1.2x
+    const MULTIPLIER_30_DAYS: u64 = 13000;  // 1.3x
+    const MULTIPLIER_90_DAYS: u64 = 15000;  // 1.5x
+    const MULTIPLIER_180_DAYS: u64 = 20000; // 2.0x
+    const MULTIPLIER_365_DAYS: u64 = 30000; // 3.0x
+
+    /// Reward weight of an unlocked position in basis points (1.0x)
+    const UNLOCKED_MULTIPLIER: u64 = 10000;
+
+    /// Fixed-point scale of the reward-per-weight accumulator
+    const REWARD_PRECISION: u128 = 1000000000000000000;
+
     /// Error codes
     const E_NOT_ADMIN: u64 = 1;
     const E_ALREADY_INITIALIZED: u64 = 2;
@@ -33,10 +50,16 @@ module staking::staking {
     const E_INVALID_POSITION_INDEX: u64 = 7;
     const E_NO_STAKES: u64 = 8;
     const E_ZERO_AMOUNT: u64 = 9;
+    const E_REWARDS_NOT_INITIALIZED: u64 = 10;
+    const E_NO_REWARDS: u64 = 11;
+    const E_NOT_REGISTERED: u64 = 12;
 
     /// Seed for creating the staking pool object
     const STAKING_POOL_SEED: vector<u8> = b"STAKING_POOL";
 
+    /// Seed for creating the reward pool object
+    const REWARD_POOL_SEED: vector<u8> = b"STAKING_REWARD_POOL";
+
     // ==================== Structs ====================
 
     #[resource_group_member(group = aptos_framework::object::ObjectGroup)]
@@ -63,6 +86,29 @@ module staking::staking {
         total_staked: u64,
     }
 
+    #[resource_group_member(group = aptos_framework::object::ObjectGroup)]
+    /// Reward emission state, stored as its own named object
+    /// Emissions accrue per second into a reward-per-weight accumulator while
+    /// funded PULSE remains in the reserve
+    struct RewardPool has key {
+        emission_rate: u64,        // PULSE (octas) emitted per second
+        reward_reserve: u64,       // Funded PULSE not yet emitted
+        total_weight: u128,        // Sum of registered stakers' lock-weighted stake
+        acc_reward_per_weight: u128, // Scaled by REWARD_PRECISION
+        last_update: u64,
+        reward_store: Object<FungibleStore>,
+        reward_store_extend_ref: ExtendRef,
+    }
+
+    /// User's reward accounting stored under user's address
+    /// Created on the user's first stake, unstake or claim after rewards are
+    /// initialized; positions opened earlier start earning from that point
+    struct UserRewards has key {
+        weight: u128,       // Sum of position weights as of the user's last settlement (see poke)
+        reward_debt: u128,  // weight * accumulator at the last settlement
+        pending: u64,       // Settled and unclaimed rewards
+    }
+
     // ==================== Events ====================
 
     #[event]
@@ -87,6 +133,41 @@ module staking::staking {
         position_index: u64,
     }
 
+    #[event]
+    struct RewardsFunded has drop, store {
+        funder: address,
+        amount: u64,
+        reward_reserve: u64,
+    }
+
+    #[event]
+    struct EmissionRateUpdated has drop, store {
+        old_rate: u64,
+        new_rate: u64,
+    }
+
+    #[event]
+    struct RewardsClaimed has drop, store {
+        staker: address,
+        amount: u64,
+    }
+
+    #[event]
+    struct RewardsCompounded has drop, store {
+        staker: address,
+        amount: u64,
+        lock_duration: u64,
+        unlock_at: u64,
+        position_index: u64,
+    }
+
+    #[event]
+    struct RewardWeightUpdated has drop, store {
+        staker: address,
+        old_weight: u128,
+        new_weight: u128,
+    }
+
     // ==================== Admin Functions ====================
 
     /// Initialize the staking pool (one-time setup by deployer)
@@ -121,6 +202,76 @@ module staking::staking {
         });
     }
 
+    /// Create the reward pool (one-time setup by deployer, after initialize)
+    public entry fun initialize_rewards(admin: &signer) {
+        let admin_addr = signer::address_of(admin);
+        assert!(admin_addr == @staking, E_NOT_ADMIN);
+        assert!(exists<StakingPool>(get_pool_address()), E_NOT_INITIALIZED);
+
+        let rewards_addr = get_reward_pool_address();
+        assert!(!exists<RewardPool>(rewards_addr), E_ALREADY_INITIALIZED);
+
+        let constructor_ref = object::create_named_object(admin, REWARD_POOL_SEED);
+        let rewards_signer = object::generate_signer(&constructor_ref);
+
+        // Reward PULSE sits in its own store with an ExtendRef for payouts
+        let store_constructor_ref = object::create_object(admin_addr);
+        let reward_store = fungible_asset::create_store(&store_constructor_ref, pulse::get_metadata());
+        let reward_store_extend_ref = object::generate_extend_ref(&store_constructor_ref);
+
+        move_to(&rewards_signer, RewardPool {
+            emission_rate: 0,
+            reward_reserve: 0,
+            total_weight: 0,
+            acc_reward_per_weight: 0,
+            last_update: timestamp::now_seconds(),
+            reward_store,
+            reward_store_extend_ref,
+        });
+    }
+
+    /// Add PULSE to the reward reserve (admin only)
+    public entry fun fund_rewards(admin: &signer, amount: u64) acquires RewardPool {
+        let admin_addr = signer::address_of(admin);
+        assert!(admin_addr == @staking, E_NOT_ADMIN);
+        assert!(amount > 0, E_ZERO_AMOUNT);
+
+        let rewards_addr = get_reward_pool_address();
+        assert!(exists<RewardPool>(rewards_addr), E_REWARDS_NOT_INITIALIZED);
+        let rewards = borrow_global_mut<RewardPool>(rewards_addr);
+
+        // Emissions up to now draw on the old reserve
+        update_reward_pool(rewards);
+
+        let fa = primary_fungible_store::withdraw(admin, pulse::get_metadata(), amount);
+        fungible_asset::deposit(rewards.reward_store, fa);
+        rewards.reward_reserve = rewards.reward_reserve + amount;
+
+        event::emit(RewardsFunded {
+            funder: admin_addr,
+            amount,
+            reward_reserve: rewards.reward_reserve,
+        });
+    }
+
+    /// Set the PULSE emitted per second across all stakers (admin only)
+    /// Emission stops on its own once the funded reserve is used up
+    public entry fun set_emission_rate(admin: &signer, new_rate: u64) acquires RewardPool {
+        assert!(signer::address_of(admin) == @staking, E_NOT_ADMIN);
+
+        let rewards_addr = get_reward_pool_address();
+        assert!(exists<RewardPool>(rewards_addr), E_REWARDS_NOT_INITIALIZED);
+        let rewards = borrow_global_mut<RewardPool>(rewards_addr);
+
+        // Time before the change accrues at the old rate
+        update_reward_pool(rewards);
+
+        let old_rate = rewards.emission_rate;
+        rewards.emission_rate = new_rate;
+
+        event::emit(EmissionRateUpdated { old_rate, new_rate });
+    }
+
     // ==================== Entry Functions ====================
 
     /// Stake PULSE tokens with a specified lock period
@@ -128,7 +279,7 @@ module staking::staking {
         account: &signer,
         amount: u64,
         lock_duration: u64
-    ) acquires StakingPool, UserStakes {
+    ) acquires StakingPool, UserStakes, RewardPool, UserRewards {
         assert!(amount > 0, E_ZERO_AMOUNT);
         assert!(is_valid_lock_period(lock_duration), E_INVALID_LOCK_PERIOD);
 
@@ -136,15 +287,30 @@ module staking::staking {
         let pool_addr = get_pool_address();
         assert!(exists<StakingPool>(pool_addr), E_NOT_INITIALIZED);
 
-        let pool = borrow_global_mut<StakingPool>(pool_addr);
-        let pulse_metadata = pool.pulse_metadata;
+        let pulse_metadata = borrow_global<StakingPool>(pool_addr).pulse_metadata;
 
         // Check user has sufficient PULSE balance
         let user_balance = primary_fungible_store::balance(staker_addr, pulse_metadata);
         assert!(user_balance >= amount, E_INSUFFICIENT_BALANCE);
 
-        // Withdraw PULSE from user and deposit to staking pool
+        // Withdraw PULSE from user and lock it in a new position
         let fa = primary_fungible_store::withdraw(account, pulse_metadata, amount);
+        add_position(account, fa, lock_duration);
+    }
+
+    /// Lock PULSE in a new stake position, returning its index
+    fun add_position(
+        account: &signer,
+        fa: FungibleAsset,
+        lock_duration: u64
+    ): u64 acquires StakingPool, UserStakes, RewardPool, UserRewards {
+        let amount = fungible_asset::amount(&fa);
+        let staker_addr = signer::address_of(account);
+
+        // Settle rewards at the old weight before the new position counts
+        settle_staker(account);
+
+        let pool = borrow_global_mut<StakingPool>(get_pool_address());
         fungible_asset::deposit(pool.stake_store, fa);
 
         // Calculate unlock time
@@ -182,6 +348,8 @@ module staking::staking {
         // Update pool total
         pool.total_staked = pool.total_staked + amount;
 
+        sync_staker_weight(staker_addr);
+
         event::emit(Staked {
             staker: staker_addr,
             amount,
@@ -189,18 +357,20 @@ module staking::staking {
             unlock_at,
             position_index,
         });
+
+        position_index
     }
 
     /// Unstake a specific position (only if lock period has expired)
     public entry fun unstake(
         account: &signer,
         position_index: u64
-    ) acquires StakingPool, UserStakes {
+    ) acquires StakingPool, UserStakes, RewardPool, UserRewards {
         let staker_addr = signer::address_of(account);
 
         assert!(exists<UserStakes>(staker_addr), E_NO_STAKES);
 
-        let user_stakes = borrow_global_mut<UserStakes>(staker_addr);
+        let user_stakes = borrow_global<UserStakes>(staker_addr);
         let positions_len = vector::length(&user_stakes.positions);
         assert!(position_index < positions_len, E_INVALID_POSITION_INDEX);
 
@@ -210,6 +380,11 @@ module staking::staking {
 
         let amount = position.amount;
 
+        // Settle rewards before the position stops counting
+        settle_staker(account);
+
+        let user_stakes = borrow_global_mut<UserStakes>(staker_addr);
+
         // Remove position from vector (swap and pop for efficiency)
         vector::swap_remove(&mut user_stakes.positions, position_index);
         user_stakes.total_staked = user_stakes.total_staked - amount;
@@ -227,6 +402,8 @@ module staking::staking {
             pool.stakers_count = pool.stakers_count - 1;
         };
 
+        sync_staker_weight(staker_addr);
+
         event::emit(Unstaked {
             staker: staker_addr,
             amount,
@@ -235,11 +412,14 @@ module staking::staking {
     }
 
     /// Unstake all positions that have expired
-    public entry fun unstake_all(account: &signer) acquires StakingPool, UserStakes {
+    public entry fun unstake_all(account: &signer) acquires StakingPool, UserStakes, RewardPool, UserRewards {
         let staker_addr = signer::address_of(account);
 
         assert!(exists<UserStakes>(staker_addr), E_NO_STAKES);
 
+        // Settle rewards before the unlocked positions stop counting
+        settle_staker(account);
+
         let user_stakes = borrow_global_mut<UserStakes>(staker_addr);
         let current_time = timestamp::now_seconds();
         let pool_addr = get_pool_address();
@@ -279,6 +459,201 @@ module staking::staking {
                 pool.stakers_count = pool.stakers_count - 1;
             };
         };
+
+        sync_staker_weight(staker_addr);
+    }
+
+    /// Start earning rewards on positions opened before rewards were initialized
+    public entry fun register_rewards(account: &signer) acquires UserStakes, RewardPool, UserRewards {
+        assert!(exists<RewardPool>(get_reward_pool_address()), E_REWARDS_NOT_INITIALIZED);
+        settle_staker(account);
+        sync_staker_weight(signer::address_of(account));
+    }
+
+    /// Drop a staker's unlocked positions to 1x weight (anyone can call)
+    /// A lock boost ends at unlock_at, but the weight rewards accrue at only
+    /// changes when the staker next stakes, unstakes, claims or compounds.
+    /// Keepers poke stakers as their positions unlock so an expired boost stops
+    /// taking a share of emissions; rewards up to now settle at the old weight.
+    public entry fun poke(staker: address) acquires UserStakes, RewardPool, UserRewards {
+        let rewards_addr = get_reward_pool_address();
+        assert!(exists<RewardPool>(rewards_addr), E_REWARDS_NOT_INITIALIZED);
+        assert!(exists<UserRewards>(staker), E_NOT_REGISTERED);
+
+        settle(borrow_global_mut<RewardPool>(rewards_addr), staker);
+        let old_weight = borrow_global<UserRewards>(staker).weight;
+        let new_weight = sync_staker_weight(staker);
+
+        if (new_weight != old_weight) {
+            event::emit(RewardWeightUpdated { staker, old_weight, new_weight });
+        };
+    }
+
+    /// Claim accrued staking rewards to the wallet
+    public entry fun claim_rewards(account: &signer) acquires UserStakes, RewardPool, UserRewards {
+        let staker_addr = signer::address_of(account);
+        let amount = take_pending_rewards(account);
+
+        let fa = withdraw_rewards(borrow_global<RewardPool>(get_reward_pool_address()), amount);
+        primary_fungible_store::deposit(staker_addr, fa);
+
+        event::emit(RewardsClaimed {
+            staker: staker_addr,
+            amount,
+        });
+    }
+
+    /// Stake accrued rewards as a new position with the given lock period
+    public entry fun compound_rewards(
+        account: &signer,
+        lock_duration: u64
+    ) acquires StakingPool, UserStakes, RewardPool, UserRewards {
+        assert!(is_valid_lock_period(lock_duration), E_INVALID_LOCK_PERIOD);
+        assert!(exists<StakingPool>(get_pool_address()), E_NOT_INITIALIZED);
+
+        let amount = take_pending_rewards(account);
+        let fa = withdraw_rewards(borrow_global<RewardPool>(get_reward_pool_address()), amount);
+        let position_index = add_position(account, fa, lock_duration);
+
+        event::emit(RewardsCompounded {
+            staker: signer::address_of(account),
+            amount,
+            lock_duration,
+            unlock_at: timestamp::now_seconds() + lock_duration,
+            position_index,
+        });
+    }
+
+    // ==================== Reward Accounting ====================
+
+    /// a * b / c, with the product taken in u256 so large weights can't overflow it
+    fun mul_div(a: u128, b: u128, c: u128): u128 {
+        (((a as u256) * (b as u256) / (c as u256)) as u128)
+    }
+
+    /// Reward weight of a position as of `now`: amount scaled by its lock
+    /// multiplier while locked, 1x once unlocked
+    fun position_weight(position: &StakePosition, now: u64): u128 {
+        let multiplier = if (now >= position.unlock_at) {
+            UNLOCKED_MULTIPLIER
+        } else {
+            get_lock_multiplier(position.lock_duration)
+        };
+        (position.amount as u128) * (multiplier as u128)
+    }
+
+    /// Total weight of a user's positions as of now
+    fun positions_weight(user: address): u128 acquires UserStakes {
+        if (!exists<UserStakes>(user)) {
+            return 0
+        };
+
+        let user_stakes = borrow_global<UserStakes>(user);
+        let current_time = timestamp::now_seconds();
+        let weight: u128 = 0;
+
+        let i = 0;
+        let len = vector::length(&user_stakes.positions);
+        while (i < len) {
+            weight = weight + position_weight(vector::borrow(&user_stakes.positions, i), current_time);
+            i = i + 1;
+        };
+
+        weight
+    }
+
+    /// Accumulator value after emitting everything due up to now, and the
+    /// amount that leaves the reserve
+    /// Nothing is emitted while no weight is registered, so the reserve is kept.
+    /// Only what the accumulator can pay out counts as distributed; the rounding
+    /// remainder stays in the reserve for later emissions.
+    fun current_acc_reward_per_weight(rewards: &RewardPool, now: u64): (u128, u64) {
+        if (now <= rewards.last_update || rewards.total_weight == 0) {
+            return (rewards.acc_reward_per_weight, 0)
+        };
+
+        let due = ((now - rewards.last_update) as u128) * (rewards.emission_rate as u128);
+        let emitted = if (due > (rewards.reward_reserve as u128)) {
+            rewards.reward_reserve
+        } else {
+            (due as u64)
+        };
+
+        let acc_delta = (emitted as u128) * REWARD_PRECISION / rewards.total_weight;
+        let distributed = mul_div(acc_delta, rewards.total_weight, REWARD_PRECISION);
+        (rewards.acc_reward_per_weight + acc_delta, (distributed as u64))
+    }
+
+    fun update_reward_pool(rewards: &mut RewardPool) {
+        let now = timestamp::now_seconds();
+        let (acc, distributed) = current_acc_reward_per_weight(rewards, now);
+        rewards.acc_reward_per_weight = acc;
+        rewards.reward_reserve = rewards.reward_reserve - distributed;
+        rewards.last_update = now;
+    }
+
+    /// Move a registered staker's rewards up to now into pending, at their recorded weight
+    fun settle(rewards: &mut RewardPool, staker_addr: address) acquires UserRewards {
+        update_reward_pool(rewards);
+
+        let user = borrow_global_mut<UserRewards>(staker_addr);
+        let accrued = mul_div(user.weight, rewards.acc_reward_per_weight, REWARD_PRECISION) - user.reward_debt;
+        user.pending = user.pending + (accrued as u64);
+        user.reward_debt = user.reward_debt + accrued;
+    }
+
+    /// Settle the signer's rewards before their positions change
+    /// Registers them on first use (sync_staker_weight then counts their
+    /// existing positions); does nothing until the reward pool is initialized
+    fun settle_staker(account: &signer) acquires RewardPool, UserRewards {
+        let rewards_addr = get_reward_pool_address();
+        if (!exists<RewardPool>(rewards_addr)) {
+            return
+        };
+
+        let staker_addr = signer::address_of(account);
+        if (!exists<UserRewards>(staker_addr)) {
+            move_to(account, UserRewards { weight: 0, reward_debt: 0, pending: 0 });
+        };
+        settle(borrow_global_mut<RewardPool>(rewards_addr), staker_addr);
+    }
+
+    /// Set a settled staker's weight to their positions' weight as of now,
+    /// returning it; must follow settle in the same transaction
+    fun sync_staker_weight(staker_addr: address): u128 acquires UserStakes, RewardPool, UserRewards {
+        let rewards_addr = get_reward_pool_address();
+        if (!exists<RewardPool>(rewards_addr)) {
+            return 0
+        };
+
+        let weight = positions_weight(staker_addr);
+        let rewards = borrow_global_mut<RewardPool>(rewards_addr);
+        let user = borrow_global_mut<UserRewards>(staker_addr);
+
+        rewards.total_weight = rewards.total_weight + weight - user.weight;
+        user.weight = weight;
+        user.reward_debt = mul_div(weight, rewards.acc_reward_per_weight, REWARD_PRECISION);
+        weight
+    }
+
+    /// Settle and zero a staker's pending rewards, returning the amount
+    /// Also drops any unlocked positions to 1x from here on
+    fun take_pending_rewards(account: &signer): u64 acquires UserStakes, RewardPool, UserRewards {
+        assert!(exists<RewardPool>(get_reward_pool_address()), E_REWARDS_NOT_INITIALIZED);
+        let staker_addr = signer::address_of(account);
+        settle_staker(account);
+        sync_staker_weight(staker_addr);
+
+        let user = borrow_global_mut<UserRewards>(staker_addr);
+        let amount = user.pending;
+        assert!(amount > 0, E_NO_REWARDS);
+        user.pending = 0;
+        amount
+    }
+
+    fun withdraw_rewards(rewards: &RewardPool, amount: u64): FungibleAsset {
+        let store_signer = object::generate_signer_for_extending(&rewards.reward_store_extend_ref);
+        fungible_asset::withdraw(&store_signer, rewards.reward_store, amount)
     }
 
     // ==================== View Functions ====================
@@ -427,4 +802,92 @@ module staking::staking {
         vector::push_back(&mut periods, LOCK_365_DAYS);
         periods
     }
+
+    #[view]
+    /// Get the reward weight multiplier of a lock period in basis points (0 if invalid)
+    public fun get_lock_multiplier(duration: u64): u64 {
+        if (duration == LOCK_7_DAYS) MULTIPLIER_7_DAYS
+        else if (duration == LOCK_14_DAYS) MULTIPLIER_14_DAYS
+        else if (duration == LOCK_21_DAYS) MULTIPLIER_21_DAYS
+        else if (duration == LOCK_30_DAYS) MULTIPLIER_30_DAYS
+        else if (duration == LOCK_90_DAYS) MULTIPLIER_90_DAYS
+        else if (duration == LOCK_180_DAYS) MULTIPLIER_180_DAYS
+        else if (duration == LOCK_365_DAYS) MULTIPLIER_365_DAYS
+        else 0
+    }
+
+    #[view]
+    /// Get the multipliers of all lock periods, in get_lock_periods order
+    public fun get_lock_multipliers(): vector<u64> {
+        let periods = get_lock_periods();
+        let multipliers = vector::empty<u64>();
+        let i = 0;
+        while (i < vector::length(&periods)) {
+            vector::push_back(&mut multipliers, get_lock_multiplier(*vector::borrow(&periods, i)));
+            i = i + 1;
+        };
+        multipliers
+    }
+
+    #[view]
+    /// Get the reward pool address
+    public fun get_reward_pool_address(): address {
+        object::create_object_address(&@staking, REWARD_POOL_SEED)
+    }
+
+    #[view]
+    /// Check if the reward pool is initialized
+    public fun is_rewards_initialized(): bool {
+        exists<RewardPool>(get_reward_pool_address())
+    }
+
+    #[view]
+    /// Get reward pool info as of now
+    /// Returns (emission_rate, reward_reserve, total_weight)
+    public fun get_reward_pool_info(): (u64, u64, u128) acquires RewardPool {
+        let rewards_addr = get_reward_pool_address();
+        if (!exists<RewardPool>(rewards_addr)) {
+            return (0, 0, 0)
+        };
+
+        let rewards = borrow_global<RewardPool>(rewards_addr);
+        let (_, distributed) = current_acc_reward_per_weight(rewards, timestamp::now_seconds());
+        (rewards.emission_rate, rewards.reward_reserve - distributed, rewards.total_weight)
+    }
+
+    #[view]
+    /// Check if a user's positions are registered for rewards
+    public fun has_reward_account(user: address): bool {
+        exists<UserRewards>(user)
+    }
+
+    #[view]
+    /// Get a user's lock-weighted stake as of now (amount * multiplier in
+    /// basis points, unlocked positions at 1x), whether or not they are
+    /// registered for rewards
+    public fun get_reward_weight(user: address): u128 acquires UserStakes {
+        positions_weight(user)
+    }
+
+    #[view]
+    /// Check if a registered user's rewards still accrue at a weight that
+    /// includes expired lock boosts (see poke)
+    public fun needs_poke(user: address): bool acquires UserStakes, UserRewards {
+        exists<UserRewards>(user) && borrow_global<UserRewards>(user).weight != positions_weight(user)
+    }
+
+    #[view]
+    /// Get rewards a user could claim now
+    public fun get_pending_rewards(user: address): u64 acquires RewardPool, UserRewards {
+        let rewards_addr = get_reward_pool_address();
+        if (!exists<RewardPool>(rewards_addr) || !exists<UserRewards>(user)) {
+            return 0
+        };
+
+        let rewards = borrow_global<RewardPool>(rewards_addr);
+        let user_rewards = borrow_global<UserRewards>(user);
+        let (acc, _) = current_acc_reward_per_weight(rewards, timestamp::now_seconds());
+        let accrued = mul_div(user_rewards.weight, acc, REWARD_PRECISION) - user_rewards.reward_debt;
+        user_rewards.pending + (accrued as u64)
+    }
 }
@@ -25,6 +25,7 @@ import Distributions from "@/pages/creator/Distributions";
 import QuestManager from "@/pages/creator/QuestManager";
 import ManageQuestionnaires from "@/pages/creator/ManageQuestionnaires";
 import EditQuestionnaire from "@/pages/creator/EditQuestionnaire";
+import QuestionnaireResponses from "@/pages/creator/QuestionnaireResponses";
 import SeasonManager from "@/pages/creator/SeasonManager";
 
 // Participant pages
@@ -69,6 +70,7 @@ function App() {
             <Route path="/creator/manage/:pollId" component={ManagePoll} />
             <Route path="/creator/manage" component={ManagePolls} />
             <Route path="/creator/questionnaires" component={ManageQuestionnaires} />
+            <Route path="/creator/questionnaires/:id/responses" component={QuestionnaireResponses} />
             <Route path="/creator/questionnaires/:id" component={EditQuestionnaire} />
             <Route path="/creator/distributions" component={Distributions} />
             <Route path="/creator/quests" component={QuestManager} />
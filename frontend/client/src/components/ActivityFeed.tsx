@@ -0,0 +1,312 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  ArrowDownUp,
+  CheckCircle2,
+  ClipboardList,
+  Clock,
+  Coins,
+  Droplets,
+  ExternalLink,
+  Flag,
+  Gift,
+  Loader2,
+  Lock,
+  PlusCircle,
+  Repeat,
+  Send,
+  Trophy,
+  Undo2,
+  Unlock,
+  Users,
+  Vote,
+  type LucideIcon,
+} from "lucide-react";
+import { useNetwork } from "@/contexts/NetworkContext";
+import { useActivityEvents } from "@/hooks/useActivityEvents";
+import { formatRelativeTime, type ActivityFilters } from "@/lib/events";
+import { formatBalance } from "@/lib/balance";
+import { COIN_TYPES, getCoinDecimals, getCoinSymbol, isValidCoinType } from "@/lib/tokens";
+import { ACTIVITY_TYPES, toAmount, type ActivityItem, type ActivityType } from "@shared/schema";
+
+// Filter chips; each covers a group of activity types
+const ACTIVITY_GROUPS: { label: string; types: ActivityType[] }[] = [
+  {
+    label: "Polls",
+    types: [
+      ACTIVITY_TYPES.VOTE,
+      ACTIVITY_TYPES.POLL_CREATED,
+      ACTIVITY_TYPES.POLL_FUNDED,
+      ACTIVITY_TYPES.POLL_REFUNDED,
+      ACTIVITY_TYPES.POLL_CLOSED,
+      ACTIVITY_TYPES.POLL_FINALIZED,
+    ],
+  },
+  {
+    label: "Rewards",
+    types: [ACTIVITY_TYPES.REWARDS_DISTRIBUTED, ACTIVITY_TYPES.REWARD_CLAIMED, ACTIVITY_TYPES.QUESTIONNAIRE_REWARD_CLAIMED],
+  },
+  { label: "Questionnaires", types: [ACTIVITY_TYPES.QUESTIONNAIRE_COMPLETED] },
+  {
+    label: "Staking",
+    types: [
+      ACTIVITY_TYPES.STAKED,
+      ACTIVITY_TYPES.UNSTAKED,
+      ACTIVITY_TYPES.STAKING_REWARDS_CLAIMED,
+      ACTIVITY_TYPES.STAKING_REWARDS_COMPOUNDED,
+    ],
+  },
+  { label: "Trading", types: [ACTIVITY_TYPES.SWAP, ACTIVITY_TYPES.LIQUIDITY_ADDED, ACTIVITY_TYPES.LIQUIDITY_REMOVED] },
+  { label: "Quests & Referrals", types: [ACTIVITY_TYPES.QUEST_CLAIMED, ACTIVITY_TYPES.REFERRAL_MILESTONE] },
+];
+
+const ACTIVITY_STYLES: Record<ActivityType, { icon: LucideIcon; color: string }> = {
+  vote: { icon: Vote, color: "purple" },
+  poll_created: { icon: PlusCircle, color: "blue" },
+  poll_funded: { icon: Send, color: "blue" },
+  poll_refunded: { icon: Undo2, color: "orange" },
+  poll_closed: { icon: Flag, color: "orange" },
+  poll_finalized: { icon: CheckCircle2, color: "blue" },
+  rewards_distributed: { icon: Coins, color: "green" },
+  reward_claimed: { icon: Gift, color: "green" },
+  questionnaire_completed: { icon: ClipboardList, color: "purple" },
+  questionnaire_reward_claimed: { icon: Gift, color: "green" },
+  staked: { icon: Lock, color: "blue" },
+  unstaked: { icon: Unlock, color: "orange" },
+  staking_rewards_claimed: { icon: Gift, color: "green" },
+  staking_rewards_compounded: { icon: Repeat, color: "green" },
+  swap: { icon: ArrowDownUp, color: "purple" },
+  liquidity_added: { icon: Droplets, color: "blue" },
+  liquidity_removed: { icon: Droplets, color: "orange" },
+  quest_claimed: { icon: Trophy, color: "yellow" },
+  referral_milestone: { icon: Users, color: "yellow" },
+};
+
+// Spelled out so Tailwind keeps the classes
+const COLOR_CLASSES: Record<string, { circle: string; icon: string; badge: string }> = {
+  purple: { circle: "bg-purple-500/20", icon: "text-purple-500", badge: "bg-purple-500/10 text-purple-600" },
+  blue: { circle: "bg-blue-500/20", icon: "text-blue-500", badge: "bg-blue-500/10 text-blue-600" },
+  green: { circle: "bg-green-500/20", icon: "text-green-500", badge: "bg-green-500/10 text-green-600" },
+  orange: { circle: "bg-orange-500/20", icon: "text-orange-500", badge: "bg-orange-500/10 text-orange-600" },
+  yellow: { circle: "bg-yellow-500/20", icon: "text-yellow-500", badge: "bg-yellow-500/10 text-yellow-600" },
+};
+
+function formatToken(amount: string | number | undefined, coinTypeId: number = COIN_TYPES.PULSE): string {
+  const coin = isValidCoinType(coinTypeId) ? coinTypeId : COIN_TYPES.PULSE;
+  return `${formatBalance(toAmount(amount ?? 0), getCoinDecimals(coin), 2)} ${getCoinSymbol(coin)}`;
+}
+
+function pollLabel(item: ActivityItem): string {
+  return item.pollTitle ? `"${item.pollTitle}"` : `Poll #${item.pollId}`;
+}
+
+function describeActivity(item: ActivityItem): { title: string; badge?: string } {
+  const details = item.details ?? {};
+  switch (item.type) {
+    case ACTIVITY_TYPES.VOTE:
+      return { title: `Voted on ${pollLabel(item)}`, badge: "Voted" };
+    case ACTIVITY_TYPES.POLL_CREATED:
+      return { title: `Created ${pollLabel(item)}`, badge: formatToken(item.amount, item.coinTypeId) };
+    case ACTIVITY_TYPES.POLL_FUNDED:
+      return { title: `Funded ${pollLabel(item)}`, badge: formatToken(item.amount, item.coinTypeId) };
+    case ACTIVITY_TYPES.POLL_REFUNDED:
+      return { title: `Withdrew unused funds from ${pollLabel(item)}`, badge: `+${formatToken(item.amount, item.coinTypeId)}` };
+    case ACTIVITY_TYPES.POLL_CLOSED:
+      return { title: `Closed ${pollLabel(item)}`, badge: `${details.voters ?? 0} voters` };
+    case ACTIVITY_TYPES.POLL_FINALIZED:
+      return { title: `Finalized ${pollLabel(item)}` };
+    case ACTIVITY_TYPES.REWARDS_DISTRIBUTED:
+      return details.role === "creator"
+        ? { title: `Distributed rewards for ${pollLabel(item)}`, badge: `${details.recipients} paid` }
+        : { title: `Received rewards from ${pollLabel(item)}`, badge: `+${formatToken(item.amount, item.coinTypeId)}` };
+    case ACTIVITY_TYPES.REWARD_CLAIMED:
+      return { title: `Claimed reward from ${pollLabel(item)}`, badge: `+${formatToken(item.amount, item.coinTypeId)}` };
+    case ACTIVITY_TYPES.QUESTIONNAIRE_COMPLETED:
+      return { title: `Completed "${item.title}"`, badge: "Completed" };
+    case ACTIVITY_TYPES.QUESTIONNAIRE_REWARD_CLAIMED:
+      return { title: `Claimed reward from "${item.title}"`, badge: "Claimed" };
+    case ACTIVITY_TYPES.STAKED:
+      return { title: "Staked PULSE", badge: formatToken(item.amount) };
+    case ACTIVITY_TYPES.UNSTAKED:
+      return { title: "Unstaked PULSE", badge: `+${formatToken(item.amount)}` };
+    case ACTIVITY_TYPES.STAKING_REWARDS_CLAIMED:
+      return { title: "Claimed staking rewards", badge: `+${formatToken(item.amount)}` };
+    case ACTIVITY_TYPES.STAKING_REWARDS_COMPOUNDED:
+      return { title: "Restaked staking rewards", badge: formatToken(item.amount) };
+    case ACTIVITY_TYPES.SWAP:
+      return Number(details.pulseIn) > 0
+        ? { title: "Swapped PULSE for USDC", badge: `${formatToken(details.pulseIn)} → ${formatToken(details.stableOut, COIN_TYPES.USDC)}` }
+        : { title: "Swapped USDC for PULSE", badge: `${formatToken(details.stableIn, COIN_TYPES.USDC)} → ${formatToken(details.pulseOut)}` };
+    case ACTIVITY_TYPES.LIQUIDITY_ADDED:
+      return { title: "Added liquidity", badge: `${formatToken(details.pulseAmount)} + ${formatToken(details.stableAmount, COIN_TYPES.USDC)}` };
+    case ACTIVITY_TYPES.LIQUIDITY_REMOVED:
+      return { title: "Removed liquidity", badge: `${formatToken(details.pulseAmount)} + ${formatToken(details.stableAmount, COIN_TYPES.USDC)}` };
+    case ACTIVITY_TYPES.QUEST_CLAIMED:
+      return { title: `Completed quest "${item.title}"`, badge: `+${details.points} pts` };
+    case ACTIVITY_TYPES.REFERRAL_MILESTONE:
+      return {
+        title: `Referral milestone: ${String(item.title).replace(/_/g, " ")}`,
+        badge: `+${details.points} pts`,
+      };
+  }
+}
+
+function ActivityRow({ item }: { item: ActivityItem }) {
+  const { config, network } = useNetwork();
+  const style = ACTIVITY_STYLES[item.type];
+  const colors = COLOR_CLASSES[style.color];
+  const Icon = style.icon;
+  const { title, badge } = describeActivity(item);
+  const txId = item.txHash ?? item.txVersion;
+
+  return (
+    <div className="flex items-center justify-between gap-3 p-3 rounded-lg bg-muted/50 hover:bg-muted transition-colors">
+      <div className="flex items-center gap-3 min-w-0">
+        <div className={`w-10 h-10 rounded-full flex items-center justify-center shrink-0 ${colors.circle}`}>
+          <Icon className={`w-5 h-5 ${colors.icon}`} />
+        </div>
+        <div className="min-w-0">
+          <p className="font-medium text-sm truncate">
+            {item.pollId !== undefined ? (
+              <Link href={`/poll/${item.pollId}`} className="hover:underline">{title}</Link>
+            ) : (
+              title
+            )}
+          </p>
+          <p className="text-xs text-muted-foreground flex items-center gap-1">
+            {formatRelativeTime(new Date(item.occurredAt).getTime())}
+            {txId && (
+              <a
+                href={`${config.explorerUrl}/txn/${txId}?network=${network}`}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="inline-flex items-center hover:text-foreground"
+              >
+                <ExternalLink className="w-3 h-3 ml-1" />
+              </a>
+            )}
+          </p>
+        </div>
+      </div>
+      {badge && (
+        <Badge variant="secondary" className={`shrink-0 ${colors.badge}`}>
+          {badge}
+        </Badge>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Paginated activity feed for a wallet with type and date filters
+ */
+export function ActivityFeed({ address }: { address: string | undefined }) {
+  const [groups, setGroups] = useState<string[]>([]);
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+
+  const filters: ActivityFilters = {
+    types: ACTIVITY_GROUPS.filter((group) => groups.includes(group.label)).flatMap((group) => group.types),
+    from: from || undefined,
+    to: to || undefined,
+  };
+  const { data: items, isLoading, error, hasNextPage, isFetchingNextPage, fetchNextPage } = useActivityEvents(
+    address,
+    filters
+  );
+
+  const toggleGroup = (label: string) => {
+    setGroups(groups.includes(label) ? groups.filter((group) => group !== label) : [...groups, label]);
+  };
+
+  const isFiltered = groups.length > 0 || !!from || !!to;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Clock className="w-5 h-5" />
+          Recent Activity
+        </CardTitle>
+        <CardDescription>
+          Your votes, rewards, questionnaires, staking, trades and quests
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <div className="flex flex-wrap gap-2">
+            {ACTIVITY_GROUPS.map((group) => (
+              <Button
+                key={group.label}
+                size="sm"
+                variant={groups.includes(group.label) ? "default" : "outline"}
+                className="h-7 text-xs"
+                onClick={() => toggleGroup(group.label)}
+              >
+                {group.label}
+              </Button>
+            ))}
+          </div>
+          <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+            <Input type="date" value={from} max={to || undefined} onChange={(e) => setFrom(e.target.value)} className="h-8 w-auto" />
+            <span>to</span>
+            <Input type="date" value={to} min={from || undefined} onChange={(e) => setTo(e.target.value)} className="h-8 w-auto" />
+            {isFiltered && (
+              <Button
+                size="sm"
+                variant="ghost"
+                className="h-7 text-xs"
+                onClick={() => {
+                  setGroups([]);
+                  setFrom("");
+                  setTo("");
+                }}
+              >
+                Clear
+              </Button>
+            )}
+          </div>
+        </div>
+
+        <div className="space-y-3">
+          {isLoading ? (
+            <div className="space-y-3">
+              {[1, 2, 3].map((i) => (
+                <Skeleton key={i} className="h-16 w-full" />
+              ))}
+            </div>
+          ) : error ? (
+            <p className="text-sm text-destructive text-center py-4">{error.message}</p>
+          ) : items && items.length > 0 ? (
+            <>
+              {items.map((item) => (
+                <ActivityRow key={item.id} item={item} />
+              ))}
+              {hasNextPage && (
+                <Button
+                  variant="outline"
+                  className="w-full"
+                  onClick={() => fetchNextPage()}
+                  disabled={isFetchingNextPage}
+                >
+                  {isFetchingNextPage ? <Loader2 className="w-4 h-4 animate-spin" /> : "Load more"}
+                </Button>
+              )}
+            </>
+          ) : (
+            <div className="flex flex-col items-center justify-center py-8 text-muted-foreground">
+              <Clock className="w-12 h-12 mb-2 opacity-50" />
+              <p className="text-sm">{isFiltered ? "No activity matches these filters" : "No recent activity"}</p>
+              <p className="text-xs">Your votes and rewards will appear here</p>
+            </div>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
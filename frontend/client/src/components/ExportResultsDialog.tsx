@@ -0,0 +1,194 @@
+/**
+ * Export Results Dialog
+ * Lets creators download poll or questionnaire results as CSV, JSON or columnar JSON,
+ * optionally replacing voter addresses with hashes
+ */
+
+import { useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Download, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { apiRequest } from "@/lib/queryClient";
+import { useNetwork } from "@/contexts/NetworkContext";
+
+export type ExportTarget =
+  | { kind: "poll"; pollId: number }
+  | { kind: "questionnaire"; questionnaireId: string };
+
+type ExportFormat = "csv" | "json" | "columnar";
+
+const FORMAT_LABELS: Record<ExportFormat, string> = {
+  csv: "CSV (one sheet)",
+  json: "JSON (all sheets)",
+  columnar: "Columnar JSON (all sheets)",
+};
+
+const SHEET_LABELS: Record<string, string> = {
+  votes: "Votes",
+  options: "Option Totals",
+  respondents: "Respondents",
+  text_responses: "Text Responses",
+  summary: "Summary",
+};
+
+export interface ExportResultsDialogProps {
+  target: ExportTarget;
+  /** Custom trigger; defaults to an outline "Export" button */
+  trigger?: React.ReactNode;
+  /** CSV sheet selected when the dialog opens; defaults to votes */
+  initialSheet?: string;
+}
+
+function exportUrl(target: ExportTarget): string {
+  return target.kind === "poll"
+    ? `/api/polls/${target.pollId}/export`
+    : `/api/questionnaires/${target.questionnaireId}/export`;
+}
+
+function filenameFromResponse(res: Response, fallback: string): string {
+  const disposition = res.headers.get("Content-Disposition");
+  const match = disposition?.match(/filename="([^"]+)"/);
+  return match?.[1] ?? fallback;
+}
+
+export function ExportResultsDialog({ target, trigger, initialSheet = "votes" }: ExportResultsDialogProps) {
+  const { network } = useNetwork();
+  const [open, setOpen] = useState(false);
+  const [format, setFormat] = useState<ExportFormat>("csv");
+  const [sheet, setSheet] = useState(initialSheet);
+  const [hashAddresses, setHashAddresses] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+
+  const sheets = target.kind === "poll"
+    ? ["votes", "options", "summary"]
+    : ["votes", "options", "respondents", "text_responses", "summary"];
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      const params = new URLSearchParams({ network, format, hashAddresses: String(hashAddresses) });
+      if (format === "csv") params.set("sheet", sheet);
+
+      const res = await apiRequest("GET", `${exportUrl(target)}?${params}`);
+      const blob = await res.blob();
+
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = filenameFromResponse(res, `results.${format === "csv" ? "csv" : "json"}`);
+      document.body.appendChild(link);
+      link.click();
+      link.remove();
+      URL.revokeObjectURL(url);
+
+      toast.success("Export downloaded");
+      setOpen(false);
+    } catch (error) {
+      console.error("Export failed:", error);
+      toast.error("Export failed", {
+        description: error instanceof Error ? error.message : "Please try again",
+      });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        {trigger ?? (
+          <Button variant="outline" size="sm">
+            <Download className="w-4 h-4 mr-2" />
+            Export
+          </Button>
+        )}
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Export Results</DialogTitle>
+          <DialogDescription>
+            Voters, their chosen options, timestamps, transaction hashes, rewards and claim status.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <div className="space-y-2">
+            <Label>Format</Label>
+            <Select value={format} onValueChange={(value) => setFormat(value as ExportFormat)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(FORMAT_LABELS) as ExportFormat[]).map((value) => (
+                  <SelectItem key={value} value={value}>
+                    {FORMAT_LABELS[value]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {format === "csv" && (
+            <div className="space-y-2">
+              <Label>Sheet</Label>
+              <Select value={sheet} onValueChange={setSheet}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {sheets.map((value) => (
+                    <SelectItem key={value} value={value}>
+                      {SHEET_LABELS[value]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          <div className="flex items-center justify-between rounded-lg border p-3">
+            <div className="space-y-0.5">
+              <Label htmlFor="hash-addresses">Hash voter addresses</Label>
+              <p className="text-xs text-muted-foreground">
+                Replace addresses with stable pseudonyms before sharing the file
+              </p>
+            </div>
+            <Switch id="hash-addresses" checked={hashAddresses} onCheckedChange={setHashAddresses} />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setOpen(false)} disabled={isExporting}>
+            Cancel
+          </Button>
+          <Button onClick={handleExport} disabled={isExporting}>
+            {isExporting ? (
+              <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+            ) : (
+              <Download className="w-4 h-4 mr-2" />
+            )}
+            Download
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
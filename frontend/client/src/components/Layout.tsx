@@ -3,6 +3,7 @@ import { LayoutDashboard, FolderKanban, PlusCircle, Settings, Home, UserCircle,
 import { ThemeToggle } from "./ThemeToggle";
 import { NetworkSwitcher } from "./NetworkSwitcher";
 import { WalletButton } from "./WalletButton";
+import { NotificationBell } from "./NotificationBell";
 import { cn } from "@/lib/utils";
 
 export function Layout({ children }: { children: React.ReactNode }) {
@@ -62,6 +63,7 @@ export function Layout({ children }: { children: React.ReactNode }) {
           <div className="flex items-center gap-2 md:gap-4 z-10">
             <NetworkSwitcher />
             <ThemeToggle />
+            <NotificationBell />
             <WalletButton />
           </div>
         </div>
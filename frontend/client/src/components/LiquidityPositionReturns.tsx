@@ -0,0 +1,102 @@
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { ExternalLink } from "lucide-react";
+import { useNetwork } from "@/contexts/NetworkContext";
+import { useLiquidityPositionPnl } from "@/hooks/useSwapAnalytics";
+import { formatBalance } from "@/lib/balance";
+import { COIN_TYPES, getCoinDecimals } from "@/lib/tokens";
+import { ZERO_AMOUNT, toAmount, type AmountString } from "@shared/schema";
+
+const PULSE_DECIMALS = getCoinDecimals(COIN_TYPES.PULSE);
+const USDC_DECIMALS = getCoinDecimals(COIN_TYPES.USDC);
+
+function formatUsdc(amount: AmountString, signed = false): string {
+  const value = toAmount(amount);
+  const prefix = signed && value > ZERO_AMOUNT ? "+" : "";
+  return `${prefix}${formatBalance(value, USDC_DECIMALS, 2)} USDC`;
+}
+
+function signedClass(amount: AmountString): string {
+  const value = toAmount(amount);
+  return value > ZERO_AMOUNT ? "text-green-500" : value < ZERO_AMOUNT ? "text-red-500" : "";
+}
+
+/**
+ * Cost basis, fee earnings, impermanent loss and deposit history of an LP position
+ */
+export function LiquidityPositionReturns({ address }: { address: string | undefined }) {
+  const { network, config } = useNetwork();
+  const { data: position, isLoading } = useLiquidityPositionPnl(address);
+
+  if (isLoading) {
+    return <Skeleton className="h-24" />;
+  }
+  if (!position || position.history.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <div className="p-3 bg-muted/50 rounded-lg">
+          <p className="text-sm text-muted-foreground">Cost Basis</p>
+          <p className="font-mono font-semibold">{formatUsdc(position.costBasis)}</p>
+          <p className="text-xs text-muted-foreground font-mono">
+            {formatBalance(toAmount(position.costPulse), PULSE_DECIMALS, 2)} PULSE +{" "}
+            {formatBalance(toAmount(position.costStable), USDC_DECIMALS, 2)} USDC
+          </p>
+        </div>
+        <div className="p-3 bg-muted/50 rounded-lg">
+          <p className="text-sm text-muted-foreground">Fees Earned</p>
+          <p className="font-mono font-semibold text-green-500">{formatUsdc(position.feesEarned)}</p>
+        </div>
+        <div className="p-3 bg-muted/50 rounded-lg">
+          <p className="text-sm text-muted-foreground">Impermanent Loss</p>
+          <p className={`font-mono font-semibold ${signedClass(position.impermanentLoss)}`}>
+            {formatUsdc(position.impermanentLoss, true)}
+          </p>
+          {position.impermanentLossPercent !== null && (
+            <p className="text-xs text-muted-foreground">
+              {position.impermanentLossPercent.toFixed(2)}% vs. holding
+            </p>
+          )}
+        </div>
+        <div className="p-3 bg-muted/50 rounded-lg">
+          <p className="text-sm text-muted-foreground">Profit / Loss</p>
+          <p className={`font-mono font-semibold ${signedClass(position.pnl)}`}>{formatUsdc(position.pnl, true)}</p>
+          <p className="text-xs text-muted-foreground">Now worth {formatUsdc(position.value)}</p>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <p className="text-sm font-medium">Position History</p>
+        <div className="rounded-lg border divide-y">
+          {position.history.map((event) => (
+            <div key={`${event.txVersion}:${event.kind}`} className="flex items-center justify-between gap-2 px-3 py-2 text-sm">
+              <div className="flex items-center gap-2">
+                <Badge variant={event.kind === "liquidity_added" ? "default" : "secondary"}>
+                  {event.kind === "liquidity_added" ? "Deposit" : "Withdrawal"}
+                </Badge>
+                <span className="text-muted-foreground">{new Date(event.occurredAt).toLocaleDateString()}</span>
+              </div>
+              <div className="flex items-center gap-2">
+                <span className="font-mono">
+                  {formatBalance(toAmount(event.pulseAmount), PULSE_DECIMALS, 2)} PULSE +{" "}
+                  {formatBalance(toAmount(event.stableAmount), USDC_DECIMALS, 2)} USDC
+                </span>
+                <a
+                  href={`${config.explorerUrl}/txn/${event.txVersion}?network=${network}`}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="text-muted-foreground hover:text-foreground"
+                >
+                  <ExternalLink className="w-3 h-3" />
+                </a>
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,109 @@
+import { useState } from "react";
+import { Link, useLocation } from "wouter";
+import { Bell, CheckCheck, Settings } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { useWalletConnection } from "@/hooks/useWalletConnection";
+import { useMarkNotificationsRead, useNotifications, type AppNotification } from "@/hooks/useNotifications";
+import { formatRelativeTime } from "@/lib/events";
+import { cn } from "@/lib/utils";
+
+/**
+ * Bell menu with the connected wallet's notifications
+ */
+export function NotificationBell() {
+  const { isConnected } = useWalletConnection();
+  const { data } = useNotifications();
+  const markRead = useMarkNotificationsRead();
+  const [, navigate] = useLocation();
+  const [open, setOpen] = useState(false);
+
+  if (!isConnected) return null;
+
+  const unreadCount = data?.unreadCount ?? 0;
+
+  const handleSelect = (notification: AppNotification) => {
+    if (!notification.readAt) markRead.mutate([notification.id]);
+    if (notification.link) {
+      setOpen(false);
+      navigate(notification.link);
+    }
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="relative rounded-full w-10 h-10 bg-background/50 backdrop-blur-sm border border-border"
+          data-testid="button-notifications"
+        >
+          <Bell className="h-[1.2rem] w-[1.2rem]" />
+          {unreadCount > 0 && (
+            <span className="absolute -top-1 -right-1 min-w-5 h-5 px-1 rounded-full bg-primary text-primary-foreground text-[10px] font-bold flex items-center justify-center">
+              {unreadCount > 99 ? "99+" : unreadCount}
+            </span>
+          )}
+          <span className="sr-only">Notifications</span>
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 p-0">
+        <div className="flex items-center justify-between px-4 py-3 border-b">
+          <span className="font-medium text-sm">Notifications</span>
+          <div className="flex items-center gap-1">
+            {unreadCount > 0 && (
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-7 px-2 text-xs gap-1"
+                onClick={() => markRead.mutate(undefined)}
+                disabled={markRead.isPending}
+              >
+                <CheckCheck className="w-3 h-3" />
+                Mark all read
+              </Button>
+            )}
+            <Link href="/settings" onClick={() => setOpen(false)}>
+              <Button variant="ghost" size="icon" className="h-7 w-7">
+                <Settings className="w-3 h-3" />
+                <span className="sr-only">Notification settings</span>
+              </Button>
+            </Link>
+          </div>
+        </div>
+        {!data || data.items.length === 0 ? (
+          <div className="flex flex-col items-center justify-center py-8 text-muted-foreground">
+            <Bell className="w-8 h-8 mb-2 opacity-50" />
+            <p className="text-sm">You're all caught up</p>
+          </div>
+        ) : (
+          <div className="max-h-96 overflow-y-auto">
+            {data.items.map((notification) => (
+              <button
+                key={notification.id}
+                type="button"
+                onClick={() => handleSelect(notification)}
+                className={cn(
+                  "w-full text-left px-4 py-3 border-b last:border-b-0 hover:bg-muted transition-colors",
+                  !notification.readAt && "bg-primary/5"
+                )}
+              >
+                <div className="flex items-start gap-2">
+                  {!notification.readAt && <span className="mt-1.5 w-2 h-2 rounded-full bg-primary shrink-0" />}
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium">{notification.title}</p>
+                    <p className="text-xs text-muted-foreground">{notification.body}</p>
+                    <p className="text-[10px] text-muted-foreground mt-1">
+                      {formatRelativeTime(new Date(notification.notifyAt).getTime())}
+                    </p>
+                  </div>
+                </div>
+              </button>
+            ))}
+          </div>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,244 @@
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Bell, CheckCircle2, Copy, Loader2, MailWarning, RefreshCcw, Save, Send } from "lucide-react";
+import { toast } from "sonner";
+import {
+  useNotificationPreferences,
+  useSendTestNotification,
+  useUpdateNotificationPreferences,
+} from "@/hooks/useNotifications";
+import {
+  NOTIFICATION_CHANNELS,
+  NOTIFICATION_TYPES,
+  type NotificationChannel,
+  type NotificationType,
+} from "@shared/schema";
+
+const TYPE_LABELS: Record<NotificationType, { label: string; description: string }> = {
+  poll_claiming: { label: "Rewards ready", description: "A poll you voted on opened for claims" },
+  claim_expiring: { label: "Claim window closing", description: "A day before an unclaimed reward expires" },
+  stake_unlocked: { label: "Stake unlocked", description: "A staking position can be withdrawn" },
+  season_ended: { label: "Season ended", description: "Your final rank and snapshot reward" },
+};
+
+const CHANNEL_LABELS: Record<NotificationChannel, string> = {
+  in_app: "In-app",
+  email: "Email",
+  webhook: "Webhook",
+};
+
+/**
+ * Settings card for notification channels, email and webhook
+ */
+export function NotificationSettings() {
+  const { data: preferences, isLoading } = useNotificationPreferences();
+  const updatePreferences = useUpdateNotificationPreferences();
+  const sendTest = useSendTestNotification();
+
+  const [channels, setChannels] = useState<Record<NotificationType, NotificationChannel[]> | null>(null);
+  const [email, setEmail] = useState("");
+  const [webhookUrl, setWebhookUrl] = useState("");
+
+  useEffect(() => {
+    if (!preferences) return;
+    setChannels(preferences.channels);
+    setEmail(preferences.email ?? "");
+    setWebhookUrl(preferences.webhookUrl ?? "");
+  }, [preferences]);
+
+  const toggleChannel = (type: NotificationType, channel: NotificationChannel, enabled: boolean) => {
+    if (!channels) return;
+    const current = channels[type];
+    setChannels({
+      ...channels,
+      [type]: enabled ? [...current, channel] : current.filter((c) => c !== channel),
+    });
+  };
+
+  const handleSave = async (rotateWebhookSecret = false) => {
+    try {
+      const saved = await updatePreferences.mutateAsync({
+        channels: channels ?? undefined,
+        email: email.trim() || null,
+        webhookUrl: webhookUrl.trim() || null,
+        rotateWebhookSecret,
+      });
+      toast.success(rotateWebhookSecret ? "Webhook secret rotated" : "Notification settings saved");
+      if (saved.email && saved.email !== preferences?.email) {
+        toast.info(`Check ${saved.email} for a confirmation link`);
+      }
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to save notification settings");
+    }
+  };
+
+  const handleResendConfirmation = async () => {
+    try {
+      await updatePreferences.mutateAsync({ resendEmailConfirmation: true });
+      toast.success(`Confirmation link sent to ${preferences?.email}`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to resend confirmation email");
+    }
+  };
+
+  const handleTest = async () => {
+    try {
+      const results = await sendTest.mutateAsync();
+      const entries = Object.entries(results) as [NotificationChannel, string][];
+      if (entries.length === 0) {
+        toast.info("Confirm an email address or save a webhook URL first");
+        return;
+      }
+      for (const [channel, result] of entries) {
+        if (result === "sent") {
+          toast.success(`Test ${CHANNEL_LABELS[channel].toLowerCase()} sent`);
+        } else {
+          toast.error(`Test ${CHANNEL_LABELS[channel].toLowerCase()} could not be delivered`);
+        }
+      }
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to send test notification");
+    }
+  };
+
+  const copySecret = () => {
+    if (!preferences?.webhookSecret) return;
+    navigator.clipboard.writeText(preferences.webhookSecret);
+    toast.success("Webhook secret copied");
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Bell className="w-5 h-5 text-primary" />
+          Notifications
+        </CardTitle>
+        <CardDescription>Choose how you hear about rewards, claims, stakes and seasons</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading || !channels ? (
+          <Skeleton className="h-40 w-full" />
+        ) : (
+          <div className="rounded-lg border overflow-hidden">
+            <div className="grid grid-cols-[1fr_repeat(3,4.5rem)] gap-2 px-4 py-2 bg-muted/50 text-xs font-medium text-muted-foreground">
+              <span>Notify me when</span>
+              {Object.values(NOTIFICATION_CHANNELS).map((channel) => (
+                <span key={channel} className="text-center">{CHANNEL_LABELS[channel]}</span>
+              ))}
+            </div>
+            {Object.values(NOTIFICATION_TYPES).map((type) => (
+              <div key={type} className="grid grid-cols-[1fr_repeat(3,4.5rem)] gap-2 px-4 py-3 border-t items-center">
+                <div>
+                  <p className="text-sm font-medium">{TYPE_LABELS[type].label}</p>
+                  <p className="text-xs text-muted-foreground">{TYPE_LABELS[type].description}</p>
+                </div>
+                {Object.values(NOTIFICATION_CHANNELS).map((channel) => (
+                  <div key={channel} className="flex justify-center">
+                    <Checkbox
+                      checked={channels[type].includes(channel)}
+                      onCheckedChange={(checked) => toggleChannel(type, channel, checked === true)}
+                      aria-label={`${TYPE_LABELS[type].label} by ${CHANNEL_LABELS[channel]}`}
+                    />
+                  </div>
+                ))}
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <Label htmlFor="notification-email">Email address</Label>
+          <Input
+            id="notification-email"
+            type="email"
+            placeholder="you@example.com"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+          />
+          {preferences?.email && email.trim() === preferences.email && (
+            preferences.emailConfirmedAt ? (
+              <p className="flex items-center gap-1 text-xs text-muted-foreground">
+                <CheckCircle2 className="w-3 h-3 text-green-500" />
+                Confirmed
+              </p>
+            ) : (
+              <div className="flex items-center justify-between gap-2 text-xs text-muted-foreground">
+                <span className="flex items-center gap-1">
+                  <MailWarning className="w-3 h-3 text-yellow-500" />
+                  Follow the link we emailed to start email notifications
+                </span>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 px-2"
+                  onClick={handleResendConfirmation}
+                  disabled={updatePreferences.isPending}
+                >
+                  Resend
+                </Button>
+              </div>
+            )
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="notification-webhook">Webhook URL</Label>
+          <Input
+            id="notification-webhook"
+            type="url"
+            placeholder="https://example.com/hooks/mvpulse"
+            value={webhookUrl}
+            onChange={(e) => setWebhookUrl(e.target.value)}
+          />
+          {preferences?.webhookSecret && (
+            <div className="p-3 rounded-lg bg-muted/50 border space-y-2">
+              <div className="flex items-center justify-between gap-2">
+                <code className="text-xs font-mono truncate">{preferences.webhookSecret}</code>
+                <div className="flex gap-1 shrink-0">
+                  <Button variant="ghost" size="sm" className="h-7 px-2" onClick={copySecret}>
+                    <Copy className="w-3 h-3" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 px-2"
+                    onClick={() => handleSave(true)}
+                    disabled={updatePreferences.isPending}
+                  >
+                    <RefreshCcw className="w-3 h-3" />
+                  </Button>
+                </div>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Each delivery carries an <code>X-MVPulse-Signature: t=&lt;unix&gt;,v1=&lt;hex&gt;</code> header,
+                the HMAC-SHA256 of <code>&lt;t&gt;.&lt;body&gt;</code> keyed with this secret.
+              </p>
+            </div>
+          )}
+        </div>
+
+        <div className="flex justify-end gap-2">
+          <Button
+            variant="outline"
+            onClick={handleTest}
+            disabled={sendTest.isPending || (!preferences?.emailConfirmedAt && !preferences?.webhookUrl)}
+            className="gap-2"
+          >
+            {sendTest.isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : <Send className="w-4 h-4" />}
+            Send test
+          </Button>
+          <Button onClick={() => handleSave()} disabled={!channels || updatePreferences.isPending} className="gap-2">
+            {updatePreferences.isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+            Save
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
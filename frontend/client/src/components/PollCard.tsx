@@ -4,6 +4,9 @@ import { Button } from "@/components/ui/button";
 import { Progress } from "@/components/ui/progress";
 import { Clock, Users, Trophy, ArrowRight } from "lucide-react";
 import { Link } from "wouter";
+import { cn } from "@/lib/utils";
+import { useLivePoll } from "@/hooks/useLiveUpdates";
+import { POLL_STATUS } from "@/types/poll";
 
 interface PollProps {
   id: string;
@@ -18,7 +21,12 @@ interface PollProps {
   actionLabel?: string; // Custom button text (e.g., "Fund" for donors, "Participate" for participants)
 }
 
-export function PollCard({ id, title, description, votes, timeLeft, reward, status, tags, hasVoted, actionLabel }: PollProps) {
+export function PollCard({ id, title, description, votes: initialVotes, timeLeft, reward, status: initialStatus, tags, hasVoted, actionLabel }: PollProps) {
+  // Vote counts and closing are pushed live; the props are the last fetched state
+  const live = useLivePoll(parseInt(id, 10));
+  const votes = live?.totalVotes ?? initialVotes;
+  const status = live?.status !== undefined && live.status !== POLL_STATUS.ACTIVE ? "closed" : initialStatus;
+
   // Determine button text: custom label > "View Results" if voted/closed > default "Participate"
   const buttonText = status === "closed" || hasVoted
     ? "View Results"
@@ -58,7 +66,16 @@ export function PollCard({ id, title, description, votes, timeLeft, reward, stat
         
         <div className="space-y-2">
           <div className="flex justify-between text-xs text-muted-foreground">
-            <span className="flex items-center gap-1"><Users className="w-3 h-3" /> {votes} votes</span>
+            <span className="flex items-center gap-1">
+              <Users className="w-3 h-3" />
+              <span
+                key={votes}
+                className={cn(live?.totalVotes !== undefined && "animate-in zoom-in-50 fade-in duration-500 text-primary")}
+              >
+                {votes}
+              </span>{" "}
+              votes
+            </span>
             <span className="flex items-center gap-1"><Clock className="w-3 h-3" /> {timeLeft}</span>
           </div>
           <Progress value={65} className="h-1" />
@@ -3,7 +3,7 @@ import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Progress } from "@/components/ui/progress";
 import { CheckCircle2, Clock, Gift, Star, Trophy, Zap, Target, Loader2 } from "lucide-react";
-import { QUEST_TYPE_NAMES, QUEST_TYPES } from "@shared/schema";
+import { QUEST_TYPE_NAMES, QUEST_TYPES, QUEST_ACTION_NAMES, type QuestAction } from "@shared/schema";
 import type { QuestWithProgress } from "@/hooks/useQuests";
 
 interface QuestCardProps {
@@ -91,7 +91,7 @@ export function QuestCard({ quest, onClaim, isClaiming }: QuestCardProps) {
           <div className="flex items-center justify-between text-sm">
             <div className="flex items-center gap-2">
               <Target className="w-4 h-4 text-muted-foreground" />
-              <span className="text-muted-foreground">{quest.targetAction}</span>
+              <span className="text-muted-foreground">{QUEST_ACTION_NAMES[quest.targetAction as QuestAction] ?? quest.targetAction}</span>
             </div>
             <span className="font-mono font-medium">
               {currentValue}/{quest.targetValue}
@@ -0,0 +1,232 @@
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ShieldCheck, UserPlus, Trash2, History, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import {
+  useRoleGrants,
+  useRoleAudit,
+  useGrantRole,
+  useRevokeRole,
+} from "@/hooks/useAdmin";
+import {
+  ADMIN_ROLES,
+  ADMIN_ROLE_NAMES,
+  ROLE_AUDIT_ACTIONS,
+  type AdminRole,
+} from "@shared/schema";
+
+function shortAddress(address: string): string {
+  return `${address.slice(0, 10)}...${address.slice(-8)}`;
+}
+
+interface RoleManagementProps {
+  currentAddress?: string | null;
+}
+
+/**
+ * Admin section for granting and revoking server-side roles
+ */
+export function RoleManagement({ currentAddress }: RoleManagementProps) {
+  const { data: roleData, isLoading: grantsLoading } = useRoleGrants(true);
+  const { data: auditLog, isLoading: auditLoading } = useRoleAudit(true);
+  const grantRole = useGrantRole();
+  const revokeRole = useRevokeRole();
+
+  const [walletAddress, setWalletAddress] = useState("");
+  const [role, setRole] = useState<AdminRole>(ADMIN_ROLES.SEASON_OPERATOR);
+
+  const handleGrant = async () => {
+    const trimmed = walletAddress.trim();
+    if (!/^0x[0-9a-fA-F]{1,64}$/.test(trimmed)) {
+      toast.error("Enter a valid wallet address");
+      return;
+    }
+
+    try {
+      await grantRole.mutateAsync({ walletAddress: trimmed, role });
+      toast.success(`Granted ${ADMIN_ROLE_NAMES[role]} to ${shortAddress(trimmed)}`);
+      setWalletAddress("");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to grant role");
+    }
+  };
+
+  const handleRevoke = async (address: string, grantRoleValue: AdminRole) => {
+    try {
+      await revokeRole.mutateAsync({ walletAddress: address, role: grantRoleValue });
+      toast.success(`Revoked ${ADMIN_ROLE_NAMES[grantRoleValue]} from ${shortAddress(address)}`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to revoke role");
+    }
+  };
+
+  return (
+    <>
+      {/* Roles */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <ShieldCheck className="w-5 h-5" />
+            Roles
+          </CardTitle>
+          <CardDescription>
+            Server-enforced roles for season and quest management
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-col sm:flex-row gap-2">
+            <Input
+              placeholder="0x..."
+              value={walletAddress}
+              onChange={(e) => setWalletAddress(e.target.value)}
+              className="font-mono"
+            />
+            <Select value={role} onValueChange={(value) => setRole(value as AdminRole)}>
+              <SelectTrigger className="sm:w-48">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.values(ADMIN_ROLES).map((value) => (
+                  <SelectItem key={value} value={value}>
+                    {ADMIN_ROLE_NAMES[value]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button onClick={handleGrant} disabled={grantRole.isPending} className="gap-2">
+              {grantRole.isPending ? (
+                <Loader2 className="w-4 h-4 animate-spin" />
+              ) : (
+                <UserPlus className="w-4 h-4" />
+              )}
+              Grant
+            </Button>
+          </div>
+
+          {grantsLoading ? (
+            <div className="space-y-2">
+              <Skeleton className="h-12 w-full" />
+              <Skeleton className="h-12 w-full" />
+            </div>
+          ) : (
+            <div className="space-y-2">
+              {roleData?.bootstrapAdmins.map((addr) => (
+                <div
+                  key={`env-${addr}`}
+                  className="flex items-center justify-between p-3 rounded-lg bg-muted/50 border"
+                >
+                  <span className="font-mono text-sm">{addr}</span>
+                  <div className="flex items-center gap-2">
+                    {addr === currentAddress?.toLowerCase() && (
+                      <Badge variant="outline" className="text-green-500 border-green-500/50">
+                        You
+                      </Badge>
+                    )}
+                    <Badge variant="secondary">{ADMIN_ROLE_NAMES.admin}</Badge>
+                    <Badge variant="outline">env</Badge>
+                  </div>
+                </div>
+              ))}
+              {roleData?.grants.map((grant) => (
+                <div
+                  key={grant.id}
+                  className="flex items-center justify-between p-3 rounded-lg bg-muted/50 border"
+                >
+                  <span className="font-mono text-sm">{grant.walletAddress}</span>
+                  <div className="flex items-center gap-2">
+                    {grant.walletAddress === currentAddress?.toLowerCase() && (
+                      <Badge variant="outline" className="text-green-500 border-green-500/50">
+                        You
+                      </Badge>
+                    )}
+                    <Badge variant="secondary">
+                      {ADMIN_ROLE_NAMES[grant.role as AdminRole] ?? grant.role}
+                    </Badge>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8 text-destructive"
+                      disabled={revokeRole.isPending}
+                      onClick={() => handleRevoke(grant.walletAddress, grant.role as AdminRole)}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+              {roleData && roleData.bootstrapAdmins.length === 0 && roleData.grants.length === 0 && (
+                <p className="text-sm text-muted-foreground">No roles granted</p>
+              )}
+            </div>
+          )}
+          <p className="text-xs text-muted-foreground">
+            Bootstrap admins come from the <code className="bg-muted px-1 rounded">ADMIN_ADDRESSES</code> server
+            environment variable and cannot be revoked here.
+          </p>
+        </CardContent>
+      </Card>
+
+      {/* Audit Trail */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <History className="w-5 h-5" />
+            Role Audit Trail
+          </CardTitle>
+          <CardDescription>Recent role grants and revocations</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {auditLoading ? (
+            <div className="space-y-2">
+              <Skeleton className="h-10 w-full" />
+              <Skeleton className="h-10 w-full" />
+            </div>
+          ) : !auditLog || auditLog.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No role changes yet</p>
+          ) : (
+            <div className="space-y-2">
+              {auditLog.map((entry) => (
+                <div
+                  key={entry.id}
+                  className="flex flex-col sm:flex-row sm:items-center justify-between gap-1 p-3 rounded-lg bg-muted/50 border text-sm"
+                >
+                  <div className="flex items-center gap-2">
+                    <Badge
+                      variant="outline"
+                      className={
+                        entry.action === ROLE_AUDIT_ACTIONS.GRANT
+                          ? "text-green-500 border-green-500/50"
+                          : "text-destructive border-destructive/50"
+                      }
+                    >
+                      {entry.action === ROLE_AUDIT_ACTIONS.GRANT ? "Granted" : "Revoked"}
+                    </Badge>
+                    <span>{ADMIN_ROLE_NAMES[entry.role as AdminRole] ?? entry.role}</span>
+                    <span className="font-mono text-muted-foreground">
+                      {shortAddress(entry.walletAddress)}
+                    </span>
+                  </div>
+                  <div className="text-xs text-muted-foreground">
+                    by <span className="font-mono">{shortAddress(entry.actorAddress)}</span> ·{" "}
+                    {new Date(entry.createdAt).toLocaleString()}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </>
+  );
+}
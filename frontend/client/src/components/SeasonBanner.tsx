@@ -3,6 +3,9 @@ import { Badge } from "@/components/ui/badge";
 import { Progress } from "@/components/ui/progress";
 import { Calendar, Clock, Coins, Trophy, Users } from "lucide-react";
 import type { SeasonInfo } from "@/hooks/useQuests";
+import { toTokenAmount } from "@/lib/balance";
+import { COIN_TYPES } from "@/lib/tokens";
+import { toAmount } from "@shared/schema";
 
 interface SeasonBannerProps {
   season: SeasonInfo;
@@ -12,7 +15,7 @@ interface SeasonBannerProps {
 }
 
 export function SeasonBanner({ season, userPoints, userRank, compact = false }: SeasonBannerProps) {
-  const pulsePool = Number(season.totalPulsePool) / 1e8;
+  const pulsePool = toTokenAmount(toAmount(season.totalPulsePool), COIN_TYPES.PULSE);
   const startDate = new Date(season.startTime);
   const endDate = new Date(season.endTime);
   const now = Date.now();
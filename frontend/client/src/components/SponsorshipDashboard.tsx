@@ -0,0 +1,313 @@
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Progress } from "@/components/ui/progress";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Fuel, Loader2, Save, Target } from "lucide-react";
+import { toast } from "sonner";
+import { formatBalance, parseInputAmount } from "@/lib/balance";
+import {
+  useSponsorshipSpend,
+  useUpdateCampaignBudget,
+  useUpdateSponsorshipPolicy,
+  type SponsorshipCampaign,
+} from "@/hooks/useSponsorship";
+import { SEASON_STATUS, TIER_NAMES, TIERS, formatUnits, toAmount } from "@shared/schema";
+
+const PROVIDER_NAMES = {
+  shinami: "Shinami Gas Station",
+  fee_payer: "Self-hosted fee payer",
+};
+
+function formatMove(octas: string): string {
+  return `${formatBalance(toAmount(octas))} MOVE`;
+}
+
+function shortAddress(address: string): string {
+  return `${address.slice(0, 10)}...${address.slice(-8)}`;
+}
+
+// Blank means no cap
+function toOctas(move: string): string | null {
+  return move.trim() === "" ? null : (parseInputAmount(move, 8)?.toString() ?? null);
+}
+
+function toMoveInput(octas: string | null): string {
+  return octas === null ? "" : formatUnits(toAmount(octas), 8);
+}
+
+function CampaignRow({ campaign }: { campaign: SponsorshipCampaign }) {
+  const updateBudget = useUpdateCampaignBudget();
+  const [budget, setBudget] = useState(toMoveInput(campaign.budget));
+  const usage = campaign.budget ? Math.min(100, (Number(campaign.gasSpent) / Number(campaign.budget)) * 100) : null;
+
+  const handleSave = async () => {
+    if (budget.trim() !== "" && parseInputAmount(budget, 8) === null) {
+      toast.error("Enter a budget in MOVE, or leave it blank for no cap");
+      return;
+    }
+    try {
+      await updateBudget.mutateAsync({ seasonId: campaign.seasonId, budget: toOctas(budget) });
+      toast.success(`Updated ${campaign.name}'s sponsorship budget`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to set campaign budget");
+    }
+  };
+
+  return (
+    <div className="p-3 rounded-lg bg-muted/50 border space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <span className="font-medium">#{campaign.seasonNumber} {campaign.name}</span>
+          {campaign.status === SEASON_STATUS.ACTIVE && <Badge variant="secondary">Active</Badge>}
+        </div>
+        <span className="text-sm text-muted-foreground">
+          {formatMove(campaign.gasSpent)} · {campaign.transactions} txs
+        </span>
+      </div>
+      {usage !== null && <Progress value={usage} className="h-1.5" />}
+      <div className="flex gap-2">
+        <Input
+          type="number"
+          min="0"
+          step="0.1"
+          placeholder="No cap"
+          value={budget}
+          onChange={(e) => setBudget(e.target.value)}
+          className="h-8"
+        />
+        <Button size="sm" variant="outline" onClick={handleSave} disabled={updateBudget.isPending}>
+          {updateBudget.isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : "Set budget"}
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Admin section for sponsorship policy and gas spend on the active network
+ */
+export function SponsorshipDashboard() {
+  const { data: spend, isLoading } = useSponsorshipSpend(true);
+  const updatePolicy = useUpdateSponsorshipPolicy();
+
+  const [allowedFunctions, setAllowedFunctions] = useState("");
+  const [tierLimits, setTierLimits] = useState<Record<number, string>>({});
+  const [dailyBudget, setDailyBudget] = useState("");
+
+  useEffect(() => {
+    if (!spend) return;
+    setAllowedFunctions(spend.policy.allowedFunctions.join("\n"));
+    setTierLimits(
+      Object.fromEntries(Object.entries(spend.policy.tierDailyLimits).map(([tier, limit]) => [tier, String(limit)]))
+    );
+    setDailyBudget(toMoveInput(spend.policy.dailyGasBudget));
+  }, [spend?.policy]);
+
+  const handleSavePolicy = async () => {
+    const limits = Object.values(TIERS).map((tier) => [tier, Number(tierLimits[tier])] as const);
+    if (limits.some(([, limit]) => !Number.isInteger(limit) || limit < 0)) {
+      toast.error("Daily limits must be whole numbers");
+      return;
+    }
+    if (dailyBudget.trim() !== "" && parseInputAmount(dailyBudget, 8) === null) {
+      toast.error("Enter a daily budget in MOVE, or leave it blank for no cap");
+      return;
+    }
+
+    try {
+      await updatePolicy.mutateAsync({
+        allowedFunctions: allowedFunctions.split("\n").map((fn) => fn.trim()).filter(Boolean),
+        tierDailyLimits: Object.fromEntries(limits),
+        dailyGasBudget: toOctas(dailyBudget),
+      });
+      toast.success("Sponsorship policy saved");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to save sponsorship policy");
+    }
+  };
+
+  const maxDailySpend = Math.max(1, ...(spend?.daily ?? []).map((day) => Number(day.gasSpent)));
+  const budgetUsage = spend?.policy.dailyGasBudget
+    ? Math.min(100, (Number(spend.today.gasSpent) / Number(spend.policy.dailyGasBudget)) * 100)
+    : null;
+
+  return (
+    <>
+      {/* Spend */}
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Fuel className="w-5 h-5" />
+              Gas Sponsorship
+            </CardTitle>
+            <CardDescription>Gas paid for users' transactions over the last 14 days</CardDescription>
+          </div>
+          {spend && (
+            <Badge variant="outline">{spend.provider ? PROVIDER_NAMES[spend.provider] : "Not configured"}</Badge>
+          )}
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {isLoading || !spend ? (
+            <div className="space-y-2">
+              <Skeleton className="h-16 w-full" />
+              <Skeleton className="h-32 w-full" />
+            </div>
+          ) : (
+            <>
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                <div className="p-3 rounded-lg bg-muted/50 border">
+                  <p className="text-xs text-muted-foreground">Sponsored today</p>
+                  <p className="text-xl font-bold">{spend.today.transactions}</p>
+                  {spend.today.pending > 0 && (
+                    <p className="text-xs text-muted-foreground">{spend.today.pending} awaiting gas settlement</p>
+                  )}
+                </div>
+                <div className="p-3 rounded-lg bg-muted/50 border sm:col-span-2 space-y-1">
+                  <p className="text-xs text-muted-foreground">Gas spent today</p>
+                  <p className="text-xl font-bold">
+                    {formatMove(spend.today.gasSpent)}
+                    {spend.policy.dailyGasBudget && (
+                      <span className="text-sm font-normal text-muted-foreground">
+                        {" "}of {formatMove(spend.policy.dailyGasBudget)}
+                      </span>
+                    )}
+                  </p>
+                  {budgetUsage !== null && <Progress value={budgetUsage} className="h-1.5" />}
+                </div>
+              </div>
+
+              <div className="space-y-1">
+                <p className="text-sm font-medium">Daily spend</p>
+                {spend.daily.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No sponsored transactions yet</p>
+                ) : (
+                  spend.daily.map((day) => (
+                    <div key={day.date} className="flex items-center gap-3 text-xs">
+                      <span className="w-20 text-muted-foreground font-mono">{day.date.slice(5)}</span>
+                      <div className="flex-1 h-2 rounded bg-muted overflow-hidden">
+                        <div
+                          className="h-full bg-primary"
+                          style={{ width: `${(Number(day.gasSpent) / maxDailySpend) * 100}%` }}
+                        />
+                      </div>
+                      <span className="w-36 text-right">
+                        {formatMove(day.gasSpent)} · {day.transactions}
+                      </span>
+                    </div>
+                  ))
+                )}
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <p className="text-sm font-medium">By function</p>
+                  {spend.byFunction.map((row) => (
+                    <div key={row.entryFunction} className="flex justify-between text-sm">
+                      <span className="font-mono truncate">{row.entryFunction}</span>
+                      <span className="text-muted-foreground shrink-0 ml-2">
+                        {formatMove(row.gasSpent)} · {row.transactions}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+                <div className="space-y-2">
+                  <p className="text-sm font-medium">Top wallets</p>
+                  {spend.topWallets.map((row) => (
+                    <div key={row.walletAddress} className="flex justify-between text-sm">
+                      <span className="font-mono">{shortAddress(row.walletAddress)}</span>
+                      <span className="text-muted-foreground">
+                        {formatMove(row.gasSpent)} · {row.transactions}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            </>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Policy */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Target className="w-5 h-5" />
+            Sponsorship Policy
+          </CardTitle>
+          <CardDescription>Which transactions qualify and how much each wallet and the platform can spend</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="allowed-functions">Allowed entry functions</Label>
+            <Textarea
+              id="allowed-functions"
+              placeholder={"poll::vote\npoll::claim_reward"}
+              value={allowedFunctions}
+              onChange={(e) => setAllowedFunctions(e.target.value)}
+              className="font-mono text-sm"
+              rows={4}
+            />
+            <p className="text-xs text-muted-foreground">
+              One module::function per line, in the poll or staking contract. Only listed functions are sponsored; leave empty to pause sponsorship.
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Sponsored transactions per wallet per day</Label>
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+              {Object.values(TIERS).map((tier) => (
+                <div key={tier} className="space-y-1">
+                  <span className="text-xs text-muted-foreground">{TIER_NAMES[tier]}</span>
+                  <Input
+                    type="number"
+                    min="0"
+                    value={tierLimits[tier] ?? ""}
+                    onChange={(e) => setTierLimits({ ...tierLimits, [tier]: e.target.value })}
+                  />
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="daily-gas-budget">Daily gas budget (MOVE)</Label>
+            <Input
+              id="daily-gas-budget"
+              type="number"
+              min="0"
+              step="0.1"
+              placeholder="No cap"
+              value={dailyBudget}
+              onChange={(e) => setDailyBudget(e.target.value)}
+            />
+          </div>
+
+          <div className="flex justify-end">
+            <Button onClick={handleSavePolicy} disabled={!spend || updatePolicy.isPending} className="gap-2">
+              {updatePolicy.isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+              Save Policy
+            </Button>
+          </div>
+
+          {spend && spend.campaigns.length > 0 && (
+            <div className="space-y-2 pt-2">
+              <Label>Season campaign budgets (MOVE)</Label>
+              <p className="text-xs text-muted-foreground">
+                Gas sponsored while a season is active counts toward its budget; sponsorship pauses once it's spent.
+              </p>
+              {spend.campaigns.map((campaign) => (
+                <CampaignRow key={`${campaign.seasonId}-${campaign.budget}`} campaign={campaign} />
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </>
+  );
+}
@@ -0,0 +1,169 @@
+import { useState } from "react";
+import { Area, AreaChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { ChartContainer, ChartTooltip, type ChartConfig } from "@/components/ui/chart";
+import { LineChart } from "lucide-react";
+import { useSwapCandles, useSwapPoolStats } from "@/hooks/useSwapAnalytics";
+import { formatBalance } from "@/lib/balance";
+import { COIN_TYPES, getCoinDecimals } from "@/lib/tokens";
+import { SWAP_CANDLE_INTERVALS, toAmount, type SwapCandle, type SwapCandleInterval } from "@shared/schema";
+
+const chartConfig = {
+  close: { label: "Price", color: "hsl(var(--primary))" },
+} satisfies ChartConfig;
+
+const USDC_DECIMALS = getCoinDecimals(COIN_TYPES.USDC);
+
+function formatPrice(price: number): string {
+  return price.toLocaleString(undefined, { maximumSignificantDigits: 6 });
+}
+
+function formatUsdc(amount: string): string {
+  return `${formatBalance(toAmount(amount), USDC_DECIMALS, 2)} USDC`;
+}
+
+function formatTick(time: string, interval: SwapCandleInterval): string {
+  const date = new Date(time);
+  return interval === "1d"
+    ? date.toLocaleDateString(undefined, { month: "short", day: "numeric" })
+    : date.toLocaleTimeString(undefined, { hour: "2-digit", minute: "2-digit" });
+}
+
+function CandleTooltip({ active, payload }: { active?: boolean; payload?: { payload: SwapCandle }[] }) {
+  if (!active || !payload?.length) return null;
+  const candle = payload[0].payload;
+
+  return (
+    <div className="rounded-lg border bg-background px-3 py-2 text-xs shadow-xl space-y-1">
+      <p className="font-medium">{new Date(candle.time).toLocaleString()}</p>
+      <div className="grid grid-cols-2 gap-x-3 font-mono">
+        <span className="text-muted-foreground">Open</span>
+        <span>{formatPrice(candle.open)}</span>
+        <span className="text-muted-foreground">High</span>
+        <span>{formatPrice(candle.high)}</span>
+        <span className="text-muted-foreground">Low</span>
+        <span>{formatPrice(candle.low)}</span>
+        <span className="text-muted-foreground">Close</span>
+        <span>{formatPrice(candle.close)}</span>
+      </div>
+      <p className="text-muted-foreground">
+        {candle.trades} trades · {formatUsdc(candle.volume)}
+      </p>
+    </div>
+  );
+}
+
+/**
+ * PULSE price history with 24h volume, LP fees, TVL and fee APR
+ */
+export function SwapPriceChart() {
+  const [interval, setCandleInterval] = useState<SwapCandleInterval>("1h");
+  const { data: candles, isLoading } = useSwapCandles(interval);
+  const { data: stats } = useSwapPoolStats();
+
+  const first = candles?.[0];
+  const last = candles?.[candles.length - 1];
+  const change = first && last && first.open > 0 ? ((last.close - first.open) / first.open) * 100 : null;
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <div className="flex items-start justify-between gap-2">
+          <div>
+            <CardTitle className="text-lg flex items-center gap-2">
+              <LineChart className="w-5 h-5" />
+              PULSE Price
+            </CardTitle>
+            <CardDescription>
+              {last ? `${formatPrice(last.close)} USDC` : "No trades yet"}
+              {change !== null && (
+                <span className={change >= 0 ? "text-green-500 ml-2" : "text-red-500 ml-2"}>
+                  {change >= 0 ? "+" : ""}
+                  {change.toFixed(2)}%
+                </span>
+              )}
+            </CardDescription>
+          </div>
+          <div className="flex gap-1">
+            {(Object.keys(SWAP_CANDLE_INTERVALS) as SwapCandleInterval[]).map((option) => (
+              <Button
+                key={option}
+                variant={interval === option ? "default" : "outline"}
+                size="sm"
+                className="h-7 px-2"
+                onClick={() => setCandleInterval(option)}
+              >
+                {option}
+              </Button>
+            ))}
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <Skeleton className="h-48 w-full" />
+        ) : candles && candles.length > 0 ? (
+          <ChartContainer config={chartConfig} className="aspect-auto h-48 w-full">
+            <AreaChart data={candles} margin={{ left: 0, right: 0, top: 4, bottom: 0 }}>
+              <CartesianGrid vertical={false} />
+              <XAxis
+                dataKey="time"
+                tickLine={false}
+                axisLine={false}
+                minTickGap={32}
+                tickFormatter={(time: string) => formatTick(time, interval)}
+              />
+              <YAxis
+                dataKey="close"
+                tickLine={false}
+                axisLine={false}
+                width={64}
+                domain={["auto", "auto"]}
+                tickFormatter={(price: number) => formatPrice(price)}
+              />
+              <ChartTooltip content={<CandleTooltip />} />
+              <Area
+                dataKey="close"
+                type="monotone"
+                stroke="var(--color-close)"
+                fill="var(--color-close)"
+                fillOpacity={0.15}
+                strokeWidth={2}
+                isAnimationActive={false}
+              />
+            </AreaChart>
+          </ChartContainer>
+        ) : (
+          <div className="h-48 flex items-center justify-center text-sm text-muted-foreground">
+            No price history for this period
+          </div>
+        )}
+
+        {stats && (
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <div className="p-3 bg-muted/50 rounded-lg">
+              <p className="text-sm text-muted-foreground">24h Volume</p>
+              <p className="font-mono font-semibold">{formatUsdc(stats.volume24h)}</p>
+            </div>
+            <div className="p-3 bg-muted/50 rounded-lg">
+              <p className="text-sm text-muted-foreground">24h LP Fees</p>
+              <p className="font-mono font-semibold">{formatUsdc(stats.fees24h)}</p>
+            </div>
+            <div className="p-3 bg-muted/50 rounded-lg">
+              <p className="text-sm text-muted-foreground">TVL</p>
+              <p className="font-mono font-semibold">{formatUsdc(stats.tvl)}</p>
+            </div>
+            <div className="p-3 bg-muted/50 rounded-lg">
+              <p className="text-sm text-muted-foreground">Fee APR</p>
+              <p className="font-mono font-semibold">
+                {stats.feeApr !== null ? `${stats.feeApr.toFixed(2)}%` : "—"}
+              </p>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,7 +1,7 @@
 import { Badge } from "@/components/ui/badge";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
 import { Crown, Medal, Award, Shield } from "lucide-react";
-import { TIER_NAMES, TIER_VOTE_LIMITS, TIER_PULSE_THRESHOLDS, TIERS } from "@shared/schema";
+import { TIER_NAMES, TIER_VOTE_LIMITS, TIER_PULSE_THRESHOLDS, TIERS, ZERO_AMOUNT, amountToNumber, toAmount } from "@shared/schema";
 
 interface TierBadgeProps {
   tier: number;
@@ -64,7 +64,7 @@ export function TierBadge({ tier, showVoteLimit = false, showTooltip = true, siz
   const sizes = sizeConfig[size];
   const tierName = TIER_NAMES[tier as keyof typeof TIER_NAMES] || "Bronze";
   const voteLimit = TIER_VOTE_LIMITS[tier as keyof typeof TIER_VOTE_LIMITS] || 3;
-  const pulseThreshold = TIER_PULSE_THRESHOLDS[tier as keyof typeof TIER_PULSE_THRESHOLDS] || 0;
+  const pulseThreshold = TIER_PULSE_THRESHOLDS[tier] ?? ZERO_AMOUNT;
 
   const Icon = config.icon;
 
@@ -95,9 +95,9 @@ export function TierBadge({ tier, showVoteLimit = false, showTooltip = true, siz
           <div className="text-sm space-y-1">
             <p className="font-semibold">{tierName} Tier</p>
             <p className="text-muted-foreground">{voteLimit} votes per day</p>
-            {pulseThreshold > 0 && (
+            {pulseThreshold > ZERO_AMOUNT && (
               <p className="text-muted-foreground">
-                Requires {(pulseThreshold / 1e8).toLocaleString()} PULSE (wallet + staked)
+                Requires {amountToNumber(pulseThreshold, 8).toLocaleString()} PULSE (wallet + staked)
               </p>
             )}
           </div>
@@ -116,7 +116,7 @@ interface TierProgressProps {
 }
 
 export function TierProgress({ currentTier, pulseBalance, stakedPulse = "0", streak }: TierProgressProps) {
-  const balance = BigInt(pulseBalance) + BigInt(stakedPulse);
+  const balance = toAmount(pulseBalance) + toAmount(stakedPulse);
   const nextTier = Math.min(currentTier + 1, TIERS.PLATINUM);
 
   if (currentTier >= TIERS.PLATINUM) {
@@ -127,14 +127,14 @@ export function TierProgress({ currentTier, pulseBalance, stakedPulse = "0", str
     );
   }
 
-  const nextThreshold = TIER_PULSE_THRESHOLDS[nextTier as keyof typeof TIER_PULSE_THRESHOLDS];
-  const currentThreshold = TIER_PULSE_THRESHOLDS[currentTier as keyof typeof TIER_PULSE_THRESHOLDS];
+  const nextThreshold = TIER_PULSE_THRESHOLDS[nextTier];
+  const currentThreshold = TIER_PULSE_THRESHOLDS[currentTier];
   const nextTierName = TIER_NAMES[nextTier as keyof typeof TIER_NAMES];
 
-  const pulseNeeded = BigInt(nextThreshold) - balance;
+  const pulseNeeded = nextThreshold - balance;
   const progress = currentThreshold === nextThreshold
     ? 100
-    : Number((balance - BigInt(currentThreshold)) * BigInt(100) / (BigInt(nextThreshold) - BigInt(currentThreshold)));
+    : Number((balance - currentThreshold) * BigInt(100) / (nextThreshold - currentThreshold));
 
   // Check streak bonus eligibility
   const streakBonusMessage = streak < 7
@@ -148,7 +148,7 @@ export function TierProgress({ currentTier, pulseBalance, stakedPulse = "0", str
       <div className="flex justify-between text-sm">
         <span className="text-muted-foreground">Next: {nextTierName}</span>
         <span className="font-mono text-xs">
-          {pulseNeeded > 0 ? `${(Number(pulseNeeded) / 1e8).toLocaleString()} PULSE needed` : "Ready!"}
+          {pulseNeeded > ZERO_AMOUNT ? `${amountToNumber(pulseNeeded, 8).toLocaleString()} PULSE needed` : "Ready!"}
         </span>
       </div>
       <div className="h-1.5 bg-muted rounded-full overflow-hidden">
@@ -0,0 +1,44 @@
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import type { RegisteredToken } from "@/lib/token-registry";
+
+function TokenIcon({ token }: { token: RegisteredToken }) {
+  if (token.icon) {
+    return <img src={token.icon} alt="" className="w-4 h-4 rounded-full" />;
+  }
+  return (
+    <span className="w-4 h-4 rounded-full bg-primary/15 text-primary text-[10px] font-bold flex items-center justify-center">
+      {token.symbol.charAt(0)}
+    </span>
+  );
+}
+
+/**
+ * Token picker for registry tokens, keyed by symbol
+ */
+export function TokenSelect({
+  tokens,
+  value,
+  onChange,
+}: {
+  tokens: RegisteredToken[];
+  value: string;
+  onChange: (symbol: string) => void;
+}) {
+  return (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger className="w-32">
+        <SelectValue placeholder="Token" />
+      </SelectTrigger>
+      <SelectContent>
+        {tokens.map((token) => (
+          <SelectItem key={token.symbol} value={token.symbol}>
+            <span className="flex items-center gap-2">
+              <TokenIcon token={token} />
+              {token.symbol}
+            </span>
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
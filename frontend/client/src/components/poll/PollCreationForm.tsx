@@ -17,15 +17,28 @@ import { DurationInput } from "@/components/ui/duration-input";
 import { Plus, Trash2, Sparkles, ArrowRight, ArrowLeft, Check, Loader2, Coins, Info, Calculator } from "lucide-react";
 import { useState, useMemo, useCallback } from "react";
 import { useContract } from "@/hooks/useContract";
+import { useReportQuestAction } from "@/hooks/useQuests";
 import { useWalletConnection } from "@/hooks/useWalletConnection";
 import { useNetwork } from "@/contexts/NetworkContext";
 import { useDurationInput, DURATION_OPTIONS, type DurationKey } from "@/hooks/useDurationInput";
 import { toast } from "sonner";
 import { cn } from "@/lib/utils";
-import { REWARD_TYPE, PLATFORM_FEE_BPS, calculatePlatformFee, calculateNetAmount } from "@/types/poll";
-import { COIN_TYPES, getCoinSymbol, CoinTypeId } from "@/lib/tokens";
+import {
+  QUEST_ACTIONS,
+  QUESTION_TYPES,
+  ZERO_AMOUNT,
+  calculateGrossAmount,
+  calculateNetAmount,
+  scaleOptions,
+  type Amount,
+  type QuestionType,
+} from "@shared/schema";
+import { REWARD_TYPE, PLATFORM_FEE_BPS } from "@/types/poll";
+import { COIN_TYPES, getCoinSymbol, getCoinDecimals, CoinTypeId } from "@/lib/tokens";
+import { formatBalance, parseInputAmount, toTokenAmount } from "@/lib/balance";
 import { TransactionConfirmationDialog } from "@/components/TransactionConfirmationDialog";
 import { showTransactionSuccessToast, showTransactionErrorToast } from "@/lib/transaction-feedback";
+import { useRecordPollQuestions, QUESTION_TYPE_LABELS } from "@/hooks/useQuestionTypes";
 
 // Re-export duration types for backwards compatibility
 export { DURATION_OPTIONS };
@@ -41,9 +54,11 @@ export interface PollFormData {
   options: string[];
   rewardType: number;
   selectedToken: CoinTypeId;
-  rewardPerVote: number; // in octas
+  rewardPerVote: Amount; // in smallest units
   maxVoters: number;
-  fundAmount: number; // in octas (gross amount including fee)
+  fundAmount: Amount; // in smallest units (gross amount including fee)
+  questionType: QuestionType;
+  maxSelections: number | null; // multi-select only; null = no limit
 }
 
 // Initial form values (optional, for pre-populating)
@@ -59,6 +74,8 @@ export interface PollFormInitialValues {
   targetResponders?: number;
   totalFund?: number; // in tokens (not octas)
   maxResponders?: number;
+  questionType?: QuestionType;
+  maxSelections?: number;
 }
 
 export interface PollCreationFormProps {
@@ -101,6 +118,8 @@ export function PollCreationForm({
 }: PollCreationFormProps) {
   const { isConnected, isPrivyWallet } = useWalletConnection();
   const { createPoll, loading } = useContract();
+  const reportQuestAction = useReportQuestAction();
+  const recordPollQuestions = useRecordPollQuestions();
   const { config } = useNetwork();
 
   // Determine if incentives should be shown
@@ -128,6 +147,15 @@ export function PollCreationForm({
   const [options, setOptions] = useState<string[]>(
     initialValues?.options?.length ? initialValues.options : ["", ""]
   );
+  const [questionType, setQuestionType] = useState<QuestionType>(initialValues?.questionType ?? QUESTION_TYPES.SINGLE);
+  const [maxSelections, setMaxSelections] = useState(initialValues?.maxSelections?.toString() || "");
+
+  // Rating and NPS questions vote on fixed scale points instead of custom options
+  const isScaleQuestion = questionType === QUESTION_TYPES.RATING || questionType === QUESTION_TYPES.NPS;
+  const effectiveOptions = useMemo(
+    () => (isScaleQuestion ? scaleOptions(questionType) : options.filter((o) => o.trim())),
+    [isScaleQuestion, questionType, options]
+  );
 
   // Compute effective duration (inherited or from input)
   const effectiveDurationSecs = hasInheritedDuration
@@ -144,49 +172,47 @@ export function PollCreationForm({
   const [totalFund, setTotalFund] = useState(initialValues?.totalFund?.toString() || "");
   const [maxResponders, setMaxResponders] = useState(initialValues?.maxResponders?.toString() || "");
 
-  // Calculated values
+  // Calculated values, in the selected token's smallest units
+  const tokenDecimals = getCoinDecimals(selectedToken);
   const calculations = useMemo(() => {
     if (rewardType === REWARD_TYPE.FIXED_PER_VOTE) {
-      const reward = parseFloat(rewardPerVoter) || 0;
+      const reward = parseInputAmount(rewardPerVoter, tokenDecimals) ?? ZERO_AMOUNT;
       const target = parseInt(targetResponders) || 0;
-      const netAmount = reward * target;
-      const grossAmount = netAmount > 0 ? Math.ceil((netAmount * 10000) / (10000 - PLATFORM_FEE_BPS) * 1e8) / 1e8 : 0;
-      const fee = grossAmount - netAmount;
+      const netAmount = reward * BigInt(target);
+      const grossAmount = calculateGrossAmount(netAmount, PLATFORM_FEE_BPS);
 
       return {
         grossAmount,
-        fee,
+        fee: grossAmount - netAmount,
         netAmount,
         rewardPerVoter: reward,
         maxVoters: target,
-        isValid: reward > 0 && target > 0,
+        isValid: reward > ZERO_AMOUNT && target > 0,
       };
     } else if (rewardType === REWARD_TYPE.EQUAL_SPLIT) {
-      const gross = parseFloat(totalFund) || 0;
+      const gross = parseInputAmount(totalFund, tokenDecimals) ?? ZERO_AMOUNT;
       const max = parseInt(maxResponders) || 0;
-      const fee = calculatePlatformFee(gross * 1e8) / 1e8;
-      const net = calculateNetAmount(gross * 1e8) / 1e8;
-      const perVoter = max > 0 ? net / max : 0;
+      const net = calculateNetAmount(gross, PLATFORM_FEE_BPS);
 
       return {
         grossAmount: gross,
-        fee,
+        fee: gross - net,
         netAmount: net,
-        rewardPerVoter: perVoter,
+        rewardPerVoter: max > 0 ? net / BigInt(max) : ZERO_AMOUNT,
         maxVoters: max,
-        isValid: gross > 0 && max > 0,
+        isValid: gross > ZERO_AMOUNT && max > 0,
       };
     }
 
     return {
-      grossAmount: 0,
-      fee: 0,
-      netAmount: 0,
-      rewardPerVoter: 0,
+      grossAmount: ZERO_AMOUNT,
+      fee: ZERO_AMOUNT,
+      netAmount: ZERO_AMOUNT,
+      rewardPerVoter: ZERO_AMOUNT,
       maxVoters: 0,
       isValid: true, // No incentives is valid
     };
-  }, [rewardType, rewardPerVoter, targetResponders, totalFund, maxResponders]);
+  }, [rewardType, rewardPerVoter, targetResponders, totalFund, maxResponders, tokenDecimals]);
 
   const addOption = () => setOptions([...options, ""]);
   const removeOption = (index: number) => setOptions(options.filter((_, i) => i !== index));
@@ -210,12 +236,19 @@ export function PollCreationForm({
       setStep(1);
       return false;
     }
-    const validOptions = options.filter((o) => o.trim());
-    if (validOptions.length < 2) {
+    if (effectiveOptions.length < 2) {
       toast.error("At least 2 options are required");
       setStep(2);
       return false;
     }
+    if (questionType === QUESTION_TYPES.MULTI_SELECT && maxSelections) {
+      const max = parseInt(maxSelections);
+      if (!(max >= 1 && max <= effectiveOptions.length)) {
+        toast.error(`Max selections must be between 1 and ${effectiveOptions.length}`);
+        setStep(2);
+        return false;
+      }
+    }
     // Validate incentives only if shown
     if (showIncentives) {
       if (rewardType === REWARD_TYPE.FIXED_PER_VOTE && !calculations.isValid) {
@@ -230,19 +263,16 @@ export function PollCreationForm({
       }
     }
     return true;
-  }, [title, description, options, showIncentives, rewardType, calculations.isValid]);
+  }, [title, description, effectiveOptions, questionType, maxSelections, showIncentives, rewardType, calculations.isValid]);
 
   // Get form data for embedded mode
   const getFormData = useCallback((): PollFormData => {
-    const validOptions = options.filter((o) => o.trim());
-
     // For fixed mode: reward_per_vote > 0, max_voters = target
     // For equal split: reward_per_vote = 0, max_voters = max responders
-    const rewardPerVoteOctas = rewardType === REWARD_TYPE.FIXED_PER_VOTE
-      ? Math.floor(calculations.rewardPerVoter * 1e8)
-      : 0;
+    const rewardPerVote = rewardType === REWARD_TYPE.FIXED_PER_VOTE
+      ? calculations.rewardPerVoter
+      : ZERO_AMOUNT;
     const maxVoters = calculations.maxVoters;
-    const fundAmountOctas = Math.floor(calculations.grossAmount * 1e8);
 
     return {
       title: title.trim(),
@@ -250,14 +280,16 @@ export function PollCreationForm({
       category: hasInheritedCategory ? inheritedCategory : category,
       duration: durationInput.fixedDuration,
       durationSecs: effectiveDurationSecs,
-      options: validOptions,
+      options: effectiveOptions,
       rewardType,
       selectedToken,
-      rewardPerVote: rewardPerVoteOctas,
+      rewardPerVote,
       maxVoters,
-      fundAmount: fundAmountOctas,
+      fundAmount: calculations.grossAmount,
+      questionType,
+      maxSelections: questionType === QUESTION_TYPES.MULTI_SELECT && maxSelections ? parseInt(maxSelections) : null,
     };
-  }, [title, description, category, durationInput.fixedDuration, effectiveDurationSecs, options, rewardType, selectedToken, calculations, hasInheritedCategory, inheritedCategory]);
+  }, [title, description, category, durationInput.fixedDuration, effectiveDurationSecs, effectiveOptions, rewardType, selectedToken, calculations, hasInheritedCategory, inheritedCategory, questionType, maxSelections]);
 
   // Execute the poll creation transaction (standalone mode)
   const executeCreatePoll = async () => {
@@ -284,6 +316,16 @@ export function PollCreationForm({
         config.explorerUrl,
         result.sponsored
       );
+      reportQuestAction(QUEST_ACTIONS.CREATE_POLL, result.hash);
+
+      const recorded = await recordPollQuestions(result.hash, [
+        { questionType: formData.questionType, maxSelections: formData.maxSelections },
+      ]);
+      if (!recorded) {
+        toast.warning("Poll created, but its question type could not be saved", {
+          description: "Votes will be counted as single choice.",
+        });
+      }
 
       // Call the callback if provided
       if (onPollCreated) {
@@ -326,7 +368,7 @@ export function PollCreationForm({
     }
 
     // If Privy wallet + has incentives, show confirmation dialog first
-    if (isPrivyWallet && calculations.grossAmount > 0) {
+    if (isPrivyWallet && calculations.grossAmount > ZERO_AMOUNT) {
       setShowConfirmation(true);
       return;
     }
@@ -472,29 +514,85 @@ export function PollCreationForm({
             </CardHeader>
           )}
           <CardContent className={cn("space-y-3", compact && "p-0")}>
-            {options.map((option, index) => (
-              <div key={index} className="flex gap-2">
+            <div className="space-y-2">
+              <Label>Question Type</Label>
+              <Select value={questionType} onValueChange={(value) => setQuestionType(value as QuestionType)}>
+                <SelectTrigger className="bg-muted/30">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(QUESTION_TYPE_LABELS) as QuestionType[]).map((type) => (
+                    <SelectItem key={type} value={type}>
+                      {QUESTION_TYPE_LABELS[type]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {questionType === QUESTION_TYPES.RANKED && (
+                <p className="text-xs text-muted-foreground">
+                  Voters rank the options; the winner is decided by instant runoff.
+                </p>
+              )}
+            </div>
+
+            {questionType === QUESTION_TYPES.MULTI_SELECT && (
+              <div className="space-y-2">
+                <Label htmlFor="maxSelections">Max Selections</Label>
                 <Input
-                  placeholder={`Option ${index + 1}`}
+                  id="maxSelections"
+                  type="number"
+                  min={1}
+                  placeholder="No limit"
                   className="bg-muted/30"
-                  value={option}
-                  onChange={(e) => updateOption(index, e.target.value)}
+                  value={maxSelections}
+                  onChange={(e) => setMaxSelections(e.target.value)}
                 />
-                {options.length > 2 && (
-                  <Button
-                    variant="ghost"
-                    size="icon"
-                    onClick={() => removeOption(index)}
-                    className="text-destructive hover:bg-destructive/10 shrink-0"
-                  >
-                    <Trash2 className="w-4 h-4" />
-                  </Button>
+              </div>
+            )}
+
+            {isScaleQuestion ? (
+              <div className="space-y-2">
+                <Label>Scale</Label>
+                <div className="flex flex-wrap gap-2">
+                  {effectiveOptions.map((point) => (
+                    <span key={point} className="w-9 h-9 rounded-md border bg-muted/30 flex items-center justify-center text-sm font-medium">
+                      {point}
+                    </span>
+                  ))}
+                </div>
+                {questionType === QUESTION_TYPES.NPS && (
+                  <p className="text-xs text-muted-foreground">
+                    "How likely are you to recommend...?" 0 = not at all likely, 10 = extremely likely.
+                  </p>
                 )}
               </div>
-            ))}
-            <Button variant="outline" onClick={addOption} className="w-full border-dashed" size={compact ? "sm" : "default"}>
-              <Plus className="w-4 h-4 mr-2" /> Add Option
-            </Button>
+            ) : (
+              <>
+                {options.map((option, index) => (
+                  <div key={index} className="flex gap-2">
+                    <Input
+                      placeholder={`Option ${index + 1}`}
+                      className="bg-muted/30"
+                      value={option}
+                      onChange={(e) => updateOption(index, e.target.value)}
+                    />
+                    {options.length > 2 && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => removeOption(index)}
+                        className="text-destructive hover:bg-destructive/10 shrink-0"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    )}
+                  </div>
+                ))}
+                <Button variant="outline" onClick={addOption} className="w-full border-dashed" size={compact ? "sm" : "default"}>
+                  <Plus className="w-4 h-4 mr-2" /> Add Option
+                </Button>
+              </>
+            )}
           </CardContent>
         </Card>
       )}
@@ -694,19 +792,19 @@ export function PollCreationForm({
                 <div className="grid grid-cols-2 gap-1.5 text-xs">
                   <div className="flex justify-between">
                     <span className="text-muted-foreground">Total Deposit:</span>
-                    <span className="font-mono font-medium">{calculations.grossAmount.toFixed(4)} {getCoinSymbol(selectedToken)}</span>
+                    <span className="font-mono font-medium">{formatBalance(calculations.grossAmount, tokenDecimals)} {getCoinSymbol(selectedToken)}</span>
                   </div>
                   <div className="flex justify-between">
                     <span className="text-muted-foreground">Platform Fee:</span>
-                    <span className="font-mono text-destructive">-{calculations.fee.toFixed(4)}</span>
+                    <span className="font-mono text-destructive">-{formatBalance(calculations.fee, tokenDecimals)}</span>
                   </div>
                   <div className="flex justify-between">
                     <span className="text-muted-foreground">Net Pool:</span>
-                    <span className="font-mono font-medium text-green-600">{calculations.netAmount.toFixed(4)}</span>
+                    <span className="font-mono font-medium text-green-600">{formatBalance(calculations.netAmount, tokenDecimals)}</span>
                   </div>
                   <div className="flex justify-between">
                     <span className="text-muted-foreground">Per voter:</span>
-                    <span className="font-mono">~{calculations.rewardPerVoter.toFixed(4)}</span>
+                    <span className="font-mono">~{formatBalance(calculations.rewardPerVoter, tokenDecimals)}</span>
                   </div>
                 </div>
                 <div className="pt-1.5 border-t border-accent/20 text-[10px] text-muted-foreground">
@@ -778,11 +876,11 @@ export function PollCreationForm({
           isLoading={isExecuting}
           title="Confirm Poll Creation"
           description="Create poll with voter incentives"
-          amount={calculations.grossAmount}
+          amount={toTokenAmount(calculations.grossAmount, selectedToken)}
           tokenSymbol={getCoinSymbol(selectedToken)}
           details={[
-            { label: "Reward Pool", value: `${calculations.netAmount.toFixed(4)} ${getCoinSymbol(selectedToken)}` },
-            { label: "Platform Fee", value: `${calculations.fee.toFixed(4)} ${getCoinSymbol(selectedToken)}` },
+            { label: "Reward Pool", value: `${formatBalance(calculations.netAmount, tokenDecimals)} ${getCoinSymbol(selectedToken)}` },
+            { label: "Platform Fee", value: `${formatBalance(calculations.fee, tokenDecimals)} ${getCoinSymbol(selectedToken)}` },
             { label: "Max Voters", value: calculations.maxVoters.toString() },
           ]}
         />
@@ -0,0 +1,152 @@
+/**
+ * QuestionBallotInput - Answer input for every question type
+ *
+ * Selections are option indices. The first selection is what gets voted on chain;
+ * for ranked questions the order is the voter's preference order.
+ */
+
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { ArrowDown, ArrowUp, X } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { QUESTION_TYPES, type QuestionType } from "@shared/schema";
+
+export interface QuestionBallotInputProps {
+  questionType: QuestionType;
+  maxSelections: number | null;
+  options: string[];
+  selections: number[];
+  onChange: (selections: number[]) => void;
+  disabled?: boolean;
+  /** Prefix for input ids when several inputs are on one page */
+  idPrefix?: string;
+}
+
+const SCALE_HINTS = {
+  rating: ["Poor", "Excellent"],
+  nps: ["Not at all likely", "Extremely likely"],
+} as const;
+
+export function QuestionBallotInput({
+  questionType,
+  maxSelections,
+  options,
+  selections,
+  onChange,
+  disabled = false,
+  idPrefix = "ballot",
+}: QuestionBallotInputProps) {
+  if (questionType === QUESTION_TYPES.RATING || questionType === QUESTION_TYPES.NPS) {
+    const [lowHint, highHint] = SCALE_HINTS[questionType];
+    return (
+      <div className="space-y-2">
+        <div className="flex flex-wrap gap-2">
+          {options.map((point, index) => (
+            <Button
+              key={index}
+              type="button"
+              variant={selections[0] === index ? "default" : "outline"}
+              className="w-11 h-11 font-bold"
+              disabled={disabled}
+              onClick={() => onChange([index])}
+            >
+              {point}
+            </Button>
+          ))}
+        </div>
+        <div className="flex justify-between text-xs text-muted-foreground">
+          <span>{lowHint}</span>
+          <span>{highHint}</span>
+        </div>
+      </div>
+    );
+  }
+
+  if (questionType === QUESTION_TYPES.SINGLE || questionType === QUESTION_TYPES.MULTI_SELECT) {
+    const isSingle = questionType === QUESTION_TYPES.SINGLE;
+    const atLimit = !isSingle && maxSelections !== null && selections.length >= maxSelections;
+    const toggle = (index: number, checked: boolean) => {
+      if (isSingle) onChange(checked ? [index] : []);
+      else onChange(checked ? [...selections, index] : selections.filter((i) => i !== index));
+    };
+
+    return (
+      <div className="space-y-3">
+        {!isSingle && (
+          <p className="text-xs text-muted-foreground">
+            {maxSelections !== null ? `Select up to ${maxSelections}` : "Select all that apply"}
+          </p>
+        )}
+        {options.map((option, index) => {
+          const checked = selections.includes(index);
+          const id = `${idPrefix}-${index}`;
+          return (
+            <div
+              key={index}
+              className={cn(
+                "flex items-center space-x-3 p-3 border rounded-lg transition-colors",
+                checked ? "border-primary bg-primary/5" : "hover:bg-muted/50"
+              )}
+            >
+              <Checkbox
+                id={id}
+                checked={checked}
+                disabled={disabled || (!checked && atLimit)}
+                onCheckedChange={(value) => toggle(index, value === true)}
+              />
+              <Label htmlFor={id} className="flex-1 cursor-pointer font-medium">
+                {option}
+              </Label>
+            </div>
+          );
+        })}
+      </div>
+    );
+  }
+
+  // Ranked: ranked options first in preference order, then the unranked ones
+  const unranked = options.map((_, index) => index).filter((index) => !selections.includes(index));
+  const move = (position: number, offset: number) => {
+    const next = [...selections];
+    [next[position], next[position + offset]] = [next[position + offset], next[position]];
+    onChange(next);
+  };
+
+  return (
+    <div className="space-y-3">
+      <p className="text-xs text-muted-foreground">
+        Tap options in order of preference. Rank as many as you like.
+      </p>
+      {selections.map((index, position) => (
+        <div key={index} className="flex items-center gap-3 p-3 border border-primary bg-primary/5 rounded-lg">
+          <span className="w-6 h-6 rounded-full bg-primary text-primary-foreground text-xs font-bold flex items-center justify-center shrink-0">
+            {position + 1}
+          </span>
+          <span className="flex-1 font-medium">{options[index]}</span>
+          <Button type="button" variant="ghost" size="icon" className="h-7 w-7" disabled={disabled || position === 0} onClick={() => move(position, -1)}>
+            <ArrowUp className="w-4 h-4" />
+          </Button>
+          <Button type="button" variant="ghost" size="icon" className="h-7 w-7" disabled={disabled || position === selections.length - 1} onClick={() => move(position, 1)}>
+            <ArrowDown className="w-4 h-4" />
+          </Button>
+          <Button type="button" variant="ghost" size="icon" className="h-7 w-7" disabled={disabled} onClick={() => onChange(selections.filter((i) => i !== index))}>
+            <X className="w-4 h-4" />
+          </Button>
+        </div>
+      ))}
+      {unranked.map((index) => (
+        <button
+          key={index}
+          type="button"
+          disabled={disabled}
+          onClick={() => onChange([...selections, index])}
+          className="w-full flex items-center gap-3 p-3 border rounded-lg text-left hover:bg-muted/50 transition-colors disabled:opacity-50"
+        >
+          <span className="w-6 h-6 rounded-full border-2 border-dashed border-muted-foreground/40 shrink-0" />
+          <span className="flex-1 font-medium">{options[index]}</span>
+        </button>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,177 @@
+/**
+ * QuestionResultsView - Results for multi-select, ranked, rating and NPS questions
+ *
+ * Aggregation happens server-side (GET /api/polls/:id/results); this only renders it.
+ */
+
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Trophy } from "lucide-react";
+import { usePollResults } from "@/hooks/useQuestionTypes";
+import type { QuestionResults } from "@shared/schema";
+
+export interface QuestionResultsViewProps {
+  pollId: number;
+  /** Current vote count; results reload when it changes */
+  totalVotes: number;
+  /** The viewer's own selections, highlighted when known */
+  yourSelections?: number[];
+}
+
+function percent(count: number, total: number): number {
+  return total > 0 ? Math.round((count / total) * 100) : 0;
+}
+
+function CountBars({
+  options,
+  counts,
+  total,
+  highlight = [],
+}: {
+  options: string[];
+  counts: number[];
+  total: number;
+  highlight?: number[];
+}) {
+  return (
+    <div className="space-y-4">
+      {options.map((option, index) => (
+        <div key={index} className="space-y-1">
+          <div className="flex justify-between text-sm">
+            <span className="flex items-center gap-2">
+              {option}
+              {highlight.includes(index) && (
+                <Badge variant="outline" className="text-xs border-primary text-primary">
+                  Your vote
+                </Badge>
+              )}
+            </span>
+            <span className="font-bold">
+              {percent(counts[index] ?? 0, total)}% ({counts[index] ?? 0})
+            </span>
+          </div>
+          <Progress value={percent(counts[index] ?? 0, total)} className="h-2 bg-muted [&>div]:duration-700" />
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function RankedResults({
+  options,
+  results,
+}: {
+  options: string[];
+  results: Extract<QuestionResults, { questionType: "ranked" }>;
+}) {
+  const finalRound = results.rounds[results.rounds.length - 1];
+  const continuing = finalRound ? results.ballots - finalRound.exhausted : 0;
+
+  return (
+    <div className="space-y-5">
+      <div className="p-4 rounded-lg border border-primary/20 bg-primary/10 flex items-center gap-3">
+        <Trophy className="w-5 h-5 text-primary" />
+        <span className="font-medium">
+          {results.winner !== null
+            ? `${options[results.winner]} wins after ${results.rounds.length} round${results.rounds.length !== 1 ? "s" : ""}`
+            : results.ballots > 0
+              ? "No majority winner (tied)"
+              : "No ballots yet"}
+        </span>
+      </div>
+
+      {finalRound && (
+        <CountBars options={options} counts={finalRound.counts} total={continuing} />
+      )}
+
+      {results.rounds.length > 1 && (
+        <div className="space-y-1 text-sm text-muted-foreground">
+          <p className="font-medium text-foreground">Instant-runoff rounds</p>
+          {results.rounds.map((round) => (
+            <p key={round.round}>
+              Round {round.round}:{" "}
+              {round.eliminated.length > 0
+                ? `eliminated ${round.eliminated.map((index) => options[index]).join(", ")}`
+                : results.winner !== null
+                  ? `${options[results.winner]} reaches a majority`
+                  : "tie"}
+              {round.exhausted > 0 && ` (${round.exhausted} exhausted)`}
+            </p>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export function QuestionResultsView({ pollId, totalVotes, yourSelections }: QuestionResultsViewProps) {
+  const { data, isLoading } = usePollResults(pollId, totalVotes);
+
+  if (isLoading || !data) {
+    return (
+      <div className="space-y-3">
+        <Skeleton className="h-6 w-full" />
+        <Skeleton className="h-6 w-full" />
+        <Skeleton className="h-6 w-2/3" />
+      </div>
+    );
+  }
+
+  const { options, results } = data;
+
+  switch (results.questionType) {
+    case "multi_select":
+      return (
+        <div className="space-y-4">
+          <p className="text-xs text-muted-foreground">
+            {results.ballots} respondent{results.ballots !== 1 ? "s" : ""}
+            {results.maxSelections !== null && ` · up to ${results.maxSelections} choices each`}
+          </p>
+          <CountBars options={options} counts={results.counts} total={results.ballots} highlight={yourSelections} />
+        </div>
+      );
+
+    case "ranked":
+      return <RankedResults options={options} results={results} />;
+
+    case "rating":
+      return (
+        <div className="space-y-4">
+          <div className="flex items-baseline gap-2">
+            <span className="text-4xl font-display font-bold">{results.average?.toFixed(1) ?? "–"}</span>
+            <span className="text-muted-foreground">/ 5 from {results.responses} rating{results.responses !== 1 ? "s" : ""}</span>
+          </div>
+          <CountBars options={options} counts={results.distribution} total={results.responses} highlight={yourSelections} />
+        </div>
+      );
+
+    case "nps":
+      return (
+        <div className="space-y-4">
+          <div className="flex items-baseline gap-2">
+            <span className="text-4xl font-display font-bold">{results.score ?? "–"}</span>
+            <span className="text-muted-foreground">NPS from {results.responses} response{results.responses !== 1 ? "s" : ""}</span>
+          </div>
+          <div className="grid grid-cols-3 gap-2 text-center text-sm">
+            <div className="p-2 rounded-lg bg-green-500/10 text-green-600 dark:text-green-400">
+              <p className="font-bold">{percent(results.promoters, results.responses)}%</p>
+              <p className="text-xs">Promoters</p>
+            </div>
+            <div className="p-2 rounded-lg bg-muted">
+              <p className="font-bold">{percent(results.passives, results.responses)}%</p>
+              <p className="text-xs text-muted-foreground">Passives</p>
+            </div>
+            <div className="p-2 rounded-lg bg-red-500/10 text-red-600 dark:text-red-400">
+              <p className="font-bold">{percent(results.detractors, results.responses)}%</p>
+              <p className="text-xs">Detractors</p>
+            </div>
+          </div>
+          <CountBars options={options} counts={results.distribution} total={results.responses} highlight={yourSelections} />
+        </div>
+      );
+
+    default:
+      return <CountBars options={options} counts={results.counts} total={totalVotes} highlight={yourSelections} />;
+  }
+}
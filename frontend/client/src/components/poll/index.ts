@@ -6,3 +6,5 @@ export {
   type PollFormInitialValues,
   type PollCreationFormProps,
 } from "./PollCreationForm";
+export { QuestionBallotInput, type QuestionBallotInputProps } from "./QuestionBallotInput";
+export { QuestionResultsView, type QuestionResultsViewProps } from "./QuestionResultsView";
@@ -0,0 +1,203 @@
+/**
+ * BranchingRulesEditor - Skip logic for one questionnaire item
+ *
+ * Polls can jump ahead based on the answer ("if option 2, skip to question 5"),
+ * and any item can be shown only when earlier polls were answered a certain way.
+ * Conditions match the respondent's on-chain answer (their first selection).
+ */
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Loader2, Plus, Trash2 } from "lucide-react";
+import { usePoll } from "@/hooks/usePolls";
+import type { QuestionnaireBranching, QuestionnairePoll } from "@/hooks/useQuestionnaire";
+
+type SkipRule = NonNullable<QuestionnaireBranching["skipTo"]>[number];
+type ShowCondition = NonNullable<QuestionnaireBranching["showIf"]>[number];
+
+interface BranchingRulesEditorProps {
+  /** All items in display order */
+  items: QuestionnairePoll[];
+  item: QuestionnairePoll;
+  onSave: (branching: QuestionnaireBranching | null) => void;
+  isSaving?: boolean;
+}
+
+function itemLabel(items: QuestionnairePoll[], itemId: string): string {
+  const index = items.findIndex((item) => item.id === itemId);
+  const item = items[index];
+  if (!item) return "Removed question";
+  return `${index + 1}. ${item.pollId === null ? item.prompt : `Poll #${item.pollId}`}`;
+}
+
+// Toggle chips for a poll's options
+function OptionPicker({
+  pollId,
+  value,
+  onChange,
+}: {
+  pollId: number | null;
+  value: number[];
+  onChange: (optionIndices: number[]) => void;
+}) {
+  const { data: poll, isLoading } = usePoll(pollId ?? -1);
+
+  if (pollId === null) return null;
+  if (isLoading) return <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />;
+
+  return (
+    <div className="flex flex-wrap gap-1.5">
+      {(poll?.options ?? []).map((option, index) => {
+        const selected = value.includes(index);
+        return (
+          <Badge
+            key={index}
+            variant={selected ? "default" : "outline"}
+            className="cursor-pointer"
+            onClick={() => onChange(selected ? value.filter((i) => i !== index) : [...value, index])}
+          >
+            {option}
+          </Badge>
+        );
+      })}
+    </div>
+  );
+}
+
+export function BranchingRulesEditor({ items, item, onSave, isSaving }: BranchingRulesEditorProps) {
+  const [skipTo, setSkipTo] = useState<SkipRule[]>(item.branching?.skipTo ?? []);
+  const [showIf, setShowIf] = useState<ShowCondition[]>(item.branching?.showIf ?? []);
+
+  const index = items.findIndex((candidate) => candidate.id === item.id);
+  const laterItems = items.slice(index + 1);
+  const earlierPolls = items.slice(0, index).filter((candidate) => candidate.pollId !== null);
+  const isValid =
+    skipTo.every((rule) => rule.targetItemId && rule.optionIndices.length > 0) &&
+    showIf.every((condition) => condition.sourceItemId && condition.optionIndices.length > 0);
+
+  const updateSkip = (position: number, update: Partial<SkipRule>) =>
+    setSkipTo(skipTo.map((rule, i) => (i === position ? { ...rule, ...update } : rule)));
+  const updateCondition = (position: number, update: Partial<ShowCondition>) =>
+    setShowIf(showIf.map((condition, i) => (i === position ? { ...condition, ...update } : condition)));
+
+  const handleSave = () => {
+    onSave(skipTo.length > 0 || showIf.length > 0 ? { skipTo, showIf } : null);
+  };
+
+  return (
+    <div className="space-y-4 p-3 border rounded-lg bg-background">
+      {/* Skip ahead (polls only) */}
+      {item.pollId !== null && (
+        <div className="space-y-2">
+          <Label>Skip ahead</Label>
+          {skipTo.map((rule, position) => (
+            <div key={position} className="space-y-2 p-2 border rounded-md">
+              <div className="flex items-center justify-between gap-2">
+                <span className="text-xs text-muted-foreground">If the answer is one of</span>
+                <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => setSkipTo(skipTo.filter((_, i) => i !== position))}>
+                  <Trash2 className="h-3.5 w-3.5" />
+                </Button>
+              </div>
+              <OptionPicker
+                pollId={item.pollId}
+                value={rule.optionIndices}
+                onChange={(optionIndices) => updateSkip(position, { optionIndices })}
+              />
+              <Select value={rule.targetItemId} onValueChange={(targetItemId) => updateSkip(position, { targetItemId })}>
+                <SelectTrigger className="h-8">
+                  <SelectValue placeholder="Skip to..." />
+                </SelectTrigger>
+                <SelectContent>
+                  {laterItems.map((later) => (
+                    <SelectItem key={later.id} value={later.id}>
+                      {itemLabel(items, later.id)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          ))}
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={laterItems.length < 2}
+            onClick={() => setSkipTo([...skipTo, { optionIndices: [], targetItemId: "" }])}
+          >
+            <Plus className="h-3.5 w-3.5 mr-1" />
+            Add skip
+          </Button>
+        </div>
+      )}
+
+      {/* Show only if */}
+      <div className="space-y-2">
+        <Label>Show only if</Label>
+        {showIf.map((condition, position) => {
+          const source = items.find((candidate) => candidate.id === condition.sourceItemId);
+          return (
+            <div key={position} className="space-y-2 p-2 border rounded-md">
+              <div className="flex items-center gap-2">
+                <Select
+                  value={condition.sourceItemId}
+                  onValueChange={(sourceItemId) => updateCondition(position, { sourceItemId, optionIndices: [] })}
+                >
+                  <SelectTrigger className="h-8 flex-1">
+                    <SelectValue placeholder="Earlier poll..." />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {earlierPolls.map((earlier) => (
+                      <SelectItem key={earlier.id} value={earlier.id}>
+                        {itemLabel(items, earlier.id)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => setShowIf(showIf.filter((_, i) => i !== position))}>
+                  <Trash2 className="h-3.5 w-3.5" />
+                </Button>
+              </div>
+              {source && (
+                <>
+                  <span className="text-xs text-muted-foreground">was answered with one of</span>
+                  <OptionPicker
+                    pollId={source.pollId}
+                    value={condition.optionIndices}
+                    onChange={(optionIndices) => updateCondition(position, { optionIndices })}
+                  />
+                </>
+              )}
+            </div>
+          );
+        })}
+        <Button
+          variant="outline"
+          size="sm"
+          disabled={earlierPolls.length === 0}
+          onClick={() => setShowIf([...showIf, { sourceItemId: "", optionIndices: [] }])}
+        >
+          <Plus className="h-3.5 w-3.5 mr-1" />
+          Add condition
+        </Button>
+        {showIf.length > 1 && (
+          <p className="text-xs text-muted-foreground">All conditions must hold.</p>
+        )}
+      </div>
+
+      <div className="flex justify-end">
+        <Button size="sm" onClick={handleSave} disabled={!isValid || isSaving}>
+          {isSaving && <Loader2 className="h-3.5 w-3.5 mr-1 animate-spin" />}
+          Save Rules
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -1,8 +1,9 @@
-import { useState, useEffect, useMemo, useCallback } from "react";
+import { useState, useEffect, useMemo, useCallback, useRef } from "react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
 import { Badge } from "@/components/ui/badge";
 import { Progress } from "@/components/ui/progress";
 import { Skeleton } from "@/components/ui/skeleton";
@@ -14,6 +15,8 @@ import {
   Trophy,
   PartyPopper,
   Send,
+  MessageSquareText,
+  SkipForward,
 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { useContract } from "@/hooks/useContract";
@@ -23,22 +26,62 @@ import {
   useQuestionnaireProgress,
   useStartQuestionnaire,
   useRecordBulkVote,
+  useSubmitTextAnswers,
+  useSaveQuestionnaireProgress,
+  resolveQuestionnaireSettings,
+  QUESTIONNAIRE_ITEM_KIND,
+  TEXT_ANSWER_LIMITS,
 } from "@/hooks/useQuestionnaire";
 import { QuestionnaireProgressBar } from "./QuestionnaireProgressBar";
-import { QuestionnairePollStepper } from "./QuestionnairePollStepper";
+import { QuestionnairePollStepper, useQuestionnairePath } from "./QuestionnairePollStepper";
+import { QuestionBallotInput, QuestionResultsView } from "@/components/poll";
+import {
+  usePollQuestions,
+  useRecordBallots,
+  type BallotInput,
+  type PollQuestionConfig,
+} from "@/hooks/useQuestionTypes";
+import { QUESTION_TYPES, usesOffChainBallot } from "@shared/schema";
 import type { PollWithMeta } from "@/types/poll";
 
+type PollItem = QuestionnairePoll & { pollId: number };
+
+// Whether a text answer satisfies the question's length settings (empty is fine when optional)
+function isTextAnswerValid(item: QuestionnairePoll, text: string): boolean {
+  const settings = item.textSettings;
+  const length = text.trim().length;
+  const maxLength = settings?.maxLength ?? TEXT_ANSWER_LIMITS.DEFAULT_MAX;
+  if (length === 0) return settings?.required === false;
+  return length >= (settings?.minLength ?? 0) && length <= maxLength;
+}
+
+// Shuffle deterministically from a seed (FNV-1a hash feeding a mulberry32 generator)
+function seededShuffle<T>(items: T[], seed: string): T[] {
+  let state = 0x811c9dc5;
+  for (let i = 0; i < seed.length; i++) {
+    state = Math.imul(state ^ seed.charCodeAt(i), 0x01000193);
+  }
+  const random = () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+
+  const shuffled = [...items];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+}
+
 interface QuestionnaireAnswerFlowProps {
   questionnaire: QuestionnaireWithPolls;
   walletAddress: string | undefined;
   onComplete?: () => void;
 }
 
-interface PollSelection {
-  pollId: number;
-  optionIndex: number;
-}
-
 export function QuestionnaireAnswerFlow({
   questionnaire,
   walletAddress,
@@ -47,18 +90,63 @@ export function QuestionnaireAnswerFlow({
   const { toast } = useToast();
   const { bulkVote, getPoll, hasVoted, loading: contractLoading } = useContract();
 
-  // Sort polls by sortOrder
+  const settings = useMemo(() => resolveQuestionnaireSettings(questionnaire), [questionnaire]);
+
+  // Sort items by sortOrder; on-chain polls and free-text questions share one sequence.
+  // Shuffled questionnaires keep one order per wallet so resuming lands in the same place;
+  // branching rules need the creator's order, so they turn shuffling off.
+  const sortedItems = useMemo(() => {
+    const items = [...questionnaire.polls].sort((a, b) => a.sortOrder - b.sortOrder);
+    const hasBranching = items.some((item) => item.branching);
+    return settings.shufflePolls && !hasBranching && walletAddress
+      ? seededShuffle(items, `${questionnaire.id}:${walletAddress.toLowerCase()}`)
+      : items;
+  }, [questionnaire.polls, questionnaire.id, settings.shufflePolls, walletAddress]);
   const sortedPolls = useMemo(
-    () => [...questionnaire.polls].sort((a, b) => a.sortOrder - b.sortOrder),
-    [questionnaire.polls]
+    () => sortedItems.filter((item): item is PollItem => item.pollId !== null),
+    [sortedItems]
   );
 
-  // Track current poll index
+  // Track selections for all polls (option indices; the first one is voted on chain)
+  const [selections, setSelections] = useState<Map<number, number[]>>(new Map());
+
+  // Branching: only items on the respondent's path are shown, answered and counted
+  const primaryAnswers = useMemo(
+    () => new Map(Array.from(selections.entries()).map(([pollId, pollSelections]) => [pollId, pollSelections[0]])),
+    [selections]
+  );
+  const pathItems = useQuestionnairePath(sortedItems, primaryAnswers);
+  const pathPolls = useMemo(
+    () => pathItems.filter((item): item is PollItem => item.pollId !== null),
+    [pathItems]
+  );
+  const textItems = useMemo(
+    () => pathItems.filter((item) => item.kind === QUESTIONNAIRE_ITEM_KIND.TEXT),
+    [pathItems]
+  );
+  const pathSelections = useMemo(
+    () => Array.from(selections.entries()).filter(([pollId]) => pathPolls.some((poll) => poll.pollId === pollId)),
+    [selections, pathPolls]
+  );
+
+  // Track current item index (position on the path)
   const [currentPollIndex, setCurrentPollIndex] = useState(0);
-  const currentPoll = sortedPolls[currentPollIndex];
+  const currentItem = pathItems[Math.min(currentPollIndex, pathItems.length - 1)];
+  const currentPoll = currentItem?.pollId !== null ? (currentItem as PollItem | undefined) : undefined;
 
-  // Track selections for all polls
-  const [selections, setSelections] = useState<Map<number, number>>(new Map());
+  // Stay on the path when a changed answer shortens it
+  useEffect(() => {
+    if (pathItems.length > 0 && currentPollIndex > pathItems.length - 1) {
+      setCurrentPollIndex(pathItems.length - 1);
+    }
+  }, [currentPollIndex, pathItems.length]);
+
+  // Text answers by questionnaire item ID, saved off chain before the bulk vote
+  const [textAnswers, setTextAnswers] = useState<Map<string, string>>(new Map());
+
+  // Question types decide each poll's input; full multi-select / ranked ballots are stored off chain
+  const { getQuestion } = usePollQuestions(sortedPolls.map((poll) => poll.pollId));
+  const recordBallots = useRecordBallots();
 
   // Track poll data loaded from contract
   const [pollData, setPollData] = useState<Map<number, PollWithMeta>>(new Map());
@@ -75,6 +163,34 @@ export function QuestionnaireAnswerFlow({
   );
   const startQuestionnaireMutation = useStartQuestionnaire();
   const recordBulkVoteMutation = useRecordBulkVote();
+  const submitTextAnswersMutation = useSubmitTextAnswers();
+  const saveProgressMutation = useSaveQuestionnaireProgress();
+
+  // Restore selections saved in an earlier session (partial save)
+  const savedPollAnswers = settings.allowPartialSave && !progress?.isComplete ? progress?.pollsAnswered : undefined;
+  useEffect(() => {
+    if (!savedPollAnswers?.length) return;
+    setSelections((prev) => {
+      const next = new Map(prev);
+      for (const answer of savedPollAnswers) {
+        if (!next.has(answer.pollId)) next.set(answer.pollId, answer.selections ?? [answer.optionIndex]);
+      }
+      return next;
+    });
+  }, [savedPollAnswers]);
+
+  // Prefill text answers saved in an earlier session
+  const savedTextAnswers = progress?.textAnswers;
+  useEffect(() => {
+    if (!savedTextAnswers?.length) return;
+    setTextAnswers((prev) => {
+      const next = new Map(prev);
+      for (const answer of savedTextAnswers) {
+        if (!next.has(answer.questionId)) next.set(answer.questionId, answer.text);
+      }
+      return next;
+    });
+  }, [savedTextAnswers]);
 
   // Load poll data from contract
   useEffect(() => {
@@ -131,45 +247,119 @@ export function QuestionnaireAnswerFlow({
     refetchProgress,
   ]);
 
-  // Get answered poll IDs (from selections + already voted on chain)
-  const answeredPollIds = useMemo(() => {
-    const answered: number[] = [];
-    for (const poll of sortedPolls) {
-      if (selections.has(poll.pollId) || alreadyVotedPolls.has(poll.pollId)) {
-        answered.push(poll.pollId);
-      }
+  // Get answered item IDs (polls from selections + already voted on chain, non-empty valid text answers)
+  const answeredItemIds = useMemo(() => {
+    const answered: string[] = [];
+    for (const item of pathItems) {
+      const isAnswered = item.pollId !== null
+        ? selections.has(item.pollId) || alreadyVotedPolls.has(item.pollId)
+        : !!textAnswers.get(item.id)?.trim() && isTextAnswerValid(item, textAnswers.get(item.id)!);
+      if (isAnswered) answered.push(item.id);
     }
     return answered;
-  }, [sortedPolls, selections, alreadyVotedPolls]);
+  }, [pathItems, selections, alreadyVotedPolls, textAnswers]);
 
-  // Check if all polls are answered
-  const allPollsAnswered = answeredPollIds.length === sortedPolls.length;
+  // Check if all polls are answered and every text answer is acceptable
+  const allPollsAnswered =
+    pathPolls.every((poll) => answeredItemIds.includes(poll.id)) &&
+    textItems.every((item) => isTextAnswerValid(item, textAnswers.get(item.id) ?? ""));
+
+  // Polls may be skipped unless the questionnaire requires all of them; text questions keep their own rule
+  const canFinish = settings.requireAllPolls
+    ? allPollsAnswered
+    : answeredItemIds.length > 0 &&
+      textItems.every((item) => isTextAnswerValid(item, textAnswers.get(item.id) ?? ""));
+
+  // Check if we can submit (enough answered, not already submitted)
+  const canSubmit = canFinish && !progress?.isComplete && answeredItemIds.length > 0;
+
+  // Resume at the first unanswered question once polls and saved progress are loaded
+  const hasResumed = useRef(false);
+  useEffect(() => {
+    if (hasResumed.current || loadingPolls || !progress) return;
+    hasResumed.current = true;
+    const savedPollIds = new Set((savedPollAnswers ?? []).map((answer) => answer.pollId));
+    const savedTextIds = new Set((progress.textAnswers ?? []).map((answer) => answer.questionId));
+    const firstUnanswered = pathItems.findIndex((item) =>
+      item.pollId !== null
+        ? !alreadyVotedPolls.has(item.pollId) && !savedPollIds.has(item.pollId)
+        : !savedTextIds.has(item.id)
+    );
+    if (firstUnanswered > 0) setCurrentPollIndex(firstUnanswered);
+  }, [loadingPolls, progress, savedPollAnswers, pathItems, alreadyVotedPolls]);
+
+  // Save unsubmitted answers when moving between questions (fire-and-forget)
+  const lastSavedDraft = useRef("");
+  const saveDraft = useCallback(() => {
+    if (!walletAddress || !settings.allowPartialSave || progress?.isComplete) return;
+
+    const pollsAnswered = Array.from(selections.entries())
+      .filter(([pollId]) => !alreadyVotedPolls.has(pollId))
+      .map(([pollId, pollSelections]) => ({ pollId, selections: pollSelections }));
+    const text = currentItem?.kind === QUESTIONNAIRE_ITEM_KIND.TEXT
+      ? (textAnswers.get(currentItem.id) ?? "").trim()
+      : "";
+    const draft = JSON.stringify(pollsAnswered);
+
+    if (draft !== lastSavedDraft.current) {
+      lastSavedDraft.current = draft;
+      saveProgressMutation.mutate(
+        { questionnaireId: questionnaire.id, walletAddress, pollsAnswered },
+        { onError: (err) => console.error("Failed to save progress:", err) }
+      );
+    }
+    if (currentItem && text && isTextAnswerValid(currentItem, text)) {
+      submitTextAnswersMutation.mutate(
+        { questionnaireId: questionnaire.id, walletAddress, answers: [{ questionId: currentItem.id, text }] },
+        { onError: (err) => console.error("Failed to save text answer:", err) }
+      );
+    }
+  }, [
+    walletAddress,
+    settings.allowPartialSave,
+    progress?.isComplete,
+    selections,
+    alreadyVotedPolls,
+    currentItem,
+    textAnswers,
+    questionnaire.id,
+    saveProgressMutation,
+    submitTextAnswersMutation,
+  ]);
 
-  // Check if we can submit (all polls answered, not already submitted)
-  const canSubmit = allPollsAnswered && !progress?.isComplete && selections.size > 0;
+  // Handle text answer edits
+  const handleTextChange = useCallback((itemId: string, text: string) => {
+    setTextAnswers((prev) => new Map(prev).set(itemId, text));
+  }, []);
 
   // Handle option selection
-  const handleSelectOption = useCallback((pollId: number, optionIndex: number) => {
+  const handleSelectOption = useCallback((pollId: number, pollSelections: number[]) => {
     setSelections((prev) => {
       const next = new Map(prev);
-      next.set(pollId, optionIndex);
+      if (pollSelections.length > 0) {
+        next.set(pollId, pollSelections);
+      } else {
+        next.delete(pollId);
+      }
       return next;
     });
   }, []);
 
   // Handle navigation
   const handleNavigate = useCallback((index: number) => {
-    if (index >= 0 && index < sortedPolls.length) {
+    if (index >= 0 && index < pathItems.length) {
+      saveDraft();
       setCurrentPollIndex(index);
     }
-  }, [sortedPolls.length]);
+  }, [pathItems.length, saveDraft]);
 
-  // Move to next poll after selection
+  // Move to next item after answering (or skipping)
   const handleNextPoll = useCallback(() => {
-    if (currentPollIndex < sortedPolls.length - 1) {
+    if (currentPollIndex < pathItems.length - 1) {
+      saveDraft();
       setCurrentPollIndex((prev) => prev + 1);
     }
-  }, [currentPollIndex, sortedPolls.length]);
+  }, [currentPollIndex, pathItems.length, saveDraft]);
 
   // Submit all votes
   const handleSubmitAllVotes = useCallback(async () => {
@@ -178,32 +368,48 @@ export function QuestionnaireAnswerFlow({
     setIsSubmitting(true);
 
     try {
+      // Save text answers first; the server requires them before completion
+      const answers = textItems
+        .map((item) => ({ questionId: item.id, text: (textAnswers.get(item.id) ?? "").trim() }))
+        .filter((answer) => answer.text.length > 0);
+      if (answers.length > 0) {
+        await submitTextAnswersMutation.mutateAsync({
+          questionnaireId: questionnaire.id,
+          walletAddress,
+          answers,
+        });
+      }
+
       // Build arrays for bulk vote (only include new votes, not already voted)
       const pollIds: number[] = [];
       const optionIndices: number[] = [];
+      const ballots: BallotInput[] = [];
 
-      const entries = Array.from(selections.entries());
-      for (const [pollId, optionIndex] of entries) {
+      for (const [pollId, pollSelections] of pathSelections) {
         if (!alreadyVotedPolls.has(pollId)) {
           pollIds.push(pollId);
-          optionIndices.push(optionIndex);
+          optionIndices.push(pollSelections[0]);
+          if (usesOffChainBallot(getQuestion(pollId).questionType)) {
+            ballots.push({ pollId, selections: pollSelections });
+          }
         }
       }
 
       if (pollIds.length === 0) {
-        // All polls were already voted on-chain, just mark as complete
-        const selectionEntries = Array.from(selections.entries());
+        // All polls were already voted on-chain (or there are only text questions), just mark as complete
         await recordBulkVoteMutation.mutateAsync({
           questionnaireId: questionnaire.id,
           walletAddress,
-          pollIds: selectionEntries.map(([k]) => k),
-          optionIndices: selectionEntries.map(([, v]) => v),
+          pollIds: pathSelections.map(([k]) => k),
+          optionIndices: pathSelections.map(([, v]) => v[0]),
           txHash: "already-voted",
         });
 
         toast({
           title: "Questionnaire Complete!",
-          description: "All your votes were already recorded.",
+          description: sortedPolls.length > 0
+            ? "All your votes were already recorded."
+            : "Your answers were recorded.",
         });
 
         refetchProgress();
@@ -216,15 +422,22 @@ export function QuestionnaireAnswerFlow({
 
       if (result.success && result.hash) {
         // Record in database
-        const allSelections = Array.from(selections.entries());
         await recordBulkVoteMutation.mutateAsync({
           questionnaireId: questionnaire.id,
           walletAddress,
-          pollIds: allSelections.map(([k]) => k),
-          optionIndices: allSelections.map(([, v]) => v),
+          pollIds: pathSelections.map(([k]) => k),
+          optionIndices: pathSelections.map(([, v]) => v[0]),
           txHash: result.hash,
         });
 
+        if (!(await recordBallots(result.hash, ballots))) {
+          toast({
+            title: "Ballots Not Saved",
+            description: "Your votes counted, but only your first choices were recorded.",
+            variant: "destructive",
+          });
+        }
+
         toast({
           title: "Votes Submitted!",
           description: `All ${pollIds.length} votes submitted successfully.`,
@@ -246,11 +459,17 @@ export function QuestionnaireAnswerFlow({
   }, [
     walletAddress,
     canSubmit,
-    selections,
+    pathSelections,
     alreadyVotedPolls,
+    textItems,
+    textAnswers,
+    sortedPolls.length,
+    submitTextAnswersMutation,
     bulkVote,
+    getQuestion,
     questionnaire.id,
     recordBulkVoteMutation,
+    recordBallots,
     toast,
     refetchProgress,
     onComplete,
@@ -278,7 +497,9 @@ export function QuestionnaireAnswerFlow({
           <PartyPopper className="h-16 w-16 mx-auto text-primary" />
           <h2 className="text-2xl font-bold">Questionnaire Complete!</h2>
           <p className="text-muted-foreground">
-            You've answered all {sortedPolls.length} polls in this questionnaire.
+            {settings.requireAllPolls
+              ? "You've answered all the questions in this questionnaire."
+              : "Thanks for completing this questionnaire."}
           </p>
           <Badge variant="default" className="text-lg px-4 py-1">
             <Trophy className="h-4 w-4 mr-2" />
@@ -318,18 +539,23 @@ export function QuestionnaireAnswerFlow({
   return (
     <div className="space-y-6">
       {/* Progress */}
-      <QuestionnaireProgressBar
-        totalPolls={sortedPolls.length}
-        answeredPolls={answeredPollIds.length}
-        isComplete={false}
-      />
+      {settings.showProgressBar && (
+        <QuestionnaireProgressBar
+          totalPolls={pathItems.length}
+          answeredPolls={answeredItemIds.length}
+          isComplete={false}
+          questionnaireId={questionnaire.id}
+          completionCount={questionnaire.completionCount}
+        />
+      )}
 
       {/* Poll Stepper */}
       <QuestionnairePollStepper
-        polls={sortedPolls}
+        polls={pathItems}
         currentIndex={currentPollIndex}
-        answeredPollIds={answeredPollIds}
+        answeredItemIds={answeredItemIds}
         onNavigate={handleNavigate}
+        hiddenCount={sortedItems.length - pathItems.length}
         disabled={isSubmitting}
       />
 
@@ -337,27 +563,47 @@ export function QuestionnaireAnswerFlow({
       {currentPoll && currentPollData && (
         <PollVotingCard
           poll={currentPollData}
-          selectedOption={currentSelection}
+          question={getQuestion(currentPoll.pollId)}
+          selection={currentSelection}
           isAlreadyVoted={alreadyVotedPolls.has(currentPoll.pollId)}
-          onSelectOption={(optionIndex) =>
-            handleSelectOption(currentPoll.pollId, optionIndex)
+          onSelect={(pollSelections) =>
+            handleSelectOption(currentPoll.pollId, pollSelections)
           }
           onNext={handleNextPoll}
-          isLastPoll={currentPollIndex === sortedPolls.length - 1}
+          onSkip={settings.requireAllPolls ? undefined : handleNextPoll}
+          isLastPoll={currentItem === pathItems[pathItems.length - 1]}
+          disabled={isSubmitting}
+        />
+      )}
+
+      {/* Current Text Question */}
+      {currentItem?.kind === QUESTIONNAIRE_ITEM_KIND.TEXT && (
+        <TextQuestionCard
+          item={currentItem}
+          value={textAnswers.get(currentItem.id) ?? ""}
+          onChange={(text) => handleTextChange(currentItem.id, text)}
+          onNext={handleNextPoll}
+          isLastPoll={currentItem === pathItems[pathItems.length - 1]}
           disabled={isSubmitting}
         />
       )}
 
       {/* Submit All Votes Button */}
-      {allPollsAnswered && (
+      {canFinish && (
         <Card className="border-primary">
           <CardContent className="py-6">
             <div className="flex flex-col items-center gap-4">
               <CheckCircle2 className="h-12 w-12 text-green-500" />
               <div className="text-center">
-                <h3 className="font-semibold text-lg">All Polls Answered!</h3>
+                <h3 className="font-semibold text-lg">
+                  {allPollsAnswered ? "All Questions Answered!" : "Ready to Submit"}
+                </h3>
                 <p className="text-muted-foreground">
-                  Submit all your votes in one transaction.
+                  {!allPollsAnswered
+                    ? `${answeredItemIds.length} of ${pathItems.length} answered. Skipped polls won't be voted on.`
+                    : sortedPolls.length > 0
+                      ? "Submit all your votes in one transaction."
+                      : "Submit your answers."}
                 </p>
               </div>
               <Button
@@ -374,7 +620,7 @@ export function QuestionnaireAnswerFlow({
                 ) : (
                   <>
                     <Send className="h-4 w-4 mr-2" />
-                    Submit All Votes
+                    {sortedPolls.length > 0 ? "Submit All Votes" : "Submit Answers"}
                   </>
                 )}
               </Button>
@@ -389,24 +635,31 @@ export function QuestionnaireAnswerFlow({
 // Individual poll voting card
 interface PollVotingCardProps {
   poll: PollWithMeta;
-  selectedOption: number | undefined;
+  question: PollQuestionConfig;
+  selection: number[] | undefined;
   isAlreadyVoted: boolean;
-  onSelectOption: (optionIndex: number) => void;
+  onSelect: (selections: number[]) => void;
   onNext: () => void;
+  /** Set when the poll may be skipped (requireAllPolls off) */
+  onSkip?: () => void;
   isLastPoll: boolean;
   disabled?: boolean;
 }
 
 function PollVotingCard({
   poll,
-  selectedOption,
+  question,
+  selection,
   isAlreadyVoted,
-  onSelectOption,
+  onSelect,
   onNext,
+  onSkip,
   isLastPoll,
   disabled,
 }: PollVotingCardProps) {
   const totalVotes = poll.totalVotes || 0;
+  const isSingleChoice = question.questionType === QUESTION_TYPES.SINGLE;
+  const selectedOption = selection?.[0];
 
   // Format options with vote counts
   const options = poll.options.map((option: string, index: number) => ({
@@ -444,7 +697,14 @@ function PollVotingCard({
         </div>
       </CardHeader>
       <CardContent className="space-y-4">
-        {isAlreadyVoted ? (
+        {isAlreadyVoted && !isSingleChoice ? (
+          <div className="space-y-3">
+            <QuestionResultsView pollId={poll.id} totalVotes={totalVotes} />
+            <p className="text-sm text-muted-foreground text-center pt-2">
+              You have already voted on this poll
+            </p>
+          </div>
+        ) : isAlreadyVoted ? (
           // Show results if already voted
           <div className="space-y-3">
             {options.map((option) => (
@@ -465,32 +725,44 @@ function PollVotingCard({
         ) : (
           // Show options for selection
           <>
-            <RadioGroup
-              value={selectedOption !== undefined ? selectedOption.toString() : ""}
-              onValueChange={(value) => onSelectOption(parseInt(value))}
-              disabled={disabled}
-            >
-              {options.map((option, index) => (
-                <div
-                  key={option.id}
-                  className={`flex items-center space-x-3 p-3 border rounded-lg transition-colors ${
-                    selectedOption === index ? "border-primary bg-primary/5" : ""
-                  } ${disabled ? "opacity-50" : "hover:bg-muted/50"}`}
-                >
-                  <RadioGroupItem
-                    value={index.toString()}
-                    id={option.id}
-                    disabled={disabled}
-                  />
-                  <Label
-                    htmlFor={option.id}
-                    className={`flex-1 ${disabled ? "cursor-not-allowed" : "cursor-pointer"}`}
+            {!isSingleChoice ? (
+              <QuestionBallotInput
+                questionType={question.questionType}
+                maxSelections={question.maxSelections}
+                options={poll.options}
+                selections={selection ?? []}
+                onChange={onSelect}
+                disabled={disabled}
+                idPrefix={`poll-${poll.id}`}
+              />
+            ) : (
+              <RadioGroup
+                value={selectedOption !== undefined ? selectedOption.toString() : ""}
+                onValueChange={(value) => onSelect([parseInt(value)])}
+                disabled={disabled}
+              >
+                {options.map((option, index) => (
+                  <div
+                    key={option.id}
+                    className={`flex items-center space-x-3 p-3 border rounded-lg transition-colors ${
+                      selectedOption === index ? "border-primary bg-primary/5" : ""
+                    } ${disabled ? "opacity-50" : "hover:bg-muted/50"}`}
                   >
-                    {option.text}
-                  </Label>
-                </div>
-              ))}
-            </RadioGroup>
+                    <RadioGroupItem
+                      value={index.toString()}
+                      id={option.id}
+                      disabled={disabled}
+                    />
+                    <Label
+                      htmlFor={option.id}
+                      className={`flex-1 ${disabled ? "cursor-not-allowed" : "cursor-pointer"}`}
+                    >
+                      {option.text}
+                    </Label>
+                  </div>
+                ))}
+              </RadioGroup>
+            )}
 
             {selectedOption !== undefined && !isLastPoll && (
               <Button
@@ -503,9 +775,78 @@ function PollVotingCard({
                 <Vote className="h-4 w-4 ml-2" />
               </Button>
             )}
+
+            {selectedOption === undefined && onSkip && !isLastPoll && (
+              <Button onClick={onSkip} disabled={disabled} className="w-full" variant="ghost">
+                Skip
+                <SkipForward className="h-4 w-4 ml-2" />
+              </Button>
+            )}
           </>
         )}
       </CardContent>
     </Card>
   );
 }
+
+// Free-text question card
+interface TextQuestionCardProps {
+  item: QuestionnairePoll;
+  value: string;
+  onChange: (text: string) => void;
+  onNext: () => void;
+  isLastPoll: boolean;
+  disabled?: boolean;
+}
+
+function TextQuestionCard({ item, value, onChange, onNext, isLastPoll, disabled }: TextQuestionCardProps) {
+  const minLength = item.textSettings?.minLength ?? 0;
+  const maxLength = item.textSettings?.maxLength ?? TEXT_ANSWER_LIMITS.DEFAULT_MAX;
+  const required = item.textSettings?.required ?? true;
+  const length = value.trim().length;
+  const tooShort = length > 0 && length < minLength;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-2">
+          <div>
+            <CardTitle className="text-lg">{item.prompt}</CardTitle>
+            <CardDescription>
+              Free-text answer{required ? "" : " (optional)"}
+              {minLength > 0 && ` · at least ${minLength} characters`}
+            </CardDescription>
+          </div>
+          <MessageSquareText className="h-5 w-5 text-muted-foreground shrink-0" />
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-1">
+          <Textarea
+            value={value}
+            onChange={(e) => onChange(e.target.value)}
+            maxLength={maxLength}
+            rows={5}
+            placeholder="Type your answer..."
+            disabled={disabled}
+          />
+          <div className="flex justify-between text-xs text-muted-foreground">
+            <span className={tooShort ? "text-destructive" : ""}>
+              {tooShort ? `${minLength - length} more characters needed` : ""}
+            </span>
+            <span>
+              {value.length} / {maxLength}
+            </span>
+          </div>
+        </div>
+
+        {isTextAnswerValid(item, value) && !isLastPoll && (
+          <Button onClick={onNext} disabled={disabled} className="w-full" variant="outline">
+            Next Question
+            <Vote className="h-4 w-4 ml-2" />
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -14,7 +14,9 @@ import {
   Eye,
   EyeOff,
   Gift,
+  Download,
 } from "lucide-react";
+import { ExportResultsDialog } from "@/components/ExportResultsDialog";
 import { cn } from "@/lib/utils";
 import {
   Questionnaire,
@@ -26,6 +28,7 @@ import {
 } from "@/hooks/useQuestionnaire";
 import { formatBalanceWithSymbol } from "@/lib/balance";
 import { CoinTypeId } from "@/lib/tokens";
+import { toAmount } from "@shared/schema";
 
 interface QuestionnaireCardProps {
   questionnaire: Questionnaire;
@@ -157,7 +160,7 @@ export function QuestionnaireCard({
                 </span>
                 <span className="font-medium">
                   {formatBalanceWithSymbol(
-                    Number(questionnaire.totalRewardAmount),
+                    toAmount(questionnaire.totalRewardAmount),
                     questionnaire.coinTypeId as CoinTypeId
                   )}
                 </span>
@@ -229,6 +232,14 @@ export function QuestionnaireCard({
             >
               Edit
             </Button>
+            <ExportResultsDialog
+              target={{ kind: "questionnaire", questionnaireId: questionnaire.id }}
+              trigger={
+                <Button variant="ghost" size="sm" title="Export results">
+                  <Download className="h-4 w-4" />
+                </Button>
+              }
+            />
             {questionnaire.status !== QUESTIONNAIRE_STATUS.ARCHIVED && (
               <Button
                 variant="ghost"
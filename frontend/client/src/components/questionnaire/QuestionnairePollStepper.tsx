@@ -1,32 +1,54 @@
+import { useMemo } from "react";
 import { Button } from "@/components/ui/button";
 import { CheckCircle2, ChevronLeft, ChevronRight } from "lucide-react";
 import { cn } from "@/lib/utils";
+import { questionnairePath, type QuestionnairePoll } from "@/hooks/useQuestionnaire";
 
+/**
+ * The items on the respondent's branching path
+ * answers map poll ID -> on-chain option index (the first selection); items
+ * without branching rules are always on the path.
+ */
+export function useQuestionnairePath<T extends QuestionnairePoll>(items: T[], answers: Map<number, number>): T[] {
+  return useMemo(() => {
+    const byItem = new Map<string, number>();
+    for (const item of items) {
+      const answer = item.pollId !== null ? answers.get(item.pollId) : undefined;
+      if (answer !== undefined) byItem.set(item.id, answer);
+    }
+    return questionnairePath(items, byItem);
+  }, [items, answers]);
+}
+
+// A questionnaire item: an on-chain poll or a free-text question
 interface Poll {
-  pollId: number;
+  id: string;
   sortOrder: number;
 }
 
 interface QuestionnairePollStepperProps {
   polls: Poll[];
   currentIndex: number;
-  answeredPollIds: number[];
+  answeredItemIds: string[];
   onNavigate: (index: number) => void;
+  /** Questions left out by the respondent's answers */
+  hiddenCount?: number;
   disabled?: boolean;
 }
 
 export function QuestionnairePollStepper({
   polls,
   currentIndex,
-  answeredPollIds,
+  answeredItemIds,
   onNavigate,
+  hiddenCount = 0,
   disabled,
 }: QuestionnairePollStepperProps) {
   const canGoBack = currentIndex > 0;
   const canGoForward = currentIndex < polls.length - 1;
 
   const isPollAnswered = (poll: Poll) => {
-    return answeredPollIds.includes(poll.pollId);
+    return answeredItemIds.includes(poll.id);
   };
 
   return (
@@ -40,7 +62,7 @@ export function QuestionnairePollStepper({
 
           return (
             <button
-              key={poll.pollId}
+              key={poll.id}
               onClick={() => isClickable && !disabled && onNavigate(index)}
               disabled={!isClickable || disabled}
               className={cn(
@@ -77,7 +99,8 @@ export function QuestionnairePollStepper({
         </Button>
 
         <span className="text-sm text-muted-foreground">
-          Poll {currentIndex + 1} of {polls.length}
+          Question {currentIndex + 1} of {polls.length}
+          {hiddenCount > 0 && ` (${hiddenCount} skipped by your answers)`}
         </span>
 
         <Button
@@ -1,18 +1,27 @@
 import { Progress } from "@/components/ui/progress";
-import { CheckCircle2 } from "lucide-react";
+import { CheckCircle2, Users } from "lucide-react";
+import { useLiveQuestionnaire } from "@/hooks/useLiveUpdates";
 
 interface QuestionnaireProgressBarProps {
   totalPolls: number;
   answeredPolls: number;
   isComplete: boolean;
+  /** Questionnaire to follow for live completion counts */
+  questionnaireId?: string;
+  /** Completion count at load time (updated live when questionnaireId is set) */
+  completionCount?: number;
 }
 
 export function QuestionnaireProgressBar({
   totalPolls,
   answeredPolls,
   isComplete,
+  questionnaireId,
+  completionCount: initialCompletionCount,
 }: QuestionnaireProgressBarProps) {
   const percentage = totalPolls > 0 ? Math.round((answeredPolls / totalPolls) * 100) : 0;
+  const live = useLiveQuestionnaire(questionnaireId);
+  const completionCount = live.completionCount ?? initialCompletionCount;
 
   return (
     <div className="space-y-2">
@@ -27,7 +36,16 @@ export function QuestionnaireProgressBar({
           )}
         </div>
       </div>
-      <Progress value={percentage} className="h-2" />
+      <Progress value={percentage} className="h-2 [&>div]:duration-500" />
+      {completionCount !== undefined && (
+        <p className="flex items-center gap-1 text-xs text-muted-foreground">
+          <Users className="h-3 w-3" />
+          <span key={completionCount} className="animate-in fade-in duration-500 font-medium">
+            {completionCount}
+          </span>
+          {completionCount === 1 ? "respondent has" : "respondents have"} completed this questionnaire
+        </p>
+      )}
       {isComplete && (
         <p className="text-sm text-green-600 dark:text-green-400 text-center">
           Questionnaire complete!
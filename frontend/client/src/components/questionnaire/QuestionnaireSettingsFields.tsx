@@ -0,0 +1,68 @@
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import {
+  QUESTIONNAIRE_SETTING_DEFAULTS,
+  type QuestionnaireSettings,
+} from "@/hooks/useQuestionnaire";
+
+interface QuestionnaireSettingsFieldsProps {
+  settings: QuestionnaireSettings;
+  onChange: (settings: QuestionnaireSettings) => void;
+  /** Shared pools always require every poll (checked on chain) */
+  isSharedPool?: boolean;
+  disabled?: boolean;
+}
+
+const SETTING_FIELDS: { key: keyof QuestionnaireSettings; label: string; description: string }[] = [
+  {
+    key: "shufflePolls",
+    label: "Shuffle questions",
+    description: "Each respondent gets their own order, kept across visits; off while branching rules exist",
+  },
+  {
+    key: "allowPartialSave",
+    label: "Save partial progress",
+    description: "Respondents can leave and pick up where they stopped",
+  },
+  {
+    key: "requireAllPolls",
+    label: "Require every poll",
+    description: "When off, respondents can skip polls",
+  },
+  {
+    key: "showProgressBar",
+    label: "Show progress bar",
+    description: "Display answered / total questions while responding",
+  },
+];
+
+export function QuestionnaireSettingsFields({
+  settings,
+  onChange,
+  isSharedPool = false,
+  disabled = false,
+}: QuestionnaireSettingsFieldsProps) {
+  return (
+    <div className="space-y-4">
+      {SETTING_FIELDS.map(({ key, label, description }) => {
+        const locked = key === "requireAllPolls" && isSharedPool;
+        return (
+          <div key={key} className="flex items-center justify-between gap-4">
+            <div className="space-y-0.5">
+              <Label htmlFor={`setting-${key}`}>{label}</Label>
+              <p className="text-xs text-muted-foreground">
+                {locked ? "Shared pool rewards need a vote on every poll" : description}
+              </p>
+            </div>
+            <Switch
+              id={`setting-${key}`}
+              checked={locked || (settings[key] ?? QUESTIONNAIRE_SETTING_DEFAULTS[key])}
+              onCheckedChange={(checked) => onChange({ ...settings, [key]: checked })}
+              disabled={disabled || locked}
+            />
+          </div>
+        );
+      })}
+    </div>
+  );
+}
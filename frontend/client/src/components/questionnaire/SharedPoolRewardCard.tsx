@@ -17,7 +17,8 @@ import { useToast } from "@/hooks/use-toast";
 import { useContract } from "@/hooks/useContract";
 import { formatBalance } from "@/lib/balance";
 import { getCoinSymbol, getCoinDecimals, CoinTypeId } from "@/lib/tokens";
-import { QUESTIONNAIRE_REWARD_TYPE } from "@/hooks/useQuestionnaire";
+import { ZERO_AMOUNT, toAmount, type Amount } from "@shared/schema";
+import { QUESTIONNAIRE_REWARD_TYPE, useRecordQuestionnaireClaim } from "@/hooks/useQuestionnaire";
 
 interface SharedPoolRewardCardProps {
   questionnaireId: string;
@@ -54,11 +55,12 @@ export function SharedPoolRewardCard({
     markQuestionnaireCompleted,
     loading: contractLoading,
   } = useContract();
+  const recordClaim = useRecordQuestionnaireClaim();
 
   // Pool state from contract
   const [poolData, setPoolData] = useState<{
-    reward_pool: number;
-    reward_per_completion: number;
+    reward_pool: Amount;
+    reward_per_completion: Amount;
     completers: string[];
     claimed: string[];
     status: number;
@@ -136,16 +138,16 @@ export function SharedPoolRewardCard({
 
   // Calculate reward per user
   const calculateRewardPerUser = () => {
-    if (!poolData) return 0;
+    if (!poolData) return ZERO_AMOUNT;
 
-    if (poolData.reward_per_completion > 0) {
+    if (poolData.reward_per_completion > ZERO_AMOUNT) {
       return poolData.reward_per_completion;
     }
 
     // Equal split
     const totalCompleters = poolData.completers.length;
     if (totalCompleters === 0) return poolData.reward_pool;
-    return Math.floor(poolData.reward_pool / totalCompleters);
+    return poolData.reward_pool / BigInt(totalCompleters);
   };
 
   const rewardPerUser = calculateRewardPerUser();
@@ -195,6 +197,13 @@ export function SharedPoolRewardCard({
           title: "Reward Claimed!",
           description: `You received ${formattedReward} ${symbol}`,
         });
+        // The server records the claim once it has verified the transaction
+        if (walletAddress) {
+          recordClaim.mutate(
+            { questionnaireId, walletAddress, claimTxHash: result.hash },
+            { onError: (error) => console.error("Failed to record claim:", error) }
+          );
+        }
         onClaimSuccess?.();
       }
     } catch (err) {
@@ -262,7 +271,7 @@ export function SharedPoolRewardCard({
             <div>
               <p className="text-sm text-muted-foreground">Total Pool</p>
               <p className="font-semibold">
-                {formatBalance(Number(totalRewardAmount), decimals)} {symbol}
+                {formatBalance(toAmount(totalRewardAmount), decimals)} {symbol}
               </p>
             </div>
           </div>
@@ -7,10 +7,13 @@ import { Card, CardContent } from "@/components/ui/card";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
+import { Button } from "@/components/ui/button";
 import { PollCreationForm, PollFormData } from "@/components/poll";
-import { List, Plus, Clock, Users, FileText } from "lucide-react";
+import { SearchBar, SearchFilterPanel } from "@/components/search";
+import { List, Plus, Clock, Users, FileText, Loader2 } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { PollWithMeta } from "@/types/poll";
+import { countActiveFilters, type FacetBucket, type FacetName, type SearchFilters } from "@/hooks/useSearch";
 
 interface TabbedPollSelectorProps {
   /** Available existing polls to select from */
@@ -33,6 +36,18 @@ interface TabbedPollSelectorProps {
   inheritedCategory?: string;
   /** Inherited duration in seconds from parent questionnaire (hides duration field) */
   inheritedDurationSecs?: number;
+  /** Search filters for the existing polls list (search UI is hidden without onSearchFiltersChange) */
+  searchFilters?: SearchFilters;
+  /** Callback when the search query or facet filters change */
+  onSearchFiltersChange?: (filters: SearchFilters) => void;
+  /** Facet counts for the current search */
+  facets?: Record<FacetName, FacetBucket[]>;
+  /** Whether more search results can be loaded */
+  hasMore?: boolean;
+  /** Whether the next page of results is loading */
+  isLoadingMore?: boolean;
+  /** Callback to load the next page of results */
+  onLoadMore?: () => void;
 }
 
 export function TabbedPollSelector({
@@ -46,7 +61,16 @@ export function TabbedPollSelector({
   pendingNewPollsCount = 0,
   inheritedCategory,
   inheritedDurationSecs,
+  searchFilters,
+  onSearchFiltersChange,
+  facets,
+  hasMore = false,
+  isLoadingMore = false,
+  onLoadMore,
 }: TabbedPollSelectorProps) {
+  const isSearching =
+    !!searchFilters && (searchFilters.q.trim() !== "" || countActiveFilters(searchFilters) > 0);
+
   const handleTogglePoll = (pollId: number) => {
     if (selectedPollIds.includes(pollId)) {
       onSelectionChange(selectedPollIds.filter((id) => id !== pollId));
@@ -90,6 +114,23 @@ export function TabbedPollSelector({
       </TabsList>
 
       <TabsContent value="existing" className="mt-0">
+        {searchFilters && onSearchFiltersChange && (
+          <div className="flex gap-2 mb-3">
+            <SearchBar
+              value={searchFilters.q}
+              onChange={(q) => onSearchFiltersChange({ ...searchFilters, q })}
+              placeholder="Search by title or description..."
+            />
+            <SearchFilterPanel
+              kind="polls"
+              filters={searchFilters}
+              facets={facets}
+              onChange={onSearchFiltersChange}
+              hiddenFacets={["status"]}
+            />
+          </div>
+        )}
+
         {isLoading ? (
           <div className="space-y-3">
             {[1, 2, 3].map((i) => (
@@ -101,7 +142,7 @@ export function TabbedPollSelector({
             <CardContent className="flex flex-col items-center justify-center py-8 text-center">
               <FileText className="w-10 h-10 text-muted-foreground mb-3" />
               <p className="text-muted-foreground text-sm mb-2">
-                No active polls available
+                {isSearching ? "No polls match your search" : "No active polls available"}
               </p>
               <p className="text-xs text-muted-foreground">
                 Switch to the "Create New" tab to add polls to your questionnaire.
@@ -164,6 +205,18 @@ export function TabbedPollSelector({
                 </Card>
               );
             })}
+            {hasMore && onLoadMore && (
+              <Button
+                variant="ghost"
+                size="sm"
+                className="w-full"
+                onClick={onLoadMore}
+                disabled={isLoadingMore}
+              >
+                {isLoadingMore && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                Load More
+              </Button>
+            )}
           </div>
         )}
 
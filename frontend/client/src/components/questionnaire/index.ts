@@ -1,8 +1,10 @@
 export { QuestionnaireCard } from "./QuestionnaireCard";
 export { QuestionnaireProgressBar } from "./QuestionnaireProgressBar";
-export { QuestionnairePollStepper } from "./QuestionnairePollStepper";
+export { QuestionnairePollStepper, useQuestionnairePath } from "./QuestionnairePollStepper";
 export { QuestionnaireAnswerFlow } from "./QuestionnaireAnswerFlow";
 export { SharedPoolRewardCard } from "./SharedPoolRewardCard";
+export { QuestionnaireSettingsFields } from "./QuestionnaireSettingsFields";
+export { BranchingRulesEditor } from "./BranchingRulesEditor";
 
 // Poll creation within questionnaire flow
 export {
@@ -0,0 +1,94 @@
+/**
+ * SearchBar - Debounced search input with an optional sort selector
+ */
+
+import { useEffect, useState } from "react";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Search, ArrowUpDown } from "lucide-react";
+import { cn } from "@/lib/utils";
+import type { SearchSort } from "@/hooks/useSearch";
+
+const SORT_LABELS: Record<SearchSort, string> = {
+  relevance: "Best Match",
+  newest: "Newest",
+  votes: "Most Votes",
+  ending: "Ending Soonest",
+  reward: "Highest Reward",
+};
+
+interface SearchBarProps {
+  /** Current (committed) query */
+  value: string;
+  /** Called with the query after the user stops typing */
+  onChange: (value: string) => void;
+  placeholder?: string;
+  /** Current sort; the sort selector is hidden when omitted */
+  sort?: SearchSort;
+  onSortChange?: (sort: SearchSort) => void;
+  /** Sort options to offer (defaults to all) */
+  sortOptions?: SearchSort[];
+  debounceMs?: number;
+  className?: string;
+}
+
+export function SearchBar({
+  value,
+  onChange,
+  placeholder = "Search polls...",
+  sort,
+  onSortChange,
+  sortOptions = Object.keys(SORT_LABELS) as SearchSort[],
+  debounceMs = 300,
+  className,
+}: SearchBarProps) {
+  const [input, setInput] = useState(value);
+
+  // Keep the input in sync when the query is reset from outside
+  useEffect(() => {
+    setInput(value);
+  }, [value]);
+
+  useEffect(() => {
+    if (input === value) return;
+    const timeout = setTimeout(() => onChange(input), debounceMs);
+    return () => clearTimeout(timeout);
+  }, [input, value, onChange, debounceMs]);
+
+  return (
+    <div className={cn("flex flex-1 gap-2", className)}>
+      <div className="relative flex-1">
+        <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+        <Input
+          placeholder={placeholder}
+          className="pl-10 bg-muted/30"
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+        />
+      </div>
+      {sort && onSortChange && (
+        <Select value={sort} onValueChange={(v) => onSortChange(v as SearchSort)}>
+          <SelectTrigger className="w-44">
+            <ArrowUpDown className="w-4 h-4 mr-2" />
+            <SelectValue placeholder="Sort by" />
+          </SelectTrigger>
+          <SelectContent>
+            {sortOptions.map((option) => (
+              <SelectItem key={option} value={option}>
+                {SORT_LABELS[option]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+    </div>
+  );
+}
+
+export default SearchBar;
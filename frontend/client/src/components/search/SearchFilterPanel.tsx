@@ -0,0 +1,244 @@
+/**
+ * SearchFilterPanel - Facet filters with result counts for poll/questionnaire search
+ */
+
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Separator } from "@/components/ui/separator";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Filter, X } from "lucide-react";
+import { truncateAddress } from "@/lib/contract";
+import { cn } from "@/lib/utils";
+import { getCoinSymbol, type CoinTypeId } from "@/lib/tokens";
+import { QUESTIONNAIRE_STATUS } from "@shared/schema";
+import { POLL_STATUS } from "@/types/poll";
+import {
+  EMPTY_SEARCH_FILTERS,
+  countActiveFilters,
+  type FacetBucket,
+  type FacetName,
+  type SearchFilters,
+  type SearchKind,
+} from "@/hooks/useSearch";
+
+const POLL_STATUS_LABELS: Record<number, string> = {
+  [POLL_STATUS.ACTIVE]: "Active",
+  [POLL_STATUS.CLOSED]: "Closed",
+  [POLL_STATUS.CLAIMING]: "Claiming",
+  [POLL_STATUS.FINALIZED]: "Finalized",
+};
+
+const QUESTIONNAIRE_STATUS_LABELS: Record<number, string> = {
+  [QUESTIONNAIRE_STATUS.DRAFT]: "Draft",
+  [QUESTIONNAIRE_STATUS.ACTIVE]: "Active",
+  [QUESTIONNAIRE_STATUS.ENDED]: "Ended",
+  [QUESTIONNAIRE_STATUS.CLAIMABLE]: "Claimable",
+  [QUESTIONNAIRE_STATUS.ARCHIVED]: "Archived",
+};
+
+const REWARD_TYPE_LABELS: Record<string, string> = {
+  none: "No Rewards",
+  fixed_per_vote: "Fixed per Vote",
+  equal_split: "Equal Split",
+  per_poll: "Per Poll",
+  shared_pool: "Shared Pool",
+};
+
+const REWARD_POOL_LABELS: Record<string, string> = {
+  none: "Empty",
+  lt1: "Under 1",
+  "1to10": "1 – 10",
+  "10to100": "10 – 100",
+  gte100: "100+",
+};
+
+const FACET_TITLES: Record<FacetName, string> = {
+  status: "Status",
+  coinType: "Token",
+  rewardType: "Reward Type",
+  category: "Category",
+  creator: "Creator",
+  endingSoon: "Timing",
+  rewardPool: "Remaining Reward Pool",
+};
+
+type ListFacet = "status" | "coinType" | "rewardType" | "category" | "rewardPool";
+
+function facetLabel(kind: SearchKind, facet: FacetName, value: string): string {
+  switch (facet) {
+    case "status": {
+      const labels = kind === "polls" ? POLL_STATUS_LABELS : QUESTIONNAIRE_STATUS_LABELS;
+      return labels[parseInt(value)] ?? value;
+    }
+    case "coinType":
+      return getCoinSymbol(parseInt(value) as CoinTypeId);
+    case "rewardType":
+      return REWARD_TYPE_LABELS[value] ?? value;
+    case "rewardPool":
+      return REWARD_POOL_LABELS[value] ?? value;
+    case "category":
+      return value.charAt(0).toUpperCase() + value.slice(1);
+    case "creator":
+      return truncateAddress(value);
+    default:
+      return value;
+  }
+}
+
+interface SearchFilterPanelProps {
+  kind: SearchKind;
+  filters: SearchFilters;
+  facets?: Record<FacetName, FacetBucket[]>;
+  onChange: (filters: SearchFilters) => void;
+  /** Facets the screen controls itself (e.g. status on a tab) */
+  hiddenFacets?: FacetName[];
+}
+
+export function SearchFilterPanel({
+  kind,
+  filters,
+  facets,
+  onChange,
+  hiddenFacets = [],
+}: SearchFilterPanelProps) {
+  const activeCount =
+    countActiveFilters(filters) -
+    (hiddenFacets.includes("status") ? filters.status.length : 0) +
+    (filters.creator && !hiddenFacets.includes("creator") ? 1 : 0);
+
+  const toggleValue = (facet: ListFacet, value: string) => {
+    const current = filters[facet] as (string | number)[];
+    const typed = facet === "status" || facet === "coinType" ? parseInt(value) : value;
+    const next = current.includes(typed)
+      ? current.filter((v) => v !== typed)
+      : [...current, typed];
+    onChange({ ...filters, [facet]: next });
+  };
+
+  const clearFilters = () => {
+    onChange({
+      ...EMPTY_SEARCH_FILTERS,
+      q: filters.q,
+      sort: filters.sort,
+      // Screens that pin a creator (e.g. "my polls") keep it
+      creator: hiddenFacets.includes("creator") ? filters.creator : undefined,
+      // Hidden list facets are controlled by the screen, so keep them too
+      status: hiddenFacets.includes("status") ? filters.status : [],
+    });
+  };
+
+  const listFacets: ListFacet[] = (["status", "coinType", "rewardType", "category", "rewardPool"] as ListFacet[])
+    .filter((facet) => !hiddenFacets.includes(facet));
+
+  const endingSoonCount = facets?.endingSoon.find((bucket) => bucket.value === "true")?.count ?? 0;
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="outline" className="gap-2">
+          <Filter className="w-4 h-4" />
+          Filters
+          {activeCount > 0 && (
+            <Badge variant="secondary" className="ml-1 px-1.5 py-0 text-[10px]">
+              {activeCount}
+            </Badge>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-72 max-h-[70vh] overflow-y-auto">
+        <div className="flex items-center justify-between mb-3">
+          <h4 className="font-medium text-sm">Filters</h4>
+          {activeCount > 0 && (
+            <Button variant="ghost" size="sm" className="h-7 px-2 text-xs" onClick={clearFilters}>
+              <X className="w-3 h-3 mr-1" /> Clear
+            </Button>
+          )}
+        </div>
+
+        {!hiddenFacets.includes("endingSoon") && (
+          <>
+            <p className="text-xs font-medium text-muted-foreground uppercase mb-2">{FACET_TITLES.endingSoon}</p>
+            <div className="flex items-center gap-2 mb-3">
+              <Checkbox
+                id="facet-ending-soon"
+                checked={filters.endingSoon}
+                onCheckedChange={(checked) => onChange({ ...filters, endingSoon: checked === true })}
+              />
+              <Label htmlFor="facet-ending-soon" className="flex-1 text-sm font-normal cursor-pointer">
+                Ending in 24h
+              </Label>
+              <span className="text-xs text-muted-foreground font-mono">{endingSoonCount}</span>
+            </div>
+          </>
+        )}
+
+        {listFacets.map((facet) => {
+          const buckets = facets?.[facet] ?? [];
+          const selected = (filters[facet] as (string | number)[]).map(String);
+          // Keep selected values visible even when they have no matches
+          const values = [
+            ...buckets,
+            ...selected
+              .filter((value) => !buckets.some((bucket) => bucket.value === value))
+              .map((value) => ({ value, count: 0 })),
+          ];
+          if (values.length === 0) return null;
+
+          return (
+            <div key={facet}>
+              <Separator className="my-3" />
+              <p className="text-xs font-medium text-muted-foreground uppercase mb-2">{FACET_TITLES[facet]}</p>
+              <div className="space-y-2">
+                {values.map((bucket) => {
+                  const id = `facet-${facet}-${bucket.value}`;
+                  return (
+                    <div key={bucket.value} className="flex items-center gap-2">
+                      <Checkbox
+                        id={id}
+                        checked={selected.includes(bucket.value)}
+                        onCheckedChange={() => toggleValue(facet, bucket.value)}
+                      />
+                      <Label htmlFor={id} className="flex-1 text-sm font-normal cursor-pointer">
+                        {facetLabel(kind, facet, bucket.value)}
+                      </Label>
+                      <span className="text-xs text-muted-foreground font-mono">{bucket.count}</span>
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          );
+        })}
+
+        {!hiddenFacets.includes("creator") && facets && facets.creator.length > 0 && (
+          <>
+            <Separator className="my-3" />
+            <p className="text-xs font-medium text-muted-foreground uppercase mb-2">{FACET_TITLES.creator}</p>
+            <div className="space-y-1">
+              {facets.creator.map((bucket) => (
+                <button
+                  key={bucket.value}
+                  type="button"
+                  className={cn(
+                    "w-full flex items-center justify-between rounded px-2 py-1 text-sm hover:bg-muted",
+                    filters.creator === bucket.value && "bg-primary/10 text-primary"
+                  )}
+                  onClick={() =>
+                    onChange({ ...filters, creator: filters.creator === bucket.value ? undefined : bucket.value })
+                  }
+                >
+                  <span className="font-mono">{facetLabel(kind, "creator", bucket.value)}</span>
+                  <span className="text-xs text-muted-foreground font-mono">{bucket.count}</span>
+                </button>
+              ))}
+            </div>
+          </>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
+
+export default SearchFilterPanel;
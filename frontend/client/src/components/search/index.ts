@@ -0,0 +1,2 @@
+export { SearchBar } from "./SearchBar";
+export { SearchFilterPanel } from "./SearchFilterPanel";
@@ -1,6 +1,7 @@
 import { createContext, useContext, useState, useEffect, useCallback, ReactNode } from "react";
 import { useWalletConnection } from "@/hooks/useWalletConnection";
 import { useNetwork } from "@/contexts/NetworkContext";
+import { getAuthHeaders } from "@/lib/wallet-session";
 
 interface SponsorshipStatus {
   dailyUsed: number;
@@ -85,8 +86,8 @@ export function GasSponsorshipProvider({ children }: { children: ReactNode }) {
       try {
         await fetch(`/api/user/settings/${address}`, {
           method: "PUT",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({ gasSponsorshipEnabled: enabled }),
+          headers: { "Content-Type": "application/json", ...getAuthHeaders() },
+          body: JSON.stringify({ network, gasSponsorshipEnabled: enabled }),
         });
       } catch (error) {
         console.error("Failed to save sponsorship preference:", error);
@@ -95,7 +96,7 @@ export function GasSponsorshipProvider({ children }: { children: ReactNode }) {
         localStorage.setItem(LOCAL_STORAGE_KEY, String(!enabled));
       }
     }
-  }, [isConnected, address]);
+  }, [isConnected, address, network]);
 
   return (
     <GasSponsorshipContext.Provider
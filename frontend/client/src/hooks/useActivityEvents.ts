@@ -1,24 +1,37 @@
 /**
  * Hook for fetching user activity events
  * Uses React Query for caching and automatic refetching
- * Fetches data from Movement Indexer GraphQL API
+ * Pages through /api/activity with its opaque cursor
  */
 
-import { useQuery } from "@tanstack/react-query";
+import { useInfiniteQuery } from "@tanstack/react-query";
 import { useNetwork } from "@/contexts/NetworkContext";
-import { fetchUserActivity, type ActivityEvent } from "@/lib/events";
+import { fetchUserActivity, EMPTY_ACTIVITY_FILTERS, type ActivityFilters } from "@/lib/events";
+import type { ActivityPage } from "@shared/schema";
 
-export function useActivityEvents(address: string | undefined) {
-  const { config, network } = useNetwork();
+const PAGE_SIZE = 10;
 
-  return useQuery<ActivityEvent[]>({
-    queryKey: ['activity', address, network],
-    queryFn: () => {
-      if (!address) return Promise.resolve([]);
-      return fetchUserActivity(config.indexerUrl, config.contractAddress, address, 10);
-    },
+export function useActivityEvents(address: string | undefined, filters: ActivityFilters = EMPTY_ACTIVITY_FILTERS) {
+  const { network } = useNetwork();
+
+  const query = useInfiniteQuery<ActivityPage>({
+    queryKey: ['activity', address, filters, network],
+    queryFn: ({ pageParam }) =>
+      fetchUserActivity(network, address!, filters, pageParam as string | undefined, PAGE_SIZE),
+    initialPageParam: undefined as string | undefined,
+    getNextPageParam: (lastPage) => lastPage.nextCursor ?? undefined,
     enabled: !!address,
     staleTime: 30000, // 30 seconds
     refetchOnWindowFocus: true,
+    placeholderData: (previous) => previous,
   });
+
+  return {
+    data: query.data?.pages.flatMap((page) => page.items),
+    isLoading: query.isLoading,
+    error: query.error,
+    hasNextPage: query.hasNextPage,
+    isFetchingNextPage: query.isFetchingNextPage,
+    fetchNextPage: query.fetchNextPage,
+  };
 }
@@ -1,52 +1,176 @@
 /**
- * Hook for admin access control
- * Checks if the connected wallet address is in the admin whitelist
+ * Hooks for admin access control
+ * Roles are enforced server-side; these hooks read them for UI gating and
+ * let admins grant/revoke roles
  */
 
-import { useMemo } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { useWalletConnection } from "@/hooks/useWalletConnection";
+import { getAuthHeaders } from "@/lib/wallet-session";
+import {
+  ADMIN_ROLES,
+  type AdminRole,
+  type AdminRoleGrant,
+  type AdminRoleAuditEntry,
+} from "@shared/schema";
 
-/**
- * Get the list of admin addresses from environment variable
- * Format: comma-separated addresses (case-insensitive)
- */
-function getAdminAddresses(): string[] {
-  const adminAddressesEnv = import.meta.env.VITE_ADMIN_ADDRESSES || "";
-  if (!adminAddressesEnv) return [];
-
-  return adminAddressesEnv
-    .split(",")
-    .map((addr: string) => addr.trim().toLowerCase())
-    .filter((addr: string) => addr.length > 0);
+// ============================================
+// Types
+// ============================================
+
+export interface RoleGrantsResponse {
+  grants: AdminRoleGrant[];
+  bootstrapAdmins: string[];
 }
 
-/**
- * Check if an address is an admin
- */
-export function isAdminAddress(address: string | null | undefined): boolean {
-  if (!address) return false;
-  const adminAddresses = getAdminAddresses();
-  return adminAddresses.includes(address.toLowerCase());
+export interface GrantRoleInput {
+  walletAddress: string;
+  role: AdminRole;
 }
 
+// ============================================
+// useAdmin Hook - Roles of the connected wallet
+// ============================================
+
 /**
  * Hook for admin access control
- * Returns whether the connected wallet is an admin
+ * Returns the connected wallet's roles and derived permissions
  */
 export function useAdmin() {
   const { isConnected, address } = useWalletConnection();
 
-  const isAdmin = useMemo(() => {
-    if (!isConnected || !address) return false;
-    return isAdminAddress(address);
-  }, [isConnected, address]);
+  const { data: roles = [], isLoading } = useQuery<AdminRole[]>({
+    queryKey: ["adminRoles", address],
+    queryFn: async () => {
+      const res = await fetch(`/api/admin/roles/${address}`, {
+        credentials: "include",
+      });
+
+      if (!res.ok) {
+        throw new Error(`Failed to fetch roles: ${res.statusText}`);
+      }
 
-  const adminAddresses = useMemo(() => getAdminAddresses(), []);
+      const data = await res.json();
+      return data.data.roles;
+    },
+    enabled: isConnected && !!address,
+    staleTime: 60000,
+  });
+
+  const isAdmin = roles.includes(ADMIN_ROLES.ADMIN);
 
   return {
     isAdmin,
+    canManageSeasons: isAdmin || roles.includes(ADMIN_ROLES.SEASON_OPERATOR),
+    canAuthorQuests: isAdmin || roles.includes(ADMIN_ROLES.QUEST_AUTHOR),
+    roles,
+    isLoading,
     isConnected,
     address,
-    adminAddresses,
   };
 }
+
+// ============================================
+// useRoleGrants Hook - All grants (admin only)
+// ============================================
+
+export function useRoleGrants(enabled: boolean) {
+  return useQuery<RoleGrantsResponse>({
+    queryKey: ["roleGrants"],
+    queryFn: async () => {
+      const res = await fetch("/api/admin/roles", {
+        headers: getAuthHeaders(),
+        credentials: "include",
+      });
+
+      if (!res.ok) {
+        throw new Error(`Failed to fetch role grants: ${res.statusText}`);
+      }
+
+      const data = await res.json();
+      return data.data;
+    },
+    enabled,
+  });
+}
+
+// ============================================
+// useRoleAudit Hook - Grant/revoke history (admin only)
+// ============================================
+
+export function useRoleAudit(enabled: boolean, limit = 50) {
+  return useQuery<AdminRoleAuditEntry[]>({
+    queryKey: ["roleAudit", limit],
+    queryFn: async () => {
+      const res = await fetch(`/api/admin/roles/audit?limit=${limit}`, {
+        headers: getAuthHeaders(),
+        credentials: "include",
+      });
+
+      if (!res.ok) {
+        throw new Error(`Failed to fetch role audit log: ${res.statusText}`);
+      }
+
+      const data = await res.json();
+      return data.data;
+    },
+    enabled,
+  });
+}
+
+// ============================================
+// useGrantRole / useRevokeRole Mutations
+// ============================================
+
+export function useGrantRole() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (input: GrantRoleInput) => {
+      const res = await fetch("/api/admin/roles", {
+        method: "POST",
+        headers: { "Content-Type": "application/json", ...getAuthHeaders() },
+        credentials: "include",
+        body: JSON.stringify(input),
+      });
+
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(error.error || "Failed to grant role");
+      }
+
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["roleGrants"] });
+      queryClient.invalidateQueries({ queryKey: ["roleAudit"] });
+      queryClient.invalidateQueries({ queryKey: ["adminRoles"] });
+    },
+  });
+}
+
+export function useRevokeRole() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ walletAddress, role }: GrantRoleInput) => {
+      const res = await fetch(`/api/admin/roles/${walletAddress}/${role}`, {
+        method: "DELETE",
+        headers: getAuthHeaders(),
+        credentials: "include",
+      });
+
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(error.error || "Failed to revoke role");
+      }
+
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["roleGrants"] });
+      queryClient.invalidateQueries({ queryKey: ["roleAudit"] });
+      queryClient.invalidateQueries({ queryKey: ["adminRoles"] });
+    },
+  });
+}
@@ -0,0 +1,161 @@
+/**
+ * Hook for claiming many rewards at once
+ * Groups claimable poll and questionnaire rewards by coin type and claims each
+ * group with claim_rewards_batch, one signature per group (split into chunks
+ * of MAX_BATCH_SIZE). Tracks progress per item; failed items are retried one
+ * transaction each so a single bad claim can't hold back the rest.
+ */
+
+import { useState, useCallback } from "react";
+import { useContract, type ClaimRewardsBatchResult } from "@/hooks/useContract";
+import type { CoinTypeId } from "@/lib/tokens";
+import { ZERO_AMOUNT, type Amount } from "@shared/schema";
+
+// Keeps each batch well under the max gas amount
+const MAX_BATCH_SIZE = 20;
+
+export type ClaimableRewardKind = "poll" | "questionnaire";
+
+export interface ClaimableReward {
+  key: string;
+  kind: ClaimableRewardKind;
+  id: number;
+  title: string;
+  link?: string;
+  coinTypeId: CoinTypeId;
+  // Expected reward in base units
+  amount: Amount;
+}
+
+export type ClaimItemStatus = "queued" | "claiming" | "claimed" | "failed";
+
+export interface ClaimItemProgress {
+  status: ClaimItemStatus;
+  hash?: string;
+  error?: string;
+  // Claimed amount in base units, read from the transaction's events
+  amount?: Amount;
+}
+
+export interface BatchClaimSummary {
+  hashes: string[];
+  claimed: number;
+  failed: number;
+  // Claimed base units per coin type
+  totals: Partial<Record<CoinTypeId, Amount>>;
+}
+
+export function getClaimableRewardKey(kind: ClaimableRewardKind, id: number): string {
+  return `${kind}-${id}`;
+}
+
+/**
+ * Split items into batches of one coin type each, at most MAX_BATCH_SIZE long
+ */
+export function groupClaimBatches(items: ClaimableReward[]): ClaimableReward[][] {
+  const byCoinType = new Map<CoinTypeId, ClaimableReward[]>();
+  for (const item of items) {
+    const group = byCoinType.get(item.coinTypeId) ?? [];
+    group.push(item);
+    byCoinType.set(item.coinTypeId, group);
+  }
+
+  const batches: ClaimableReward[][] = [];
+  for (const group of Array.from(byCoinType.values())) {
+    for (let i = 0; i < group.length; i += MAX_BATCH_SIZE) {
+      batches.push(group.slice(i, i + MAX_BATCH_SIZE));
+    }
+  }
+  return batches;
+}
+
+export function useBatchClaim() {
+  const { claimRewardsBatch } = useContract();
+  const [progress, setProgress] = useState<Record<string, ClaimItemProgress>>({});
+  const [isRunning, setIsRunning] = useState(false);
+
+  const updateItems = useCallback(
+    (items: ClaimableReward[], update: (item: ClaimableReward) => ClaimItemProgress) => {
+      setProgress((prev) => {
+        const next = { ...prev };
+        for (const item of items) {
+          next[item.key] = update(item);
+        }
+        return next;
+      });
+    },
+    []
+  );
+
+  const runBatches = useCallback(
+    async (batches: ClaimableReward[][]): Promise<BatchClaimSummary> => {
+      const summary: BatchClaimSummary = { hashes: [], claimed: 0, failed: 0, totals: {} };
+      if (batches.length === 0) return summary;
+
+      setIsRunning(true);
+      updateItems(batches.flat(), () => ({ status: "queued" }));
+
+      try {
+        for (const batch of batches) {
+          updateItems(batch, () => ({ status: "claiming" }));
+
+          let result: ClaimRewardsBatchResult;
+          try {
+            result = await claimRewardsBatch(
+              batch.filter((item) => item.kind === "poll").map((item) => item.id),
+              batch.filter((item) => item.kind === "questionnaire").map((item) => item.id)
+            );
+          } catch (err) {
+            const message = err instanceof Error ? err.message : "Failed to claim rewards";
+            updateItems(batch, () => ({ status: "failed", error: message }));
+            summary.failed += batch.length;
+            continue;
+          }
+
+          const claimedAmount = (item: ClaimableReward) =>
+            (item.kind === "poll" ? result.pollAmounts[item.id] : result.questionnaireAmounts[item.id]) ??
+            item.amount;
+
+          updateItems(batch, (item) => ({
+            status: "claimed",
+            hash: result.hash,
+            amount: claimedAmount(item),
+          }));
+          summary.hashes.push(result.hash);
+          summary.claimed += batch.length;
+          for (const item of batch) {
+            summary.totals[item.coinTypeId] = (summary.totals[item.coinTypeId] ?? ZERO_AMOUNT) + claimedAmount(item);
+          }
+        }
+      } finally {
+        setIsRunning(false);
+      }
+
+      return summary;
+    },
+    [claimRewardsBatch, updateItems]
+  );
+
+  // Claim everything, one transaction per coin type
+  const claimAll = useCallback(
+    (items: ClaimableReward[]) => runBatches(groupClaimBatches(items)),
+    [runBatches]
+  );
+
+  // Retry the failed items individually
+  const retryFailed = useCallback(
+    (items: ClaimableReward[]) =>
+      runBatches(items.filter((item) => progress[item.key]?.status === "failed").map((item) => [item])),
+    [runBatches, progress]
+  );
+
+  const reset = useCallback(() => setProgress({}), []);
+
+  return {
+    progress,
+    isRunning,
+    claimAll,
+    retryFailed,
+    reset,
+  };
+}
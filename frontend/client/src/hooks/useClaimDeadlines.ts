@@ -0,0 +1,30 @@
+/**
+ * Hook for a creator's claim deadlines
+ * Lists polls collecting claims or waiting to be finalized, tracked server-side
+ * by the claim deadline watcher, plus whether automatic finalization is on.
+ */
+
+import { useQuery } from "@tanstack/react-query";
+import { useNetwork } from "@/contexts/NetworkContext";
+import type { ClaimDeadlineOverview } from "@shared/schema";
+
+export function useClaimDeadlines(creator: string | undefined) {
+  const { network } = useNetwork();
+
+  return useQuery<ClaimDeadlineOverview>({
+    queryKey: ["claimDeadlines", creator, network],
+    queryFn: async () => {
+      const params = new URLSearchParams({ network, creator: creator! });
+      const res = await fetch(`/api/polls/claim-deadlines?${params}`);
+
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error || "Failed to fetch claim deadlines");
+      }
+      return data.data;
+    },
+    enabled: !!creator,
+    staleTime: 30 * 1000,
+    refetchInterval: 60 * 1000,
+  });
+}
@@ -1,7 +1,7 @@
 import { useState, useCallback, useMemo } from "react";
 import { useWallet } from "@aptos-labs/wallet-adapter-react";
 import { useNetwork } from "@/contexts/NetworkContext";
-import { createAptosClient, getFunctionId, formatTimeRemaining, isPollActive } from "@/lib/contract";
+import { createAptosClient, getFunctionId, enrichPoll, type PollSource } from "@/lib/contract";
 import { usePrivyWallet } from "@/hooks/usePrivyWallet";
 import { submitPrivyTransaction } from "@/lib/privy-transactions";
 import {
@@ -11,13 +11,20 @@ import {
 } from "@/lib/sponsored-transactions";
 import { CoinTypeId, COIN_TYPES, getFAMetadataAddress, getTokenStandard } from "@/lib/tokens";
 import { isIndexerOptimizationEnabled } from "@/lib/feature-flags";
-import type { Poll, PollWithMeta, CreatePollInput, VoteInput, TransactionResult, PlatformConfig } from "@/types/poll";
+import type { PollWithMeta, CreatePollInput, VoteInput, TransactionResult, PlatformConfig } from "@/types/poll";
+import { toAmount, type Amount } from "@shared/schema";
 
 // Extended transaction result with sponsorship info
 export interface TransactionResultWithSponsorship extends TransactionResult {
   sponsored?: boolean;
 }
 
+// Batch claim result with the amount claimed per poll and questionnaire, in base units
+export interface ClaimRewardsBatchResult extends TransactionResultWithSponsorship {
+  pollAmounts: Record<number, Amount>;
+  questionnaireAmounts: Record<number, Amount>;
+}
+
 export function useContract() {
   const { config, network } = useNetwork();
   const { signAndSubmitTransaction, signTransaction, account } = useWallet();
@@ -48,23 +55,6 @@ export function useContract() {
     return network === "mainnet" ? "mainnet" : "testnet";
   }, [network]);
 
-  // Helper to enrich poll with computed fields
-  const enrichPoll = useCallback((poll: Poll): PollWithMeta => {
-    // Ensure votes are numbers (blockchain may return strings)
-    const numericVotes = poll.votes.map(v => Number(v));
-    const totalVotes = numericVotes.reduce((sum, v) => sum + v, 0);
-    const votePercentages = numericVotes.map((v) =>
-      totalVotes > 0 ? Math.round((v / totalVotes) * 100) : 0
-    );
-    return {
-      ...poll,
-      totalVotes,
-      isActive: isPollActive(poll),
-      timeRemaining: formatTimeRemaining(poll.end_time),
-      votePercentages,
-    };
-  }, []);
-
   // Helper function to execute transaction with dual-path support and gas sponsorship
   const executeTransaction = useCallback(
     async (
@@ -356,7 +346,7 @@ export function useContract() {
 
   // Fund an existing poll
   const fundPoll = useCallback(
-    async (pollId: number, amount: number, coinTypeId: CoinTypeId = COIN_TYPES.PULSE): Promise<TransactionResult> => {
+    async (pollId: number, amount: Amount, coinTypeId: CoinTypeId = COIN_TYPES.PULSE): Promise<TransactionResult> => {
       setLoading(true);
       setError(null);
 
@@ -489,6 +479,52 @@ export function useContract() {
     [executeTransaction, contractAddress]
   );
 
+  // Let another account finalize this creator's polls once their claim period has elapsed
+  const setFinalizeDelegate = useCallback(
+    async (delegate: string): Promise<TransactionResult> => {
+      setLoading(true);
+      setError(null);
+
+      try {
+        return await executeTransaction(
+          "set_finalize_delegate",
+          [delegate],
+          "Failed to enable automatic finalization"
+        );
+      } catch (err) {
+        const message = err instanceof Error ? err.message : "Failed to enable automatic finalization";
+        setError(message);
+        throw err;
+      } finally {
+        setLoading(false);
+      }
+    },
+    [executeTransaction]
+  );
+
+  // Revoke the creator's finalize delegate
+  const removeFinalizeDelegate = useCallback(
+    async (): Promise<TransactionResult> => {
+      setLoading(true);
+      setError(null);
+
+      try {
+        return await executeTransaction(
+          "remove_finalize_delegate",
+          [],
+          "Failed to disable automatic finalization"
+        );
+      } catch (err) {
+        const message = err instanceof Error ? err.message : "Failed to disable automatic finalization";
+        setError(message);
+        throw err;
+      } finally {
+        setLoading(false);
+      }
+    },
+    [executeTransaction]
+  );
+
   // Vote on a poll
   const vote = useCallback(
     async (input: VoteInput): Promise<TransactionResult> => {
@@ -614,10 +650,10 @@ export function useContract() {
   const createQuestionnairePool = useCallback(
     async (
       pollIds: number[],
-      rewardPerCompletion: number, // 0 = equal split
+      rewardPerCompletion: Amount, // 0 = equal split
       maxCompleters: number, // 0 = unlimited
       durationSecs: number,
-      fundAmount: number,
+      fundAmount: Amount,
       faMetadataAddress: string,
       coinTypeId: CoinTypeId
     ): Promise<TransactionResult> => {
@@ -719,6 +755,51 @@ export function useContract() {
     [executeTransaction, contractAddress]
   );
 
+  // Claim from several polls (any coin type) and questionnaire pools in one transaction
+  const claimRewardsBatch = useCallback(
+    async (pollIds: number[], questionnaireIds: number[] = []): Promise<ClaimRewardsBatchResult> => {
+      setLoading(true);
+      setError(null);
+
+      try {
+        const result = await executeTransaction(
+          "claim_rewards_batch",
+          [contractAddress, pollIds.map((id) => id.toString()), questionnaireIds.map((id) => id.toString())],
+          "Failed to claim rewards"
+        );
+
+        // Wait for the batch to land so an aborted claim surfaces as an error,
+        // then read the claimed amounts from the RewardClaimed events
+        const txResponse = await client.waitForTransaction({
+          transactionHash: result.hash,
+          options: { checkSuccess: true },
+        });
+
+        const pollAmounts: Record<number, Amount> = {};
+        const questionnaireAmounts: Record<number, Amount> = {};
+        if ("events" in txResponse && Array.isArray(txResponse.events)) {
+          for (const event of txResponse.events) {
+            const data = event.data as { poll_id?: string; questionnaire_id?: string; amount?: string };
+            if (event.type.endsWith("::poll::RewardClaimed") && data.poll_id) {
+              pollAmounts[parseInt(data.poll_id, 10)] = toAmount(data.amount ?? "0");
+            } else if (event.type.endsWith("::poll::QuestionnaireRewardClaimed") && data.questionnaire_id) {
+              questionnaireAmounts[parseInt(data.questionnaire_id, 10)] = toAmount(data.amount ?? "0");
+            }
+          }
+        }
+
+        return { ...result, pollAmounts, questionnaireAmounts };
+      } catch (err) {
+        const message = err instanceof Error ? err.message : "Failed to claim rewards";
+        setError(message);
+        throw err;
+      } finally {
+        setLoading(false);
+      }
+    },
+    [executeTransaction, contractAddress, client]
+  );
+
   // Check if user has completed all polls in a questionnaire (view function)
   const hasCompletedQuestionnaire = useCallback(
     async (questionnaireId: number, userAddress?: string): Promise<boolean> => {
@@ -749,8 +830,8 @@ export function useContract() {
       id: number;
       creator: string;
       poll_ids: number[];
-      reward_pool: number;
-      reward_per_completion: number;
+      reward_pool: Amount;
+      reward_per_completion: Amount;
       max_completers: number;
       completers: string[];
       claimed: string[];
@@ -777,8 +858,8 @@ export function useContract() {
             id: Number(pool.id),
             creator: pool.creator,
             poll_ids: pool.poll_ids.map((id: string) => Number(id)),
-            reward_pool: Number(pool.reward_pool),
-            reward_per_completion: Number(pool.reward_per_completion),
+            reward_pool: toAmount(pool.reward_pool),
+            reward_per_completion: toAmount(pool.reward_per_completion),
             max_completers: Number(pool.max_completers),
             completers: pool.completers,
             claimed: pool.claimed,
@@ -860,7 +941,7 @@ export function useContract() {
         });
 
         if (result && result[0]) {
-          const poll = result[0] as Poll;
+          const poll = result[0] as PollSource;
           return enrichPoll(poll);
         }
         return null;
@@ -869,7 +950,7 @@ export function useContract() {
         return null;
       }
     },
-    [client, contractAddress, enrichPoll]
+    [client, contractAddress]
   );
 
   // Get total poll count (view function)
@@ -1030,7 +1111,7 @@ export function useContract() {
         return {
           feeBps: Number(result[0]),
           treasury: String(result[1]),
-          totalFeesCollected: Number(result[2]),
+          totalFeesCollected: toAmount(result[2] as string),
           claimPeriodSecs: result.length >= 4 ? Number(result[3]) : 604800, // Default 7 days
         };
       }
@@ -1062,12 +1143,15 @@ export function useContract() {
     distributeRewards,
     withdrawRemaining,
     finalizePoll,
+    setFinalizeDelegate,
+    removeFinalizeDelegate,
 
     // Questionnaire pool write functions
     createQuestionnairePool,
     markQuestionnaireCompleted,
     startQuestionnaireClaims,
     claimQuestionnaireReward,
+    claimRewardsBatch,
 
     // Read functions
     getPoll,
@@ -0,0 +1,126 @@
+/**
+ * Hooks for the donor funding ledger
+ * Fundings (fund_poll_with_*) and refunds (withdraw_remaining_*) are recorded
+ * server-side from the chain; amounts are u64 strings in the token's base units.
+ */
+
+import { useCallback } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useNetwork } from "@/contexts/NetworkContext";
+import { useWalletConnection } from "@/hooks/useWalletConnection";
+import type { PollFundingKind } from "@shared/schema";
+
+// ============================================
+// Types
+// ============================================
+
+export interface DonorFundingEntry {
+  id: string;
+  pollId: number;
+  pollTitle: string | null;
+  kind: PollFundingKind;
+  coinTypeId: number;
+  amount: string;
+  platformFee: string;
+  netAmount: string;
+  /** Funds only: part of netAmount paid to voters so far */
+  paidOut: string | null;
+  txHash: string;
+  occurredAt: string;
+}
+
+export interface DonorPollTotals {
+  pollId: number;
+  pollTitle: string | null;
+  pollStatus: number | null;
+  coinTypeId: number;
+  fundingCount: number;
+  funded: string;
+  platformFees: string;
+  netFunded: string;
+  refunded: string;
+  paidOut: string;
+}
+
+export interface DonorCoinTotals {
+  coinTypeId: number;
+  funded: string;
+  platformFees: string;
+  refunded: string;
+  paidOut: string;
+}
+
+export interface DonorFundings {
+  fundings: DonorFundingEntry[];
+  polls: DonorPollTotals[];
+  totals: DonorCoinTotals[];
+}
+
+const EMPTY_FUNDINGS: DonorFundings = { fundings: [], polls: [], totals: [] };
+
+// ============================================
+// Queries
+// ============================================
+
+/**
+ * A wallet's fundings and refunds on the active network
+ */
+export function useDonorFundings(address: string | null | undefined) {
+  const { network } = useNetwork();
+
+  const query = useQuery<DonorFundings>({
+    queryKey: ["donorFundings", address, network],
+    queryFn: async () => {
+      const res = await fetch(`/api/donor/${address}/fundings?network=${network}`, {
+        credentials: "include",
+      });
+
+      if (!res.ok) {
+        throw new Error(`Failed to fetch fundings: ${res.statusText}`);
+      }
+
+      const data = await res.json();
+      return data.data;
+    },
+    enabled: !!address,
+    staleTime: 60 * 1000, // 1 minute
+  });
+
+  return {
+    ...(query.data ?? EMPTY_FUNDINGS),
+    isLoading: query.isLoading,
+    error: query.error,
+    refetch: query.refetch,
+  };
+}
+
+// ============================================
+// Recording
+// ============================================
+
+/**
+ * Record the connected wallet's funding or withdrawal transaction in the ledger
+ * Returns false on failure; the ledger also picks transactions up from the chain later.
+ */
+export function useRecordFunding() {
+  const queryClient = useQueryClient();
+  const { address } = useWalletConnection();
+  const { network } = useNetwork();
+
+  return useCallback(
+    async (txHash: string): Promise<boolean> => {
+      if (!address) return false;
+
+      try {
+        await apiRequest("POST", `/api/donor/${address}/fundings`, { network, txHash });
+        queryClient.invalidateQueries({ queryKey: ["donorFundings", address] });
+        return true;
+      } catch (error) {
+        console.error("Failed to record funding:", error);
+        return false;
+      }
+    },
+    [address, network, queryClient]
+  );
+}
@@ -0,0 +1,149 @@
+/**
+ * Hooks for live poll and questionnaire updates
+ * Subscribes to the shared /ws/live connection and folds pushed vote counts and
+ * status changes into the React Query caches, so every view of a poll updates
+ * without polling. Components holding polls in local state can use the returned
+ * live state (see applyLivePollState).
+ */
+
+import { useEffect, useState } from "react";
+import { useQueryClient, type InfiniteData, type QueryClient } from "@tanstack/react-query";
+import { useNetwork } from "@/contexts/NetworkContext";
+import { subscribeLive } from "@/lib/live-updates";
+import { enrichPoll } from "@/lib/contract";
+import type { Poll, PollWithMeta } from "@/types/poll";
+import type { SearchPage } from "@/hooks/useSearch";
+import type { QuestionnaireWithPolls } from "@/hooks/useQuestionnaire";
+import { pollChannel, questionnaireChannel, type LiveEvent } from "@shared/schema";
+
+// ============================================
+// Types
+// ============================================
+
+export interface LivePollState {
+  votes?: number[];
+  totalVotes?: number;
+  status?: number;
+  lastClaim?: { claimer: string; amount: string };
+}
+
+type PollEvent = Extract<LiveEvent, { pollId: number }>;
+
+// ============================================
+// Helpers
+// ============================================
+
+function reduceLivePoll(state: LivePollState | null, event: PollEvent): LivePollState {
+  switch (event.type) {
+    case "poll_votes":
+      return { ...state, votes: event.votes, totalVotes: event.totalVotes };
+    case "poll_status":
+      return { ...state, status: event.status };
+    case "poll_claim":
+      return { ...state, lastClaim: { claimer: event.claimer, amount: event.amount } };
+  }
+}
+
+/**
+ * Overlay live state on a poll, recomputing totals, percentages and isActive
+ */
+export function applyLivePollState<T extends Poll>(poll: T, live: LivePollState | null): PollWithMeta {
+  if (!live || (live.votes === undefined && live.status === undefined)) {
+    return enrichPoll(poll);
+  }
+  return enrichPoll({
+    ...poll,
+    votes: live.votes ?? poll.votes,
+    status: live.status ?? poll.status,
+  });
+}
+
+/**
+ * Patch every cached copy of a poll (detail, lists and search pages)
+ */
+function patchPollCaches(queryClient: QueryClient, event: PollEvent): void {
+  if (event.type === "poll_claim") {
+    // Claims change the remaining reward pool, which isn't part of the event
+    queryClient.invalidateQueries({ queryKey: ["poll", event.pollId, event.network] });
+    return;
+  }
+
+  const live = reduceLivePoll(null, event);
+  const patch = <T extends Poll>(poll: T): T =>
+    poll.id === event.pollId ? { ...poll, ...applyLivePollState(poll, live) } : poll;
+
+  queryClient.setQueryData<PollWithMeta | null>(["poll", event.pollId, event.network], (poll) =>
+    poll ? patch(poll) : poll
+  );
+  queryClient.setQueriesData<PollWithMeta[]>({ queryKey: ["polls", event.network] }, (polls) =>
+    polls?.map(patch)
+  );
+  queryClient.setQueriesData<InfiniteData<SearchPage<Poll>>>(
+    { queryKey: ["search", "polls", event.network] },
+    (data) =>
+      data && {
+        ...data,
+        pages: data.pages.map((page) => ({ ...page, items: page.items.map(patch) })),
+      }
+  );
+}
+
+// ============================================
+// Hooks
+// ============================================
+
+/**
+ * Follow one poll's vote counts, status and claims
+ * Returns null until the first push arrives
+ */
+export function useLivePoll(pollId: number | null | undefined): LivePollState | null {
+  const { network } = useNetwork();
+  const queryClient = useQueryClient();
+  const [live, setLive] = useState<LivePollState | null>(null);
+
+  useEffect(() => {
+    setLive(null);
+    if (pollId === null || pollId === undefined || isNaN(pollId)) return;
+
+    return subscribeLive(pollChannel(network, pollId), (event) => {
+      if (!("pollId" in event)) return;
+      setLive((state) => reduceLivePoll(state, event));
+      patchPollCaches(queryClient, event);
+    });
+  }, [pollId, network, queryClient]);
+
+  return live;
+}
+
+/**
+ * Follow a questionnaire: completion count plus live state of each of its polls
+ */
+export function useLiveQuestionnaire(questionnaireId: string | null | undefined) {
+  const { network } = useNetwork();
+  const queryClient = useQueryClient();
+  const [completionCount, setCompletionCount] = useState<number | null>(null);
+  const [polls, setPolls] = useState<Record<number, LivePollState>>({});
+
+  useEffect(() => {
+    setCompletionCount(null);
+    setPolls({});
+    if (!questionnaireId) return;
+
+    return subscribeLive(questionnaireChannel(questionnaireId), (event) => {
+      if (event.type === "questionnaire_completions") {
+        setCompletionCount(event.completionCount);
+        queryClient.setQueryData<QuestionnaireWithPolls>(["questionnaire", questionnaireId], (questionnaire) =>
+          questionnaire && { ...questionnaire, completionCount: event.completionCount }
+        );
+        return;
+      }
+
+      // Questionnaires aren't network-scoped yet; ignore the other network's polls
+      if (event.network !== network) return;
+      setPolls((state) => ({ ...state, [event.pollId]: reduceLivePoll(state[event.pollId] ?? null, event) }));
+      patchPollCaches(queryClient, event);
+    });
+  }, [questionnaireId, network, queryClient]);
+
+  return { completionCount, polls };
+}
@@ -0,0 +1,228 @@
+/**
+ * Hooks for the notification center
+ * Notifications are per network; preferences follow the wallet across networks.
+ * All calls need a wallet session.
+ */
+
+import { useEffect } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { useNetwork } from "@/contexts/NetworkContext";
+import { useWalletConnection } from "@/hooks/useWalletConnection";
+import { getAuthHeaders } from "@/lib/wallet-session";
+import type { NotificationChannel, NotificationType } from "@shared/schema";
+
+// ============================================
+// Types
+// ============================================
+
+export interface AppNotification {
+  id: string;
+  network: string;
+  type: NotificationType;
+  title: string;
+  body: string;
+  link: string | null;
+  data: Record<string, string | number>;
+  notifyAt: string;
+  readAt: string | null;
+}
+
+export interface NotificationFeed {
+  items: AppNotification[];
+  unreadCount: number;
+}
+
+export interface NotificationPreferences {
+  walletAddress: string;
+  channels: Record<NotificationType, NotificationChannel[]>;
+  email: string | null;
+  // Email deliveries start once the emailed confirmation link is followed
+  emailConfirmedAt: string | null;
+  webhookUrl: string | null;
+  webhookSecret: string | null;
+}
+
+export interface NotificationPreferencesUpdate {
+  channels?: Record<NotificationType, NotificationChannel[]>;
+  email?: string | null;
+  webhookUrl?: string | null;
+  rotateWebhookSecret?: boolean;
+  resendEmailConfirmation?: boolean;
+}
+
+// ============================================
+// Queries
+// ============================================
+
+/**
+ * The connected wallet's notifications on the active network (polled every minute)
+ */
+export function useNotifications() {
+  const { network } = useNetwork();
+  const { address } = useWalletConnection();
+
+  return useQuery<NotificationFeed>({
+    queryKey: ["notifications", address, network],
+    queryFn: async () => {
+      const res = await fetch(`/api/notifications?network=${network}`, {
+        headers: getAuthHeaders(),
+        credentials: "include",
+      });
+
+      if (!res.ok) {
+        throw new Error(`Failed to fetch notifications: ${res.statusText}`);
+      }
+
+      const data = await res.json();
+      return data.data;
+    },
+    enabled: !!address,
+    staleTime: 30 * 1000,
+    refetchInterval: 60 * 1000,
+  });
+}
+
+export function useNotificationPreferences() {
+  const { address } = useWalletConnection();
+
+  return useQuery<NotificationPreferences>({
+    queryKey: ["notificationPreferences", address],
+    queryFn: async () => {
+      const res = await fetch("/api/notifications/preferences", {
+        headers: getAuthHeaders(),
+        credentials: "include",
+      });
+
+      if (!res.ok) {
+        throw new Error(`Failed to fetch notification preferences: ${res.statusText}`);
+      }
+
+      const data = await res.json();
+      return data.data;
+    },
+    enabled: !!address,
+  });
+}
+
+// ============================================
+// Mutations
+// ============================================
+
+/**
+ * Mark notifications read (all of them when no ids are given)
+ */
+export function useMarkNotificationsRead() {
+  const queryClient = useQueryClient();
+  const { network } = useNetwork();
+
+  return useMutation({
+    mutationFn: async (ids?: string[]) => {
+      const res = await fetch("/api/notifications/read", {
+        method: "POST",
+        headers: { "Content-Type": "application/json", ...getAuthHeaders() },
+        credentials: "include",
+        body: JSON.stringify({ ids, network }),
+      });
+
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error || "Failed to mark notifications read");
+      }
+      return data.data as { updated: number };
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["notifications"] });
+    },
+  });
+}
+
+export function useUpdateNotificationPreferences() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (update: NotificationPreferencesUpdate) => {
+      const res = await fetch("/api/notifications/preferences", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json", ...getAuthHeaders() },
+        credentials: "include",
+        body: JSON.stringify(update),
+      });
+
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error || "Failed to save notification preferences");
+      }
+      return data.data as NotificationPreferences;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["notificationPreferences"] });
+    },
+  });
+}
+
+/**
+ * Send a sample to the saved email and webhook; resolves to each channel's outcome
+ */
+export function useSendTestNotification() {
+  const { network } = useNetwork();
+
+  return useMutation({
+    mutationFn: async () => {
+      const res = await fetch("/api/notifications/test", {
+        method: "POST",
+        headers: { "Content-Type": "application/json", ...getAuthHeaders() },
+        credentials: "include",
+        body: JSON.stringify({ network }),
+      });
+
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error || "Failed to send test notification");
+      }
+      return data.data as Partial<Record<NotificationChannel, string>>;
+    },
+  });
+}
+
+/**
+ * Confirm a notification email from the ?confirmEmail= link it was sent
+ * Works without a connected wallet; the token is dropped from the URL once read.
+ */
+export function useEmailConfirmationLink() {
+  const queryClient = useQueryClient();
+
+  const confirm = useMutation({
+    mutationFn: async (token: string) => {
+      const res = await fetch("/api/notifications/email/confirm", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ token }),
+      });
+
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error || "Failed to confirm email");
+      }
+      return data.data as { email: string };
+    },
+    onSuccess: ({ email }) => {
+      toast.success(`${email} will now receive notifications`);
+      queryClient.invalidateQueries({ queryKey: ["notificationPreferences"] });
+    },
+    onError: (error) => {
+      toast.error(error.message);
+    },
+  });
+
+  useEffect(() => {
+    const urlParams = new URLSearchParams(window.location.search);
+    const token = urlParams.get("confirmEmail");
+    if (!token) return;
+
+    urlParams.delete("confirmEmail");
+    const newSearch = urlParams.toString();
+    window.history.replaceState({}, "", window.location.pathname + (newSearch ? `?${newSearch}` : ""));
+    confirm.mutate(token);
+  }, []);
+}
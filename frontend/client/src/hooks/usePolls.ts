@@ -1,5 +1,6 @@
 /**
  * Hook for fetching polls with React Query caching
+ * Reads from the server-side poll index (/api/polls) instead of one view call per poll
  * Uses the indexer optimization feature flag for cache behavior
  */
 
@@ -7,9 +8,64 @@ import { useQuery, useQueryClient } from "@tanstack/react-query";
 import { useContract } from "@/hooks/useContract";
 import { useNetwork } from "@/contexts/NetworkContext";
 import { isIndexerOptimizationEnabled } from "@/lib/feature-flags";
-import type { PollWithMeta } from "@/types/poll";
+import { enrichPoll } from "@/lib/contract";
+import type { Poll, PollWithMeta } from "@/types/poll";
 
 const CACHE_STALE_TIME = 60000; // 60 seconds
+const PAGE_SIZE = 100; // Server maximum
+
+export interface PollFilters {
+  status?: number;
+  creator?: string;
+  coinType?: number;
+  voter?: string;
+  active?: boolean;
+  sort?: "newest" | "oldest" | "votes" | "ending";
+}
+
+interface PollsPageResponse {
+  data: Poll[];
+  pagination: { total: number; limit: number; offset: number };
+}
+
+function buildPollsQuery(network: string, filters: PollFilters, offset: number): string {
+  const params = new URLSearchParams({
+    network,
+    limit: PAGE_SIZE.toString(),
+    offset: offset.toString(),
+  });
+  if (filters.status !== undefined) params.set("status", filters.status.toString());
+  if (filters.creator) params.set("creator", filters.creator);
+  if (filters.coinType !== undefined) params.set("coinType", filters.coinType.toString());
+  if (filters.voter) params.set("voter", filters.voter);
+  if (filters.active) params.set("active", "true");
+  if (filters.sort) params.set("sort", filters.sort);
+  return params.toString();
+}
+
+/**
+ * Fetch every indexed poll matching the filters, page by page
+ */
+async function fetchIndexedPolls(network: string, filters: PollFilters): Promise<PollWithMeta[]> {
+  const polls: PollWithMeta[] = [];
+
+  while (true) {
+    const res = await fetch(`/api/polls?${buildPollsQuery(network, filters, polls.length)}`, {
+      credentials: "include",
+    });
+
+    if (!res.ok) {
+      throw new Error(`Failed to fetch polls: ${res.statusText}`);
+    }
+
+    const page: PollsPageResponse = await res.json();
+    polls.push(...page.data.map(enrichPoll));
+
+    if (page.data.length < PAGE_SIZE || polls.length >= page.pagination.total) {
+      return polls;
+    }
+  }
+}
 
 /**
  * Hook for fetching all polls with optional caching
@@ -19,16 +75,14 @@ const CACHE_STALE_TIME = 60000; // 60 seconds
  * When disabled:
  * - No caching, always fresh data
  */
-export function usePolls() {
-  const { getAllPolls, contractAddress } = useContract();
+export function usePolls(filters: PollFilters = {}) {
   const { network } = useNetwork();
   const queryClient = useQueryClient();
   const optimizationEnabled = isIndexerOptimizationEnabled();
 
   const query = useQuery<PollWithMeta[]>({
-    queryKey: ['polls', network, contractAddress],
-    queryFn: getAllPolls,
-    enabled: !!contractAddress,
+    queryKey: ['polls', network, filters],
+    queryFn: () => fetchIndexedPolls(network, filters),
     // Caching behavior based on feature flag
     staleTime: optimizationEnabled ? CACHE_STALE_TIME : 0,
     gcTime: optimizationEnabled ? CACHE_STALE_TIME * 2 : 0,
@@ -38,7 +92,7 @@ export function usePolls() {
 
   // Manual refresh function that bypasses cache
   const refresh = async () => {
-    await queryClient.invalidateQueries({ queryKey: ['polls', network, contractAddress] });
+    await queryClient.invalidateQueries({ queryKey: ['polls', network] });
   };
 
   return {
@@ -53,18 +107,31 @@ export function usePolls() {
 }
 
 /**
- * Hook for fetching a single poll by ID
- * Uses the polls cache when available
+ * Hook for fetching a single poll by ID from the poll index
  */
 export function usePoll(pollId: number) {
-  const { getPoll, contractAddress } = useContract();
   const { network } = useNetwork();
   const optimizationEnabled = isIndexerOptimizationEnabled();
 
   return useQuery<PollWithMeta | null>({
-    queryKey: ['poll', pollId, network, contractAddress],
-    queryFn: () => getPoll(pollId),
-    enabled: !!contractAddress && pollId >= 0,
+    queryKey: ['poll', pollId, network],
+    queryFn: async () => {
+      const res = await fetch(`/api/polls/${pollId}?network=${network}`, {
+        credentials: "include",
+      });
+
+      if (res.status === 404) {
+        return null;
+      }
+
+      if (!res.ok) {
+        throw new Error(`Failed to fetch poll: ${res.statusText}`);
+      }
+
+      const data = await res.json();
+      return enrichPoll(data.data);
+    },
+    enabled: pollId >= 0,
     staleTime: optimizationEnabled ? CACHE_STALE_TIME : 0,
     gcTime: optimizationEnabled ? CACHE_STALE_TIME * 2 : 0,
   });
@@ -97,7 +164,7 @@ export function useInvalidatePolls() {
   const { contractAddress } = useContract();
 
   return async () => {
-    await queryClient.invalidateQueries({ queryKey: ['polls', network, contractAddress] });
+    await queryClient.invalidateQueries({ queryKey: ['polls', network] });
     await queryClient.invalidateQueries({ queryKey: ['poll'] });
     await queryClient.invalidateQueries({ queryKey: ['pollCount', network, contractAddress] });
   };
@@ -9,7 +9,8 @@ import { useSignRawHash } from "@privy-io/react-auth/extended-chains";
 import { getMovementWallet, getPrivyUserDisplayName } from "@/lib/privy-movement";
 import { fundAccount, checkAccountExists } from "@/lib/faucet";
 import { useNetwork } from "@/contexts/NetworkContext";
-import type { SignRawHashFunction } from "@/lib/privy-transactions";
+import { toHex, type SignRawHashFunction } from "@/lib/privy-transactions";
+import { ensureWalletSession } from "@/lib/wallet-session";
 
 export interface UsePrivyWalletResult {
   // Whether user is authenticated with Privy and has a Movement wallet
@@ -128,6 +129,21 @@ export function usePrivyWallet(): UsePrivyWalletResult {
     checkAndFund();
   }, [isPrivyWallet, walletAddress, network, config.rpcUrl]);
 
+  // Sign in to the API with the embedded wallet (no user prompt for Privy signing)
+  useEffect(() => {
+    if (!isPrivyWallet || !walletAddress || !wallet?.publicKey) return;
+
+    const publicKey = wallet.publicKey;
+    ensureWalletSession(walletAddress, network, async (message) => {
+      const { signature } = await (signRawHash as SignRawHashFunction)({
+        address: walletAddress,
+        chainType: "aptos",
+        hash: `0x${toHex(new TextEncoder().encode(message))}`,
+      });
+      return { publicKey, signature, fullMessage: message };
+    });
+  }, [isPrivyWallet, walletAddress, wallet?.publicKey, network, signRawHash]);
+
   // Reset state when wallet changes
   useEffect(() => {
     if (!walletAddress) {
@@ -0,0 +1,162 @@
+/**
+ * Hooks for poll question types (multi-select, ranked, rating, NPS)
+ * Question types are recorded against the poll creation transaction and full
+ * multi-select / ranked ballots against the vote transaction; results are
+ * aggregated server-side by /api/polls/:id/results.
+ */
+
+import { useCallback } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useNetwork } from "@/contexts/NetworkContext";
+import { QUESTION_TYPES, type PollResults, type QuestionType } from "@shared/schema";
+
+// ============================================
+// Types
+// ============================================
+
+export interface PollQuestionConfig {
+  questionType: QuestionType;
+  maxSelections: number | null;
+}
+
+export interface BallotInput {
+  pollId: number;
+  /** Option indices; preference order for ranked questions. The first one is the on-chain vote. */
+  selections: number[];
+}
+
+export const SINGLE_CHOICE: PollQuestionConfig = { questionType: QUESTION_TYPES.SINGLE, maxSelections: null };
+
+export const QUESTION_TYPE_LABELS: Record<QuestionType, string> = {
+  single: "Single choice",
+  multi_select: "Multiple choice",
+  ranked: "Ranked choice",
+  rating: "Rating (1-5)",
+  nps: "Net Promoter Score (0-10)",
+};
+
+// ============================================
+// Queries
+// ============================================
+
+/**
+ * Question types for a set of polls; polls without a recorded type are single choice
+ */
+export function usePollQuestions(pollIds: number[]) {
+  const { network } = useNetwork();
+  const ids = Array.from(new Set(pollIds)).sort((a, b) => a - b);
+
+  const query = useQuery<Record<number, PollQuestionConfig>>({
+    queryKey: ["pollQuestions", network, ids],
+    queryFn: async () => {
+      const res = await fetch(`/api/polls/questions?network=${network}&ids=${ids.join(",")}`, {
+        credentials: "include",
+      });
+
+      if (!res.ok) {
+        throw new Error(`Failed to fetch poll questions: ${res.statusText}`);
+      }
+
+      const data = await res.json();
+      const configs: Record<number, PollQuestionConfig> = {};
+      for (const { pollId, questionType, maxSelections } of data.data) {
+        configs[pollId] = { questionType, maxSelections };
+      }
+      return configs;
+    },
+    enabled: ids.length > 0,
+    staleTime: 5 * 60 * 1000, // Question types never change once recorded
+  });
+
+  const getQuestion = useCallback(
+    (pollId: number): PollQuestionConfig => query.data?.[pollId] ?? SINGLE_CHOICE,
+    [query.data]
+  );
+
+  return { getQuestion, isLoading: query.isLoading };
+}
+
+/**
+ * Aggregated results for a poll according to its question type
+ * `totalVotes` is part of the key so results reload as votes come in
+ */
+export function usePollResults(pollId: number | undefined, totalVotes = 0) {
+  const { network } = useNetwork();
+
+  return useQuery<PollResults>({
+    queryKey: ["pollResults", network, pollId, totalVotes],
+    queryFn: async () => {
+      const res = await fetch(`/api/polls/${pollId}/results?network=${network}`, {
+        credentials: "include",
+      });
+
+      if (!res.ok) {
+        throw new Error(`Failed to fetch poll results: ${res.statusText}`);
+      }
+
+      const data = await res.json();
+      return data.data;
+    },
+    enabled: pollId !== undefined && !isNaN(pollId),
+    staleTime: 15000,
+    placeholderData: (previous) => previous,
+  });
+}
+
+// ============================================
+// Recording
+// ============================================
+
+/**
+ * Record question types for the polls a creation transaction created
+ * `questions` lines up with the created polls in order. Returns false on failure
+ * so callers can warn; the polls themselves already exist on chain.
+ */
+export function useRecordPollQuestions() {
+  const queryClient = useQueryClient();
+  const { network } = useNetwork();
+
+  return useCallback(
+    async (txHash: string, questions: (PollQuestionConfig | null)[]): Promise<boolean> => {
+      if (!questions.some((q) => q && q.questionType !== QUESTION_TYPES.SINGLE)) return true;
+
+      try {
+        await apiRequest("POST", "/api/polls/questions", { network, txHash, questions });
+        queryClient.invalidateQueries({ queryKey: ["pollQuestions", network] });
+        return true;
+      } catch (error) {
+        console.error("Failed to record poll question types:", error);
+        return false;
+      }
+    },
+    [network, queryClient]
+  );
+}
+
+/**
+ * Record full multi-select / ranked ballots for a vote transaction
+ * Returns false on failure; the on-chain vote (first selection) still counts.
+ */
+export function useRecordBallots() {
+  const queryClient = useQueryClient();
+  const { network } = useNetwork();
+
+  return useCallback(
+    async (txHash: string, ballots: BallotInput[]): Promise<boolean> => {
+      if (ballots.length === 0) return true;
+
+      try {
+        await apiRequest("POST", "/api/ballots", { network, txHash, ballots });
+        ballots.forEach(({ pollId }) =>
+          queryClient.invalidateQueries({ queryKey: ["pollResults", network, pollId] })
+        );
+        return true;
+      } catch (error) {
+        console.error("Failed to record ballots:", error);
+        return false;
+      }
+    },
+    [network, queryClient]
+  );
+}
@@ -6,7 +6,17 @@ import {
   QuestionnaireProgress,
   QUESTIONNAIRE_STATUS,
   QUESTIONNAIRE_REWARD_TYPE,
+  QUESTIONNAIRE_ITEM_KIND,
+  TEXT_ANSWER_LIMITS,
+  QUESTIONNAIRE_SETTING_DEFAULTS,
+  resolveQuestionnaireSettings,
+  questionnairePath,
+  type TextQuestionSettings,
+  type QuestionnaireSettings,
+  type QuestionnaireBranching,
 } from "@shared/schema";
+import { getAuthHeaders } from "@/lib/wallet-session";
+import { useNetwork } from "@/contexts/NetworkContext";
 
 // Re-export types for convenience
 export type {
@@ -15,12 +25,44 @@ export type {
   QuestionnaireProgress,
 };
 
-export { QUESTIONNAIRE_STATUS, QUESTIONNAIRE_REWARD_TYPE };
+export type { TextQuestionSettings, QuestionnaireSettings, QuestionnaireBranching };
+
+export {
+  QUESTIONNAIRE_STATUS,
+  QUESTIONNAIRE_REWARD_TYPE,
+  QUESTIONNAIRE_ITEM_KIND,
+  TEXT_ANSWER_LIMITS,
+  QUESTIONNAIRE_SETTING_DEFAULTS,
+  resolveQuestionnaireSettings,
+  questionnairePath,
+};
+
+export type SavedPollAnswer = { pollId: number; selections: number[] };
 
 export interface QuestionnaireWithPolls extends Questionnaire {
   polls: QuestionnairePoll[];
 }
 
+export interface TextResponsesPage {
+  questions: {
+    id: string;
+    prompt: string | null;
+    settings: TextQuestionSettings | null;
+    responseCount: number;
+    keywords: { word: string; count: number }[];
+  }[];
+  responses: {
+    questionId: string;
+    walletAddress: string;
+    text: string;
+    flagged: boolean;
+    answeredAt: string;
+  }[];
+  total: number;
+}
+
+export type QuestionnaireItemOrder = { id?: string; pollId?: number; sortOrder: number };
+
 export interface CreateQuestionnaireInput {
   creatorAddress: string;
   title: string;
@@ -33,7 +75,7 @@ export interface CreateQuestionnaireInput {
   coinTypeId?: number;
   rewardPerCompletion?: string;
   maxCompleters?: number;
-  settings?: Record<string, unknown>;
+  settings?: QuestionnaireSettings;
   pollIds?: number[];
 }
 
@@ -48,28 +90,27 @@ export interface UpdateQuestionnaireInput {
   coinTypeId?: number;
   rewardPerCompletion?: string;
   maxCompleters?: number;
-  settings?: Record<string, unknown>;
+  settings?: QuestionnaireSettings;
   status?: number;
   onChainId?: number;
 }
 
 // API client functions
-async function fetchQuestionnaires(params?: {
+async function fetchQuestionnaires(network: string, params?: {
   status?: number;
   creator?: string;
   category?: string;
   limit?: number;
   offset?: number;
 }): Promise<Questionnaire[]> {
-  const searchParams = new URLSearchParams();
+  const searchParams = new URLSearchParams({ network });
   if (params?.status !== undefined) searchParams.append("status", params.status.toString());
   if (params?.creator) searchParams.append("creator", params.creator);
   if (params?.category) searchParams.append("category", params.category);
   if (params?.limit) searchParams.append("limit", params.limit.toString());
   if (params?.offset) searchParams.append("offset", params.offset.toString());
 
-  const url = `/api/questionnaires${searchParams.toString() ? `?${searchParams}` : ""}`;
-  const response = await fetch(url);
+  const response = await fetch(`/api/questionnaires?${searchParams}`);
   if (!response.ok) throw new Error("Failed to fetch questionnaires");
   const data = await response.json();
   return data.data;
@@ -82,16 +123,16 @@ async function fetchQuestionnaire(id: string): Promise<QuestionnaireWithPolls> {
   return data.data;
 }
 
-async function fetchActiveQuestionnaires(limit?: number): Promise<Questionnaire[]> {
-  const url = `/api/questionnaires/active${limit ? `?limit=${limit}` : ""}`;
+async function fetchActiveQuestionnaires(network: string, limit?: number): Promise<Questionnaire[]> {
+  const url = `/api/questionnaires/active?network=${network}${limit ? `&limit=${limit}` : ""}`;
   const response = await fetch(url);
   if (!response.ok) throw new Error("Failed to fetch active questionnaires");
   const data = await response.json();
   return data.data;
 }
 
-async function fetchCreatorQuestionnaires(address: string): Promise<Questionnaire[]> {
-  const response = await fetch(`/api/questionnaires/creator/${address}`);
+async function fetchCreatorQuestionnaires(address: string, network: string): Promise<Questionnaire[]> {
+  const response = await fetch(`/api/questionnaires/creator/${address}?network=${network}`);
   if (!response.ok) throw new Error("Failed to fetch creator questionnaires");
   const data = await response.json();
   return data.data;
@@ -107,11 +148,11 @@ async function fetchQuestionnaireProgress(
   return data.data;
 }
 
-async function createQuestionnaire(input: CreateQuestionnaireInput): Promise<Questionnaire> {
+async function createQuestionnaire(input: CreateQuestionnaireInput, network: string): Promise<Questionnaire> {
   const response = await fetch("/api/questionnaires", {
     method: "POST",
-    headers: { "Content-Type": "application/json" },
-    body: JSON.stringify(input),
+    headers: { "Content-Type": "application/json", ...getAuthHeaders() },
+    body: JSON.stringify({ ...input, network }),
   });
   if (!response.ok) throw new Error("Failed to create questionnaire");
   const data = await response.json();
@@ -124,7 +165,7 @@ async function updateQuestionnaire(
 ): Promise<Questionnaire> {
   const response = await fetch(`/api/questionnaires/${id}`, {
     method: "PUT",
-    headers: { "Content-Type": "application/json" },
+    headers: { "Content-Type": "application/json", ...getAuthHeaders() },
     body: JSON.stringify(input),
   });
   if (!response.ok) throw new Error("Failed to update questionnaire");
@@ -135,6 +176,7 @@ async function updateQuestionnaire(
 async function archiveQuestionnaire(id: string): Promise<Questionnaire> {
   const response = await fetch(`/api/questionnaires/${id}`, {
     method: "DELETE",
+    headers: getAuthHeaders(),
   });
   if (!response.ok) throw new Error("Failed to archive questionnaire");
   const data = await response.json();
@@ -148,7 +190,7 @@ async function addPollToQuestionnaire(
 ): Promise<QuestionnairePoll> {
   const response = await fetch(`/api/questionnaires/${questionnaireId}/polls`, {
     method: "POST",
-    headers: { "Content-Type": "application/json" },
+    headers: { "Content-Type": "application/json", ...getAuthHeaders() },
     body: JSON.stringify({ pollId, source }),
   });
   if (!response.ok) throw new Error("Failed to add poll");
@@ -162,20 +204,91 @@ async function removePollFromQuestionnaire(
 ): Promise<void> {
   const response = await fetch(`/api/questionnaires/${questionnaireId}/polls/${pollId}`, {
     method: "DELETE",
+    headers: getAuthHeaders(),
   });
   if (!response.ok) throw new Error("Failed to remove poll");
 }
 
 async function reorderQuestionnairePolls(
   questionnaireId: string,
-  pollOrder: { pollId: number; sortOrder: number }[]
+  pollOrder: QuestionnaireItemOrder[]
 ): Promise<QuestionnairePoll[]> {
   const response = await fetch(`/api/questionnaires/${questionnaireId}/polls/order`, {
     method: "PUT",
-    headers: { "Content-Type": "application/json" },
+    headers: { "Content-Type": "application/json", ...getAuthHeaders() },
     body: JSON.stringify({ pollOrder }),
   });
-  if (!response.ok) throw new Error("Failed to reorder polls");
+  const data = await response.json();
+  if (!response.ok) throw new Error(data.error || "Failed to reorder polls");
+  return data.data;
+}
+
+async function updateItemBranching(
+  questionnaireId: string,
+  itemId: string,
+  branching: QuestionnaireBranching | null
+): Promise<QuestionnairePoll> {
+  const response = await fetch(`/api/questionnaires/${questionnaireId}/items/${itemId}/branching`, {
+    method: "PUT",
+    headers: { "Content-Type": "application/json", ...getAuthHeaders() },
+    body: JSON.stringify({ branching }),
+  });
+  const data = await response.json();
+  if (!response.ok) throw new Error(data.error || "Failed to save branching rules");
+  return data.data;
+}
+
+async function addTextQuestion(
+  questionnaireId: string,
+  question: { prompt: string } & Partial<TextQuestionSettings>
+): Promise<QuestionnairePoll> {
+  const response = await fetch(`/api/questionnaires/${questionnaireId}/text-questions`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", ...getAuthHeaders() },
+    body: JSON.stringify(question),
+  });
+  const data = await response.json();
+  if (!response.ok) throw new Error(data.error || "Failed to add text question");
+  return data.data;
+}
+
+async function removeTextQuestion(questionnaireId: string, questionId: string): Promise<void> {
+  const response = await fetch(`/api/questionnaires/${questionnaireId}/text-questions/${questionId}`, {
+    method: "DELETE",
+    headers: getAuthHeaders(),
+  });
+  if (!response.ok) throw new Error("Failed to remove text question");
+}
+
+async function submitTextAnswers(
+  questionnaireId: string,
+  walletAddress: string,
+  answers: { questionId: string; text: string }[]
+): Promise<QuestionnaireProgress> {
+  const response = await fetch(`/api/questionnaires/${questionnaireId}/text-answers/${walletAddress}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", ...getAuthHeaders() },
+    body: JSON.stringify({ answers }),
+  });
+  const data = await response.json();
+  if (!response.ok) throw new Error(data.error || "Failed to save text answers");
+  return data.data;
+}
+
+async function fetchTextResponses(
+  questionnaireId: string,
+  params: { questionId?: string; keyword?: string; limit?: number; offset?: number }
+): Promise<TextResponsesPage> {
+  const searchParams = new URLSearchParams();
+  if (params.questionId) searchParams.set("questionId", params.questionId);
+  if (params.keyword) searchParams.set("keyword", params.keyword);
+  if (params.limit) searchParams.set("limit", params.limit.toString());
+  if (params.offset) searchParams.set("offset", params.offset.toString());
+
+  const response = await fetch(`/api/questionnaires/${questionnaireId}/text-responses?${searchParams}`, {
+    headers: getAuthHeaders(),
+  });
+  if (!response.ok) throw new Error("Failed to fetch text responses");
   const data = await response.json();
   return data.data;
 }
@@ -186,26 +299,58 @@ async function startQuestionnaire(
 ): Promise<QuestionnaireProgress> {
   const response = await fetch(`/api/questionnaires/${questionnaireId}/start/${walletAddress}`, {
     method: "POST",
+    headers: getAuthHeaders(),
   });
   if (!response.ok) throw new Error("Failed to start questionnaire");
   const data = await response.json();
   return data.data;
 }
 
+async function saveQuestionnaireProgress(
+  questionnaireId: string,
+  walletAddress: string,
+  pollsAnswered: SavedPollAnswer[]
+): Promise<QuestionnaireProgress> {
+  const response = await fetch(`/api/questionnaires/${questionnaireId}/progress/${walletAddress}`, {
+    method: "PUT",
+    headers: { "Content-Type": "application/json", ...getAuthHeaders() },
+    body: JSON.stringify({ pollsAnswered }),
+  });
+  const data = await response.json();
+  if (!response.ok) throw new Error(data.error || "Failed to save progress");
+  return data.data;
+}
+
+async function recordQuestionnaireClaim(
+  questionnaireId: string,
+  walletAddress: string,
+  claimTxHash: string
+): Promise<QuestionnaireProgress> {
+  const response = await fetch(`/api/questionnaires/${questionnaireId}/progress/${walletAddress}`, {
+    method: "PUT",
+    headers: { "Content-Type": "application/json", ...getAuthHeaders() },
+    body: JSON.stringify({ claimTxHash }),
+  });
+  const data = await response.json();
+  if (!response.ok) throw new Error(data.error || "Failed to record claim");
+  return data.data;
+}
+
 async function recordBulkVote(
   questionnaireId: string,
   walletAddress: string,
   pollIds: number[],
   optionIndices: number[],
-  txHash: string
+  txHash: string,
+  network: string
 ): Promise<QuestionnaireProgress> {
   const response = await fetch(`/api/questionnaires/${questionnaireId}/bulk-vote`, {
     method: "POST",
-    headers: { "Content-Type": "application/json" },
-    body: JSON.stringify({ walletAddress, pollIds, optionIndices, txHash }),
+    headers: { "Content-Type": "application/json", ...getAuthHeaders() },
+    body: JSON.stringify({ walletAddress, pollIds, optionIndices, txHash, network }),
   });
-  if (!response.ok) throw new Error("Failed to record bulk vote");
   const data = await response.json();
+  if (!response.ok) throw new Error(data.error || "Failed to record bulk vote");
   return data.data;
 }
 
@@ -217,9 +362,11 @@ export function useQuestionnaires(params?: {
   limit?: number;
   offset?: number;
 }) {
+  const { network } = useNetwork();
+
   return useQuery({
-    queryKey: ["questionnaires", params],
-    queryFn: () => fetchQuestionnaires(params),
+    queryKey: ["questionnaires", params, network],
+    queryFn: () => fetchQuestionnaires(network, params),
   });
 }
 
@@ -232,16 +379,20 @@ export function useQuestionnaire(id: string | undefined) {
 }
 
 export function useActiveQuestionnaires(limit?: number) {
+  const { network } = useNetwork();
+
   return useQuery({
-    queryKey: ["questionnaires", "active", limit],
-    queryFn: () => fetchActiveQuestionnaires(limit),
+    queryKey: ["questionnaires", "active", limit, network],
+    queryFn: () => fetchActiveQuestionnaires(network, limit),
   });
 }
 
 export function useCreatorQuestionnaires(address: string | undefined) {
+  const { network } = useNetwork();
+
   return useQuery({
-    queryKey: ["questionnaires", "creator", address],
-    queryFn: () => fetchCreatorQuestionnaires(address!),
+    queryKey: ["questionnaires", "creator", address, network],
+    queryFn: () => fetchCreatorQuestionnaires(address!, network),
     enabled: !!address,
   });
 }
@@ -259,9 +410,10 @@ export function useQuestionnaireProgress(
 
 export function useCreateQuestionnaire() {
   const queryClient = useQueryClient();
+  const { network } = useNetwork();
 
   return useMutation({
-    mutationFn: createQuestionnaire,
+    mutationFn: (input: CreateQuestionnaireInput) => createQuestionnaire(input, network),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["questionnaires"] });
     },
@@ -337,7 +489,7 @@ export function useReorderQuestionnairePolls() {
       pollOrder,
     }: {
       questionnaireId: string;
-      pollOrder: { pollId: number; sortOrder: number }[];
+      pollOrder: QuestionnaireItemOrder[];
     }) => reorderQuestionnairePolls(questionnaireId, pollOrder),
     onSuccess: (_, { questionnaireId }) => {
       queryClient.invalidateQueries({ queryKey: ["questionnaire", questionnaireId] });
@@ -345,6 +497,86 @@ export function useReorderQuestionnairePolls() {
   });
 }
 
+export function useUpdateItemBranching() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({
+      questionnaireId,
+      itemId,
+      branching,
+    }: {
+      questionnaireId: string;
+      itemId: string;
+      branching: QuestionnaireBranching | null;
+    }) => updateItemBranching(questionnaireId, itemId, branching),
+    onSuccess: (_, { questionnaireId }) => {
+      queryClient.invalidateQueries({ queryKey: ["questionnaire", questionnaireId] });
+    },
+  });
+}
+
+export function useAddTextQuestion() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({
+      questionnaireId,
+      ...question
+    }: { questionnaireId: string; prompt: string } & Partial<TextQuestionSettings>) =>
+      addTextQuestion(questionnaireId, question),
+    onSuccess: (_, { questionnaireId }) => {
+      queryClient.invalidateQueries({ queryKey: ["questionnaire", questionnaireId] });
+    },
+  });
+}
+
+export function useRemoveTextQuestion() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ questionnaireId, questionId }: { questionnaireId: string; questionId: string }) =>
+      removeTextQuestion(questionnaireId, questionId),
+    onSuccess: (_, { questionnaireId }) => {
+      queryClient.invalidateQueries({ queryKey: ["questionnaire", questionnaireId] });
+      queryClient.invalidateQueries({ queryKey: ["questionnaire-text-responses", questionnaireId] });
+    },
+  });
+}
+
+export function useSubmitTextAnswers() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({
+      questionnaireId,
+      walletAddress,
+      answers,
+    }: {
+      questionnaireId: string;
+      walletAddress: string;
+      answers: { questionId: string; text: string }[];
+    }) => submitTextAnswers(questionnaireId, walletAddress, answers),
+    onSuccess: (_, { questionnaireId, walletAddress }) => {
+      queryClient.invalidateQueries({
+        queryKey: ["questionnaire-progress", questionnaireId, walletAddress],
+      });
+    },
+  });
+}
+
+export function useTextResponses(
+  questionnaireId: string | undefined,
+  params: { questionId?: string; keyword?: string; limit?: number; offset?: number } = {}
+) {
+  return useQuery({
+    queryKey: ["questionnaire-text-responses", questionnaireId, params],
+    queryFn: () => fetchTextResponses(questionnaireId!, params),
+    enabled: !!questionnaireId,
+    placeholderData: (previous) => previous,
+  });
+}
+
 export function useStartQuestionnaire() {
   const queryClient = useQueryClient();
 
@@ -364,8 +596,31 @@ export function useStartQuestionnaire() {
   });
 }
 
+/**
+ * Save unsubmitted poll selections (questionnaires with allowPartialSave)
+ */
+export function useSaveQuestionnaireProgress() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({
+      questionnaireId,
+      walletAddress,
+      pollsAnswered,
+    }: {
+      questionnaireId: string;
+      walletAddress: string;
+      pollsAnswered: SavedPollAnswer[];
+    }) => saveQuestionnaireProgress(questionnaireId, walletAddress, pollsAnswered),
+    onSuccess: (progress, { questionnaireId, walletAddress }) => {
+      queryClient.setQueryData(["questionnaire-progress", questionnaireId, walletAddress], progress);
+    },
+  });
+}
+
 export function useRecordBulkVote() {
   const queryClient = useQueryClient();
+  const { network } = useNetwork();
 
   return useMutation({
     mutationFn: ({
@@ -380,12 +635,34 @@ export function useRecordBulkVote() {
       pollIds: number[];
       optionIndices: number[];
       txHash: string;
-    }) => recordBulkVote(questionnaireId, walletAddress, pollIds, optionIndices, txHash),
+    }) => recordBulkVote(questionnaireId, walletAddress, pollIds, optionIndices, txHash, network),
     onSuccess: (_, { questionnaireId, walletAddress }) => {
       queryClient.invalidateQueries({
         queryKey: ["questionnaire-progress", questionnaireId, walletAddress],
       });
       queryClient.invalidateQueries({ queryKey: ["questionnaire", questionnaireId] });
+      queryClient.invalidateQueries({ queryKey: ["questProgress", walletAddress] });
+    },
+  });
+}
+
+export function useRecordQuestionnaireClaim() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({
+      questionnaireId,
+      walletAddress,
+      claimTxHash,
+    }: {
+      questionnaireId: string;
+      walletAddress: string;
+      claimTxHash: string;
+    }) => recordQuestionnaireClaim(questionnaireId, walletAddress, claimTxHash),
+    onSuccess: (_, { questionnaireId, walletAddress }) => {
+      queryClient.invalidateQueries({
+        queryKey: ["questionnaire-progress", questionnaireId, walletAddress],
+      });
     },
   });
 }
@@ -424,3 +701,4 @@ export function getQuestionnaireStatusColor(status: number): string {
       return "bg-gray-500/20 text-gray-600 dark:text-gray-400";
   }
 }
+
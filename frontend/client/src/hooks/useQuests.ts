@@ -3,9 +3,19 @@
  * Uses React Query for caching and automatic refetching
  */
 
+import { useCallback } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
-import { QUEST_TYPE_NAMES, SEASON_STATUS, type Quest, type QuestProgress, type Season } from "@shared/schema";
+import { useWalletConnection } from "@/hooks/useWalletConnection";
+import { useNetwork } from "@/contexts/NetworkContext";
+import {
+  QUEST_TYPE_NAMES,
+  SEASON_STATUS,
+  type Quest,
+  type QuestAction,
+  type QuestProgress,
+  type Season,
+} from "@shared/schema";
 
 // ============================================
 // Types
@@ -30,7 +40,13 @@ interface ActiveQuestsResponse {
 }
 
 interface QuestProgressResponse {
-  progress: QuestProgress[];
+  data: QuestProgress[];
+}
+
+export interface CompletedQuestInfo {
+  questId: string;
+  questName: string;
+  points: number;
 }
 
 interface ClaimQuestResponse {
@@ -62,10 +78,12 @@ interface LeaderboardResponse {
 // ============================================
 
 export function useSeason() {
+  const { network } = useNetwork();
+
   const seasonQuery = useQuery<SeasonInfo | null>({
-    queryKey: ["currentSeason"],
+    queryKey: ["currentSeason", network],
     queryFn: async () => {
-      const res = await fetch("/api/seasons/current", {
+      const res = await fetch(`/api/seasons/current?network=${network}`, {
         credentials: "include",
       });
 
@@ -158,10 +176,12 @@ export function useQuests(address: string | null | undefined, seasonId: string |
       }
 
       const data: QuestProgressResponse = await res.json();
-      return data.progress;
+      return data.data;
     },
     enabled: !!address && !!seasonId,
     staleTime: 30000, // 30 seconds
+    refetchInterval: 30000, // Keep progress live while quests are on screen
+    refetchOnWindowFocus: true,
   });
 
   // Combine quests with progress
@@ -242,6 +262,42 @@ export function useQuests(address: string | null | undefined, seasonId: string |
   };
 }
 
+// ============================================
+// useReportQuestAction Hook
+// ============================================
+
+/**
+ * Report a confirmed on-chain action (poll creation, reward claim, stake) so the
+ * server can verify it and advance matching quests. Failures are logged, never thrown,
+ * since the on-chain action already succeeded.
+ */
+export function useReportQuestAction() {
+  const queryClient = useQueryClient();
+  const { address } = useWalletConnection();
+  const { network } = useNetwork();
+
+  return useCallback(
+    async (action: QuestAction, txHash: string): Promise<CompletedQuestInfo[]> => {
+      if (!address || !txHash) return [];
+
+      try {
+        const res = await apiRequest("POST", `/api/quests/actions/${address}`, {
+          action,
+          txHash,
+          network,
+        });
+        const data = await res.json();
+        queryClient.invalidateQueries({ queryKey: ["questProgress", address] });
+        return data.data.questsCompleted;
+      } catch (error) {
+        console.error("Failed to report quest action:", error);
+        return [];
+      }
+    },
+    [address, network, queryClient]
+  );
+}
+
 // ============================================
 // useLeaderboard Hook
 // ============================================
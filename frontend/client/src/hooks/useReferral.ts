@@ -8,6 +8,8 @@
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { useReferralTracking } from "./useReferralTracking";
 import { useEffect } from "react";
+import { getAuthHeaders } from "@/lib/wallet-session";
+import { useNetwork } from "@/contexts/NetworkContext";
 
 export interface ReferralCode {
   id: string;
@@ -83,15 +85,16 @@ interface TrackReferralResponse {
 
 export function useReferral(address: string | null | undefined) {
   const queryClient = useQueryClient();
+  const { network } = useNetwork();
   const { storedReferralCode, clearReferralCode, hasPendingReferral } = useReferralTracking();
 
-  // Get referral code for the user
+  // Get referral code for the user (one code on every network; referrals are per network)
   const referralCodeQuery = useQuery<ReferralCode | null>({
-    queryKey: ["referralCode", address],
+    queryKey: ["referralCode", address, network],
     queryFn: async () => {
       if (!address) return null;
 
-      const res = await fetch(`/api/referral/code/${address}`, {
+      const res = await fetch(`/api/referral/code/${address}?network=${network}`, {
         credentials: "include",
       });
       if (!res.ok) {
@@ -106,11 +109,11 @@ export function useReferral(address: string | null | undefined) {
 
   // Get referral stats for the user
   const statsQuery = useQuery<ReferralStats | null>({
-    queryKey: ["referralStats", address],
+    queryKey: ["referralStats", address, network],
     queryFn: async () => {
       if (!address) return null;
 
-      const res = await fetch(`/api/referral/stats/${address}`, {
+      const res = await fetch(`/api/referral/stats/${address}?network=${network}`, {
         credentials: "include",
       });
       if (!res.ok) {
@@ -125,11 +128,11 @@ export function useReferral(address: string | null | undefined) {
 
   // Get list of referees
   const refereesQuery = useQuery<RefereeInfo[]>({
-    queryKey: ["referees", address],
+    queryKey: ["referees", address, network],
     queryFn: async () => {
       if (!address) return [];
 
-      const res = await fetch(`/api/referral/referees/${address}`, {
+      const res = await fetch(`/api/referral/referees/${address}?network=${network}`, {
         credentials: "include",
       });
       if (!res.ok) {
@@ -149,9 +152,10 @@ export function useReferral(address: string | null | undefined) {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
+          ...getAuthHeaders(),
         },
         credentials: "include",
-        body: JSON.stringify({ refereeAddress, referralCode }),
+        body: JSON.stringify({ network, refereeAddress, referralCode }),
       });
       if (!res.ok) {
         const errorData = await res.json().catch(() => ({}));
@@ -231,10 +235,12 @@ export function useReferral(address: string | null | undefined) {
 
 // Hook for fetching referral leaderboard
 export function useReferralLeaderboard(limit: number = 50, offset: number = 0) {
+  const { network } = useNetwork();
+
   const leaderboardQuery = useQuery<ReferralLeaderboardEntry[]>({
-    queryKey: ["referralLeaderboard", limit, offset],
+    queryKey: ["referralLeaderboard", limit, offset, network],
     queryFn: async () => {
-      const res = await fetch(`/api/referral/leaderboard?limit=${limit}&offset=${offset}`, {
+      const res = await fetch(`/api/referral/leaderboard?network=${network}&limit=${limit}&offset=${offset}`, {
         credentials: "include",
       });
       if (!res.ok) {
@@ -0,0 +1,147 @@
+/**
+ * Hooks for server-side poll and questionnaire search
+ * Full-text ranking, facet counts and cursor pagination come from /api/search
+ */
+
+import { useInfiniteQuery } from "@tanstack/react-query";
+import { useNetwork } from "@/contexts/NetworkContext";
+import { enrichPoll } from "@/lib/contract";
+import type { Poll, PollWithMeta } from "@/types/poll";
+import type { Questionnaire } from "@shared/schema";
+
+// ============================================
+// Types
+// ============================================
+
+export type SearchKind = "polls" | "questionnaires";
+export type SearchSort = "relevance" | "newest" | "votes" | "ending" | "reward";
+export type FacetName = "status" | "coinType" | "rewardType" | "category" | "creator" | "endingSoon" | "rewardPool";
+
+export interface SearchFilters {
+  q: string;
+  status: number[];
+  coinType: number[];
+  rewardType: string[];
+  category: string[];
+  rewardPool: string[];
+  creator?: string;
+  endingSoon: boolean;
+  /** Only open (true) or only ended/closed (false) items; not a facet */
+  active?: boolean;
+  sort: SearchSort;
+}
+
+export interface FacetBucket {
+  value: string;
+  count: number;
+}
+
+export interface SearchPage<T> {
+  items: T[];
+  total: number;
+  facets: Record<FacetName, FacetBucket[]>;
+  nextCursor: string | null;
+}
+
+export const EMPTY_SEARCH_FILTERS: SearchFilters = {
+  q: "",
+  status: [],
+  coinType: [],
+  rewardType: [],
+  category: [],
+  rewardPool: [],
+  endingSoon: false,
+  sort: "relevance",
+};
+
+const PAGE_SIZE = 24;
+
+/**
+ * Number of facet filters currently applied (for the filter button badge)
+ */
+export function countActiveFilters(filters: SearchFilters): number {
+  return (
+    filters.status.length +
+    filters.coinType.length +
+    filters.rewardType.length +
+    filters.category.length +
+    filters.rewardPool.length +
+    (filters.endingSoon ? 1 : 0)
+  );
+}
+
+function buildSearchQuery(kind: SearchKind, network: string, filters: SearchFilters, cursor?: string): string {
+  const params = new URLSearchParams({ kind, network, sort: filters.sort, limit: PAGE_SIZE.toString() });
+  if (filters.q.trim()) params.set("q", filters.q.trim());
+  if (filters.status.length) params.set("status", filters.status.join(","));
+  if (filters.coinType.length) params.set("coinType", filters.coinType.join(","));
+  if (filters.rewardType.length) params.set("rewardType", filters.rewardType.join(","));
+  if (filters.category.length) params.set("category", filters.category.join(","));
+  if (filters.rewardPool.length) params.set("rewardPool", filters.rewardPool.join(","));
+  if (filters.creator) params.set("creator", filters.creator);
+  if (filters.endingSoon) params.set("endingSoon", "true");
+  if (filters.active !== undefined) params.set("active", String(filters.active));
+  if (cursor) params.set("cursor", cursor);
+  return params.toString();
+}
+
+// ============================================
+// useSearch Hook
+// ============================================
+
+function useSearch<T>(kind: SearchKind, filters: SearchFilters, enabled: boolean) {
+  const { network } = useNetwork();
+
+  const query = useInfiniteQuery<SearchPage<T>>({
+    queryKey: ["search", kind, network, filters],
+    queryFn: async ({ pageParam }) => {
+      const res = await fetch(
+        `/api/search?${buildSearchQuery(kind, network, filters, pageParam as string | undefined)}`,
+        { credentials: "include" }
+      );
+
+      if (!res.ok) {
+        throw new Error(`Search failed: ${res.statusText}`);
+      }
+
+      const data = await res.json();
+      return data.data;
+    },
+    initialPageParam: undefined as string | undefined,
+    getNextPageParam: (lastPage) => lastPage.nextCursor ?? undefined,
+    enabled,
+    staleTime: 15000,
+    placeholderData: (previous) => previous,
+  });
+
+  const pages = query.data?.pages ?? [];
+
+  return {
+    items: pages.flatMap((page) => page.items),
+    // Facets and totals describe the whole result set, so the first page has them
+    facets: pages[0]?.facets,
+    total: pages[0]?.total ?? 0,
+    isLoading: query.isLoading,
+    isFetching: query.isFetching,
+    error: query.error,
+    hasNextPage: query.hasNextPage,
+    isFetchingNextPage: query.isFetchingNextPage,
+    fetchNextPage: query.fetchNextPage,
+    refetch: query.refetch,
+  };
+}
+
+/**
+ * Search indexed polls
+ */
+export function usePollSearch(filters: SearchFilters, enabled = true) {
+  const result = useSearch<Poll>("polls", filters, enabled);
+  return { ...result, items: result.items.map(enrichPoll) as PollWithMeta[] };
+}
+
+/**
+ * Search questionnaires
+ */
+export function useQuestionnaireSearch(filters: SearchFilters, enabled = true) {
+  return useSearch<Questionnaire>("questionnaires", filters, enabled);
+}
@@ -5,6 +5,8 @@
 
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { SEASON_STATUS, type Season, type UserSeasonSnapshot } from "@shared/schema";
+import { getAuthHeaders } from "@/lib/wallet-session";
+import { useNetwork } from "@/contexts/NetworkContext";
 
 // ============================================
 // Types
@@ -61,10 +63,12 @@ export function getSeasonStatusColor(status: number): string {
 // ============================================
 
 export function useSeasons(status?: number) {
+  const { network } = useNetwork();
+
   return useQuery<SeasonWithStats[]>({
-    queryKey: ["seasons", status],
+    queryKey: ["seasons", status, network],
     queryFn: async () => {
-      const params = new URLSearchParams();
+      const params = new URLSearchParams({ network });
       if (status !== undefined) {
         params.set("status", status.toString());
       }
@@ -89,12 +93,14 @@ export function useSeasons(status?: number) {
 // ============================================
 
 export function useSeasonDetails(seasonId: string | undefined) {
+  const { network } = useNetwork();
+
   return useQuery<SeasonWithStats | null>({
-    queryKey: ["season", seasonId],
+    queryKey: ["season", seasonId, network],
     queryFn: async () => {
       if (!seasonId) return null;
 
-      const res = await fetch(`/api/seasons/${seasonId}`, {
+      const res = await fetch(`/api/seasons/${seasonId}?network=${network}`, {
         credentials: "include",
       });
 
@@ -141,14 +147,15 @@ export function useSeasonSnapshots(seasonId: string | undefined) {
 
 export function useCreateSeason() {
   const queryClient = useQueryClient();
+  const { network } = useNetwork();
 
   return useMutation({
     mutationFn: async (input: CreateSeasonInput) => {
       const res = await fetch("/api/seasons", {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
+        headers: { "Content-Type": "application/json", ...getAuthHeaders() },
         credentials: "include",
-        body: JSON.stringify(input),
+        body: JSON.stringify({ ...input, network }),
       });
 
       if (!res.ok) {
@@ -171,6 +178,7 @@ export function useStartSeason() {
     mutationFn: async (seasonId: string) => {
       const res = await fetch(`/api/seasons/${seasonId}/start`, {
         method: "POST",
+        headers: getAuthHeaders(),
         credentials: "include",
       });
 
@@ -195,6 +203,7 @@ export function useEndSeason() {
     mutationFn: async (seasonId: string) => {
       const res = await fetch(`/api/seasons/${seasonId}/end`, {
         method: "POST",
+        headers: getAuthHeaders(),
         credentials: "include",
       });
 
@@ -219,6 +228,7 @@ export function useDistributeSeason() {
     mutationFn: async (seasonId: string) => {
       const res = await fetch(`/api/seasons/${seasonId}/distribute`, {
         method: "POST",
+        headers: getAuthHeaders(),
         credentials: "include",
       });
 
@@ -248,7 +258,7 @@ export function useCopyQuests() {
     }) => {
       const res = await fetch(`/api/seasons/${targetSeasonId}/copy-quests`, {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
+        headers: { "Content-Type": "application/json", ...getAuthHeaders() },
         credentials: "include",
         body: JSON.stringify({ fromSeasonId }),
       });
@@ -0,0 +1,133 @@
+/**
+ * Hooks for gas sponsorship administration
+ * Policy (allowed functions, per-tier daily limits, daily gas budget) and
+ * season campaign budgets are per network; gas amounts are octas strings.
+ */
+
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useNetwork } from "@/contexts/NetworkContext";
+import { getAuthHeaders } from "@/lib/wallet-session";
+
+// ============================================
+// Types
+// ============================================
+
+export interface SponsorshipPolicySettings {
+  allowedFunctions: string[];
+  tierDailyLimits: Record<number, number>;
+  dailyGasBudget: string | null;
+}
+
+export interface SponsorshipPolicy extends SponsorshipPolicySettings {
+  network: string;
+  updatedBy: string | null;
+  updatedAt: string | null;
+}
+
+export interface SponsorshipSpendRow {
+  transactions: number;
+  gasSpent: string;
+}
+
+export interface SponsorshipCampaign extends SponsorshipSpendRow {
+  seasonId: string;
+  seasonNumber: number;
+  name: string;
+  status: number;
+  budget: string | null;
+}
+
+export interface SponsorshipSpend {
+  provider: "shinami" | "fee_payer" | null;
+  policy: SponsorshipPolicy;
+  today: SponsorshipSpendRow & { pending: number };
+  daily: (SponsorshipSpendRow & { date: string })[];
+  byFunction: (SponsorshipSpendRow & { entryFunction: string })[];
+  topWallets: (SponsorshipSpendRow & { walletAddress: string })[];
+  campaigns: SponsorshipCampaign[];
+}
+
+// ============================================
+// Queries
+// ============================================
+
+/**
+ * Sponsorship policy and spend on the active network (admin only)
+ */
+export function useSponsorshipSpend(enabled: boolean) {
+  const { network } = useNetwork();
+
+  return useQuery<SponsorshipSpend>({
+    queryKey: ["sponsorshipSpend", network],
+    queryFn: async () => {
+      const res = await fetch(`/api/admin/sponsorship?network=${network}`, {
+        headers: getAuthHeaders(),
+        credentials: "include",
+      });
+
+      if (!res.ok) {
+        throw new Error(`Failed to fetch sponsorship spend: ${res.statusText}`);
+      }
+
+      const data = await res.json();
+      return data.data;
+    },
+    enabled,
+    staleTime: 60 * 1000,
+  });
+}
+
+// ============================================
+// Mutations
+// ============================================
+
+export function useUpdateSponsorshipPolicy() {
+  const queryClient = useQueryClient();
+  const { network } = useNetwork();
+
+  return useMutation({
+    mutationFn: async (settings: SponsorshipPolicySettings) => {
+      const res = await fetch("/api/admin/sponsorship/policy", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json", ...getAuthHeaders() },
+        credentials: "include",
+        body: JSON.stringify({ ...settings, network }),
+      });
+
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error || "Failed to save sponsorship policy");
+      }
+      return data.data as SponsorshipPolicy;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["sponsorshipSpend", network] });
+    },
+  });
+}
+
+export function useUpdateCampaignBudget() {
+  const queryClient = useQueryClient();
+  const { network } = useNetwork();
+
+  return useMutation({
+    mutationFn: async ({ seasonId, budget }: { seasonId: string; budget: string | null }) => {
+      const res = await fetch(`/api/admin/sponsorship/campaigns/${seasonId}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json", ...getAuthHeaders() },
+        credentials: "include",
+        body: JSON.stringify({ budget, network }),
+      });
+
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error || "Failed to set campaign budget");
+      }
+      return data.data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["sponsorshipSpend", network] });
+      queryClient.invalidateQueries({ queryKey: ["seasons"] });
+    },
+  });
+}
@@ -1,6 +1,6 @@
 /**
  * Hook for PULSE staking operations
- * Handles stake, unstake, and view functions for the staking contract
+ * Handles stake, unstake, reward claim/compound, and view functions for the staking contract
  */
 
 import { useState, useCallback, useMemo } from "react";
@@ -16,6 +16,14 @@ import {
   type TransactionData,
 } from "@/lib/sponsored-transactions";
 import type { TransactionResultWithSponsorship } from "@/hooks/useContract";
+import {
+  BPS_DENOMINATOR,
+  ZERO_AMOUNT,
+  getStakeLockMultiplierBps,
+  minAmount,
+  toAmount,
+  type Amount,
+} from "@shared/schema";
 
 // Lock period options (in seconds) - must match contract constants
 export const LOCK_PERIODS = [
@@ -28,21 +36,48 @@ export const LOCK_PERIODS = [
   { days: 365, seconds: 31536000, label: "1 year" },
 ] as const;
 
+// Staked amounts are PULSE base units
 export interface StakePosition {
-  amount: number;
+  amount: Amount;
   stakedAt: number;
   lockDuration: number;
   unlockAt: number;
   isUnlocked: boolean;
 }
 
+// Reward emission state; weights are amount * lock multiplier (bps)
+export interface RewardPoolInfo {
+  emissionRate: Amount; // PULSE base units per second
+  rewardReserve: Amount; // Funded PULSE not yet emitted
+  totalWeight: Amount;
+}
+
 export interface StakingInfo {
-  totalStaked: number;
+  totalStaked: Amount;
   positions: StakePosition[];
-  unlockableAmount: number;
-  lockedAmount: number;
-  poolTotalStaked: number;
+  unlockableAmount: Amount;
+  lockedAmount: Amount;
+  poolTotalStaked: Amount;
   stakersCount: number;
+  rewardPool: RewardPoolInfo | null; // Null until the contract's rewards are initialized
+  pendingRewards: Amount;
+  hasRewardAccount: boolean;
+}
+
+const SECONDS_PER_YEAR = 31536000;
+
+/**
+ * Estimated yearly reward on PULSE staked for a lock period, in percent
+ * Yearly emission is capped by the remaining reserve; null while no stake is earning.
+ */
+export function getStakingAprPercent(rewardPool: RewardPoolInfo, lockDuration: number): number | null {
+  if (rewardPool.emissionRate <= ZERO_AMOUNT) return 0;
+  if (rewardPool.totalWeight <= ZERO_AMOUNT) return null;
+
+  const yearlyEmission = minAmount(rewardPool.emissionRate * BigInt(SECONDS_PER_YEAR), rewardPool.rewardReserve);
+  const multiplierBps = BigInt(getStakeLockMultiplierBps(lockDuration));
+  // Hundredths of a percent: emission * multiplier / weight is reward per staked unit
+  return Number((yearlyEmission * multiplierBps * BigInt(BPS_DENOMINATOR)) / rewardPool.totalWeight) / 100;
 }
 
 // Helper to get function ID for staking contract
@@ -175,9 +210,9 @@ export function useStaking() {
 
   // Get user's total staked amount
   const getStakedAmount = useCallback(
-    async (userAddress?: string): Promise<number> => {
+    async (userAddress?: string): Promise<Amount> => {
       const address = userAddress || activeAddress;
-      if (!stakingContractAddress || !address) return 0;
+      if (!stakingContractAddress || !address) return ZERO_AMOUNT;
 
       try {
         const result = await client.view({
@@ -188,10 +223,10 @@ export function useStaking() {
           },
         });
 
-        return result && result[0] !== undefined ? Number(result[0]) : 0;
+        return result && result[0] !== undefined ? toAmount(result[0] as string) : ZERO_AMOUNT;
       } catch (err) {
         console.error("Failed to get staked amount:", err);
-        return 0;
+        return ZERO_AMOUNT;
       }
     },
     [client, stakingContractAddress, activeAddress]
@@ -240,7 +275,7 @@ export function useStaking() {
           const unlockAt = Number(result[3]);
           const currentTime = Math.floor(Date.now() / 1000);
           return {
-            amount: Number(result[0]),
+            amount: toAmount(result[0] as string),
             stakedAt: Number(result[1]),
             lockDuration: Number(result[2]),
             unlockAt,
@@ -280,9 +315,9 @@ export function useStaking() {
 
   // Get unlockable amount
   const getUnlockableAmount = useCallback(
-    async (userAddress?: string): Promise<number> => {
+    async (userAddress?: string): Promise<Amount> => {
       const address = userAddress || activeAddress;
-      if (!stakingContractAddress || !address) return 0;
+      if (!stakingContractAddress || !address) return ZERO_AMOUNT;
 
       try {
         const result = await client.view({
@@ -293,10 +328,10 @@ export function useStaking() {
           },
         });
 
-        return result && result[0] !== undefined ? Number(result[0]) : 0;
+        return result && result[0] !== undefined ? toAmount(result[0] as string) : ZERO_AMOUNT;
       } catch (err) {
         console.error("Failed to get unlockable amount:", err);
-        return 0;
+        return ZERO_AMOUNT;
       }
     },
     [client, stakingContractAddress, activeAddress]
@@ -304,9 +339,9 @@ export function useStaking() {
 
   // Get locked amount
   const getLockedAmount = useCallback(
-    async (userAddress?: string): Promise<number> => {
+    async (userAddress?: string): Promise<Amount> => {
       const address = userAddress || activeAddress;
-      if (!stakingContractAddress || !address) return 0;
+      if (!stakingContractAddress || !address) return ZERO_AMOUNT;
 
       try {
         const result = await client.view({
@@ -317,18 +352,18 @@ export function useStaking() {
           },
         });
 
-        return result && result[0] !== undefined ? Number(result[0]) : 0;
+        return result && result[0] !== undefined ? toAmount(result[0] as string) : ZERO_AMOUNT;
       } catch (err) {
         console.error("Failed to get locked amount:", err);
-        return 0;
+        return ZERO_AMOUNT;
       }
     },
     [client, stakingContractAddress, activeAddress]
   );
 
   // Get pool total staked
-  const getPoolTotalStaked = useCallback(async (): Promise<number> => {
-    if (!stakingContractAddress) return 0;
+  const getPoolTotalStaked = useCallback(async (): Promise<Amount> => {
+    if (!stakingContractAddress) return ZERO_AMOUNT;
 
     try {
       const result = await client.view({
@@ -339,10 +374,10 @@ export function useStaking() {
         },
       });
 
-      return result && result[0] !== undefined ? Number(result[0]) : 0;
+      return result && result[0] !== undefined ? toAmount(result[0] as string) : ZERO_AMOUNT;
     } catch (err) {
       console.error("Failed to get pool total staked:", err);
-      return 0;
+      return ZERO_AMOUNT;
     }
   }, [client, stakingContractAddress]);
 
@@ -386,6 +421,87 @@ export function useStaking() {
     }
   }, [client, stakingContractAddress]);
 
+  // Get reward pool info, or null when rewards aren't initialized
+  const getRewardPoolInfo = useCallback(async (): Promise<RewardPoolInfo | null> => {
+    if (!stakingContractAddress) return null;
+
+    try {
+      const [initialized] = await client.view({
+        payload: {
+          function: getStakingFunctionId(stakingContractAddress, "is_rewards_initialized"),
+          typeArguments: [],
+          functionArguments: [],
+        },
+      });
+      if (!initialized) return null;
+
+      const result = await client.view({
+        payload: {
+          function: getStakingFunctionId(stakingContractAddress, "get_reward_pool_info"),
+          typeArguments: [],
+          functionArguments: [],
+        },
+      });
+
+      return {
+        emissionRate: toAmount(result[0] as string),
+        rewardReserve: toAmount(result[1] as string),
+        totalWeight: toAmount(result[2] as string),
+      };
+    } catch (err) {
+      console.error("Failed to get reward pool info:", err);
+      return null;
+    }
+  }, [client, stakingContractAddress]);
+
+  // Get rewards claimable now
+  const getPendingRewards = useCallback(
+    async (userAddress?: string): Promise<Amount> => {
+      const address = userAddress || activeAddress;
+      if (!stakingContractAddress || !address) return ZERO_AMOUNT;
+
+      try {
+        const result = await client.view({
+          payload: {
+            function: getStakingFunctionId(stakingContractAddress, "get_pending_rewards"),
+            typeArguments: [],
+            functionArguments: [address],
+          },
+        });
+
+        return result && result[0] !== undefined ? toAmount(result[0] as string) : ZERO_AMOUNT;
+      } catch (err) {
+        console.error("Failed to get pending rewards:", err);
+        return ZERO_AMOUNT;
+      }
+    },
+    [client, stakingContractAddress, activeAddress]
+  );
+
+  // Check if the user's positions are registered for rewards
+  const getHasRewardAccount = useCallback(
+    async (userAddress?: string): Promise<boolean> => {
+      const address = userAddress || activeAddress;
+      if (!stakingContractAddress || !address) return false;
+
+      try {
+        const result = await client.view({
+          payload: {
+            function: getStakingFunctionId(stakingContractAddress, "has_reward_account"),
+            typeArguments: [],
+            functionArguments: [address],
+          },
+        });
+
+        return Boolean(result && result[0]);
+      } catch (err) {
+        console.error("Failed to check reward account:", err);
+        return false;
+      }
+    },
+    [client, stakingContractAddress, activeAddress]
+  );
+
   // ==================== React Query ====================
 
   // Query for staking info
@@ -394,24 +510,39 @@ export function useStaking() {
     queryFn: async () => {
       if (!activeAddress || !stakingContractAddress) {
         return {
-          totalStaked: 0,
+          totalStaked: ZERO_AMOUNT,
           positions: [],
-          unlockableAmount: 0,
-          lockedAmount: 0,
-          poolTotalStaked: 0,
+          unlockableAmount: ZERO_AMOUNT,
+          lockedAmount: ZERO_AMOUNT,
+          poolTotalStaked: ZERO_AMOUNT,
           stakersCount: 0,
+          rewardPool: null,
+          pendingRewards: ZERO_AMOUNT,
+          hasRewardAccount: false,
         };
       }
 
-      const [totalStaked, positions, unlockableAmount, lockedAmount, poolTotalStaked, stakersCount] =
-        await Promise.all([
-          getStakedAmount(),
-          getAllPositions(),
-          getUnlockableAmount(),
-          getLockedAmount(),
-          getPoolTotalStaked(),
-          getStakersCount(),
-        ]);
+      const [
+        totalStaked,
+        positions,
+        unlockableAmount,
+        lockedAmount,
+        poolTotalStaked,
+        stakersCount,
+        rewardPool,
+        pendingRewards,
+        hasRewardAccount,
+      ] = await Promise.all([
+        getStakedAmount(),
+        getAllPositions(),
+        getUnlockableAmount(),
+        getLockedAmount(),
+        getPoolTotalStaked(),
+        getStakersCount(),
+        getRewardPoolInfo(),
+        getPendingRewards(),
+        getHasRewardAccount(),
+      ]);
 
       return {
         totalStaked,
@@ -420,6 +551,9 @@ export function useStaking() {
         lockedAmount,
         poolTotalStaked,
         stakersCount,
+        rewardPool,
+        pendingRewards,
+        hasRewardAccount,
       };
     },
     enabled: !!activeAddress && !!stakingContractAddress,
@@ -431,7 +565,7 @@ export function useStaking() {
 
   // Stake PULSE
   const stakeMutation = useMutation({
-    mutationFn: async ({ amount, lockPeriod }: { amount: number; lockPeriod: number }) => {
+    mutationFn: async ({ amount, lockPeriod }: { amount: Amount; lockPeriod: number }) => {
       setLoading(true);
       try {
         const result = await executeTransaction(
@@ -492,6 +626,52 @@ export function useStaking() {
     },
   });
 
+  // Claim pending staking rewards
+  const claimRewardsMutation = useMutation({
+    mutationFn: async () => {
+      setLoading(true);
+      try {
+        return await executeTransaction("claim_rewards", [], "Failed to claim rewards");
+      } finally {
+        setLoading(false);
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["stakingInfo", activeAddress] });
+    },
+  });
+
+  // Stake pending rewards as a new position
+  const compoundRewardsMutation = useMutation({
+    mutationFn: async ({ lockPeriod }: { lockPeriod: number }) => {
+      setLoading(true);
+      try {
+        return await executeTransaction("compound_rewards", [lockPeriod.toString()], "Failed to compound rewards");
+      } finally {
+        setLoading(false);
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["stakingInfo", activeAddress] });
+      queryClient.invalidateQueries({ queryKey: ["userProfile", activeAddress] });
+    },
+  });
+
+  // Start earning on positions opened before rewards were initialized
+  const registerRewardsMutation = useMutation({
+    mutationFn: async () => {
+      setLoading(true);
+      try {
+        return await executeTransaction("register_rewards", [], "Failed to register for rewards");
+      } finally {
+        setLoading(false);
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["stakingInfo", activeAddress] });
+    },
+  });
+
   return {
     // Contract info
     stakingContractAddress,
@@ -504,21 +684,29 @@ export function useStaking() {
     error: stakingInfoQuery.error,
 
     // Staking info
-    totalStaked: stakingInfoQuery.data?.totalStaked ?? 0,
+    totalStaked: stakingInfoQuery.data?.totalStaked ?? ZERO_AMOUNT,
     positions: stakingInfoQuery.data?.positions ?? [],
-    unlockableAmount: stakingInfoQuery.data?.unlockableAmount ?? 0,
-    lockedAmount: stakingInfoQuery.data?.lockedAmount ?? 0,
-    poolTotalStaked: stakingInfoQuery.data?.poolTotalStaked ?? 0,
+    unlockableAmount: stakingInfoQuery.data?.unlockableAmount ?? ZERO_AMOUNT,
+    lockedAmount: stakingInfoQuery.data?.lockedAmount ?? ZERO_AMOUNT,
+    poolTotalStaked: stakingInfoQuery.data?.poolTotalStaked ?? ZERO_AMOUNT,
     stakersCount: stakingInfoQuery.data?.stakersCount ?? 0,
+    rewardPool: stakingInfoQuery.data?.rewardPool ?? null,
+    pendingRewards: stakingInfoQuery.data?.pendingRewards ?? ZERO_AMOUNT,
+    hasRewardAccount: stakingInfoQuery.data?.hasRewardAccount ?? false,
 
     // Actions
     stake: stakeMutation.mutateAsync,
     unstake: unstakeMutation.mutateAsync,
     unstakeAll: unstakeAllMutation.mutateAsync,
+    claimRewards: claimRewardsMutation.mutateAsync,
+    compoundRewards: compoundRewardsMutation.mutateAsync,
+    registerRewards: registerRewardsMutation.mutateAsync,
 
     // Action states
     isStaking: stakeMutation.isPending,
     isUnstaking: unstakeMutation.isPending || unstakeAllMutation.isPending,
+    isClaimingRewards: claimRewardsMutation.isPending || compoundRewardsMutation.isPending,
+    isRegisteringRewards: registerRewardsMutation.isPending,
 
     // Refetch
     refetch: stakingInfoQuery.refetch,
@@ -533,5 +721,8 @@ export function useStaking() {
     getPoolTotalStaked,
     getStakersCount,
     isPoolInitialized,
+    getRewardPoolInfo,
+    getPendingRewards,
+    getHasRewardAccount,
   };
 }
@@ -2,6 +2,13 @@
  * Hook for PULSE/USDC swap functionality
  * Provides AMM pool interactions including swaps and liquidity management
  * Updated for dual Fungible Asset (FA) support
+ *
+ * Swaps between any two registered tokens go through lib/swap-router: the best
+ * direct or two-hop route is quoted from every registered pool's reserves and
+ * executed one transaction per hop, each signed only while the rest of the route
+ * still reaches its minimum output. When a later hop fails after an earlier one
+ * landed, the route throws a PartialRouteError saying what the wallet now holds,
+ * from which the remaining hop can be retried or the landed ones unwound.
  */
 
 import { useState, useCallback, useMemo } from "react";
@@ -12,23 +19,33 @@ import { usePrivyWallet } from "@/hooks/usePrivyWallet";
 import { submitPrivyTransaction } from "@/lib/privy-transactions";
 import { getSwapContractAddress, COIN_TYPES, getCoinDecimals, getUsdcContractAddress } from "@/lib/tokens";
 import { formatBalance } from "@/lib/balance";
+import { fetchSwapPoolStats } from "@/hooks/useSwapAnalytics";
+import { getRegisteredPools, poolMatchesMetadata, type RegisteredPool } from "@/lib/token-registry";
+import { findBestRoute, getHopMinimums, requoteHops, type PoolState, type SwapRoute } from "@/lib/swap-router";
+import {
+  ZERO_AMOUNT,
+  amountToNumber,
+  getLiquidityValue,
+  toAmount,
+  type Amount,
+} from "@shared/schema";
 
 // Swap module name
 const SWAP_MODULE = "swap";
 
-// Types for swap operations
+// Types for swap operations (token amounts in base units)
 export interface PoolInfo {
-  pulseReserve: number;
-  stableReserve: number;
-  totalLpShares: number;
+  pulseReserve: Amount;
+  stableReserve: Amount;
+  totalLpShares: Amount;
   feeBps: number;
   pulseReserveFormatted: string;
   stableReserveFormatted: string;
 }
 
 export interface SwapQuote {
-  amountIn: number;
-  amountOut: number;
+  amountIn: Amount;
+  amountOut: Amount;
   priceImpactBps: number;
   amountInFormatted: string;
   amountOutFormatted: string;
@@ -37,20 +54,60 @@ export interface SwapQuote {
 }
 
 export interface LiquidityPosition {
-  shares: number;
+  shares: Amount;
   poolPercentage: number;
-  pulseValue: number;
-  stableValue: number;
+  pulseValue: Amount;
+  stableValue: Amount;
   pulseValueFormatted: string;
   stableValueFormatted: string;
+  // Estimated yearly fee return in percent, null until the pool has history
+  apr: number | null;
 }
 
 export interface TransactionResult {
   hash: string;
   success: boolean;
-  sponsored?: boolean;  // Whether gas was sponsored by Shinami
+  sponsored?: boolean;  // Whether gas was sponsored by the platform
 }
 
+export interface RouteExecutionResult {
+  hashes: string[]; // One per hop
+  amountOut: Amount; // Received from the last hop
+}
+
+/**
+ * A route stopped after some of its hops landed
+ * heldAmount is what the last landed hop delivered in heldToken, or null when
+ * its Swap event couldn't be read (check the wallet balance instead).
+ */
+export class PartialRouteError extends Error {
+  route: SwapRoute;
+  hashes: string[]; // Landed hops
+  completedHops: number;
+  heldToken: string;
+  heldAmount: Amount | null;
+
+  constructor(route: SwapRoute, hashes: string[], heldAmount: Amount | null, cause: unknown) {
+    const heldToken = route.path[hashes.length];
+    const reason = cause instanceof Error ? cause.message : String(cause);
+    super(
+      `Swap stopped after ${hashes.length} of ${route.hops.length} hops; you now hold ${heldToken} instead of ${route.path[route.path.length - 1]}: ${reason}`
+    );
+    this.name = "PartialRouteError";
+    this.route = route;
+    this.hashes = hashes;
+    this.completedHops = hashes.length;
+    this.heldToken = heldToken;
+    this.heldAmount = heldAmount;
+  }
+}
+
+export type PartialRouteRecovery = "retry" | "unwind";
+
+// Per pool, whether its on-chain token metadata match the registry; only
+// successful checks are cached, so a failed read is retried on the next quote
+const poolMetadataChecks = new Map<string, Promise<boolean>>();
+
 export function useSwap() {
   const { config, network } = useNetwork();
   const { signAndSubmitTransaction, account } = useWallet();
@@ -71,10 +128,10 @@ export function useSwap() {
   // Get the active wallet address (Privy or native)
   const activeAddress = isPrivyWallet ? privyAddress : account?.address?.toString();
 
-  // Build function ID for swap contract
+  // Build function ID for swap contract (or another registered pool's deployment)
   const getSwapFunctionId = useCallback(
-    (functionName: string): `${string}::${string}::${string}` => {
-      return `${swapAddress}::${SWAP_MODULE}::${functionName}`;
+    (functionName: string, poolAddress: string = swapAddress): `${string}::${string}::${string}` => {
+      return `${poolAddress}::${SWAP_MODULE}::${functionName}`;
     },
     [swapAddress]
   );
@@ -84,7 +141,8 @@ export function useSwap() {
   const executeTransaction = useCallback(
     async (
       functionName: string,
-      functionArguments: (string | number | boolean)[]
+      functionArguments: (string | number | boolean)[],
+      poolAddress?: string
     ): Promise<TransactionResult> => {
       if (isPrivyWallet) {
         if (!privyAddress || !privyPublicKey || !signRawHash) {
@@ -97,7 +155,7 @@ export function useSwap() {
           privyPublicKey,
           signRawHash,
           {
-            function: getSwapFunctionId(functionName),
+            function: getSwapFunctionId(functionName, poolAddress),
             typeArguments: [], // FA-based swap has no type args
             functionArguments,
           }
@@ -111,7 +169,7 @@ export function useSwap() {
 
         const response = await signAndSubmitTransaction({
           data: {
-            function: getSwapFunctionId(functionName),
+            function: getSwapFunctionId(functionName, poolAddress),
             typeArguments: [], // FA-based swap has no type args
             functionArguments,
           },
@@ -137,9 +195,9 @@ export function useSwap() {
       });
 
       if (result && result.length >= 4) {
-        const pulseReserve = Number(result[0]);
-        const stableReserve = Number(result[1]);
-        const totalLpShares = Number(result[2]);
+        const pulseReserve = toAmount(result[0] as string);
+        const stableReserve = toAmount(result[1] as string);
+        const totalLpShares = toAmount(result[2] as string);
         const feeBps = Number(result[3]);
 
         return {
@@ -160,8 +218,8 @@ export function useSwap() {
 
   // Get swap quote (view function)
   const getSwapQuote = useCallback(
-    async (amountIn: number, isPulseToUsdc: boolean): Promise<SwapQuote | null> => {
-      if (!swapAddress || amountIn <= 0) return null;
+    async (amountIn: Amount, isPulseToUsdc: boolean): Promise<SwapQuote | null> => {
+      if (!swapAddress || amountIn <= ZERO_AMOUNT) return null;
 
       try {
         const [amountOutResult, priceImpactResult] = await Promise.all([
@@ -182,15 +240,15 @@ export function useSwap() {
         ]);
 
         if (amountOutResult && amountOutResult[0] !== undefined && priceImpactResult && priceImpactResult[0] !== undefined) {
-          const amountOut = Number(amountOutResult[0]);
+          const amountOut = toAmount(amountOutResult[0] as string);
           const priceImpactBps = Number(priceImpactResult[0]);
 
           const inDecimals = isPulseToUsdc ? getCoinDecimals(COIN_TYPES.PULSE) : getCoinDecimals(COIN_TYPES.USDC);
           const outDecimals = isPulseToUsdc ? getCoinDecimals(COIN_TYPES.USDC) : getCoinDecimals(COIN_TYPES.PULSE);
 
           // Calculate rate (how much out per 1 in)
-          const inAmount = amountIn / Math.pow(10, inDecimals);
-          const outAmount = amountOut / Math.pow(10, outDecimals);
+          const inAmount = amountToNumber(amountIn, inDecimals);
+          const outAmount = amountToNumber(amountOut, outDecimals);
           const rate = inAmount > 0 ? (outAmount / inAmount).toFixed(6) : "0";
 
           return {
@@ -219,7 +277,7 @@ export function useSwap() {
       if (!swapAddress || !targetAddress) return null;
 
       try {
-        const [lpResult, poolInfo] = await Promise.all([
+        const [lpResult, poolInfo, poolStats] = await Promise.all([
           client.view({
             payload: {
               function: getSwapFunctionId("get_lp_position"),
@@ -228,13 +286,17 @@ export function useSwap() {
             },
           }),
           getPoolInfo(),
+          // The position still loads if the analytics server is unavailable
+          fetchSwapPoolStats(network).catch(() => null),
         ]);
+        const apr = poolStats?.feeApr ?? null;
 
         if (lpResult && lpResult[0] !== undefined && poolInfo) {
-          const shares = Number(lpResult[0]);
-          const poolPercentage = poolInfo.totalLpShares > 0 ? (shares / poolInfo.totalLpShares) * 100 : 0;
-          const pulseValue = poolInfo.totalLpShares > 0 ? Math.floor((poolInfo.pulseReserve * shares) / poolInfo.totalLpShares) : 0;
-          const stableValue = poolInfo.totalLpShares > 0 ? Math.floor((poolInfo.stableReserve * shares) / poolInfo.totalLpShares) : 0;
+          const shares = toAmount(lpResult[0] as string);
+          const poolPercentage =
+            poolInfo.totalLpShares > ZERO_AMOUNT ? (Number(shares) / Number(poolInfo.totalLpShares)) * 100 : 0;
+          const pulseValue = getLiquidityValue(shares, poolInfo.pulseReserve, poolInfo.totalLpShares);
+          const stableValue = getLiquidityValue(shares, poolInfo.stableReserve, poolInfo.totalLpShares);
 
           return {
             shares,
@@ -243,24 +305,26 @@ export function useSwap() {
             stableValue,
             pulseValueFormatted: formatBalance(pulseValue, getCoinDecimals(COIN_TYPES.PULSE)),
             stableValueFormatted: formatBalance(stableValue, getCoinDecimals(COIN_TYPES.USDC)),
+            apr,
           };
         }
 
         // User has no LP position
         return {
-          shares: 0,
+          shares: ZERO_AMOUNT,
           poolPercentage: 0,
-          pulseValue: 0,
-          stableValue: 0,
+          pulseValue: ZERO_AMOUNT,
+          stableValue: ZERO_AMOUNT,
           pulseValueFormatted: "0.0000",
           stableValueFormatted: "0.0000",
+          apr,
         };
       } catch (err) {
         console.error("Failed to get LP position:", err);
         return null;
       }
     },
-    [client, swapAddress, activeAddress, getSwapFunctionId, getPoolInfo]
+    [client, swapAddress, activeAddress, network, getSwapFunctionId, getPoolInfo]
   );
 
   // Get spot price (view function)
@@ -291,9 +355,159 @@ export function useSwap() {
     [client, swapAddress, getSwapFunctionId]
   );
 
+  // Check a registered pool's pulse/stable metadata on chain, so a misconfigured
+  // VITE_TOKEN_REGISTRY entry can't route one token's amount through another's pool
+  const checkPoolMetadata = useCallback(
+    (pool: RegisteredPool): Promise<boolean> => {
+      const key = `${pool.network}:${pool.address.toLowerCase()}`;
+      const cached = poolMetadataChecks.get(key);
+      if (cached) return cached;
+
+      const view = (functionName: string) =>
+        client.view({
+          payload: { function: getSwapFunctionId(functionName, pool.address), typeArguments: [], functionArguments: [] },
+        });
+      const check = Promise.all([view("get_pulse_metadata"), view("get_stable_metadata")]).then(
+        ([pulse, stable]) => {
+          const matches = poolMatchesMetadata(pool, String(pulse[0]), String(stable[0]));
+          if (!matches) {
+            console.warn(
+              `Pool ${pool.address} holds ${pulse[0]}/${stable[0]}, not the registered ${pool.tokenA}/${pool.tokenB}; skipping it`
+            );
+          }
+          return matches;
+        },
+        (err) => {
+          poolMetadataChecks.delete(key);
+          throw err;
+        }
+      );
+      poolMetadataChecks.set(key, check);
+      return check;
+    },
+    [client, getSwapFunctionId]
+  );
+
+  // Reserves of every registered pool on this network whose tokens check out on chain
+  const getPoolStates = useCallback(async (): Promise<PoolState[]> => {
+    const states = await Promise.all(
+      getRegisteredPools(network).map(async (pool): Promise<PoolState | null> => {
+        try {
+          if (!(await checkPoolMetadata(pool))) return null;
+
+          const result = await client.view({
+            payload: {
+              function: getSwapFunctionId("get_pool_info", pool.address),
+              typeArguments: [],
+              functionArguments: [],
+            },
+          });
+          return {
+            pool,
+            reserveA: toAmount(result[0] as string),
+            reserveB: toAmount(result[1] as string),
+            feeBps: Number(result[3]),
+          };
+        } catch (err) {
+          console.error(`Failed to get pool info for ${pool.tokenA}/${pool.tokenB}:`, err);
+          return null;
+        }
+      })
+    );
+    return states.filter((state): state is PoolState => state !== null);
+  }, [client, network, getSwapFunctionId, checkPoolMetadata]);
+
+  // Quote the best direct or two-hop route between two registered tokens
+  const quoteRoute = useCallback(
+    async (tokenIn: string, tokenOut: string, amountIn: Amount): Promise<SwapRoute | null> => {
+      if (amountIn <= ZERO_AMOUNT) return null;
+      return findBestRoute(await getPoolStates(), tokenIn, tokenOut, amountIn);
+    },
+    [getPoolStates]
+  );
+
+  // Execute a route hop by hop. Each hop after the first sells what the previous
+  // one actually delivered (read from its Swap event). Before any hop is signed,
+  // the rest of the route is re-quoted from current reserves and must still reach
+  // the whole route's minimum output; each hop then enforces its quoted output
+  // less the slippage tolerance, the last hop the route's minimum itself.
+  // A hop whose Swap event can't be found fails the route rather than guessing.
+  const executeRoute = useCallback(
+    async (route: SwapRoute, slippageBps: number): Promise<RouteExecutionResult> => {
+      setLoading(true);
+      setError(null);
+
+      const minimums = getHopMinimums(route, slippageBps);
+      const minAmountOut = minimums[minimums.length - 1];
+      const hashes: string[] = [];
+      let amountIn: Amount | null = route.amountIn;
+      try {
+        for (let index = 0; index < route.hops.length; index++) {
+          const hop = route.hops[index];
+          const remaining = requoteHops(await getPoolStates(), route.hops.slice(index), amountIn);
+          if (!remaining || remaining.amountOut < minAmountOut) {
+            throw new Error(
+              `Prices moved: ${route.path.slice(index).join(" → ")} would now return less than the minimum ${route.path[route.path.length - 1]} for your slippage tolerance`
+            );
+          }
+
+          const result = await executeTransaction(
+            hop.sellsTokenA ? "swap_pulse_to_stable" : "swap_stable_to_pulse",
+            [amountIn.toString(), minimums[index].toString()],
+            hop.pool.address
+          );
+
+          const committed = await client.waitForTransaction({ transactionHash: result.hash });
+          hashes.push(result.hash);
+          amountIn = null;
+
+          const events = "events" in committed ? committed.events : [];
+          const swapEvent = events.find((event) => event.type.endsWith(`::${SWAP_MODULE}::Swap`));
+          if (!swapEvent) {
+            throw new Error(`Swap event missing from ${hop.tokenIn} → ${hop.tokenOut} transaction ${result.hash}`);
+          }
+          amountIn = toAmount(String(hop.sellsTokenA ? swapEvent.data.stable_out : swapEvent.data.pulse_out));
+        }
+
+        return { hashes, amountOut: amountIn };
+      } catch (err) {
+        const failure = hashes.length > 0 ? new PartialRouteError(route, hashes, amountIn, err) : err;
+        setError(failure instanceof Error ? failure.message : "Failed to swap");
+        throw failure;
+      } finally {
+        setLoading(false);
+      }
+    },
+    [client, executeTransaction, getPoolStates]
+  );
+
+  // Finish a partially executed route from what the wallet now holds: "retry"
+  // re-quotes the rest of the way to the original output token, "unwind" swaps
+  // back to the original input token
+  const recoverPartialRoute = useCallback(
+    async (
+      partial: PartialRouteError,
+      recovery: PartialRouteRecovery,
+      slippageBps: number
+    ): Promise<RouteExecutionResult> => {
+      if (partial.heldAmount === null) {
+        throw new Error(`The amount of ${partial.heldToken} received is unknown; swap it from your balance instead`);
+      }
+
+      const { path } = partial.route;
+      const target = recovery === "retry" ? path[path.length - 1] : path[0];
+      const route = await quoteRoute(partial.heldToken, target, partial.heldAmount);
+      if (!route) {
+        throw new Error(`No route from ${partial.heldToken} to ${target}`);
+      }
+      return executeRoute(route, slippageBps);
+    },
+    [quoteRoute, executeRoute]
+  );
+
   // Swap PULSE to USDC (FA-based)
   const swapPulseToUsdc = useCallback(
-    async (pulseAmount: number, minUsdcOut: number): Promise<TransactionResult> => {
+    async (pulseAmount: Amount, minUsdcOut: Amount): Promise<TransactionResult> => {
       setLoading(true);
       setError(null);
 
@@ -319,7 +533,7 @@ export function useSwap() {
 
   // Swap USDC to PULSE (FA-based)
   const swapUsdcToPulse = useCallback(
-    async (usdcAmount: number, minPulseOut: number): Promise<TransactionResult> => {
+    async (usdcAmount: Amount, minPulseOut: Amount): Promise<TransactionResult> => {
       setLoading(true);
       setError(null);
 
@@ -345,7 +559,7 @@ export function useSwap() {
 
   // Add liquidity to the pool (FA-based)
   const addLiquidity = useCallback(
-    async (pulseAmount: number, usdcAmount: number, minLpShares: number): Promise<TransactionResult> => {
+    async (pulseAmount: Amount, usdcAmount: Amount, minLpShares: Amount): Promise<TransactionResult> => {
       setLoading(true);
       setError(null);
 
@@ -371,7 +585,7 @@ export function useSwap() {
 
   // Remove liquidity from the pool (FA-based)
   const removeLiquidity = useCallback(
-    async (lpShares: number, minPulseOut: number, minUsdcOut: number): Promise<TransactionResult> => {
+    async (lpShares: Amount, minPulseOut: Amount, minUsdcOut: Amount): Promise<TransactionResult> => {
       setLoading(true);
       setError(null);
 
@@ -408,8 +622,12 @@ export function useSwap() {
     getSwapQuote,
     getLpPosition,
     getSpotPrice,
+    getPoolStates,
+    quoteRoute,
 
     // Write functions
+    executeRoute,
+    recoverPartialRoute,
     swapPulseToUsdc,
     swapUsdcToPulse,
     addLiquidity,
@@ -0,0 +1,70 @@
+/**
+ * Hooks for swap pool analytics
+ * Price candles, pool stats (volume, LP fees, TVL, fee APR) and LP position
+ * returns served from the server's swap event index.
+ */
+
+import { useQuery } from "@tanstack/react-query";
+import { useNetwork, type NetworkType } from "@/contexts/NetworkContext";
+import type { LiquidityPositionPnl, SwapCandle, SwapCandleInterval, SwapPoolStats } from "@shared/schema";
+
+export async function fetchSwapPoolStats(network: NetworkType): Promise<SwapPoolStats> {
+  const res = await fetch(`/api/swap/stats?network=${network}`);
+
+  const data = await res.json();
+  if (!res.ok) {
+    throw new Error(data.error || "Failed to fetch pool stats");
+  }
+  return data.data;
+}
+
+export function useSwapPoolStats() {
+  const { network } = useNetwork();
+
+  return useQuery<SwapPoolStats>({
+    queryKey: ["swapPoolStats", network],
+    queryFn: () => fetchSwapPoolStats(network),
+    staleTime: 30 * 1000,
+    refetchInterval: 60 * 1000,
+  });
+}
+
+export function useSwapCandles(interval: SwapCandleInterval, limit?: number) {
+  const { network } = useNetwork();
+
+  return useQuery<SwapCandle[]>({
+    queryKey: ["swapCandles", interval, limit, network],
+    queryFn: async () => {
+      const params = new URLSearchParams({ network, interval });
+      if (limit) params.set("limit", String(limit));
+      const res = await fetch(`/api/swap/candles?${params}`);
+
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error || "Failed to fetch price history");
+      }
+      return data.data;
+    },
+    staleTime: 30 * 1000,
+    refetchInterval: 60 * 1000,
+  });
+}
+
+export function useLiquidityPositionPnl(address: string | undefined) {
+  const { network } = useNetwork();
+
+  return useQuery<LiquidityPositionPnl>({
+    queryKey: ["liquidityPositionPnl", address, network],
+    queryFn: async () => {
+      const res = await fetch(`/api/swap/positions/${address}?network=${network}`);
+
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error || "Failed to fetch LP position history");
+      }
+      return data.data;
+    },
+    enabled: !!address,
+    staleTime: 30 * 1000,
+  });
+}
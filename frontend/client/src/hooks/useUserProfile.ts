@@ -5,6 +5,7 @@
 
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
+import { useNetwork } from "@/contexts/NetworkContext";
 import { TIER_NAMES, type UserProfile } from "@shared/schema";
 
 export interface UserProfileInfo {
@@ -33,24 +34,27 @@ interface ProfileResponse {
 }
 
 interface SyncTierResponse {
-  tier: number;
-  tierName: string;
-  pulseBalance: string;
-  streakBonus: number;
+  success: boolean;
+  data: {
+    tier: number;
+    voteLimit: number;
+    lockWeighted: boolean; // Whether the server counts the lock-weighted stake toward tiers
+  };
 }
 
 export function useUserProfile(address: string | undefined) {
   const queryClient = useQueryClient();
+  const { network } = useNetwork();
 
-  // Fetch user profile
+  // Fetch user profile (profiles are kept per network)
   const profileQuery = useQuery<UserProfileInfo | null>({
-    queryKey: ["userProfile", address],
+    queryKey: ["userProfile", address, network],
     queryFn: async () => {
       if (!address) {
         return null;
       }
 
-      const res = await fetch(`/api/user/profile/${address}`, {
+      const res = await fetch(`/api/user/profile/${address}?network=${network}`, {
         credentials: "include",
       });
 
@@ -87,6 +91,7 @@ export function useUserProfile(address: string | undefined) {
       }
 
       const res = await apiRequest("POST", `/api/user/sync-tier/${address}`, {
+        network,
         pulseBalance: input.pulseBalance,
         stakedAmount: input.stakedAmount,
       });
@@ -5,6 +5,7 @@
 
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
+import { useNetwork } from "@/contexts/NetworkContext";
 import { TIER_NAMES, TIER_VOTE_LIMITS } from "@shared/schema";
 
 export interface VoteLimitInfo {
@@ -28,23 +29,23 @@ interface VoteRemainingResponse {
 }
 
 interface RecordVoteResponse {
-  success: boolean;
   votesRemaining: number;
-  votesUsed: number;
+  votesToday: number;
   newStreak: number;
   questsCompleted: Array<{
     questId: string;
     questName: string;
-    pointsAwarded: number;
+    points: number;
   }>;
 }
 
 export function useVoteLimit(address: string | null | undefined) {
   const queryClient = useQueryClient();
+  const { network } = useNetwork();
 
   // Fetch vote limit info
   const voteLimitQuery = useQuery<VoteLimitInfo>({
-    queryKey: ["voteLimit", address],
+    queryKey: ["voteLimit", address, network],
     queryFn: async () => {
       if (!address) {
         return {
@@ -59,7 +60,7 @@ export function useVoteLimit(address: string | null | undefined) {
         };
       }
 
-      const res = await fetch(`/api/votes/remaining/${address}`, {
+      const res = await fetch(`/api/votes/remaining/${address}?network=${network}`, {
         credentials: "include",
       });
 
@@ -86,19 +87,22 @@ export function useVoteLimit(address: string | null | undefined) {
     refetchOnWindowFocus: true,
   });
 
-  // Mutation to record a vote
-  const recordVoteMutation = useMutation<RecordVoteResponse, Error, { pollId: number; seasonId?: string }>({
-    mutationFn: async ({ pollId, seasonId }) => {
+  // Mutation to record a vote (the server verifies txHash on chain)
+  const recordVoteMutation = useMutation<RecordVoteResponse, Error, { pollId: number; txHash: string; seasonId?: string }>({
+    mutationFn: async ({ pollId, txHash, seasonId }) => {
       if (!address) {
         throw new Error("No wallet address provided");
       }
 
       const res = await apiRequest("POST", `/api/votes/record/${address}`, {
         pollId,
+        txHash,
+        network,
         seasonId,
       });
 
-      return res.json();
+      const data = await res.json();
+      return data.data;
     },
     onSuccess: (data) => {
       // Invalidate vote limit query to refresh the data
@@ -3,8 +3,11 @@
  * Use this instead of checking `connected` from useWallet directly
  */
 
+import { useEffect } from "react";
 import { useWallet } from "@aptos-labs/wallet-adapter-react";
 import { usePrivyWallet } from "@/hooks/usePrivyWallet";
+import { useNetwork } from "@/contexts/NetworkContext";
+import { ensureWalletSession } from "@/lib/wallet-session";
 
 export interface UseWalletConnectionResult {
   // Whether any wallet is connected (native OR Privy)
@@ -18,8 +21,9 @@ export interface UseWalletConnectionResult {
 }
 
 export function useWalletConnection(): UseWalletConnectionResult {
-  const { connected, account } = useWallet();
+  const { connected, account, signMessage } = useWallet();
   const { isPrivyWallet, walletAddress: privyAddress } = usePrivyWallet();
+  const { network } = useNetwork();
 
   const isNativeWallet = connected && !isPrivyWallet;
   const isConnected = isPrivyWallet || isNativeWallet;
@@ -31,6 +35,20 @@ export function useWalletConnection(): UseWalletConnectionResult {
     ? account?.address?.toString() ?? null
     : null;
 
+  // Sign in to the API with the native wallet (Privy sessions are handled in usePrivyWallet)
+  const nativePublicKey = isNativeWallet ? account?.publicKey?.toString() : undefined;
+  useEffect(() => {
+    if (!isNativeWallet || !address || !nativePublicKey) return;
+
+    ensureWalletSession(address, network, async (message, nonce) => {
+      const response = await signMessage({ message, nonce });
+      const signature = typeof response.signature === "string"
+        ? response.signature
+        : response.signature.toString();
+      return { publicKey: nativePublicKey, signature, fullMessage: response.fullMessage };
+    });
+  }, [isNativeWallet, address, nativePublicKey, network, signMessage]);
+
   return {
     isConnected,
     address,
@@ -14,6 +14,8 @@ import {
   getPulseContractAddress,
   getUsdcContractAddress,
 } from "./tokens";
+import type { RegisteredToken } from "./token-registry";
+import { ZERO_AMOUNT, amountToNumber, formatAmount, parseAmount, toAmount, type Amount } from "@shared/schema";
 
 // Create an Aptos client for balance fetching
 function createBalanceClient(fullnodeUrl: string): Aptos {
@@ -25,7 +27,7 @@ function createBalanceClient(fullnodeUrl: string): Aptos {
 }
 
 export interface AccountBalance {
-  balance: number; // In smallest unit (octas for MOVE/PULSE, micro for USDC)
+  balance: Amount; // In smallest unit (octas for MOVE/PULSE, micro for USDC)
   balanceFormatted: string; // Human readable format
   exists: boolean;
   symbol: string; // Token symbol (MOVE, PULSE, or USDC)
@@ -53,7 +55,7 @@ async function getLegacyCoinBalance(
 
     if (!coinTypeArg) {
       return {
-        balance: 0,
+        balance: ZERO_AMOUNT,
         balanceFormatted: "0.0000",
         exists: false,
         symbol,
@@ -68,7 +70,7 @@ async function getLegacyCoinBalance(
     if (!response.ok) {
       if (response.status === 404) {
         return {
-          balance: 0,
+          balance: ZERO_AMOUNT,
           balanceFormatted: "0.0000",
           exists: false,
           symbol,
@@ -78,7 +80,7 @@ async function getLegacyCoinBalance(
     }
 
     const data = await response.json();
-    const balance = parseInt(data.data.coin.value, 10);
+    const balance = toAmount(data.data.coin.value);
     const decimals = getCoinDecimals(coinTypeId);
 
     return {
@@ -90,7 +92,7 @@ async function getLegacyCoinBalance(
   } catch (error) {
     console.error(`Error fetching ${symbol} balance:`, error);
     return {
-      balance: 0,
+      balance: ZERO_AMOUNT,
       balanceFormatted: "0.0000",
       exists: false,
       symbol,
@@ -118,7 +120,7 @@ async function getFABalance(
       const pulseContract = getPulseContractAddress(network);
       if (!pulseContract) {
         return {
-          balance: 0,
+          balance: ZERO_AMOUNT,
           balanceFormatted: "0.0000",
           exists: false,
           symbol,
@@ -133,7 +135,7 @@ async function getFABalance(
             functionArguments: [address],
           },
         });
-        const balance = Number(balanceResult[0]);
+        const balance = toAmount(balanceResult[0] as string);
         const decimals = getCoinDecimals(coinTypeId);
 
         return {
@@ -145,7 +147,7 @@ async function getFABalance(
       } catch (error) {
         console.error("Error fetching PULSE balance:", error);
         return {
-          balance: 0,
+          balance: ZERO_AMOUNT,
           balanceFormatted: "0.0000",
           exists: false,
           symbol,
@@ -156,7 +158,7 @@ async function getFABalance(
       const usdcAddress = getUsdcContractAddress(network);
       if (!usdcAddress) {
         return {
-          balance: 0,
+          balance: ZERO_AMOUNT,
           balanceFormatted: "0.0000",
           exists: false,
           symbol,
@@ -171,7 +173,7 @@ async function getFABalance(
             functionArguments: [address, usdcAddress],
           },
         });
-        const balance = Number(balanceResult[0]);
+        const balance = toAmount(balanceResult[0] as string);
         const decimals = getCoinDecimals(coinTypeId);
 
         return {
@@ -183,7 +185,7 @@ async function getFABalance(
       } catch (error) {
         console.error("Error fetching USDC balance:", error);
         return {
-          balance: 0,
+          balance: ZERO_AMOUNT,
           balanceFormatted: "0.0000",
           exists: false,
           symbol,
@@ -192,7 +194,7 @@ async function getFABalance(
     }
 
     return {
-      balance: 0,
+      balance: ZERO_AMOUNT,
       balanceFormatted: "0.0000",
       exists: false,
       symbol,
@@ -200,7 +202,7 @@ async function getFABalance(
   } catch (error) {
     console.error(`Error fetching ${symbol} FA balance:`, error);
     return {
-      balance: 0,
+      balance: ZERO_AMOUNT,
       balanceFormatted: "0.0000",
       exists: false,
       symbol,
@@ -261,6 +263,49 @@ export async function getAllBalances(
   };
 }
 
+/**
+ * Fetch the balance of a registry token (see lib/token-registry.ts)
+ * Tokens with a coin type go through getAccountBalance; others are read from
+ * the primary fungible store of their metadata address.
+ */
+export async function getRegisteredTokenBalance(
+  address: string,
+  token: RegisteredToken,
+  rpcUrl: string,
+  fullnodeUrl?: string
+): Promise<AccountBalance> {
+  if (token.coinTypeId !== undefined) {
+    return getAccountBalance(address, rpcUrl, token.coinTypeId, token.network, fullnodeUrl);
+  }
+
+  try {
+    const client = createBalanceClient(fullnodeUrl || rpcUrl);
+    const balanceResult = await client.view({
+      payload: {
+        function: "0x1::primary_fungible_store::balance",
+        typeArguments: ["0x1::fungible_asset::Metadata"],
+        functionArguments: [address, token.metadataAddress],
+      },
+    });
+    const balance = toAmount(balanceResult[0] as string);
+
+    return {
+      balance,
+      balanceFormatted: formatBalance(balance, token.decimals),
+      exists: true,
+      symbol: token.symbol,
+    };
+  } catch (error) {
+    console.error(`Error fetching ${token.symbol} balance:`, error);
+    return {
+      balance: ZERO_AMOUNT,
+      balanceFormatted: "0.0000",
+      exists: false,
+      symbol: token.symbol,
+    };
+  }
+}
+
 /**
  * Format balance from smallest unit to human readable with proper decimals
  * @param smallestUnit - Balance in smallest unit (octas for 8 decimals, micro for 6)
@@ -268,30 +313,41 @@ export async function getAllBalances(
  * @param displayDecimals - Number of decimal places to show (default: 4)
  */
 export function formatBalance(
-  smallestUnit: number,
+  smallestUnit: Amount,
   tokenDecimals: number = 8,
   displayDecimals: number = 4
 ): string {
-  const divisor = Math.pow(10, tokenDecimals);
-  const amount = smallestUnit / divisor;
-  return amount.toFixed(displayDecimals);
+  return formatAmount(smallestUnit, tokenDecimals, displayDecimals);
 }
 
 /**
  * Parse token amount to octas
- * @param amount - Amount in tokens
+ * @param amount - Amount in tokens, preferably the decimal string from an input
  */
-export function parseToOctas(amount: number): number {
-  return Math.floor(amount * 100_000_000);
+export function parseToOctas(amount: string | number): Amount {
+  return parseAmount(amount, 8);
 }
 
 /**
  * Parse token amount to smallest unit based on decimals
- * @param amount - Amount in tokens
+ * @param amount - Amount in tokens, preferably the decimal string from an input
  * @param decimals - Number of decimals
  */
-export function parseToSmallestUnit(amount: number, decimals: number = 8): number {
-  return Math.floor(amount * Math.pow(10, decimals));
+export function parseToSmallestUnit(amount: string | number, decimals: number = 8): Amount {
+  return parseAmount(amount, decimals);
+}
+
+/**
+ * Parse a form input to smallest unit, or null when it isn't a valid amount
+ * @param input - Amount in tokens as typed by the user
+ * @param decimals - Number of decimals
+ */
+export function parseInputAmount(input: string, decimals: number = 8): Amount | null {
+  try {
+    return parseAmount(input, decimals);
+  } catch {
+    return null;
+  }
 }
 
 /**
@@ -301,7 +357,7 @@ export function parseToSmallestUnit(amount: number, decimals: number = 8): numbe
  * @param displayDecimals - Number of decimal places
  */
 export function formatBalanceWithSymbol(
-  smallestUnit: number,
+  smallestUnit: Amount,
   coinTypeId: CoinTypeId,
   displayDecimals: number = 4
 ): string {
@@ -310,3 +366,12 @@ export function formatBalanceWithSymbol(
   const symbol = getCoinSymbol(coinTypeId);
   return `${formatted} ${symbol}`;
 }
+
+/**
+ * Convert a balance to a token number for charts, sorting and ratios
+ * @param smallestUnit - Balance in smallest unit
+ * @param coinTypeId - The coin type
+ */
+export function toTokenAmount(smallestUnit: Amount, coinTypeId: CoinTypeId): number {
+  return amountToNumber(smallestUnit, getCoinDecimals(coinTypeId));
+}
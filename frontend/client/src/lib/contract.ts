@@ -1,5 +1,7 @@
 import { Aptos, AptosConfig, Network } from "@aptos-labs/ts-sdk";
 import type { NetworkConfig } from "@/contexts/NetworkContext";
+import type { Poll, PollWithMeta } from "@/types/poll";
+import { ZERO_AMOUNT, toAmount, type Amount } from "@shared/schema";
 
 // Module name for the poll contract
 export const MODULE_NAME = "poll";
@@ -67,6 +69,37 @@ export function formatTimeRemaining(endTime: number): string {
   }
 }
 
+// A poll as returned by a view call or the poll index, with u64 amounts as strings
+export type PollSource = Omit<Poll, "reward_per_vote" | "reward_pool"> & {
+  reward_per_vote: Amount | string | number;
+  reward_pool: Amount | string | number;
+};
+
+// Add computed UI fields to a poll (from a view call or the poll index)
+export function enrichPoll(poll: PollSource): PollWithMeta {
+  // Ensure votes are numbers (blockchain may return strings)
+  const numericVotes = poll.votes.map(v => Number(v));
+  const totalVotes = numericVotes.reduce((sum, v) => sum + v, 0);
+  const votePercentages = numericVotes.map((v) =>
+    totalVotes > 0 ? Math.round((v / totalVotes) * 100) : 0
+  );
+  return {
+    ...poll,
+    reward_per_vote: toAmount(poll.reward_per_vote),
+    reward_pool: toAmount(poll.reward_pool),
+    totalVotes,
+    isActive: isPollActive(poll),
+    timeRemaining: formatTimeRemaining(poll.end_time),
+    votePercentages,
+  };
+}
+
+// Expected per-voter reward in base units: the fixed reward, or an equal share of the pool
+export function getRewardPerVoter(poll: PollWithMeta): Amount {
+  if (poll.reward_per_vote > ZERO_AMOUNT) return poll.reward_per_vote;
+  return poll.totalVotes > 0 ? poll.reward_pool / BigInt(poll.totalVotes) : ZERO_AMOUNT;
+}
+
 // Helper to truncate address
 export function truncateAddress(address: string): string {
   if (!address) return "";
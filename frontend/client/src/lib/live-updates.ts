@@ -0,0 +1,104 @@
+/**
+ * Live update connection
+ * One shared WebSocket to /ws/live for the whole app. Components subscribe to
+ * channels (see pollChannel / questionnaireChannel); the socket is opened on the
+ * first subscription, re-subscribes after reconnecting and closes when the last
+ * listener leaves.
+ */
+
+import {
+  LIVE_UPDATES_PATH,
+  type LiveEvent,
+  type LiveEventMessage,
+  type LiveSubscribeMessage,
+} from "@shared/schema";
+
+type LiveListener = (event: LiveEvent) => void;
+
+const RECONNECT_BASE_MS = 1000;
+const RECONNECT_MAX_MS = 30000;
+
+const listeners = new Map<string, Set<LiveListener>>();
+let socket: WebSocket | null = null;
+let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+let reconnectAttempts = 0;
+
+function send(message: LiveSubscribeMessage): void {
+  if (socket?.readyState === WebSocket.OPEN && message.channels.length > 0) {
+    socket.send(JSON.stringify(message));
+  }
+}
+
+function scheduleReconnect(): void {
+  if (reconnectTimer || listeners.size === 0) return;
+
+  const delay = Math.min(RECONNECT_BASE_MS * 2 ** reconnectAttempts, RECONNECT_MAX_MS);
+  reconnectAttempts++;
+  reconnectTimer = setTimeout(() => {
+    reconnectTimer = null;
+    connect();
+  }, delay);
+}
+
+function connect(): void {
+  if (socket || typeof window === "undefined") return;
+
+  const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
+  const ws = new WebSocket(`${protocol}//${window.location.host}${LIVE_UPDATES_PATH}`);
+  socket = ws;
+
+  ws.onopen = () => {
+    reconnectAttempts = 0;
+    send({ action: "subscribe", channels: Array.from(listeners.keys()) });
+  };
+
+  ws.onmessage = (message) => {
+    try {
+      const { channel, event } = JSON.parse(message.data) as LiveEventMessage;
+      listeners.get(channel)?.forEach((listener) => listener(event));
+    } catch (error) {
+      console.error("Invalid live update:", error);
+    }
+  };
+
+  ws.onclose = () => {
+    if (socket === ws) socket = null;
+    scheduleReconnect();
+  };
+}
+
+function disconnect(): void {
+  if (reconnectTimer) {
+    clearTimeout(reconnectTimer);
+    reconnectTimer = null;
+  }
+  socket?.close();
+  socket = null;
+  reconnectAttempts = 0;
+}
+
+/**
+ * Listen to a live channel; returns the unsubscribe function
+ */
+export function subscribeLive(channel: string, listener: LiveListener): () => void {
+  let channelListeners = listeners.get(channel);
+  if (!channelListeners) {
+    channelListeners = new Set();
+    listeners.set(channel, channelListeners);
+    send({ action: "subscribe", channels: [channel] });
+  }
+  channelListeners.add(listener);
+  connect();
+
+  return () => {
+    const current = listeners.get(channel);
+    if (!current) return;
+
+    current.delete(listener);
+    if (current.size === 0) {
+      listeners.delete(channel);
+      send({ action: "unsubscribe", channels: [channel] });
+    }
+    if (listeners.size === 0) disconnect();
+  };
+}
@@ -1,6 +1,7 @@
 /**
  * Sponsored transaction utilities for Movement network
- * Supports both Privy embedded wallets and native Aptos wallets via Shinami Gas Station
+ * Supports both Privy embedded wallets and native Aptos wallets; the server's
+ * per-network sponsor provider pays the gas and submits the transaction
  */
 
 import {
@@ -251,7 +252,7 @@ export async function checkSponsorshipAvailability(
     );
     const result = await response.json();
     return {
-      available: result.success && result.remaining > 0,
+      available: result.success && result.provider !== null && result.remaining > 0,
       dailyUsed: result.dailyUsed || 0,
       dailyLimit: result.dailyLimit || 50,
     };
@@ -0,0 +1,141 @@
+/**
+ * Swap routing across registered pools
+ * Quotes every direct and two-hop path between two tokens with the pools'
+ * own constant-product formula and picks the one with the largest output.
+ */
+
+import { ZERO_AMOUNT, applySlippage, getAmountOut, getPriceImpactBps, BPS_DENOMINATOR, type Amount } from "@shared/schema";
+import type { RegisteredPool } from "./token-registry";
+
+// A pool with its reserves read from get_pool_info
+export interface PoolState {
+  pool: RegisteredPool;
+  reserveA: Amount;
+  reserveB: Amount;
+  feeBps: number;
+}
+
+export interface RouteHop {
+  pool: RegisteredPool;
+  tokenIn: string;
+  tokenOut: string;
+  sellsTokenA: boolean; // swap_pulse_to_stable when true, swap_stable_to_pulse otherwise
+  amountIn: Amount;
+  amountOut: Amount;
+  priceImpactBps: number;
+}
+
+export interface SwapRoute {
+  path: string[]; // Token symbols, e.g. ["MOVE", "PULSE", "USDC"]
+  hops: RouteHop[];
+  amountIn: Amount;
+  amountOut: Amount;
+  priceImpactBps: number; // Compounded over the hops
+}
+
+const MAX_HOPS = 2;
+
+function quoteHop(state: PoolState, tokenIn: string, amountIn: Amount): RouteHop | null {
+  const { pool } = state;
+  const sellsTokenA = pool.tokenA === tokenIn;
+  if (!sellsTokenA && pool.tokenB !== tokenIn) return null;
+
+  const [reserveIn, reserveOut] = sellsTokenA ? [state.reserveA, state.reserveB] : [state.reserveB, state.reserveA];
+  const amountOut = getAmountOut(amountIn, reserveIn, reserveOut, state.feeBps);
+  if (amountOut <= ZERO_AMOUNT) return null;
+
+  return {
+    pool,
+    tokenIn,
+    tokenOut: sellsTokenA ? pool.tokenB : pool.tokenA,
+    sellsTokenA,
+    amountIn,
+    amountOut,
+    priceImpactBps: getPriceImpactBps(amountIn, reserveIn, reserveOut, state.feeBps),
+  };
+}
+
+function toRoute(hops: RouteHop[]): SwapRoute {
+  // Impacts compound: each hop keeps (1 - impact) of the previous hop's price
+  const kept = hops.reduce((product, hop) => product * (1 - hop.priceImpactBps / BPS_DENOMINATOR), 1);
+  return {
+    path: [hops[0].tokenIn, ...hops.map((hop) => hop.tokenOut)],
+    hops,
+    amountIn: hops[0].amountIn,
+    amountOut: hops[hops.length - 1].amountOut,
+    priceImpactBps: Math.round((1 - kept) * BPS_DENOMINATOR),
+  };
+}
+
+/**
+ * Every route from tokenIn to tokenOut of at most two hops, best output first
+ * A route never passes through the same token twice.
+ */
+export function findRoutes(pools: PoolState[], tokenIn: string, tokenOut: string, amountIn: Amount): SwapRoute[] {
+  if (tokenIn === tokenOut || amountIn <= ZERO_AMOUNT) return [];
+
+  const routes: SwapRoute[] = [];
+  const extend = (hops: RouteHop[], visited: Set<string>) => {
+    const last = hops[hops.length - 1];
+    if (last.tokenOut === tokenOut) {
+      routes.push(toRoute(hops));
+      return;
+    }
+    if (hops.length >= MAX_HOPS) return;
+
+    for (const state of pools) {
+      if (state.pool === last.pool) continue;
+      const hop = quoteHop(state, last.tokenOut, last.amountOut);
+      if (hop && !visited.has(hop.tokenOut)) {
+        extend([...hops, hop], new Set(Array.from(visited).concat(hop.tokenOut)));
+      }
+    }
+  };
+
+  for (const state of pools) {
+    const hop = quoteHop(state, tokenIn, amountIn);
+    if (hop) extend([hop], new Set([tokenIn, hop.tokenOut]));
+  }
+
+  // Ties go to the shorter route (fewer transactions to sign)
+  return routes.sort((a, b) =>
+    a.amountOut === b.amountOut ? a.hops.length - b.hops.length : a.amountOut > b.amountOut ? -1 : 1
+  );
+}
+
+/**
+ * The route with the largest output, or null when the tokens aren't connected
+ */
+export function findBestRoute(
+  pools: PoolState[],
+  tokenIn: string,
+  tokenOut: string,
+  amountIn: Amount
+): SwapRoute | null {
+  return findRoutes(pools, tokenIn, tokenOut, amountIn)[0] ?? null;
+}
+
+/**
+ * Quote the same hops again from fresh reserves, starting with amountIn
+ * Returns null when one of the pools is gone or a hop would deliver nothing.
+ */
+export function requoteHops(pools: PoolState[], hops: RouteHop[], amountIn: Amount): SwapRoute | null {
+  const requoted: RouteHop[] = [];
+  let amount = amountIn;
+  for (const hop of hops) {
+    const state = pools.find((candidate) => candidate.pool.address === hop.pool.address);
+    const quoted = state ? quoteHop(state, hop.tokenIn, amount) : null;
+    if (!quoted) return null;
+    requoted.push(quoted);
+    amount = quoted.amountOut;
+  }
+  return requoted.length > 0 ? toRoute(requoted) : null;
+}
+
+/**
+ * The least each hop may deliver under the slippage tolerance
+ * The last hop's minimum is the whole route's, so tolerance never compounds across hops.
+ */
+export function getHopMinimums(route: SwapRoute, slippageBps: number): Amount[] {
+  return route.hops.map((hop) => applySlippage(hop.amountOut, slippageBps));
+}
@@ -0,0 +1,163 @@
+/**
+ * Token and pool registry for swaps
+ * Built-in entries come from the same VITE_* addresses as lib/tokens.ts (MOVE,
+ * PULSE, USDC and the PULSE/USDC pool). VITE_TOKEN_REGISTRY adds or overrides
+ * entries with JSON of the form:
+ *
+ *   {
+ *     "tokens": [{ "symbol": "WETH", "name": "Wrapped Ether", "decimals": 8,
+ *                  "metadataAddress": "0x...", "icon": "https://...", "network": "mainnet" }],
+ *     "pools": [{ "address": "0x...", "tokenA": "MOVE", "tokenB": "PULSE", "network": "mainnet" }]
+ *   }
+ *
+ * Every pool is a deployment of the swap module. tokenA is the side its
+ * functions call "pulse" (swap_pulse_to_stable sells it) and tokenB the "stable" side.
+ * A configured pool is only routed through once its on-chain pulse/stable
+ * metadata match the registered tokens (see poolMatchesMetadata).
+ */
+
+import {
+  COIN_TYPES,
+  getCoinDecimals,
+  getCoinName,
+  getCoinSymbol,
+  getFAMetadataAddress,
+  getSwapContractAddress,
+  type CoinTypeId,
+} from "./tokens";
+
+type Network = "testnet" | "mainnet";
+
+export interface RegisteredToken {
+  symbol: string;
+  name: string;
+  decimals: number;
+  metadataAddress: string; // Fungible asset metadata object
+  icon?: string;
+  network: Network;
+  coinTypeId?: CoinTypeId; // Set for tokens polls can pay out in
+}
+
+export interface RegisteredPool {
+  address: string; // Swap module deployment
+  tokenA: string; // Symbol of the "pulse" side
+  tokenB: string; // Symbol of the "stable" side
+  network: Network;
+}
+
+interface RegistryConfig {
+  tokens?: RegisteredToken[];
+  pools?: RegisteredPool[];
+}
+
+const NETWORKS: Network[] = ["testnet", "mainnet"];
+
+// MOVE's paired fungible asset; the swap module moves tokens through primary stores
+const MOVE_FA_METADATA_ADDRESS = "0xa";
+
+function builtInToken(coinTypeId: CoinTypeId, network: Network): RegisteredToken {
+  return {
+    symbol: getCoinSymbol(coinTypeId),
+    name: getCoinName(coinTypeId),
+    decimals: getCoinDecimals(coinTypeId),
+    metadataAddress:
+      coinTypeId === COIN_TYPES.MOVE ? MOVE_FA_METADATA_ADDRESS : getFAMetadataAddress(coinTypeId, network),
+    network,
+    coinTypeId,
+  };
+}
+
+function readConfig(): RegistryConfig {
+  const raw = import.meta.env.VITE_TOKEN_REGISTRY;
+  if (!raw) return {};
+  try {
+    return JSON.parse(raw) as RegistryConfig;
+  } catch (error) {
+    console.warn("VITE_TOKEN_REGISTRY is not valid JSON, using built-in tokens only:", error);
+    return {};
+  }
+}
+
+function buildRegistry(): { tokens: RegisteredToken[]; pools: RegisteredPool[] } {
+  const config = readConfig();
+  const tokens = new Map<string, RegisteredToken>();
+  const pools = new Map<string, RegisteredPool>();
+
+  for (const network of NETWORKS) {
+    for (const coinTypeId of Object.values(COIN_TYPES)) {
+      const token = builtInToken(coinTypeId, network);
+      tokens.set(`${network}:${token.symbol}`, token);
+    }
+
+    const swapAddress = getSwapContractAddress(network);
+    if (swapAddress) {
+      pools.set(`${network}:${swapAddress.toLowerCase()}`, {
+        address: swapAddress,
+        tokenA: "PULSE",
+        tokenB: "USDC",
+        network,
+      });
+    }
+  }
+
+  for (const token of config.tokens ?? []) {
+    const key = `${token.network}:${token.symbol}`;
+    tokens.set(key, { ...tokens.get(key), ...token });
+  }
+  for (const pool of config.pools ?? []) {
+    pools.set(`${pool.network}:${pool.address.toLowerCase()}`, pool);
+  }
+
+  return { tokens: Array.from(tokens.values()), pools: Array.from(pools.values()) };
+}
+
+const REGISTRY = buildRegistry();
+
+/**
+ * Tokens available on a network (those with a metadata address configured)
+ */
+export function getRegisteredTokens(network: Network): RegisteredToken[] {
+  return REGISTRY.tokens.filter((token) => token.network === network && !!token.metadataAddress);
+}
+
+export function getRegisteredToken(network: Network, symbol: string): RegisteredToken | undefined {
+  return getRegisteredTokens(network).find((token) => token.symbol === symbol);
+}
+
+/**
+ * Pools on a network; pools referencing unknown symbols are skipped
+ */
+export function getRegisteredPools(network: Network): RegisteredPool[] {
+  const symbols = new Set(getRegisteredTokens(network).map((token) => token.symbol));
+  return REGISTRY.pools.filter(
+    (pool) => pool.network === network && symbols.has(pool.tokenA) && symbols.has(pool.tokenB)
+  );
+}
+
+/**
+ * Tokens that appear in at least one pool, i.e. can be swapped
+ */
+export function getSwappableTokens(network: Network): RegisteredToken[] {
+  const pooled = new Set(getRegisteredPools(network).flatMap((pool) => [pool.tokenA, pool.tokenB]));
+  return getRegisteredTokens(network).filter((token) => pooled.has(token.symbol));
+}
+
+// Compare addresses regardless of leading zeros ("0xa" and "0x00…0a" are the same)
+function normalizeAddress(address: string): string {
+  return `0x${address.toLowerCase().replace(/^0x/, "").replace(/^0+/, "")}`;
+}
+
+/**
+ * Whether a pool's on-chain metadata (get_pulse_metadata / get_stable_metadata)
+ * are the registered tokens' metadata addresses, in the configured order
+ */
+export function poolMatchesMetadata(pool: RegisteredPool, pulseMetadata: string, stableMetadata: string): boolean {
+  const tokenA = getRegisteredToken(pool.network, pool.tokenA);
+  const tokenB = getRegisteredToken(pool.network, pool.tokenB);
+  return (
+    !!tokenA &&
+    !!tokenB &&
+    normalizeAddress(tokenA.metadataAddress) === normalizeAddress(pulseMetadata) &&
+    normalizeAddress(tokenB.metadataAddress) === normalizeAddress(stableMetadata)
+  );
+}
@@ -0,0 +1,211 @@
+/**
+ * Wallet session management
+ * Signs a server-issued nonce with the connected wallet and keeps the resulting
+ * short-lived session token fresh. The token is attached to authenticated /api writes.
+ * Sessions are scoped to the network they were signed in on, so switching networks
+ * signs in again rather than reusing the other network's token.
+ */
+
+export interface SignInSignature {
+  publicKey: string;
+  signature: string;
+  fullMessage: string; // Exact message the wallet signed
+}
+
+export type SignInSigner = (message: string, nonce: string) => Promise<SignInSignature>;
+
+type SessionNetwork = "testnet" | "mainnet";
+
+interface StoredSession {
+  address: string;
+  network: SessionNetwork;
+  token: string;
+  expiresAt: number;
+}
+
+const STORAGE_PREFIX = "mvpulse-session:";
+const REFRESH_MARGIN_MS = 5 * 60 * 1000; // Refresh 5 minutes before expiry
+
+let activeSession: StoredSession | null = null;
+let refreshTimer: ReturnType<typeof setTimeout> | null = null;
+// Keyed by sessionKey(address, network)
+const pendingSignIns = new Map<string, Promise<StoredSession | null>>();
+// Wallets whose sign-in was rejected this page session (don't re-prompt automatically)
+const declinedAddresses = new Set<string>();
+
+function sessionKey(address: string, network: SessionNetwork): string {
+  return `${network}:${address}`;
+}
+
+function loadStoredSession(address: string, network: SessionNetwork): StoredSession | null {
+  if (typeof window === "undefined") return null;
+  try {
+    const raw = localStorage.getItem(STORAGE_PREFIX + sessionKey(address, network));
+    if (!raw) return null;
+    const session = JSON.parse(raw) as StoredSession;
+    return session.expiresAt > Date.now() ? session : null;
+  } catch {
+    return null;
+  }
+}
+
+function scheduleRefresh(session: StoredSession): void {
+  if (refreshTimer) clearTimeout(refreshTimer);
+  const delay = Math.max(session.expiresAt - Date.now() - REFRESH_MARGIN_MS, 0);
+  refreshTimer = setTimeout(() => {
+    refreshWalletSession().catch((error) => {
+      console.error("Failed to refresh wallet session:", error);
+    });
+  }, delay);
+}
+
+function storeSession(session: StoredSession): void {
+  activeSession = session;
+  localStorage.setItem(STORAGE_PREFIX + sessionKey(session.address, session.network), JSON.stringify(session));
+  scheduleRefresh(session);
+}
+
+/**
+ * Get the current session token, if any
+ */
+export function getSessionToken(): string | null {
+  if (!activeSession || activeSession.expiresAt <= Date.now()) return null;
+  return activeSession.token;
+}
+
+/**
+ * Authorization headers for authenticated API requests
+ */
+export function getAuthHeaders(): Record<string, string> {
+  const token = getSessionToken();
+  return token ? { Authorization: `Bearer ${token}` } : {};
+}
+
+/**
+ * Drop the session for an address on a network (or the active one) e.g. on disconnect
+ */
+export function clearWalletSession(address?: string, network?: SessionNetwork): void {
+  const targetAddress = address?.toLowerCase() ?? activeSession?.address;
+  const targetNetwork = network ?? activeSession?.network;
+  if (!targetAddress || !targetNetwork) return;
+  const target = sessionKey(targetAddress, targetNetwork);
+  localStorage.removeItem(STORAGE_PREFIX + target);
+  declinedAddresses.delete(target);
+  if (activeSession && sessionKey(activeSession.address, activeSession.network) === target) {
+    activeSession = null;
+    if (refreshTimer) clearTimeout(refreshTimer);
+    refreshTimer = null;
+  }
+}
+
+/**
+ * Exchange the active session token for a fresh one
+ */
+export async function refreshWalletSession(): Promise<void> {
+  const current = activeSession;
+  if (!current) return;
+
+  const response = await fetch("/api/auth/refresh", {
+    method: "POST",
+    headers: { Authorization: `Bearer ${current.token}` },
+    credentials: "include",
+  });
+
+  if (!response.ok) {
+    clearWalletSession(current.address, current.network);
+    return;
+  }
+
+  const result = await response.json();
+  storeSession({
+    address: current.address,
+    network: current.network,
+    token: result.data.token,
+    expiresAt: result.data.expiresAt,
+  });
+}
+
+async function signIn(
+  address: string,
+  network: SessionNetwork,
+  signer: SignInSigner
+): Promise<StoredSession | null> {
+  const nonceResponse = await fetch("/api/auth/nonce", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    credentials: "include",
+    body: JSON.stringify({ address, network }),
+  });
+
+  if (!nonceResponse.ok) {
+    throw new Error(`Failed to get sign-in nonce: ${nonceResponse.statusText}`);
+  }
+
+  const { data: challenge } = await nonceResponse.json();
+  const signed = await signer(challenge.message, challenge.nonce);
+
+  const verifyResponse = await fetch("/api/auth/verify", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    credentials: "include",
+    body: JSON.stringify({ address, nonce: challenge.nonce, ...signed }),
+  });
+
+  if (!verifyResponse.ok) {
+    const errorData = await verifyResponse.json().catch(() => ({}));
+    throw new Error(errorData.error || `Sign-in failed: ${verifyResponse.statusText}`);
+  }
+
+  const { data } = await verifyResponse.json();
+  return { address, network, token: data.token, expiresAt: data.expiresAt };
+}
+
+/**
+ * Make sure the given wallet has a valid session, signing in if needed
+ * Concurrent callers for the same address share one sign-in request.
+ */
+export async function ensureWalletSession(
+  address: string,
+  network: SessionNetwork,
+  signer: SignInSigner
+): Promise<string | null> {
+  const normalizedAddress = address.toLowerCase();
+  const key = sessionKey(normalizedAddress, network);
+
+  if (
+    activeSession?.address === normalizedAddress &&
+    activeSession.network === network &&
+    activeSession.expiresAt > Date.now()
+  ) {
+    return activeSession.token;
+  }
+
+  const stored = loadStoredSession(normalizedAddress, network);
+  if (stored) {
+    storeSession(stored);
+    return stored.token;
+  }
+
+  if (declinedAddresses.has(key)) return null;
+
+  let pending = pendingSignIns.get(key);
+  if (!pending) {
+    pending = signIn(normalizedAddress, network, signer)
+      .catch((error) => {
+        console.warn("Wallet sign-in failed:", error);
+        declinedAddresses.add(key);
+        return null;
+      })
+      .finally(() => {
+        pendingSignIns.delete(key);
+      });
+    pendingSignIns.set(key, pending);
+  }
+
+  const session = await pending;
+  if (session) {
+    storeSession(session);
+    return session.token;
+  }
+  return null;
+}
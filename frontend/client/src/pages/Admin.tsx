@@ -25,15 +25,18 @@ import { useContract } from "@/hooks/useContract";
 import { usePollCount } from "@/hooks/usePolls";
 import { useNetwork } from "@/contexts/NetworkContext";
 import { WalletSelectionModal } from "@/components/WalletSelectionModal";
+import { RoleManagement } from "@/components/RoleManagement";
+import { SponsorshipDashboard } from "@/components/SponsorshipDashboard";
 import {
   isIndexerOptimizationEnabled,
   setIndexerOptimizationEnabled,
   FEATURE_FLAGS,
 } from "@/lib/feature-flags";
 import type { PlatformConfig } from "@/types/poll";
+import { formatBalance } from "@/lib/balance";
 
 export default function Admin() {
-  const { isAdmin, isConnected, address, adminAddresses } = useAdmin();
+  const { isAdmin, isConnected, address, isLoading: rolesLoading } = useAdmin();
   const { getPlatformConfig, contractAddress } = useContract();
   const { data: pollCount, isLoading: pollCountLoading } = usePollCount();
   const { network } = useNetwork();
@@ -124,6 +127,16 @@ export default function Admin() {
     );
   }
 
+  // Checking roles
+  if (rolesLoading) {
+    return (
+      <div className="container max-w-4xl mx-auto px-4 py-8 space-y-4">
+        <Skeleton className="h-10 w-72" />
+        <Skeleton className="h-40 w-full" />
+      </div>
+    );
+  }
+
   // Not admin state
   if (!isAdmin) {
     return (
@@ -255,7 +268,7 @@ export default function Admin() {
                 <div>
                   <p className="font-medium">Total Fees Collected</p>
                   <p className="text-sm text-muted-foreground">
-                    {(platformConfig.totalFeesCollected / 1e8).toFixed(4)} MOVE
+                    {formatBalance(platformConfig.totalFeesCollected)} MOVE
                   </p>
                 </div>
               </div>
@@ -318,42 +331,11 @@ export default function Admin() {
         </CardContent>
       </Card>
 
-      {/* Admin Addresses */}
-      <Card>
-        <CardHeader>
-          <CardTitle className="flex items-center gap-2">
-            <ShieldCheck className="w-5 h-5" />
-            Admin Addresses
-          </CardTitle>
-          <CardDescription>
-            Wallet addresses with admin access to this page
-          </CardDescription>
-        </CardHeader>
-        <CardContent>
-          <div className="space-y-2">
-            {adminAddresses.length === 0 ? (
-              <p className="text-sm text-muted-foreground">No admin addresses configured</p>
-            ) : (
-              adminAddresses.map((addr, i) => (
-                <div
-                  key={addr}
-                  className="flex items-center justify-between p-3 rounded-lg bg-muted/50 border"
-                >
-                  <span className="font-mono text-sm">{addr}</span>
-                  {addr === address?.toLowerCase() && (
-                    <Badge variant="outline" className="text-green-500 border-green-500/50">
-                      You
-                    </Badge>
-                  )}
-                </div>
-              ))
-            )}
-          </div>
-          <p className="text-xs text-muted-foreground mt-4">
-            To add or remove admins, update the <code className="bg-muted px-1 rounded">VITE_ADMIN_ADDRESSES</code> environment variable.
-          </p>
-        </CardContent>
-      </Card>
+      {/* Gas Sponsorship */}
+      <SponsorshipDashboard />
+
+      {/* Role Management */}
+      <RoleManagement currentAddress={address} />
     </div>
   );
 }
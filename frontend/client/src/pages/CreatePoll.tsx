@@ -9,12 +9,15 @@ import { Plus, Trash2, Sparkles, ArrowRight, ArrowLeft, Check, Loader2, Wallet,
 import { useState, useMemo, useEffect } from "react";
 import { useLocation, useSearch } from "wouter";
 import { useContract } from "@/hooks/useContract";
+import { useReportQuestAction } from "@/hooks/useQuests";
+import { QUEST_ACTIONS, ZERO_AMOUNT, calculateGrossAmount, calculateNetAmount } from "@shared/schema";
 import { useWalletConnection } from "@/hooks/useWalletConnection";
 import { useNetwork } from "@/contexts/NetworkContext";
 import { toast } from "sonner";
 import { cn } from "@/lib/utils";
-import { REWARD_TYPE, PLATFORM_FEE_BPS, calculatePlatformFee, calculateNetAmount } from "@/types/poll";
-import { COIN_TYPES, getCoinSymbol, CoinTypeId } from "@/lib/tokens";
+import { REWARD_TYPE, PLATFORM_FEE_BPS } from "@/types/poll";
+import { COIN_TYPES, getCoinSymbol, getCoinDecimals, CoinTypeId } from "@/lib/tokens";
+import { formatBalance, parseInputAmount, toTokenAmount } from "@/lib/balance";
 import { TransactionConfirmationDialog } from "@/components/TransactionConfirmationDialog";
 import { showTransactionSuccessToast, showTransactionErrorToast } from "@/lib/transaction-feedback";
 
@@ -45,6 +48,7 @@ export default function CreatePoll() {
   const searchString = useSearch();
   const { isConnected, isPrivyWallet } = useWalletConnection();
   const { createPoll, loading } = useContract();
+  const reportQuestAction = useReportQuestAction();
   const { config } = useNetwork();
 
   // Confirmation dialog state for Privy wallets
@@ -107,51 +111,47 @@ export default function CreatePoll() {
     }
   }, [searchString]);
 
-  // Calculated values
+  // Calculated values, in the selected token's smallest units
+  const tokenDecimals = getCoinDecimals(selectedToken);
   const calculations = useMemo(() => {
-    const feePercent = PLATFORM_FEE_BPS / 100;
-
     if (rewardType === REWARD_TYPE.FIXED_PER_VOTE) {
-      const reward = parseFloat(rewardPerVoter) || 0;
+      const reward = parseInputAmount(rewardPerVoter, tokenDecimals) ?? ZERO_AMOUNT;
       const target = parseInt(targetResponders) || 0;
-      const netAmount = reward * target;
-      const grossAmount = netAmount > 0 ? Math.ceil((netAmount * 10000) / (10000 - PLATFORM_FEE_BPS) * 1e8) / 1e8 : 0;
-      const fee = grossAmount - netAmount;
+      const netAmount = reward * BigInt(target);
+      const grossAmount = calculateGrossAmount(netAmount, PLATFORM_FEE_BPS);
 
       return {
         grossAmount,
-        fee,
+        fee: grossAmount - netAmount,
         netAmount,
         rewardPerVoter: reward,
         maxVoters: target,
-        isValid: reward > 0 && target > 0,
+        isValid: reward > ZERO_AMOUNT && target > 0,
       };
     } else if (rewardType === REWARD_TYPE.EQUAL_SPLIT) {
-      const gross = parseFloat(totalFund) || 0;
+      const gross = parseInputAmount(totalFund, tokenDecimals) ?? ZERO_AMOUNT;
       const max = parseInt(maxResponders) || 0;
-      const fee = calculatePlatformFee(gross * 1e8) / 1e8;
-      const net = calculateNetAmount(gross * 1e8) / 1e8;
-      const perVoter = max > 0 ? net / max : 0;
+      const net = calculateNetAmount(gross, PLATFORM_FEE_BPS);
 
       return {
         grossAmount: gross,
-        fee,
+        fee: gross - net,
         netAmount: net,
-        rewardPerVoter: perVoter,
+        rewardPerVoter: max > 0 ? net / BigInt(max) : ZERO_AMOUNT,
         maxVoters: max,
-        isValid: gross > 0 && max > 0,
+        isValid: gross > ZERO_AMOUNT && max > 0,
       };
     }
 
     return {
-      grossAmount: 0,
-      fee: 0,
-      netAmount: 0,
-      rewardPerVoter: 0,
+      grossAmount: ZERO_AMOUNT,
+      fee: ZERO_AMOUNT,
+      netAmount: ZERO_AMOUNT,
+      rewardPerVoter: ZERO_AMOUNT,
       maxVoters: 0,
       isValid: true, // No incentives is valid
     };
-  }, [rewardType, rewardPerVoter, targetResponders, totalFund, maxResponders]);
+  }, [rewardType, rewardPerVoter, targetResponders, totalFund, maxResponders, tokenDecimals]);
 
   const addOption = () => setOptions([...options, ""]);
   const removeOption = (index: number) => setOptions(options.filter((_, i) => i !== index));
@@ -204,20 +204,19 @@ export default function CreatePoll() {
 
       // For fixed mode: reward_per_vote > 0, max_voters = target
       // For equal split: reward_per_vote = 0, max_voters = max responders
-      const rewardPerVoteOctas = rewardType === REWARD_TYPE.FIXED_PER_VOTE
-        ? Math.floor(calculations.rewardPerVoter * 1e8)
-        : 0;
+      const rewardPerVote = rewardType === REWARD_TYPE.FIXED_PER_VOTE
+        ? calculations.rewardPerVoter
+        : ZERO_AMOUNT;
       const maxVoters = calculations.maxVoters;
-      const fundAmountOctas = Math.floor(calculations.grossAmount * 1e8);
 
       const result = await createPoll({
         title: title.trim(),
         description: description.trim(),
         options: validOptions,
-        rewardPerVote: rewardPerVoteOctas,
+        rewardPerVote,
         maxVoters,
         durationSecs: DURATION_OPTIONS[duration],
-        fundAmount: fundAmountOctas,
+        fundAmount: calculations.grossAmount,
         coinTypeId: selectedToken,
       });
 
@@ -228,6 +227,7 @@ export default function CreatePoll() {
         config.explorerUrl,
         result.sponsored
       );
+      reportQuestAction(QUEST_ACTIONS.CREATE_POLL, result.hash);
 
       // Navigate to dashboard after success
       setTimeout(() => setLocation("/dashboard"), 1500);
@@ -264,7 +264,7 @@ export default function CreatePoll() {
     console.log("Form validated, creating poll...");
 
     // If Privy wallet + has incentives, show confirmation dialog first
-    if (isPrivyWallet && calculations.grossAmount > 0) {
+    if (isPrivyWallet && calculations.grossAmount > ZERO_AMOUNT) {
       setShowConfirmation(true);
       return;
     }
@@ -633,19 +633,19 @@ export default function CreatePoll() {
                   <div className="grid grid-cols-2 gap-2 text-sm">
                     <div className="flex justify-between">
                       <span className="text-muted-foreground">Total Deposit:</span>
-                      <span className="font-mono font-medium">{calculations.grossAmount.toFixed(4)} {getCoinSymbol(selectedToken)}</span>
+                      <span className="font-mono font-medium">{formatBalance(calculations.grossAmount, tokenDecimals)} {getCoinSymbol(selectedToken)}</span>
                     </div>
                     <div className="flex justify-between">
                       <span className="text-muted-foreground">Platform Fee ({PLATFORM_FEE_BPS / 100}%):</span>
-                      <span className="font-mono text-destructive">-{calculations.fee.toFixed(4)} {getCoinSymbol(selectedToken)}</span>
+                      <span className="font-mono text-destructive">-{formatBalance(calculations.fee, tokenDecimals)} {getCoinSymbol(selectedToken)}</span>
                     </div>
                     <div className="flex justify-between">
                       <span className="text-muted-foreground">Net Reward Pool:</span>
-                      <span className="font-mono font-medium text-green-600">{calculations.netAmount.toFixed(4)} {getCoinSymbol(selectedToken)}</span>
+                      <span className="font-mono font-medium text-green-600">{formatBalance(calculations.netAmount, tokenDecimals)} {getCoinSymbol(selectedToken)}</span>
                     </div>
                     <div className="flex justify-between">
                       <span className="text-muted-foreground">Per voter:</span>
-                      <span className="font-mono font-medium">~{calculations.rewardPerVoter.toFixed(4)} {getCoinSymbol(selectedToken)}</span>
+                      <span className="font-mono font-medium">~{formatBalance(calculations.rewardPerVoter, tokenDecimals)} {getCoinSymbol(selectedToken)}</span>
                     </div>
                   </div>
                   <div className="pt-2 border-t border-accent/20 text-xs text-muted-foreground">
@@ -701,11 +701,11 @@ export default function CreatePoll() {
         isLoading={isExecuting}
         title="Confirm Poll Creation"
         description="Create poll with voter incentives"
-        amount={calculations.grossAmount}
+        amount={toTokenAmount(calculations.grossAmount, selectedToken)}
         tokenSymbol={getCoinSymbol(selectedToken)}
         details={[
-          { label: "Reward Pool", value: `${calculations.netAmount.toFixed(4)} ${getCoinSymbol(selectedToken)}` },
-          { label: "Platform Fee", value: `${calculations.fee.toFixed(4)} ${getCoinSymbol(selectedToken)}` },
+          { label: "Reward Pool", value: `${formatBalance(calculations.netAmount, tokenDecimals)} ${getCoinSymbol(selectedToken)}` },
+          { label: "Platform Fee", value: `${formatBalance(calculations.fee, tokenDecimals)} ${getCoinSymbol(selectedToken)}` },
           { label: "Max Voters", value: calculations.maxVoters.toString() },
         ]}
       />
@@ -5,22 +5,25 @@ import { Button } from "@/components/ui/button";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Card, CardContent } from "@/components/ui/card";
-import { Plus, Filter, Search, RefreshCcw, AlertCircle } from "lucide-react";
-import { Input } from "@/components/ui/input";
+import { Plus, RefreshCcw, AlertCircle, Loader2 } from "lucide-react";
+import { SearchBar, SearchFilterPanel } from "@/components/search";
 import { useContract } from "@/hooks/useContract";
+import { usePolls } from "@/hooks/usePolls";
+import { usePollSearch, EMPTY_SEARCH_FILTERS, type SearchFilters } from "@/hooks/useSearch";
 import { useWalletConnection } from "@/hooks/useWalletConnection";
 import type { PollWithMeta } from "@/types/poll";
 import { getCoinSymbol, type CoinTypeId } from "@/lib/tokens";
+import { formatBalanceWithSymbol, toTokenAmount } from "@/lib/balance";
+import { ZERO_AMOUNT, type Amount } from "@shared/schema";
 
 export default function Dashboard() {
   const [location] = useLocation();
   const { isConnected, address } = useWalletConnection();
-  const { getAllPolls, getPollCount, contractAddress } = useContract();
+  const { contractAddress } = useContract();
 
   const [role, setRole] = useState<"creator" | "participant">("creator");
-  const [polls, setPolls] = useState<PollWithMeta[]>([]);
-  const [isLoading, setIsLoading] = useState(true);
-  const [searchQuery, setSearchQuery] = useState("");
+  const [tab, setTab] = useState<"active" | "completed">("active");
+  const [filters, setFilters] = useState<SearchFilters>(EMPTY_SEARCH_FILTERS);
 
   useEffect(() => {
     const params = new URLSearchParams(window.location.search);
@@ -28,78 +31,63 @@ export default function Dashboard() {
     if (roleParam === "participant") setRole("participant");
   }, [location]);
 
-  // Fetch all polls
-  const fetchPolls = useCallback(async () => {
-    if (!contractAddress) {
-      setIsLoading(false);
-      return;
-    }
-
-    setIsLoading(true);
-    try {
-      const allPolls = await getAllPolls();
-      // Sort by ID descending (newest first)
-      setPolls(allPolls.sort((a, b) => b.id - a.id));
-    } catch (error) {
-      console.error("Failed to fetch polls:", error);
-    } finally {
-      setIsLoading(false);
-    }
-  }, [getAllPolls, contractAddress]);
+  // All polls in scope (for stats and tab counts)
+  const creatorFilter = role === "creator" ? address ?? undefined : undefined;
+  const { polls, isLoading: pollsLoading, refresh } = usePolls(
+    creatorFilter ? { creator: creatorFilter } : {}
+  );
+  const relevantPolls = useMemo(
+    () => (role === "creator" && !address ? [] : polls),
+    [role, address, polls]
+  );
+  const activePolls = useMemo(() => relevantPolls.filter((p) => p.isActive), [relevantPolls]);
+  const closedPolls = useMemo(() => relevantPolls.filter((p) => !p.isActive), [relevantPolls]);
 
-  useEffect(() => {
-    fetchPolls();
-  }, [fetchPolls]);
+  // Search results for the current tab
+  const searchFilters = useMemo(
+    () => ({ ...filters, creator: creatorFilter ?? filters.creator, active: tab === "active" }),
+    [filters, creatorFilter, tab]
+  );
+  const searchEnabled = !!contractAddress && (role !== "creator" || !!address);
+  const {
+    items: displayPolls,
+    facets,
+    isLoading: searchLoading,
+    hasNextPage,
+    isFetchingNextPage,
+    fetchNextPage,
+    refetch,
+  } = usePollSearch(searchFilters, searchEnabled);
 
-  // Filter polls by status and creator
-  const activePolls = polls.filter((p) => p.isActive);
-  const closedPolls = polls.filter((p) => !p.isActive);
+  const isLoading = pollsLoading || (searchEnabled && searchLoading);
 
-  // Filter by creator for creator view
-  const myPolls = polls.filter(
-    (p) => address && p.creator.toLowerCase() === address.toLowerCase()
-  );
-  const myActivePolls = myPolls.filter((p) => p.isActive);
-  const myClosedPolls = myPolls.filter((p) => !p.isActive);
+  const handleQueryChange = useCallback((q: string) => {
+    setFilters((prev) => ({ ...prev, q }));
+  }, []);
 
-  // Search filter
-  const filterBySearch = (pollList: PollWithMeta[]) => {
-    if (!searchQuery.trim()) return pollList;
-    const query = searchQuery.toLowerCase();
-    return pollList.filter(
-      (p) =>
-        p.title.toLowerCase().includes(query) ||
-        p.description.toLowerCase().includes(query)
-    );
+  const handleRefresh = () => {
+    refresh();
+    refetch();
   };
 
   // Calculate stats - group rewards by token type
   const stats = useMemo(() => {
-    const relevantPolls = role === "creator" ? myPolls : polls;
-    const rewardsByToken: Record<string, number> = {};
+    const rewardsByToken: Record<number, Amount> = {};
     relevantPolls.forEach((p) => {
-      const coinSymbol = getCoinSymbol(p.coin_type_id as CoinTypeId);
-      rewardsByToken[coinSymbol] = (rewardsByToken[coinSymbol] || 0) + (p.reward_pool / 1e8);
+      rewardsByToken[p.coin_type_id] = (rewardsByToken[p.coin_type_id] ?? ZERO_AMOUNT) + p.reward_pool;
     });
 
     return {
-      activePolls: role === "creator" ? myActivePolls.length : activePolls.length,
+      activePolls: activePolls.length,
       totalVotes: relevantPolls.reduce((sum, p) => sum + p.totalVotes, 0),
       rewardsByToken,
       pollCount: relevantPolls.length,
     };
-  }, [role, myPolls, polls, myActivePolls, activePolls]);
-
-  // Get the polls to display based on role
-  const getDisplayPolls = (tab: "active" | "completed") => {
-    const basePollsActive = role === "creator" ? myActivePolls : activePolls;
-    const basePollsClosed = role === "creator" ? myClosedPolls : closedPolls;
-    return filterBySearch(tab === "active" ? basePollsActive : basePollsClosed);
-  };
+  }, [relevantPolls, activePolls]);
 
   // Render poll card from PollWithMeta
   const renderPollCard = (poll: PollWithMeta) => {
-    const rewardPool = poll.reward_pool / 1e8;
+    const rewardPool = toTokenAmount(poll.reward_pool, poll.coin_type_id as CoinTypeId);
     const coinSymbol = getCoinSymbol(poll.coin_type_id as CoinTypeId);
     return (
       <PollCard
@@ -171,8 +159,8 @@ export default function Dashboard() {
             label: "Rewards Pool",
             value: isLoading ? "-" : (
               Object.keys(stats.rewardsByToken).length === 0 ? "0" :
-              Object.entries(stats.rewardsByToken).map(([token, amount]) =>
-                `${amount.toFixed(2)} ${token}`
+              Object.entries(stats.rewardsByToken).map(([coinTypeId, amount]) =>
+                formatBalanceWithSymbol(amount, Number(coinTypeId) as CoinTypeId, 2)
               ).join(" + ")
             ),
             change: "Total distributed",
@@ -195,17 +183,23 @@ export default function Dashboard() {
       </div>
 
       <div className="flex flex-col md:flex-row gap-4 items-center justify-between">
-        <div className="relative w-full md:w-96">
-          <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
-          <Input
-            placeholder="Search polls..."
-            className="pl-10 bg-muted/30"
-            value={searchQuery}
-            onChange={(e) => setSearchQuery(e.target.value)}
+        <div className="flex gap-2 w-full md:w-auto md:flex-1 md:max-w-2xl">
+          <SearchBar
+            value={filters.q}
+            onChange={handleQueryChange}
+            sort={filters.sort}
+            onSortChange={(sort) => setFilters((prev) => ({ ...prev, sort }))}
+          />
+          <SearchFilterPanel
+            kind="polls"
+            filters={filters}
+            facets={facets}
+            onChange={setFilters}
+            hiddenFacets={role === "creator" ? ["creator"] : []}
           />
         </div>
         <div className="flex gap-2 w-full md:w-auto">
-          <Button variant="outline" className="flex-1 md:flex-none" onClick={fetchPolls}>
+          <Button variant="outline" className="flex-1 md:flex-none" onClick={handleRefresh}>
             <RefreshCcw className="w-4 h-4 mr-2" /> Refresh
           </Button>
           {role === "creator" && (
@@ -230,13 +224,13 @@ export default function Dashboard() {
         </Card>
       )}
 
-      <Tabs defaultValue="active" className="w-full">
+      <Tabs value={tab} onValueChange={(v) => setTab(v as typeof tab)} className="w-full">
         <TabsList className="bg-muted/30">
           <TabsTrigger value="active">
-            Active ({role === "creator" ? myActivePolls.length : activePolls.length})
+            Active ({activePolls.length})
           </TabsTrigger>
           <TabsTrigger value="completed">
-            Completed ({role === "creator" ? myClosedPolls.length : closedPolls.length})
+            Completed ({closedPolls.length})
           </TabsTrigger>
         </TabsList>
 
@@ -247,12 +241,12 @@ export default function Dashboard() {
               <PollSkeleton />
               <PollSkeleton />
             </div>
-          ) : getDisplayPolls("active").length === 0 ? (
+          ) : displayPolls.length === 0 ? (
             <Card className="border-dashed">
               <CardContent className="flex flex-col items-center justify-center py-12">
                 <p className="text-muted-foreground mb-4">
                   {role === "creator"
-                    ? "You haven't created any active polls yet."
+                    ? filters.q ? "None of your active polls match your search." : "You haven't created any active polls yet."
                     : "No active polls found."}
                 </p>
                 {role === "creator" && (
@@ -265,9 +259,19 @@ export default function Dashboard() {
               </CardContent>
             </Card>
           ) : (
-            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-              {getDisplayPolls("active").map(renderPollCard)}
-            </div>
+            <>
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+                {displayPolls.map(renderPollCard)}
+              </div>
+              {hasNextPage && (
+                <div className="flex justify-center mt-6">
+                  <Button variant="outline" onClick={() => fetchNextPage()} disabled={isFetchingNextPage}>
+                    {isFetchingNextPage && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                    Load More
+                  </Button>
+                </div>
+              )}
+            </>
           )}
         </TabsContent>
 
@@ -278,16 +282,26 @@ export default function Dashboard() {
               <PollSkeleton />
               <PollSkeleton />
             </div>
-          ) : getDisplayPolls("completed").length === 0 ? (
+          ) : displayPolls.length === 0 ? (
             <Card className="border-dashed">
               <CardContent className="flex flex-col items-center justify-center py-12">
                 <p className="text-muted-foreground">No completed polls found.</p>
               </CardContent>
             </Card>
           ) : (
-            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-              {getDisplayPolls("completed").map(renderPollCard)}
-            </div>
+            <>
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+                {displayPolls.map(renderPollCard)}
+              </div>
+              {hasNextPage && (
+                <div className="flex justify-center mt-6">
+                  <Button variant="outline" onClick={() => fetchNextPage()} disabled={isFetchingNextPage}>
+                    {isFetchingNextPage && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                    Load More
+                  </Button>
+                </div>
+              )}
+            </>
           )}
         </TabsContent>
       </Tabs>
@@ -20,10 +20,15 @@ import { toast } from "sonner";
 import { useContract } from "@/hooks/useContract";
 import { useWalletConnection } from "@/hooks/useWalletConnection";
 import { useNetwork } from "@/contexts/NetworkContext";
+import { QUEST_ACTIONS, QUESTION_TYPES, usesOffChainBallot } from "@shared/schema";
 import { useVoteLimit } from "@/hooks/useVoteLimit";
-import { useSeason } from "@/hooks/useQuests";
+import { useSeason, useReportQuestAction } from "@/hooks/useQuests";
 import { useReferral } from "@/hooks/useReferral";
-import { truncateAddress } from "@/lib/contract";
+import { useLivePoll, applyLivePollState } from "@/hooks/useLiveUpdates";
+import { usePollQuestions, useRecordBallots } from "@/hooks/useQuestionTypes";
+import { QuestionBallotInput, QuestionResultsView } from "@/components/poll";
+import { getRewardPerVoter, truncateAddress } from "@/lib/contract";
+import { toTokenAmount } from "@/lib/balance";
 import { getCoinSymbol, CoinTypeId, COIN_TYPES } from "@/lib/tokens";
 import { showTransactionSuccessToast, showTransactionErrorToast } from "@/lib/transaction-feedback";
 import type { PollWithMeta } from "@/types/poll";
@@ -43,6 +48,7 @@ export default function PollDetails() {
     loading: contractLoading,
   } = useContract();
   const { config } = useNetwork();
+  const reportQuestAction = useReportQuestAction();
 
   // Vote limit tracking
   const {
@@ -66,6 +72,7 @@ export default function PollDetails() {
 
   const [poll, setPoll] = useState<PollWithMeta | null>(null);
   const [selectedOption, setSelectedOption] = useState<number | null>(null);
+  const [ballotSelections, setBallotSelections] = useState<number[]>([]);
   const [userHasVoted, setUserHasVoted] = useState(false);
   const [userHasClaimed, setUserHasClaimed] = useState(false);
   const [userVotedOption, setUserVotedOption] = useState<number | null>(null);
@@ -79,6 +86,13 @@ export default function PollDetails() {
 
   const pollId = id ? parseInt(id, 10) : null;
 
+  // Question type decides the voting input; only the first selection is voted on chain
+  const { getQuestion } = usePollQuestions(pollId !== null && !isNaN(pollId) ? [pollId] : []);
+  const recordBallots = useRecordBallots();
+  const question = getQuestion(pollId ?? -1);
+  const isSingleChoice = question.questionType === QUESTION_TYPES.SINGLE;
+  const voteOption = isSingleChoice ? selectedOption : ballotSelections[0] ?? null;
+
   // Fetch poll data and vote status
   const fetchPollData = useCallback(async () => {
     if (pollId === null || isNaN(pollId)) {
@@ -122,9 +136,26 @@ export default function PollDetails() {
     fetchPollData();
   }, [fetchPollData]);
 
+  // Apply pushed vote counts and status changes as they happen
+  const livePoll = useLivePoll(pollId);
+  useEffect(() => {
+    if (livePoll) {
+      setPoll((current) => current && applyLivePollState(current, livePoll));
+    }
+  }, [livePoll]);
+
+  // A claim lowers the remaining reward pool; reload the poll quietly
+  const lastClaim = livePoll?.lastClaim;
+  useEffect(() => {
+    if (!lastClaim || pollId === null) return;
+    getPoll(pollId)
+      .then((pollData) => pollData && setPoll(pollData))
+      .catch((error) => console.error("Failed to refresh poll:", error));
+  }, [lastClaim, pollId, getPoll]);
+
   // Handle vote submission
   const handleVote = async () => {
-    if (selectedOption === null || pollId === null) return;
+    if (voteOption === null || pollId === null) return;
 
     if (!isConnected) {
       toast.error("Please connect your wallet to vote");
@@ -141,7 +172,7 @@ export default function PollDetails() {
 
     setIsVoting(true);
     try {
-      const result = await vote({ pollId, optionIndex: selectedOption });
+      const result = await vote({ pollId, optionIndex: voteOption });
 
       showTransactionSuccessToast(
         result.hash,
@@ -152,17 +183,27 @@ export default function PollDetails() {
       );
 
       setUserHasVoted(true);
-      setUserVotedOption(selectedOption);
+      setUserVotedOption(voteOption);
+
+      // Keep the full multi-select / ranked ballot alongside the on-chain vote
+      if (usesOffChainBallot(question.questionType)) {
+        const recorded = await recordBallots(result.hash, [{ pollId, selections: ballotSelections }]);
+        if (!recorded) {
+          toast.warning("Your vote counted, but the rest of your ballot could not be saved", {
+            description: "Only your first choice was recorded.",
+          });
+        }
+      }
 
       // Record vote in backend for streak/quest tracking
       try {
-        const recordResult = await recordVote({ pollId, seasonId: season?.id });
+        const recordResult = await recordVote({ pollId, txHash: result.hash, seasonId: season?.id });
 
         // Show toast if any quests were completed
         if (recordResult.questsCompleted?.length > 0) {
           for (const quest of recordResult.questsCompleted) {
             toast.success(`Quest Completed: ${quest.questName}`, {
-              description: `+${quest.pointsAwarded} points!`,
+              description: `Claim +${quest.points} points on the Quests page`,
             });
           }
         }
@@ -215,6 +256,7 @@ export default function PollDetails() {
         config.explorerUrl,
         result.sponsored
       );
+      reportQuestAction(QUEST_ACTIONS.CLAIM_REWARD, result.hash);
       setUserHasClaimed(true);
       await fetchPollData();
     } catch (error) {
@@ -334,10 +376,9 @@ export default function PollDetails() {
     );
   }
 
-  const rewardPerVoteMove = poll.reward_per_vote / 1e8;
-  const rewardPoolMove = poll.reward_pool / 1e8;
+  const rewardPoolMove = toTokenAmount(poll.reward_pool, poll.coin_type_id as CoinTypeId);
   const estimatedRewardPerVoter = poll.totalVotes > 0
-    ? (poll.reward_per_vote > 0 ? rewardPerVoteMove : rewardPoolMove / poll.totalVotes)
+    ? toTokenAmount(getRewardPerVoter(poll), poll.coin_type_id as CoinTypeId)
     : 0;
 
   // Helper to get status label
@@ -462,7 +503,16 @@ export default function PollDetails() {
               </CardTitle>
             </CardHeader>
             <CardContent>
-              {!userHasVoted && poll.isActive ? (
+              {!userHasVoted && poll.isActive && !isSingleChoice ? (
+                <QuestionBallotInput
+                  questionType={question.questionType}
+                  maxSelections={question.maxSelections}
+                  options={poll.options}
+                  selections={ballotSelections}
+                  onChange={setBallotSelections}
+                  disabled={isVoting}
+                />
+              ) : !userHasVoted && poll.isActive ? (
                 <RadioGroup
                   onValueChange={(value) => setSelectedOption(parseInt(value, 10))}
                   className="gap-4"
@@ -481,7 +531,13 @@ export default function PollDetails() {
                 </RadioGroup>
               ) : (
                 <div className="space-y-6">
-                  {poll.options.map((option, index) => (
+                  {!isSingleChoice ? (
+                    <QuestionResultsView
+                      pollId={poll.id}
+                      totalVotes={poll.totalVotes}
+                      yourSelections={ballotSelections.length > 0 ? ballotSelections : undefined}
+                    />
+                  ) : poll.options.map((option, index) => (
                     <div key={index} className="space-y-2">
                       <div className="flex justify-between text-sm">
                         <span className="flex items-center gap-2">
@@ -496,7 +552,7 @@ export default function PollDetails() {
                           {poll.votePercentages[index]}% ({poll.votes[index]})
                         </span>
                       </div>
-                      <Progress value={poll.votePercentages[index]} className="h-2 bg-muted" />
+                      <Progress value={poll.votePercentages[index]} className="h-2 bg-muted [&>div]:duration-700" />
                     </div>
                   ))}
 
@@ -518,7 +574,7 @@ export default function PollDetails() {
                         ? 'bg-muted text-muted-foreground cursor-not-allowed'
                         : 'bg-primary text-primary-foreground hover:bg-primary/90'
                     }`}
-                    disabled={selectedOption === null || !isConnected || isVoting || contractLoading || !canVoteToday || isRecordingVote}
+                    disabled={voteOption === null || !isConnected || isVoting || contractLoading || !canVoteToday || isRecordingVote}
                     onClick={handleVote}
                   >
                     {isVoting || isRecordingVote ? (
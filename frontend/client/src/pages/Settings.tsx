@@ -19,6 +19,8 @@ import { useWalletConnection } from "@/hooks/useWalletConnection";
 import { useNetwork } from "@/contexts/NetworkContext";
 import { useGasSponsorship } from "@/contexts/GasSponsorshipContext";
 import { WalletSelectionModal } from "@/components/WalletSelectionModal";
+import { NotificationSettings } from "@/components/NotificationSettings";
+import { useEmailConfirmationLink } from "@/hooks/useNotifications";
 import {
   isIndexerOptimizationEnabled,
   setIndexerOptimizationEnabled,
@@ -34,6 +36,7 @@ export default function SettingsPage() {
     refreshStatus,
     loading: sponsorshipLoading,
   } = useGasSponsorship();
+  useEmailConfirmationLink();
 
   const [isUpdating, setIsUpdating] = useState(false);
   const [indexerOptEnabled, setIndexerOptEnabled] = useState(() => isIndexerOptimizationEnabled());
@@ -183,6 +186,9 @@ export default function SettingsPage() {
           </CardContent>
         </Card>
 
+        {/* Notifications Card */}
+        <NotificationSettings />
+
         {/* Performance Optimization Card */}
         <Card>
           <CardHeader>
@@ -29,22 +29,40 @@ import {
   Shield,
   Users,
   ChevronRight,
+  Gift,
+  Repeat,
 } from "lucide-react";
 import { TierRequirementsPopover } from "@/components/TierRequirementsPopover";
 import { toast } from "sonner";
 import { useWalletConnection } from "@/hooks/useWalletConnection";
 import { useNetwork } from "@/contexts/NetworkContext";
-import { useStaking, LOCK_PERIODS, type StakePosition } from "@/hooks/useStaking";
-import { getAllBalances, type AllBalances } from "@/lib/balance";
+import { useStaking, getStakingAprPercent, LOCK_PERIODS, type StakePosition } from "@/hooks/useStaking";
+import { getAllBalances, type AllBalances, formatBalance, parseInputAmount, toTokenAmount } from "@/lib/balance";
 import { COIN_TYPES, getCoinDecimals } from "@/lib/tokens";
 import { WalletSelectionModal } from "@/components/WalletSelectionModal";
-import { TIER_NAMES, TIER_PULSE_THRESHOLDS, TIERS } from "@shared/schema";
+import {
+  TIER_NAMES,
+  TIER_PULSE_THRESHOLDS,
+  TIERS,
+  QUEST_ACTIONS,
+  ZERO_AMOUNT,
+  BPS_DENOMINATOR,
+  MAX_STAKE_LOCK_MULTIPLIER_BPS,
+  formatUnits,
+  getLockWeightedStake,
+  getStakeLockMultiplierBps,
+  getTierForPulse,
+  maxAmount,
+  type Amount,
+} from "@shared/schema";
 import { useUserProfile } from "@/hooks/useUserProfile";
+import { useReportQuestAction } from "@/hooks/useQuests";
 
 export default function StakingPage() {
   const { isConnected, address } = useWalletConnection();
   const { network, config } = useNetwork();
   const { profile, stakedPulse, syncTier, isSyncingTier } = useUserProfile(address || undefined);
+  const reportQuestAction = useReportQuestAction();
 
   const {
     isConfigured,
@@ -54,17 +72,27 @@ export default function StakingPage() {
     lockedAmount,
     poolTotalStaked,
     stakersCount,
+    rewardPool,
+    pendingRewards,
+    hasRewardAccount,
     isLoading,
     isStaking,
     isUnstaking,
+    isClaimingRewards,
+    isRegisteringRewards,
     stake,
     unstake,
     unstakeAll,
+    claimRewards,
+    compoundRewards,
+    registerRewards,
     refetch,
   } = useStaking();
 
   const [balances, setBalances] = useState<AllBalances | null>(null);
   const [isLoadingBalance, setIsLoadingBalance] = useState(false);
+  // Set from the server on tier sync: whether longer locks count more toward tiers
+  const [tierLockWeighting, setTierLockWeighting] = useState(false);
 
   // Staking form state
   const [stakeAmount, setStakeAmount] = useState("");
@@ -92,49 +120,60 @@ export default function StakingPage() {
   }, [address, fetchBalance]);
 
   // Get PULSE balance
-  const pulseBalance = balances?.[COIN_TYPES.PULSE]?.balance ?? 0;
+  const pulseBalance = balances?.[COIN_TYPES.PULSE]?.balance ?? ZERO_AMOUNT;
   const pulseBalanceFormatted = balances?.[COIN_TYPES.PULSE]?.balanceFormatted ?? "0.0000";
+  const stakeAmountOctas = parseInputAmount(stakeAmount, 8) ?? ZERO_AMOUNT;
+
+  const selectedLockSeconds = parseInt(selectedLockPeriod);
+
+  // Staked PULSE scaled by lock multipliers, counted toward tiers when the server enables it
+  const weightedStake = useMemo(() => getLockWeightedStake(positions), [positions]);
+  const tierStake = tierLockWeighting ? weightedStake : totalStaked;
 
   // Calculate tier from live on-chain data (not cached database value)
   // This ensures the displayed tier is always accurate based on current wallet + staked balance
-  const liveTier = useMemo(() => {
-    const totalPulse = pulseBalance + totalStaked;
-    if (totalPulse >= TIER_PULSE_THRESHOLDS[TIERS.PLATINUM]) return TIERS.PLATINUM;
-    if (totalPulse >= TIER_PULSE_THRESHOLDS[TIERS.GOLD]) return TIERS.GOLD;
-    if (totalPulse >= TIER_PULSE_THRESHOLDS[TIERS.SILVER]) return TIERS.SILVER;
-    return TIERS.BRONZE;
-  }, [pulseBalance, totalStaked]);
+  const liveTier = useMemo(() => getTierForPulse(pulseBalance + tierStake), [pulseBalance, tierStake]);
 
   // Auto-sync tier when page loads with fresh balance/staking data
   useEffect(() => {
     if (address && !isLoading && !isLoadingBalance && balances !== null) {
       syncTier({
         pulseBalance: pulseBalance.toString(),
-        stakedAmount: totalStaked.toString()
-      });
+        stakedAmount: totalStaked.toString(),
+      })
+        .then((result) => setTierLockWeighting(result.data.lockWeighted))
+        .catch((error) => console.error("Failed to sync tier:", error));
     }
   }, [address, isLoading, isLoadingBalance, balances, pulseBalance, totalStaked, syncTier]);
 
   // Calculate tier with potential new stake
-  const calculatePotentialTier = (additionalStake: number) => {
-    const currentTotalPulse = pulseBalance + totalStaked;
-    const newTotalPulse = currentTotalPulse + additionalStake;
-
-    if (newTotalPulse >= TIER_PULSE_THRESHOLDS[TIERS.PLATINUM]) return TIERS.PLATINUM;
-    if (newTotalPulse >= TIER_PULSE_THRESHOLDS[TIERS.GOLD]) return TIERS.GOLD;
-    if (newTotalPulse >= TIER_PULSE_THRESHOLDS[TIERS.SILVER]) return TIERS.SILVER;
-    return TIERS.BRONZE;
+  const calculatePotentialTier = (additionalStake: Amount) =>
+    getTierForPulse(
+      pulseBalance +
+        tierStake +
+        (tierLockWeighting ? getLockWeightedStake([{ amount: additionalStake, lockDuration: selectedLockSeconds }]) : additionalStake)
+    );
+
+  const formatMultiplier = (lockDuration: number) => `${getStakeLockMultiplierBps(lockDuration) / BPS_DENOMINATOR}x`;
+
+  const formatApr = (lockDuration: number) => {
+    if (!rewardPool) return null;
+    const apr = getStakingAprPercent(rewardPool, lockDuration);
+    return apr === null ? "APR —" : `${apr.toFixed(2)}% APR`;
   };
 
+  // Format PULSE octas for display with digit grouping
+  const formatPulse = (amount: Amount, maximumFractionDigits: number = 2) =>
+    toTokenAmount(amount, COIN_TYPES.PULSE).toLocaleString(undefined, { maximumFractionDigits });
+
   // Handle stake
   const handleStake = async () => {
-    if (!stakeAmount || parseFloat(stakeAmount) <= 0) {
+    if (stakeAmountOctas <= ZERO_AMOUNT) {
       toast.error("Please enter a valid amount");
       return;
     }
 
-    const amount = parseFloat(stakeAmount);
-    const amountInOctas = Math.floor(amount * 1e8);
+    const amountInOctas = stakeAmountOctas;
 
     if (amountInOctas > pulseBalance) {
       toast.error("Insufficient PULSE balance");
@@ -144,11 +183,12 @@ export default function StakingPage() {
     try {
       const result = await stake({
         amount: amountInOctas,
-        lockPeriod: parseInt(selectedLockPeriod),
+        lockPeriod: selectedLockSeconds,
       });
+      reportQuestAction(QUEST_ACTIONS.STAKE, result.hash);
 
       toast.success("Staked successfully!", {
-        description: `${amount.toFixed(2)} PULSE locked for ${LOCK_PERIODS.find(p => p.seconds.toString() === selectedLockPeriod)?.label}`,
+        description: `${formatBalance(amountInOctas, 8, 2)} PULSE locked for ${LOCK_PERIODS.find(p => p.seconds.toString() === selectedLockPeriod)?.label}`,
         action: {
           label: "View",
           onClick: () => window.open(`${config.explorerUrl}/txn/${result.hash}?network=${network}`, "_blank"),
@@ -163,7 +203,10 @@ export default function StakingPage() {
         // Sync tier with updated staked amount
         if (address) {
           const newStaked = (totalStaked + amountInOctas).toString();
-          syncTier({ pulseBalance: (pulseBalance - amountInOctas).toString(), stakedAmount: newStaked });
+          syncTier({
+            pulseBalance: (pulseBalance - amountInOctas).toString(),
+            stakedAmount: newStaked,
+          });
         }
       }, 2000);
     } catch (error) {
@@ -181,7 +224,7 @@ export default function StakingPage() {
       const result = await unstake({ positionIndex });
 
       toast.success("Unstaked successfully!", {
-        description: `${(position.amount / 1e8).toFixed(2)} PULSE returned to your wallet`,
+        description: `${formatBalance(position.amount, 8, 2)} PULSE returned to your wallet`,
         action: {
           label: "View",
           onClick: () => window.open(`${config.explorerUrl}/txn/${result.hash}?network=${network}`, "_blank"),
@@ -193,8 +236,11 @@ export default function StakingPage() {
         refetch();
         // Sync tier with updated balances
         if (address) {
-          const newStaked = Math.max(0, totalStaked - position.amount).toString();
-          syncTier({ pulseBalance: (pulseBalance + position.amount).toString(), stakedAmount: newStaked });
+          const newStaked = maxAmount(ZERO_AMOUNT, totalStaked - position.amount).toString();
+          syncTier({
+            pulseBalance: (pulseBalance + position.amount).toString(),
+            stakedAmount: newStaked,
+          });
         }
       }, 2000);
     } catch (error) {
@@ -211,7 +257,7 @@ export default function StakingPage() {
       const result = await unstakeAll();
 
       toast.success("Unstaked all unlocked positions!", {
-        description: `${(unlockableAmount / 1e8).toFixed(2)} PULSE returned to your wallet`,
+        description: `${formatBalance(unlockableAmount, 8, 2)} PULSE returned to your wallet`,
         action: {
           label: "View",
           onClick: () => window.open(`${config.explorerUrl}/txn/${result.hash}?network=${network}`, "_blank"),
@@ -223,8 +269,11 @@ export default function StakingPage() {
         refetch();
         // Sync tier with updated balances
         if (address) {
-          const newStaked = Math.max(0, totalStaked - unlockableAmount).toString();
-          syncTier({ pulseBalance: (pulseBalance + unlockableAmount).toString(), stakedAmount: newStaked });
+          const newStaked = maxAmount(ZERO_AMOUNT, totalStaked - unlockableAmount).toString();
+          syncTier({
+            pulseBalance: (pulseBalance + unlockableAmount).toString(),
+            stakedAmount: newStaked,
+          });
         }
       }, 2000);
     } catch (error) {
@@ -235,10 +284,80 @@ export default function StakingPage() {
     }
   };
 
+  // Handle claim rewards
+  const handleClaimRewards = async () => {
+    try {
+      const claimed = pendingRewards;
+      const result = await claimRewards();
+
+      toast.success("Rewards claimed!", {
+        description: `${formatBalance(claimed, 8, 2)} PULSE sent to your wallet`,
+        action: {
+          label: "View",
+          onClick: () => window.open(`${config.explorerUrl}/txn/${result.hash}?network=${network}`, "_blank"),
+        },
+      });
+
+      setTimeout(() => {
+        fetchBalance();
+        refetch();
+      }, 2000);
+    } catch (error) {
+      console.error("Claim rewards failed:", error);
+      toast.error("Failed to claim rewards", {
+        description: error instanceof Error ? error.message : "Unknown error",
+      });
+    }
+  };
+
+  // Handle compound rewards into a new position with the selected lock period
+  const handleCompoundRewards = async () => {
+    try {
+      const compounded = pendingRewards;
+      const result = await compoundRewards({ lockPeriod: selectedLockSeconds });
+
+      toast.success("Rewards compounded!", {
+        description: `${formatBalance(compounded, 8, 2)} PULSE locked for ${LOCK_PERIODS.find(p => p.seconds === selectedLockSeconds)?.label}`,
+        action: {
+          label: "View",
+          onClick: () => window.open(`${config.explorerUrl}/txn/${result.hash}?network=${network}`, "_blank"),
+        },
+      });
+
+      setTimeout(() => {
+        refetch();
+        if (address) {
+          syncTier({
+            pulseBalance: pulseBalance.toString(),
+            stakedAmount: (totalStaked + compounded).toString(),
+          });
+        }
+      }, 2000);
+    } catch (error) {
+      console.error("Compound rewards failed:", error);
+      toast.error("Failed to compound rewards", {
+        description: error instanceof Error ? error.message : "Unknown error",
+      });
+    }
+  };
+
+  // Handle register for rewards (positions opened before rewards started)
+  const handleRegisterRewards = async () => {
+    try {
+      await registerRewards();
+      toast.success("Your stake positions now earn rewards");
+      setTimeout(() => refetch(), 2000);
+    } catch (error) {
+      console.error("Register rewards failed:", error);
+      toast.error("Failed to start earning rewards", {
+        description: error instanceof Error ? error.message : "Unknown error",
+      });
+    }
+  };
+
   // Set max amount
   const handleMaxAmount = () => {
-    const amount = pulseBalance / 1e8;
-    setStakeAmount(amount.toString());
+    setStakeAmount(formatUnits(pulseBalance, 8));
   };
 
   // Format time remaining
@@ -259,9 +378,9 @@ export default function StakingPage() {
 
   // Calculate progress to next tier (using liveTier from on-chain data)
   const getNextTierProgress = () => {
-    const totalPulse = pulseBalance + totalStaked;
+    const totalPulse = pulseBalance + tierStake;
 
-    if (liveTier >= TIERS.PLATINUM) return { progress: 100, nextTier: null, remaining: 0 };
+    if (liveTier >= TIERS.PLATINUM) return { progress: 100, nextTier: null, remaining: ZERO_AMOUNT };
 
     const thresholds = [
       { tier: TIERS.SILVER, threshold: TIER_PULSE_THRESHOLDS[TIERS.SILVER] },
@@ -270,12 +389,12 @@ export default function StakingPage() {
     ];
 
     const nextTierInfo = thresholds.find(t => t.tier > liveTier);
-    if (!nextTierInfo) return { progress: 100, nextTier: null, remaining: 0 };
+    if (!nextTierInfo) return { progress: 100, nextTier: null, remaining: ZERO_AMOUNT };
 
-    const currentThreshold = liveTier === TIERS.BRONZE ? 0 : TIER_PULSE_THRESHOLDS[liveTier as keyof typeof TIER_PULSE_THRESHOLDS];
+    const currentThreshold = TIER_PULSE_THRESHOLDS[liveTier] ?? ZERO_AMOUNT;
     const range = nextTierInfo.threshold - currentThreshold;
-    const progress = Math.min(100, ((totalPulse - currentThreshold) / range) * 100);
-    const remaining = Math.max(0, nextTierInfo.threshold - totalPulse);
+    const progress = Math.min(100, Number(((totalPulse - currentThreshold) * BigInt(100)) / range));
+    const remaining = maxAmount(ZERO_AMOUNT, nextTierInfo.threshold - totalPulse);
 
     return { progress, nextTier: TIER_NAMES[nextTierInfo.tier as keyof typeof TIER_NAMES], remaining };
   };
@@ -354,7 +473,7 @@ export default function StakingPage() {
               <div>
                 <p className="text-sm text-muted-foreground">Your Staked</p>
                 <p className="text-xl font-bold font-mono">
-                  {(totalStaked / 1e8).toLocaleString(undefined, { maximumFractionDigits: 2 })}
+                  {formatPulse(totalStaked)}
                 </p>
               </div>
             </div>
@@ -370,7 +489,7 @@ export default function StakingPage() {
               <div>
                 <p className="text-sm text-muted-foreground">Unlockable</p>
                 <p className="text-xl font-bold font-mono">
-                  {(unlockableAmount / 1e8).toLocaleString(undefined, { maximumFractionDigits: 2 })}
+                  {formatPulse(unlockableAmount)}
                 </p>
               </div>
             </div>
@@ -386,7 +505,7 @@ export default function StakingPage() {
               <div>
                 <p className="text-sm text-muted-foreground">Pool Total</p>
                 <p className="text-xl font-bold font-mono">
-                  {(poolTotalStaked / 1e8).toLocaleString(undefined, { maximumFractionDigits: 0 })}
+                  {formatPulse(poolTotalStaked, 0)}
                 </p>
               </div>
             </div>
@@ -421,7 +540,9 @@ export default function StakingPage() {
                 <TierRequirementsPopover align="center" iconClassName="w-4 h-4 text-muted-foreground" />
               </CardTitle>
               <CardDescription>
-                Your tier is calculated from wallet balance + staked PULSE
+                {tierLockWeighting
+                  ? "Your tier is calculated from wallet balance + staked PULSE, weighted by lock length"
+                  : "Your tier is calculated from wallet balance + staked PULSE"}
               </CardDescription>
             </CardHeader>
             <CardContent className="space-y-4">
@@ -443,11 +564,11 @@ export default function StakingPage() {
                 <Progress value={tierProgress.progress} className="h-3" />
                 <div className="flex justify-between text-sm">
                   <span className="text-muted-foreground">
-                    Total: {((pulseBalance + totalStaked) / 1e8).toLocaleString(undefined, { maximumFractionDigits: 0 })} PULSE
+                    Total: {formatPulse(pulseBalance + tierStake, 0)} PULSE
                   </span>
-                  {tierProgress.remaining > 0 && (
+                  {tierProgress.remaining > ZERO_AMOUNT && (
                     <span className="text-muted-foreground">
-                      Need {(tierProgress.remaining / 1e8).toLocaleString(undefined, { maximumFractionDigits: 0 })} more
+                      Need {formatPulse(tierProgress.remaining, 0)} more
                     </span>
                   )}
                 </div>
@@ -456,11 +577,16 @@ export default function StakingPage() {
               <div className="grid grid-cols-2 gap-4 pt-4 border-t">
                 <div>
                   <p className="text-sm text-muted-foreground">Wallet Balance</p>
-                  <p className="text-lg font-mono">{(pulseBalance / 1e8).toLocaleString(undefined, { maximumFractionDigits: 2 })} PULSE</p>
+                  <p className="text-lg font-mono">{formatPulse(pulseBalance)} PULSE</p>
                 </div>
                 <div>
                   <p className="text-sm text-muted-foreground">Staked Amount</p>
-                  <p className="text-lg font-mono">{(totalStaked / 1e8).toLocaleString(undefined, { maximumFractionDigits: 2 })} PULSE</p>
+                  <p className="text-lg font-mono">{formatPulse(totalStaked)} PULSE</p>
+                  {tierLockWeighting && (
+                    <p className="text-xs text-muted-foreground">
+                      Counts as {formatPulse(weightedStake)} PULSE with lock multipliers
+                    </p>
+                  )}
                 </div>
               </div>
             </CardContent>
@@ -526,10 +652,12 @@ export default function StakingPage() {
                         </div>
                         <div>
                           <p className="font-bold font-mono">
-                            {(position.amount / 1e8).toLocaleString(undefined, { maximumFractionDigits: 2 })} PULSE
+                            {formatPulse(position.amount)} PULSE
                           </p>
                           <p className="text-sm text-muted-foreground">
                             Locked for {LOCK_PERIODS.find(p => p.seconds === position.lockDuration)?.label || `${Math.floor(position.lockDuration / 86400)} days`}
+                            {" · "}
+                            {formatMultiplier(position.lockDuration)} rewards
                           </p>
                         </div>
                       </div>
@@ -577,6 +705,79 @@ export default function StakingPage() {
 
         {/* Right column - 1/3 width */}
         <div className="space-y-6">
+          {/* Staking Rewards Card */}
+          {rewardPool && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Gift className="w-5 h-5" />
+                  Staking Rewards
+                </CardTitle>
+                <CardDescription>
+                  PULSE emissions shared by lock-weighted stake
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="p-3 rounded-lg bg-green-500/10 border border-green-500/20">
+                  <p className="text-sm text-muted-foreground">Pending Rewards</p>
+                  <p className="text-xl font-bold font-mono">{formatPulse(pendingRewards, 4)} PULSE</p>
+                </div>
+
+                {!hasRewardAccount && positions.length > 0 ? (
+                  <div className="space-y-2">
+                    <p className="text-xs text-muted-foreground">
+                      Your positions were opened before rewards started. Register them to start earning.
+                    </p>
+                    <Button
+                      className="w-full"
+                      variant="outline"
+                      onClick={handleRegisterRewards}
+                      disabled={isRegisteringRewards}
+                    >
+                      {isRegisteringRewards ? (
+                        <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                      ) : (
+                        <TrendingUp className="w-4 h-4 mr-2" />
+                      )}
+                      Start Earning
+                    </Button>
+                  </div>
+                ) : (
+                  <div className="grid grid-cols-2 gap-2">
+                    <Button
+                      variant="outline"
+                      onClick={handleClaimRewards}
+                      disabled={isClaimingRewards || pendingRewards <= ZERO_AMOUNT}
+                    >
+                      {isClaimingRewards ? (
+                        <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                      ) : (
+                        <Gift className="w-4 h-4 mr-2" />
+                      )}
+                      Claim
+                    </Button>
+                    <Button
+                      className="bg-purple-600 hover:bg-purple-700"
+                      onClick={handleCompoundRewards}
+                      disabled={isClaimingRewards || pendingRewards <= ZERO_AMOUNT}
+                    >
+                      {isClaimingRewards ? (
+                        <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                      ) : (
+                        <Repeat className="w-4 h-4 mr-2" />
+                      )}
+                      Compound
+                    </Button>
+                  </div>
+                )}
+                <p className="text-xs text-muted-foreground">
+                  Compounding stakes your rewards as a new position locked for{" "}
+                  {LOCK_PERIODS.find(p => p.seconds === selectedLockSeconds)?.label} ({formatApr(selectedLockSeconds)}).
+                </p>
+              </CardContent>
+            </Card>
+          )}
+
           {/* Stake PULSE Card */}
           <Card>
             <CardHeader>
@@ -628,18 +829,19 @@ export default function StakingPage() {
                   <SelectContent>
                     {LOCK_PERIODS.map((period) => (
                       <SelectItem key={period.seconds} value={period.seconds.toString()}>
-                        {period.label}
+                        {period.label} · {formatMultiplier(period.seconds)}
+                        {rewardPool && ` · ${formatApr(period.seconds)}`}
                       </SelectItem>
                     ))}
                   </SelectContent>
                 </Select>
                 <p className="text-xs text-muted-foreground">
-                  Longer locks show greater commitment
+                  Longer locks earn a larger share of staking rewards
                 </p>
               </div>
 
               {/* Tier Preview */}
-              {stakeAmount && parseFloat(stakeAmount) > 0 && (
+              {stakeAmountOctas > ZERO_AMOUNT && (
                 <div className="p-3 rounded-lg bg-muted/50 border">
                   <p className="text-sm text-muted-foreground mb-1">After staking:</p>
                   <div className="flex items-center gap-2">
@@ -648,7 +850,7 @@ export default function StakingPage() {
                     </Badge>
                     <ArrowUpRight className="w-4 h-4 text-muted-foreground" />
                     <Badge variant="default" className="bg-purple-600">
-                      {TIER_NAMES[calculatePotentialTier(parseFloat(stakeAmount) * 1e8) as keyof typeof TIER_NAMES]}
+                      {TIER_NAMES[calculatePotentialTier(stakeAmountOctas) as keyof typeof TIER_NAMES]}
                     </Badge>
                   </div>
                 </div>
@@ -658,7 +860,7 @@ export default function StakingPage() {
               <Button
                 className="w-full bg-purple-600 hover:bg-purple-700"
                 onClick={handleStake}
-                disabled={isStaking || !stakeAmount || parseFloat(stakeAmount) <= 0}
+                disabled={isStaking || stakeAmountOctas <= ZERO_AMOUNT}
               >
                 {isStaking ? (
                   <>
@@ -689,6 +891,13 @@ export default function StakingPage() {
                 <Clock className="w-4 h-4 mt-0.5 text-purple-500 shrink-0" />
                 <p>Choose a lock period from 7 days to 1 year</p>
               </div>
+              <div className="flex gap-2">
+                <Gift className="w-4 h-4 mt-0.5 text-purple-500 shrink-0" />
+                <p>
+                  Earn PULSE rewards, up to {MAX_STAKE_LOCK_MULTIPLIER_BPS / BPS_DENOMINATOR}x for a 1-year lock; claim or
+                  compound them anytime
+                </p>
+              </div>
               <div className="flex gap-2">
                 <Unlock className="w-4 h-4 mt-0.5 text-purple-500 shrink-0" />
                 <p>Unstake anytime after the lock period ends</p>
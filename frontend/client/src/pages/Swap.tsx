@@ -1,4 +1,4 @@
-import { useState, useEffect, useCallback } from "react";
+import { useState, useEffect, useCallback, useMemo } from "react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
@@ -8,6 +8,7 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
 import {
   ArrowDownUp,
   AlertTriangle,
@@ -19,14 +20,43 @@ import {
   ArrowDown,
   Info,
   Settings,
+  Undo2,
 } from "lucide-react";
 import { toast } from "sonner";
 import { useWalletConnection } from "@/hooks/useWalletConnection";
 import { useNetwork } from "@/contexts/NetworkContext";
-import { useSwap, type PoolInfo, type SwapQuote, type LiquidityPosition } from "@/hooks/useSwap";
-import { getAllBalances, type AllBalances } from "@/lib/balance";
+import {
+  useSwap,
+  PartialRouteError,
+  type PoolInfo,
+  type LiquidityPosition,
+  type PartialRouteRecovery,
+} from "@/hooks/useSwap";
+import {
+  getAllBalances,
+  getRegisteredTokenBalance,
+  type AccountBalance,
+  type AllBalances,
+  formatBalance,
+  parseInputAmount,
+} from "@/lib/balance";
+import {
+  ZERO_AMOUNT,
+  amountToNumber,
+  applySlippage,
+  formatUnits,
+  getDepositPriceImpactBps,
+  getLpSharesForDeposit,
+  mulDiv,
+  quoteLiquidity,
+} from "@shared/schema";
 import { COIN_TYPES, getCoinDecimals } from "@/lib/tokens";
+import { getSwappableTokens } from "@/lib/token-registry";
+import { getHopMinimums, type RouteHop, type SwapRoute } from "@/lib/swap-router";
+import { TokenSelect } from "@/components/TokenSelect";
 import { WalletSelectionModal } from "@/components/WalletSelectionModal";
+import { SwapPriceChart } from "@/components/SwapPriceChart";
+import { LiquidityPositionReturns } from "@/components/LiquidityPositionReturns";
 import { TransactionConfirmationDialog } from "@/components/TransactionConfirmationDialog";
 import { showTransactionSuccessToast, showTransactionErrorToast } from "@/lib/transaction-feedback";
 import {
@@ -35,6 +65,10 @@ import {
   PopoverTrigger,
 } from "@/components/ui/popover";
 
+function describeHops(hops: RouteHop[]): string {
+  return hops.map((hop) => `${hop.tokenIn} → ${hop.tokenOut}`).join(", ");
+}
+
 export default function SwapPage() {
   const { isConnected, address, isPrivyWallet } = useWalletConnection();
   const { network, config } = useNetwork();
@@ -43,32 +77,39 @@ export default function SwapPage() {
     error,
     swapAddress,
     getPoolInfo,
-    getSwapQuote,
     getLpPosition,
     getSpotPrice,
-    swapPulseToUsdc,
-    swapUsdcToPulse,
+    quoteRoute,
+    executeRoute,
+    recoverPartialRoute,
     addLiquidity,
     removeLiquidity,
   } = useSwap();
 
   // State
   const [balances, setBalances] = useState<AllBalances | null>(null);
+  const [tokenBalances, setTokenBalances] = useState<Record<string, AccountBalance>>({});
   const [poolInfo, setPoolInfo] = useState<PoolInfo | null>(null);
   const [lpPosition, setLpPosition] = useState<LiquidityPosition | null>(null);
   const [spotPrice, setSpotPrice] = useState<number | null>(null);
   const [isLoadingData, setIsLoadingData] = useState(false);
 
   // Swap state
-  const [isPulseToUsdc, setIsPulseToUsdc] = useState(true);
+  const swappableTokens = useMemo(() => getSwappableTokens(network), [network]);
+  const [fromSymbol, setFromSymbol] = useState("PULSE");
+  const [toSymbol, setToSymbol] = useState("USDC");
   const [swapAmount, setSwapAmount] = useState("");
-  const [swapQuote, setSwapQuote] = useState<SwapQuote | null>(null);
+  const [swapRoute, setSwapRoute] = useState<SwapRoute | null>(null);
   const [slippageTolerance, setSlippageTolerance] = useState(0.5); // 0.5%
+  const slippageBps = Math.round(slippageTolerance * 100);
   const [isLoadingQuote, setIsLoadingQuote] = useState(false);
+  // A multi-hop swap that stopped after some hops landed, awaiting retry or unwind
+  const [partialRoute, setPartialRoute] = useState<PartialRouteError | null>(null);
 
   // Liquidity state
   const [pulseAmount, setPulseAmount] = useState("");
   const [usdcAmount, setUsdcAmount] = useState("");
+  const [autoBalance, setAutoBalance] = useState(true);
   const [removePercent, setRemovePercent] = useState(50);
 
   // Confirmation dialog state for Privy wallets
@@ -82,14 +123,22 @@ export default function SwapPage() {
   const fetchData = useCallback(async () => {
     setIsLoadingData(true);
     try {
-      const [balanceData, poolData, lpData, priceData] = await Promise.all([
+      const [balanceData, tokenBalanceData, poolData, lpData, priceData] = await Promise.all([
         address ? getAllBalances(address, config.rpcUrl, network, config.fullnodeUrl) : null,
+        address
+          ? Promise.all(
+              swappableTokens.map((token) =>
+                getRegisteredTokenBalance(address, token, config.rpcUrl, config.fullnodeUrl)
+              )
+            )
+          : [],
         getPoolInfo(),
         address ? getLpPosition() : null,
         getSpotPrice(), // PULSE per USDC
       ]);
 
       setBalances(balanceData);
+      setTokenBalances(Object.fromEntries(tokenBalanceData.map((balance) => [balance.symbol, balance])));
       setPoolInfo(poolData);
       setLpPosition(lpData);
       setSpotPrice(priceData);
@@ -98,31 +147,34 @@ export default function SwapPage() {
     } finally {
       setIsLoadingData(false);
     }
-  }, [address, config.rpcUrl, network, getPoolInfo, getLpPosition, getSpotPrice]);
+  }, [address, config.rpcUrl, config.fullnodeUrl, network, swappableTokens, getPoolInfo, getLpPosition, getSpotPrice]);
 
   // Fetch data on mount and when address changes
   useEffect(() => {
     fetchData();
   }, [fetchData]);
 
-  // Fetch quote when swap amount changes
+  const fromToken = swappableTokens.find((token) => token.symbol === fromSymbol);
+  const toToken = swappableTokens.find((token) => token.symbol === toSymbol);
+  const fromDecimals = fromToken?.decimals ?? 8;
+  const toDecimals = toToken?.decimals ?? 8;
+  const heldDecimals = swappableTokens.find((token) => token.symbol === partialRoute?.heldToken)?.decimals ?? 8;
+
+  // Fetch the best route when the amount or token pair changes
   useEffect(() => {
     const fetchQuote = async () => {
-      const amount = parseFloat(swapAmount);
-      if (isNaN(amount) || amount <= 0) {
-        setSwapQuote(null);
+      const amountInSmallest = parseInputAmount(swapAmount, fromDecimals);
+      if (amountInSmallest === null || amountInSmallest <= ZERO_AMOUNT) {
+        setSwapRoute(null);
         return;
       }
 
       setIsLoadingQuote(true);
       try {
-        const decimals = isPulseToUsdc ? getCoinDecimals(COIN_TYPES.PULSE) : getCoinDecimals(COIN_TYPES.USDC);
-        const amountInSmallest = Math.floor(amount * Math.pow(10, decimals));
-        const quote = await getSwapQuote(amountInSmallest, isPulseToUsdc);
-        setSwapQuote(quote);
+        setSwapRoute(await quoteRoute(fromSymbol, toSymbol, amountInSmallest));
       } catch (err) {
         console.error("Failed to fetch quote:", err);
-        setSwapQuote(null);
+        setSwapRoute(null);
       } finally {
         setIsLoadingQuote(false);
       }
@@ -130,65 +182,104 @@ export default function SwapPage() {
 
     const debounce = setTimeout(fetchQuote, 300);
     return () => clearTimeout(debounce);
-  }, [swapAmount, isPulseToUsdc, getSwapQuote]);
+  }, [swapAmount, fromSymbol, toSymbol, fromDecimals, quoteRoute]);
 
   // Toggle swap direction
   const toggleDirection = () => {
-    setIsPulseToUsdc(!isPulseToUsdc);
+    setFromSymbol(toSymbol);
+    setToSymbol(fromSymbol);
     setSwapAmount("");
-    setSwapQuote(null);
+    setSwapRoute(null);
+  };
+
+  // Picking the token already on the other side flips the pair
+  const handleFromTokenChange = (symbol: string) => {
+    if (symbol === toSymbol) setToSymbol(fromSymbol);
+    setFromSymbol(symbol);
+    setSwapRoute(null);
+  };
+
+  const handleToTokenChange = (symbol: string) => {
+    if (symbol === fromSymbol) setFromSymbol(toSymbol);
+    setToSymbol(symbol);
+    setSwapRoute(null);
   };
 
   // Set max amount
   const setMaxAmount = () => {
-    if (!balances) return;
-    const balance = isPulseToUsdc ? balances[COIN_TYPES.PULSE] : balances[COIN_TYPES.USDC];
-    const decimals = isPulseToUsdc ? getCoinDecimals(COIN_TYPES.PULSE) : getCoinDecimals(COIN_TYPES.USDC);
-    const maxAmount = balance.balance / Math.pow(10, decimals);
-    setSwapAmount(maxAmount.toString());
+    const balance = tokenBalances[fromSymbol];
+    if (!balance) return;
+    setSwapAmount(formatUnits(balance.balance, fromDecimals));
   };
 
   // Execute swap transaction
   const executeSwap = async () => {
-    if (!swapQuote) return;
+    if (!swapRoute) return;
 
     setIsExecuting(true);
     try {
-      // Calculate minimum output with slippage
-      const slippageMultiplier = 1 - slippageTolerance / 100;
-      const minAmountOut = Math.floor(swapQuote.amountOut * slippageMultiplier);
+      const result = await executeRoute(swapRoute, slippageBps);
 
-      let result;
-      if (isPulseToUsdc) {
-        result = await swapPulseToUsdc(swapQuote.amountIn, minAmountOut);
+      showTransactionSuccessToast(
+        result.hashes[result.hashes.length - 1],
+        "Swap Successful!",
+        `Swapped ${swapAmount} ${fromSymbol} for ${formatBalance(result.amountOut, toDecimals)} ${toSymbol}`,
+        config.explorerUrl
+      );
+      setSwapAmount("");
+      setSwapRoute(null);
+      fetchData();
+    } catch (err) {
+      if (err instanceof PartialRouteError) {
+        setPartialRoute(err);
+        setSwapRoute(null);
+        fetchData();
+        showTransactionErrorToast("Swap Partially Completed", err);
       } else {
-        result = await swapUsdcToPulse(swapQuote.amountIn, minAmountOut);
+        showTransactionErrorToast("Swap Failed", err instanceof Error ? err : "Transaction failed");
       }
+    } finally {
+      setIsExecuting(false);
+      setShowSwapConfirmation(false);
+    }
+  };
+
+  // Continue a partially executed route to its output token, or swap back to its input
+  const handleRecoverRoute = async (recovery: PartialRouteRecovery) => {
+    if (!partialRoute) return;
+
+    setIsExecuting(true);
+    try {
+      const result = await recoverPartialRoute(partialRoute, recovery, slippageBps);
+      const { path } = partialRoute.route;
+      const target = recovery === "retry" ? path[path.length - 1] : path[0];
+      const targetDecimals = swappableTokens.find((token) => token.symbol === target)?.decimals ?? 8;
 
       showTransactionSuccessToast(
-        result.hash,
-        "Swap Successful!",
-        `Swapped ${swapAmount} ${inputSymbol} for ${swapQuote.amountOutFormatted} ${outputSymbol}`,
-        config.explorerUrl,
-        result.sponsored
+        result.hashes[result.hashes.length - 1],
+        recovery === "retry" ? "Swap Completed" : "Swap Unwound",
+        `Received ${formatBalance(result.amountOut, targetDecimals)} ${target}`,
+        config.explorerUrl
       );
+      setPartialRoute(null);
       setSwapAmount("");
-      setSwapQuote(null);
       fetchData();
     } catch (err) {
+      if (err instanceof PartialRouteError) setPartialRoute(err);
+      fetchData();
       showTransactionErrorToast("Swap Failed", err instanceof Error ? err : "Transaction failed");
     } finally {
       setIsExecuting(false);
-      setShowSwapConfirmation(false);
     }
   };
 
   // Handle swap button click
   const handleSwap = async () => {
-    if (!swapQuote || loading) return;
+    if (!swapRoute || loading) return;
 
-    // If Privy wallet, show confirmation dialog first
-    if (isPrivyWallet) {
+    // Privy wallets and multi-hop routes get a confirmation dialog first: a
+    // native wallet only shows the hop it is signing, not the whole route
+    if (isPrivyWallet || swapRoute.hops.length > 1) {
       setShowSwapConfirmation(true);
       return;
     }
@@ -197,18 +288,50 @@ export default function SwapPage() {
     await executeSwap();
   };
 
+  // Add liquidity preview: shares expected at the current reserves, the minimum
+  // accepted under the slippage tolerance, and how far an off-ratio deposit moves the price
+  const depositPulse = parseInputAmount(pulseAmount, getCoinDecimals(COIN_TYPES.PULSE)) ?? ZERO_AMOUNT;
+  const depositUsdc = parseInputAmount(usdcAmount, getCoinDecimals(COIN_TYPES.USDC)) ?? ZERO_AMOUNT;
+  const poolHasLiquidity = !!poolInfo && poolInfo.totalLpShares > ZERO_AMOUNT;
+  const expectedLpShares = poolInfo
+    ? getLpSharesForDeposit(
+        depositPulse,
+        depositUsdc,
+        poolInfo.pulseReserve,
+        poolInfo.stableReserve,
+        poolInfo.totalLpShares
+      )
+    : ZERO_AMOUNT;
+  const minLpShares = applySlippage(expectedLpShares, slippageBps);
+  const depositImpactBps = poolHasLiquidity
+    ? getDepositPriceImpactBps(depositPulse, depositUsdc, poolInfo.pulseReserve, poolInfo.stableReserve)
+    : 0;
+  const depositMovesPrice = depositImpactBps > slippageBps;
+
+  // With auto-balance on, editing one side fills in the other at the pool ratio
+  const handlePulseAmountChange = (value: string) => {
+    setPulseAmount(value);
+    if (!autoBalance || !poolHasLiquidity) return;
+    const pulse = parseInputAmount(value, getCoinDecimals(COIN_TYPES.PULSE));
+    setUsdcAmount(
+      pulse ? formatUnits(quoteLiquidity(pulse, poolInfo.pulseReserve, poolInfo.stableReserve), getCoinDecimals(COIN_TYPES.USDC)) : ""
+    );
+  };
+
+  const handleUsdcAmountChange = (value: string) => {
+    setUsdcAmount(value);
+    if (!autoBalance || !poolHasLiquidity) return;
+    const usdc = parseInputAmount(value, getCoinDecimals(COIN_TYPES.USDC));
+    setPulseAmount(
+      usdc ? formatUnits(quoteLiquidity(usdc, poolInfo.stableReserve, poolInfo.pulseReserve), getCoinDecimals(COIN_TYPES.PULSE)) : ""
+    );
+  };
+
   // Execute add liquidity transaction
   const executeAddLiquidity = async () => {
-    const pulseAmt = parseFloat(pulseAmount);
-    const usdcAmt = parseFloat(usdcAmount);
-
     setIsExecuting(true);
     try {
-      const pulseInSmallest = Math.floor(pulseAmt * Math.pow(10, getCoinDecimals(COIN_TYPES.PULSE)));
-      const usdcInSmallest = Math.floor(usdcAmt * Math.pow(10, getCoinDecimals(COIN_TYPES.USDC)));
-
-      // Set minimum LP shares to 0 for simplicity (could add slippage protection)
-      const result = await addLiquidity(pulseInSmallest, usdcInSmallest, 0);
+      const result = await addLiquidity(depositPulse, depositUsdc, minLpShares);
 
       showTransactionSuccessToast(
         result.hash,
@@ -230,13 +353,14 @@ export default function SwapPage() {
 
   // Handle add liquidity button click
   const handleAddLiquidity = async () => {
-    const pulseAmt = parseFloat(pulseAmount);
-    const usdcAmt = parseFloat(usdcAmount);
-
-    if (isNaN(pulseAmt) || isNaN(usdcAmt) || pulseAmt <= 0 || usdcAmt <= 0) {
+    if (depositPulse <= ZERO_AMOUNT || depositUsdc <= ZERO_AMOUNT) {
       toast.error("Please enter valid amounts");
       return;
     }
+    if (expectedLpShares <= ZERO_AMOUNT) {
+      toast.error("Deposit is too small to mint LP shares");
+      return;
+    }
 
     // If Privy wallet, show confirmation dialog first
     if (isPrivyWallet) {
@@ -250,24 +374,23 @@ export default function SwapPage() {
 
   // Handle remove liquidity (no confirmation needed - user receives funds)
   const handleRemoveLiquidity = async () => {
-    if (!lpPosition || lpPosition.shares <= 0) {
+    if (!lpPosition || lpPosition.shares <= ZERO_AMOUNT) {
       toast.error("No liquidity to remove");
       return;
     }
 
     try {
-      const sharesToRemove = Math.floor(lpPosition.shares * (removePercent / 100));
-      if (sharesToRemove <= 0) {
+      const sharesToRemove = mulDiv(lpPosition.shares, BigInt(removePercent), BigInt(100));
+      if (sharesToRemove <= ZERO_AMOUNT) {
         toast.error("Amount too small");
         return;
       }
 
       // Calculate expected output with slippage protection
-      const expectedPulse = Math.floor(lpPosition.pulseValue * (removePercent / 100));
-      const expectedUsdc = Math.floor(lpPosition.stableValue * (removePercent / 100));
-      const slippageMultiplier = 1 - slippageTolerance / 100;
-      const minPulse = Math.floor(expectedPulse * slippageMultiplier);
-      const minUsdc = Math.floor(expectedUsdc * slippageMultiplier);
+      const expectedPulse = mulDiv(lpPosition.pulseValue, BigInt(removePercent), BigInt(100));
+      const expectedUsdc = mulDiv(lpPosition.stableValue, BigInt(removePercent), BigInt(100));
+      const minPulse = applySlippage(expectedPulse, slippageBps);
+      const minUsdc = applySlippage(expectedUsdc, slippageBps);
 
       const result = await removeLiquidity(sharesToRemove, minPulse, minUsdc);
 
@@ -285,6 +408,46 @@ export default function SwapPage() {
     }
   };
 
+  // Shared by the swap and add-liquidity cards
+  const slippageSettings = (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="icon">
+          <Settings className="w-4 h-4" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-64">
+        <div className="space-y-3">
+          <Label>Slippage Tolerance</Label>
+          <div className="flex gap-2">
+            {[0.1, 0.5, 1.0].map((value) => (
+              <Button
+                key={value}
+                variant={slippageTolerance === value ? "default" : "outline"}
+                size="sm"
+                onClick={() => setSlippageTolerance(value)}
+              >
+                {value}%
+              </Button>
+            ))}
+          </div>
+          <div className="flex items-center gap-2">
+            <Input
+              type="number"
+              value={slippageTolerance}
+              onChange={(e) => setSlippageTolerance(parseFloat(e.target.value) || 0.5)}
+              className="w-20"
+              min={0}
+              max={50}
+              step={0.1}
+            />
+            <span className="text-sm text-muted-foreground">%</span>
+          </div>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+
   // Not connected state
   if (!isConnected) {
     return (
@@ -322,12 +485,27 @@ export default function SwapPage() {
     );
   }
 
-  const inputSymbol = isPulseToUsdc ? "PULSE" : "USDC";
-  const outputSymbol = isPulseToUsdc ? "USDC" : "PULSE";
-  const inputBalance = isPulseToUsdc ? balances?.[COIN_TYPES.PULSE] : balances?.[COIN_TYPES.USDC];
-  const outputBalance = isPulseToUsdc ? balances?.[COIN_TYPES.USDC] : balances?.[COIN_TYPES.PULSE];
+  const inputBalance = tokenBalances[fromSymbol];
+  const outputBalance = tokenBalances[toSymbol];
 
-  const highPriceImpact = swapQuote && swapQuote.priceImpactBps > 500; // > 5%
+  const swapAmountOutFormatted = swapRoute ? formatBalance(swapRoute.amountOut, toDecimals) : null;
+  const swapRate = swapRoute
+    ? (amountToNumber(swapRoute.amountOut, toDecimals) / amountToNumber(swapRoute.amountIn, fromDecimals)).toFixed(6)
+    : null;
+  const swapPriceImpactPercent = swapRoute ? (swapRoute.priceImpactBps / 100).toFixed(2) : null;
+  const swapPath = swapRoute?.path.join(" → ");
+  // What each hop before the last delivers: the token in between is what a
+  // two-hop swap leaves in the wallet if its last hop doesn't go through
+  const swapMinimums = swapRoute ? getHopMinimums(swapRoute, slippageBps) : [];
+  const intermediateOutcomes = (swapRoute?.hops.slice(0, -1) ?? []).map((hop, index) => {
+    const decimals = swappableTokens.find((token) => token.symbol === hop.tokenOut)?.decimals ?? 8;
+    return {
+      label: `${hop.tokenOut} after hop ${index + 1}`,
+      value: `${formatBalance(hop.amountOut, decimals)} ${hop.tokenOut} (min. ${formatBalance(swapMinimums[index], decimals)})`,
+    };
+  });
+  const highPriceImpact = swapRoute && swapRoute.priceImpactBps > 500; // > 5%
+  const noRouteFound = !swapRoute && !isLoadingQuote && (parseInputAmount(swapAmount, fromDecimals) ?? ZERO_AMOUNT) > ZERO_AMOUNT;
 
   return (
     <div className="container max-w-2xl mx-auto px-4 py-8 space-y-6">
@@ -392,6 +570,8 @@ export default function SwapPage() {
         </CardContent>
       </Card>
 
+      {poolInfo && <SwapPriceChart />}
+
       {/* Main Tabs */}
       <Tabs defaultValue="swap" className="space-y-4">
         <TabsList className="grid w-full grid-cols-2">
@@ -405,42 +585,7 @@ export default function SwapPage() {
             <CardHeader className="pb-2">
               <div className="flex items-center justify-between">
                 <CardTitle className="text-lg">Swap Tokens</CardTitle>
-                <Popover>
-                  <PopoverTrigger asChild>
-                    <Button variant="ghost" size="icon">
-                      <Settings className="w-4 h-4" />
-                    </Button>
-                  </PopoverTrigger>
-                  <PopoverContent className="w-64">
-                    <div className="space-y-3">
-                      <Label>Slippage Tolerance</Label>
-                      <div className="flex gap-2">
-                        {[0.1, 0.5, 1.0].map((value) => (
-                          <Button
-                            key={value}
-                            variant={slippageTolerance === value ? "default" : "outline"}
-                            size="sm"
-                            onClick={() => setSlippageTolerance(value)}
-                          >
-                            {value}%
-                          </Button>
-                        ))}
-                      </div>
-                      <div className="flex items-center gap-2">
-                        <Input
-                          type="number"
-                          value={slippageTolerance}
-                          onChange={(e) => setSlippageTolerance(parseFloat(e.target.value) || 0.5)}
-                          className="w-20"
-                          min={0}
-                          max={50}
-                          step={0.1}
-                        />
-                        <span className="text-sm text-muted-foreground">%</span>
-                      </div>
-                    </div>
-                  </PopoverContent>
-                </Popover>
+                {slippageSettings}
               </div>
             </CardHeader>
             <CardContent className="space-y-4">
@@ -449,7 +594,7 @@ export default function SwapPage() {
                 <div className="flex items-center justify-between">
                   <Label>From</Label>
                   <span className="text-sm text-muted-foreground">
-                    Balance: {inputBalance?.balanceFormatted ?? "0.0000"} {inputSymbol}
+                    Balance: {inputBalance?.balanceFormatted ?? "0.0000"} {fromSymbol}
                   </span>
                 </div>
                 <div className="flex gap-2">
@@ -463,9 +608,7 @@ export default function SwapPage() {
                   <Button variant="outline" onClick={setMaxAmount}>
                     Max
                   </Button>
-                  <Badge variant="secondary" className="px-3">
-                    {inputSymbol}
-                  </Badge>
+                  <TokenSelect tokens={swappableTokens} value={fromSymbol} onChange={handleFromTokenChange} />
                 </div>
               </div>
 
@@ -481,7 +624,7 @@ export default function SwapPage() {
                 <div className="flex items-center justify-between">
                   <Label>To</Label>
                   <span className="text-sm text-muted-foreground">
-                    Balance: {outputBalance?.balanceFormatted ?? "0.0000"} {outputSymbol}
+                    Balance: {outputBalance?.balanceFormatted ?? "0.0000"} {toSymbol}
                   </span>
                 </div>
                 <div className="flex gap-2">
@@ -489,37 +632,60 @@ export default function SwapPage() {
                     {isLoadingQuote ? (
                       <Skeleton className="h-6 w-24" />
                     ) : (
-                      swapQuote?.amountOutFormatted ?? "0.0000"
+                      swapAmountOutFormatted ?? "0.0000"
                     )}
                   </div>
-                  <Badge variant="secondary" className="px-3">
-                    {outputSymbol}
-                  </Badge>
+                  <TokenSelect tokens={swappableTokens} value={toSymbol} onChange={handleToTokenChange} />
                 </div>
               </div>
 
               {/* Quote Info */}
-              {swapQuote && (
+              {swapRoute && (
                 <div className="p-3 bg-muted/50 rounded-lg space-y-2 text-sm">
                   <div className="flex justify-between">
                     <span className="text-muted-foreground">Rate</span>
-                    <span className="font-mono">1 {inputSymbol} = {swapQuote.rate} {outputSymbol}</span>
+                    <span className="font-mono">1 {fromSymbol} = {swapRate} {toSymbol}</span>
                   </div>
                   <div className="flex justify-between">
                     <span className="text-muted-foreground">Price Impact</span>
                     <span className={`font-mono ${highPriceImpact ? "text-red-500" : ""}`}>
-                      {swapQuote.priceImpactPercent}%
+                      {swapPriceImpactPercent}%
                     </span>
                   </div>
                   <div className="flex justify-between">
                     <span className="text-muted-foreground">Min. Received</span>
                     <span className="font-mono">
-                      {((swapQuote.amountOut * (1 - slippageTolerance / 100)) / Math.pow(10, isPulseToUsdc ? 6 : 8)).toFixed(4)} {outputSymbol}
+                      {formatBalance(swapMinimums[swapMinimums.length - 1], toDecimals)} {toSymbol}
                     </span>
                   </div>
+                  {intermediateOutcomes.map((outcome) => (
+                    <div key={outcome.label} className="flex justify-between">
+                      <span className="text-muted-foreground">{outcome.label}</span>
+                      <span className="font-mono">{outcome.value}</span>
+                    </div>
+                  ))}
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">Route</span>
+                    <span className="font-mono">{swapPath}</span>
+                  </div>
+                  {swapRoute.hops.length > 1 && (
+                    <p className="text-xs text-muted-foreground">
+                      Routed through {swapRoute.hops.length} pools; you'll sign one transaction per hop. If prices
+                      move between hops, the swap stops and you keep the {swapRoute.path[1]} received so far.
+                    </p>
+                  )}
                 </div>
               )}
 
+              {noRouteFound && (
+                <Alert>
+                  <Info className="h-4 w-4" />
+                  <AlertDescription>
+                    No pool route connects {fromSymbol} to {toSymbol}.
+                  </AlertDescription>
+                </Alert>
+              )}
+
               {/* High Price Impact Warning */}
               {highPriceImpact && (
                 <Alert variant="destructive">
@@ -530,12 +696,51 @@ export default function SwapPage() {
                 </Alert>
               )}
 
+              {/* Partially executed route */}
+              {partialRoute && (
+                <Alert variant="destructive">
+                  <AlertTriangle className="h-4 w-4" />
+                  <AlertDescription className="space-y-3">
+                    <p>
+                      {describeHops(partialRoute.route.hops.slice(0, partialRoute.completedHops))} landed, but{" "}
+                      {describeHops(partialRoute.route.hops.slice(partialRoute.completedHops))} did not. You received{" "}
+                      {partialRoute.heldAmount !== null
+                        ? `${formatBalance(partialRoute.heldAmount, heldDecimals)} ${partialRoute.heldToken}.`
+                        : `an unknown amount of ${partialRoute.heldToken}; check your balance.`}
+                    </p>
+                    <div className="flex flex-wrap gap-2">
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => handleRecoverRoute("retry")}
+                        disabled={isExecuting || partialRoute.heldAmount === null}
+                      >
+                        <RefreshCcw className="w-3 h-3 mr-1" />
+                        Retry to {partialRoute.route.path[partialRoute.route.path.length - 1]}
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => handleRecoverRoute("unwind")}
+                        disabled={isExecuting || partialRoute.heldAmount === null}
+                      >
+                        <Undo2 className="w-3 h-3 mr-1" />
+                        Swap back to {partialRoute.route.path[0]}
+                      </Button>
+                      <Button size="sm" variant="ghost" onClick={() => setPartialRoute(null)} disabled={isExecuting}>
+                        Keep {partialRoute.heldToken}
+                      </Button>
+                    </div>
+                  </AlertDescription>
+                </Alert>
+              )}
+
               {/* Swap Button */}
               <Button
                 className="w-full"
                 size="lg"
                 onClick={handleSwap}
-                disabled={loading || !swapQuote || !swapAmount}
+                disabled={loading || !swapRoute || !swapAmount}
               >
                 {loading ? (
                   <>
@@ -545,12 +750,12 @@ export default function SwapPage() {
                 ) : (
                   <>
                     <ArrowDownUp className="w-4 h-4 mr-2" />
-                    Swap {inputSymbol} for {outputSymbol}
+                    Swap {fromSymbol} for {toSymbol}
                   </>
                 )}
               </Button>
 
-              {error && (
+              {error && !partialRoute && (
                 <Alert variant="destructive">
                   <AlertTriangle className="h-4 w-4" />
                   <AlertDescription>{error}</AlertDescription>
@@ -573,7 +778,7 @@ export default function SwapPage() {
             <CardContent>
               {isLoadingData && !lpPosition ? (
                 <Skeleton className="h-24" />
-              ) : lpPosition && lpPosition.shares > 0 ? (
+              ) : lpPosition && lpPosition.shares > ZERO_AMOUNT ? (
                 <div className="space-y-4">
                   <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
                     <div className="p-3 bg-muted/50 rounded-lg">
@@ -593,6 +798,15 @@ export default function SwapPage() {
                       <p className="font-mono font-semibold">{lpPosition.stableValueFormatted}</p>
                     </div>
                   </div>
+                  {lpPosition.apr !== null && (
+                    <p className="text-sm text-muted-foreground">
+                      Estimated APR from swap fees:{" "}
+                      <span className="font-mono font-semibold text-foreground">{lpPosition.apr.toFixed(2)}%</span>{" "}
+                      (last 7 days, annualized)
+                    </p>
+                  )}
+
+                  <LiquidityPositionReturns address={address ?? undefined} />
 
                   {/* Remove Liquidity */}
                   <div className="space-y-3 pt-4 border-t">
@@ -620,13 +834,13 @@ export default function SwapPage() {
                       <div className="flex justify-between">
                         <span className="text-muted-foreground">PULSE to receive</span>
                         <span className="font-mono">
-                          ~{((lpPosition.pulseValue * removePercent / 100) / Math.pow(10, 8)).toFixed(4)} PULSE
+                          ~{formatBalance(mulDiv(lpPosition.pulseValue, BigInt(removePercent), BigInt(100)), 8)} PULSE
                         </span>
                       </div>
                       <div className="flex justify-between mt-1">
                         <span className="text-muted-foreground">USDC to receive</span>
                         <span className="font-mono">
-                          ~{((lpPosition.stableValue * removePercent / 100) / Math.pow(10, 6)).toFixed(4)} USDC
+                          ~{formatBalance(mulDiv(lpPosition.stableValue, BigInt(removePercent), BigInt(100)), 6)} USDC
                         </span>
                       </div>
                     </div>
@@ -634,7 +848,7 @@ export default function SwapPage() {
                       variant="destructive"
                       className="w-full"
                       onClick={handleRemoveLiquidity}
-                      disabled={loading || lpPosition.shares <= 0}
+                      disabled={loading || lpPosition.shares <= ZERO_AMOUNT}
                     >
                       {loading ? (
                         <>
@@ -659,12 +873,24 @@ export default function SwapPage() {
           {/* Add Liquidity */}
           <Card>
             <CardHeader>
-              <CardTitle className="text-lg">Add Liquidity</CardTitle>
+              <div className="flex items-center justify-between">
+                <CardTitle className="text-lg">Add Liquidity</CardTitle>
+                {slippageSettings}
+              </div>
               <CardDescription>
                 Provide liquidity to earn {poolInfo ? (poolInfo.feeBps / 100).toFixed(2) : "0.30"}% on swaps
               </CardDescription>
             </CardHeader>
             <CardContent className="space-y-4">
+              {poolHasLiquidity && (
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="auto-balance" className="text-sm font-normal">
+                    Auto-balance amounts to the pool ratio
+                  </Label>
+                  <Switch id="auto-balance" checked={autoBalance} onCheckedChange={setAutoBalance} />
+                </div>
+              )}
+
               {/* PULSE Input */}
               <div className="space-y-2">
                 <div className="flex items-center justify-between">
@@ -678,15 +904,14 @@ export default function SwapPage() {
                     type="number"
                     placeholder="0.0"
                     value={pulseAmount}
-                    onChange={(e) => setPulseAmount(e.target.value)}
+                    onChange={(e) => handlePulseAmountChange(e.target.value)}
                     className="font-mono"
                   />
                   <Button
                     variant="outline"
                     onClick={() => {
                       if (balances) {
-                        const max = balances[COIN_TYPES.PULSE].balance / Math.pow(10, 8);
-                        setPulseAmount(max.toString());
+                        handlePulseAmountChange(formatUnits(balances[COIN_TYPES.PULSE].balance, 8));
                       }
                     }}
                   >
@@ -708,15 +933,14 @@ export default function SwapPage() {
                     type="number"
                     placeholder="0.0"
                     value={usdcAmount}
-                    onChange={(e) => setUsdcAmount(e.target.value)}
+                    onChange={(e) => handleUsdcAmountChange(e.target.value)}
                     className="font-mono"
                   />
                   <Button
                     variant="outline"
                     onClick={() => {
                       if (balances) {
-                        const max = balances[COIN_TYPES.USDC].balance / Math.pow(10, 6);
-                        setUsdcAmount(max.toString());
+                        handleUsdcAmountChange(formatUnits(balances[COIN_TYPES.USDC].balance, 6));
                       }
                     }}
                   >
@@ -736,6 +960,45 @@ export default function SwapPage() {
                 </Alert>
               )}
 
+              {expectedLpShares > ZERO_AMOUNT && (
+                <div className="p-3 bg-muted/50 rounded-lg text-sm space-y-1">
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">Expected LP shares</span>
+                    <span className="font-mono">{expectedLpShares.toLocaleString()}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">Minimum ({slippageTolerance}% slippage)</span>
+                    <span className="font-mono">{minLpShares.toLocaleString()}</span>
+                  </div>
+                  {poolHasLiquidity && (
+                    <div className="flex justify-between">
+                      <span className="text-muted-foreground">Deposit price impact</span>
+                      <span className="font-mono">{(depositImpactBps / 100).toFixed(2)}%</span>
+                    </div>
+                  )}
+                </div>
+              )}
+
+              {depositMovesPrice && (
+                <Alert variant="destructive">
+                  <AlertTriangle className="h-4 w-4" />
+                  <AlertDescription>
+                    These amounts are off the pool ratio and move the price by{" "}
+                    {(depositImpactBps / 100).toFixed(2)}%. Shares are minted for the scarcer side only; the
+                    excess is added to the pool without shares.
+                  </AlertDescription>
+                </Alert>
+              )}
+
+              {poolInfo && !poolHasLiquidity && depositPulse > ZERO_AMOUNT && depositUsdc > ZERO_AMOUNT && (
+                <Alert>
+                  <Info className="h-4 w-4" />
+                  <AlertDescription>
+                    You are the first liquidity provider: these amounts set the starting price of PULSE.
+                  </AlertDescription>
+                </Alert>
+              )}
+
               <Button
                 className="w-full"
                 onClick={handleAddLiquidity}
@@ -765,7 +1028,7 @@ export default function SwapPage() {
         </TabsContent>
       </Tabs>
 
-      {/* Privy Wallet Confirmation Dialogs */}
+      {/* Confirmation Dialogs (Privy wallets, and multi-hop swaps) */}
       <TransactionConfirmationDialog
         open={showSwapConfirmation}
         onOpenChange={setShowSwapConfirmation}
@@ -773,13 +1036,18 @@ export default function SwapPage() {
         onCancel={() => setShowSwapConfirmation(false)}
         isLoading={isExecuting}
         title="Confirm Swap"
-        description={`Swap ${inputSymbol} for ${outputSymbol}`}
+        description={swapRoute && swapRoute.hops.length > 1
+          ? `Swap ${fromSymbol} for ${toSymbol} in ${swapRoute.hops.length} transactions`
+          : `Swap ${fromSymbol} for ${toSymbol}`}
         amount={parseFloat(swapAmount) || 0}
-        tokenSymbol={inputSymbol}
-        details={swapQuote ? [
-          { label: "You Receive", value: `${swapQuote.amountOutFormatted} ${outputSymbol}` },
-          { label: "Rate", value: `1 ${inputSymbol} = ${swapQuote.rate} ${outputSymbol}` },
-          { label: "Price Impact", value: `${swapQuote.priceImpactPercent}%` },
+        tokenSymbol={fromSymbol}
+        details={swapRoute ? [
+          { label: "You Receive", value: `${swapAmountOutFormatted} ${toSymbol}` },
+          { label: "Rate", value: `1 ${fromSymbol} = ${swapRate} ${toSymbol}` },
+          { label: "Price Impact", value: `${swapPriceImpactPercent}%` },
+          { label: "Minimum Received", value: `${formatBalance(swapMinimums[swapMinimums.length - 1], toDecimals)} ${toSymbol}` },
+          { label: "Route", value: swapPath ?? "" },
+          ...intermediateOutcomes,
           { label: "Slippage Tolerance", value: `${slippageTolerance}%` },
         ] : []}
       />
@@ -797,6 +1065,8 @@ export default function SwapPage() {
         details={[
           { label: "PULSE Amount", value: `${pulseAmount || "0"} PULSE` },
           { label: "USDC Amount", value: `${usdcAmount || "0"} USDC` },
+          { label: "Minimum LP Shares", value: minLpShares.toLocaleString() },
+          { label: "Slippage Tolerance", value: `${slippageTolerance}%` },
         ]}
       />
     </div>
@@ -36,16 +36,15 @@ import { useWallet } from "@aptos-labs/wallet-adapter-react";
 import { useWalletConnection } from "@/hooks/useWalletConnection";
 import { usePrivyWallet } from "@/hooks/usePrivyWallet";
 import { useNetwork } from "@/contexts/NetworkContext";
-import { getAllBalances, type AllBalances, parseToSmallestUnit } from "@/lib/balance";
+import { getAllBalances, type AllBalances, formatBalance, parseInputAmount } from "@/lib/balance";
 import { COIN_TYPES, getCoinDecimals, getPulseContractAddress, type CoinTypeId } from "@/lib/tokens";
 import { WalletSelectionModal } from "@/components/WalletSelectionModal";
 import { createAptosClient } from "@/lib/contract";
 import { submitPrivyTransaction } from "@/lib/privy-transactions";
-import { useActivityEvents } from "@/hooks/useActivityEvents";
-import { formatRelativeTime } from "@/lib/events";
+import { ActivityFeed } from "@/components/ActivityFeed";
 import { useStaking } from "@/hooks/useStaking";
 import { Progress } from "@/components/ui/progress";
-import { TIER_NAMES, TIER_PULSE_THRESHOLDS, TIERS } from "@shared/schema";
+import { TIER_NAMES, TIER_PULSE_THRESHOLDS, TIERS, ZERO_AMOUNT, formatUnits } from "@shared/schema";
 import { Lock, Unlock, TrendingUp, ChevronRight } from "lucide-react";
 
 export default function WalletPage() {
@@ -69,9 +68,6 @@ export default function WalletPage() {
   const isTestnet = network === "testnet";
   const client = createAptosClient(config);
 
-  // Activity events
-  const { data: activityEvents, isLoading: isLoadingActivity } = useActivityEvents(address || undefined);
-
   // Staking info
   const {
     isConfigured: isStakingConfigured,
@@ -176,8 +172,8 @@ export default function WalletPage() {
 
   // Get selected token balance
   const getSelectedBalance = () => {
-    if (!balances) return 0;
-    return balances[selectedToken]?.balance ?? 0;
+    if (!balances) return ZERO_AMOUNT;
+    return balances[selectedToken]?.balance ?? ZERO_AMOUNT;
   };
 
   // Get formatted selected balance
@@ -189,9 +185,7 @@ export default function WalletPage() {
   // Set max amount
   const handleMaxAmount = () => {
     const balance = getSelectedBalance();
-    const decimals = getCoinDecimals(selectedToken);
-    const amount = balance / Math.pow(10, decimals);
-    setTransferAmount(amount.toString());
+    setTransferAmount(formatUnits(balance, getCoinDecimals(selectedToken)));
   };
 
   // Handle transfer
@@ -201,8 +195,8 @@ export default function WalletPage() {
       return;
     }
 
-    const amount = parseFloat(transferAmount);
-    if (isNaN(amount) || amount <= 0) {
+    const amountInSmallestUnit = parseInputAmount(transferAmount, getCoinDecimals(selectedToken));
+    if (amountInSmallestUnit === null || amountInSmallestUnit <= ZERO_AMOUNT) {
       toast.error("Please enter a valid amount");
       return;
     }
@@ -214,8 +208,6 @@ export default function WalletPage() {
     }
 
     const balance = getSelectedBalance();
-    const decimals = getCoinDecimals(selectedToken);
-    const amountInSmallestUnit = parseToSmallestUnit(amount, decimals);
 
     if (amountInSmallestUnit > balance) {
       toast.error("Insufficient balance");
@@ -447,81 +439,7 @@ export default function WalletPage() {
           </Card>
 
           {/* Recent Activity Section */}
-          <Card>
-            <CardHeader>
-              <CardTitle className="flex items-center gap-2">
-                <Clock className="w-5 h-5" />
-                Recent Activity
-              </CardTitle>
-              <CardDescription>
-                Your on-chain transaction history
-              </CardDescription>
-            </CardHeader>
-            <CardContent>
-              <div className="space-y-3">
-                {isLoadingActivity ? (
-                  <div className="space-y-3">
-                    {[1, 2, 3].map((i) => (
-                      <Skeleton key={i} className="h-16 w-full" />
-                    ))}
-                  </div>
-                ) : activityEvents && activityEvents.length > 0 ? (
-                  activityEvents.map((event, index) => (
-                    <div
-                      key={`${event.type}-${event.pollId}-${index}`}
-                      className="flex items-center justify-between p-3 rounded-lg bg-muted/50 hover:bg-muted transition-colors"
-                    >
-                      <div className="flex items-center gap-3">
-                        <div className={`w-10 h-10 rounded-full flex items-center justify-center ${
-                          event.type === 'vote'
-                            ? 'bg-purple-500/20'
-                            : event.type === 'reward_claimed'
-                            ? 'bg-green-500/20'
-                            : 'bg-blue-500/20'
-                        }`}>
-                          {event.type === 'vote' ? (
-                            <Vote className="w-5 h-5 text-purple-500" />
-                          ) : event.type === 'reward_claimed' ? (
-                            <Gift className="w-5 h-5 text-green-500" />
-                          ) : (
-                            <Clock className="w-5 h-5 text-blue-500" />
-                          )}
-                        </div>
-                        <div>
-                          <p className="font-medium text-sm">
-                            {event.type === 'vote'
-                              ? `Voted on Poll #${event.pollId}`
-                              : event.type === 'reward_claimed'
-                              ? `Claimed reward from Poll #${event.pollId}`
-                              : `Created Poll #${event.pollId}`}
-                          </p>
-                          <p className="text-xs text-muted-foreground">
-                            {formatRelativeTime(event.timestamp)}
-                          </p>
-                        </div>
-                      </div>
-                      {event.type === 'reward_claimed' && event.amount && (
-                        <Badge variant="secondary" className="bg-green-500/10 text-green-600">
-                          +{(event.amount / 1e8).toFixed(2)} PULSE
-                        </Badge>
-                      )}
-                      {event.type === 'vote' && (
-                        <Badge variant="secondary" className="bg-purple-500/10 text-purple-600">
-                          Voted
-                        </Badge>
-                      )}
-                    </div>
-                  ))
-                ) : (
-                  <div className="flex flex-col items-center justify-center py-8 text-muted-foreground">
-                    <Clock className="w-12 h-12 mb-2 opacity-50" />
-                    <p className="text-sm">No recent activity</p>
-                    <p className="text-xs">Your votes and rewards will appear here</p>
-                  </div>
-                )}
-              </div>
-            </CardContent>
-          </Card>
+          <ActivityFeed address={address || undefined} />
         </div>
 
         {/* Right column - 1/3 width */}
@@ -624,13 +542,13 @@ export default function WalletPage() {
                       <div className="p-2 rounded-lg bg-muted/50">
                         <p className="text-xs text-muted-foreground">Staked</p>
                         <p className="font-mono font-bold">
-                          {(totalStaked / 1e8).toLocaleString(undefined, { maximumFractionDigits: 2 })}
+                          {formatBalance(totalStaked, 8, 2)}
                         </p>
                       </div>
                       <div className="p-2 rounded-lg bg-muted/50">
                         <p className="text-xs text-muted-foreground">Unlockable</p>
                         <p className="font-mono font-bold text-green-600">
-                          {(unlockableAmount / 1e8).toLocaleString(undefined, { maximumFractionDigits: 2 })}
+                          {formatBalance(unlockableAmount, 8, 2)}
                         </p>
                       </div>
                     </div>
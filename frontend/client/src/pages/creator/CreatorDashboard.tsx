@@ -23,7 +23,9 @@ import { useWalletConnection } from "@/hooks/useWalletConnection";
 import { useQuestionnaires } from "@/hooks/useQuestionnaire";
 import type { PollWithMeta } from "@/types/poll";
 import { POLL_STATUS } from "@/types/poll";
-import { getCoinSymbol, COIN_TYPES, type CoinTypeId } from "@/lib/tokens";
+import { getCoinSymbol, getCoinDecimals, COIN_TYPES, type CoinTypeId } from "@/lib/tokens";
+import { formatBalance, toTokenAmount } from "@/lib/balance";
+import { ZERO_AMOUNT, type Amount } from "@shared/schema";
 
 export default function CreatorDashboard() {
   const { isConnected, address } = useWalletConnection();
@@ -78,12 +80,11 @@ export default function CreatorDashboard() {
 
   // Calculate stats - group funded by token type (exclude MOVE, only show PULSE and USDC)
   const stats = useMemo(() => {
-    const fundedByToken: Record<string, number> = {};
+    const fundedByToken: Record<number, Amount> = {};
     myPolls.forEach((p) => {
       // Skip MOVE (coin_type_id = 0), only aggregate PULSE and USDC
       if (p.coin_type_id === COIN_TYPES.MOVE) return;
-      const coinSymbol = getCoinSymbol(p.coin_type_id as CoinTypeId);
-      fundedByToken[coinSymbol] = (fundedByToken[coinSymbol] || 0) + (p.reward_pool / 1e8);
+      fundedByToken[p.coin_type_id] = (fundedByToken[p.coin_type_id] ?? ZERO_AMOUNT) + p.reward_pool;
     });
 
     return {
@@ -104,7 +105,7 @@ export default function CreatorDashboard() {
 
   // Render poll card
   const renderPollCard = (poll: PollWithMeta) => {
-    const rewardPool = poll.reward_pool / 1e8;
+    const rewardPool = toTokenAmount(poll.reward_pool, poll.coin_type_id as CoinTypeId);
     const coinSymbol = getCoinSymbol(poll.coin_type_id as CoinTypeId);
     return (
       <PollCard
@@ -211,9 +212,10 @@ export default function CreatorDashboard() {
                   {Object.keys(stats.fundedByToken).length === 0 ? (
                     <p className="text-3xl font-bold font-mono">0</p>
                   ) : (
-                    Object.entries(stats.fundedByToken).map(([token, amount]) => (
-                      <p key={token} className="text-2xl font-bold font-mono">
-                        {amount.toFixed(4)} <span className="text-base">{token}</span>
+                    Object.entries(stats.fundedByToken).map(([coinTypeId, amount]) => (
+                      <p key={coinTypeId} className="text-2xl font-bold font-mono">
+                        {formatBalance(amount, getCoinDecimals(Number(coinTypeId) as CoinTypeId))}{" "}
+                        <span className="text-base">{getCoinSymbol(Number(coinTypeId) as CoinTypeId)}</span>
                       </p>
                     ))
                   )}
@@ -16,23 +16,53 @@ import {
   ExternalLink,
   Users,
   HandCoins,
+  Download,
+  Archive,
+  Timer,
+  Bot,
 } from "lucide-react";
+import { Switch } from "@/components/ui/switch";
+import { ExportResultsDialog } from "@/components/ExportResultsDialog";
 import { useContract } from "@/hooks/useContract";
 import { useWalletConnection } from "@/hooks/useWalletConnection";
+import { useClaimDeadlines } from "@/hooks/useClaimDeadlines";
 import type { PollWithMeta } from "@/types/poll";
 import { POLL_STATUS, DISTRIBUTION_MODE } from "@/types/poll";
 import { useNetwork } from "@/contexts/NetworkContext";
 import { showTransactionSuccessToast, showTransactionErrorToast } from "@/lib/transaction-feedback";
-import { getCoinSymbol, type CoinTypeId } from "@/lib/tokens";
+import { getCoinSymbol, getCoinDecimals, type CoinTypeId } from "@/lib/tokens";
+import { formatBalance, toTokenAmount } from "@/lib/balance";
+import { ZERO_AMOUNT, toAmount, type Amount } from "@shared/schema";
+
+// "in 3d 4h" / "2h ago" relative to now
+function formatTimeUntil(iso: string): string {
+  const diffSecs = Math.round((new Date(iso).getTime() - Date.now()) / 1000);
+  const abs = Math.abs(diffSecs);
+  const days = Math.floor(abs / 86400);
+  const hours = Math.floor((abs % 86400) / 3600);
+  const minutes = Math.floor((abs % 3600) / 60);
+  const span = days > 0 ? `${days}d ${hours}h` : hours > 0 ? `${hours}h ${minutes}m` : `${minutes}m`;
+  return diffSecs >= 0 ? `in ${span}` : `${span} ago`;
+}
 
 export default function Distributions() {
   const { isConnected, address } = useWalletConnection();
-  const { getAllPolls, distributeRewards, contractAddress } = useContract();
+  const {
+    getAllPolls,
+    distributeRewards,
+    finalizePoll,
+    setFinalizeDelegate,
+    removeFinalizeDelegate,
+    contractAddress,
+  } = useContract();
   const { config } = useNetwork();
+  const { data: deadlines, isLoading: deadlinesLoading, refetch: refetchDeadlines } = useClaimDeadlines(address ?? undefined);
 
   const [polls, setPolls] = useState<PollWithMeta[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [distributingPollId, setDistributingPollId] = useState<number | null>(null);
+  const [finalizingPollId, setFinalizingPollId] = useState<number | null>(null);
+  const [isUpdatingDelegate, setIsUpdatingDelegate] = useState(false);
 
   // Fetch polls
   const fetchPolls = useCallback(async () => {
@@ -71,7 +101,7 @@ export default function Distributions() {
         p.status === POLL_STATUS.CLOSED &&
         p.distribution_mode === DISTRIBUTION_MODE.MANUAL_PUSH &&
         !p.rewards_distributed &&
-        p.reward_pool > 0
+        p.reward_pool > ZERO_AMOUNT
     );
   }, [myPolls]);
 
@@ -84,6 +114,17 @@ export default function Distributions() {
     );
   }, [myPolls]);
 
+  // Claim windows and finalization from the server-side deadline watcher
+  const deadlineByPoll = useMemo(
+    () => new Map((deadlines?.polls ?? []).map((p) => [p.pollId, p])),
+    [deadlines]
+  );
+  const finalizablePolls = useMemo(() => (deadlines?.polls ?? []).filter((p) => p.finalizable), [deadlines]);
+  const awaitingFinalization = useMemo(
+    () => (deadlines?.polls ?? []).filter((p) => p.status === POLL_STATUS.CLOSED && !p.finalizable),
+    [deadlines]
+  );
+
   // Get completed distributions
   const completedDistributions = useMemo(() => {
     return myPolls.filter((p) => p.rewards_distributed || p.status === POLL_STATUS.CLOSED);
@@ -92,19 +133,17 @@ export default function Distributions() {
   // Calculate totals
   const totals = useMemo(() => {
     // Group pending by token
-    const pendingByToken: Record<string, number> = {};
+    const pendingByToken: Record<number, Amount> = {};
     pendingDistributions.forEach((p) => {
-      const coinSymbol = getCoinSymbol(p.coin_type_id as CoinTypeId);
-      pendingByToken[coinSymbol] = (pendingByToken[coinSymbol] || 0) + (p.reward_pool / 1e8);
+      pendingByToken[p.coin_type_id] = (pendingByToken[p.coin_type_id] ?? ZERO_AMOUNT) + p.reward_pool;
     });
 
     // Group distributed by token
-    const distributedByToken: Record<string, number> = {};
+    const distributedByToken: Record<number, Amount> = {};
     myPolls
       .filter((p) => p.rewards_distributed)
       .forEach((p) => {
-        const coinSymbol = getCoinSymbol(p.coin_type_id as CoinTypeId);
-        distributedByToken[coinSymbol] = (distributedByToken[coinSymbol] || 0) + (p.reward_pool / 1e8);
+        distributedByToken[p.coin_type_id] = (distributedByToken[p.coin_type_id] ?? ZERO_AMOUNT) + p.reward_pool;
       });
 
     return {
@@ -135,6 +174,57 @@ export default function Distributions() {
     }
   };
 
+  // Handle finalize (sends unclaimed rewards to the treasury)
+  const handleFinalize = async (pollId: number, coinTypeId: CoinTypeId) => {
+    setFinalizingPollId(pollId);
+    try {
+      const result = await finalizePoll(pollId, coinTypeId);
+      showTransactionSuccessToast(
+        result.hash,
+        "Poll Finalized!",
+        "Unclaimed rewards were sent to the treasury.",
+        config.explorerUrl,
+        result.sponsored
+      );
+      await Promise.all([fetchPolls(), refetchDeadlines()]);
+    } catch (error) {
+      console.error("Failed to finalize:", error);
+      showTransactionErrorToast("Failed to finalize poll", error instanceof Error ? error : "Transaction failed");
+    } finally {
+      setFinalizingPollId(null);
+    }
+  };
+
+  // Opt in or out of automatic finalization by the platform finalizer
+  const handleAutoFinalizeChange = async (enabled: boolean) => {
+    if (!deadlines?.finalizerAddress) return;
+
+    setIsUpdatingDelegate(true);
+    try {
+      const result = enabled
+        ? await setFinalizeDelegate(deadlines.finalizerAddress)
+        : await removeFinalizeDelegate();
+      showTransactionSuccessToast(
+        result.hash,
+        enabled ? "Automatic Finalization Enabled" : "Automatic Finalization Disabled",
+        enabled
+          ? "Your closed polls will be finalized once their grace period ends."
+          : "You'll need to finalize your polls yourself.",
+        config.explorerUrl,
+        result.sponsored
+      );
+      await refetchDeadlines();
+    } catch (error) {
+      console.error("Failed to update finalize delegate:", error);
+      showTransactionErrorToast(
+        enabled ? "Failed to enable automatic finalization" : "Failed to disable automatic finalization",
+        error instanceof Error ? error : "Transaction failed"
+      );
+    } finally {
+      setIsUpdatingDelegate(false);
+    }
+  };
+
   // Loading skeleton
   const DistributionCardSkeleton = () => (
     <div className="flex items-center justify-between p-4 rounded-lg bg-background/50 border border-border/50">
@@ -177,9 +267,10 @@ export default function Distributions() {
               ) : Object.keys(totals.pendingByToken).length === 0 ? (
                 <p className="text-3xl font-bold font-mono">0</p>
               ) : (
-                Object.entries(totals.pendingByToken).map(([token, amount]) => (
-                  <p key={token} className="text-2xl font-bold font-mono">
-                    {amount.toFixed(4)} <span className="text-base">{token}</span>
+                Object.entries(totals.pendingByToken).map(([coinTypeId, amount]) => (
+                  <p key={coinTypeId} className="text-2xl font-bold font-mono">
+                    {formatBalance(amount, getCoinDecimals(Number(coinTypeId) as CoinTypeId))}{" "}
+                    <span className="text-base">{getCoinSymbol(Number(coinTypeId) as CoinTypeId)}</span>
                   </p>
                 ))
               )}
@@ -202,9 +293,10 @@ export default function Distributions() {
               ) : Object.keys(totals.distributedByToken).length === 0 ? (
                 <p className="text-3xl font-bold font-mono">0</p>
               ) : (
-                Object.entries(totals.distributedByToken).map(([token, amount]) => (
-                  <p key={token} className="text-2xl font-bold font-mono">
-                    {amount.toFixed(4)} <span className="text-base">{token}</span>
+                Object.entries(totals.distributedByToken).map(([coinTypeId, amount]) => (
+                  <p key={coinTypeId} className="text-2xl font-bold font-mono">
+                    {formatBalance(amount, getCoinDecimals(Number(coinTypeId) as CoinTypeId))}{" "}
+                    <span className="text-base">{getCoinSymbol(Number(coinTypeId) as CoinTypeId)}</span>
                   </p>
                 ))
               )}
@@ -253,7 +345,7 @@ export default function Distributions() {
           ) : (
             <div className="space-y-3">
               {pendingDistributions.map((poll) => {
-                const rewardPool = poll.reward_pool / 1e8;
+                const rewardPool = toTokenAmount(poll.reward_pool, poll.coin_type_id as CoinTypeId);
                 const coinSymbol = getCoinSymbol(poll.coin_type_id as CoinTypeId);
                 const perVoter = poll.totalVotes > 0 ? rewardPool / poll.totalVotes : 0;
 
@@ -319,9 +411,10 @@ export default function Distributions() {
           ) : (
             <div className="divide-y divide-border/50">
               {claimingPolls.map((poll) => {
-                const rewardPool = poll.reward_pool / 1e8;
+                const rewardPool = toTokenAmount(poll.reward_pool, poll.coin_type_id as CoinTypeId);
                 const coinSymbol = getCoinSymbol(poll.coin_type_id as CoinTypeId);
                 const claimedCount = poll.claimed.length;
+                const claimDeadline = deadlineByPoll.get(poll.id)?.claimDeadline;
 
                 return (
                   <div
@@ -336,12 +429,26 @@ export default function Distributions() {
                       </Link>
                       <p className="text-sm text-muted-foreground">
                         {claimedCount}/{poll.totalVotes} claimed • {rewardPool.toFixed(4)} {coinSymbol} remaining
+                        {claimDeadline && (
+                          <>
+                            {" "}• claim window {new Date(claimDeadline) > new Date() ? "ends" : "ended"}{" "}
+                            {formatTimeUntil(claimDeadline)}
+                          </>
+                        )}
                       </p>
                     </div>
                     <div className="flex items-center gap-2">
                       <Badge className="bg-yellow-500/20 text-yellow-500 border-yellow-500/50">
                         <Clock className="w-3 h-3 mr-1" /> Claiming
                       </Badge>
+                      <ExportResultsDialog
+                        target={{ kind: "poll", pollId: poll.id }}
+                        trigger={
+                          <Button variant="ghost" size="sm" title="Export results">
+                            <Download className="w-4 h-4" />
+                          </Button>
+                        }
+                      />
                       <Link href={`/poll/${poll.id}`}>
                         <Button variant="ghost" size="sm">
                           <ExternalLink className="w-4 h-4" />
@@ -356,6 +463,113 @@ export default function Distributions() {
         </CardContent>
       </Card>
 
+      {/* Finalization */}
+      <Card className="mb-8">
+        <CardHeader className="flex flex-row items-start justify-between gap-4">
+          <div>
+            <CardTitle className="text-lg flex items-center gap-2">
+              <Archive className="w-5 h-5 text-primary" />
+              Finalization
+            </CardTitle>
+            <p className="text-sm text-muted-foreground mt-1">
+              Closed polls can be finalized{" "}
+              {deadlines?.claimPeriodSecs ? `${Math.round(deadlines.claimPeriodSecs / 86400)} day(s)` : "a grace period"}{" "}
+              after closing. Unclaimed rewards go to the treasury.
+            </p>
+          </div>
+          {deadlines?.finalizerAddress && (
+            <div className="flex items-center gap-2 shrink-0">
+              <Bot className="w-4 h-4 text-muted-foreground" />
+              <span className="text-sm">Auto-finalize</span>
+              <Switch
+                checked={deadlines.delegated}
+                onCheckedChange={handleAutoFinalizeChange}
+                disabled={isUpdatingDelegate}
+                aria-label="Automatic finalization"
+              />
+            </div>
+          )}
+        </CardHeader>
+        <CardContent>
+          {deadlinesLoading ? (
+            <div className="space-y-3">
+              <DistributionCardSkeleton />
+            </div>
+          ) : finalizablePolls.length === 0 && awaitingFinalization.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">
+              <Archive className="w-12 h-12 mx-auto mb-4 opacity-30" />
+              <p>No polls waiting to be finalized.</p>
+              <p className="text-sm mt-1">Polls appear here once you close claims on them.</p>
+            </div>
+          ) : (
+            <div className="space-y-3">
+              {finalizablePolls.map((poll) => {
+                const rewardPool = toTokenAmount(toAmount(poll.rewardPool), poll.coinTypeId as CoinTypeId);
+                const coinSymbol = getCoinSymbol(poll.coinTypeId as CoinTypeId);
+
+                return (
+                  <div
+                    key={poll.pollId}
+                    className="flex items-center justify-between p-4 rounded-lg bg-primary/5 border border-primary/20"
+                  >
+                    <div className="flex-1">
+                      <Link href={`/poll/${poll.pollId}`}>
+                        <span className="font-medium hover:text-primary transition-colors">{poll.title}</span>
+                      </Link>
+                      <p className="text-sm text-muted-foreground">
+                        {rewardPool.toFixed(4)} {coinSymbol} unclaimed • finalizable since{" "}
+                        {new Date(poll.finalizableAt!).toLocaleDateString()}
+                      </p>
+                      {poll.autoFinalize?.error && (
+                        <p className="text-xs text-destructive mt-1">
+                          Automatic finalization failed: {poll.autoFinalize.error}
+                        </p>
+                      )}
+                    </div>
+                    <Button
+                      onClick={() => handleFinalize(poll.pollId, poll.coinTypeId as CoinTypeId)}
+                      disabled={finalizingPollId === poll.pollId}
+                    >
+                      {finalizingPollId === poll.pollId ? (
+                        <>
+                          <Loader2 className="w-4 h-4 mr-2 animate-spin" /> Finalizing...
+                        </>
+                      ) : (
+                        <>
+                          <Archive className="w-4 h-4 mr-2" /> Finalize
+                        </>
+                      )}
+                    </Button>
+                  </div>
+                );
+              })}
+
+              {awaitingFinalization.length > 0 && (
+                <div className="divide-y divide-border/50">
+                  {awaitingFinalization.map((poll) => (
+                    <div key={poll.pollId} className="flex items-center justify-between py-3">
+                      <div>
+                        <Link href={`/poll/${poll.pollId}`}>
+                          <p className="font-medium hover:text-primary transition-colors">{poll.title}</p>
+                        </Link>
+                        <p className="text-sm text-muted-foreground">
+                          {poll.finalizableAt
+                            ? `Finalizable ${formatTimeUntil(poll.finalizableAt)}`
+                            : "Waiting for the grace period"}
+                        </p>
+                      </div>
+                      <Badge variant="outline" className="text-xs">
+                        <Timer className="w-3 h-3 mr-1" /> Grace period
+                      </Badge>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
       {/* Distribution History */}
       <Card>
         <CardHeader>
@@ -378,7 +592,7 @@ export default function Distributions() {
               {completedDistributions
                 .filter((p) => p.rewards_distributed)
                 .map((poll) => {
-                  const rewardPool = poll.reward_pool / 1e8;
+                  const rewardPool = toTokenAmount(poll.reward_pool, poll.coin_type_id as CoinTypeId);
                   const coinSymbol = getCoinSymbol(poll.coin_type_id as CoinTypeId);
 
                   return (
@@ -400,6 +614,14 @@ export default function Distributions() {
                         <Badge className="bg-green-500/20 text-green-500 border-green-500/50">
                           <CheckCircle2 className="w-3 h-3 mr-1" /> Distributed
                         </Badge>
+                        <ExportResultsDialog
+                          target={{ kind: "poll", pollId: poll.id }}
+                          trigger={
+                            <Button variant="ghost" size="sm" title="Export results">
+                              <Download className="w-4 h-4" />
+                            </Button>
+                          }
+                        />
                         <Link href={`/poll/${poll.id}`}>
                           <Button variant="ghost" size="sm">
                             <ExternalLink className="w-4 h-4" />
@@ -13,6 +13,7 @@ import { Textarea } from "@/components/ui/textarea";
 import { Label } from "@/components/ui/label";
 import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
+import { Switch } from "@/components/ui/switch";
 import {
   Select,
   SelectContent,
@@ -30,6 +31,8 @@ import {
   Plus,
   GripVertical,
   CheckCircle2,
+  MessageSquareText,
+  GitBranch,
 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import {
@@ -37,11 +40,20 @@ import {
   useUpdateQuestionnaire,
   useRemovePollFromQuestionnaire,
   useReorderQuestionnairePolls,
+  useAddTextQuestion,
+  useRemoveTextQuestion,
+  useUpdateItemBranching,
   QUESTIONNAIRE_STATUS,
+  QUESTIONNAIRE_REWARD_TYPE,
+  QUESTIONNAIRE_ITEM_KIND,
+  TEXT_ANSWER_LIMITS,
   getQuestionnaireStatusLabel,
   getQuestionnaireStatusColor,
   type QuestionnairePoll,
+  type QuestionnaireSettings,
+  type QuestionnaireBranching,
 } from "@/hooks/useQuestionnaire";
+import { QuestionnaireSettingsFields, BranchingRulesEditor } from "@/components/questionnaire";
 import { useContract } from "@/hooks/useContract";
 import { DurationInput } from "@/components/ui/duration-input";
 import { useDurationInput } from "@/hooks/useDurationInput";
@@ -77,19 +89,32 @@ export default function EditQuestionnaire() {
   const updateMutation = useUpdateQuestionnaire();
   const removePollMutation = useRemovePollFromQuestionnaire();
   const reorderMutation = useReorderQuestionnairePolls();
+  const addTextQuestionMutation = useAddTextQuestion();
+  const removeTextQuestionMutation = useRemoveTextQuestion();
+  const branchingMutation = useUpdateItemBranching();
 
   // Form state
   const [title, setTitle] = useState("");
   const [description, setDescription] = useState("");
   const [category, setCategory] = useState("");
+  const [settings, setSettings] = useState<QuestionnaireSettings>({});
   const [hasChanges, setHasChanges] = useState(false);
 
   // Duration state
   const durationInput = useDurationInput("custom");
 
-  // Local polls state for drag-and-drop reordering
+  // Local items state for drag-and-drop reordering (keyed by item ID; text questions have no poll ID)
   const [localPolls, setLocalPolls] = useState<QuestionnairePoll[]>([]);
-  const [draggedPollId, setDraggedPollId] = useState<number | null>(null);
+  const [draggedPollId, setDraggedPollId] = useState<string | null>(null);
+
+  // Item whose branching rules are open for editing
+  const [branchingItemId, setBranchingItemId] = useState<string | null>(null);
+
+  // New text question form
+  const [textPrompt, setTextPrompt] = useState("");
+  const [textMinLength, setTextMinLength] = useState(0);
+  const [textMaxLength, setTextMaxLength] = useState<number>(TEXT_ANSWER_LIMITS.DEFAULT_MAX);
+  const [textRequired, setTextRequired] = useState(true);
 
   // Initialize form when questionnaire loads
   useEffect(() => {
@@ -97,6 +122,7 @@ export default function EditQuestionnaire() {
       setTitle(questionnaire.title);
       setDescription(questionnaire.description || "");
       setCategory(questionnaire.category || "");
+      setSettings(questionnaire.settings);
 
       // Set duration dates
       if (questionnaire.startTime) {
@@ -124,10 +150,11 @@ export default function EditQuestionnaire() {
     const hasBasicChanges =
       title !== questionnaire.title ||
       description !== (questionnaire.description || "") ||
-      category !== (questionnaire.category || "");
+      category !== (questionnaire.category || "") ||
+      JSON.stringify(settings) !== JSON.stringify(questionnaire.settings);
 
     setHasChanges(hasBasicChanges);
-  }, [title, description, category, questionnaire]);
+  }, [title, description, category, settings, questionnaire]);
 
   // Check if editable (only DRAFT status)
   const isEditable = questionnaire?.status === QUESTIONNAIRE_STATUS.DRAFT;
@@ -149,6 +176,7 @@ export default function EditQuestionnaire() {
         category: category || undefined,
         startTime: new Date(durationInput.startDate).toISOString(),
         endTime: new Date(durationInput.endDate).toISOString(),
+        settings,
       });
 
       toast({
@@ -168,19 +196,23 @@ export default function EditQuestionnaire() {
     }
   };
 
-  // Handle remove poll
-  const handleRemovePoll = async (pollId: number) => {
+  // Handle remove poll or text question
+  const handleRemovePoll = async (item: QuestionnairePoll) => {
     if (!questionnaireId || !isEditable) return;
 
     try {
-      await removePollMutation.mutateAsync({
-        questionnaireId,
-        pollId,
-      });
+      if (item.pollId === null) {
+        await removeTextQuestionMutation.mutateAsync({ questionnaireId, questionId: item.id });
+      } else {
+        await removePollMutation.mutateAsync({
+          questionnaireId,
+          pollId: item.pollId,
+        });
+      }
 
       toast({
-        title: "Poll Removed",
-        description: "Poll has been removed from the questionnaire.",
+        title: item.pollId === null ? "Question Removed" : "Poll Removed",
+        description: "It has been removed from the questionnaire.",
       });
 
       refetch();
@@ -194,11 +226,65 @@ export default function EditQuestionnaire() {
     }
   };
 
+  // Handle branching rules save
+  const handleSaveBranching = async (itemId: string, branching: QuestionnaireBranching | null) => {
+    if (!questionnaireId || !isEditable) return;
+
+    try {
+      await branchingMutation.mutateAsync({ questionnaireId, itemId, branching });
+
+      toast({
+        title: "Rules Saved",
+        description: branching ? "Branching rules have been updated." : "Branching rules have been cleared.",
+      });
+
+      setBranchingItemId(null);
+      refetch();
+    } catch (err) {
+      console.error("Failed to save branching rules:", err);
+      toast({
+        title: "Save Failed",
+        description: err instanceof Error ? err.message : "Failed to save branching rules",
+        variant: "destructive",
+      });
+    }
+  };
+
+  // Handle add text question
+  const handleAddTextQuestion = async () => {
+    if (!questionnaireId || !isEditable || !textPrompt.trim()) return;
+
+    try {
+      await addTextQuestionMutation.mutateAsync({
+        questionnaireId,
+        prompt: textPrompt.trim(),
+        minLength: textMinLength,
+        maxLength: textMaxLength,
+        required: textRequired,
+      });
+
+      toast({
+        title: "Question Added",
+        description: "Text question has been added to the questionnaire.",
+      });
+
+      setTextPrompt("");
+      refetch();
+    } catch (err) {
+      console.error("Failed to add text question:", err);
+      toast({
+        title: "Add Failed",
+        description: err instanceof Error ? err.message : "Failed to add text question",
+        variant: "destructive",
+      });
+    }
+  };
+
   // Drag and drop handlers
-  const handleDragStart = useCallback((e: React.DragEvent, pollId: number) => {
-    setDraggedPollId(pollId);
+  const handleDragStart = useCallback((e: React.DragEvent, itemId: string) => {
+    setDraggedPollId(itemId);
     e.dataTransfer.effectAllowed = "move";
-    e.dataTransfer.setData("text/plain", pollId.toString());
+    e.dataTransfer.setData("text/plain", itemId);
   }, []);
 
   const handleDragOver = useCallback((e: React.DragEvent) => {
@@ -206,13 +292,13 @@ export default function EditQuestionnaire() {
     e.dataTransfer.dropEffect = "move";
   }, []);
 
-  const handleDragEnter = useCallback((e: React.DragEvent, targetPollId: number) => {
+  const handleDragEnter = useCallback((e: React.DragEvent, targetPollId: string) => {
     e.preventDefault();
     if (draggedPollId === null || draggedPollId === targetPollId) return;
 
     setLocalPolls((prevPolls) => {
-      const draggedIndex = prevPolls.findIndex((p) => p.pollId === draggedPollId);
-      const targetIndex = prevPolls.findIndex((p) => p.pollId === targetPollId);
+      const draggedIndex = prevPolls.findIndex((p) => p.id === draggedPollId);
+      const targetIndex = prevPolls.findIndex((p) => p.id === targetPollId);
 
       if (draggedIndex === -1 || targetIndex === -1) return prevPolls;
 
@@ -232,7 +318,7 @@ export default function EditQuestionnaire() {
 
     // Save the new order to backend
     const pollOrder = localPolls.map((poll, index) => ({
-      pollId: poll.pollId,
+      id: poll.id,
       sortOrder: index,
     }));
 
@@ -398,6 +484,14 @@ export default function EditQuestionnaire() {
             <Link href={`/questionnaire/${questionnaire.id}`}>
               <Button variant="outline">View Questionnaire</Button>
             </Link>
+            {questionnaire.polls.some((item) => item.kind === QUESTIONNAIRE_ITEM_KIND.TEXT) && (
+              <Link href={`/creator/questionnaires/${questionnaire.id}/responses`}>
+                <Button variant="outline">
+                  <MessageSquareText className="h-4 w-4 mr-2" />
+                  Text Responses
+                </Button>
+              </Link>
+            )}
             <Link href="/creator/questionnaires">
               <Button variant="ghost">Back to List</Button>
             </Link>
@@ -482,6 +576,14 @@ export default function EditQuestionnaire() {
               onEndDateChange={durationInput.setEndDate}
               label="Duration"
             />
+
+            <div className="pt-2 border-t">
+              <QuestionnaireSettingsFields
+                settings={settings}
+                onChange={setSettings}
+                isSharedPool={questionnaire.rewardType === QUESTIONNAIRE_REWARD_TYPE.SHARED_POOL}
+              />
+            </div>
           </CardContent>
         </Card>
 
@@ -490,9 +592,10 @@ export default function EditQuestionnaire() {
           <CardHeader>
             <div className="flex items-center justify-between">
               <div>
-                <CardTitle>Polls ({localPolls.length})</CardTitle>
+                <CardTitle>Questions ({localPolls.length})</CardTitle>
                 <CardDescription>
-                  Drag to reorder polls. Changes are saved automatically.
+                  Drag to reorder polls and text questions. Changes are saved automatically.
+                  Use branching to skip questions based on earlier answers.
                 </CardDescription>
               </div>
               <Link href={`/questionnaire/create?addTo=${questionnaire.id}`}>
@@ -514,37 +617,73 @@ export default function EditQuestionnaire() {
             ) : (
               <div className="space-y-2">
                 {localPolls.map((poll, index) => (
-                  <div
-                    key={poll.id}
-                    draggable
-                    onDragStart={(e) => handleDragStart(e, poll.pollId)}
-                    onDragOver={handleDragOver}
-                    onDragEnter={(e) => handleDragEnter(e, poll.pollId)}
-                    onDragEnd={handleDragEnd}
-                    className={`flex items-center gap-3 p-3 border rounded-lg transition-all ${
-                      draggedPollId === poll.pollId
-                        ? "opacity-50 border-primary bg-primary/10"
-                        : "bg-muted/30 hover:bg-muted/50"
-                    }`}
-                  >
-                    <GripVertical className="h-4 w-4 text-muted-foreground cursor-grab active:cursor-grabbing" />
-                    <span className="text-muted-foreground w-6">
-                      {index + 1}.
-                    </span>
-                    <div className="flex-1 min-w-0">
-                      <p className="font-medium truncate">
-                        Poll #{poll.pollId}
-                      </p>
-                    </div>
-                    <Button
-                      variant="ghost"
-                      size="sm"
-                      onClick={() => handleRemovePoll(poll.pollId)}
-                      disabled={removePollMutation.isPending || reorderMutation.isPending}
-                      className="text-destructive hover:text-destructive"
+                  <div key={poll.id} className="space-y-2">
+                    <div
+                      draggable
+                      onDragStart={(e) => handleDragStart(e, poll.id)}
+                      onDragOver={handleDragOver}
+                      onDragEnter={(e) => handleDragEnter(e, poll.id)}
+                      onDragEnd={handleDragEnd}
+                      className={`flex items-center gap-3 p-3 border rounded-lg transition-all ${
+                        draggedPollId === poll.id
+                          ? "opacity-50 border-primary bg-primary/10"
+                          : "bg-muted/30 hover:bg-muted/50"
+                      }`}
                     >
-                      <Trash2 className="h-4 w-4" />
-                    </Button>
+                      <GripVertical className="h-4 w-4 text-muted-foreground cursor-grab active:cursor-grabbing" />
+                      <span className="text-muted-foreground w-6">
+                        {index + 1}.
+                      </span>
+                      <div className="flex-1 min-w-0">
+                        {poll.pollId === null ? (
+                          <p className="font-medium truncate flex items-center gap-2">
+                            <MessageSquareText className="h-4 w-4 text-muted-foreground shrink-0" />
+                            {poll.prompt}
+                            {poll.textSettings?.required === false && (
+                              <Badge variant="outline" className="text-xs">Optional</Badge>
+                            )}
+                          </p>
+                        ) : (
+                          <p className="font-medium truncate">
+                            Poll #{poll.pollId}
+                          </p>
+                        )}
+                      </div>
+                      {poll.branching && (
+                        <Badge variant="outline" className="text-xs shrink-0">
+                          {poll.branching.showIf?.length ? "Conditional" : "Skips ahead"}
+                        </Badge>
+                      )}
+                      <Button
+                        variant={branchingItemId === poll.id ? "secondary" : "ghost"}
+                        size="sm"
+                        onClick={() => setBranchingItemId(branchingItemId === poll.id ? null : poll.id)}
+                        title="Branching rules"
+                      >
+                        <GitBranch className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleRemovePoll(poll)}
+                        disabled={
+                          removePollMutation.isPending ||
+                          removeTextQuestionMutation.isPending ||
+                          reorderMutation.isPending
+                        }
+                        className="text-destructive hover:text-destructive"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                    {branchingItemId === poll.id && (
+                      <BranchingRulesEditor
+                        items={localPolls}
+                        item={poll}
+                        onSave={(branching) => handleSaveBranching(poll.id, branching)}
+                        isSaving={branchingMutation.isPending}
+                      />
+                    )}
                   </div>
                 ))}
                 {reorderMutation.isPending && (
@@ -558,6 +697,78 @@ export default function EditQuestionnaire() {
           </CardContent>
         </Card>
 
+        {/* Add Text Question */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Add Text Question</CardTitle>
+            <CardDescription>
+              Open-ended questions are answered off chain; answers are length-checked and profanity is masked.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="textPrompt">Question</Label>
+              <Textarea
+                id="textPrompt"
+                value={textPrompt}
+                onChange={(e) => setTextPrompt(e.target.value)}
+                maxLength={TEXT_ANSWER_LIMITS.PROMPT_MAX}
+                placeholder="What would you like to see improved?"
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="textMinLength">Minimum characters</Label>
+                <Input
+                  id="textMinLength"
+                  type="number"
+                  min={0}
+                  max={textMaxLength}
+                  value={textMinLength}
+                  onChange={(e) => setTextMinLength(Math.max(0, parseInt(e.target.value) || 0))}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="textMaxLength">Maximum characters</Label>
+                <Input
+                  id="textMaxLength"
+                  type="number"
+                  min={1}
+                  max={TEXT_ANSWER_LIMITS.MAX}
+                  value={textMaxLength}
+                  onChange={(e) =>
+                    setTextMaxLength(
+                      Math.min(TEXT_ANSWER_LIMITS.MAX, Math.max(1, parseInt(e.target.value) || 1))
+                    )
+                  }
+                />
+              </div>
+            </div>
+            <div className="flex items-center justify-between">
+              <div className="flex items-center gap-2">
+                <Switch id="textRequired" checked={textRequired} onCheckedChange={setTextRequired} />
+                <Label htmlFor="textRequired">Required</Label>
+              </div>
+              <Button
+                variant="outline"
+                onClick={handleAddTextQuestion}
+                disabled={
+                  !textPrompt.trim() ||
+                  textMinLength > textMaxLength ||
+                  addTextQuestionMutation.isPending
+                }
+              >
+                {addTextQuestionMutation.isPending ? (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <Plus className="h-4 w-4 mr-2" />
+                )}
+                Add Question
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+
         {/* Save Button */}
         <div className="flex items-center justify-between">
           <div className="text-sm text-muted-foreground">
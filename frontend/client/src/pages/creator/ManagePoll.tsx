@@ -48,21 +48,26 @@ import {
   ChevronUp,
   HandCoins,
   Copy,
+  Download,
 } from "lucide-react";
 import { useContract } from "@/hooks/useContract";
 import { useWalletConnection } from "@/hooks/useWalletConnection";
+import { useRecordFunding } from "@/hooks/useDonorFundings";
 import { useNetwork } from "@/contexts/NetworkContext";
-import { truncateAddress } from "@/lib/contract";
+import { getRewardPerVoter, truncateAddress } from "@/lib/contract";
+import { toTokenAmount } from "@/lib/balance";
 import type { PollWithMeta } from "@/types/poll";
 import { POLL_STATUS, DISTRIBUTION_MODE } from "@/types/poll";
 import { getCoinSymbol, CoinTypeId } from "@/lib/tokens";
 import { toast } from "sonner";
+import { ExportResultsDialog } from "@/components/ExportResultsDialog";
 import { showTransactionSuccessToast, showTransactionErrorToast } from "@/lib/transaction-feedback";
 
 export default function ManagePoll() {
   const { pollId: pollIdParam } = useParams();
   const [, navigate] = useLocation();
   const { isConnected, address } = useWalletConnection();
+  const recordFunding = useRecordFunding();
   const { getPoll, startClaims, distributeRewards, withdrawRemaining, contractAddress } = useContract();
   const { config } = useNetwork();
 
@@ -169,6 +174,7 @@ export default function ManagePoll() {
     setActionLoading("withdraw");
     try {
       const result = await withdrawRemaining(pollId, poll.coin_type_id as CoinTypeId);
+      recordFunding(result.hash);
       showTransactionSuccessToast(
         result.hash,
         "Funds Withdrawn!",
@@ -269,11 +275,8 @@ export default function ManagePoll() {
     );
   }
 
-  const rewardPoolMove = poll.reward_pool / 1e8;
-  const rewardPerVoteMove = poll.reward_per_vote / 1e8;
-  const estimatedRewardPerVoter = poll.totalVotes > 0
-    ? (poll.reward_per_vote > 0 ? rewardPerVoteMove : rewardPoolMove / poll.totalVotes)
-    : rewardPerVoteMove > 0 ? rewardPerVoteMove : 0;
+  const rewardPoolMove = toTokenAmount(poll.reward_pool, poll.coin_type_id as CoinTypeId);
+  const estimatedRewardPerVoter = toTokenAmount(getRewardPerVoter(poll), poll.coin_type_id as CoinTypeId);
 
   return (
     <CreatorLayout>
@@ -294,9 +297,19 @@ export default function ManagePoll() {
               <span>{poll.timeRemaining}</span>
             </div>
           </div>
-          <Button variant="outline" onClick={fetchPoll} disabled={isLoading}>
-            <RefreshCcw className={`w-4 h-4 mr-2 ${isLoading ? "animate-spin" : ""}`} /> Refresh
-          </Button>
+          <div className="flex gap-2">
+            <ExportResultsDialog
+              target={{ kind: "poll", pollId: poll.id }}
+              trigger={
+                <Button variant="outline">
+                  <Download className="w-4 h-4 mr-2" /> Export
+                </Button>
+              }
+            />
+            <Button variant="outline" onClick={fetchPoll} disabled={isLoading}>
+              <RefreshCcw className={`w-4 h-4 mr-2 ${isLoading ? "animate-spin" : ""}`} /> Refresh
+            </Button>
+          </div>
         </div>
       </div>
 
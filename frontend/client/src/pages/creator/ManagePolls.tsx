@@ -23,6 +23,7 @@ import {
   Clock,
 } from "lucide-react";
 import { getCoinSymbol, type CoinTypeId } from "@/lib/tokens";
+import { toTokenAmount } from "@/lib/balance";
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -41,6 +42,7 @@ import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { Label } from "@/components/ui/label";
 import { useContract } from "@/hooks/useContract";
 import { useWalletConnection } from "@/hooks/useWalletConnection";
+import { useRecordFunding } from "@/hooks/useDonorFundings";
 import type { PollWithMeta } from "@/types/poll";
 import { POLL_STATUS, DISTRIBUTION_MODE } from "@/types/poll";
 import { useNetwork } from "@/contexts/NetworkContext";
@@ -49,6 +51,7 @@ import { showTransactionSuccessToast, showTransactionErrorToast } from "@/lib/tr
 export default function ManagePolls() {
   const [, navigate] = useLocation();
   const { isConnected, address } = useWalletConnection();
+  const recordFunding = useRecordFunding();
   const { getAllPolls, startClaims, closePoll, distributeRewards, withdrawRemaining, finalizePoll, canFinalizePoll, contractAddress } = useContract();
   const { config } = useNetwork();
 
@@ -212,6 +215,7 @@ export default function ManagePolls() {
     setActionLoading({ type: "withdraw", pollId });
     try {
       const result = await withdrawRemaining(pollId, coinTypeId);
+      recordFunding(result.hash);
       showTransactionSuccessToast(
         result.hash,
         "Funds Withdrawn!",
@@ -360,7 +364,7 @@ export default function ManagePolls() {
             ) : (
               <div className="divide-y divide-border/50">
                 {filteredPolls.map((poll) => {
-                  const rewardPool = poll.reward_pool / 1e8;
+                  const rewardPool = toTokenAmount(poll.reward_pool, poll.coin_type_id as CoinTypeId);
                   const coinSymbol = getCoinSymbol(poll.coin_type_id as CoinTypeId);
                   const isActionLoading = actionLoading?.pollId === poll.id;
 
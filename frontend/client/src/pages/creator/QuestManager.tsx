@@ -3,6 +3,7 @@ import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { CreatorLayout } from "@/components/layouts/CreatorLayout";
 import { useWalletConnection } from "@/hooks/useWalletConnection";
 import { useSeason } from "@/hooks/useQuests";
+import { useNetwork } from "@/contexts/NetworkContext";
 import { apiRequest } from "@/lib/queryClient";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -29,7 +30,7 @@ import {
   Clock,
   AlertCircle
 } from "lucide-react";
-import { QUEST_TYPES, QUEST_TYPE_NAMES, type Quest } from "@shared/schema";
+import { QUEST_TYPES, QUEST_TYPE_NAMES, QUEST_ACTION_NAMES, type Quest } from "@shared/schema";
 
 // Quest Templates for creators to choose from
 interface QuestTemplate {
@@ -185,6 +186,7 @@ interface CreateSeasonForm {
 
 export default function QuestManager() {
   const { isConnected, address } = useWalletConnection();
+  const { network } = useNetwork();
   const { season, isLoading: isSeasonLoading, refetch: refetchSeason } = useSeason();
   const { toast } = useToast();
   const queryClient = useQueryClient();
@@ -208,10 +210,10 @@ export default function QuestManager() {
 
   // Fetch quests created by this creator
   const { data: creatorQuests = [], isLoading: isQuestsLoading } = useQuery<Quest[]>({
-    queryKey: ["creatorQuests", address, season?.id],
+    queryKey: ["creatorQuests", address, season?.id, network],
     queryFn: async () => {
       if (!address || !season?.id) return [];
-      const res = await fetch(`/api/quests/creator/${address}?seasonId=${season.id}`, {
+      const res = await fetch(`/api/quests/creator/${address}?seasonId=${season.id}&network=${network}`, {
         credentials: "include",
       });
       if (!res.ok) throw new Error("Failed to fetch quests");
@@ -268,6 +270,7 @@ export default function QuestManager() {
       const endTime = new Date(now.getTime() + seasonData.durationDays * 24 * 60 * 60 * 1000);
 
       const res = await apiRequest("POST", "/api/seasons", {
+        network,
         name: seasonData.name,
         description: seasonData.description,
         startTime: now.toISOString(),
@@ -675,11 +678,11 @@ export default function QuestManager() {
                         <SelectValue />
                       </SelectTrigger>
                       <SelectContent>
-                        <SelectItem value="vote">Vote</SelectItem>
-                        <SelectItem value="streak">Streak Days</SelectItem>
-                        <SelectItem value="total_votes">Total Votes</SelectItem>
-                        <SelectItem value="claim_reward">Claim Rewards</SelectItem>
-                        <SelectItem value="early_vote">Early Vote</SelectItem>
+                        {Object.entries(QUEST_ACTION_NAMES).map(([value, name]) => (
+                          <SelectItem key={value} value={value}>
+                            {name}
+                          </SelectItem>
+                        ))}
                       </SelectContent>
                     </Select>
                   </div>
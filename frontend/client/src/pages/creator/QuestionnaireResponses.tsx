@@ -0,0 +1,255 @@
+/**
+ * QuestionnaireResponses - Browse answers to a questionnaire's free-text questions
+ * Shows per-question keyword frequencies; clicking a keyword filters the responses.
+ */
+
+import { useState, useEffect } from "react";
+import { useRoute, Link } from "wouter";
+import { CreatorLayout } from "@/components/layouts/CreatorLayout";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  AlertCircle,
+  ArrowLeft,
+  ChevronLeft,
+  ChevronRight,
+  Flag,
+  MessageSquareText,
+  Search,
+  X,
+} from "lucide-react";
+import { ExportResultsDialog } from "@/components/ExportResultsDialog";
+import { useQuestionnaire, useTextResponses } from "@/hooks/useQuestionnaire";
+import { truncateAddress } from "@/lib/contract";
+
+const PAGE_SIZE = 25;
+
+export default function QuestionnaireResponses() {
+  const [, params] = useRoute("/creator/questionnaires/:id/responses");
+  const questionnaireId = params?.id;
+
+  const [questionId, setQuestionId] = useState<string | undefined>();
+  const [keyword, setKeyword] = useState("");
+  const [search, setSearch] = useState("");
+  const [offset, setOffset] = useState(0);
+
+  const { data: questionnaire } = useQuestionnaire(questionnaireId);
+  const { data, isLoading, error } = useTextResponses(questionnaireId, {
+    questionId,
+    keyword: keyword || undefined,
+    limit: PAGE_SIZE,
+    offset,
+  });
+
+  // Debounce the search box into the keyword filter
+  useEffect(() => {
+    const timer = setTimeout(() => setKeyword(search.trim()), 300);
+    return () => clearTimeout(timer);
+  }, [search]);
+
+  // Back to the first page whenever the filters change
+  useEffect(() => {
+    setOffset(0);
+  }, [questionId, keyword]);
+
+  const questions = data?.questions ?? [];
+  const selectedQuestion = questions.find((q) => q.id === questionId);
+  const keywords = selectedQuestion
+    ? selectedQuestion.keywords
+    : questions.length === 1
+      ? questions[0].keywords
+      : [];
+  const promptFor = (id: string) => questions.find((q) => q.id === id)?.prompt ?? "Removed question";
+  const total = data?.total ?? 0;
+
+  return (
+    <CreatorLayout
+      title="Text Responses"
+      description={questionnaire?.title ?? "Free-text answers from respondents"}
+    >
+      <div className="space-y-6">
+        <div className="flex items-center justify-between">
+          <Link href={`/creator/questionnaires/${questionnaireId}`}>
+            <Button variant="ghost" size="sm">
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Back to Questionnaire
+            </Button>
+          </Link>
+          {questionnaireId && (
+            <ExportResultsDialog
+              target={{ kind: "questionnaire", questionnaireId }}
+              initialSheet="text_responses"
+            />
+          )}
+        </div>
+
+        {error ? (
+          <Card>
+            <CardContent className="py-12 text-center">
+              <AlertCircle className="h-12 w-12 mx-auto text-destructive mb-4" />
+              <h3 className="text-lg font-medium">Could Not Load Responses</h3>
+              <p className="text-muted-foreground mt-2">
+                Only the questionnaire's creator can browse its text responses.
+              </p>
+            </CardContent>
+          </Card>
+        ) : isLoading ? (
+          <div className="space-y-4">
+            <Skeleton className="h-32 w-full" />
+            <Skeleton className="h-64 w-full" />
+          </div>
+        ) : questions.length === 0 ? (
+          <Card>
+            <CardContent className="py-12 text-center text-muted-foreground">
+              <MessageSquareText className="h-12 w-12 mx-auto mb-4" />
+              <p>This questionnaire has no text questions.</p>
+            </CardContent>
+          </Card>
+        ) : (
+          <>
+            {/* Filters & keywords */}
+            <Card>
+              <CardHeader>
+                <CardTitle>Keywords</CardTitle>
+                <CardDescription>
+                  Most common words per question, counted once per response. Click one to filter.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="flex flex-col sm:flex-row gap-3">
+                  <Select
+                    value={questionId ?? "all"}
+                    onValueChange={(value) => setQuestionId(value === "all" ? undefined : value)}
+                  >
+                    <SelectTrigger className="sm:w-72">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">All questions</SelectItem>
+                      {questions.map((question) => (
+                        <SelectItem key={question.id} value={question.id}>
+                          {question.prompt} ({question.responseCount})
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <div className="relative flex-1">
+                    <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                    <Input
+                      value={search}
+                      onChange={(e) => setSearch(e.target.value)}
+                      placeholder="Search responses..."
+                      className="pl-9"
+                    />
+                  </div>
+                </div>
+
+                {keywords.length > 0 ? (
+                  <div className="flex flex-wrap gap-2">
+                    {keywords.map(({ word, count }) => (
+                      <Badge
+                        key={word}
+                        variant={keyword === word ? "default" : "outline"}
+                        className="cursor-pointer"
+                        onClick={() => setSearch(keyword === word ? "" : word)}
+                      >
+                        {word}
+                        <span className="ml-1 opacity-60">{count}</span>
+                      </Badge>
+                    ))}
+                  </div>
+                ) : (
+                  <p className="text-sm text-muted-foreground">
+                    {questions.length > 1 && !selectedQuestion
+                      ? "Select a question to see its keywords."
+                      : "No keywords yet."}
+                  </p>
+                )}
+              </CardContent>
+            </Card>
+
+            {/* Responses */}
+            <Card>
+              <CardHeader>
+                <div className="flex items-center justify-between">
+                  <CardTitle>Responses ({total})</CardTitle>
+                  {keyword && (
+                    <Button variant="ghost" size="sm" onClick={() => setSearch("")}>
+                      <X className="h-4 w-4 mr-1" />
+                      Clear "{keyword}"
+                    </Button>
+                  )}
+                </div>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {data?.responses.length === 0 ? (
+                  <p className="text-center py-8 text-muted-foreground">No matching responses.</p>
+                ) : (
+                  data?.responses.map((response) => (
+                    <div
+                      key={`${response.questionId}-${response.walletAddress}`}
+                      className="p-3 border rounded-lg space-y-2"
+                    >
+                      <div className="flex items-center justify-between gap-2 text-xs text-muted-foreground">
+                        <span className="truncate">
+                          {!selectedQuestion && `${promptFor(response.questionId)} · `}
+                          {truncateAddress(response.walletAddress)}
+                        </span>
+                        <span className="flex items-center gap-2 shrink-0">
+                          {response.flagged && (
+                            <Badge variant="destructive" className="text-xs">
+                              <Flag className="h-3 w-3 mr-1" />
+                              Filtered
+                            </Badge>
+                          )}
+                          {new Date(response.answeredAt).toLocaleString()}
+                        </span>
+                      </div>
+                      <p className="text-sm whitespace-pre-wrap break-words">{response.text}</p>
+                    </div>
+                  ))
+                )}
+
+                {total > PAGE_SIZE && (
+                  <div className="flex items-center justify-between pt-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={offset === 0}
+                      onClick={() => setOffset(Math.max(0, offset - PAGE_SIZE))}
+                    >
+                      <ChevronLeft className="h-4 w-4 mr-1" />
+                      Previous
+                    </Button>
+                    <span className="text-sm text-muted-foreground">
+                      {offset + 1}–{Math.min(offset + PAGE_SIZE, total)} of {total}
+                    </span>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={offset + PAGE_SIZE >= total}
+                      onClick={() => setOffset(offset + PAGE_SIZE)}
+                    >
+                      Next
+                      <ChevronRight className="h-4 w-4 ml-1" />
+                    </Button>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </div>
+    </CreatorLayout>
+  );
+}
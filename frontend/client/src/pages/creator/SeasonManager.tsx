@@ -19,6 +19,8 @@ import {
   SEASON_STATUS,
   type SeasonWithStats,
 } from "@/hooks/useSeasons";
+import { formatBalance, parseInputAmount } from "@/lib/balance";
+import { toAmount } from "@shared/schema";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -130,13 +132,23 @@ export default function SeasonManager() {
       return;
     }
 
+    const pulsePoolOctas = pulsePool.trim() === "" ? "0" : parseInputAmount(pulsePool, 8)?.toString();
+    if (pulsePoolOctas === undefined) {
+      toast({
+        title: "Invalid Reward Pool",
+        description: "Enter the PULSE reward pool as a number",
+        variant: "destructive",
+      });
+      return;
+    }
+
     try {
       const result = await createMutation.mutateAsync({
         name: seasonName,
         description: seasonDescription || undefined,
         startTime: new Date(startDate).toISOString(),
         endTime: new Date(endDate).toISOString(),
-        totalPulsePool: pulsePool || "0",
+        totalPulsePool: pulsePoolOctas,
         creatorAddress: address,
       });
 
@@ -574,7 +586,7 @@ function SeasonCard({
           {season.totalPulsePool && season.totalPulsePool !== "0" && (
             <div className="flex items-center gap-2">
               <Coins className="h-4 w-4 text-muted-foreground" />
-              <span>{BigInt(season.totalPulsePool) / BigInt(1e8)} PULSE</span>
+              <span>{formatBalance(toAmount(season.totalPulsePool), 8, 0)} PULSE</span>
             </div>
           )}
 
@@ -17,28 +17,11 @@ import {
 } from "lucide-react";
 import { useContract } from "@/hooks/useContract";
 import { useWalletConnection } from "@/hooks/useWalletConnection";
+import { useDonorFundings } from "@/hooks/useDonorFundings";
 import type { PollWithMeta } from "@/types/poll";
-import { getCoinSymbol, COIN_TYPES, type CoinTypeId } from "@/lib/tokens";
-
-// Local storage key for tracking user's fundings
-const FUNDING_HISTORY_KEY = "mvpulse_funding_history";
-
-interface FundingRecord {
-  pollId: number;
-  amount: number;
-  coinTypeId: number;
-  timestamp: number;
-  txHash: string;
-}
-
-function getFundingHistory(address: string): FundingRecord[] {
-  try {
-    const data = localStorage.getItem(`${FUNDING_HISTORY_KEY}_${address}`);
-    return data ? JSON.parse(data) : [];
-  } catch {
-    return [];
-  }
-}
+import { getCoinSymbol, getCoinDecimals, COIN_TYPES, type CoinTypeId } from "@/lib/tokens";
+import { formatBalance, toTokenAmount } from "@/lib/balance";
+import { ZERO_AMOUNT, toAmount, type Amount } from "@shared/schema";
 
 export default function DonorDashboard() {
   const { isConnected, address } = useWalletConnection();
@@ -46,14 +29,7 @@ export default function DonorDashboard() {
 
   const [polls, setPolls] = useState<PollWithMeta[]>([]);
   const [isLoading, setIsLoading] = useState(true);
-  const [fundingHistory, setFundingHistory] = useState<FundingRecord[]>([]);
-
-  // Load funding history from local storage
-  useEffect(() => {
-    if (address) {
-      setFundingHistory(getFundingHistory(address));
-    }
-  }, [address]);
+  const { polls: ledgerPolls, totals } = useDonorFundings(address);
 
   // Fetch polls
   const fetchPolls = useCallback(async () => {
@@ -79,8 +55,8 @@ export default function DonorDashboard() {
 
   // Get polls the user has funded
   const fundedPollIds = useMemo(() => {
-    return new Set(fundingHistory.map((f) => f.pollId));
-  }, [fundingHistory]);
+    return new Set(ledgerPolls.filter((p) => p.fundingCount > 0).map((p) => p.pollId));
+  }, [ledgerPolls]);
 
   const fundedPolls = useMemo(() => {
     return polls.filter((p) => fundedPollIds.has(p.id));
@@ -93,25 +69,24 @@ export default function DonorDashboard() {
 
   // Calculate stats - group by token type (exclude MOVE, only show PULSE and USDC)
   const stats = useMemo(() => {
-    const fundedByToken: Record<string, number> = {};
-    fundingHistory.forEach((f) => {
+    const fundedByToken: Record<number, Amount> = {};
+    totals.forEach((t) => {
       // Skip MOVE (coin_type_id = 0), only aggregate PULSE and USDC
-      if (f.coinTypeId === COIN_TYPES.MOVE) return;
-      const coinSymbol = getCoinSymbol(f.coinTypeId as CoinTypeId);
-      fundedByToken[coinSymbol] = (fundedByToken[coinSymbol] || 0) + (f.amount / 1e8);
+      if (t.coinTypeId === COIN_TYPES.MOVE) return;
+      fundedByToken[t.coinTypeId] = (fundedByToken[t.coinTypeId] ?? ZERO_AMOUNT) + toAmount(t.funded);
     });
 
     return {
-      totalFundings: fundingHistory.length,
+      totalFundings: ledgerPolls.reduce((sum, p) => sum + p.fundingCount, 0),
       pollsFunded: fundedPollIds.size,
       fundedByToken,
       activeFundedPolls: fundedPolls.filter((p) => p.isActive).length,
     };
-  }, [fundingHistory, fundedPollIds, fundedPolls]);
+  }, [ledgerPolls, totals, fundedPollIds, fundedPolls]);
 
   // Render poll card with optional action label
   const renderPollCard = (poll: PollWithMeta, actionLabel?: string) => {
-    const rewardPool = poll.reward_pool / 1e8;
+    const rewardPool = toTokenAmount(poll.reward_pool, poll.coin_type_id as CoinTypeId);
     const coinSymbol = getCoinSymbol(poll.coin_type_id as CoinTypeId);
     return (
       <PollCard
@@ -196,9 +171,10 @@ export default function DonorDashboard() {
                   {Object.keys(stats.fundedByToken).length === 0 ? (
                     <p className="text-3xl font-bold font-mono">0</p>
                   ) : (
-                    Object.entries(stats.fundedByToken).map(([token, amount]) => (
-                      <p key={token} className="text-2xl font-bold font-mono">
-                        {amount.toFixed(4)} <span className="text-base">{token}</span>
+                    Object.entries(stats.fundedByToken).map(([coinTypeId, amount]) => (
+                      <p key={coinTypeId} className="text-2xl font-bold font-mono">
+                        {formatBalance(amount, getCoinDecimals(Number(coinTypeId) as CoinTypeId))}{" "}
+                        <span className="text-base">{getCoinSymbol(Number(coinTypeId) as CoinTypeId)}</span>
                       </p>
                     ))
                   )}
@@ -1,4 +1,4 @@
-import { useState, useEffect, useCallback, useMemo } from "react";
+import { useState, useCallback, useMemo } from "react";
 import { Link } from "wouter";
 import { DonorLayout } from "@/components/layouts/DonorLayout";
 import { Button } from "@/components/ui/button";
@@ -15,13 +15,6 @@ import {
   DialogHeader,
   DialogTitle,
 } from "@/components/ui/dialog";
-import {
-  Select,
-  SelectContent,
-  SelectItem,
-  SelectTrigger,
-  SelectValue,
-} from "@/components/ui/select";
 import {
   RefreshCcw,
   AlertCircle,
@@ -30,122 +23,64 @@ import {
   Clock,
   Coins,
   Loader2,
-  Search,
-  Filter,
 } from "lucide-react";
+import { SearchBar, SearchFilterPanel } from "@/components/search";
 import { useContract } from "@/hooks/useContract";
+import { usePollSearch, EMPTY_SEARCH_FILTERS, type SearchFilters } from "@/hooks/useSearch";
 import { useWalletConnection } from "@/hooks/useWalletConnection";
+import { useRecordFunding } from "@/hooks/useDonorFundings";
 import { useNetwork } from "@/contexts/NetworkContext";
 import type { PollWithMeta } from "@/types/poll";
-import { COIN_TYPES, getCoinSymbol, type CoinTypeId } from "@/lib/tokens";
+import { getCoinSymbol, getCoinDecimals, type CoinTypeId } from "@/lib/tokens";
+import { formatBalance, parseInputAmount, toTokenAmount } from "@/lib/balance";
+import { ZERO_AMOUNT } from "@shared/schema";
 import { showTransactionSuccessToast, showTransactionErrorToast } from "@/lib/transaction-feedback";
 
-// Local storage key for tracking user's fundings
-const FUNDING_HISTORY_KEY = "mvpulse_funding_history";
-
-interface FundingRecord {
-  pollId: number;
-  amount: number;
-  coinTypeId: number;
-  timestamp: number;
-  txHash: string;
-}
-
-function saveFundingRecord(address: string, record: FundingRecord) {
-  try {
-    const key = `${FUNDING_HISTORY_KEY}_${address}`;
-    const existing = localStorage.getItem(key);
-    const history: FundingRecord[] = existing ? JSON.parse(existing) : [];
-    history.unshift(record);
-    localStorage.setItem(key, JSON.stringify(history.slice(0, 100))); // Keep last 100
-  } catch (error) {
-    console.error("Failed to save funding record:", error);
-  }
-}
-
 export default function DonorExplore() {
   const { isConnected, address } = useWalletConnection();
-  const { getAllPolls, fundPoll, contractAddress } = useContract();
+  const { fundPoll, contractAddress } = useContract();
+  const recordFunding = useRecordFunding();
   const { config } = useNetwork();
 
-  const [polls, setPolls] = useState<PollWithMeta[]>([]);
-  const [isLoading, setIsLoading] = useState(true);
-  const [searchTerm, setSearchTerm] = useState("");
-  const [sortBy, setSortBy] = useState<"newest" | "votes" | "reward">("newest");
+  const [filters, setFilters] = useState<SearchFilters>({ ...EMPTY_SEARCH_FILTERS, sort: "newest" });
 
   // Funding dialog state
   const [fundingPoll, setFundingPoll] = useState<PollWithMeta | null>(null);
   const [fundAmount, setFundAmount] = useState("");
   const [isFunding, setIsFunding] = useState(false);
 
-  // Fetch polls
-  const fetchPolls = useCallback(async () => {
-    if (!contractAddress) {
-      setIsLoading(false);
-      return;
-    }
-
-    setIsLoading(true);
-    try {
-      const allPolls = await getAllPolls();
-      setPolls(allPolls.filter((p) => p.isActive));
-    } catch (error) {
-      console.error("Failed to fetch polls:", error);
-    } finally {
-      setIsLoading(false);
-    }
-  }, [getAllPolls, contractAddress]);
-
-  useEffect(() => {
-    fetchPolls();
-  }, [fetchPolls]);
+  // Only active polls can be funded
+  const searchFilters = useMemo(() => ({ ...filters, active: true }), [filters]);
+  const {
+    items: filteredPolls,
+    facets,
+    isLoading,
+    hasNextPage,
+    isFetchingNextPage,
+    fetchNextPage,
+    refetch,
+  } = usePollSearch(searchFilters, !!contractAddress);
 
-  // Filter and sort polls
-  const filteredPolls = useMemo(() => {
-    let result = polls.filter((p) =>
-      p.title.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      p.description.toLowerCase().includes(searchTerm.toLowerCase())
-    );
-
-    switch (sortBy) {
-      case "votes":
-        result.sort((a, b) => b.totalVotes - a.totalVotes);
-        break;
-      case "reward":
-        result.sort((a, b) => b.reward_pool - a.reward_pool);
-        break;
-      case "newest":
-      default:
-        result.sort((a, b) => b.id - a.id);
-        break;
-    }
-
-    return result;
-  }, [polls, searchTerm, sortBy]);
+  const handleQueryChange = useCallback((q: string) => {
+    setFilters((prev) => ({ ...prev, q }));
+  }, []);
 
   // Handle funding
   const handleFund = async () => {
     if (!fundingPoll || !fundAmount || !address) return;
 
-    const amountOctas = Math.floor(parseFloat(fundAmount) * 1e8);
-    if (isNaN(amountOctas) || amountOctas <= 0) {
+    const coinTypeId = fundingPoll.coin_type_id as CoinTypeId;
+    const amount = parseInputAmount(fundAmount, getCoinDecimals(coinTypeId));
+    if (amount === null || amount <= ZERO_AMOUNT) {
       showTransactionErrorToast("Invalid amount", "Please enter a valid amount");
       return;
     }
 
     setIsFunding(true);
     try {
-      const coinTypeId = fundingPoll.coin_type_id as CoinTypeId;
-      const result = await fundPoll(fundingPoll.id, amountOctas, coinTypeId);
+      const result = await fundPoll(fundingPoll.id, amount, coinTypeId);
 
-      // Save to local storage
-      saveFundingRecord(address, {
-        pollId: fundingPoll.id,
-        amount: amountOctas,
-        coinTypeId,
-        timestamp: Date.now(),
-        txHash: result.hash,
-      });
+      recordFunding(result.hash);
 
       showTransactionSuccessToast(
         result.hash,
@@ -157,7 +92,7 @@ export default function DonorExplore() {
 
       setFundingPoll(null);
       setFundAmount("");
-      fetchPolls(); // Refresh to show updated pool
+      refetch(); // Refresh to show updated pool
     } catch (error) {
       console.error("Failed to fund poll:", error);
       showTransactionErrorToast("Failed to fund poll", error instanceof Error ? error : "Transaction failed");
@@ -190,28 +125,22 @@ export default function DonorExplore() {
     <DonorLayout title="Explore Polls" description="Find polls to fund and support">
       {/* Search and Filter */}
       <div className="flex flex-col md:flex-row gap-4 mb-6">
-        <div className="relative flex-1">
-          <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
-          <Input
-            placeholder="Search polls..."
-            value={searchTerm}
-            onChange={(e) => setSearchTerm(e.target.value)}
-            className="pl-10"
-          />
-        </div>
+        <SearchBar
+          value={filters.q}
+          onChange={handleQueryChange}
+          sort={filters.sort}
+          onSortChange={(sort) => setFilters((prev) => ({ ...prev, sort }))}
+          sortOptions={["relevance", "newest", "votes", "reward", "ending"]}
+        />
         <div className="flex gap-2">
-          <Select value={sortBy} onValueChange={(v) => setSortBy(v as typeof sortBy)}>
-            <SelectTrigger className="w-40">
-              <Filter className="w-4 h-4 mr-2" />
-              <SelectValue placeholder="Sort by" />
-            </SelectTrigger>
-            <SelectContent>
-              <SelectItem value="newest">Newest</SelectItem>
-              <SelectItem value="votes">Most Votes</SelectItem>
-              <SelectItem value="reward">Highest Reward</SelectItem>
-            </SelectContent>
-          </Select>
-          <Button variant="outline" size="icon" onClick={fetchPolls}>
+          <SearchFilterPanel
+            kind="polls"
+            filters={filters}
+            facets={facets}
+            onChange={setFilters}
+            hiddenFacets={["status"]}
+          />
+          <Button variant="outline" size="icon" onClick={() => refetch()}>
             <RefreshCcw className="w-4 h-4" />
           </Button>
         </div>
@@ -231,14 +160,14 @@ export default function DonorExplore() {
         <Card className="border-dashed">
           <CardContent className="flex flex-col items-center justify-center py-12">
             <p className="text-muted-foreground">
-              {searchTerm ? "No polls match your search." : "No active polls available."}
+              {filters.q ? "No polls match your search." : "No active polls available."}
             </p>
           </CardContent>
         </Card>
       ) : (
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
           {filteredPolls.map((poll) => {
-            const rewardPool = poll.reward_pool / 1e8;
+            const rewardPool = toTokenAmount(poll.reward_pool, poll.coin_type_id as CoinTypeId);
             const coinSymbol = getCoinSymbol(poll.coin_type_id as CoinTypeId);
 
             return (
@@ -297,6 +226,15 @@ export default function DonorExplore() {
         </div>
       )}
 
+      {hasNextPage && (
+        <div className="flex justify-center mt-6">
+          <Button variant="outline" onClick={() => fetchNextPage()} disabled={isFetchingNextPage}>
+            {isFetchingNextPage && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Load More
+          </Button>
+        </div>
+      )}
+
       {/* Funding Dialog */}
       <Dialog open={!!fundingPoll} onOpenChange={(open) => !open && setFundingPoll(null)}>
         <DialogContent>
@@ -317,7 +255,7 @@ export default function DonorExplore() {
                 <div className="flex items-center justify-between text-sm mb-2">
                   <span className="text-muted-foreground">Current Reward Pool</span>
                   <span className="font-mono font-semibold">
-                    {(fundingPoll.reward_pool / 1e8).toFixed(4)} {getCoinSymbol(fundingPoll.coin_type_id as CoinTypeId)}
+                    {formatBalance(fundingPoll.reward_pool, getCoinDecimals(fundingPoll.coin_type_id as CoinTypeId))} {getCoinSymbol(fundingPoll.coin_type_id as CoinTypeId)}
                   </span>
                 </div>
                 <div className="flex items-center justify-between text-sm">
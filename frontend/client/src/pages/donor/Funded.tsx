@@ -14,28 +14,11 @@ import {
 } from "lucide-react";
 import { useContract } from "@/hooks/useContract";
 import { useWalletConnection } from "@/hooks/useWalletConnection";
+import { useDonorFundings, type DonorPollTotals } from "@/hooks/useDonorFundings";
 import type { PollWithMeta } from "@/types/poll";
 import { getCoinSymbol, type CoinTypeId } from "@/lib/tokens";
-
-// Local storage key for tracking user's fundings
-const FUNDING_HISTORY_KEY = "mvpulse_funding_history";
-
-interface FundingRecord {
-  pollId: number;
-  amount: number;
-  coinTypeId: number;
-  timestamp: number;
-  txHash: string;
-}
-
-function getFundingHistory(address: string): FundingRecord[] {
-  try {
-    const data = localStorage.getItem(`${FUNDING_HISTORY_KEY}_${address}`);
-    return data ? JSON.parse(data) : [];
-  } catch {
-    return [];
-  }
-}
+import { toTokenAmount } from "@/lib/balance";
+import { toAmount } from "@shared/schema";
 
 export default function DonorFunded() {
   const { isConnected, address } = useWalletConnection();
@@ -43,14 +26,7 @@ export default function DonorFunded() {
 
   const [polls, setPolls] = useState<PollWithMeta[]>([]);
   const [isLoading, setIsLoading] = useState(true);
-  const [fundingHistory, setFundingHistory] = useState<FundingRecord[]>([]);
-
-  // Load funding history from local storage
-  useEffect(() => {
-    if (address) {
-      setFundingHistory(getFundingHistory(address));
-    }
-  }, [address]);
+  const { polls: fundedPolls, isLoading: isLedgerLoading, refetch: refetchLedger } = useDonorFundings(address);
 
   // Fetch polls
   const fetchPolls = useCallback(async () => {
@@ -76,16 +52,9 @@ export default function DonorFunded() {
 
   // Get polls the user has funded with their contribution info
   const fundedPollsWithContributions = useMemo(() => {
-    const pollContributions = new Map<number, { total: number; coinTypeId: number }>();
-
-    fundingHistory.forEach((f) => {
-      const existing = pollContributions.get(f.pollId);
-      if (existing) {
-        existing.total += f.amount;
-      } else {
-        pollContributions.set(f.pollId, { total: f.amount, coinTypeId: f.coinTypeId });
-      }
-    });
+    const pollContributions = new Map(
+      fundedPolls.filter((p) => p.fundingCount > 0).map((p) => [p.pollId, p])
+    );
 
     return polls
       .filter((p) => pollContributions.has(p.id))
@@ -93,16 +62,17 @@ export default function DonorFunded() {
         poll: p,
         contribution: pollContributions.get(p.id)!,
       }));
-  }, [polls, fundingHistory]);
+  }, [polls, fundedPolls]);
 
   const activeFunded = fundedPollsWithContributions.filter((p) => p.poll.isActive);
   const closedFunded = fundedPollsWithContributions.filter((p) => !p.poll.isActive);
 
   // Render poll card with contribution badge
-  const renderFundedPollCard = ({ poll, contribution }: { poll: PollWithMeta; contribution: { total: number; coinTypeId: number } }) => {
-    const rewardPool = poll.reward_pool / 1e8;
+  const renderFundedPollCard = ({ poll, contribution }: { poll: PollWithMeta; contribution: DonorPollTotals }) => {
+    const rewardPool = toTokenAmount(poll.reward_pool, poll.coin_type_id as CoinTypeId);
     const coinSymbol = getCoinSymbol(poll.coin_type_id as CoinTypeId);
-    const contributionAmount = contribution.total / 1e8;
+    const contributionAmount = toTokenAmount(toAmount(contribution.funded), contribution.coinTypeId as CoinTypeId);
+    const paidOutAmount = toTokenAmount(toAmount(contribution.paidOut), contribution.coinTypeId as CoinTypeId);
 
     return (
       <div key={poll.id} className="relative">
@@ -116,9 +86,14 @@ export default function DonorFunded() {
           status={poll.isActive ? "active" : "closed"}
           tags={[]}
         />
-        <Badge className="absolute top-3 right-3 bg-primary/80">
-          {contributionAmount.toFixed(2)} {getCoinSymbol(contribution.coinTypeId as CoinTypeId)} funded
-        </Badge>
+        <div className="absolute top-3 right-3 flex flex-col items-end gap-1">
+          <Badge className="bg-primary/80">
+            {contributionAmount.toFixed(2)} {getCoinSymbol(contribution.coinTypeId as CoinTypeId)} funded
+          </Badge>
+          {paidOutAmount > 0 && (
+            <Badge variant="secondary">{paidOutAmount.toFixed(2)} paid to voters</Badge>
+          )}
+        </div>
       </div>
     );
   };
@@ -147,12 +122,12 @@ export default function DonorFunded() {
     <DonorLayout title="Funded Polls" description="Polls you have contributed to">
       {/* Actions */}
       <div className="flex justify-end mb-6">
-        <Button variant="outline" size="sm" onClick={fetchPolls}>
+        <Button variant="outline" size="sm" onClick={() => { fetchPolls(); refetchLedger(); }}>
           <RefreshCcw className="w-4 h-4 mr-2" /> Refresh
         </Button>
       </div>
 
-      {isLoading ? (
+      {isLoading || isLedgerLoading ? (
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
           <PollSkeleton />
           <PollSkeleton />
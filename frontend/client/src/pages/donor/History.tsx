@@ -1,9 +1,9 @@
-import { useState, useEffect, useMemo } from "react";
 import { Link } from "wouter";
 import { DonorLayout } from "@/components/layouts/DonorLayout";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
 import {
   Table,
   TableBody,
@@ -20,30 +20,17 @@ import {
   Calendar,
 } from "lucide-react";
 import { useWalletConnection } from "@/hooks/useWalletConnection";
+import { useDonorFundings } from "@/hooks/useDonorFundings";
 import { useNetwork } from "@/contexts/NetworkContext";
 import { getCoinSymbol, type CoinTypeId } from "@/lib/tokens";
+import { formatBalance } from "@/lib/balance";
+import { POLL_FUNDING_KIND, toAmount } from "@shared/schema";
 
-// Local storage key for tracking user's fundings
-const FUNDING_HISTORY_KEY = "mvpulse_funding_history";
-
-interface FundingRecord {
-  pollId: number;
-  amount: number;
-  coinTypeId: number;
-  timestamp: number;
-  txHash: string;
-}
-
-function getFundingHistory(address: string): FundingRecord[] {
-  try {
-    const data = localStorage.getItem(`${FUNDING_HISTORY_KEY}_${address}`);
-    return data ? JSON.parse(data) : [];
-  } catch {
-    return [];
-  }
+function formatAmount(raw: string): string {
+  return formatBalance(toAmount(raw));
 }
 
-function formatDate(timestamp: number): string {
+function formatDate(timestamp: string): string {
   return new Date(timestamp).toLocaleDateString(undefined, {
     year: "numeric",
     month: "short",
@@ -61,24 +48,8 @@ export default function DonorHistory() {
   const { isConnected, address } = useWalletConnection();
   const { config } = useNetwork();
 
-  const [fundingHistory, setFundingHistory] = useState<FundingRecord[]>([]);
-
-  // Load funding history from local storage
-  useEffect(() => {
-    if (address) {
-      setFundingHistory(getFundingHistory(address));
-    }
-  }, [address]);
-
-  // Calculate totals by token
-  const totalsByToken = useMemo(() => {
-    const totals: Record<string, number> = {};
-    fundingHistory.forEach((f) => {
-      const coinSymbol = getCoinSymbol(f.coinTypeId as CoinTypeId);
-      totals[coinSymbol] = (totals[coinSymbol] || 0) + (f.amount / 1e8);
-    });
-    return totals;
-  }, [fundingHistory]);
+  const { fundings, totals, isLoading } = useDonorFundings(address);
+  const contributionCount = fundings.filter((f) => f.kind === POLL_FUNDING_KIND.FUND).length;
 
   if (!isConnected) {
     return (
@@ -105,23 +76,29 @@ export default function DonorHistory() {
               <p className="text-sm text-muted-foreground">Total Contributions</p>
               <Coins className="w-4 h-4 text-muted-foreground" />
             </div>
-            <p className="text-3xl font-bold font-mono mt-2">{fundingHistory.length}</p>
+            <p className="text-3xl font-bold font-mono mt-2">{contributionCount}</p>
             <p className="text-xs text-muted-foreground mt-1">All time</p>
           </CardContent>
         </Card>
 
-        {Object.entries(totalsByToken).map(([token, amount]) => (
-          <Card key={token} className="bg-card/50 backdrop-blur-sm border-border/50">
-            <CardContent className="p-6">
-              <div className="flex items-center justify-between">
-                <p className="text-sm text-muted-foreground">Total {token}</p>
-                <Badge variant="outline">{token}</Badge>
-              </div>
-              <p className="text-3xl font-bold font-mono mt-2">{amount.toFixed(4)}</p>
-              <p className="text-xs text-muted-foreground mt-1">Contributed</p>
-            </CardContent>
-          </Card>
-        ))}
+        {totals.map((total) => {
+          const token = getCoinSymbol(total.coinTypeId as CoinTypeId);
+          return (
+            <Card key={total.coinTypeId} className="bg-card/50 backdrop-blur-sm border-border/50">
+              <CardContent className="p-6">
+                <div className="flex items-center justify-between">
+                  <p className="text-sm text-muted-foreground">Total {token}</p>
+                  <Badge variant="outline">{token}</Badge>
+                </div>
+                <p className="text-3xl font-bold font-mono mt-2">{formatAmount(total.funded)}</p>
+                <p className="text-xs text-muted-foreground mt-1">
+                  Contributed · {formatAmount(total.paidOut)} paid to voters
+                  {total.refunded !== "0" && ` · ${formatAmount(total.refunded)} refunded`}
+                </p>
+              </CardContent>
+            </Card>
+          );
+        })}
       </div>
 
       {/* History Table */}
@@ -133,7 +110,13 @@ export default function DonorHistory() {
           </CardTitle>
         </CardHeader>
         <CardContent>
-          {fundingHistory.length === 0 ? (
+          {isLoading ? (
+            <div className="space-y-3">
+              <Skeleton className="h-10 w-full" />
+              <Skeleton className="h-10 w-full" />
+              <Skeleton className="h-10 w-full" />
+            </div>
+          ) : fundings.length === 0 ? (
             <div className="flex flex-col items-center justify-center py-12">
               <p className="text-muted-foreground mb-4">
                 No funding history yet.
@@ -150,29 +133,45 @@ export default function DonorHistory() {
                 <TableHeader>
                   <TableRow>
                     <TableHead>Date</TableHead>
-                    <TableHead>Poll ID</TableHead>
+                    <TableHead>Poll</TableHead>
+                    <TableHead>Type</TableHead>
                     <TableHead className="text-right">Amount</TableHead>
+                    <TableHead className="text-right">Paid to Voters</TableHead>
                     <TableHead>Token</TableHead>
                     <TableHead>Transaction</TableHead>
                   </TableRow>
                 </TableHeader>
                 <TableBody>
-                  {fundingHistory.map((record, index) => {
+                  {fundings.map((record) => {
                     const coinSymbol = getCoinSymbol(record.coinTypeId as CoinTypeId);
+                    const isRefund = record.kind === POLL_FUNDING_KIND.REFUND;
                     return (
-                      <TableRow key={`${record.txHash}-${index}`}>
+                      <TableRow key={record.id}>
                         <TableCell className="text-muted-foreground">
-                          {formatDate(record.timestamp)}
+                          {formatDate(record.occurredAt)}
                         </TableCell>
                         <TableCell>
                           <Link href={`/poll/${record.pollId}`}>
                             <Button variant="link" className="p-0 h-auto">
-                              #{record.pollId}
+                              {record.pollTitle ?? `#${record.pollId}`}
                             </Button>
                           </Link>
                         </TableCell>
+                        <TableCell>
+                          <Badge variant={isRefund ? "secondary" : "outline"}>
+                            {isRefund ? "Refund" : "Funding"}
+                          </Badge>
+                        </TableCell>
+                        <TableCell className="text-right font-mono">
+                          {isRefund ? "+" : ""}{formatAmount(record.amount)}
+                          {record.platformFee !== "0" && (
+                            <span className="block text-xs text-muted-foreground">
+                              {formatAmount(record.platformFee)} fee
+                            </span>
+                          )}
+                        </TableCell>
                         <TableCell className="text-right font-mono">
-                          {(record.amount / 1e8).toFixed(4)}
+                          {record.paidOut !== null ? formatAmount(record.paidOut) : "–"}
                         </TableCell>
                         <TableCell>
                           <Badge variant="outline">{coinSymbol}</Badge>
@@ -18,19 +18,24 @@ import {
   Loader2,
 } from "lucide-react";
 import { useContract } from "@/hooks/useContract";
+import { useReportQuestAction } from "@/hooks/useQuests";
 import { useWalletConnection } from "@/hooks/useWalletConnection";
 import { usePolls } from "@/hooks/usePolls";
 import { useUserPollStatus } from "@/hooks/useUserPollStatus";
 import { isIndexerOptimizationEnabled } from "@/lib/feature-flags";
 import type { PollWithMeta } from "@/types/poll";
 import { POLL_STATUS, DISTRIBUTION_MODE } from "@/types/poll";
-import { COIN_TYPES, getCoinSymbol, type CoinTypeId } from "@/lib/tokens";
+import { COIN_TYPES, getCoinSymbol, getCoinDecimals, type CoinTypeId } from "@/lib/tokens";
+import { formatBalance, toTokenAmount } from "@/lib/balance";
+import { getRewardPerVoter } from "@/lib/contract";
 import { useNetwork } from "@/contexts/NetworkContext";
+import { QUEST_ACTIONS, ZERO_AMOUNT, type Amount } from "@shared/schema";
 import { showTransactionSuccessToast, showTransactionErrorToast } from "@/lib/transaction-feedback";
 
 export default function ParticipantDashboard() {
   const { isConnected, address } = useWalletConnection();
   const { hasVoted, hasClaimed, claimReward, contractAddress } = useContract();
+  const reportQuestAction = useReportQuestAction();
   const { config } = useNetwork();
 
   // Use optimized hooks when feature flag is enabled
@@ -107,7 +112,7 @@ export default function ParticipantDashboard() {
         p.status === POLL_STATUS.CLAIMING &&
         p.distribution_mode === DISTRIBUTION_MODE.MANUAL_PULL &&
         !claimedPollIds.has(p.id) &&
-        p.reward_pool > 0
+        p.reward_pool > ZERO_AMOUNT
     );
   }, [votedPolls, claimedPollIds]);
 
@@ -119,32 +124,20 @@ export default function ParticipantDashboard() {
   // Calculate stats - group rewards by token type (exclude MOVE, only show PULSE and USDC)
   const stats = useMemo(() => {
     // Group pending rewards by coin type
-    const pendingByToken: Record<string, number> = {};
+    const pendingByToken: Record<number, Amount> = {};
     claimablePolls.forEach((p) => {
       // Skip MOVE (coin_type_id = 0), only aggregate PULSE and USDC
       if (p.coin_type_id === COIN_TYPES.MOVE) return;
-      const perVoter = p.reward_per_vote > 0
-        ? p.reward_per_vote / 1e8
-        : p.totalVotes > 0
-        ? (p.reward_pool / 1e8) / p.totalVotes
-        : 0;
-      const coinSymbol = getCoinSymbol(p.coin_type_id as CoinTypeId);
-      pendingByToken[coinSymbol] = (pendingByToken[coinSymbol] || 0) + perVoter;
+      pendingByToken[p.coin_type_id] = (pendingByToken[p.coin_type_id] ?? ZERO_AMOUNT) + getRewardPerVoter(p);
     });
 
     // Group claimed rewards by coin type (polls user has voted on and claimed)
-    const earnedByToken: Record<string, number> = {};
+    const earnedByToken: Record<number, Amount> = {};
     votedPolls.forEach((p) => {
       // Skip MOVE (coin_type_id = 0), only aggregate PULSE and USDC
       if (p.coin_type_id === COIN_TYPES.MOVE) return;
-      if (claimedPollIds.has(p.id) && p.reward_pool > 0) {
-        const perVoter = p.reward_per_vote > 0
-          ? p.reward_per_vote / 1e8
-          : p.totalVotes > 0
-          ? (p.reward_pool / 1e8) / p.totalVotes
-          : 0;
-        const coinSymbol = getCoinSymbol(p.coin_type_id as CoinTypeId);
-        earnedByToken[coinSymbol] = (earnedByToken[coinSymbol] || 0) + perVoter;
+      if (claimedPollIds.has(p.id) && p.reward_pool > ZERO_AMOUNT) {
+        earnedByToken[p.coin_type_id] = (earnedByToken[p.coin_type_id] ?? ZERO_AMOUNT) + getRewardPerVoter(p);
       }
     });
 
@@ -168,6 +161,7 @@ export default function ParticipantDashboard() {
         config.explorerUrl,
         result.sponsored
       );
+      reportQuestAction(QUEST_ACTIONS.CLAIM_REWARD, result.hash);
       setRpcClaimedPollIds((prev: Set<number>) => new Set(prev).add(pollId));
     } catch (error) {
       console.error("Failed to claim:", error);
@@ -179,7 +173,7 @@ export default function ParticipantDashboard() {
 
   // Render poll card
   const renderPollCard = (poll: PollWithMeta, hasVoted: boolean = false) => {
-    const rewardPool = poll.reward_pool / 1e8;
+    const rewardPool = toTokenAmount(poll.reward_pool, poll.coin_type_id as CoinTypeId);
     const coinSymbol = getCoinSymbol(poll.coin_type_id as CoinTypeId);
     return (
       <PollCard
@@ -264,9 +258,10 @@ export default function ParticipantDashboard() {
                   {Object.keys(stats.pendingByToken).length === 0 ? (
                     <p className="text-3xl font-bold font-mono">0</p>
                   ) : (
-                    Object.entries(stats.pendingByToken).map(([token, amount]) => (
-                      <p key={token} className="text-2xl font-bold font-mono">
-                        {amount.toFixed(4)} <span className="text-base">{token}</span>
+                    Object.entries(stats.pendingByToken).map(([coinTypeId, amount]) => (
+                      <p key={coinTypeId} className="text-2xl font-bold font-mono">
+                        {formatBalance(amount, getCoinDecimals(Number(coinTypeId) as CoinTypeId))}{" "}
+                        <span className="text-base">{getCoinSymbol(Number(coinTypeId) as CoinTypeId)}</span>
                       </p>
                     ))
                   )}
@@ -285,9 +280,10 @@ export default function ParticipantDashboard() {
                   {Object.keys(stats.earnedByToken).length === 0 ? (
                     <p className="text-3xl font-bold font-mono">0</p>
                   ) : (
-                    Object.entries(stats.earnedByToken).map(([token, amount]) => (
-                      <p key={token} className="text-2xl font-bold font-mono">
-                        {amount.toFixed(4)} <span className="text-base">{token}</span>
+                    Object.entries(stats.earnedByToken).map(([coinTypeId, amount]) => (
+                      <p key={coinTypeId} className="text-2xl font-bold font-mono">
+                        {formatBalance(amount, getCoinDecimals(Number(coinTypeId) as CoinTypeId))}{" "}
+                        <span className="text-base">{getCoinSymbol(Number(coinTypeId) as CoinTypeId)}</span>
                       </p>
                     ))
                   )}
@@ -322,11 +318,7 @@ export default function ParticipantDashboard() {
           <CardContent>
             <div className="space-y-3">
               {claimablePolls.map((poll) => {
-                const perVoter = poll.reward_per_vote > 0
-                  ? poll.reward_per_vote / 1e8
-                  : poll.totalVotes > 0
-                  ? (poll.reward_pool / 1e8) / poll.totalVotes
-                  : 0;
+                const perVoter = toTokenAmount(getRewardPerVoter(poll), poll.coin_type_id as CoinTypeId);
                 const coinSymbol = getCoinSymbol(poll.coin_type_id as CoinTypeId);
                 return (
                   <div
@@ -435,7 +427,7 @@ export default function ParticipantDashboard() {
         ) : (
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
             {availablePolls
-              .filter((p) => p.reward_pool > 0)
+              .filter((p) => p.reward_pool > ZERO_AMOUNT)
               .slice(0, 6)
               .map((poll) => renderPollCard(poll, false))}
           </div>
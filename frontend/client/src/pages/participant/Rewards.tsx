@@ -13,27 +13,103 @@ import {
   CheckCircle2,
   Coins,
   ExternalLink,
+  XCircle,
+  RotateCcw,
 } from "lucide-react";
 import { useWalletConnection } from "@/hooks/useWalletConnection";
 import { useContract } from "@/hooks/useContract";
+import { useBatchClaim, getClaimableRewardKey, type ClaimableReward, type ClaimItemProgress } from "@/hooks/useBatchClaim";
+import { useQuestionnaires } from "@/hooks/useQuestionnaire";
+import { useReportQuestAction } from "@/hooks/useQuests";
 import type { PollWithMeta } from "@/types/poll";
 import { POLL_STATUS, DISTRIBUTION_MODE } from "@/types/poll";
-import { COIN_TYPES, getCoinSymbol, type CoinTypeId } from "@/lib/tokens";
+import { getCoinDecimals, getCoinSymbol, type CoinTypeId } from "@/lib/tokens";
+import { formatBalance } from "@/lib/balance";
+import { getRewardPerVoter } from "@/lib/contract";
 import { useNetwork } from "@/contexts/NetworkContext";
+import { QUEST_ACTIONS, ZERO_AMOUNT, type Amount } from "@shared/schema";
 import { showTransactionSuccessToast, showTransactionErrorToast } from "@/lib/transaction-feedback";
 
+// Questionnaire pool status once rewards can be claimed
+const QUESTIONNAIRE_POOL_CLAIMABLE = 2;
+
+type TokenTotals = Partial<Record<CoinTypeId, Amount>>;
+
+interface QuestionnaireReward {
+  id: number;
+  coinTypeId: CoinTypeId;
+  amount: Amount;
+  claimed: boolean;
+}
+
+function formatAmount(amount: Amount, coinTypeId: CoinTypeId): string {
+  return formatBalance(amount, getCoinDecimals(coinTypeId));
+}
+
+function addToTotals(totals: TokenTotals, coinTypeId: CoinTypeId, amount: Amount) {
+  totals[coinTypeId] = (totals[coinTypeId] ?? ZERO_AMOUNT) + amount;
+}
+
+function formatTotals(totals: TokenTotals): string {
+  const entries = Object.entries(totals) as [string, Amount][];
+  if (entries.length === 0) return "0";
+  return entries
+    .map(([coinTypeId, amount]) => {
+      const id = Number(coinTypeId) as CoinTypeId;
+      return `${formatAmount(amount, id)} ${getCoinSymbol(id)}`;
+    })
+    .join(" · ");
+}
+
+function ClaimStatusBadge({ progress }: { progress?: ClaimItemProgress }) {
+  switch (progress?.status) {
+    case "queued":
+      return <Badge variant="outline">Queued</Badge>;
+    case "claiming":
+      return (
+        <Badge variant="outline" className="gap-1">
+          <Loader2 className="w-3 h-3 animate-spin" /> Claiming
+        </Badge>
+      );
+    case "claimed":
+      return (
+        <Badge className="bg-green-500/20 text-green-500 border-green-500/50">
+          <CheckCircle2 className="w-3 h-3 mr-1" /> Claimed
+        </Badge>
+      );
+    case "failed":
+      return (
+        <Badge variant="destructive" className="gap-1" title={progress.error}>
+          <XCircle className="w-3 h-3" /> Failed
+        </Badge>
+      );
+    default:
+      return null;
+  }
+}
+
 export default function Rewards() {
   const { isConnected, address } = useWalletConnection();
-  const { getAllPolls, hasVoted, hasClaimed, claimReward, contractAddress } = useContract();
-  const { config } = useNetwork();
+  const {
+    getAllPolls,
+    hasVoted,
+    hasClaimed,
+    getQuestionnairePoolCount,
+    getQuestionnairePool,
+    contractAddress,
+  } = useContract();
+  const { progress, isRunning, claimAll, retryFailed, reset } = useBatchClaim();
+  const { data: questionnaires } = useQuestionnaires({ limit: 100 });
+  const reportQuestAction = useReportQuestAction();
+  const { config, network } = useNetwork();
 
   const [polls, setPolls] = useState<PollWithMeta[]>([]);
+  const [questionnaireRewards, setQuestionnaireRewards] = useState<QuestionnaireReward[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [votedPollIds, setVotedPollIds] = useState<Set<number>>(new Set());
   const [claimedPollIds, setClaimedPollIds] = useState<Set<number>>(new Set());
-  const [claimingPollId, setClaimingPollId] = useState<number | null>(null);
 
-  // Fetch polls and vote/claim status
+  // Fetch polls, questionnaire pools and vote/claim status
   const fetchPolls = useCallback(async () => {
     if (!contractAddress) {
       setIsLoading(false);
@@ -41,6 +117,7 @@ export default function Rewards() {
     }
 
     setIsLoading(true);
+    reset();
     try {
       const allPolls = await getAllPolls();
       setPolls(allPolls.sort((a, b) => b.id - a.id));
@@ -61,13 +138,34 @@ export default function Rewards() {
         }
         setVotedPollIds(votedIds);
         setClaimedPollIds(claimedIds);
+
+        // Questionnaire pools the user completed, once they open for claims
+        const normalizedAddress = address.toLowerCase();
+        const poolCount = await getQuestionnairePoolCount();
+        const rewards: QuestionnaireReward[] = [];
+        for (let id = poolCount - 1; id >= 0; id--) {
+          const pool = await getQuestionnairePool(id);
+          if (!pool || pool.status !== QUESTIONNAIRE_POOL_CLAIMABLE) continue;
+          if (!pool.completers.some((c) => c.toLowerCase() === normalizedAddress)) continue;
+
+          rewards.push({
+            id,
+            coinTypeId: pool.coin_type_id as CoinTypeId,
+            amount:
+              pool.reward_per_completion > ZERO_AMOUNT
+                ? pool.reward_per_completion
+                : pool.reward_pool / BigInt(pool.completers.length),
+            claimed: pool.claimed.some((c) => c.toLowerCase() === normalizedAddress),
+          });
+        }
+        setQuestionnaireRewards(rewards);
       }
     } catch (error) {
       console.error("Failed to fetch polls:", error);
     } finally {
       setIsLoading(false);
     }
-  }, [getAllPolls, hasVoted, hasClaimed, contractAddress, address]);
+  }, [getAllPolls, hasVoted, hasClaimed, getQuestionnairePoolCount, getQuestionnairePool, contractAddress, address, reset]);
 
   useEffect(() => {
     fetchPolls();
@@ -85,7 +183,7 @@ export default function Rewards() {
         p.status === POLL_STATUS.CLAIMING &&
         p.distribution_mode === DISTRIBUTION_MODE.MANUAL_PULL &&
         !claimedPollIds.has(p.id) &&
-        p.reward_pool > 0
+        p.reward_pool > ZERO_AMOUNT
     );
   }, [votedPolls, claimedPollIds]);
 
@@ -94,52 +192,103 @@ export default function Rewards() {
     return votedPolls.filter((p) => claimedPollIds.has(p.id) || p.rewards_distributed);
   }, [votedPolls, claimedPollIds]);
 
-  // Calculate totals
+  // Questionnaire titles and links by on-chain pool id
+  const questionnairesByPoolId = useMemo(() => {
+    const map = new Map<number, { id: string; title: string }>();
+    for (const q of questionnaires ?? []) {
+      if (q.onChainId !== null && q.onChainId !== undefined) {
+        map.set(q.onChainId, { id: q.id, title: q.title });
+      }
+    }
+    return map;
+  }, [questionnaires]);
+
+  // Everything that can be claimed right now
+  const claimables = useMemo<ClaimableReward[]>(() => {
+    const pollItems = claimablePolls.map((poll) => ({
+      key: getClaimableRewardKey("poll", poll.id),
+      kind: "poll" as const,
+      id: poll.id,
+      title: poll.title,
+      link: `/poll/${poll.id}`,
+      coinTypeId: poll.coin_type_id as CoinTypeId,
+      amount: getRewardPerVoter(poll),
+    }));
+    const questionnaireItems = questionnaireRewards
+      .filter((reward) => !reward.claimed)
+      .map((reward) => {
+        const questionnaire = questionnairesByPoolId.get(reward.id);
+        return {
+          key: getClaimableRewardKey("questionnaire", reward.id),
+          kind: "questionnaire" as const,
+          id: reward.id,
+          title: questionnaire?.title ?? `Questionnaire pool #${reward.id}`,
+          link: questionnaire ? `/questionnaire/${questionnaire.id}` : undefined,
+          coinTypeId: reward.coinTypeId,
+          amount: reward.amount,
+        };
+      });
+    return [...pollItems, ...questionnaireItems];
+  }, [claimablePolls, questionnaireRewards, questionnairesByPoolId]);
+
+  const failedCount = claimables.filter((item) => progress[item.key]?.status === "failed").length;
+
+  // Calculate totals per token; items claimed this session move from pending to claimed
   const totals = useMemo(() => {
-    const pending = claimablePolls.reduce((sum, p) => {
-      const perVoter = p.reward_per_vote > 0
-        ? p.reward_per_vote / 1e8
-        : p.totalVotes > 0
-        ? (p.reward_pool / 1e8) / p.totalVotes
-        : 0;
-      return sum + perVoter;
-    }, 0);
+    const pending: TokenTotals = {};
+    const claimed: TokenTotals = {};
+
+    for (const item of claimables) {
+      const itemProgress = progress[item.key];
+      if (itemProgress?.status === "claimed") {
+        addToTotals(claimed, item.coinTypeId, itemProgress.amount ?? item.amount);
+      } else {
+        addToTotals(pending, item.coinTypeId, item.amount);
+      }
+    }
+    for (const poll of claimedPolls) {
+      addToTotals(claimed, poll.coin_type_id as CoinTypeId, getRewardPerVoter(poll));
+    }
+    for (const reward of questionnaireRewards) {
+      if (reward.claimed) addToTotals(claimed, reward.coinTypeId, reward.amount);
+    }
 
     return {
-      pendingRewards: pending,
-      totalClaimed: 0, // Would need to track claimed amounts
-      claimablePollsCount: claimablePolls.length,
+      pending,
+      claimed,
+      pendingCount: claimables.filter((item) => progress[item.key]?.status !== "claimed").length,
+      rewardedCount: claimedPolls.length + questionnaireRewards.filter((reward) => reward.claimed).length,
     };
-  }, [claimablePolls]);
+  }, [claimables, claimedPolls, questionnaireRewards, progress]);
 
-  // Handle claim reward
-  const handleClaim = async (pollId: number, coinTypeId: CoinTypeId) => {
-    setClaimingPollId(pollId);
-    try {
-      const result = await claimReward(pollId, coinTypeId);
+  // Claim the given items in batches and report the outcome
+  const runClaims = async (run: () => ReturnType<typeof claimAll>) => {
+    const summary = await run();
+    for (const hash of summary.hashes) {
+      reportQuestAction(QUEST_ACTIONS.CLAIM_REWARD, hash);
+    }
+
+    if (summary.claimed > 0) {
       showTransactionSuccessToast(
-        result.hash,
-        "Reward Claimed!",
-        "Your reward has been transferred to your wallet.",
-        config.explorerUrl,
-        result.sponsored
+        summary.hashes[summary.hashes.length - 1],
+        summary.claimed === 1 ? "Reward Claimed!" : `${summary.claimed} Rewards Claimed!`,
+        `${formatTotals(summary.totals)} transferred to your wallet.`,
+        config.explorerUrl
       );
-      setClaimedPollIds((prev) => new Set(prev).add(pollId));
-    } catch (error) {
-      console.error("Failed to claim:", error);
-      showTransactionErrorToast("Failed to claim reward", error instanceof Error ? error : "Transaction failed");
-    } finally {
-      setClaimingPollId(null);
     }
-  };
-
-  // Handle claim all
-  const handleClaimAll = async () => {
-    for (const poll of claimablePolls) {
-      await handleClaim(poll.id, poll.coin_type_id as CoinTypeId);
+    if (summary.failed > 0) {
+      showTransactionErrorToast(
+        "Some rewards were not claimed",
+        `${summary.failed} claim(s) failed. Retry them individually from the list.`
+      );
     }
   };
 
+  const handleClaim = (item: ClaimableReward) => runClaims(() => claimAll([item]));
+  const handleClaimAll = () =>
+    runClaims(() => claimAll(claimables.filter((item) => progress[item.key]?.status !== "claimed")));
+  const handleRetryFailed = () => runClaims(() => retryFailed(claimables));
+
   // Loading skeleton
   const ClaimCardSkeleton = () => (
     <div className="flex items-center justify-between p-4 rounded-lg bg-background/50 border border-border/50">
@@ -176,11 +325,11 @@ export default function Rewards() {
               <p className="text-sm text-muted-foreground">Pending Rewards</p>
               <Gift className="w-4 h-4 text-muted-foreground" />
             </div>
-            <p className="text-3xl font-bold font-mono mt-2">
-              {isLoading ? "-" : `${totals.pendingRewards.toFixed(4)}`} <span className="text-lg">MOVE</span>
+            <p className="text-xl font-bold font-mono mt-2">
+              {isLoading ? "-" : formatTotals(totals.pending)}
             </p>
             <p className="text-xs text-muted-foreground mt-1">
-              From {totals.claimablePollsCount} poll(s)
+              From {totals.pendingCount} poll(s) and questionnaire(s)
             </p>
           </CardContent>
         </Card>
@@ -191,8 +340,8 @@ export default function Rewards() {
               <p className="text-sm text-muted-foreground">Total Claimed</p>
               <Coins className="w-4 h-4 text-muted-foreground" />
             </div>
-            <p className="text-3xl font-bold font-mono mt-2">
-              {isLoading ? "-" : `${totals.totalClaimed.toFixed(4)}`} <span className="text-lg">MOVE</span>
+            <p className="text-xl font-bold font-mono mt-2">
+              {isLoading ? "-" : formatTotals(totals.claimed)}
             </p>
             <p className="text-xs text-muted-foreground mt-1">All time</p>
           </CardContent>
@@ -201,13 +350,13 @@ export default function Rewards() {
         <Card className="bg-card/50 backdrop-blur-sm border-border/50">
           <CardContent className="p-6">
             <div className="flex items-center justify-between">
-              <p className="text-sm text-muted-foreground">Polls Rewarded</p>
+              <p className="text-sm text-muted-foreground">Rewards Received</p>
               <CheckCircle2 className="w-4 h-4 text-muted-foreground" />
             </div>
             <p className="text-3xl font-bold font-mono mt-2">
-              {isLoading ? "-" : claimedPolls.length}
+              {isLoading ? "-" : totals.rewardedCount}
             </p>
-            <p className="text-xs text-muted-foreground mt-1">Rewards received</p>
+            <p className="text-xs text-muted-foreground mt-1">Polls and questionnaires</p>
           </CardContent>
         </Card>
       </div>
@@ -220,11 +369,17 @@ export default function Rewards() {
             Pending Claims
           </CardTitle>
           <div className="flex gap-2">
-            <Button variant="outline" size="sm" onClick={fetchPolls}>
+            <Button variant="outline" size="sm" onClick={fetchPolls} disabled={isRunning}>
               <RefreshCcw className="w-4 h-4 mr-2" /> Refresh
             </Button>
-            {claimablePolls.length > 1 && (
-              <Button size="sm" onClick={handleClaimAll} disabled={claimingPollId !== null}>
+            {failedCount > 0 && (
+              <Button variant="outline" size="sm" onClick={handleRetryFailed} disabled={isRunning}>
+                <RotateCcw className="w-4 h-4 mr-2" /> Retry Failed ({failedCount})
+              </Button>
+            )}
+            {totals.pendingCount > 1 && (
+              <Button size="sm" onClick={handleClaimAll} disabled={isRunning}>
+                {isRunning ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : null}
                 Claim All
               </Button>
             )}
@@ -236,7 +391,7 @@ export default function Rewards() {
               <ClaimCardSkeleton />
               <ClaimCardSkeleton />
             </div>
-          ) : claimablePolls.length === 0 ? (
+          ) : claimables.length === 0 ? (
             <div className="text-center py-8 text-muted-foreground">
               <Gift className="w-12 h-12 mx-auto mb-4 opacity-30" />
               <p>No pending rewards to claim.</p>
@@ -249,42 +404,56 @@ export default function Rewards() {
             </div>
           ) : (
             <div className="space-y-3">
-              {claimablePolls.map((poll) => {
-                const perVoter = poll.reward_per_vote > 0
-                  ? poll.reward_per_vote / 1e8
-                  : poll.totalVotes > 0
-                  ? (poll.reward_pool / 1e8) / poll.totalVotes
-                  : 0;
-                const coinSymbol = getCoinSymbol(poll.coin_type_id as CoinTypeId);
+              {claimables.map((item) => {
+                const itemProgress = progress[item.key];
+                const coinSymbol = getCoinSymbol(item.coinTypeId);
+                const isClaimed = itemProgress?.status === "claimed";
 
                 return (
                   <div
-                    key={poll.id}
-                    className="flex items-center justify-between p-4 rounded-lg bg-green-500/5 border border-green-500/20"
+                    key={item.key}
+                    className="flex items-center justify-between gap-4 p-4 rounded-lg bg-green-500/5 border border-green-500/20"
                   >
-                    <div>
-                      <Link href={`/poll/${poll.id}`}>
-                        <p className="font-medium hover:text-primary transition-colors">
-                          {poll.title}
-                        </p>
-                      </Link>
+                    <div className="min-w-0">
+                      {item.link ? (
+                        <Link href={item.link}>
+                          <p className="font-medium hover:text-primary transition-colors">{item.title}</p>
+                        </Link>
+                      ) : (
+                        <p className="font-medium">{item.title}</p>
+                      )}
                       <p className="text-sm text-muted-foreground">
-                        ~{perVoter.toFixed(4)} {coinSymbol} available
+                        {isClaimed
+                          ? `${formatAmount(itemProgress.amount ?? item.amount, item.coinTypeId)} ${coinSymbol} claimed`
+                          : `~${formatAmount(item.amount, item.coinTypeId)} ${coinSymbol} available`}
+                        {item.kind === "questionnaire" && " · Questionnaire"}
                       </p>
+                      {itemProgress?.status === "failed" && itemProgress.error && (
+                        <p className="text-xs text-destructive mt-1 truncate">{itemProgress.error}</p>
+                      )}
                     </div>
-                    <Button
-                      onClick={() => handleClaim(poll.id, poll.coin_type_id as CoinTypeId)}
-                      disabled={claimingPollId === poll.id}
-                      className="bg-green-600 hover:bg-green-700"
-                    >
-                      {claimingPollId === poll.id ? (
-                        <>
-                          <Loader2 className="w-4 h-4 mr-2 animate-spin" /> Claiming...
-                        </>
+                    <div className="flex items-center gap-2 shrink-0">
+                      <ClaimStatusBadge progress={itemProgress} />
+                      {isClaimed && itemProgress.hash ? (
+                        <a
+                          href={`${config.explorerUrl}/txn/${itemProgress.hash}?network=${network}`}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                        >
+                          <Button variant="ghost" size="sm">
+                            <ExternalLink className="w-4 h-4" />
+                          </Button>
+                        </a>
                       ) : (
-                        "Claim"
+                        <Button
+                          onClick={() => handleClaim(item)}
+                          disabled={isRunning}
+                          className="bg-green-600 hover:bg-green-700"
+                        >
+                          {itemProgress?.status === "failed" ? "Retry" : "Claim"}
+                        </Button>
                       )}
-                    </Button>
+                    </div>
                   </div>
                 );
               })}
@@ -307,19 +476,14 @@ export default function Rewards() {
               <ClaimCardSkeleton />
               <ClaimCardSkeleton />
             </div>
-          ) : claimedPolls.length === 0 ? (
+          ) : totals.rewardedCount === 0 ? (
             <div className="text-center py-8 text-muted-foreground">
               <p>No claim history yet.</p>
             </div>
           ) : (
             <div className="divide-y divide-border/50">
               {claimedPolls.map((poll) => {
-                const perVoter = poll.reward_per_vote > 0
-                  ? poll.reward_per_vote / 1e8
-                  : poll.totalVotes > 0
-                  ? (poll.reward_pool / 1e8) / poll.totalVotes
-                  : 0;
-                const coinSymbol = getCoinSymbol(poll.coin_type_id as CoinTypeId);
+                const coinTypeId = poll.coin_type_id as CoinTypeId;
 
                 return (
                   <div
@@ -333,7 +497,7 @@ export default function Rewards() {
                         </p>
                       </Link>
                       <p className="text-sm text-muted-foreground">
-                        ~{perVoter.toFixed(4)} {coinSymbol}
+                        ~{formatAmount(getRewardPerVoter(poll), coinTypeId)} {getCoinSymbol(coinTypeId)}
                       </p>
                     </div>
                     <div className="flex items-center gap-2">
@@ -349,6 +513,37 @@ export default function Rewards() {
                   </div>
                 );
               })}
+              {questionnaireRewards
+                .filter((reward) => reward.claimed)
+                .map((reward) => {
+                  const questionnaire = questionnairesByPoolId.get(reward.id);
+
+                  return (
+                    <div
+                      key={getClaimableRewardKey("questionnaire", reward.id)}
+                      className="flex items-center justify-between py-3"
+                    >
+                      <div>
+                        <p className="font-medium">{questionnaire?.title ?? `Questionnaire pool #${reward.id}`}</p>
+                        <p className="text-sm text-muted-foreground">
+                          ~{formatAmount(reward.amount, reward.coinTypeId)} {getCoinSymbol(reward.coinTypeId)} · Questionnaire
+                        </p>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <Badge className="bg-green-500/20 text-green-500 border-green-500/50">
+                          <CheckCircle2 className="w-3 h-3 mr-1" /> Claimed
+                        </Badge>
+                        {questionnaire && (
+                          <Link href={`/questionnaire/${questionnaire.id}`}>
+                            <Button variant="ghost" size="sm">
+                              <ExternalLink className="w-4 h-4" />
+                            </Button>
+                          </Link>
+                        )}
+                      </div>
+                    </div>
+                  );
+                })}
             </div>
           )}
         </CardContent>
@@ -20,6 +20,10 @@ import { useContract } from "@/hooks/useContract";
 import { useWalletConnection } from "@/hooks/useWalletConnection";
 import type { PollWithMeta } from "@/types/poll";
 import { POLL_STATUS, DISTRIBUTION_MODE } from "@/types/poll";
+import { getRewardPerVoter } from "@/lib/contract";
+import { toTokenAmount } from "@/lib/balance";
+import { getCoinSymbol, type CoinTypeId } from "@/lib/tokens";
+import { ZERO_AMOUNT } from "@shared/schema";
 
 export default function VotingHistory() {
   const { isConnected, address } = useWalletConnection();
@@ -90,10 +94,10 @@ export default function VotingHistory() {
           !claimedPollIds.has(p.id) &&
           !p.rewards_distributed &&
           (p.status === POLL_STATUS.CLAIMING || p.status === POLL_STATUS.CLOSED) &&
-          p.reward_pool > 0
+          p.reward_pool > ZERO_AMOUNT
       );
     } else if (activeTab === "no-reward") {
-      filtered = filtered.filter((p) => p.reward_pool === 0);
+      filtered = filtered.filter((p) => p.reward_pool === ZERO_AMOUNT);
     }
 
     // Filter by search
@@ -111,7 +115,7 @@ export default function VotingHistory() {
 
   // Get reward status badge
   const getRewardBadge = (poll: PollWithMeta) => {
-    if (poll.reward_pool === 0) {
+    if (poll.reward_pool === ZERO_AMOUNT) {
       return <Badge variant="outline" className="text-muted-foreground">No Reward</Badge>;
     }
     if (claimedPollIds.has(poll.id) || poll.rewards_distributed) {
@@ -186,11 +190,11 @@ export default function VotingHistory() {
               !claimedPollIds.has(p.id) &&
               !p.rewards_distributed &&
               (p.status === POLL_STATUS.CLAIMING || p.status === POLL_STATUS.CLOSED) &&
-              p.reward_pool > 0
+              p.reward_pool > ZERO_AMOUNT
             ).length})
           </TabsTrigger>
           <TabsTrigger value="no-reward">
-            No Reward ({votedPolls.filter((p) => p.reward_pool === 0).length})
+            No Reward ({votedPolls.filter((p) => p.reward_pool === ZERO_AMOUNT).length})
           </TabsTrigger>
         </TabsList>
 
@@ -220,12 +224,7 @@ export default function VotingHistory() {
             ) : (
               <div className="divide-y divide-border/50">
                 {filteredPolls.map((poll) => {
-                  const rewardPoolMove = poll.reward_pool / 1e8;
-                  const perVoter = poll.reward_per_vote > 0
-                    ? poll.reward_per_vote / 1e8
-                    : poll.totalVotes > 0
-                    ? rewardPoolMove / poll.totalVotes
-                    : 0;
+                  const perVoter = toTokenAmount(getRewardPerVoter(poll), poll.coin_type_id as CoinTypeId);
 
                   return (
                     <div
@@ -241,7 +240,7 @@ export default function VotingHistory() {
                           </Link>
                         </div>
                         <p className="text-sm text-muted-foreground">
-                          {poll.totalVotes} votes • {perVoter > 0 ? `~${perVoter.toFixed(4)} MOVE` : "No reward"} • {poll.timeRemaining}
+                          {poll.totalVotes} votes • {perVoter > 0 ? `~${perVoter.toFixed(4)} ${getCoinSymbol(poll.coin_type_id as CoinTypeId)}` : "No reward"} • {poll.timeRemaining}
                         </p>
                       </div>
 
@@ -1,4 +1,4 @@
-import { useState, useEffect, useMemo } from "react";
+import { useState, useMemo, useCallback } from "react";
 import { useLocation } from "wouter";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -22,7 +22,6 @@ import {
   ArrowLeft,
   ArrowRight,
   Check,
-  Search,
   Plus,
   Trash2,
   GripVertical,
@@ -36,18 +35,23 @@ import {
 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { useContract } from "@/hooks/useContract";
+import { useReportQuestAction } from "@/hooks/useQuests";
 import { useDurationInput } from "@/hooks/useDurationInput";
+import { usePolls } from "@/hooks/usePolls";
+import { usePollSearch, EMPTY_SEARCH_FILTERS, type SearchFilters } from "@/hooks/useSearch";
 import {
   useCreateQuestionnaire,
   useUpdateQuestionnaire,
   QUESTIONNAIRE_STATUS,
   QUESTIONNAIRE_REWARD_TYPE,
+  type QuestionnaireSettings,
 } from "@/hooks/useQuestionnaire";
-import { COIN_TYPES, getCoinSymbol, getFAMetadataAddress, CoinTypeId } from "@/lib/tokens";
-import { formatBalance, parseToSmallestUnit } from "@/lib/balance";
+import { COIN_TYPES, getCoinSymbol, getCoinDecimals, getFAMetadataAddress, CoinTypeId } from "@/lib/tokens";
+import { formatBalance, parseInputAmount } from "@/lib/balance";
 import { useNetwork } from "@/contexts/NetworkContext";
+import { QUEST_ACTIONS, ZERO_AMOUNT, calculateNetAmount } from "@shared/schema";
 import type { PollWithMeta, CreatePollInput } from "@/types/poll";
-import { PLATFORM_FEE_BPS, calculatePlatformFee, calculateNetAmount } from "@/types/poll";
+import { PLATFORM_FEE_BPS } from "@/types/poll";
 import { type PollFormData } from "@/components/poll";
 import {
   CreationMethodSelector,
@@ -56,7 +60,10 @@ import {
   PollCreationModal,
   InlinePollCreator,
   TabbedPollSelector,
+  QuestionnaireSettingsFields,
 } from "@/components/questionnaire";
+import { SearchBar, SearchFilterPanel } from "@/components/search";
+import { useRecordPollQuestions } from "@/hooks/useQuestionTypes";
 
 const STEPS = [
   { id: 1, title: "Basic Info", description: "Title and description" },
@@ -82,11 +89,12 @@ export default function CreateQuestionnaire() {
   const { network } = useNetwork();
   const {
     activeAddress,
-    getAllPolls,
     createQuestionnairePool,
     createPollsBatch,
     loading: contractLoading,
   } = useContract();
+  const reportQuestAction = useReportQuestAction();
+  const recordPollQuestions = useRecordPollQuestions();
 
   const createQuestionnaireMutation = useCreateQuestionnaire();
   const updateQuestionnaireMutation = useUpdateQuestionnaire();
@@ -98,15 +106,14 @@ export default function CreateQuestionnaire() {
   const [title, setTitle] = useState("");
   const [description, setDescription] = useState("");
   const [category, setCategory] = useState<string>("");
+  const [settings, setSettings] = useState<QuestionnaireSettings>({});
 
   // Duration state with unified input (default to custom for questionnaires)
   const durationInput = useDurationInput("custom");
 
   // Step 2: Poll Selection
-  const [availablePolls, setAvailablePolls] = useState<PollWithMeta[]>([]);
-  const [loadingPolls, setLoadingPolls] = useState(true);
   const [selectedPollIds, setSelectedPollIds] = useState<number[]>([]);
-  const [pollSearchTerm, setPollSearchTerm] = useState("");
+  const [pollSearchFilters, setPollSearchFilters] = useState<SearchFilters>(EMPTY_SEARCH_FILTERS);
 
   // Poll creation within questionnaire
   const [creationMethod, setCreationMethod] = useCreationMethodPreference();
@@ -124,63 +131,46 @@ export default function CreateQuestionnaire() {
   // Submission state
   const [isCreating, setIsCreating] = useState(false);
 
-  // Calculate platform fee for shared pool rewards
+  // Calculate platform fee for shared pool rewards, in the token's smallest units
+  const tokenDecimals = getCoinDecimals(coinTypeId);
   const rewardCalculations = useMemo(() => {
-    if (rewardType !== "shared_pool" || !totalRewardAmount) {
-      return { grossAmount: 0, fee: 0, netAmount: 0, rewardPerCompleter: 0, isValid: false };
-    }
-
-    const gross = parseFloat(totalRewardAmount) || 0;
-    const decimals = coinTypeId === COIN_TYPES.USDC ? 6 : 8;
-    const grossSmallest = gross * Math.pow(10, decimals);
-    const fee = calculatePlatformFee(grossSmallest) / Math.pow(10, decimals);
-    const net = calculateNetAmount(grossSmallest) / Math.pow(10, decimals);
+    const gross = rewardType === "shared_pool" ? parseInputAmount(totalRewardAmount, tokenDecimals) ?? ZERO_AMOUNT : ZERO_AMOUNT;
+    const net = calculateNetAmount(gross, PLATFORM_FEE_BPS);
     const max = parseInt(maxCompleters) || 0;
 
-    let rewardPerCompleter = 0;
+    let rewardPerCompleter = ZERO_AMOUNT;
     if (rewardPerCompletion === "equal" && max > 0) {
-      rewardPerCompleter = net / max;
-    } else if (rewardPerCompletion === "fixed" && fixedRewardAmount) {
-      rewardPerCompleter = parseFloat(fixedRewardAmount) || 0;
+      rewardPerCompleter = net / BigInt(max);
+    } else if (rewardPerCompletion === "fixed") {
+      rewardPerCompleter = parseInputAmount(fixedRewardAmount, tokenDecimals) ?? ZERO_AMOUNT;
     }
 
     return {
       grossAmount: gross,
-      fee,
+      fee: gross - net,
       netAmount: net,
       rewardPerCompleter,
-      isValid: gross > 0,
+      isValid: gross > ZERO_AMOUNT,
     };
-  }, [rewardType, totalRewardAmount, coinTypeId, maxCompleters, rewardPerCompletion, fixedRewardAmount]);
-
-  // Load available polls
-  useEffect(() => {
-    async function loadPolls() {
-      setLoadingPolls(true);
-      try {
-        const polls = await getAllPolls();
-        // Filter to only show active polls
-        const activePolls = polls.filter((p) => p.isActive);
-        setAvailablePolls(activePolls);
-      } catch (err) {
-        console.error("Failed to load polls:", err);
-      } finally {
-        setLoadingPolls(false);
-      }
-    }
-    loadPolls();
-  }, [getAllPolls]);
-
-  // Filter polls based on search
-  const filteredPolls = useMemo(() => {
-    if (!pollSearchTerm) return availablePolls;
-    const term = pollSearchTerm.toLowerCase();
-    return availablePolls.filter(
-      (p) =>
-        p.title.toLowerCase().includes(term) ||
-        p.description.toLowerCase().includes(term)
-    );
-  }, [availablePolls, pollSearchTerm]);
+  }, [rewardType, totalRewardAmount, tokenDecimals, maxCompleters, rewardPerCompletion, fixedRewardAmount]);
+
+  // All active polls (selected polls may have scrolled out of the search results)
+  const { polls: availablePolls } = usePolls({ active: true });
+
+  // Search active polls on the server
+  const activePollSearch = useMemo(() => ({ ...pollSearchFilters, active: true }), [pollSearchFilters]);
+  const {
+    items: filteredPolls,
+    facets: pollFacets,
+    isLoading: loadingPolls,
+    hasNextPage: hasMorePolls,
+    isFetchingNextPage: isLoadingMorePolls,
+    fetchNextPage: loadMorePolls,
+  } = usePollSearch(activePollSearch);
+
+  const handlePollQueryChange = useCallback((q: string) => {
+    setPollSearchFilters((prev) => ({ ...prev, q }));
+  }, []);
 
   // Get selected polls in order
   const selectedPolls = useMemo(() => {
@@ -241,7 +231,7 @@ export default function CreateQuestionnaire() {
   const isStep2Valid = totalPollsCount >= 2;
   const isStep3Valid =
     rewardType === "per_poll" ||
-    (rewardType === "shared_pool" && totalRewardAmount && parseFloat(totalRewardAmount) > 0);
+    (rewardType === "shared_pool" && rewardCalculations.isValid);
 
   const canProceed = () => {
     switch (currentStep) {
@@ -315,6 +305,19 @@ export default function CreateQuestionnaire() {
 
         // Add newly created poll IDs to the list
         allPollIds = [...allPollIds, ...batchResult.pollIds];
+        reportQuestAction(QUEST_ACTIONS.CREATE_POLL, batchResult.hash);
+
+        const questionsRecorded = await recordPollQuestions(
+          batchResult.hash,
+          pendingNewPolls.map((poll) => ({ questionType: poll.questionType, maxSelections: poll.maxSelections }))
+        );
+        if (!questionsRecorded) {
+          toast({
+            title: "Question Types Not Saved",
+            description: "The polls were created but will be counted as single choice.",
+            variant: "destructive",
+          });
+        }
 
         toast({
           title: "Polls Created",
@@ -334,21 +337,19 @@ export default function CreateQuestionnaire() {
           rewardType === "per_poll"
             ? QUESTIONNAIRE_REWARD_TYPE.PER_POLL
             : QUESTIONNAIRE_REWARD_TYPE.SHARED_POOL,
-        totalRewardAmount:
-          rewardType === "shared_pool"
-            ? parseToSmallestUnit(parseFloat(totalRewardAmount), coinTypeId === COIN_TYPES.USDC ? 6 : 8).toString()
-            : "0",
+        totalRewardAmount: rewardCalculations.grossAmount.toString(),
         coinTypeId,
         rewardPerCompletion:
-          rewardType === "shared_pool" && rewardPerCompletion === "fixed" && fixedRewardAmount
-            ? parseToSmallestUnit(parseFloat(fixedRewardAmount), coinTypeId === COIN_TYPES.USDC ? 6 : 8).toString()
+          rewardType === "shared_pool" && rewardPerCompletion === "fixed"
+            ? rewardCalculations.rewardPerCompleter.toString()
             : "0",
         maxCompleters: maxCompleters ? parseInt(maxCompleters) : undefined,
+        settings: rewardType === "shared_pool" ? { ...settings, requireAllPolls: true } : settings,
         pollIds: allPollIds,
       });
 
       // Step 2: If shared pool, create on-chain pool
-      if (rewardType === "shared_pool" && parseFloat(totalRewardAmount) > 0) {
+      if (rewardType === "shared_pool" && rewardCalculations.isValid) {
         const networkType = network === "mainnet" ? "mainnet" : "testnet";
         const faMetadataAddress = getFAMetadataAddress(coinTypeId, networkType);
 
@@ -356,14 +357,9 @@ export default function CreateQuestionnaire() {
           throw new Error("FA metadata address not configured");
         }
 
-        const fundAmount = parseToSmallestUnit(
-          parseFloat(totalRewardAmount),
-          coinTypeId === COIN_TYPES.USDC ? 6 : 8
-        );
+        const fundAmount = rewardCalculations.grossAmount;
         const rewardPerCompletionAmount =
-          rewardPerCompletion === "fixed" && fixedRewardAmount
-            ? parseToSmallestUnit(parseFloat(fixedRewardAmount), coinTypeId === COIN_TYPES.USDC ? 6 : 8)
-            : 0;
+          rewardPerCompletion === "fixed" ? rewardCalculations.rewardPerCompleter : ZERO_AMOUNT;
         const maxCompletersNum = maxCompleters ? parseInt(maxCompleters) : 0;
 
         const poolResult = await createQuestionnairePool(
@@ -550,6 +546,14 @@ export default function CreateQuestionnaire() {
                 onEndDateChange={durationInput.setEndDate}
                 label="Duration *"
               />
+
+              <div className="pt-2 border-t">
+                <QuestionnaireSettingsFields
+                  settings={settings}
+                  onChange={setSettings}
+                  isSharedPool={rewardType === "shared_pool"}
+                />
+              </div>
             </div>
           )}
 
@@ -582,6 +586,12 @@ export default function CreateQuestionnaire() {
               {creationMethod === "tab" && (
                 <TabbedPollSelector
                   availablePolls={filteredPolls}
+                  searchFilters={pollSearchFilters}
+                  onSearchFiltersChange={setPollSearchFilters}
+                  facets={pollFacets}
+                  hasMore={hasMorePolls}
+                  isLoadingMore={isLoadingMorePolls}
+                  onLoadMore={() => loadMorePolls()}
                   selectedPollIds={selectedPollIds}
                   onSelectionChange={setSelectedPollIds}
                   onPollCreated={handlePollCreated}
@@ -610,13 +620,18 @@ export default function CreateQuestionnaire() {
                         Create New Poll
                       </Button>
                     </div>
-                    <div className="relative">
-                      <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
-                      <Input
-                        value={pollSearchTerm}
-                        onChange={(e) => setPollSearchTerm(e.target.value)}
+                    <div className="flex gap-2">
+                      <SearchBar
+                        value={pollSearchFilters.q}
+                        onChange={handlePollQueryChange}
                         placeholder="Search by title or description..."
-                        className="pl-9"
+                      />
+                      <SearchFilterPanel
+                        kind="polls"
+                        filters={pollSearchFilters}
+                        facets={pollFacets}
+                        onChange={setPollSearchFilters}
+                        hiddenFacets={["status"]}
                       />
                     </div>
                   </div>
@@ -672,6 +687,18 @@ export default function CreateQuestionnaire() {
                                 </div>
                               </div>
                             ))}
+                            {hasMorePolls && (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                className="w-full"
+                                onClick={() => loadMorePolls()}
+                                disabled={isLoadingMorePolls}
+                              >
+                                {isLoadingMorePolls && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                                Load More
+                              </Button>
+                            )}
                           </div>
                         )}
                       </div>
@@ -787,13 +814,18 @@ export default function CreateQuestionnaire() {
                 <>
                   <div>
                     <Label>Search Polls</Label>
-                    <div className="relative mt-1">
-                      <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
-                      <Input
-                        value={pollSearchTerm}
-                        onChange={(e) => setPollSearchTerm(e.target.value)}
+                    <div className="flex gap-2 mt-1">
+                      <SearchBar
+                        value={pollSearchFilters.q}
+                        onChange={handlePollQueryChange}
                         placeholder="Search by title or description..."
-                        className="pl-9"
+                      />
+                      <SearchFilterPanel
+                        kind="polls"
+                        filters={pollSearchFilters}
+                        facets={pollFacets}
+                        onChange={setPollSearchFilters}
+                        hiddenFacets={["status"]}
                       />
                     </div>
                   </div>
@@ -841,6 +873,18 @@ export default function CreateQuestionnaire() {
                                 </div>
                               </div>
                             ))}
+                            {hasMorePolls && (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                className="w-full"
+                                onClick={() => loadMorePolls()}
+                                disabled={isLoadingMorePolls}
+                              >
+                                {isLoadingMorePolls && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                                Load More
+                              </Button>
+                            )}
                           </div>
                         )}
                       </div>
@@ -1170,26 +1214,26 @@ export default function CreateQuestionnaire() {
                           <div className="flex justify-between">
                             <span className="text-muted-foreground">Total Deposit:</span>
                             <span className="font-mono font-medium">
-                              {rewardCalculations.grossAmount.toFixed(4)} {getCoinSymbol(coinTypeId)}
+                              {formatBalance(rewardCalculations.grossAmount, tokenDecimals)} {getCoinSymbol(coinTypeId)}
                             </span>
                           </div>
                           <div className="flex justify-between">
                             <span className="text-muted-foreground">Platform Fee ({PLATFORM_FEE_BPS / 100}%):</span>
                             <span className="font-mono text-destructive">
-                              -{rewardCalculations.fee.toFixed(4)}
+                              -{formatBalance(rewardCalculations.fee, tokenDecimals)}
                             </span>
                           </div>
                           <div className="flex justify-between">
                             <span className="text-muted-foreground">Net Reward Pool:</span>
                             <span className="font-mono font-medium text-green-600">
-                              {rewardCalculations.netAmount.toFixed(4)}
+                              {formatBalance(rewardCalculations.netAmount, tokenDecimals)}
                             </span>
                           </div>
-                          {rewardCalculations.rewardPerCompleter > 0 && (
+                          {rewardCalculations.rewardPerCompleter > ZERO_AMOUNT && (
                             <div className="flex justify-between">
                               <span className="text-muted-foreground">Per completer:</span>
                               <span className="font-mono">
-                                ~{rewardCalculations.rewardPerCompleter.toFixed(4)}
+                                ~{formatBalance(rewardCalculations.rewardPerCompleter, tokenDecimals)}
                               </span>
                             </div>
                           )}
@@ -1304,19 +1348,19 @@ export default function CreateQuestionnaire() {
                       <div>
                         <span className="text-muted-foreground">Total Deposit:</span>{" "}
                         <span className="font-medium">
-                          {rewardCalculations.grossAmount.toFixed(4)} {getCoinSymbol(coinTypeId)}
+                          {formatBalance(rewardCalculations.grossAmount, tokenDecimals)} {getCoinSymbol(coinTypeId)}
                         </span>
                       </div>
                       <div>
                         <span className="text-muted-foreground">Platform Fee ({PLATFORM_FEE_BPS / 100}%):</span>{" "}
                         <span className="font-medium text-destructive">
-                          -{rewardCalculations.fee.toFixed(4)} {getCoinSymbol(coinTypeId)}
+                          -{formatBalance(rewardCalculations.fee, tokenDecimals)} {getCoinSymbol(coinTypeId)}
                         </span>
                       </div>
                       <div>
                         <span className="text-muted-foreground">Net Reward Pool:</span>{" "}
                         <span className="font-medium text-green-600">
-                          {rewardCalculations.netAmount.toFixed(4)} {getCoinSymbol(coinTypeId)}
+                          {formatBalance(rewardCalculations.netAmount, tokenDecimals)} {getCoinSymbol(coinTypeId)}
                         </span>
                       </div>
                       <div>
@@ -24,6 +24,7 @@ import {
 import { useContract } from "@/hooks/useContract";
 import { formatBalanceWithSymbol } from "@/lib/balance";
 import { CoinTypeId } from "@/lib/tokens";
+import { toAmount } from "@shared/schema";
 
 export default function QuestionnaireDetail() {
   const [, params] = useRoute("/questionnaire/:id");
@@ -160,7 +161,7 @@ export default function QuestionnaireDetail() {
                         <p className="text-sm text-muted-foreground">Total Rewards</p>
                         <p className="font-semibold">
                           {formatBalanceWithSymbol(
-                            Number(questionnaire.totalRewardAmount),
+                            toAmount(questionnaire.totalRewardAmount),
                             questionnaire.coinTypeId as CoinTypeId
                           )}
                         </p>
@@ -230,13 +231,13 @@ export default function QuestionnaireDetail() {
                 </p>
               </CardContent>
             </Card>
-          ) : questionnaire.pollCount === 0 ? (
+          ) : questionnaire.polls.length === 0 ? (
             <Card>
               <CardContent className="py-12 text-center">
                 <ListChecks className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
-                <h3 className="text-lg font-medium">No Polls Added</h3>
+                <h3 className="text-lg font-medium">No Questions Added</h3>
                 <p className="text-muted-foreground mt-2">
-                  This questionnaire doesn't have any polls yet.
+                  This questionnaire doesn't have any questions yet.
                 </p>
               </CardContent>
             </Card>
@@ -1,4 +1,7 @@
 // TypeScript types matching the Move contract structs
+// u64 token amounts are bigint base units (see Amount in @shared/schema)
+
+import type { Amount } from "@shared/schema";
 
 // Poll status constants
 export const POLL_STATUS = {
@@ -39,8 +42,8 @@ export interface Poll {
   options: string[];
   votes: number[];
   voters: string[];
-  reward_per_vote: number;        // Fixed amount per voter (0 = equal split mode)
-  reward_pool: number;            // Net funds after platform fee (in octas)
+  reward_per_vote: Amount;        // Fixed amount per voter (0 = equal split mode)
+  reward_pool: Amount;            // Net funds after platform fee (in octas)
   max_voters: number;             // Maximum voters allowed (0 = unlimited)
   distribution_mode: number;      // 255 = unset, 0 = pull, 1 = push
   claimed: string[];              // Addresses that have claimed rewards
@@ -48,7 +51,7 @@ export interface Poll {
   end_time: number;
   status: number;
   coin_type_id: number;           // 0 = MOVE, 1 = PULSE
-  closed_at: number;              // Timestamp when poll entered CLAIMING status (0 if not closed)
+  closed_at: number;              // Timestamp when close_poll moved it to CLOSED (0 until then)
 }
 
 // Poll with computed fields for UI
@@ -64,10 +67,10 @@ export interface CreatePollInput {
   title: string;
   description: string;
   options: string[];
-  rewardPerVote: number;    // Fixed amount per voter (0 for equal split)
+  rewardPerVote: Amount;    // Fixed amount per voter (0 for equal split)
   maxVoters: number;        // Max voters (0 for unlimited, but only for fixed mode)
   durationSecs: number;
-  fundAmount: number;       // Total deposit INCLUDING platform fee (in octas)
+  fundAmount: Amount;       // Total deposit INCLUDING platform fee (in octas)
   coinTypeId: number;       // 0 = MOVE, 1 = PULSE
 }
 
@@ -81,7 +84,7 @@ export interface VoteInput {
 export interface TransactionResult {
   hash: string;
   success: boolean;
-  sponsored?: boolean;  // Whether gas was sponsored by Shinami
+  sponsored?: boolean;  // Whether gas was sponsored by the platform
 }
 
 // Error type for contract calls
@@ -94,20 +97,6 @@ export interface ContractError {
 export interface PlatformConfig {
   feeBps: number;             // Fee in basis points (100 = 1%)
   treasury: string;           // Treasury address
-  totalFeesCollected: number; // Total fees collected (in octas)
+  totalFeesCollected: Amount; // Total fees collected (in octas)
   claimPeriodSecs: number;    // Time period for claiming rewards (in seconds)
 }
-
-// Helper functions for fee calculations
-export function calculatePlatformFee(grossAmount: number, feeBps: number = PLATFORM_FEE_BPS): number {
-  return Math.floor((grossAmount * feeBps) / 10000);
-}
-
-export function calculateNetAmount(grossAmount: number, feeBps: number = PLATFORM_FEE_BPS): number {
-  return grossAmount - calculatePlatformFee(grossAmount, feeBps);
-}
-
-export function calculateGrossAmount(netAmount: number, feeBps: number = PLATFORM_FEE_BPS): number {
-  // gross = net / (1 - fee_rate) = net * 10000 / (10000 - feeBps)
-  return Math.ceil((netAmount * 10000) / (10000 - feeBps));
-}
@@ -0,0 +1,306 @@
+-- Partition off-chain data by network. Generated with drizzle-kit, then made
+-- safe to run against databases kept up to date with `drizzle-kit push`: tables
+-- and columns that predate this migration are created only if missing, and rows
+-- written before networks were tracked all came from testnet, so they are
+-- backfilled as testnet.
+
+CREATE TABLE IF NOT EXISTS "admin_role_audit" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"action" varchar(10) NOT NULL,
+	"wallet_address" varchar(66) NOT NULL,
+	"role" varchar(30) NOT NULL,
+	"actor_address" varchar(66) NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "admin_roles" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"wallet_address" varchar(66) NOT NULL,
+	"role" varchar(30) NOT NULL,
+	"granted_by" varchar(66) NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "indexed_poll_claims" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"network" varchar(10) NOT NULL,
+	"poll_id" integer NOT NULL,
+	"claimer" varchar(66) NOT NULL,
+	"amount" varchar(50) NOT NULL,
+	"tx_version" varchar(30) NOT NULL,
+	"tx_hash" varchar(66),
+	"claimed_at" timestamp,
+	CONSTRAINT "indexed_poll_claims_network_poll_claimer" UNIQUE("network","poll_id","claimer")
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "indexed_poll_distributions" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"network" varchar(10) NOT NULL,
+	"poll_id" integer NOT NULL,
+	"total_distributed" varchar(50) NOT NULL,
+	"recipient_count" integer NOT NULL,
+	"tx_version" varchar(30) NOT NULL,
+	"tx_hash" varchar(66),
+	"distributed_at" timestamp,
+	CONSTRAINT "indexed_poll_distributions_network_poll" UNIQUE("network","poll_id")
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "indexed_poll_options" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"network" varchar(10) NOT NULL,
+	"poll_id" integer NOT NULL,
+	"option_index" integer NOT NULL,
+	"label" text NOT NULL,
+	"votes" integer DEFAULT 0 NOT NULL,
+	CONSTRAINT "indexed_poll_options_network_poll_option" UNIQUE("network","poll_id","option_index")
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "indexed_poll_votes" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"network" varchar(10) NOT NULL,
+	"poll_id" integer NOT NULL,
+	"voter" varchar(66) NOT NULL,
+	"option_index" integer NOT NULL,
+	"tx_version" varchar(30) NOT NULL,
+	"tx_hash" varchar(66),
+	"voted_at" timestamp,
+	CONSTRAINT "indexed_poll_votes_network_poll_voter" UNIQUE("network","poll_id","voter")
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "indexed_polls" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"network" varchar(10) NOT NULL,
+	"poll_id" integer NOT NULL,
+	"creator" varchar(66) NOT NULL,
+	"title" text NOT NULL,
+	"description" text DEFAULT '' NOT NULL,
+	"reward_per_vote" varchar(50) DEFAULT '0' NOT NULL,
+	"reward_pool" varchar(50) DEFAULT '0' NOT NULL,
+	"max_voters" integer DEFAULT 0 NOT NULL,
+	"distribution_mode" integer NOT NULL,
+	"rewards_distributed" boolean DEFAULT false NOT NULL,
+	"coin_type_id" integer DEFAULT 0 NOT NULL,
+	"status" integer NOT NULL,
+	"end_time" integer NOT NULL,
+	"closed_at" integer DEFAULT 0 NOT NULL,
+	"total_votes" integer DEFAULT 0 NOT NULL,
+	"voters" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"claimed" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "indexed_polls_network_poll_id" UNIQUE("network","poll_id")
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "indexer_cursors" (
+	"name" varchar(50) PRIMARY KEY NOT NULL,
+	"last_version" varchar(30) DEFAULT '0' NOT NULL,
+	"last_event_index" integer DEFAULT -1 NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "poll_ballots" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"network" varchar(10) NOT NULL,
+	"poll_id" integer NOT NULL,
+	"voter" varchar(66) NOT NULL,
+	"selections" jsonb NOT NULL,
+	"tx_hash" varchar(66) NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "poll_ballots_network_poll_voter" UNIQUE("network","poll_id","voter")
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "poll_questions" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"network" varchar(10) NOT NULL,
+	"poll_id" integer NOT NULL,
+	"question_type" varchar(20) NOT NULL,
+	"max_selections" integer,
+	"created_tx_hash" varchar(66) NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "poll_questions_network_poll" UNIQUE("network","poll_id")
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "questionnaire_polls" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"questionnaire_id" varchar(36) NOT NULL,
+	"kind" varchar(10) DEFAULT 'poll' NOT NULL,
+	"poll_id" integer,
+	"prompt" text,
+	"text_settings" jsonb,
+	"sort_order" integer DEFAULT 0 NOT NULL,
+	"reward_percentage" integer,
+	"source" varchar(20) DEFAULT 'existing' NOT NULL,
+	"added_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "questionnaire_progress" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"questionnaire_id" varchar(36) NOT NULL,
+	"wallet_address" varchar(66) NOT NULL,
+	"started" boolean DEFAULT false NOT NULL,
+	"polls_answered" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"text_answers" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"is_complete" boolean DEFAULT false NOT NULL,
+	"started_at" timestamp,
+	"completed_at" timestamp,
+	"claimed" boolean DEFAULT false NOT NULL,
+	"claimed_at" timestamp,
+	"claim_tx_hash" varchar(66),
+	"bulk_vote_tx_hash" varchar(66),
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "questionnaires" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"network" varchar(10) NOT NULL,
+	"on_chain_id" integer,
+	"creator_address" varchar(66) NOT NULL,
+	"title" varchar(200) NOT NULL,
+	"description" text,
+	"category" varchar(50),
+	"start_time" timestamp NOT NULL,
+	"end_time" timestamp NOT NULL,
+	"reward_type" integer DEFAULT 0 NOT NULL,
+	"total_reward_amount" varchar(50) DEFAULT '0' NOT NULL,
+	"coin_type_id" integer DEFAULT 0 NOT NULL,
+	"reward_per_completion" varchar(50) DEFAULT '0' NOT NULL,
+	"max_completers" integer,
+	"settings" jsonb DEFAULT '{}'::jsonb NOT NULL,
+	"status" integer DEFAULT 0 NOT NULL,
+	"poll_count" integer DEFAULT 0 NOT NULL,
+	"completion_count" integer DEFAULT 0 NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "referral_codes" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"wallet_address" varchar(66) NOT NULL,
+	"code" varchar(20) NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "referral_codes_wallet_address_unique" UNIQUE("wallet_address"),
+	CONSTRAINT "referral_codes_code_unique" UNIQUE("code")
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "referral_milestones" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"referral_id" varchar(36) NOT NULL,
+	"milestone_type" varchar(30) NOT NULL,
+	"referrer_points_awarded" integer DEFAULT 0 NOT NULL,
+	"referee_points_awarded" integer DEFAULT 0 NOT NULL,
+	"achieved_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "referral_stats" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"network" varchar(10) NOT NULL,
+	"wallet_address" varchar(66) NOT NULL,
+	"total_referrals" integer DEFAULT 0 NOT NULL,
+	"active_referrals" integer DEFAULT 0 NOT NULL,
+	"total_points_earned" integer DEFAULT 0 NOT NULL,
+	"current_tier" integer DEFAULT 0 NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "referral_stats_network_wallet" UNIQUE("network","wallet_address")
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "referrals" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"network" varchar(10) NOT NULL,
+	"referrer_address" varchar(66) NOT NULL,
+	"referee_address" varchar(66) NOT NULL,
+	"referral_code" varchar(20) NOT NULL,
+	"status" integer DEFAULT 0 NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"activated_at" timestamp,
+	"completed_at" timestamp,
+	CONSTRAINT "referrals_network_referee" UNIQUE("network","referee_address")
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "sponsorship_logs" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"wallet_address" varchar(66) NOT NULL,
+	"tx_hash" varchar(66),
+	"network" varchar(20) NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "user_settings" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"wallet_address" varchar(66) NOT NULL,
+	"gas_sponsorship_enabled" boolean DEFAULT true NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "user_settings_wallet_address_unique" UNIQUE("wallet_address")
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "verified_transactions" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"tx_hash" varchar(66) NOT NULL,
+	"network" varchar(10) NOT NULL,
+	"wallet_address" varchar(66) NOT NULL,
+	"function_name" varchar(50) NOT NULL,
+	"poll_ids" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "verified_transactions_tx_hash_unique" UNIQUE("tx_hash")
+);
+--> statement-breakpoint
+ALTER TABLE "user_profiles" ADD COLUMN IF NOT EXISTS "cached_staked_pulse" varchar(50) DEFAULT '0' NOT NULL;
+--> statement-breakpoint
+ALTER TABLE "user_season_snapshots" ADD COLUMN IF NOT EXISTS "final_rank" integer NOT NULL;
+--> statement-breakpoint
+ALTER TABLE "user_profiles" ADD COLUMN IF NOT EXISTS "network" varchar(10) DEFAULT 'testnet' NOT NULL;
+--> statement-breakpoint
+ALTER TABLE "user_profiles" ALTER COLUMN "network" DROP DEFAULT;
+--> statement-breakpoint
+ALTER TABLE "seasons" ADD COLUMN IF NOT EXISTS "network" varchar(10) DEFAULT 'testnet' NOT NULL;
+--> statement-breakpoint
+ALTER TABLE "seasons" ALTER COLUMN "network" DROP DEFAULT;
+--> statement-breakpoint
+ALTER TABLE "quests" ADD COLUMN IF NOT EXISTS "network" varchar(10) DEFAULT 'testnet' NOT NULL;
+--> statement-breakpoint
+ALTER TABLE "quests" ALTER COLUMN "network" DROP DEFAULT;
+--> statement-breakpoint
+ALTER TABLE "daily_vote_logs" ADD COLUMN IF NOT EXISTS "network" varchar(10) DEFAULT 'testnet' NOT NULL;
+--> statement-breakpoint
+ALTER TABLE "daily_vote_logs" ALTER COLUMN "network" DROP DEFAULT;
+--> statement-breakpoint
+ALTER TABLE "referrals" ADD COLUMN IF NOT EXISTS "network" varchar(10) DEFAULT 'testnet' NOT NULL;
+--> statement-breakpoint
+ALTER TABLE "referrals" ALTER COLUMN "network" DROP DEFAULT;
+--> statement-breakpoint
+ALTER TABLE "referral_stats" ADD COLUMN IF NOT EXISTS "network" varchar(10) DEFAULT 'testnet' NOT NULL;
+--> statement-breakpoint
+ALTER TABLE "referral_stats" ALTER COLUMN "network" DROP DEFAULT;
+--> statement-breakpoint
+ALTER TABLE "questionnaires" ADD COLUMN IF NOT EXISTS "network" varchar(10) DEFAULT 'testnet' NOT NULL;
+--> statement-breakpoint
+ALTER TABLE "questionnaires" ALTER COLUMN "network" DROP DEFAULT;
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "indexed_polls_search_idx" ON "indexed_polls" USING gin (to_tsvector('english', "title" || ' ' || "description"));
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "questionnaires_search_idx" ON "questionnaires" USING gin (to_tsvector('english', "title" || ' ' || coalesce("description", '')));
+--> statement-breakpoint
+ALTER TABLE "user_profiles" DROP CONSTRAINT IF EXISTS "user_profiles_wallet_address_unique";
+--> statement-breakpoint
+ALTER TABLE "user_profiles" DROP CONSTRAINT IF EXISTS "user_profiles_network_wallet";
+--> statement-breakpoint
+ALTER TABLE "user_profiles" ADD CONSTRAINT "user_profiles_network_wallet" UNIQUE("network","wallet_address");
+--> statement-breakpoint
+ALTER TABLE "seasons" DROP CONSTRAINT IF EXISTS "seasons_season_number_unique";
+--> statement-breakpoint
+ALTER TABLE "seasons" DROP CONSTRAINT IF EXISTS "seasons_network_season_number";
+--> statement-breakpoint
+ALTER TABLE "seasons" ADD CONSTRAINT "seasons_network_season_number" UNIQUE("network","season_number");
+--> statement-breakpoint
+ALTER TABLE "referrals" DROP CONSTRAINT IF EXISTS "referrals_referee_address_unique";
+--> statement-breakpoint
+ALTER TABLE "referrals" DROP CONSTRAINT IF EXISTS "referrals_network_referee";
+--> statement-breakpoint
+ALTER TABLE "referrals" ADD CONSTRAINT "referrals_network_referee" UNIQUE("network","referee_address");
+--> statement-breakpoint
+ALTER TABLE "referral_stats" DROP CONSTRAINT IF EXISTS "referral_stats_wallet_address_unique";
+--> statement-breakpoint
+ALTER TABLE "referral_stats" DROP CONSTRAINT IF EXISTS "referral_stats_network_wallet";
+--> statement-breakpoint
+ALTER TABLE "referral_stats" ADD CONSTRAINT "referral_stats_network_wallet" UNIQUE("network","wallet_address");
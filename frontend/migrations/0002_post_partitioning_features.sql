@@ -0,0 +1,218 @@
+-- Tables and columns added after network partitioning, the bigint poll times,
+-- and network scoping for user settings, referral codes and referral
+-- milestones. Generated with drizzle-kit, then made safe to run against
+-- databases kept up to date with `drizzle-kit push` like 0001: tables, columns
+-- and indexes are created only if missing. Settings and referral codes written
+-- before they were scoped all came from testnet; milestones take the network of
+-- their referral.
+
+CREATE TABLE IF NOT EXISTS "notification_deliveries" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"notification_id" varchar(36) NOT NULL,
+	"channel" varchar(10) NOT NULL,
+	"target" varchar(500) NOT NULL,
+	"status" integer DEFAULT 0 NOT NULL,
+	"attempts" integer DEFAULT 0 NOT NULL,
+	"last_error" text,
+	"next_attempt_at" timestamp DEFAULT now() NOT NULL,
+	"sent_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "notification_preferences" (
+	"wallet_address" varchar(66) PRIMARY KEY NOT NULL,
+	"channels" jsonb DEFAULT '{"poll_claiming":["in_app"],"claim_expiring":["in_app","email"],"stake_unlocked":["in_app"],"season_ended":["in_app","email"]}'::jsonb NOT NULL,
+	"email" varchar(254),
+	"email_confirmed_at" timestamp,
+	"email_confirm_token_hash" varchar(64),
+	"email_confirm_expires_at" timestamp,
+	"webhook_url" varchar(500),
+	"webhook_secret" varchar(64),
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "notifications" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"network" varchar(10) NOT NULL,
+	"wallet_address" varchar(66) NOT NULL,
+	"type" varchar(30) NOT NULL,
+	"dedupe_key" varchar(100) NOT NULL,
+	"title" varchar(200) NOT NULL,
+	"body" text NOT NULL,
+	"link" varchar(200),
+	"data" jsonb DEFAULT '{}'::jsonb NOT NULL,
+	"in_app" boolean DEFAULT true NOT NULL,
+	"notify_at" timestamp DEFAULT now() NOT NULL,
+	"read_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "notifications_network_wallet_dedupe" UNIQUE("network","wallet_address","dedupe_key")
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "poll_claim_deadlines" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"network" varchar(10) NOT NULL,
+	"poll_id" integer NOT NULL,
+	"reminders_scheduled_at" timestamp,
+	"finalize_attempts" integer DEFAULT 0 NOT NULL,
+	"finalize_attempted_at" timestamp,
+	"finalize_tx_hash" varchar(66),
+	"finalize_error" text,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "poll_claim_deadlines_network_poll" UNIQUE("network","poll_id")
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "poll_fundings" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"network" varchar(10) NOT NULL,
+	"wallet_address" varchar(66) NOT NULL,
+	"poll_id" integer NOT NULL,
+	"kind" varchar(10) NOT NULL,
+	"function_name" varchar(50) NOT NULL,
+	"coin_type_id" integer NOT NULL,
+	"amount" varchar(50) NOT NULL,
+	"platform_fee" varchar(50) DEFAULT '0' NOT NULL,
+	"net_amount" varchar(50) NOT NULL,
+	"tx_hash" varchar(66) NOT NULL,
+	"tx_version" varchar(30) NOT NULL,
+	"occurred_at" timestamp NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "poll_fundings_network_tx_hash" UNIQUE("network","tx_hash")
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "sponsorship_policies" (
+	"network" varchar(10) PRIMARY KEY NOT NULL,
+	"allowed_functions" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"tier_daily_limits" jsonb DEFAULT '{"0":10,"1":20,"2":35,"3":50}'::jsonb NOT NULL,
+	"daily_gas_budget" varchar(50),
+	"updated_by" varchar(66),
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "stake_boost_expiries" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"network" varchar(10) NOT NULL,
+	"staker" varchar(66) NOT NULL,
+	"unlock_at" bigint NOT NULL,
+	"resolved_at" timestamp,
+	"poke_attempts" integer DEFAULT 0 NOT NULL,
+	"poke_attempted_at" timestamp,
+	"poke_tx_hash" varchar(66),
+	"poke_error" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "stake_boost_expiries_network_staker_unlock" UNIQUE("network","staker","unlock_at")
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "swap_pool_events" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"network" varchar(10) NOT NULL,
+	"kind" varchar(20) NOT NULL,
+	"wallet" varchar(66) NOT NULL,
+	"pulse_in" varchar(50) DEFAULT '0' NOT NULL,
+	"stable_in" varchar(50) DEFAULT '0' NOT NULL,
+	"pulse_out" varchar(50) DEFAULT '0' NOT NULL,
+	"stable_out" varchar(50) DEFAULT '0' NOT NULL,
+	"lp_shares" varchar(50) DEFAULT '0' NOT NULL,
+	"volume_stable" varchar(50) DEFAULT '0' NOT NULL,
+	"fee_stable" varchar(50) DEFAULT '0' NOT NULL,
+	"pulse_reserve" varchar(50) NOT NULL,
+	"stable_reserve" varchar(50) NOT NULL,
+	"total_lp_shares" varchar(50) DEFAULT '0' NOT NULL,
+	"fees_per_share" varchar(80) DEFAULT '0' NOT NULL,
+	"tx_version" varchar(30) NOT NULL,
+	"event_index" integer NOT NULL,
+	"occurred_at" timestamp NOT NULL,
+	CONSTRAINT "swap_pool_events_network_position" UNIQUE("network","tx_version","event_index")
+);
+--> statement-breakpoint
+-- Claim windows are measured from the poll's closed_at now, not tracked separately
+ALTER TABLE "poll_claim_deadlines" DROP COLUMN IF EXISTS "claims_opened_at";
+--> statement-breakpoint
+ALTER TABLE "indexed_polls" ALTER COLUMN "end_time" SET DATA TYPE bigint;
+--> statement-breakpoint
+ALTER TABLE "indexed_polls" ALTER COLUMN "closed_at" SET DATA TYPE bigint;
+--> statement-breakpoint
+ALTER TABLE "questionnaire_polls" ADD COLUMN IF NOT EXISTS "branching" jsonb;
+--> statement-breakpoint
+ALTER TABLE "seasons" ADD COLUMN IF NOT EXISTS "sponsorship_budget" varchar(50);
+--> statement-breakpoint
+ALTER TABLE "sponsorship_logs" ADD COLUMN IF NOT EXISTS "entry_function" varchar(200);
+--> statement-breakpoint
+ALTER TABLE "sponsorship_logs" ADD COLUMN IF NOT EXISTS "provider" varchar(20);
+--> statement-breakpoint
+ALTER TABLE "sponsorship_logs" ADD COLUMN IF NOT EXISTS "season_id" varchar(36);
+--> statement-breakpoint
+ALTER TABLE "sponsorship_logs" ADD COLUMN IF NOT EXISTS "reserved_fee" varchar(50);
+--> statement-breakpoint
+ALTER TABLE "sponsorship_logs" ADD COLUMN IF NOT EXISTS "gas_used" integer;
+--> statement-breakpoint
+ALTER TABLE "sponsorship_logs" ADD COLUMN IF NOT EXISTS "gas_unit_price" varchar(50);
+--> statement-breakpoint
+ALTER TABLE "sponsorship_logs" ADD COLUMN IF NOT EXISTS "gas_fee" varchar(50);
+--> statement-breakpoint
+ALTER TABLE "sponsorship_logs" ADD COLUMN IF NOT EXISTS "settled_at" timestamp;
+--> statement-breakpoint
+ALTER TABLE "user_profiles" ADD COLUMN IF NOT EXISTS "cached_weighted_staked_pulse" varchar(50);
+--> statement-breakpoint
+ALTER TABLE "user_settings" ADD COLUMN IF NOT EXISTS "network" varchar(10) DEFAULT 'testnet' NOT NULL;
+--> statement-breakpoint
+ALTER TABLE "user_settings" ALTER COLUMN "network" DROP DEFAULT;
+--> statement-breakpoint
+ALTER TABLE "referral_codes" ADD COLUMN IF NOT EXISTS "network" varchar(10) DEFAULT 'testnet' NOT NULL;
+--> statement-breakpoint
+ALTER TABLE "referral_codes" ALTER COLUMN "network" DROP DEFAULT;
+--> statement-breakpoint
+ALTER TABLE "referral_milestones" ADD COLUMN IF NOT EXISTS "network" varchar(10);
+--> statement-breakpoint
+-- A milestone belongs to its referral's network
+UPDATE "referral_milestones" SET "network" = coalesce(
+	(SELECT "network" FROM "referrals" WHERE "referrals"."id" = "referral_milestones"."referral_id"),
+	'testnet'
+) WHERE "network" IS NULL;
+--> statement-breakpoint
+ALTER TABLE "referral_milestones" ALTER COLUMN "network" SET NOT NULL;
+--> statement-breakpoint
+-- Milestones had no unique key before; keep the first award of each
+DELETE FROM "referral_milestones" AS "later"
+USING "referral_milestones" AS "earlier"
+WHERE "later"."network" = "earlier"."network"
+  AND "later"."referral_id" = "earlier"."referral_id"
+  AND "later"."milestone_type" = "earlier"."milestone_type"
+  AND ("later"."achieved_at", "later"."id") > ("earlier"."achieved_at", "earlier"."id");
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "notification_deliveries_pending_idx" ON "notification_deliveries" USING btree ("status","next_attempt_at");
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "notifications_wallet_notify_at_idx" ON "notifications" USING btree ("wallet_address","notify_at");
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "poll_fundings_wallet_idx" ON "poll_fundings" USING btree ("network","wallet_address");
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "poll_fundings_poll_idx" ON "poll_fundings" USING btree ("network","poll_id");
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "stake_boost_expiries_due_idx" ON "stake_boost_expiries" USING btree ("network","unlock_at");
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "swap_pool_events_network_wallet_idx" ON "swap_pool_events" USING btree ("network","wallet");
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "swap_pool_events_network_occurred_idx" ON "swap_pool_events" USING btree ("network","occurred_at");
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "sponsorship_logs_network_created" ON "sponsorship_logs" USING btree ("network","created_at");
+--> statement-breakpoint
+ALTER TABLE "user_settings" DROP CONSTRAINT IF EXISTS "user_settings_wallet_address_unique";
+--> statement-breakpoint
+ALTER TABLE "user_settings" DROP CONSTRAINT IF EXISTS "user_settings_network_wallet";
+--> statement-breakpoint
+ALTER TABLE "user_settings" ADD CONSTRAINT "user_settings_network_wallet" UNIQUE("network","wallet_address");
+--> statement-breakpoint
+ALTER TABLE "referral_codes" DROP CONSTRAINT IF EXISTS "referral_codes_wallet_address_unique";
+--> statement-breakpoint
+ALTER TABLE "referral_codes" DROP CONSTRAINT IF EXISTS "referral_codes_network_wallet";
+--> statement-breakpoint
+ALTER TABLE "referral_codes" ADD CONSTRAINT "referral_codes_network_wallet" UNIQUE("network","wallet_address");
+--> statement-breakpoint
+ALTER TABLE "referral_codes" DROP CONSTRAINT IF EXISTS "referral_codes_code_unique";
+--> statement-breakpoint
+ALTER TABLE "referral_codes" DROP CONSTRAINT IF EXISTS "referral_codes_network_code";
+--> statement-breakpoint
+ALTER TABLE "referral_codes" ADD CONSTRAINT "referral_codes_network_code" UNIQUE("network","code");
+--> statement-breakpoint
+ALTER TABLE "referral_milestones" DROP CONSTRAINT IF EXISTS "referral_milestones_network_referral_type";
+--> statement-breakpoint
+ALTER TABLE "referral_milestones" ADD CONSTRAINT "referral_milestones_network_referral_type" UNIQUE("network","referral_id","milestone_type");
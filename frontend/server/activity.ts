@@ -0,0 +1,740 @@
+/**
+ * Wallet activity feed
+ * Merges everything a wallet did on a network into one timeline, newest first:
+ * votes, claims, distributions and poll closes from the poll indexer, fundings
+ * and refunds from the donor ledger, questionnaire, quest and referral records,
+ * and poll creation/finalization, staking and swap/liquidity events read from
+ * the GraphQL indexer.
+ *
+ * Pages are keyed on (occurredAt, id): the cursor is the last item returned, and
+ * each source fetches up to limit + 1 items at or before it, so merging the
+ * sources and keeping the first `limit` newer-than-cursor items never skips one.
+ */
+
+import { and, desc, eq, gt, gte, inArray, isNotNull, lte, or, sql, type SQL } from "drizzle-orm";
+import type { AnyPgColumn } from "drizzle-orm/pg-core";
+import { db } from "./db";
+import {
+  indexedPolls,
+  indexedPollVotes,
+  indexedPollClaims,
+  indexedPollDistributions,
+  pollFundings,
+  questionnaires,
+  questionnaireProgress,
+  quests,
+  questProgress,
+  referrals,
+  referralMilestones,
+  ACTIVITY_TYPES,
+  POLL_FUNDING_KIND,
+  toAmount,
+  type ActivityItem,
+  type ActivityPage,
+  type ActivityType,
+} from "@shared/schema";
+import {
+  getIndexerUrl,
+  getPollContractAddress,
+  getStakingContractAddress,
+  getSwapContractAddress,
+  normalizeAddress,
+  type NetworkType,
+} from "./movement";
+
+// ============================================
+// Types
+// ============================================
+
+export class ActivityError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.status = status;
+  }
+}
+
+export interface ActivityQuery {
+  types: ActivityType[] | null; // null = every type
+  from: Date | null;
+  to: Date | null;
+  cursor: string | null;
+  limit: number;
+}
+
+interface ActivityCursor {
+  t: string; // occurredAt of the last item returned
+  id: string;
+}
+
+interface SourceContext {
+  network: NetworkType;
+  // Off-chain tables store lowercased addresses, indexed ones the padded form
+  wallets: string[];
+  padded: string;
+  before: Date | null;
+  from: Date | null;
+  limit: number;
+}
+
+interface ActivitySource {
+  types: ActivityType[];
+  fetch(context: SourceContext): Promise<ActivityItem[]>;
+}
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+const POLL_FINALIZED_STATUS = 3;
+
+const ALL_ACTIVITY_TYPES = Object.values(ACTIVITY_TYPES) as ActivityType[];
+
+// ============================================
+// Query Parsing
+// ============================================
+
+function parseDate(value: unknown, name: string): Date | null {
+  if (value === undefined || value === "") return null;
+  const date = new Date(String(value));
+  if (isNaN(date.getTime())) {
+    throw new ActivityError(400, `${name} must be a date`);
+  }
+  return date;
+}
+
+/**
+ * Read ?types=, ?from=, ?to=, ?cursor= and ?limit= from a request query
+ */
+export function parseActivityQuery(query: Record<string, unknown>): ActivityQuery {
+  let types: ActivityType[] | null = null;
+  if (typeof query.types === "string" && query.types.length > 0) {
+    const requested = query.types.split(",").map((type) => type.trim());
+    const unknown = requested.find((type) => !(ALL_ACTIVITY_TYPES as string[]).includes(type));
+    if (unknown) {
+      throw new ActivityError(400, `Unknown activity type "${unknown}"`);
+    }
+    types = requested as ActivityType[];
+  }
+
+  const limit = query.limit === undefined ? DEFAULT_PAGE_SIZE : parseInt(String(query.limit), 10);
+  if (!Number.isInteger(limit) || limit < 1) {
+    throw new ActivityError(400, "limit must be a positive integer");
+  }
+
+  return {
+    types,
+    from: parseDate(query.from, "from"),
+    to: parseDate(query.to, "to"),
+    cursor: typeof query.cursor === "string" && query.cursor.length > 0 ? query.cursor : null,
+    limit: Math.min(limit, MAX_PAGE_SIZE),
+  };
+}
+
+function encodeCursor(item: ActivityItem): string {
+  return Buffer.from(JSON.stringify({ t: item.occurredAt, id: item.id } satisfies ActivityCursor)).toString("base64url");
+}
+
+function decodeCursor(cursor: string): ActivityCursor {
+  try {
+    const parsed = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+    if (typeof parsed?.t === "string" && typeof parsed?.id === "string" && !isNaN(Date.parse(parsed.t))) {
+      return parsed;
+    }
+  } catch {
+    // Fall through
+  }
+  throw new ActivityError(400, "Invalid cursor");
+}
+
+// Newest first; ids break ties so the order is total
+function compareItems(a: ActivityItem, b: ActivityItem): number {
+  if (a.occurredAt !== b.occurredAt) return a.occurredAt < b.occurredAt ? 1 : -1;
+  return a.id < b.id ? 1 : a.id > b.id ? -1 : 0;
+}
+
+function timeRange(column: AnyPgColumn, context: SourceContext): SQL[] {
+  const conditions: SQL[] = [isNotNull(column)];
+  if (context.before) conditions.push(lte(column, context.before));
+  if (context.from) conditions.push(gte(column, context.from));
+  return conditions;
+}
+
+function iso(date: Date | null): string {
+  return (date ?? new Date(0)).toISOString();
+}
+
+// ============================================
+// Server Sources
+// ============================================
+
+const pollTitle = indexedPolls.title;
+const pollJoin = (pollId: AnyPgColumn, network: NetworkType) =>
+  and(eq(indexedPolls.network, network), eq(indexedPolls.pollId, pollId));
+
+const votesSource: ActivitySource = {
+  types: [ACTIVITY_TYPES.VOTE],
+  async fetch(context) {
+    const rows = await db
+      .select({ vote: indexedPollVotes, pollTitle })
+      .from(indexedPollVotes)
+      .leftJoin(indexedPolls, pollJoin(indexedPollVotes.pollId, context.network))
+      .where(and(
+        eq(indexedPollVotes.network, context.network),
+        eq(indexedPollVotes.voter, context.padded),
+        ...timeRange(indexedPollVotes.votedAt, context)
+      ))
+      .orderBy(desc(indexedPollVotes.votedAt))
+      .limit(context.limit);
+
+    return rows.map(({ vote, pollTitle }) => ({
+      id: `vote:${vote.pollId}`,
+      type: ACTIVITY_TYPES.VOTE,
+      occurredAt: iso(vote.votedAt),
+      source: "chain",
+      txHash: vote.txHash,
+      txVersion: vote.txVersion,
+      pollId: vote.pollId,
+      pollTitle,
+      optionIndex: vote.optionIndex,
+    }));
+  },
+};
+
+const claimsSource: ActivitySource = {
+  types: [ACTIVITY_TYPES.REWARD_CLAIMED],
+  async fetch(context) {
+    const rows = await db
+      .select({ claim: indexedPollClaims, pollTitle, coinTypeId: indexedPolls.coinTypeId })
+      .from(indexedPollClaims)
+      .leftJoin(indexedPolls, pollJoin(indexedPollClaims.pollId, context.network))
+      .where(and(
+        eq(indexedPollClaims.network, context.network),
+        eq(indexedPollClaims.claimer, context.padded),
+        ...timeRange(indexedPollClaims.claimedAt, context)
+      ))
+      .orderBy(desc(indexedPollClaims.claimedAt))
+      .limit(context.limit);
+
+    return rows.map(({ claim, pollTitle, coinTypeId }) => ({
+      id: `reward_claimed:${claim.pollId}`,
+      type: ACTIVITY_TYPES.REWARD_CLAIMED,
+      occurredAt: iso(claim.claimedAt),
+      source: "chain",
+      txHash: claim.txHash,
+      txVersion: claim.txVersion,
+      pollId: claim.pollId,
+      pollTitle,
+      amount: claim.amount,
+      coinTypeId: coinTypeId ?? undefined,
+    }));
+  },
+};
+
+// Push distributions show up for the poll's creator and for every voter who was paid
+const distributionsSource: ActivitySource = {
+  types: [ACTIVITY_TYPES.REWARDS_DISTRIBUTED],
+  async fetch(context) {
+    const rows = await db
+      .select({ distribution: indexedPollDistributions, poll: indexedPolls })
+      .from(indexedPollDistributions)
+      .innerJoin(indexedPolls, pollJoin(indexedPollDistributions.pollId, context.network))
+      .where(and(
+        eq(indexedPollDistributions.network, context.network),
+        or(
+          eq(indexedPolls.creator, context.padded),
+          sql`${indexedPolls.voters} @> ${JSON.stringify([context.padded])}::jsonb`
+        ),
+        ...timeRange(indexedPollDistributions.distributedAt, context)
+      ))
+      .orderBy(desc(indexedPollDistributions.distributedAt))
+      .limit(context.limit);
+
+    return rows.map(({ distribution, poll }) => {
+      const isCreator = poll.creator === context.padded;
+      const share = distribution.recipientCount > 0
+        ? (toAmount(distribution.totalDistributed) / BigInt(distribution.recipientCount)).toString()
+        : "0";
+      return {
+        id: `rewards_distributed:${distribution.pollId}`,
+        type: ACTIVITY_TYPES.REWARDS_DISTRIBUTED,
+        occurredAt: iso(distribution.distributedAt),
+        source: "chain",
+        txHash: distribution.txHash,
+        txVersion: distribution.txVersion,
+        pollId: distribution.pollId,
+        pollTitle: poll.title,
+        amount: isCreator ? distribution.totalDistributed : share,
+        coinTypeId: poll.coinTypeId,
+        details: { role: isCreator ? "creator" : "recipient", recipients: distribution.recipientCount },
+      };
+    });
+  },
+};
+
+const fundingsSource: ActivitySource = {
+  types: [ACTIVITY_TYPES.POLL_FUNDED, ACTIVITY_TYPES.POLL_REFUNDED],
+  async fetch(context) {
+    const rows = await db
+      .select({ funding: pollFundings, pollTitle })
+      .from(pollFundings)
+      .leftJoin(indexedPolls, pollJoin(pollFundings.pollId, context.network))
+      .where(and(
+        eq(pollFundings.network, context.network),
+        eq(pollFundings.walletAddress, context.padded),
+        ...timeRange(pollFundings.occurredAt, context)
+      ))
+      .orderBy(desc(pollFundings.occurredAt))
+      .limit(context.limit);
+
+    return rows.map(({ funding, pollTitle }) => {
+      const type = funding.kind === POLL_FUNDING_KIND.FUND ? ACTIVITY_TYPES.POLL_FUNDED : ACTIVITY_TYPES.POLL_REFUNDED;
+      return {
+        id: `${type}:${funding.txHash}`,
+        type,
+        occurredAt: iso(funding.occurredAt),
+        source: "chain",
+        txHash: funding.txHash,
+        txVersion: funding.txVersion,
+        pollId: funding.pollId,
+        pollTitle,
+        amount: funding.netAmount,
+        coinTypeId: funding.coinTypeId,
+        details: { platformFee: funding.platformFee },
+      };
+    });
+  },
+};
+
+// closedAt is unix seconds from get_poll
+const closedPollsSource: ActivitySource = {
+  types: [ACTIVITY_TYPES.POLL_CLOSED],
+  async fetch(context) {
+    const conditions: SQL[] = [
+      eq(indexedPolls.network, context.network),
+      eq(indexedPolls.creator, context.padded),
+      gt(indexedPolls.closedAt, 0),
+    ];
+    if (context.before) conditions.push(lte(indexedPolls.closedAt, Math.floor(context.before.getTime() / 1000)));
+    if (context.from) conditions.push(gte(indexedPolls.closedAt, Math.ceil(context.from.getTime() / 1000)));
+
+    const rows = await db
+      .select()
+      .from(indexedPolls)
+      .where(and(...conditions))
+      .orderBy(desc(indexedPolls.closedAt))
+      .limit(context.limit);
+
+    return rows.map((poll) => ({
+      id: `poll_closed:${poll.pollId}`,
+      type: ACTIVITY_TYPES.POLL_CLOSED,
+      occurredAt: new Date(poll.closedAt * 1000).toISOString(),
+      source: "chain",
+      pollId: poll.pollId,
+      pollTitle: poll.title,
+      details: { voters: poll.totalVotes },
+    }));
+  },
+};
+
+const questionnaireCompletionsSource: ActivitySource = {
+  types: [ACTIVITY_TYPES.QUESTIONNAIRE_COMPLETED],
+  async fetch(context) {
+    const rows = await db
+      .select({ progress: questionnaireProgress, title: questionnaires.title })
+      .from(questionnaireProgress)
+      .innerJoin(questionnaires, eq(questionnaires.id, questionnaireProgress.questionnaireId))
+      .where(and(
+        eq(questionnaires.network, context.network),
+        inArray(questionnaireProgress.walletAddress, context.wallets),
+        eq(questionnaireProgress.isComplete, true),
+        ...timeRange(questionnaireProgress.completedAt, context)
+      ))
+      .orderBy(desc(questionnaireProgress.completedAt))
+      .limit(context.limit);
+
+    return rows.map(({ progress, title }) => ({
+      id: `questionnaire_completed:${progress.questionnaireId}`,
+      type: ACTIVITY_TYPES.QUESTIONNAIRE_COMPLETED,
+      occurredAt: iso(progress.completedAt),
+      source: "server",
+      txHash: progress.bulkVoteTxHash,
+      questionnaireId: progress.questionnaireId,
+      title,
+      details: { questions: progress.pollsAnswered.length + progress.textAnswers.length },
+    }));
+  },
+};
+
+const questionnaireClaimsSource: ActivitySource = {
+  types: [ACTIVITY_TYPES.QUESTIONNAIRE_REWARD_CLAIMED],
+  async fetch(context) {
+    const rows = await db
+      .select({ progress: questionnaireProgress, questionnaire: questionnaires })
+      .from(questionnaireProgress)
+      .innerJoin(questionnaires, eq(questionnaires.id, questionnaireProgress.questionnaireId))
+      .where(and(
+        eq(questionnaires.network, context.network),
+        inArray(questionnaireProgress.walletAddress, context.wallets),
+        eq(questionnaireProgress.claimed, true),
+        ...timeRange(questionnaireProgress.claimedAt, context)
+      ))
+      .orderBy(desc(questionnaireProgress.claimedAt))
+      .limit(context.limit);
+
+    return rows.map(({ progress, questionnaire }) => ({
+      id: `questionnaire_reward_claimed:${progress.questionnaireId}`,
+      type: ACTIVITY_TYPES.QUESTIONNAIRE_REWARD_CLAIMED,
+      occurredAt: iso(progress.claimedAt),
+      source: "chain",
+      txHash: progress.claimTxHash,
+      questionnaireId: progress.questionnaireId,
+      title: questionnaire.title,
+      coinTypeId: questionnaire.coinTypeId,
+    }));
+  },
+};
+
+const questClaimsSource: ActivitySource = {
+  types: [ACTIVITY_TYPES.QUEST_CLAIMED],
+  async fetch(context) {
+    const rows = await db
+      .select({ progress: questProgress, name: quests.name })
+      .from(questProgress)
+      .innerJoin(quests, eq(quests.id, questProgress.questId))
+      .where(and(
+        eq(quests.network, context.network),
+        inArray(questProgress.walletAddress, context.wallets),
+        eq(questProgress.completed, true),
+        gt(questProgress.pointsAwarded, 0),
+        ...timeRange(questProgress.completedAt, context)
+      ))
+      .orderBy(desc(questProgress.completedAt))
+      .limit(context.limit);
+
+    return rows.map(({ progress, name }) => ({
+      id: `quest_claimed:${progress.id}`,
+      type: ACTIVITY_TYPES.QUEST_CLAIMED,
+      occurredAt: iso(progress.completedAt),
+      source: "server",
+      title: name,
+      details: { points: progress.pointsAwarded },
+    }));
+  },
+};
+
+const referralMilestonesSource: ActivitySource = {
+  types: [ACTIVITY_TYPES.REFERRAL_MILESTONE],
+  async fetch(context) {
+    const rows = await db
+      .select({ milestone: referralMilestones, referral: referrals })
+      .from(referralMilestones)
+      .innerJoin(referrals, eq(referrals.id, referralMilestones.referralId))
+      .where(and(
+        eq(referralMilestones.network, context.network),
+        or(inArray(referrals.referrerAddress, context.wallets), inArray(referrals.refereeAddress, context.wallets)),
+        ...timeRange(referralMilestones.achievedAt, context)
+      ))
+      .orderBy(desc(referralMilestones.achievedAt))
+      .limit(context.limit);
+
+    return rows.map(({ milestone, referral }) => {
+      const isReferrer = context.wallets.includes(referral.referrerAddress);
+      return {
+        id: `referral_milestone:${milestone.id}`,
+        type: ACTIVITY_TYPES.REFERRAL_MILESTONE,
+        occurredAt: iso(milestone.achievedAt),
+        source: "server",
+        title: milestone.milestoneType,
+        details: {
+          role: isReferrer ? "referrer" : "referee",
+          points: isReferrer ? milestone.referrerPointsAwarded : milestone.refereePointsAwarded,
+        },
+      };
+    });
+  },
+};
+
+// ============================================
+// Chain Source (GraphQL indexer)
+// ============================================
+
+const CHAIN_EVENTS_QUERY = `
+  query GetWalletActivity($where: events_bool_exp!, $limit: Int!) {
+    events(
+      where: $where,
+      order_by: [{ transaction_version: desc }, { event_index: desc }],
+      limit: $limit
+    ) {
+      type
+      data
+      transaction_version
+      event_index
+      block_metadata_transaction {
+        timestamp
+      }
+    }
+  }
+`;
+
+interface ChainEventRow {
+  type: string;
+  data: Record<string, unknown>;
+  transaction_version: string | number;
+  event_index: number;
+  block_metadata_transaction?: { timestamp: string } | null;
+}
+
+// Event name -> activity type and the data field naming the wallet
+const CHAIN_EVENTS: Record<string, { module: "poll" | "staking" | "swap"; type: ActivityType; walletField?: string }> = {
+  PollCreated: { module: "poll", type: ACTIVITY_TYPES.POLL_CREATED, walletField: "creator" },
+  PollFinalized: { module: "poll", type: ACTIVITY_TYPES.POLL_FINALIZED },
+  Staked: { module: "staking", type: ACTIVITY_TYPES.STAKED, walletField: "staker" },
+  Unstaked: { module: "staking", type: ACTIVITY_TYPES.UNSTAKED, walletField: "staker" },
+  RewardsClaimed: { module: "staking", type: ACTIVITY_TYPES.STAKING_REWARDS_CLAIMED, walletField: "staker" },
+  RewardsCompounded: { module: "staking", type: ACTIVITY_TYPES.STAKING_REWARDS_COMPOUNDED, walletField: "staker" },
+  Swap: { module: "swap", type: ACTIVITY_TYPES.SWAP, walletField: "trader" },
+  LiquidityAdded: { module: "swap", type: ACTIVITY_TYPES.LIQUIDITY_ADDED, walletField: "provider" },
+  LiquidityRemoved: { module: "swap", type: ACTIVITY_TYPES.LIQUIDITY_REMOVED, walletField: "provider" },
+};
+
+// Event data may carry the short or the padded form of an address
+function addressForms(padded: string): string[] {
+  const short = `0x${padded.slice(2).replace(/^0+(?=.)/, "")}`;
+  return Array.from(new Set([padded, short]));
+}
+
+// Indexer timestamps are UTC without a zone suffix
+function toIndexerTimestamp(date: Date): string {
+  return date.toISOString().replace("Z", "");
+}
+
+function fromIndexerTimestamp(value: string | undefined): string {
+  if (!value) return new Date(0).toISOString();
+  return new Date(/[zZ]|[+-]\d\d:?\d\d$/.test(value) ? value : `${value}Z`).toISOString();
+}
+
+function str(value: unknown): string {
+  return String(value ?? "0");
+}
+
+function toChainItem(event: ChainEventRow): ActivityItem | null {
+  const name = event.type.split("::").pop() ?? "";
+  const spec = CHAIN_EVENTS[name];
+  if (!spec) return null;
+
+  const data = event.data;
+  const version = String(event.transaction_version);
+  const item: ActivityItem = {
+    id: `${spec.type}:${version}:${event.event_index}`,
+    type: spec.type,
+    occurredAt: fromIndexerTimestamp(event.block_metadata_transaction?.timestamp),
+    source: "chain",
+    txVersion: version,
+  };
+
+  switch (spec.type) {
+    case ACTIVITY_TYPES.POLL_CREATED:
+      return {
+        ...item,
+        pollId: parseInt(str(data.poll_id), 10),
+        pollTitle: typeof data.title === "string" ? data.title : null,
+        amount: str(data.reward_pool),
+        coinTypeId: parseInt(str(data.coin_type_id), 10),
+      };
+    case ACTIVITY_TYPES.POLL_FINALIZED:
+      return {
+        ...item,
+        pollId: parseInt(str(data.poll_id), 10),
+        amount: str(data.unclaimed_amount),
+        details: { sentToTreasury: String(data.sent_to_treasury) },
+      };
+    case ACTIVITY_TYPES.STAKED:
+      return {
+        ...item,
+        amount: str(data.amount),
+        details: { lockDuration: str(data.lock_duration), unlockAt: str(data.unlock_at), position: str(data.position_index) },
+      };
+    case ACTIVITY_TYPES.UNSTAKED:
+      return { ...item, amount: str(data.amount), details: { position: str(data.position_index) } };
+    case ACTIVITY_TYPES.STAKING_REWARDS_CLAIMED:
+      return { ...item, amount: str(data.amount) };
+    case ACTIVITY_TYPES.STAKING_REWARDS_COMPOUNDED:
+      return {
+        ...item,
+        amount: str(data.amount),
+        details: { lockDuration: str(data.lock_duration), position: str(data.position_index) },
+      };
+    case ACTIVITY_TYPES.SWAP:
+      return {
+        ...item,
+        details: {
+          pulseIn: str(data.pulse_in),
+          stableIn: str(data.stable_in),
+          pulseOut: str(data.pulse_out),
+          stableOut: str(data.stable_out),
+          fee: str(data.fee_amount),
+        },
+      };
+    default:
+      return {
+        ...item,
+        details: {
+          pulseAmount: str(data.pulse_amount),
+          stableAmount: str(data.stable_amount),
+          lpShares: str(data.lp_shares_minted ?? data.lp_shares_burned),
+        },
+      };
+  }
+}
+
+/**
+ * Events of the poll, staking and swap contracts that involve the wallet
+ * PollFinalized names no wallet, so it is matched by the creator's finalized polls.
+ */
+function createChainSource(types: ActivityType[]): ActivitySource {
+  return {
+    types,
+    async fetch(context) {
+      const contracts = {
+        poll: getPollContractAddress(context.network),
+        staking: getStakingContractAddress(context.network),
+        swap: getSwapContractAddress(context.network),
+      };
+      const forms = addressForms(context.padded);
+      const clauses: Record<string, unknown>[] = [];
+
+      for (const [name, spec] of Object.entries(CHAIN_EVENTS)) {
+        const contract = contracts[spec.module];
+        if (!contract || !types.includes(spec.type) || !spec.walletField) continue;
+        clauses.push({
+          indexed_type: { _eq: `${contract}::${spec.module}::${name}` },
+          _or: forms.map((form) => ({ data: { _contains: { [spec.walletField!]: form } } })),
+        });
+      }
+
+      if (contracts.poll && types.includes(ACTIVITY_TYPES.POLL_FINALIZED)) {
+        const finalized = await db
+          .select({ pollId: indexedPolls.pollId })
+          .from(indexedPolls)
+          .where(and(
+            eq(indexedPolls.network, context.network),
+            eq(indexedPolls.creator, context.padded),
+            eq(indexedPolls.status, POLL_FINALIZED_STATUS)
+          ))
+          .orderBy(desc(indexedPolls.pollId))
+          .limit(MAX_PAGE_SIZE);
+        if (finalized.length > 0) {
+          clauses.push({
+            indexed_type: { _eq: `${contracts.poll}::poll::PollFinalized` },
+            _or: finalized.map((poll) => ({ data: { _contains: { poll_id: String(poll.pollId) } } })),
+          });
+        }
+      }
+
+      if (clauses.length === 0) return [];
+
+      const timestamp: Record<string, string> = {};
+      if (context.before) timestamp._lte = toIndexerTimestamp(context.before);
+      if (context.from) timestamp._gte = toIndexerTimestamp(context.from);
+      const where = Object.keys(timestamp).length > 0
+        ? { _or: clauses, block_metadata_transaction: { timestamp } }
+        : { _or: clauses };
+
+      const response = await fetch(getIndexerUrl(context.network), {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ query: CHAIN_EVENTS_QUERY, variables: { where, limit: context.limit } }),
+      });
+
+      if (!response.ok) {
+        throw new Error(`Indexer request failed: ${response.status} ${response.statusText}`);
+      }
+
+      const result: { data?: { events: ChainEventRow[] }; errors?: { message: string }[] } = await response.json();
+      if (result.errors) {
+        throw new Error(`Indexer query failed: ${result.errors.map((e) => e.message).join("; ")}`);
+      }
+
+      return (result.data?.events ?? [])
+        .map(toChainItem)
+        .filter((item): item is ActivityItem => item !== null);
+    },
+  };
+}
+
+const SERVER_SOURCES: ActivitySource[] = [
+  votesSource,
+  claimsSource,
+  distributionsSource,
+  fundingsSource,
+  closedPollsSource,
+  questionnaireCompletionsSource,
+  questionnaireClaimsSource,
+  questClaimsSource,
+  referralMilestonesSource,
+];
+
+const CHAIN_TYPES = Array.from(new Set(Object.values(CHAIN_EVENTS).map((spec) => spec.type)));
+
+// ============================================
+// Feed
+// ============================================
+
+/**
+ * One page of a wallet's activity on a network
+ */
+export async function getWalletActivity(
+  network: NetworkType,
+  walletAddress: string,
+  query: ActivityQuery
+): Promise<ActivityPage> {
+  const cursor = query.cursor ? decodeCursor(query.cursor) : null;
+  const cursorTime = cursor ? new Date(cursor.t) : null;
+  const before = cursorTime && query.to ? new Date(Math.min(cursorTime.getTime(), query.to.getTime())) : cursorTime ?? query.to;
+  const types = query.types ?? ALL_ACTIVITY_TYPES;
+
+  const padded = normalizeAddress(walletAddress);
+  const context: SourceContext = {
+    network,
+    wallets: Array.from(new Set([padded, walletAddress.toLowerCase()])),
+    padded,
+    before,
+    from: query.from,
+    limit: query.limit + 1,
+  };
+
+  const chainTypes = CHAIN_TYPES.filter((type) => types.includes(type));
+  const sources = [
+    ...SERVER_SOURCES.filter((source) => source.types.some((type) => types.includes(type))),
+    ...(chainTypes.length > 0 ? [createChainSource(chainTypes)] : []),
+  ];
+
+  const results = await Promise.all(sources.map((source) => source.fetch(context)));
+  const merged = results
+    .flat()
+    .filter((item) => types.includes(item.type))
+    .filter((item) => !cursor || compareItems(item, { occurredAt: cursor.t, id: cursor.id } as ActivityItem) > 0)
+    .sort(compareItems);
+
+  const items = merged.slice(0, query.limit);
+
+  // Chain events such as PollFinalized carry no title
+  const untitled = Array.from(new Set(
+    items.filter((item) => item.pollId !== undefined && !item.pollTitle).map((item) => item.pollId!)
+  ));
+  if (untitled.length > 0) {
+    const titles = await db
+      .select({ pollId: indexedPolls.pollId, title: indexedPolls.title })
+      .from(indexedPolls)
+      .where(and(eq(indexedPolls.network, network), inArray(indexedPolls.pollId, untitled)));
+    const byPoll = new Map(titles.map((row) => [row.pollId, row.title]));
+    items.forEach((item) => {
+      if (item.pollId !== undefined && !item.pollTitle) item.pollTitle = byPoll.get(item.pollId) ?? null;
+    });
+  }
+
+  return {
+    items,
+    nextCursor: merged.length > query.limit ? encodeCursor(items[items.length - 1]) : null,
+  };
+}
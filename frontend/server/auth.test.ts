@@ -0,0 +1,122 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  AuthError,
+  createSessionToken,
+  parseSignInProof,
+  refreshSession,
+  requireWalletSession,
+  verifySessionToken,
+  type WalletSession,
+} from "./auth";
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+const SIGNED_IN_AT = Date.UTC(2026, 0, 1);
+
+function session(overrides: Partial<WalletSession> = {}): WalletSession {
+  return {
+    address: "0x1",
+    network: "testnet",
+    issuedAt: SIGNED_IN_AT,
+    expiresAt: SIGNED_IN_AT + HOUR_MS,
+    ...overrides,
+  };
+}
+
+describe("session refresh", () => {
+  beforeEach(() => {
+    process.env.SESSION_SECRET = "test-secret";
+    vi.useFakeTimers();
+    vi.setSystemTime(SIGNED_IN_AT);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("keeps the original sign-in time across refreshes", () => {
+    vi.setSystemTime(SIGNED_IN_AT + 30 * 60 * 1000);
+    const refreshed = refreshSession(session());
+    expect(refreshed.issuedAt).toBe(SIGNED_IN_AT);
+    expect(refreshed.expiresAt).toBe(Date.now() + HOUR_MS);
+
+    const decoded = verifySessionToken(createSessionToken(refreshed));
+    expect(decoded?.issuedAt).toBe(SIGNED_IN_AT);
+  });
+
+  it("caps the last refresh at the maximum session age", () => {
+    vi.setSystemTime(SIGNED_IN_AT + 7 * DAY_MS - 10 * 60 * 1000);
+    const refreshed = refreshSession(session({ expiresAt: Date.now() + 5 * 60 * 1000 }));
+    expect(refreshed.expiresAt).toBe(SIGNED_IN_AT + 7 * DAY_MS);
+  });
+
+  it("refuses to refresh a session older than the maximum age", () => {
+    vi.setSystemTime(SIGNED_IN_AT + 7 * DAY_MS);
+    expect(() => refreshSession(session({ expiresAt: Date.now() + HOUR_MS }))).toThrow(AuthError);
+  });
+
+  it("rejects tokens minted without a sign-in time", () => {
+    const { issuedAt: _issuedAt, ...legacy } = session();
+    const token = createSessionToken(legacy as WalletSession);
+    expect(verifySessionToken(token)).toBeNull();
+  });
+});
+
+describe("requireWalletSession", () => {
+  beforeEach(() => {
+    process.env.SESSION_SECRET = "test-secret";
+  });
+
+  function run(query: Record<string, unknown>, body: Record<string, unknown>) {
+    const token = createSessionToken(session({ issuedAt: Date.now(), expiresAt: Date.now() + HOUR_MS }));
+    const req = { headers: { authorization: `Bearer ${token}` }, params: {}, query, body } as never;
+    const res = { statusCode: 200, status(code: number) { this.statusCode = code; return this; }, json: vi.fn() };
+    const next = vi.fn();
+    requireWalletSession(() => undefined)(req, res as never, next);
+    return { res, next };
+  }
+
+  it("accepts requests on the session's network", () => {
+    expect(run({ network: "testnet" }, {}).next).toHaveBeenCalled();
+    expect(run({}, {}).next).toHaveBeenCalled();
+  });
+
+  it("rejects requests that ask for a different network", () => {
+    for (const { res, next } of [run({ network: "mainnet" }, {}), run({}, { network: "mainnet" })]) {
+      expect(next).not.toHaveBeenCalled();
+      expect(res.statusCode).toBe(403);
+    }
+  });
+});
+
+describe("parseSignInProof", () => {
+  const proof = {
+    address: "0x1",
+    nonce: "abc",
+    publicKey: `0x${"a".repeat(64)}`,
+    signature: "b".repeat(128),
+    fullMessage: "APTOS\nmessage: sign in",
+  };
+
+  it("accepts a well-formed proof", () => {
+    expect(parseSignInProof(proof)).toEqual(proof);
+  });
+
+  it.each([
+    ["a missing field", { ...proof, fullMessage: undefined }],
+    ["a non-string message", { ...proof, fullMessage: { includes: "x" } }],
+    ["a non-hex signature", { ...proof, signature: "not hex" }],
+    ["a numeric public key", { ...proof, publicKey: 42 }],
+    ["no body", undefined],
+  ])("rejects %s with a 400", (_label, body) => {
+    const error = (() => {
+      try {
+        parseSignInProof(body);
+      } catch (err) {
+        return err;
+      }
+    })();
+    expect(error).toBeInstanceOf(AuthError);
+    expect((error as AuthError).status).toBe(400);
+  });
+});
@@ -0,0 +1,321 @@
+/**
+ * Wallet-signature authentication
+ * Sign-in-with-wallet flow: the server issues a nonce, the wallet signs a message
+ * containing it, and the Ed25519 signature is checked against the account's
+ * on-chain authentication key before a short-lived session token is issued.
+ */
+
+import type { Request, Response, NextFunction } from "express";
+import { createHash, createHmac, createPublicKey, randomBytes, timingSafeEqual, verify } from "crypto";
+import { z } from "zod";
+import { getAccountAuthKey, normalizeNetwork, type NetworkType } from "./movement";
+
+// ============================================
+// Constants
+// ============================================
+
+const NONCE_TTL_MS = 5 * 60 * 1000; // Nonces must be signed within 5 minutes
+const SESSION_TTL_MS = 60 * 60 * 1000; // Session tokens are valid for 1 hour
+const SESSION_MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000; // Refreshes stop 7 days after sign-in
+
+// DER SubjectPublicKeyInfo prefix for a raw 32-byte Ed25519 public key
+const ED25519_SPKI_PREFIX = Buffer.from("302a300506032b6570032100", "hex");
+// Authentication key scheme byte for single Ed25519 keys
+const ED25519_SCHEME = 0x00;
+
+// ============================================
+// Types
+// ============================================
+
+export interface WalletSession {
+  address: string;
+  network: NetworkType;
+  issuedAt: number; // When the wallet signature was verified; carried across refreshes
+  expiresAt: number;
+}
+
+interface PendingNonce {
+  address: string;
+  network: NetworkType;
+  message: string;
+  expiresAt: number;
+}
+
+const hexString = z.string().regex(/^(0x)?[0-9a-fA-F]+$/, "must be a hex string");
+
+// Body of POST /api/auth/verify
+export const signInProofSchema = z.object({
+  address: hexString,
+  nonce: z.string().min(1),
+  publicKey: hexString,
+  signature: hexString,
+  fullMessage: z.string().min(1), // Exact bytes the wallet signed (wallets may add a prefix)
+});
+
+export type SignInProof = z.infer<typeof signInProofSchema>;
+
+export class AuthError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.status = status;
+  }
+}
+
+declare global {
+  namespace Express {
+    interface Request {
+      walletSession?: WalletSession;
+    }
+  }
+}
+
+// ============================================
+// Nonce Store
+// ============================================
+
+const pendingNonces = new Map<string, PendingNonce>();
+
+function pruneExpiredNonces(): void {
+  const now = Date.now();
+  pendingNonces.forEach((pending, nonce) => {
+    if (pending.expiresAt <= now) {
+      pendingNonces.delete(nonce);
+    }
+  });
+}
+
+/**
+ * Build the human-readable message the wallet is asked to sign
+ */
+export function buildSignInMessage(address: string, nonce: string, issuedAt: Date): string {
+  return [
+    "MVPulse wants you to sign in with your Movement account:",
+    address,
+    "",
+    "Signing this message proves you own this wallet. It does not submit a transaction or cost gas.",
+    "",
+    `Nonce: ${nonce}`,
+    `Issued At: ${issuedAt.toISOString()}`,
+  ].join("\n");
+}
+
+/**
+ * Issue a single-use nonce for an address
+ */
+export function issueNonce(
+  address: string,
+  network: NetworkType
+): { nonce: string; message: string; expiresAt: number } {
+  pruneExpiredNonces();
+
+  const normalizedAddress = address.toLowerCase();
+  const nonce = randomBytes(16).toString("hex");
+  const message = buildSignInMessage(normalizedAddress, nonce, new Date());
+  const expiresAt = Date.now() + NONCE_TTL_MS;
+
+  pendingNonces.set(nonce, { address: normalizedAddress, network, message, expiresAt });
+
+  return { nonce, message, expiresAt };
+}
+
+// ============================================
+// Signature Verification
+// ============================================
+
+function stripHexPrefix(value: string): string {
+  return value.startsWith("0x") ? value.slice(2) : value;
+}
+
+/**
+ * Clean public key - remove 0x prefix and handle 33-byte keys
+ */
+function cleanPublicKey(publicKeyHex: string): string {
+  let clean = stripHexPrefix(publicKeyHex);
+  // If public key is 66 characters (33 bytes), remove the first byte (00 prefix)
+  if (clean.length === 66) {
+    clean = clean.slice(2);
+  }
+  return clean;
+}
+
+/**
+ * Check the shape of a sign-in request body before anything is decoded
+ */
+export function parseSignInProof(body: unknown): SignInProof {
+  const parsed = signInProofSchema.safeParse(body);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    throw new AuthError(400, `Invalid sign-in request: ${issue.path.join(".") || "body"} ${issue.message}`);
+  }
+  return parsed.data;
+}
+
+/**
+ * Verify a signed nonce and return the session it grants
+ * The nonce is consumed whether or not verification succeeds
+ */
+export async function verifySignIn(proof: SignInProof): Promise<WalletSession> {
+  const pending = pendingNonces.get(proof.nonce);
+  pendingNonces.delete(proof.nonce);
+
+  if (!pending || pending.expiresAt <= Date.now()) {
+    throw new AuthError(401, "Nonce expired or unknown");
+  }
+
+  const normalizedAddress = proof.address.toLowerCase();
+  if (pending.address !== normalizedAddress) {
+    throw new AuthError(401, "Nonce was issued for a different address");
+  }
+
+  // Wallets wrap the message (e.g. "APTOS\nmessage: ...\nnonce: ..."), so only
+  // require that what was signed contains the message we issued
+  if (!proof.fullMessage.includes(pending.message)) {
+    throw new AuthError(401, "Signed message does not match the issued nonce");
+  }
+
+  const publicKey = Buffer.from(cleanPublicKey(proof.publicKey), "hex");
+  const signature = Buffer.from(stripHexPrefix(proof.signature), "hex");
+  if (publicKey.length !== 32 || signature.length !== 64) {
+    throw new AuthError(400, "Malformed public key or signature");
+  }
+
+  const signatureValid = verify(
+    null,
+    Buffer.from(proof.fullMessage, "utf8"),
+    createPublicKey({ key: Buffer.concat([ED25519_SPKI_PREFIX, publicKey]), format: "der", type: "spki" }),
+    signature
+  );
+
+  if (!signatureValid) {
+    throw new AuthError(401, "Invalid signature");
+  }
+
+  // The key must control the account: compare with the on-chain authentication key.
+  // Accounts that don't exist yet still use their original key (auth key == address).
+  const derivedAuthKey = createHash("sha3-256")
+    .update(Buffer.concat([publicKey, Buffer.from([ED25519_SCHEME])]))
+    .digest("hex");
+  const onChainAuthKey = await getAccountAuthKey(normalizedAddress, pending.network);
+  const expectedAuthKey = stripHexPrefix(onChainAuthKey ?? normalizedAddress).padStart(64, "0");
+
+  if (derivedAuthKey !== expectedAuthKey) {
+    throw new AuthError(401, "Public key does not control this account");
+  }
+
+  const now = Date.now();
+  return {
+    address: normalizedAddress,
+    network: pending.network,
+    issuedAt: now,
+    expiresAt: now + SESSION_TTL_MS,
+  };
+}
+
+// ============================================
+// Session Tokens
+// ============================================
+
+let generatedSecret: string | null = null;
+
+function getSessionSecret(): string {
+  if (process.env.SESSION_SECRET) {
+    return process.env.SESSION_SECRET;
+  }
+  if (!generatedSecret) {
+    console.warn("SESSION_SECRET not set - using a per-process secret; sessions reset on restart");
+    generatedSecret = randomBytes(32).toString("hex");
+  }
+  return generatedSecret;
+}
+
+function sign(payload: string): string {
+  return createHmac("sha256", getSessionSecret()).update(payload).digest("base64url");
+}
+
+/**
+ * Create a signed session token: base64url(payload).base64url(hmac)
+ */
+export function createSessionToken(session: WalletSession): string {
+  const payload = Buffer.from(JSON.stringify(session)).toString("base64url");
+  return `${payload}.${sign(payload)}`;
+}
+
+/**
+ * Verify a session token, returning the session if valid and unexpired
+ */
+export function verifySessionToken(token: string): WalletSession | null {
+  const [payload, providedSignature] = token.split(".");
+  if (!payload || !providedSignature) return null;
+
+  const expected = Buffer.from(sign(payload));
+  const provided = Buffer.from(providedSignature);
+  if (expected.length !== provided.length || !timingSafeEqual(expected, provided)) {
+    return null;
+  }
+
+  try {
+    const session = JSON.parse(Buffer.from(payload, "base64url").toString()) as WalletSession;
+    if (
+      typeof session.address !== "string" ||
+      typeof session.issuedAt !== "number" ||
+      session.expiresAt <= Date.now()
+    ) {
+      return null;
+    }
+    return session;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Extend an existing session with a fresh expiry, never past the maximum
+ * session age measured from the original sign-in
+ */
+export function refreshSession(session: WalletSession): WalletSession {
+  const maxExpiresAt = session.issuedAt + SESSION_MAX_AGE_MS;
+  const now = Date.now();
+  if (now >= maxExpiresAt) {
+    throw new AuthError(401, "Session has reached its maximum age; sign in again");
+  }
+  return { ...session, expiresAt: Math.min(now + SESSION_TTL_MS, maxExpiresAt) };
+}
+
+// ============================================
+// Middleware
+// ============================================
+
+/**
+ * Require a valid wallet session (Authorization: Bearer <token>)
+ * When getAddress returns an address, it must match the session's wallet.
+ * Defaults to the :address route param. A network given in the query or body
+ * must match the session's network, since the session is scoped to it.
+ */
+export function requireWalletSession(
+  getAddress: (req: Request) => string | undefined = (req) => req.params.address
+) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const header = req.headers.authorization;
+    const token = header?.startsWith("Bearer ") ? header.slice(7) : null;
+    const session = token ? verifySessionToken(token) : null;
+
+    if (!session) {
+      return res.status(401).json({ success: false, error: "Wallet session required" });
+    }
+
+    const targetAddress = getAddress(req);
+    if (typeof targetAddress === "string" && targetAddress.toLowerCase() !== session.address) {
+      return res.status(403).json({ success: false, error: "Session does not match wallet address" });
+    }
+
+    const requestedNetwork = req.query.network ?? req.body?.network;
+    if (requestedNetwork !== undefined && normalizeNetwork(requestedNetwork) !== session.network) {
+      return res.status(403).json({ success: false, error: `Session is for ${session.network}` });
+    }
+
+    req.walletSession = session;
+    next();
+  };
+}
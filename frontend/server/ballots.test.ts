@@ -0,0 +1,119 @@
+import { describe, expect, it, vi } from "vitest";
+
+// The aggregation helpers are pure; the database is never reached
+vi.mock("./db", () => ({ db: {} }));
+
+const { aggregateNps, aggregateRating, tallyInstantRunoff, tallyMultiSelect } = await import("./ballots");
+
+function repeat(ballot: number[], times: number): number[][] {
+  return Array.from({ length: times }, () => [...ballot]);
+}
+
+// NPS distribution with `count` answers at a single score
+function npsAt(score: number, count = 1): number[] {
+  return Array.from({ length: 11 }, (_, i) => (i === score ? count : 0));
+}
+
+describe("tallyInstantRunoff", () => {
+  it("declares a round-1 majority winner without eliminating anyone", () => {
+    const ballots = [...repeat([0, 1], 3), [1, 0], [2, 1]];
+
+    const { rounds, winner } = tallyInstantRunoff(ballots, 3);
+
+    expect(winner).toBe(0);
+    expect(rounds).toEqual([{ round: 1, counts: [3, 1, 1], eliminated: [], exhausted: 0 }]);
+  });
+
+  it("transfers eliminated ballots until an option has a majority", () => {
+    const ballots = [...repeat([0, 1], 4), ...repeat([1, 0], 3), ...repeat([2, 1], 2)];
+
+    const { rounds, winner } = tallyInstantRunoff(ballots, 3);
+
+    expect(winner).toBe(1);
+    expect(rounds).toEqual([
+      { round: 1, counts: [4, 3, 2], eliminated: [2], exhausted: 0 },
+      { round: 2, counts: [4, 5, 0], eliminated: [], exhausted: 0 },
+    ]);
+  });
+
+  it("eliminates every option tied for last place together", () => {
+    const ballots = [...repeat([0], 4), ...repeat([1], 3), [2, 1], [3, 1]];
+
+    const { rounds, winner } = tallyInstantRunoff(ballots, 4);
+
+    expect(rounds[0]).toEqual({ round: 1, counts: [4, 3, 1, 1], eliminated: [2, 3], exhausted: 0 });
+    expect(rounds[1].counts).toEqual([4, 5, 0, 0]);
+    expect(winner).toBe(1);
+  });
+
+  it("measures the majority against continuing ballots once ballots exhaust", () => {
+    const ballots = [...repeat([0], 3), ...repeat([1], 2), ...repeat([2], 2), []];
+
+    const { rounds, winner } = tallyInstantRunoff(ballots, 3);
+
+    expect(rounds[0]).toEqual({ round: 1, counts: [3, 2, 2], eliminated: [1, 2], exhausted: 1 });
+    expect(rounds[1]).toEqual({ round: 2, counts: [3, 0, 0], eliminated: [], exhausted: 5 });
+    expect(winner).toBe(0);
+  });
+
+  it("ends without a winner when every remaining option is tied", () => {
+    const { rounds, winner } = tallyInstantRunoff([[0], [1], [2]], 3);
+
+    expect(winner).toBeNull();
+    expect(rounds).toEqual([{ round: 1, counts: [1, 1, 1], eliminated: [], exhausted: 0 }]);
+  });
+
+  it("has no winner without ballots or options", () => {
+    expect(tallyInstantRunoff([], 3)).toEqual({
+      rounds: [{ round: 1, counts: [0, 0, 0], eliminated: [], exhausted: 0 }],
+      winner: null,
+    });
+    expect(tallyInstantRunoff([[0]], 0)).toEqual({ rounds: [], winner: null });
+  });
+});
+
+describe("tallyMultiSelect", () => {
+  it("counts each option once per ballot and ignores out-of-range selections", () => {
+    expect(tallyMultiSelect([[0, 2, 2], [2, 5], [-1], []], 3)).toEqual([1, 0, 2]);
+    expect(tallyMultiSelect([], 2)).toEqual([0, 0]);
+  });
+});
+
+describe("aggregateNps", () => {
+  it.each([
+    [6, "detractors", -100],
+    [7, "passives", 0],
+    [8, "passives", 0],
+    [9, "promoters", 100],
+  ] as const)("classifies a score of %i as one of the %s", (score, bucket, expected) => {
+    const result = aggregateNps(npsAt(score));
+
+    expect(result[bucket]).toBe(1);
+    expect(result.responses).toBe(1);
+    expect(result.score).toBe(expected);
+  });
+
+  it("scores % promoters minus % detractors, rounded", () => {
+    const distribution = npsAt(10, 5).map((count, i) => count + npsAt(0, 2)[i] + npsAt(7, 2)[i]);
+
+    expect(aggregateNps(distribution)).toMatchObject({ promoters: 5, passives: 2, detractors: 2, score: 33 });
+  });
+
+  it("has no score without responses", () => {
+    expect(aggregateNps([])).toMatchObject({ responses: 0, promoters: 0, passives: 0, detractors: 0, score: null });
+    expect(aggregateNps(npsAt(5, 0)).score).toBeNull();
+  });
+});
+
+describe("aggregateRating", () => {
+  it("averages the 1-5 scale to two decimals", () => {
+    expect(aggregateRating([1, 0, 1, 0, 1])).toMatchObject({ responses: 3, average: 3 });
+    expect(aggregateRating([0, 0, 1, 1, 1])).toMatchObject({ responses: 3, average: 4 });
+    expect(aggregateRating([2, 0, 0, 0, 1]).average).toBe(2.33);
+  });
+
+  it("has no average without responses", () => {
+    expect(aggregateRating([])).toEqual({ questionType: "rating", distribution: [], responses: 0, average: null });
+    expect(aggregateRating([0, 0, 0, 0, 0]).average).toBeNull();
+  });
+});
@@ -0,0 +1,409 @@
+/**
+ * Question types and off-chain ballots
+ * On chain every poll is single choice. Creators record a question type per poll
+ * against the creation transaction; multi-select and ranked voters cast their
+ * first selection on chain and record the full ballot against that signed vote
+ * transaction. Results (multi-select counts, instant-runoff rounds, rating
+ * averages and NPS) are aggregated here from the ballots and the poll index.
+ */
+
+import { and, asc, eq, inArray } from "drizzle-orm";
+import { db } from "./db";
+import {
+  indexedPollOptions,
+  indexedPollVotes,
+  pollQuestions,
+  pollBallots,
+  QUESTION_TYPES,
+  QUESTION_SCALES,
+  scaleOptions,
+  usesOffChainBallot,
+  type IndexedPollOption,
+  type PollQuestion,
+  type PollResults,
+  type QuestionResults,
+  type QuestionType,
+  type InstantRunoffRound,
+} from "@shared/schema";
+import { normalizeAddress, type NetworkType } from "./movement";
+import { indexPoll } from "./poll-indexer";
+import { verifyCreatePollTransaction, verifyVoteTransaction } from "./tx-verification";
+
+// ============================================
+// Types
+// ============================================
+
+export interface QuestionInput {
+  questionType: QuestionType;
+  maxSelections?: number | null;
+}
+
+export interface BallotInput {
+  pollId: number;
+  selections: number[];
+}
+
+export class BallotError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.status = status;
+  }
+}
+
+const VALID_QUESTION_TYPES = Object.values(QUESTION_TYPES) as string[];
+
+// ============================================
+// Aggregation
+// ============================================
+
+/**
+ * Count every option selected on multi-select ballots
+ */
+export function tallyMultiSelect(ballots: number[][], optionCount: number): number[] {
+  const counts = new Array<number>(optionCount).fill(0);
+  for (const selections of ballots) {
+    for (const option of Array.from(new Set(selections))) {
+      if (option >= 0 && option < optionCount) counts[option]++;
+    }
+  }
+  return counts;
+}
+
+/**
+ * Instant-runoff tally over ranked ballots
+ * Each round counts every ballot for its highest-ranked remaining option. An option
+ * with a majority of the continuing ballots wins; otherwise every option tied for
+ * the fewest votes is eliminated and the next round begins. If all remaining
+ * options are tied the count ends without a winner.
+ */
+export function tallyInstantRunoff(
+  ballots: number[][],
+  optionCount: number
+): { rounds: InstantRunoffRound[]; winner: number | null } {
+  const remaining = new Set<number>(Array.from({ length: optionCount }, (_, i) => i));
+  const rounds: InstantRunoffRound[] = [];
+
+  while (remaining.size > 0) {
+    const counts = new Array<number>(optionCount).fill(0);
+    let exhausted = 0;
+
+    for (const selections of ballots) {
+      const choice = selections.find((option) => remaining.has(option));
+      if (choice === undefined) {
+        exhausted++;
+      } else {
+        counts[choice]++;
+      }
+    }
+
+    const round: InstantRunoffRound = { round: rounds.length + 1, counts, eliminated: [], exhausted };
+    rounds.push(round);
+
+    const continuing = ballots.length - exhausted;
+    if (continuing === 0) return { rounds, winner: null };
+
+    const active = Array.from(remaining);
+    const leader = active.reduce((best, option) => (counts[option] > counts[best] ? option : best));
+    if (counts[leader] * 2 > continuing || remaining.size === 1) {
+      return { rounds, winner: leader };
+    }
+
+    const fewest = Math.min(...active.map((option) => counts[option]));
+    const lowest = active.filter((option) => counts[option] === fewest);
+    if (lowest.length === remaining.size) return { rounds, winner: null };
+
+    round.eliminated = lowest;
+    lowest.forEach((option) => remaining.delete(option));
+  }
+
+  return { rounds, winner: null };
+}
+
+/**
+ * Average and distribution of a 1-5 rating (distribution is votes per scale point)
+ */
+export function aggregateRating(distribution: number[]): Extract<QuestionResults, { questionType: "rating" }> {
+  const { min } = QUESTION_SCALES.rating;
+  const responses = distribution.reduce((sum, count) => sum + count, 0);
+  const total = distribution.reduce((sum, count, i) => sum + count * (min + i), 0);
+
+  return {
+    questionType: "rating",
+    distribution,
+    responses,
+    average: responses > 0 ? Math.round((total / responses) * 100) / 100 : null,
+  };
+}
+
+/**
+ * Net Promoter Score from a 0-10 distribution
+ * Promoters answer 9-10, passives 7-8 and detractors 0-6; the score is
+ * % promoters minus % detractors, rounded to a whole number.
+ */
+export function aggregateNps(distribution: number[]): Extract<QuestionResults, { questionType: "nps" }> {
+  const { min } = QUESTION_SCALES.nps;
+  let promoters = 0;
+  let passives = 0;
+  let detractors = 0;
+
+  distribution.forEach((count, i) => {
+    const value = min + i;
+    if (value >= 9) promoters += count;
+    else if (value >= 7) passives += count;
+    else detractors += count;
+  });
+
+  const responses = promoters + passives + detractors;
+  return {
+    questionType: "nps",
+    distribution,
+    responses,
+    promoters,
+    passives,
+    detractors,
+    score: responses > 0 ? Math.round(((promoters - detractors) / responses) * 100) : null,
+  };
+}
+
+// ============================================
+// Lookups
+// ============================================
+
+/**
+ * Options for a poll, indexing it on demand if the indexer hasn't reached it yet
+ */
+async function loadOptions(network: NetworkType, pollId: number): Promise<IndexedPollOption[]> {
+  const find = () =>
+    db
+      .select()
+      .from(indexedPollOptions)
+      .where(and(eq(indexedPollOptions.network, network), eq(indexedPollOptions.pollId, pollId)))
+      .orderBy(asc(indexedPollOptions.optionIndex));
+
+  let options = await find();
+  if (options.length === 0 && (await indexPoll(network, pollId))) {
+    options = await find();
+  }
+  return options;
+}
+
+/**
+ * Recorded question types for a set of polls (polls without one are single choice)
+ */
+export async function getPollQuestions(network: NetworkType, pollIds: number[]): Promise<PollQuestion[]> {
+  if (pollIds.length === 0) return [];
+
+  return db
+    .select()
+    .from(pollQuestions)
+    .where(and(eq(pollQuestions.network, network), inArray(pollQuestions.pollId, pollIds)));
+}
+
+// ============================================
+// Recording
+// ============================================
+
+function validateQuestion(question: QuestionInput, options: IndexedPollOption[], pollId: number): void {
+  if (!VALID_QUESTION_TYPES.includes(question.questionType)) {
+    throw new BallotError(400, `questionType must be one of: ${VALID_QUESTION_TYPES.join(", ")}`);
+  }
+
+  if (question.questionType === QUESTION_TYPES.RATING || question.questionType === QUESTION_TYPES.NPS) {
+    const expected = scaleOptions(question.questionType);
+    const labels = options.map((option) => option.label.trim());
+    if (labels.length !== expected.length || labels.some((label, i) => label !== expected[i])) {
+      throw new BallotError(400, `Poll ${pollId} options must be ${expected.join(", ")} for a ${question.questionType} question`);
+    }
+  }
+
+  if (question.maxSelections != null) {
+    if (question.questionType !== QUESTION_TYPES.MULTI_SELECT) {
+      throw new BallotError(400, "maxSelections only applies to multi-select questions");
+    }
+    if (!Number.isInteger(question.maxSelections) || question.maxSelections < 1 || question.maxSelections > options.length) {
+      throw new BallotError(400, `Poll ${pollId} maxSelections must be between 1 and ${options.length}`);
+    }
+  }
+}
+
+/**
+ * Record question types for the polls created by a transaction
+ * `questions` lines up with the created polls in order; null entries stay single choice.
+ * A poll's question type is fixed once recorded.
+ */
+export async function recordPollQuestions(
+  network: NetworkType,
+  txHash: string,
+  creator: string,
+  questions: (QuestionInput | null)[]
+): Promise<PollQuestion[]> {
+  const verified = await verifyCreatePollTransaction(txHash, creator, network);
+
+  if (questions.length !== verified.pollIds.length) {
+    throw new BallotError(400, `Transaction created ${verified.pollIds.length} poll(s) but ${questions.length} question(s) were given`);
+  }
+
+  const rows: (typeof pollQuestions.$inferInsert)[] = [];
+  for (let i = 0; i < questions.length; i++) {
+    const question = questions[i];
+    if (!question || question.questionType === QUESTION_TYPES.SINGLE) continue;
+
+    const pollId = verified.pollIds[i];
+    const options = await loadOptions(network, pollId);
+    if (options.length === 0) {
+      throw new BallotError(404, `Poll ${pollId} not found`);
+    }
+    validateQuestion(question, options, pollId);
+
+    rows.push({
+      network,
+      pollId,
+      questionType: question.questionType,
+      maxSelections: question.questionType === QUESTION_TYPES.MULTI_SELECT ? question.maxSelections ?? null : null,
+      createdTxHash: verified.txHash,
+    });
+  }
+
+  if (rows.length === 0) return [];
+
+  return db.insert(pollQuestions).values(rows).onConflictDoNothing().returning();
+}
+
+function validateSelections(selections: unknown, question: PollQuestion, optionCount: number): number[] {
+  if (!Array.isArray(selections) || selections.length === 0) {
+    throw new BallotError(400, `Poll ${question.pollId} ballot needs at least one selection`);
+  }
+  if (!selections.every((option) => Number.isInteger(option) && option >= 0 && option < optionCount)) {
+    throw new BallotError(400, `Poll ${question.pollId} ballot has an invalid option`);
+  }
+  if (new Set(selections).size !== selections.length) {
+    throw new BallotError(400, `Poll ${question.pollId} ballot repeats an option`);
+  }
+  if (question.maxSelections != null && selections.length > question.maxSelections) {
+    throw new BallotError(400, `Poll ${question.pollId} allows at most ${question.maxSelections} selections`);
+  }
+  return selections as number[];
+}
+
+/**
+ * Record multi-select / ranked ballots for a verified vote transaction
+ * Each ballot's first selection must be the option the transaction voted for.
+ * Returns how many ballots were stored (a voter's first ballot per poll is kept).
+ */
+export async function recordBallots(
+  network: NetworkType,
+  txHash: string,
+  voter: string,
+  ballots: BallotInput[]
+): Promise<number> {
+  if (!Array.isArray(ballots) || ballots.length === 0) {
+    throw new BallotError(400, "ballots are required");
+  }
+
+  const verified = await verifyVoteTransaction(txHash, voter, network);
+  const questions = await getPollQuestions(network, ballots.map((ballot) => ballot.pollId));
+
+  const rows: (typeof pollBallots.$inferInsert)[] = [];
+  for (const ballot of ballots) {
+    const voteIndex = verified.pollIds.indexOf(ballot.pollId);
+    if (voteIndex === -1) {
+      throw new BallotError(400, `Transaction did not vote on poll ${ballot.pollId}`);
+    }
+
+    const question = questions.find((q) => q.pollId === ballot.pollId);
+    if (!question || !usesOffChainBallot(question.questionType)) {
+      throw new BallotError(400, `Poll ${ballot.pollId} does not take ballots`);
+    }
+
+    const options = await loadOptions(network, ballot.pollId);
+    const selections = validateSelections(ballot.selections, question, options.length);
+    if (selections[0] !== verified.optionIndices[voteIndex]) {
+      throw new BallotError(400, `Poll ${ballot.pollId} ballot does not match the on-chain vote`);
+    }
+
+    rows.push({
+      network,
+      pollId: ballot.pollId,
+      voter: normalizeAddress(voter),
+      selections,
+      txHash: verified.txHash,
+    });
+  }
+
+  const inserted = await db.insert(pollBallots).values(rows).onConflictDoNothing().returning({ id: pollBallots.id });
+  return inserted.length;
+}
+
+// ============================================
+// Results
+// ============================================
+
+/**
+ * Ballots for a poll, falling back to the on-chain vote for voters who never recorded one
+ */
+async function loadBallots(network: NetworkType, pollId: number): Promise<number[][]> {
+  const [ballots, votes] = await Promise.all([
+    db
+      .select({ voter: pollBallots.voter, selections: pollBallots.selections })
+      .from(pollBallots)
+      .where(and(eq(pollBallots.network, network), eq(pollBallots.pollId, pollId))),
+    db
+      .select({ voter: indexedPollVotes.voter, optionIndex: indexedPollVotes.optionIndex })
+      .from(indexedPollVotes)
+      .where(and(eq(indexedPollVotes.network, network), eq(indexedPollVotes.pollId, pollId))),
+  ]);
+
+  const byVoter = new Map<string, number[]>();
+  for (const vote of votes) byVoter.set(vote.voter, [vote.optionIndex]);
+  for (const ballot of ballots) byVoter.set(ballot.voter, ballot.selections);
+  return Array.from(byVoter.values());
+}
+
+/**
+ * Aggregated results for a poll according to its question type
+ */
+export async function getPollResults(network: NetworkType, pollId: number): Promise<PollResults> {
+  const options = await loadOptions(network, pollId);
+  if (options.length === 0) {
+    throw new BallotError(404, "Poll not found");
+  }
+
+  const [question] = await getPollQuestions(network, [pollId]);
+  const votes = options.map((option) => option.votes);
+
+  let results: QuestionResults;
+  switch (question?.questionType ?? QUESTION_TYPES.SINGLE) {
+    case QUESTION_TYPES.MULTI_SELECT: {
+      const ballots = await loadBallots(network, pollId);
+      results = {
+        questionType: "multi_select",
+        counts: tallyMultiSelect(ballots, options.length),
+        ballots: ballots.length,
+        maxSelections: question?.maxSelections ?? null,
+      };
+      break;
+    }
+    case QUESTION_TYPES.RANKED: {
+      const ballots = await loadBallots(network, pollId);
+      results = {
+        questionType: "ranked",
+        firstChoice: votes,
+        ballots: ballots.length,
+        ...tallyInstantRunoff(ballots, options.length),
+      };
+      break;
+    }
+    case QUESTION_TYPES.RATING:
+      results = aggregateRating(votes);
+      break;
+    case QUESTION_TYPES.NPS:
+      results = aggregateNps(votes);
+      break;
+    default:
+      results = { questionType: "single", counts: votes };
+  }
+
+  return { network, pollId, options: options.map((option) => option.label), results };
+}
@@ -0,0 +1,72 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { indexedPolls, pollClaimDeadlines, type InsertIndexedPoll } from "@shared/schema";
+
+const CLAIM_PERIOD = 7 * 24 * 60 * 60;
+const CLOSED_AT = Math.floor(Date.UTC(2026, 0, 1) / 1000);
+const DEADLINE_MS = (CLOSED_AT + CLAIM_PERIOD) * 1000;
+
+vi.mock("./db", async () => ({ db: await (await import("./test-db")).createTestDb() }));
+vi.mock("./notifications", () => ({ notify: vi.fn() }));
+vi.mock("./movement", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("./movement")>()),
+  getPollContractAddress: () => "0x1",
+  callViewFunction: vi.fn(async () => [String(CLAIM_PERIOD)]),
+}));
+
+const { db } = await import("./db");
+const { notify } = await import("./notifications");
+const { getClaimDeadlineOverview, syncClaimDeadlines } = await import("./claim-deadlines");
+const { normalizeAddress } = await import("./movement");
+
+function poll(overrides: Partial<InsertIndexedPoll>): InsertIndexedPoll {
+  return {
+    network: "testnet",
+    pollId: 0,
+    creator: normalizeAddress("0xa11ce"),
+    title: "Roadmap",
+    distributionMode: 0,
+    status: 2,
+    endTime: CLOSED_AT - 60,
+    closedAt: CLOSED_AT,
+    voters: [normalizeAddress("0xb0b"), normalizeAddress("0xca401")],
+    claimed: [normalizeAddress("0xb0b")],
+    ...overrides,
+  };
+}
+
+describe("claim deadlines", () => {
+  beforeEach(async () => {
+    vi.mocked(notify).mockClear();
+    vi.useRealTimers();
+    await db.delete(pollClaimDeadlines);
+    await db.delete(indexedPolls);
+  });
+
+  it("reminds unclaimed voters a day before closed_at + claim period", async () => {
+    vi.useFakeTimers({ toFake: ["Date"], now: DEADLINE_MS - 3 * 24 * 60 * 60 * 1000 });
+    await db.insert(indexedPolls).values([poll({}), poll({ pollId: 1, closedAt: 0 })]);
+
+    expect(await syncClaimDeadlines("testnet")).toBe(1);
+    const [inputs] = vi.mocked(notify).mock.calls[0];
+    expect(inputs.map((input) => input.walletAddress)).toEqual([normalizeAddress("0xca401")]);
+    expect(inputs[0].data).toEqual({ pollId: 0, claimDeadline: new Date(DEADLINE_MS).toISOString() });
+    expect(inputs[0].notifyAt?.getTime()).toBe(DEADLINE_MS - 24 * 60 * 60 * 1000);
+
+    // Scheduled once per poll
+    expect(await syncClaimDeadlines("testnet")).toBe(0);
+  });
+
+  it("makes a closed poll finalizable exactly at closed_at + claim period", async () => {
+    await db.insert(indexedPolls).values(poll({ status: 1 }));
+
+    vi.useFakeTimers({ toFake: ["Date"], now: DEADLINE_MS - 1000 });
+    let [overview] = (await getClaimDeadlineOverview("testnet", "0xa11ce")).polls;
+    expect(overview.claimDeadline).toBe(new Date(DEADLINE_MS).toISOString());
+    expect(overview.finalizableAt).toBe(overview.claimDeadline);
+    expect(overview.finalizable).toBe(false);
+
+    vi.setSystemTime(DEADLINE_MS);
+    [overview] = (await getClaimDeadlineOverview("testnet", "0xa11ce")).polls;
+    expect(overview.finalizable).toBe(true);
+  });
+});
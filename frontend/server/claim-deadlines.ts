@@ -0,0 +1,409 @@
+/**
+ * Claim deadlines and automatic finalization
+ * start_claims stamps a poll's closed_at, and voters have the platform claim
+ * period (get_claim_period) from then: closed_at + claim period is both the
+ * claim deadline and the moment finalize_poll_* opens for a CLOSED poll.
+ * The watcher reminds voters who haven't claimed a day before that deadline,
+ * and lists a creator's CLOSED polls once it has passed.
+ *
+ * Creators who name the platform finalizer as their finalize delegate
+ * (set_finalize_delegate) have those polls finalized for them. The finalizer
+ * signs with the Ed25519 key in POLL_FINALIZER_KEY_{NETWORK};
+ * POLL_FINALIZER_ADDRESS_{NETWORK} is needed if the key was rotated.
+ */
+
+import { and, desc, eq, gt, inArray } from "drizzle-orm";
+import { db } from "./db";
+import {
+  indexedPolls,
+  pollClaimDeadlines,
+  NOTIFICATION_TYPES,
+  type ClaimDeadlineOverview,
+  type ClaimDeadlinePoll,
+  type IndexedPoll,
+  type PollClaimDeadline,
+} from "@shared/schema";
+import {
+  callViewFunction,
+  getPollContractAddress,
+  normalizeAddress,
+  waitForTransaction,
+  type NetworkType,
+} from "./movement";
+import { notify, type NotificationInput } from "./notifications";
+import { bcsAddress, bcsU64, Ed25519Account, submitEntryFunction } from "./transaction-signer";
+
+// ============================================
+// Constants
+// ============================================
+
+const POLL_STATUS_CLOSED = 1;
+const POLL_STATUS_CLAIMING = 2;
+const DISTRIBUTION_MANUAL_PULL = 0;
+const COIN_TYPE_MOVE = 0;
+
+const CLAIM_WARNING_MS = 24 * 60 * 60 * 1000;
+const MAX_FINALIZE_ATTEMPTS = 5;
+const FINALIZE_RETRY_MS = 30 * 60 * 1000;
+const FINALIZE_CONFIRM_TIMEOUT_MS = 30000;
+const DEFAULT_INTERVAL_MS = 5 * 60 * 1000;
+
+// ============================================
+// Claim Period
+// ============================================
+
+const claimPeriods = new Map<NetworkType, number>();
+
+/**
+ * Seconds voters have to claim, and creators wait after close_poll before finalizing
+ * (contract-wide setting, cached per network)
+ */
+export async function getClaimPeriod(network: NetworkType): Promise<number | null> {
+  const cached = claimPeriods.get(network);
+  if (cached !== undefined) return cached;
+
+  const contract = getPollContractAddress(network);
+  if (!contract) return null;
+
+  const [period] = await callViewFunction<[string]>(network, `${contract}::poll::get_claim_period`, [contract]);
+  const seconds = parseInt(String(period), 10);
+  if (isNaN(seconds)) return null;
+  claimPeriods.set(network, seconds);
+  return seconds;
+}
+
+// ============================================
+// Deadlines
+// ============================================
+
+/**
+ * When a poll's claim window ends (closed_at + claim period), or null before
+ * start_claims has stamped closed_at
+ */
+export function claimDeadlineOf(closedAt: number, claimPeriod: number | null): Date | null {
+  if (closedAt <= 0 || claimPeriod === null) return null;
+  return new Date((closedAt + claimPeriod) * 1000);
+}
+
+/**
+ * When a poll's claim window ends, or null if it isn't known yet
+ */
+export async function getClaimDeadline(network: NetworkType, poll: IndexedPoll): Promise<Date | null> {
+  return claimDeadlineOf(poll.closedAt, await getClaimPeriod(network));
+}
+
+/**
+ * Queue a reminder for every voter who hasn't claimed, a day before the
+ * claim window ends (right away if less than a day is left)
+ */
+async function scheduleClaimReminders(network: NetworkType, poll: IndexedPoll, deadline: Date): Promise<void> {
+  const claimed = new Set(poll.claimed);
+  const voters = poll.voters.filter((voter) => !claimed.has(voter));
+
+  if (voters.length > 0 && deadline.getTime() > Date.now()) {
+    const notifyAt = new Date(Math.max(Date.now(), deadline.getTime() - CLAIM_WARNING_MS));
+    const inputs: NotificationInput[] = voters.map((voter) => ({
+      network,
+      walletAddress: voter,
+      type: NOTIFICATION_TYPES.CLAIM_EXPIRING,
+      dedupeKey: `claim_expiring:${poll.pollId}`,
+      title: "Claim window closing",
+      body: `Claim your reward from "${poll.title}" before ${deadline.toUTCString()}. After that the creator can close claims and unclaimed rewards go to the treasury.`,
+      link: `/poll/${poll.pollId}`,
+      data: { pollId: poll.pollId, claimDeadline: deadline.toISOString() },
+      notifyAt,
+    }));
+    await notify(inputs);
+  }
+
+  await db
+    .insert(pollClaimDeadlines)
+    .values({ network, pollId: poll.pollId, remindersScheduledAt: new Date() })
+    .onConflictDoUpdate({
+      target: [pollClaimDeadlines.network, pollClaimDeadlines.pollId],
+      set: { remindersScheduledAt: new Date(), updatedAt: new Date() },
+    });
+}
+
+/**
+ * Schedule reminders for CLAIMING pull-mode polls whose deadline is known
+ * Returns how many polls had reminders scheduled.
+ */
+export async function syncClaimDeadlines(network: NetworkType): Promise<number> {
+  const claimPeriod = await getClaimPeriod(network);
+  if (claimPeriod === null) return 0;
+
+  const claiming = await db
+    .select({ poll: indexedPolls, deadline: pollClaimDeadlines })
+    .from(indexedPolls)
+    .leftJoin(
+      pollClaimDeadlines,
+      and(eq(pollClaimDeadlines.network, indexedPolls.network), eq(pollClaimDeadlines.pollId, indexedPolls.pollId))
+    )
+    .where(and(
+      eq(indexedPolls.network, network),
+      eq(indexedPolls.status, POLL_STATUS_CLAIMING),
+      eq(indexedPolls.distributionMode, DISTRIBUTION_MANUAL_PULL),
+      gt(indexedPolls.closedAt, 0)
+    ));
+
+  let scheduled = 0;
+  for (const { poll, deadline } of claiming) {
+    if (deadline?.remindersScheduledAt) continue;
+    await scheduleClaimReminders(network, poll, claimDeadlineOf(poll.closedAt, claimPeriod)!);
+    scheduled++;
+  }
+  return scheduled;
+}
+
+// ============================================
+// Automatic Finalization
+// ============================================
+
+const finalizers = new Map<NetworkType, Ed25519Account>();
+
+/**
+ * The account that finalizes polls for opted-in creators, or null when not configured
+ */
+export function getPollFinalizer(network: NetworkType): Ed25519Account | null {
+  const key = process.env[`POLL_FINALIZER_KEY_${network.toUpperCase()}`];
+  if (!key) return null;
+
+  if (!finalizers.has(network)) {
+    const address = process.env[`POLL_FINALIZER_ADDRESS_${network.toUpperCase()}`] || undefined;
+    finalizers.set(network, new Ed25519Account(key, "Poll finalizer key", address));
+  }
+  return finalizers.get(network)!;
+}
+
+/**
+ * Whether `delegate` may finalize `creator`'s polls (false on contracts without delegation)
+ */
+export async function isFinalizeDelegate(network: NetworkType, creator: string, delegate: string): Promise<boolean> {
+  const contract = getPollContractAddress(network);
+  if (!contract) return false;
+
+  try {
+    const [allowed] = await callViewFunction<[boolean]>(
+      network,
+      `${contract}::poll::is_finalize_delegate`,
+      [normalizeAddress(creator), normalizeAddress(delegate)]
+    );
+    return allowed === true;
+  } catch (error) {
+    console.error("Error checking finalize delegate:", error);
+    return false;
+  }
+}
+
+async function recordFinalizeAttempt(
+  network: NetworkType,
+  pollId: number,
+  attempts: number,
+  result: { txHash: string | null; error: string | null }
+): Promise<void> {
+  const values = {
+    finalizeAttempts: attempts,
+    finalizeAttemptedAt: new Date(),
+    finalizeTxHash: result.txHash,
+    finalizeError: result.error,
+    updatedAt: new Date(),
+  };
+  await db
+    .insert(pollClaimDeadlines)
+    .values({ network, pollId, ...values })
+    .onConflictDoUpdate({
+      target: [pollClaimDeadlines.network, pollClaimDeadlines.pollId],
+      set: values,
+    });
+}
+
+/**
+ * Submit finalize_poll_* for every finalizable poll whose creator delegated to
+ * the platform finalizer. Failed polls are retried a few times, half an hour apart.
+ * Returns how many polls were finalized.
+ */
+export async function finalizeDelegatedPolls(network: NetworkType): Promise<number> {
+  const finalizer = getPollFinalizer(network);
+  const contract = getPollContractAddress(network);
+  if (!finalizer || !contract) return 0;
+
+  const claimPeriod = await getClaimPeriod(network);
+  if (claimPeriod === null) return 0;
+
+  const nowSecs = Math.floor(Date.now() / 1000);
+  const closed = await db
+    .select({ poll: indexedPolls, deadline: pollClaimDeadlines })
+    .from(indexedPolls)
+    .leftJoin(
+      pollClaimDeadlines,
+      and(eq(pollClaimDeadlines.network, indexedPolls.network), eq(pollClaimDeadlines.pollId, indexedPolls.pollId))
+    )
+    .where(and(eq(indexedPolls.network, network), eq(indexedPolls.status, POLL_STATUS_CLOSED)));
+
+  const due = closed.filter(({ poll, deadline }) => {
+    if (poll.closedAt === 0 || poll.closedAt + claimPeriod > nowSecs) return false;
+    if (!deadline?.finalizeAttemptedAt) return true;
+    return deadline.finalizeAttempts < MAX_FINALIZE_ATTEMPTS
+      && deadline.finalizeAttemptedAt.getTime() + FINALIZE_RETRY_MS <= Date.now();
+  });
+
+  const delegated = new Map<string, boolean>();
+  let finalized = 0;
+
+  for (const { poll, deadline } of due) {
+    if (!delegated.has(poll.creator)) {
+      delegated.set(poll.creator, await isFinalizeDelegate(network, poll.creator, finalizer.address));
+    }
+    if (!delegated.get(poll.creator)) continue;
+
+    const attempts = (deadline?.finalizeAttempts ?? 0) + 1;
+    const functionName = poll.coinTypeId === COIN_TYPE_MOVE ? "finalize_poll_move" : "finalize_poll_fa";
+    let txHash: string | null = null;
+
+    try {
+      txHash = await submitEntryFunction(network, finalizer, `${contract}::poll::${functionName}`, [
+        bcsAddress(contract),
+        bcsU64(poll.pollId),
+      ]);
+      const transaction = await waitForTransaction(txHash, network, FINALIZE_CONFIRM_TIMEOUT_MS);
+      if (!transaction || transaction.type === "pending_transaction") {
+        throw new Error("Finalize transaction not confirmed in time");
+      }
+      if (!transaction.success) {
+        throw new Error(`Finalize transaction failed: ${transaction.vm_status}`);
+      }
+
+      await recordFinalizeAttempt(network, poll.pollId, attempts, { txHash, error: null });
+      finalized++;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`Error finalizing poll ${poll.pollId} on ${network}:`, message);
+      await recordFinalizeAttempt(network, poll.pollId, attempts, { txHash, error: message });
+    }
+  }
+
+  return finalized;
+}
+
+// ============================================
+// Creator Overview
+// ============================================
+
+function toClaimDeadlinePoll(
+  poll: IndexedPoll,
+  tracking: PollClaimDeadline | null,
+  claimPeriod: number | null,
+  nowSecs: number
+): ClaimDeadlinePoll {
+  const claimed = new Set(poll.claimed);
+  const unclaimedVoters = poll.distributionMode === DISTRIBUTION_MANUAL_PULL
+    ? poll.voters.filter((voter) => !claimed.has(voter)).length
+    : poll.rewardsDistributed ? 0 : poll.voters.length;
+
+  const closedAt = poll.closedAt > 0 ? poll.closedAt : null;
+  const deadline = claimDeadlineOf(poll.closedAt, claimPeriod);
+
+  return {
+    pollId: poll.pollId,
+    title: poll.title,
+    status: poll.status,
+    distributionMode: poll.distributionMode,
+    coinTypeId: poll.coinTypeId,
+    rewardPool: poll.rewardPool,
+    unclaimedVoters,
+    closedAt: closedAt ? new Date(closedAt * 1000).toISOString() : null,
+    claimDeadline: deadline?.toISOString() ?? null,
+    finalizableAt: deadline?.toISOString() ?? null,
+    finalizable: poll.status === POLL_STATUS_CLOSED && deadline !== null && deadline.getTime() <= nowSecs * 1000,
+    autoFinalize: tracking?.finalizeAttemptedAt
+      ? {
+          attempts: tracking.finalizeAttempts,
+          attemptedAt: tracking.finalizeAttemptedAt.toISOString(),
+          txHash: tracking.finalizeTxHash,
+          error: tracking.finalizeError,
+        }
+      : null,
+  };
+}
+
+/**
+ * A creator's polls that are collecting claims or waiting to be finalized,
+ * with their deadlines and whether automatic finalization is enabled
+ */
+export async function getClaimDeadlineOverview(network: NetworkType, creator: string): Promise<ClaimDeadlineOverview> {
+  const claimPeriod = await getClaimPeriod(network).catch((error) => {
+    console.error("Error fetching claim period:", error);
+    return null;
+  });
+  const finalizer = getPollFinalizer(network);
+
+  const rows = await db
+    .select({ poll: indexedPolls, deadline: pollClaimDeadlines })
+    .from(indexedPolls)
+    .leftJoin(
+      pollClaimDeadlines,
+      and(eq(pollClaimDeadlines.network, indexedPolls.network), eq(pollClaimDeadlines.pollId, indexedPolls.pollId))
+    )
+    .where(and(
+      eq(indexedPolls.network, network),
+      eq(indexedPolls.creator, normalizeAddress(creator)),
+      inArray(indexedPolls.status, [POLL_STATUS_CLAIMING, POLL_STATUS_CLOSED])
+    ))
+    .orderBy(desc(indexedPolls.pollId));
+
+  const nowSecs = Math.floor(Date.now() / 1000);
+
+  return {
+    claimPeriodSecs: claimPeriod,
+    finalizerAddress: finalizer?.address ?? null,
+    delegated: finalizer ? await isFinalizeDelegate(network, creator, finalizer.address) : false,
+    polls: rows.map(({ poll, deadline }) => toClaimDeadlinePoll(poll, deadline, claimPeriod, nowSecs)),
+  };
+}
+
+// ============================================
+// Background Job
+// ============================================
+
+/**
+ * Start the claim deadline watcher
+ * Interval comes from CLAIM_WATCHER_INTERVAL_MS (default 5 minutes, 0 disables)
+ */
+export function startClaimDeadlineWatcher(log: (message: string, source?: string) => void): void {
+  const intervalMs = parseInt(process.env.CLAIM_WATCHER_INTERVAL_MS ?? "", 10);
+  const interval = isNaN(intervalMs) ? DEFAULT_INTERVAL_MS : intervalMs;
+  if (interval <= 0) {
+    log("claim deadline watcher disabled", "claims");
+    return;
+  }
+
+  let running = false;
+  const run = async () => {
+    // A slow finalization must not overlap the next tick
+    if (running) return;
+    running = true;
+    try {
+      for (const network of ["testnet", "mainnet"] as NetworkType[]) {
+        try {
+          const scheduled = await syncClaimDeadlines(network);
+          if (scheduled > 0) log(`${network}: claim reminders scheduled for ${scheduled} polls`, "claims");
+        } catch (error) {
+          console.error(`Error syncing ${network} claim deadlines:`, error);
+        }
+
+        try {
+          const finalized = await finalizeDelegatedPolls(network);
+          if (finalized > 0) log(`${network}: ${finalized} polls finalized`, "claims");
+        } catch (error) {
+          console.error(`Error finalizing ${network} polls:`, error);
+        }
+      }
+    } finally {
+      running = false;
+    }
+  };
+
+  run();
+  setInterval(run, interval).unref();
+}
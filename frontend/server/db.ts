@@ -1,5 +1,6 @@
-import { neon } from "@neondatabase/serverless";
-import { drizzle } from "drizzle-orm/neon-http";
+import { Pool, neonConfig } from "@neondatabase/serverless";
+import { drizzle } from "drizzle-orm/neon-serverless";
+import ws from "ws";
 import * as schema from "@shared/schema";
 
 // Check for DATABASE_URL
@@ -7,11 +8,14 @@ if (!process.env.DATABASE_URL) {
   throw new Error("DATABASE_URL environment variable is required");
 }
 
-// Create Neon client
-const sql = neon(process.env.DATABASE_URL);
+// Node has no global WebSocket before v22; the pool needs one for transactions
+neonConfig.webSocketConstructor = ws;
+
+// Create Neon connection pool
+const pool = new Pool({ connectionString: process.env.DATABASE_URL });
 
 // Create Drizzle instance with schema
-export const db = drizzle(sql, { schema });
+export const db = drizzle(pool, { schema });
 
 // Export schema for convenience
 export { schema };
@@ -0,0 +1,428 @@
+/**
+ * Donor funding ledger
+ * Records fund_poll_with_* contributions and withdraw_remaining_* refunds per
+ * wallet, so a donor's history doesn't depend on one browser and can be checked
+ * against the chain. The contract emits no events for either call, so entries
+ * are read from the transactions themselves: submitted by hash right after the
+ * wallet sends one, or found through the indexer's user_transactions table.
+ *
+ * How much of a donation reached voters is attributed pro rata: every unit that
+ * entered a poll's pool (at creation or from a later funding) is treated as
+ * equally likely to have been paid out.
+ */
+
+import { and, desc, eq, inArray, sql } from "drizzle-orm";
+import { db } from "./db";
+import {
+  pollFundings,
+  indexedPolls,
+  indexedPollClaims,
+  indexedPollDistributions,
+  POLL_FUNDING_KIND,
+  ZERO_AMOUNT,
+  calculatePlatformFee,
+  maxAmount,
+  minAmount,
+  mulDiv,
+  toAmount,
+  type Amount,
+  type PollFunding,
+  type PollFundingKind,
+} from "@shared/schema";
+import {
+  callViewFunction,
+  getIndexerUrl,
+  getPollContractAddress,
+  getTransactionByVersion,
+  normalizeAddress,
+  type NetworkType,
+  type NodeTransaction,
+} from "./movement";
+import { indexPoll } from "./poll-indexer";
+import { TxVerificationError } from "./tx-verification";
+
+// ============================================
+// Types
+// ============================================
+
+export interface DonorFundingEntry {
+  id: string;
+  pollId: number;
+  pollTitle: string | null;
+  kind: PollFundingKind;
+  coinTypeId: number;
+  amount: string;
+  platformFee: string;
+  netAmount: string;
+  paidOut: string | null; // Funds only: part of netAmount paid to voters so far
+  txHash: string;
+  occurredAt: string;
+}
+
+export interface DonorPollTotals {
+  pollId: number;
+  pollTitle: string | null;
+  pollStatus: number | null; // null when the poll isn't indexed
+  coinTypeId: number;
+  fundingCount: number;
+  funded: string; // Gross, before platform fees
+  platformFees: string;
+  netFunded: string;
+  refunded: string;
+  paidOut: string;
+}
+
+export interface DonorCoinTotals {
+  coinTypeId: number;
+  funded: string;
+  platformFees: string;
+  refunded: string;
+  paidOut: string;
+}
+
+export interface DonorFundingsResponse {
+  fundings: DonorFundingEntry[];
+  polls: DonorPollTotals[];
+  totals: DonorCoinTotals[];
+}
+
+const FUND_FUNCTIONS = ["fund_poll_with_move", "fund_poll_with_fa", "fund_poll_with_pulse"];
+const REFUND_FUNCTIONS = ["withdraw_remaining_move", "withdraw_remaining_fa", "withdraw_remaining_pulse"];
+
+// Events that move tokens into an account or store. Refund transactions only
+// deposit into the caller, possibly reported by both the coin and FA modules.
+const DEPOSIT_EVENT_SUFFIXES = ["::coin::CoinDeposit", "::coin::DepositEvent", "::fungible_asset::Deposit"];
+
+const TRANSACTION_PAGE_SIZE = 100;
+const SYNC_INTERVAL_MS = 60 * 1000;
+
+// ============================================
+// Helpers
+// ============================================
+
+/**
+ * Node timestamps are microseconds since the epoch
+ */
+function toOccurredAt(transaction: NodeTransaction): Date {
+  const micros = parseInt(transaction.timestamp ?? "", 10);
+  return isNaN(micros) ? new Date() : new Date(Math.floor(micros / 1000));
+}
+
+async function getPlatformFeeBps(network: NetworkType, contractAddress: string): Promise<number> {
+  const [feeBps] = await callViewFunction<[string, string, string, string]>(
+    network,
+    `${contractAddress}::poll::get_platform_config`,
+    [contractAddress]
+  );
+  return Number(feeBps);
+}
+
+/**
+ * Coin type of a poll, indexing it first if the indexer hasn't seen it yet
+ */
+async function getPollCoinTypeId(network: NetworkType, pollId: number): Promise<number> {
+  const lookup = () =>
+    db
+      .select({ coinTypeId: indexedPolls.coinTypeId })
+      .from(indexedPolls)
+      .where(and(eq(indexedPolls.network, network), eq(indexedPolls.pollId, pollId)))
+      .limit(1);
+
+  let [poll] = await lookup();
+  if (!poll && (await indexPoll(network, pollId))) {
+    [poll] = await lookup();
+  }
+  if (!poll) {
+    throw new TxVerificationError(404, `Poll ${pollId} not found`);
+  }
+  return poll.coinTypeId;
+}
+
+// ============================================
+// Recording
+// ============================================
+
+/**
+ * Store a successful funding or refund transaction
+ * The caller has checked that it is a poll::fund_poll_with_* or
+ * poll::withdraw_remaining_* call on this network's registry. Recording the same
+ * transaction twice returns the existing entry.
+ */
+export async function recordFundingTransaction(
+  network: NetworkType,
+  transaction: NodeTransaction
+): Promise<PollFunding> {
+  const contractAddress = getPollContractAddress(network);
+  if (!contractAddress) {
+    throw new TxVerificationError(500, `Poll contract address not configured for ${network}`);
+  }
+
+  const functionName = (transaction.payload?.function ?? "").split("::")[2] ?? "";
+  const kind = FUND_FUNCTIONS.includes(functionName)
+    ? POLL_FUNDING_KIND.FUND
+    : REFUND_FUNCTIONS.includes(functionName)
+      ? POLL_FUNDING_KIND.REFUND
+      : null;
+  if (!kind || !transaction.sender || !transaction.version) {
+    throw new TxVerificationError(400, "Not a poll funding transaction");
+  }
+
+  const args = transaction.payload?.arguments ?? [];
+  const pollId = parseInt(String(args[1]), 10);
+  if (isNaN(pollId)) {
+    throw new TxVerificationError(400, "Unexpected transaction arguments");
+  }
+
+  let amount: Amount;
+  let platformFee = ZERO_AMOUNT;
+  if (kind === POLL_FUNDING_KIND.FUND) {
+    // The contract takes amount * fee_bps / 10000 for the treasury before pooling the rest
+    amount = toAmount(String(args[2]));
+    platformFee = calculatePlatformFee(amount, await getPlatformFeeBps(network, contractAddress));
+  } else {
+    // Nothing is deposited when there was nothing left to withdraw
+    amount = (transaction.events ?? [])
+      .filter((event) => DEPOSIT_EVENT_SUFFIXES.some((suffix) => event.type.endsWith(suffix)))
+      .map((event) => toAmount(String((event.data as { amount?: string }).amount ?? "0")))
+      .reduce(maxAmount, ZERO_AMOUNT);
+  }
+
+  const txHash = transaction.hash.toLowerCase();
+  const [inserted] = await db
+    .insert(pollFundings)
+    .values({
+      network,
+      walletAddress: normalizeAddress(transaction.sender),
+      pollId,
+      kind,
+      functionName,
+      coinTypeId: await getPollCoinTypeId(network, pollId),
+      amount: amount.toString(),
+      platformFee: platformFee.toString(),
+      netAmount: (amount - platformFee).toString(),
+      txHash,
+      txVersion: transaction.version,
+      occurredAt: toOccurredAt(transaction),
+    })
+    .onConflictDoNothing()
+    .returning();
+
+  if (inserted) return inserted;
+
+  const [existing] = await db
+    .select()
+    .from(pollFundings)
+    .where(and(eq(pollFundings.network, network), eq(pollFundings.txHash, txHash)))
+    .limit(1);
+  return existing;
+}
+
+// ============================================
+// Chain Sync
+// ============================================
+
+const FUNDING_TRANSACTIONS_QUERY = `
+  query GetFundingTransactions($sender: String!, $functions: [String!]!, $fromVersion: bigint!, $limit: Int!) {
+    user_transactions(
+      where: {
+        sender: { _eq: $sender },
+        entry_function_id_str: { _in: $functions },
+        version: { _gt: $fromVersion }
+      },
+      order_by: { version: asc },
+      limit: $limit
+    ) {
+      version
+    }
+  }
+`;
+
+const lastSyncedAt = new Map<string, number>();
+
+/**
+ * Pull a wallet's funding and refund transactions the ledger hasn't seen yet
+ * Runs at most once a minute per wallet; returns the number of entries added.
+ */
+export async function syncDonorFundings(network: NetworkType, walletAddress: string): Promise<number> {
+  const contractAddress = getPollContractAddress(network);
+  if (!contractAddress) return 0;
+
+  const sender = normalizeAddress(walletAddress);
+  const key = `${network}:${sender}`;
+  if (Date.now() - (lastSyncedAt.get(key) ?? 0) < SYNC_INTERVAL_MS) return 0;
+  lastSyncedAt.set(key, Date.now());
+
+  const [latest] = await db
+    .select({ version: sql<string | null>`max(${pollFundings.txVersion}::numeric)::text` })
+    .from(pollFundings)
+    .where(and(eq(pollFundings.network, network), eq(pollFundings.walletAddress, sender)));
+
+  const functions = [...FUND_FUNCTIONS, ...REFUND_FUNCTIONS].map((fn) => `${contractAddress}::poll::${fn}`);
+  let fromVersion = latest?.version ?? "0";
+  let added = 0;
+
+  while (true) {
+    const response = await fetch(getIndexerUrl(network), {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        query: FUNDING_TRANSACTIONS_QUERY,
+        variables: { sender, functions, fromVersion, limit: TRANSACTION_PAGE_SIZE },
+      }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Indexer request failed: ${response.status} ${response.statusText}`);
+    }
+
+    const result: { data?: { user_transactions: { version: string | number }[] }; errors?: { message: string }[] } =
+      await response.json();
+
+    if (result.errors) {
+      throw new Error(`Indexer query failed: ${result.errors.map((e) => e.message).join("; ")}`);
+    }
+
+    const versions = (result.data?.user_transactions ?? []).map((row) => String(row.version));
+    for (const version of versions) {
+      try {
+        const transaction = await getTransactionByVersion(version, network);
+        if (!transaction?.success) continue;
+        await recordFundingTransaction(network, transaction);
+        added++;
+      } catch (error) {
+        console.error(`Error recording funding transaction at version ${version}:`, error);
+      }
+    }
+
+    if (versions.length < TRANSACTION_PAGE_SIZE) break;
+    fromVersion = versions[versions.length - 1];
+  }
+
+  return added;
+}
+
+// ============================================
+// Queries
+// ============================================
+
+/**
+ * A wallet's fundings and refunds with per-poll and per-token totals
+ */
+export async function getDonorFundings(network: NetworkType, walletAddress: string): Promise<DonorFundingsResponse> {
+  const entries = await db
+    .select()
+    .from(pollFundings)
+    .where(and(eq(pollFundings.network, network), eq(pollFundings.walletAddress, normalizeAddress(walletAddress))))
+    .orderBy(desc(pollFundings.occurredAt));
+
+  const pollIds = Array.from(new Set(entries.map((entry) => entry.pollId)));
+  if (pollIds.length === 0) {
+    return { fundings: [], polls: [], totals: [] };
+  }
+
+  const [polls, claims, distributions, refunds] = await Promise.all([
+    db
+      .select()
+      .from(indexedPolls)
+      .where(and(eq(indexedPolls.network, network), inArray(indexedPolls.pollId, pollIds))),
+    db
+      .select({ pollId: indexedPollClaims.pollId, amount: indexedPollClaims.amount })
+      .from(indexedPollClaims)
+      .where(and(eq(indexedPollClaims.network, network), inArray(indexedPollClaims.pollId, pollIds))),
+    db
+      .select({ pollId: indexedPollDistributions.pollId, amount: indexedPollDistributions.totalDistributed })
+      .from(indexedPollDistributions)
+      .where(and(eq(indexedPollDistributions.network, network), inArray(indexedPollDistributions.pollId, pollIds))),
+    // Refunds by any wallet shrink the pool just like payouts do
+    db
+      .select({ pollId: pollFundings.pollId, amount: pollFundings.netAmount })
+      .from(pollFundings)
+      .where(
+        and(
+          eq(pollFundings.network, network),
+          eq(pollFundings.kind, POLL_FUNDING_KIND.REFUND),
+          inArray(pollFundings.pollId, pollIds)
+        )
+      ),
+  ]);
+
+  const sumByPoll = (rows: { pollId: number; amount: string }[]) => {
+    const sums = new Map<number, Amount>();
+    for (const row of rows) sums.set(row.pollId, (sums.get(row.pollId) ?? ZERO_AMOUNT) + toAmount(row.amount));
+    return sums;
+  };
+  const paidOutByPoll = sumByPoll([...claims, ...distributions]);
+  const refundedByPoll = sumByPoll(refunds);
+  const pollById = new Map(polls.map((poll) => [poll.pollId, poll]));
+
+  // Everything that entered the pool is either still in it, paid out or refunded
+  const attributePayout = (pollId: number, netAmount: Amount): Amount => {
+    const paidOut = paidOutByPoll.get(pollId) ?? ZERO_AMOUNT;
+    const inflow = toAmount(pollById.get(pollId)?.rewardPool ?? "0") + paidOut + (refundedByPoll.get(pollId) ?? ZERO_AMOUNT);
+    if (inflow === ZERO_AMOUNT) return ZERO_AMOUNT;
+    // Unclaimed rewards swept at finalization leave no trace, so cap at the donation itself
+    return minAmount(netAmount, mulDiv(paidOut, netAmount, inflow));
+  };
+
+  const fundings: DonorFundingEntry[] = entries.map((entry) => ({
+    id: entry.id,
+    pollId: entry.pollId,
+    pollTitle: pollById.get(entry.pollId)?.title ?? null,
+    kind: entry.kind,
+    coinTypeId: entry.coinTypeId,
+    amount: entry.amount,
+    platformFee: entry.platformFee,
+    netAmount: entry.netAmount,
+    paidOut: entry.kind === POLL_FUNDING_KIND.FUND
+      ? attributePayout(entry.pollId, toAmount(entry.netAmount)).toString()
+      : null,
+    txHash: entry.txHash,
+    occurredAt: entry.occurredAt.toISOString(),
+  }));
+
+  const pollTotals: DonorPollTotals[] = pollIds.map((pollId) => {
+    const forPoll = entries.filter((entry) => entry.pollId === pollId);
+    const funds = forPoll.filter((entry) => entry.kind === POLL_FUNDING_KIND.FUND);
+    const sum = (rows: PollFunding[], field: "amount" | "platformFee" | "netAmount") =>
+      rows.reduce((total, row) => total + toAmount(row[field]), ZERO_AMOUNT);
+    const netFunded = sum(funds, "netAmount");
+    const poll = pollById.get(pollId);
+
+    return {
+      pollId,
+      pollTitle: poll?.title ?? null,
+      pollStatus: poll?.status ?? null,
+      coinTypeId: forPoll[0].coinTypeId,
+      fundingCount: funds.length,
+      funded: sum(funds, "amount").toString(),
+      platformFees: sum(funds, "platformFee").toString(),
+      netFunded: netFunded.toString(),
+      refunded: sum(forPoll.filter((entry) => entry.kind === POLL_FUNDING_KIND.REFUND), "netAmount").toString(),
+      paidOut: attributePayout(pollId, netFunded).toString(),
+    };
+  });
+
+  const totalsByCoin = new Map<number, Record<"funded" | "platformFees" | "refunded" | "paidOut", Amount>>();
+  for (const poll of pollTotals) {
+    const totals = totalsByCoin.get(poll.coinTypeId) ?? { funded: ZERO_AMOUNT, platformFees: ZERO_AMOUNT, refunded: ZERO_AMOUNT, paidOut: ZERO_AMOUNT };
+    totals.funded += toAmount(poll.funded);
+    totals.platformFees += toAmount(poll.platformFees);
+    totals.refunded += toAmount(poll.refunded);
+    totals.paidOut += toAmount(poll.paidOut);
+    totalsByCoin.set(poll.coinTypeId, totals);
+  }
+
+  return {
+    fundings,
+    polls: pollTotals,
+    totals: Array.from(totalsByCoin.entries())
+      .sort(([a], [b]) => a - b)
+      .map(([coinTypeId, totals]) => ({
+        coinTypeId,
+        funded: totals.funded.toString(),
+        platformFees: totals.platformFees.toString(),
+        refunded: totals.refunded.toString(),
+        paidOut: totals.paidOut.toString(),
+      })),
+  };
+}
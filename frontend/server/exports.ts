@@ -0,0 +1,648 @@
+/**
+ * Poll and questionnaire result exports
+ * Builds per-poll and per-questionnaire result sheets from the poll index
+ * (votes, claims, push distributions) and questionnaire progress, and renders
+ * them as CSV (one sheet per file), JSON (rows) or a Parquet-style columnar JSON
+ * document (typed schema plus one array per column).
+ *
+ * Voter addresses can be replaced with keyed hashes (HMAC-SHA256, scoped to the
+ * exporting creator) so files can be shared without the raw addresses while
+ * still joining across sheets and exports.
+ */
+
+import { createHmac, randomBytes } from "crypto";
+import { and, asc, eq, inArray, sql } from "drizzle-orm";
+import { db } from "./db";
+import {
+  indexedPolls,
+  indexedPollOptions,
+  indexedPollVotes,
+  indexedPollClaims,
+  indexedPollDistributions,
+  questionnaires,
+  questionnairePolls,
+  questionnaireProgress,
+  QUESTIONNAIRE_ITEM_KIND,
+  ZERO_AMOUNT,
+  formatUnits,
+  minAmount,
+  sumAmounts,
+  toAmount,
+  type IndexedPoll,
+  type IndexedPollOption,
+  type IndexedPollVote,
+  type IndexedPollClaim,
+  type IndexedPollDistribution,
+} from "@shared/schema";
+import { getTransactionByVersion, normalizeAddress, normalizeNetwork, type NetworkType } from "./movement";
+import { indexPoll } from "./poll-indexer";
+
+// ============================================
+// Types
+// ============================================
+
+export type ExportFormat = "csv" | "json" | "columnar";
+export type ColumnType = "string" | "int" | "decimal" | "bool" | "timestamp";
+type CellValue = string | number | boolean | null;
+
+export interface ExportColumn {
+  name: string;
+  type: ColumnType;
+}
+
+export interface ExportSheet {
+  name: string;
+  columns: ExportColumn[];
+  rows: Record<string, CellValue>[];
+}
+
+export interface ExportDocument {
+  kind: "poll" | "questionnaire";
+  id: string;
+  title: string;
+  network: NetworkType;
+  generatedAt: string;
+  addressesHashed: boolean;
+  sheets: ExportSheet[];
+}
+
+export interface ExportOptions {
+  network: NetworkType;
+  requester: string; // Wallet session address; must be the creator
+  hashAddresses: boolean;
+}
+
+export interface RenderedExport {
+  body: string;
+  contentType: string;
+  filename: string;
+}
+
+export class ExportError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.status = status;
+  }
+}
+
+export const EXPORT_FORMATS: ExportFormat[] = ["csv", "json", "columnar"];
+
+export type ClaimStatus = "claimed" | "distributed" | "unclaimed" | "no_reward";
+
+const TX_HASH_CONCURRENCY = 5;
+const MAX_TX_HASH_LOOKUPS = 2000;
+
+// ============================================
+// Address Hashing
+// ============================================
+
+let generatedSecret: string | null = null;
+
+function getHashSecret(): string {
+  const secret = process.env.EXPORT_HASH_SECRET || process.env.SESSION_SECRET;
+  if (secret) return secret;
+
+  if (!generatedSecret) {
+    console.warn("EXPORT_HASH_SECRET not set - hashed export addresses change on restart");
+    generatedSecret = randomBytes(32).toString("hex");
+  }
+  return generatedSecret;
+}
+
+function createAddressMasker(hash: boolean, scope: string): (address: string) => string {
+  if (!hash) return (address) => address;
+
+  const cache = new Map<string, string>();
+  return (address) => {
+    let masked = cache.get(address);
+    if (!masked) {
+      masked = "h_" + createHmac("sha256", getHashSecret())
+        .update(`${scope}:${normalizeAddress(address)}`)
+        .digest("hex")
+        .slice(0, 40);
+      cache.set(address, masked);
+    }
+    return masked;
+  };
+}
+
+// ============================================
+// Amounts
+// ============================================
+
+// USDC (coin type 2) has 6 decimals, MOVE and PULSE have 8
+function tokenDecimals(coinTypeId: number): number {
+  return coinTypeId === 2 ? 6 : 8;
+}
+
+/**
+ * Format a smallest-unit integer string as a decimal string without float rounding
+ */
+function formatRawUnits(raw: string, decimals: number): string {
+  return formatUnits(toAmount(raw), decimals);
+}
+
+// ============================================
+// Transaction Hashes
+// ============================================
+
+/**
+ * Fill in tx hashes for indexed rows that only carry a ledger version
+ * Hashes are looked up once per version and stored on every table that references it
+ */
+async function resolveTxHashes(
+  network: NetworkType,
+  rows: { txVersion: string; txHash: string | null }[]
+): Promise<Map<string, string>> {
+  const resolved = new Map<string, string>();
+  for (const row of rows) {
+    if (row.txHash) resolved.set(row.txVersion, row.txHash);
+  }
+
+  const missing = Array.from(new Set(rows.filter((row) => !row.txHash).map((row) => row.txVersion)))
+    .slice(0, MAX_TX_HASH_LOOKUPS);
+  if (missing.length === 0) return resolved;
+
+  const found: [string, string][] = [];
+  for (let i = 0; i < missing.length; i += TX_HASH_CONCURRENCY) {
+    const batch = missing.slice(i, i + TX_HASH_CONCURRENCY);
+    const results = await Promise.all(
+      batch.map(async (version) => {
+        try {
+          return await getTransactionByVersion(version, network);
+        } catch (error) {
+          console.error(`Error resolving tx hash for version ${version}:`, error);
+          return null;
+        }
+      })
+    );
+    results.forEach((transaction, index) => {
+      if (transaction?.hash) found.push([batch[index], transaction.hash]);
+    });
+  }
+
+  if (found.length > 0) {
+    const values = sql.join(found.map(([version, hash]) => sql`(${version}, ${hash})`), sql`, `);
+    for (const table of [indexedPollVotes, indexedPollClaims, indexedPollDistributions]) {
+      await db.execute(sql`
+        update ${table} set tx_hash = v.hash
+        from (values ${values}) as v(version, hash)
+        where ${table.network} = ${network} and ${table.txVersion} = v.version and ${table.txHash} is null
+      `);
+    }
+    found.forEach(([version, hash]) => resolved.set(version, hash));
+  }
+
+  return resolved;
+}
+
+// ============================================
+// Poll Data
+// ============================================
+
+interface PollExportData {
+  poll: IndexedPoll;
+  options: IndexedPollOption[];
+  votes: IndexedPollVote[];
+  claims: IndexedPollClaim[];
+  distribution: IndexedPollDistribution | null;
+}
+
+async function loadPolls(network: NetworkType, pollIds: number[]): Promise<PollExportData[]> {
+  if (pollIds.length === 0) return [];
+
+  const pollFilter = (table: typeof indexedPolls | typeof indexedPollOptions | typeof indexedPollVotes |
+    typeof indexedPollClaims | typeof indexedPollDistributions) =>
+    and(eq(table.network, network), inArray(table.pollId, pollIds));
+
+  let polls = await db.select().from(indexedPolls).where(pollFilter(indexedPolls));
+
+  // Index polls the background sync hasn't reached yet
+  const missing = pollIds.filter((pollId) => !polls.some((poll) => poll.pollId === pollId));
+  if (missing.length > 0) {
+    for (const pollId of missing) {
+      await indexPoll(network, pollId);
+    }
+    polls = await db.select().from(indexedPolls).where(pollFilter(indexedPolls));
+  }
+
+  const [options, votes, claims, distributions] = await Promise.all([
+    db.select().from(indexedPollOptions).where(pollFilter(indexedPollOptions)),
+    db.select().from(indexedPollVotes).where(pollFilter(indexedPollVotes)).orderBy(asc(indexedPollVotes.txVersion)),
+    db.select().from(indexedPollClaims).where(pollFilter(indexedPollClaims)),
+    db.select().from(indexedPollDistributions).where(pollFilter(indexedPollDistributions)),
+  ]);
+
+  return pollIds
+    .map((pollId) => polls.find((poll) => poll.pollId === pollId))
+    .filter((poll): poll is IndexedPoll => !!poll)
+    .map((poll) => ({
+      poll,
+      options: options
+        .filter((option) => option.pollId === poll.pollId)
+        .sort((a, b) => a.optionIndex - b.optionIndex),
+      votes: votes.filter((vote) => vote.pollId === poll.pollId),
+      claims: claims.filter((claim) => claim.pollId === poll.pollId),
+      distribution: distributions.find((distribution) => distribution.pollId === poll.pollId) ?? null,
+    }));
+}
+
+/**
+ * What a voter was (or would be) paid, mirroring the contract's claim math:
+ * fixed reward_per_vote, otherwise the remaining pool split over all voters
+ */
+function voterReward(data: PollExportData, voter: string): { amount: string | null; status: ClaimStatus } {
+  const { poll, claims, distribution } = data;
+
+  const claim = claims.find((c) => c.claimer === voter);
+  if (claim) return { amount: claim.amount, status: "claimed" };
+
+  if (poll.rewardsDistributed && distribution && distribution.recipientCount > 0) {
+    return {
+      amount: (toAmount(distribution.totalDistributed) / BigInt(distribution.recipientCount)).toString(),
+      status: "distributed",
+    };
+  }
+
+  const pool = toAmount(poll.rewardPool);
+  if (pool === ZERO_AMOUNT || poll.voters.length === 0) return { amount: null, status: "no_reward" };
+
+  const perVote = toAmount(poll.rewardPerVote);
+  const amount = perVote > ZERO_AMOUNT ? perVote : pool / BigInt(poll.voters.length);
+  return { amount: minAmount(amount, pool).toString(), status: "unclaimed" };
+}
+
+const VOTE_COLUMNS: ExportColumn[] = [
+  { name: "voter", type: "string" },
+  { name: "option_index", type: "int" },
+  { name: "option_label", type: "string" },
+  { name: "voted_at", type: "timestamp" },
+  { name: "tx_version", type: "string" },
+  { name: "tx_hash", type: "string" },
+  { name: "reward_amount_raw", type: "string" },
+  { name: "reward_amount", type: "decimal" },
+  { name: "claim_status", type: "string" },
+  { name: "claim_tx_hash", type: "string" },
+];
+
+const POLL_COLUMNS: ExportColumn[] = [
+  { name: "poll_id", type: "int" },
+  { name: "poll_title", type: "string" },
+];
+
+/**
+ * One row per voter; voters without an indexed vote event still appear (option unknown)
+ */
+function buildVoteRows(
+  data: PollExportData,
+  txHashes: Map<string, string>,
+  mask: (address: string) => string
+): Record<string, CellValue>[] {
+  const { poll, options, votes, claims } = data;
+  const decimals = tokenDecimals(poll.coinTypeId);
+  const voters = Array.from(new Set([...votes.map((vote) => vote.voter), ...poll.voters]));
+
+  return voters.map((voter) => {
+    const vote = votes.find((v) => v.voter === voter);
+    const reward = voterReward(data, voter);
+    const claim = claims.find((c) => c.claimer === voter);
+    const txVersion = reward.status === "distributed" ? data.distribution!.txVersion : claim?.txVersion;
+
+    return {
+      voter: mask(voter),
+      option_index: vote?.optionIndex ?? null,
+      option_label: vote ? options.find((o) => o.optionIndex === vote.optionIndex)?.label ?? null : null,
+      voted_at: vote?.votedAt?.toISOString() ?? null,
+      tx_version: vote?.txVersion ?? null,
+      tx_hash: vote ? txHashes.get(vote.txVersion) ?? null : null,
+      reward_amount_raw: reward.amount,
+      reward_amount: reward.amount ? formatRawUnits(reward.amount, decimals) : null,
+      claim_status: reward.status,
+      claim_tx_hash: txVersion ? txHashes.get(txVersion) ?? null : null,
+    };
+  });
+}
+
+function buildOptionRows(data: PollExportData): Record<string, CellValue>[] {
+  const total = data.options.reduce((sum, option) => sum + option.votes, 0);
+  return data.options.map((option) => ({
+    option_index: option.optionIndex,
+    option_label: option.label,
+    votes: option.votes,
+    share_percent: total > 0 ? Math.round((option.votes / total) * 10000) / 100 : 0,
+  }));
+}
+
+const OPTION_COLUMNS: ExportColumn[] = [
+  { name: "option_index", type: "int" },
+  { name: "option_label", type: "string" },
+  { name: "votes", type: "int" },
+  { name: "share_percent", type: "decimal" },
+];
+
+const SUMMARY_COLUMNS: ExportColumn[] = [
+  { name: "metric", type: "string" },
+  { name: "value", type: "string" },
+];
+
+function summaryRows(entries: [string, CellValue][]): Record<string, CellValue>[] {
+  return entries.map(([metric, value]) => ({ metric, value: value === null ? null : String(value) }));
+}
+
+function pollSummaryEntries(data: PollExportData, voteRows: Record<string, CellValue>[]): [string, CellValue][] {
+  const { poll } = data;
+  const decimals = tokenDecimals(poll.coinTypeId);
+  const paid = sumAmounts(
+    voteRows
+      .filter((row) => row.claim_status === "claimed" || row.claim_status === "distributed")
+      .map((row) => toAmount(row.reward_amount_raw as string))
+  );
+
+  return [
+    ["poll_id", poll.pollId],
+    ["title", poll.title],
+    ["status", poll.status],
+    ["coin_type_id", poll.coinTypeId],
+    ["end_time", new Date(poll.endTime * 1000).toISOString()],
+    ["total_votes", poll.totalVotes],
+    ["voters", poll.voters.length],
+    ["claimed", voteRows.filter((row) => row.claim_status === "claimed").length],
+    ["distributed", voteRows.filter((row) => row.claim_status === "distributed").length],
+    ["unclaimed", voteRows.filter((row) => row.claim_status === "unclaimed").length],
+    ["reward_per_vote", formatRawUnits(poll.rewardPerVote, decimals)],
+    ["total_paid", formatUnits(paid, decimals)],
+    ["remaining_pool", formatRawUnits(poll.rewardPool, decimals)],
+  ];
+}
+
+// ============================================
+// Builders
+// ============================================
+
+/**
+ * Build the export for one poll (votes, options and summary sheets)
+ */
+export async function buildPollExport(pollId: number, options: ExportOptions): Promise<ExportDocument> {
+  const [data] = await loadPolls(options.network, [pollId]);
+  if (!data) {
+    throw new ExportError(404, "Poll not found");
+  }
+
+  const requester = normalizeAddress(options.requester);
+  if (data.poll.creator !== requester) {
+    throw new ExportError(403, "Only the poll creator can export results");
+  }
+
+  const txHashes = await resolveTxHashes(options.network, [
+    ...data.votes,
+    ...data.claims,
+    ...(data.distribution ? [data.distribution] : []),
+  ]);
+  const mask = createAddressMasker(options.hashAddresses, requester);
+  const voteRows = buildVoteRows(data, txHashes, mask);
+
+  return {
+    kind: "poll",
+    id: pollId.toString(),
+    title: data.poll.title,
+    network: options.network,
+    generatedAt: new Date().toISOString(),
+    addressesHashed: options.hashAddresses,
+    sheets: [
+      { name: "votes", columns: VOTE_COLUMNS, rows: voteRows },
+      { name: "options", columns: OPTION_COLUMNS, rows: buildOptionRows(data) },
+      { name: "summary", columns: SUMMARY_COLUMNS, rows: summaryRows(pollSummaryEntries(data, voteRows)) },
+    ],
+  };
+}
+
+const RESPONDENT_COLUMNS: ExportColumn[] = [
+  { name: "respondent", type: "string" },
+  { name: "started_at", type: "timestamp" },
+  { name: "completed_at", type: "timestamp" },
+  { name: "is_complete", type: "bool" },
+  { name: "polls_answered", type: "int" },
+  { name: "text_answers", type: "int" },
+  { name: "bulk_vote_tx_hash", type: "string" },
+  { name: "reward_amount", type: "decimal" },
+  { name: "claimed", type: "bool" },
+  { name: "claimed_at", type: "timestamp" },
+  { name: "claim_tx_hash", type: "string" },
+];
+
+const TEXT_RESPONSE_COLUMNS: ExportColumn[] = [
+  { name: "question_id", type: "string" },
+  { name: "question", type: "string" },
+  { name: "respondent", type: "string" },
+  { name: "answer", type: "string" },
+  { name: "flagged", type: "bool" },
+  { name: "answered_at", type: "timestamp" },
+];
+
+/**
+ * Build the export for a questionnaire: votes and options across its polls,
+ * one row per respondent, and a summary
+ * Polls are read from the questionnaire's own network.
+ * The caller has already checked that the requester created the questionnaire.
+ */
+export async function buildQuestionnaireExport(
+  questionnaireId: string,
+  options: Omit<ExportOptions, "network">
+): Promise<ExportDocument> {
+  const [questionnaire] = await db
+    .select()
+    .from(questionnaires)
+    .where(eq(questionnaires.id, questionnaireId))
+    .limit(1);
+
+  if (!questionnaire) {
+    throw new ExportError(404, "Questionnaire not found");
+  }
+  const network = normalizeNetwork(questionnaire.network);
+
+  const links = await db
+    .select()
+    .from(questionnairePolls)
+    .where(eq(questionnairePolls.questionnaireId, questionnaireId))
+    .orderBy(asc(questionnairePolls.sortOrder));
+
+  const progress = await db
+    .select()
+    .from(questionnaireProgress)
+    .where(eq(questionnaireProgress.questionnaireId, questionnaireId))
+    .orderBy(asc(questionnaireProgress.startedAt));
+
+  const pollIds = links.flatMap((link) => (link.pollId !== null ? [link.pollId] : []));
+  const textQuestions = links.filter((link) => link.kind === QUESTIONNAIRE_ITEM_KIND.TEXT);
+
+  const polls = await loadPolls(network, pollIds);
+  const txHashes = await resolveTxHashes(
+    network,
+    polls.flatMap((data) => [...data.votes, ...data.claims, ...(data.distribution ? [data.distribution] : [])])
+  );
+  const mask = createAddressMasker(options.hashAddresses, normalizeAddress(options.requester));
+
+  const voteRows = polls.flatMap((data) =>
+    buildVoteRows(data, txHashes, mask).map((row) => ({
+      poll_id: data.poll.pollId,
+      poll_title: data.poll.title,
+      ...row,
+    }))
+  );
+  const optionRows = polls.flatMap((data) =>
+    buildOptionRows(data).map((row) => ({ poll_id: data.poll.pollId, poll_title: data.poll.title, ...row }))
+  );
+
+  // Shared-pool payouts are only known up front when the reward per completion is fixed
+  const decimals = tokenDecimals(questionnaire.coinTypeId);
+  const fixedReward = toAmount(questionnaire.rewardPerCompletion || "0") > ZERO_AMOUNT
+    ? formatRawUnits(questionnaire.rewardPerCompletion, decimals)
+    : null;
+
+  const respondentRows = progress.map((row) => ({
+    respondent: mask(normalizeAddress(row.walletAddress)),
+    started_at: row.startedAt?.toISOString() ?? null,
+    completed_at: row.completedAt?.toISOString() ?? null,
+    is_complete: row.isComplete,
+    polls_answered: row.pollsAnswered.length,
+    text_answers: row.textAnswers.length,
+    bulk_vote_tx_hash: row.bulkVoteTxHash,
+    reward_amount: row.isComplete ? fixedReward : null,
+    claimed: row.claimed,
+    claimed_at: row.claimedAt?.toISOString() ?? null,
+    claim_tx_hash: row.claimTxHash,
+  }));
+
+  // One row per text answer, in question order
+  const textResponseRows = textQuestions.flatMap((question) =>
+    progress.flatMap((row) =>
+      row.textAnswers
+        .filter((answer) => answer.questionId === question.id)
+        .map((answer) => ({
+          question_id: question.id,
+          question: question.prompt,
+          respondent: mask(normalizeAddress(row.walletAddress)),
+          answer: answer.text,
+          flagged: answer.flagged,
+          answered_at: answer.answeredAt,
+        }))
+    )
+  );
+
+  const summary: [string, CellValue][] = [
+    ["questionnaire_id", questionnaire.id],
+    ["title", questionnaire.title],
+    ["status", questionnaire.status],
+    ["reward_type", questionnaire.rewardType],
+    ["coin_type_id", questionnaire.coinTypeId],
+    ["polls", pollIds.length],
+    ["text_questions", textQuestions.length],
+    ["text_responses", textResponseRows.length],
+    ["respondents", progress.length],
+    ["completions", progress.filter((row) => row.isComplete).length],
+    ["claims", progress.filter((row) => row.claimed).length],
+    ["total_votes", polls.reduce((sum, data) => sum + data.poll.totalVotes, 0)],
+  ];
+
+  return {
+    kind: "questionnaire",
+    id: questionnaire.id,
+    title: questionnaire.title,
+    network,
+    generatedAt: new Date().toISOString(),
+    addressesHashed: options.hashAddresses,
+    sheets: [
+      { name: "votes", columns: [...POLL_COLUMNS, ...VOTE_COLUMNS], rows: voteRows },
+      { name: "options", columns: [...POLL_COLUMNS, ...OPTION_COLUMNS], rows: optionRows },
+      { name: "respondents", columns: RESPONDENT_COLUMNS, rows: respondentRows },
+      { name: "text_responses", columns: TEXT_RESPONSE_COLUMNS, rows: textResponseRows },
+      { name: "summary", columns: SUMMARY_COLUMNS, rows: summaryRows(summary) },
+    ],
+  };
+}
+
+// ============================================
+// Rendering
+// ============================================
+
+function csvCell(value: CellValue): string {
+  if (value === null) return "";
+  let text = String(value);
+  // Keep spreadsheet apps from evaluating user-supplied titles and labels
+  if (typeof value === "string" && /^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function toCsv(sheet: ExportSheet): string {
+  const lines = [sheet.columns.map((column) => csvCell(column.name)).join(",")];
+  for (const row of sheet.rows) {
+    lines.push(sheet.columns.map((column) => csvCell(row[column.name] ?? null)).join(","));
+  }
+  return lines.join("\r\n") + "\r\n";
+}
+
+function toColumnar(sheet: ExportSheet) {
+  return {
+    rowCount: sheet.rows.length,
+    schema: sheet.columns,
+    columns: Object.fromEntries(
+      sheet.columns.map((column) => [column.name, sheet.rows.map((row) => row[column.name] ?? null)])
+    ),
+  };
+}
+
+function slugify(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "").slice(0, 40) || "export";
+}
+
+/**
+ * Render an export; CSV holds a single sheet (default: votes)
+ */
+export function renderExport(doc: ExportDocument, format: ExportFormat, sheetName?: string): RenderedExport {
+  const baseName = `${doc.kind}-${doc.id.slice(0, 8)}-${slugify(doc.title)}`;
+  const meta = {
+    kind: doc.kind,
+    id: doc.id,
+    title: doc.title,
+    network: doc.network,
+    generatedAt: doc.generatedAt,
+    addressesHashed: doc.addressesHashed,
+  };
+
+  if (format === "csv") {
+    const sheet = doc.sheets.find((s) => s.name === (sheetName ?? "votes"));
+    if (!sheet) {
+      throw new ExportError(400, `Unknown sheet. Available: ${doc.sheets.map((s) => s.name).join(", ")}`);
+    }
+    return {
+      body: "\uFEFF" + toCsv(sheet), // BOM so spreadsheet apps read UTF-8 titles correctly
+      contentType: "text/csv; charset=utf-8",
+      filename: `${baseName}-${sheet.name}.csv`,
+    };
+  }
+
+  if (format === "columnar") {
+    return {
+      body: JSON.stringify({
+        format: "mvpulse-columnar",
+        version: 1,
+        meta,
+        sheets: Object.fromEntries(doc.sheets.map((sheet) => [sheet.name, toColumnar(sheet)])),
+      }),
+      contentType: "application/json; charset=utf-8",
+      filename: `${baseName}.columnar.json`,
+    };
+  }
+
+  return {
+    body: JSON.stringify(
+      { meta, sheets: Object.fromEntries(doc.sheets.map((sheet) => [sheet.name, sheet.rows])) },
+      null,
+      2
+    ),
+    contentType: "application/json; charset=utf-8",
+    filename: `${baseName}.json`,
+  };
+}
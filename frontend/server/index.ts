@@ -4,6 +4,13 @@ import { registerRoutes } from "./routes";
 import { serveStatic } from "./static";
 import { createServer } from "http";
 import { createProxyMiddleware } from "http-proxy-middleware";
+import { getNodeBaseUrl } from "./movement";
+import { startPollIndexer } from "./poll-indexer";
+import { startNotificationWorker } from "./notifications";
+import { startClaimDeadlineWatcher } from "./claim-deadlines";
+import { startStakingKeeper } from "./staking-keeper";
+import { startSwapIndexer } from "./swap-analytics";
+import { attachLiveUpdates } from "./live-updates";
 
 const app = express();
 
@@ -11,7 +18,7 @@ const app = express();
 app.use(
   "/api/movement-testnet",
   createProxyMiddleware({
-    target: "https://testnet.movementnetwork.xyz",
+    target: getNodeBaseUrl("testnet"),
     changeOrigin: true,
     pathRewrite: { "^/api/movement-testnet": "" },
   })
@@ -20,7 +27,7 @@ app.use(
 app.use(
   "/api/movement-mainnet",
   createProxyMiddleware({
-    target: "https://full.mainnet.movementinfra.xyz",
+    target: getNodeBaseUrl("mainnet"),
     changeOrigin: true,
     pathRewrite: { "^/api/movement-mainnet": "" },
   })
@@ -82,6 +89,7 @@ app.use((req, res, next) => {
 
 (async () => {
   await registerRoutes(httpServer, app);
+  attachLiveUpdates(httpServer, log);
 
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
     const status = err.status || err.statusCode || 500;
@@ -113,6 +121,11 @@ app.use((req, res, next) => {
     },
     () => {
       log(`serving on port ${port}`);
+      startPollIndexer(log);
+      startNotificationWorker(log);
+      startClaimDeadlineWatcher(log);
+      startStakingKeeper(log);
+      startSwapIndexer(log);
     },
   );
 })();
@@ -0,0 +1,205 @@
+/**
+ * Live updates over WebSocket
+ * Clients connect to /ws/live and subscribe to poll and questionnaire channels
+ * (see pollChannel / questionnaireChannel). The poll indexer and questionnaire
+ * routes publish vote-count deltas, status changes, claims and completions as
+ * they happen; events are fire-and-forget and nothing is replayed on reconnect,
+ * so clients load the current state over HTTP and apply pushes on top.
+ */
+
+import type { IncomingMessage, Server } from "http";
+import type { Duplex } from "stream";
+import { WebSocketServer, WebSocket } from "ws";
+import { and, eq } from "drizzle-orm";
+import { db } from "./db";
+import {
+  questionnairePolls,
+  questionnaires,
+  LIVE_UPDATES_PATH,
+  pollChannel,
+  questionnaireChannel,
+  type LiveEvent,
+  type LiveEventMessage,
+  type LiveSubscribeMessage,
+} from "@shared/schema";
+
+const HEARTBEAT_INTERVAL_MS = 30000;
+const MAX_CHANNELS_PER_SOCKET = 500;
+
+// channel -> sockets subscribed to it
+const subscriptions = new Map<string, Set<WebSocket>>();
+// socket -> channels it subscribed to (for cleanup on close)
+const socketChannels = new Map<WebSocket, Set<string>>();
+
+let liveServer: WebSocketServer | null = null;
+
+// ============================================
+// Subscriptions
+// ============================================
+
+function subscribe(socket: WebSocket, channel: string): void {
+  const channels = socketChannels.get(socket);
+  if (!channels || channels.has(channel) || channels.size >= MAX_CHANNELS_PER_SOCKET) return;
+
+  channels.add(channel);
+  let sockets = subscriptions.get(channel);
+  if (!sockets) {
+    sockets = new Set();
+    subscriptions.set(channel, sockets);
+  }
+  sockets.add(socket);
+}
+
+function unsubscribe(socket: WebSocket, channel: string): void {
+  socketChannels.get(socket)?.delete(channel);
+  const sockets = subscriptions.get(channel);
+  if (!sockets) return;
+
+  sockets.delete(socket);
+  if (sockets.size === 0) subscriptions.delete(channel);
+}
+
+function isValidChannel(channel: unknown): channel is string {
+  return (
+    typeof channel === "string" &&
+    (/^poll:(testnet|mainnet):\d+$/.test(channel) || /^questionnaire:[\w-]{1,36}$/.test(channel))
+  );
+}
+
+function handleMessage(socket: WebSocket, raw: string): void {
+  let message: LiveSubscribeMessage;
+  try {
+    message = JSON.parse(raw);
+  } catch {
+    return;
+  }
+
+  if (!Array.isArray(message?.channels)) return;
+  const channels = message.channels.filter(isValidChannel);
+
+  if (message.action === "subscribe") {
+    channels.forEach((channel) => subscribe(socket, channel));
+  } else if (message.action === "unsubscribe") {
+    channels.forEach((channel) => unsubscribe(socket, channel));
+  }
+}
+
+// ============================================
+// Server
+// ============================================
+
+/**
+ * Attach the live update endpoint to the HTTP server
+ * Only upgrades on LIVE_UPDATES_PATH are handled; others (e.g. Vite HMR) are left alone
+ */
+export function attachLiveUpdates(
+  httpServer: Server,
+  log: (message: string, source?: string) => void
+): void {
+  if (liveServer) return;
+
+  const wss = new WebSocketServer({ noServer: true });
+  liveServer = wss;
+
+  httpServer.on("upgrade", (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+    const { pathname } = new URL(req.url ?? "/", "http://localhost");
+    if (pathname !== LIVE_UPDATES_PATH) return;
+
+    wss.handleUpgrade(req, socket, head, (ws) => wss.emit("connection", ws, req));
+  });
+
+  const alive = new WeakSet<WebSocket>();
+
+  wss.on("connection", (socket: WebSocket) => {
+    socketChannels.set(socket, new Set());
+    alive.add(socket);
+
+    socket.on("pong", () => alive.add(socket));
+    socket.on("message", (data) => handleMessage(socket, data.toString()));
+    socket.on("close", () => {
+      for (const channel of Array.from(socketChannels.get(socket) ?? [])) {
+        unsubscribe(socket, channel);
+      }
+      socketChannels.delete(socket);
+    });
+    socket.on("error", (error) => console.error("Live update socket error:", error));
+  });
+
+  // Drop connections that stopped answering pings
+  const heartbeat = setInterval(() => {
+    wss.clients.forEach((socket) => {
+      if (!alive.has(socket)) {
+        socket.terminate();
+        return;
+      }
+      alive.delete(socket);
+      socket.ping();
+    });
+  }, HEARTBEAT_INTERVAL_MS);
+  heartbeat.unref();
+
+  log(`live updates listening on ${LIVE_UPDATES_PATH}`, "live");
+}
+
+// ============================================
+// Publishing
+// ============================================
+
+function hasSubscribers(channel: string): boolean {
+  return (subscriptions.get(channel)?.size ?? 0) > 0;
+}
+
+function hasQuestionnaireSubscribers(): boolean {
+  return Array.from(subscriptions.keys()).some((channel) => channel.startsWith("questionnaire:"));
+}
+
+/**
+ * Send an event to everyone subscribed to a channel
+ */
+export function publish(channel: string, event: LiveEvent): void {
+  const sockets = subscriptions.get(channel);
+  if (!sockets) return;
+
+  const payload = JSON.stringify({ channel, event } satisfies LiveEventMessage);
+  sockets.forEach((socket) => {
+    if (socket.readyState === WebSocket.OPEN) {
+      socket.send(payload);
+    }
+  });
+}
+
+/**
+ * Publish a poll event to the poll's channel and to every questionnaire containing it
+ */
+export async function publishPollEvent(event: Extract<LiveEvent, { pollId: number }>): Promise<void> {
+  publish(pollChannel(event.network, event.pollId), event);
+
+  if (!hasQuestionnaireSubscribers()) return;
+
+  const rows = await db
+    .select({ questionnaireId: questionnairePolls.questionnaireId })
+    .from(questionnairePolls)
+    .innerJoin(questionnaires, eq(questionnaires.id, questionnairePolls.questionnaireId))
+    .where(and(eq(questionnairePolls.pollId, event.pollId), eq(questionnaires.network, event.network)));
+
+  for (const { questionnaireId } of rows) {
+    publish(questionnaireChannel(questionnaireId), event);
+  }
+}
+
+/**
+ * Publish a questionnaire's new completion count
+ */
+export function publishQuestionnaireCompletions(questionnaireId: string, completionCount: number): void {
+  const channel = questionnaireChannel(questionnaireId);
+  if (!hasSubscribers(channel)) return;
+
+  publish(channel, { type: "questionnaire_completions", questionnaireId, completionCount });
+}
+
+/**
+ * Whether anyone is listening at all (lets publishers skip diffing work)
+ */
+export function hasLiveSubscribers(): boolean {
+  return subscriptions.size > 0;
+}
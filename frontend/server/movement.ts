@@ -0,0 +1,225 @@
+/**
+ * Movement full node access for server-side chain reads
+ * Node URLs default to the public endpoints and can be overridden per network
+ * with MOVEMENT_TESTNET_NODE_URL / MOVEMENT_MAINNET_NODE_URL (e.g. a local mock node).
+ * The GraphQL indexer can likewise be overridden with MOVEMENT_{NETWORK}_INDEXER_URL.
+ */
+
+export type NetworkType = "testnet" | "mainnet";
+
+const DEFAULT_NODE_URLS: Record<NetworkType, string> = {
+  testnet: "https://testnet.movementnetwork.xyz",
+  mainnet: "https://full.mainnet.movementinfra.xyz",
+};
+
+/**
+ * Normalize an arbitrary request value to a supported network (defaults to testnet)
+ */
+export function normalizeNetwork(value: unknown): NetworkType {
+  return value === "mainnet" ? "mainnet" : "testnet";
+}
+
+/**
+ * Get the full node base URL (without the /v1 suffix) for a network
+ */
+export function getNodeBaseUrl(network: NetworkType): string {
+  const override = network === "mainnet"
+    ? process.env.MOVEMENT_MAINNET_NODE_URL
+    : process.env.MOVEMENT_TESTNET_NODE_URL;
+  return (override || DEFAULT_NODE_URLS[network]).replace(/\/+$/, "");
+}
+
+/**
+ * Get the REST API URL (with /v1) for a network
+ */
+export function getNodeApiUrl(network: NetworkType): string {
+  return `${getNodeBaseUrl(network)}/v1`;
+}
+
+const DEFAULT_INDEXER_URLS: Record<NetworkType, string> = {
+  testnet: "https://indexer.testnet.movementnetwork.xyz/v1/graphql",
+  mainnet: "https://indexer.mainnet.movementnetwork.xyz/v1/graphql",
+};
+
+/**
+ * Get the GraphQL indexer endpoint for a network
+ */
+export function getIndexerUrl(network: NetworkType): string {
+  const override = network === "mainnet"
+    ? process.env.MOVEMENT_MAINNET_INDEXER_URL
+    : process.env.MOVEMENT_TESTNET_INDEXER_URL;
+  return override || DEFAULT_INDEXER_URLS[network];
+}
+
+/**
+ * Fetch an account's current authentication key
+ * Returns null when the account does not exist on chain yet
+ */
+export async function getAccountAuthKey(
+  address: string,
+  network: NetworkType
+): Promise<string | null> {
+  const response = await fetch(`${getNodeApiUrl(network)}/accounts/${address}`);
+
+  if (response.status === 404) {
+    return null;
+  }
+
+  if (!response.ok) {
+    throw new Error(`Failed to fetch account ${address}: ${response.status} ${response.statusText}`);
+  }
+
+  const data = await response.json();
+  return typeof data.authentication_key === "string"
+    ? data.authentication_key.toLowerCase()
+    : null;
+}
+
+/**
+ * Get the poll contract (and registry) address for a network
+ * Shares the VITE_* variables with the client so both sides agree on the deployment
+ */
+export function getPollContractAddress(network: NetworkType): string | null {
+  const address = network === "mainnet"
+    ? process.env.VITE_MAINNET_CONTRACT_ADDRESS
+    : process.env.VITE_TESTNET_CONTRACT_ADDRESS;
+  return address ? address.toLowerCase() : null;
+}
+
+/**
+ * Get the staking contract address for a network
+ */
+export function getStakingContractAddress(network: NetworkType): string | null {
+  const address = network === "mainnet"
+    ? process.env.VITE_MAINNET_STAKING_CONTRACT_ADDRESS
+    : process.env.VITE_TESTNET_STAKING_CONTRACT_ADDRESS;
+  return address ? address.toLowerCase() : null;
+}
+
+/**
+ * Get the PULSE/stable swap contract address for a network
+ */
+export function getSwapContractAddress(network: NetworkType): string | null {
+  const address = network === "mainnet"
+    ? process.env.VITE_MAINNET_SWAP_CONTRACT_ADDRESS
+    : process.env.VITE_TESTNET_SWAP_CONTRACT_ADDRESS;
+  return address ? address.toLowerCase() : null;
+}
+
+/**
+ * Normalize an address to its full 64-hex-digit form for comparison
+ */
+export function normalizeAddress(address: string): string {
+  const clean = address.toLowerCase().replace(/^0x/, "");
+  return `0x${clean.padStart(64, "0")}`;
+}
+
+/**
+ * Subset of the node's transaction response used for verification
+ */
+export interface NodeTransaction {
+  type: string; // "user_transaction" | "pending_transaction" | ...
+  hash: string;
+  sender?: string;
+  success?: boolean;
+  vm_status?: string;
+  version?: string;
+  timestamp?: string;
+  gas_used?: string;
+  gas_unit_price?: string;
+  payload?: {
+    type: string;
+    function?: string;
+    arguments?: unknown[];
+  };
+  events?: { type: string; data: unknown }[];
+}
+
+/**
+ * Fetch a transaction by hash
+ * Returns null when the node doesn't know the hash
+ */
+export async function getTransactionByHash(
+  hash: string,
+  network: NetworkType
+): Promise<NodeTransaction | null> {
+  const response = await fetch(`${getNodeApiUrl(network)}/transactions/by_hash/${hash}`);
+
+  if (response.status === 404) {
+    return null;
+  }
+
+  if (!response.ok) {
+    throw new Error(`Failed to fetch transaction ${hash}: ${response.status} ${response.statusText}`);
+  }
+
+  return response.json();
+}
+
+/**
+ * Fetch a committed transaction by ledger version
+ * Returns null when the node doesn't have the version (e.g. pruned)
+ */
+export async function getTransactionByVersion(
+  version: string,
+  network: NetworkType
+): Promise<NodeTransaction | null> {
+  const response = await fetch(`${getNodeApiUrl(network)}/transactions/by_version/${version}`);
+
+  if (response.status === 404 || response.status === 410) {
+    return null;
+  }
+
+  if (!response.ok) {
+    throw new Error(`Failed to fetch transaction at version ${version}: ${response.status} ${response.statusText}`);
+  }
+
+  return response.json();
+}
+
+/**
+ * Fetch a transaction, polling while it is still pending
+ * Returns the last response seen (which may still be pending or null on timeout)
+ */
+export async function waitForTransaction(
+  hash: string,
+  network: NetworkType,
+  timeoutMs = 15000,
+  intervalMs = 1000
+): Promise<NodeTransaction | null> {
+  const deadline = Date.now() + timeoutMs;
+  let transaction = await getTransactionByHash(hash, network);
+
+  while ((!transaction || transaction.type === "pending_transaction") && Date.now() < deadline) {
+    await new Promise((resolve) => setTimeout(resolve, intervalMs));
+    transaction = await getTransactionByHash(hash, network);
+  }
+
+  return transaction;
+}
+
+/**
+ * Call a Move view function
+ */
+export async function callViewFunction<T extends unknown[]>(
+  network: NetworkType,
+  functionId: string,
+  args: unknown[],
+  typeArguments: string[] = []
+): Promise<T> {
+  const response = await fetch(`${getNodeApiUrl(network)}/view`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({
+      function: functionId,
+      type_arguments: typeArguments,
+      arguments: args,
+    }),
+  });
+
+  if (!response.ok) {
+    throw new Error(`View call ${functionId} failed: ${response.status} ${response.statusText}`);
+  }
+
+  return response.json();
+}
@@ -0,0 +1,204 @@
+import http from "http";
+import type { AddressInfo } from "net";
+import { simpleParser, type ParsedMail } from "mailparser";
+import { SMTPServer } from "smtp-server";
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { NOTIFICATION_TYPES, notificationDeliveries, notificationPreferences, notifications } from "@shared/schema";
+
+vi.mock("./db", async () => ({ db: await (await import("./test-db")).createTestDb() }));
+
+const { db } = await import("./db");
+const {
+  NotificationError,
+  confirmNotificationEmail,
+  dispatchDueDeliveries,
+  notify,
+  saveNotificationPreferences,
+  sendTestNotification,
+} = await import("./notifications");
+
+const WALLET = `0x${"d".repeat(64)}`;
+
+async function rejection(promise: Promise<unknown>): Promise<InstanceType<typeof NotificationError>> {
+  const error = await promise.then(() => null, (err: unknown) => err);
+  expect(error).toBeInstanceOf(NotificationError);
+  return error as InstanceType<typeof NotificationError>;
+}
+
+// Messages accepted by the local SMTP sink, parsed
+const inbox: ParsedMail[] = [];
+
+const smtp = new SMTPServer({
+  authOptional: true,
+  disabledCommands: ["STARTTLS"],
+  logger: false,
+  onData(stream, _session, callback) {
+    simpleParser(stream).then((mail) => {
+      inbox.push(mail);
+      callback();
+    }, callback);
+  },
+});
+
+const recipients = () => inbox.map((mail) => (Array.isArray(mail.to) ? mail.to[0] : mail.to)?.text);
+
+function sentToken(): string {
+  return inbox[inbox.length - 1].text!.match(/confirmEmail=([0-9a-f]{64})/)![1];
+}
+
+beforeAll(async () => {
+  await new Promise<void>((resolve) => smtp.listen(0, "127.0.0.1", resolve));
+  const { port } = smtp.server.address() as AddressInfo;
+  process.env.SMTP_URL = `smtp://127.0.0.1:${port}`;
+  process.env.APP_URL = "https://mvpulse.test";
+});
+
+beforeEach(async () => {
+  inbox.length = 0;
+  await db.delete(notificationDeliveries);
+  await db.delete(notifications);
+  await db.delete(notificationPreferences);
+});
+
+describe("webhook URLs", () => {
+  it.each([
+    "http://localhost:8080/hook",
+    "http://api.localhost/hook",
+    "http://127.0.0.1/hook",
+    "http://169.254.169.254/latest/meta-data/",
+    "http://10.0.0.5/hook",
+    "http://172.16.1.1/hook",
+    "http://192.168.1.10/hook",
+    "http://[::1]/hook",
+    "http://[::ffff:127.0.0.1]/hook",
+    "http://[fd00::1]/hook",
+  ])("refuses %s", async (webhookUrl) => {
+    const error = await rejection(saveNotificationPreferences(WALLET, { webhookUrl }));
+    expect(error.status).toBe(400);
+  });
+
+  it("accepts a public address", async () => {
+    const saved = await saveNotificationPreferences(WALLET, { webhookUrl: "https://93.184.216.34/hook" });
+    expect(saved.webhookUrl).toBe("https://93.184.216.34/hook");
+    expect(saved.webhookSecret).toMatch(/^[0-9a-f]{64}$/);
+  });
+
+  it("won't deliver to a private address saved before the check, and reports a generic failure", async () => {
+    const received: string[] = [];
+    const server = http.createServer((req, res) => {
+      received.push(req.url ?? "");
+      res.writeHead(500, "internal credentials: hunter2").end();
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    const { port } = server.address() as AddressInfo;
+
+    try {
+      await db.insert(notificationPreferences).values({
+        walletAddress: WALLET,
+        webhookUrl: `http://127.0.0.1:${port}/hook`,
+        webhookSecret: "a".repeat(64),
+      });
+
+      expect(await sendTestNotification("testnet", WALLET)).toEqual({ webhook: "failed" });
+      expect(received).toEqual([]);
+    } finally {
+      await new Promise((resolve) => server.close(resolve));
+    }
+  });
+});
+
+describe("email confirmation", () => {
+  const claiming = (dedupeKey: string) => ({
+    network: "testnet" as const,
+    walletAddress: WALLET,
+    type: NOTIFICATION_TYPES.POLL_CLAIMING,
+    dedupeKey,
+    title: "Rewards ready",
+    body: "Claim them",
+  });
+
+  const queuedChannels = async () => (await db.select().from(notificationDeliveries)).map((d) => d.channel);
+
+  it("sends a link and only emails the address once it is followed", async () => {
+    const saved = await saveNotificationPreferences(WALLET, {
+      channels: { [NOTIFICATION_TYPES.POLL_CLAIMING]: ["in_app", "email"] },
+      email: "voter@example.com",
+    });
+    expect(saved.emailConfirmedAt).toBeNull();
+    expect(recipients()).toEqual(["voter@example.com"]);
+    expect(inbox[0].subject).toMatch(/confirm/i);
+    expect(inbox[0].text).toContain("https://mvpulse.test/settings?confirmEmail=");
+
+    await notify([claiming("before")]);
+    expect(await queuedChannels()).toEqual([]);
+    expect(await sendTestNotification("testnet", WALLET)).toEqual({});
+    expect(inbox).toHaveLength(1);
+
+    const confirmed = await confirmNotificationEmail(sentToken());
+    expect(confirmed.emailConfirmedAt).toBeInstanceOf(Date);
+    expect(confirmed.emailConfirmTokenHash).toBeNull();
+
+    // notify dispatches due deliveries in the background
+    await notify([claiming("after")]);
+    expect(await queuedChannels()).toEqual(["email"]);
+    await vi.waitFor(() => expect(inbox).toHaveLength(2));
+    expect(recipients()).toEqual(["voter@example.com", "voter@example.com"]);
+    expect(inbox[1].subject).toBe("Rewards ready");
+    expect(inbox[1].text?.trim()).toBe("Claim them");
+
+    expect(await sendTestNotification("testnet", WALLET)).toEqual({ email: "sent" });
+    expect(inbox).toHaveLength(3);
+  });
+
+  it("won't send a queued email once the address is no longer confirmed", async () => {
+    await saveNotificationPreferences(WALLET, {
+      channels: { [NOTIFICATION_TYPES.POLL_CLAIMING]: ["in_app", "email"] },
+      email: "voter@example.com",
+    });
+    await confirmNotificationEmail(sentToken());
+    await notify([{ ...claiming("queued"), notifyAt: new Date(Date.now() + 60 * 60 * 1000) }]);
+
+    await saveNotificationPreferences(WALLET, { email: "new@example.com" });
+    inbox.length = 0;
+    await db.update(notificationDeliveries).set({ nextAttemptAt: new Date() });
+
+    expect(await dispatchDueDeliveries()).toBe(0);
+    expect(inbox).toEqual([]);
+    const [delivery] = await db.select().from(notificationDeliveries);
+    expect(delivery.lastError).toBe("Email address is not confirmed");
+  });
+
+  it("rejects unknown, reused and expired links", async () => {
+    await rejection(confirmNotificationEmail("f".repeat(64)));
+    await rejection(confirmNotificationEmail("not-a-token"));
+
+    await saveNotificationPreferences(WALLET, { email: "voter@example.com" });
+    const token = sentToken();
+    await confirmNotificationEmail(token);
+    await rejection(confirmNotificationEmail(token));
+
+    await saveNotificationPreferences(WALLET, { email: "other@example.com" });
+    await db.update(notificationPreferences).set({ emailConfirmExpiresAt: new Date(Date.now() - 1000) });
+    const error = await rejection(confirmNotificationEmail(sentToken()));
+    expect(error.message).toMatch(/expired/);
+  });
+
+  it("requires confirming again after the address changes", async () => {
+    await saveNotificationPreferences(WALLET, { email: "voter@example.com" });
+    await confirmNotificationEmail(sentToken());
+
+    const unchanged = await saveNotificationPreferences(WALLET, { email: "voter@example.com" });
+    expect(unchanged.emailConfirmedAt).toBeInstanceOf(Date);
+    expect(inbox).toHaveLength(1);
+
+    const changed = await saveNotificationPreferences(WALLET, { email: "new@example.com" });
+    expect(changed.emailConfirmedAt).toBeNull();
+    expect(recipients()).toEqual(["voter@example.com", "new@example.com"]);
+  });
+});
+
+afterAll(async () => {
+  await new Promise<void>((resolve) => smtp.close(resolve));
+  delete process.env.SMTP_URL;
+  delete process.env.APP_URL;
+});
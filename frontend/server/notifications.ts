@@ -0,0 +1,924 @@
+/**
+ * Notification center
+ * Triggers (poll indexer, claim deadline watcher, stake unlock sync, season
+ * lifecycle) call notify(), which stores one row per wallet and event and
+ * queues email and webhook deliveries according to the wallet's preferences.
+ * A background worker sends due deliveries with retries and ingests staking
+ * events to schedule unlock notices.
+ *
+ * Email goes out over SMTP (SMTP_URL, or SMTP_HOST/SMTP_PORT/SMTP_USER/SMTP_PASS);
+ * point it at a local sink such as MailHog to try it out. An address only
+ * receives notifications after its owner follows the confirmation link sent
+ * when it is saved. Webhooks are POSTed as JSON with an
+ * X-MVPulse-Signature: t=<unix>,v1=<hex hmac-sha256 of "<t>.<body>"> header
+ * keyed by the wallet's webhook secret, and only to hosts that resolve to
+ * public addresses.
+ */
+
+import { createHash, createHmac, randomBytes } from "crypto";
+import dns from "dns";
+import http from "http";
+import https from "https";
+import { BlockList, isIP, type LookupFunction } from "net";
+import nodemailer, { type Transporter } from "nodemailer";
+import { and, asc, desc, eq, gt, inArray, isNull, like, lte, sql } from "drizzle-orm";
+import { db } from "./db";
+import {
+  indexerCursors,
+  notifications,
+  notificationDeliveries,
+  notificationPreferences,
+  DEFAULT_NOTIFICATION_CHANNELS,
+  NOTIFICATION_CHANNELS,
+  NOTIFICATION_DELIVERY_STATUS,
+  NOTIFICATION_TYPES,
+  formatUnits,
+  toAmount,
+  type Notification,
+  type NotificationChannel,
+  type NotificationPreferences,
+  type NotificationType,
+  type IndexedPoll,
+  type Season,
+  type UserSeasonSnapshot,
+} from "@shared/schema";
+import {
+  getIndexerUrl,
+  getStakingContractAddress,
+  normalizeAddress,
+  type NetworkType,
+} from "./movement";
+
+// ============================================
+// Types
+// ============================================
+
+export class NotificationError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.status = status;
+  }
+}
+
+export interface NotificationInput {
+  network: NetworkType;
+  walletAddress: string;
+  type: NotificationType;
+  dedupeKey: string;
+  title: string;
+  body: string;
+  link?: string;
+  data?: Record<string, string | number>;
+  notifyAt?: Date;
+}
+
+export interface NotificationPreferencesInput {
+  channels?: unknown;
+  email?: unknown;
+  webhookUrl?: unknown;
+  rotateWebhookSecret?: boolean;
+  resendEmailConfirmation?: boolean;
+}
+
+/**
+ * Preferences as shown to their wallet (without the confirmation token hash)
+ */
+export type NotificationPreferencesView = Omit<
+  NotificationPreferences,
+  "emailConfirmTokenHash" | "emailConfirmExpiresAt"
+>;
+
+const MAX_DELIVERY_ATTEMPTS = 5;
+const DELIVERY_BATCH_SIZE = 50;
+const WEBHOOK_TIMEOUT_MS = 10000;
+const STAKE_EVENT_PAGE_SIZE = 100;
+const DEFAULT_INTERVAL_MS = 60000;
+const POLL_STATUS_CLAIMING = 2;
+const EMAIL_CONFIRM_TTL_MS = 24 * 60 * 60 * 1000;
+
+const ALL_TYPES = Object.values(NOTIFICATION_TYPES) as NotificationType[];
+const ALL_CHANNELS = Object.values(NOTIFICATION_CHANNELS) as NotificationChannel[];
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// ============================================
+// Preferences
+// ============================================
+
+function defaultPreferences(walletAddress: string): NotificationPreferences {
+  return {
+    walletAddress,
+    channels: DEFAULT_NOTIFICATION_CHANNELS,
+    email: null,
+    emailConfirmedAt: null,
+    emailConfirmTokenHash: null,
+    emailConfirmExpiresAt: null,
+    webhookUrl: null,
+    webhookSecret: null,
+    updatedAt: new Date(0),
+  };
+}
+
+/**
+ * A wallet's preferences, or the defaults when it hasn't saved any
+ */
+export async function getNotificationPreferences(walletAddress: string): Promise<NotificationPreferences> {
+  const wallet = normalizeAddress(walletAddress);
+  const [stored] = await db
+    .select()
+    .from(notificationPreferences)
+    .where(eq(notificationPreferences.walletAddress, wallet))
+    .limit(1);
+
+  return stored
+    ? { ...stored, channels: { ...DEFAULT_NOTIFICATION_CHANNELS, ...stored.channels } }
+    : defaultPreferences(wallet);
+}
+
+function normalizeChannels(value: unknown): Record<NotificationType, NotificationChannel[]> {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    throw new NotificationError(400, "channels must map notification types to channel lists");
+  }
+
+  const channels = { ...DEFAULT_NOTIFICATION_CHANNELS };
+  for (const [type, list] of Object.entries(value)) {
+    if (!(ALL_TYPES as string[]).includes(type)) {
+      throw new NotificationError(400, `Unknown notification type "${type}"`);
+    }
+    if (!Array.isArray(list) || list.some((channel) => !(ALL_CHANNELS as string[]).includes(channel))) {
+      throw new NotificationError(400, `channels.${type} must be a list of: ${ALL_CHANNELS.join(", ")}`);
+    }
+    channels[type as NotificationType] = Array.from(new Set(list as NotificationChannel[]));
+  }
+  return channels;
+}
+
+/**
+ * Strip the confirmation token fields before preferences leave the server
+ */
+export function toPreferencesView(prefs: NotificationPreferences): NotificationPreferencesView {
+  const { emailConfirmTokenHash, emailConfirmExpiresAt, ...view } = prefs;
+  return view;
+}
+
+// Loopback, private, link-local (incl. the 169.254.169.254 metadata service),
+// carrier-grade NAT, benchmarking, multicast and reserved ranges. BlockList
+// applies the IPv4 rules to IPv4-mapped IPv6 addresses as well.
+const BLOCKED_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["224.0.0.0", 4],
+  ["240.0.0.0", 4],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+  ["::", 128],
+  ["::1", 128],
+  ["64:ff9b::", 96],
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, "ipv6");
+}
+
+function isBlockedAddress(address: string): boolean {
+  const family = isIP(address);
+  if (family === 0) return true;
+  return BLOCKED_ADDRESSES.check(address, family === 4 ? "ipv4" : "ipv6");
+}
+
+/**
+ * Refuse webhook hosts that are, or resolve to, non-public addresses
+ */
+async function assertPublicHost(hostname: string): Promise<void> {
+  const host = hostname.replace(/^\[|\]$/g, "").toLowerCase();
+  if (host === "localhost" || host.endsWith(".localhost")) {
+    throw new NotificationError(400, "webhookUrl must point to a public host");
+  }
+
+  let addresses: string[];
+  if (isIP(host)) {
+    addresses = [host];
+  } else {
+    try {
+      addresses = (await dns.promises.lookup(host, { all: true })).map((entry) => entry.address);
+    } catch {
+      throw new NotificationError(400, `webhookUrl host ${host} does not resolve`);
+    }
+  }
+
+  if (addresses.length === 0 || addresses.some(isBlockedAddress)) {
+    throw new NotificationError(400, "webhookUrl must point to a public host");
+  }
+}
+
+/**
+ * DNS lookup for webhook requests that fails on non-public addresses, so a
+ * host can't pass the check at save time and rebind to an internal one later
+ */
+const publicLookup: LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) return callback(error, "");
+    if (addresses.length === 0 || addresses.some((entry) => isBlockedAddress(entry.address))) {
+      return callback(new Error(`Webhook host ${hostname} resolves to a non-public address`), "");
+    }
+    if (options.all) return callback(null, addresses);
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+};
+
+async function normalizeWebhookUrl(value: unknown): Promise<string | null> {
+  if (value === null || value === "") return null;
+  if (typeof value !== "string" || value.length > 500) {
+    throw new NotificationError(400, "webhookUrl must be a URL");
+  }
+
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    throw new NotificationError(400, "webhookUrl must be a URL");
+  }
+
+  // Plain http is only accepted outside production
+  const allowed = process.env.NODE_ENV === "production" ? ["https:"] : ["https:", "http:"];
+  if (!allowed.includes(url.protocol)) {
+    throw new NotificationError(400, `webhookUrl must use ${allowed.join(" or ").replace(/:/g, "")}`);
+  }
+  if (url.username || url.password) {
+    throw new NotificationError(400, "webhookUrl must not contain credentials");
+  }
+  await assertPublicHost(url.hostname);
+  return url.toString();
+}
+
+function hashConfirmToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+async function sendEmailConfirmation(to: string, token: string): Promise<void> {
+  const transport = getMailTransport();
+  if (!transport) throw new Error("SMTP is not configured");
+
+  const link = absoluteLink(`/settings?confirmEmail=${token}`);
+  await transport.sendMail({
+    from: process.env.NOTIFICATION_EMAIL_FROM || "MVPulse <notifications@mvpulse.local>",
+    to,
+    subject: "Confirm your MVPulse notification email",
+    text: `Follow this link within 24 hours to start receiving MVPulse notifications at this address:\n\n${link}\n\nIf you didn't ask for this, ignore this email.`,
+  });
+}
+
+/**
+ * Validate and store a wallet's preferences
+ * A webhook secret is generated the first time a webhook URL is set. A new
+ * email address (or resendEmailConfirmation) sends a confirmation link; email
+ * deliveries stay off until it is followed.
+ */
+export async function saveNotificationPreferences(
+  walletAddress: string,
+  input: NotificationPreferencesInput
+): Promise<NotificationPreferences> {
+  const current = await getNotificationPreferences(walletAddress);
+
+  let email = current.email;
+  if (input.email !== undefined) {
+    if (input.email === null || input.email === "") {
+      email = null;
+    } else if (typeof input.email !== "string" || input.email.length > 254 || !EMAIL_PATTERN.test(input.email)) {
+      throw new NotificationError(400, "email must be an email address");
+    } else {
+      email = input.email.trim();
+    }
+  }
+
+  const emailChanged = email !== current.email;
+  if (input.resendEmailConfirmation && (!email || (current.emailConfirmedAt && !emailChanged))) {
+    throw new NotificationError(400, "There is no unconfirmed email address to confirm");
+  }
+  const sendConfirmation = email !== null && (emailChanged || input.resendEmailConfirmation === true);
+  if (sendConfirmation && !getMailTransport()) {
+    throw new NotificationError(503, "Email notifications are not available on this server");
+  }
+  const confirmToken = sendConfirmation ? randomBytes(32).toString("hex") : null;
+
+  const webhookUrl = input.webhookUrl !== undefined ? await normalizeWebhookUrl(input.webhookUrl) : current.webhookUrl;
+  const webhookSecret = webhookUrl && (!current.webhookSecret || input.rotateWebhookSecret)
+    ? randomBytes(32).toString("hex")
+    : current.webhookSecret;
+
+  const values = {
+    channels: input.channels !== undefined ? normalizeChannels(input.channels) : current.channels,
+    email,
+    emailConfirmedAt: emailChanged ? null : current.emailConfirmedAt,
+    emailConfirmTokenHash: confirmToken ? hashConfirmToken(confirmToken) : emailChanged ? null : current.emailConfirmTokenHash,
+    emailConfirmExpiresAt: confirmToken
+      ? new Date(Date.now() + EMAIL_CONFIRM_TTL_MS)
+      : emailChanged ? null : current.emailConfirmExpiresAt,
+    webhookUrl,
+    webhookSecret,
+    updatedAt: new Date(),
+  };
+
+  const [saved] = await db
+    .insert(notificationPreferences)
+    .values({ walletAddress: current.walletAddress, ...values })
+    .onConflictDoUpdate({ target: notificationPreferences.walletAddress, set: values })
+    .returning();
+
+  if (confirmToken) {
+    try {
+      await sendEmailConfirmation(saved.email!, confirmToken);
+    } catch (error) {
+      console.error("Error sending email confirmation:", error);
+      throw new NotificationError(502, "Settings saved, but the confirmation email could not be sent; try resending it");
+    }
+  }
+
+  return saved;
+}
+
+/**
+ * Confirm the email address a confirmation link was sent to
+ * The link token alone identifies the wallet, so this works from any browser.
+ */
+export async function confirmNotificationEmail(token: unknown): Promise<NotificationPreferences> {
+  if (typeof token !== "string" || !/^[0-9a-f]{64}$/.test(token)) {
+    throw new NotificationError(400, "Invalid confirmation link");
+  }
+
+  const [confirmed] = await db
+    .update(notificationPreferences)
+    .set({ emailConfirmedAt: new Date(), emailConfirmTokenHash: null, emailConfirmExpiresAt: null })
+    .where(and(
+      eq(notificationPreferences.emailConfirmTokenHash, hashConfirmToken(token)),
+      gt(notificationPreferences.emailConfirmExpiresAt, new Date())
+    ))
+    .returning();
+
+  if (!confirmed) {
+    throw new NotificationError(400, "This confirmation link is invalid or has expired");
+  }
+  return confirmed;
+}
+
+// ============================================
+// Creating Notifications
+// ============================================
+
+/**
+ * Store notifications and queue their email/webhook deliveries
+ * Inputs already stored under the same dedupe key are skipped, so triggers can
+ * fire more than once. Returns the number of new notifications.
+ */
+export async function notify(inputs: NotificationInput[]): Promise<number> {
+  if (inputs.length === 0) return 0;
+
+  const wallets = Array.from(new Set(inputs.map((input) => normalizeAddress(input.walletAddress))));
+  const stored = await db
+    .select()
+    .from(notificationPreferences)
+    .where(inArray(notificationPreferences.walletAddress, wallets));
+  const preferences = new Map(stored.map((row) => [row.walletAddress, row]));
+  const emailEnabled = getMailTransport() !== null;
+
+  let created = 0;
+  for (const input of inputs) {
+    const wallet = normalizeAddress(input.walletAddress);
+    const prefs = preferences.get(wallet) ?? defaultPreferences(wallet);
+    const channels = prefs.channels[input.type] ?? DEFAULT_NOTIFICATION_CHANNELS[input.type];
+
+    const targets: { channel: NotificationChannel; target: string }[] = [];
+    if (channels.includes(NOTIFICATION_CHANNELS.EMAIL) && prefs.email && prefs.emailConfirmedAt && emailEnabled) {
+      targets.push({ channel: NOTIFICATION_CHANNELS.EMAIL, target: prefs.email });
+    }
+    if (channels.includes(NOTIFICATION_CHANNELS.WEBHOOK) && prefs.webhookUrl) {
+      targets.push({ channel: NOTIFICATION_CHANNELS.WEBHOOK, target: prefs.webhookUrl });
+    }
+    const inApp = channels.includes(NOTIFICATION_CHANNELS.IN_APP);
+    if (!inApp && targets.length === 0) continue;
+
+    const notifyAt = input.notifyAt ?? new Date();
+    const [notification] = await db
+      .insert(notifications)
+      .values({
+        network: input.network,
+        walletAddress: wallet,
+        type: input.type,
+        dedupeKey: input.dedupeKey,
+        title: input.title,
+        body: input.body,
+        link: input.link ?? null,
+        data: input.data ?? {},
+        inApp,
+        notifyAt,
+      })
+      .onConflictDoNothing()
+      .returning({ id: notifications.id });
+
+    if (!notification) continue;
+    created++;
+
+    if (targets.length > 0) {
+      await db.insert(notificationDeliveries).values(
+        targets.map((target) => ({ notificationId: notification.id, ...target, nextAttemptAt: notifyAt }))
+      );
+    }
+  }
+
+  if (created > 0) void dispatchDueDeliveries();
+  return created;
+}
+
+/**
+ * Drop scheduled notifications that haven't come due yet (e.g. a claim
+ * reminder after the reward was claimed). keyPattern is a SQL LIKE pattern.
+ */
+export async function cancelScheduledNotifications(
+  network: NetworkType,
+  keyPattern: string,
+  walletAddress?: string
+): Promise<void> {
+  const cancelled = await db
+    .delete(notifications)
+    .where(and(
+      eq(notifications.network, network),
+      like(notifications.dedupeKey, keyPattern),
+      gt(notifications.notifyAt, new Date()),
+      walletAddress ? eq(notifications.walletAddress, normalizeAddress(walletAddress)) : undefined
+    ))
+    .returning({ id: notifications.id });
+
+  if (cancelled.length > 0) {
+    await db
+      .delete(notificationDeliveries)
+      .where(inArray(notificationDeliveries.notificationId, cancelled.map((row) => row.id)));
+  }
+}
+
+// ============================================
+// Reading Notifications
+// ============================================
+
+/**
+ * A wallet's due in-app notifications on a network, newest first
+ */
+export async function getNotifications(
+  network: NetworkType,
+  walletAddress: string,
+  limit: number
+): Promise<{ items: Notification[]; unreadCount: number }> {
+  const visible = and(
+    eq(notifications.network, network),
+    eq(notifications.walletAddress, normalizeAddress(walletAddress)),
+    eq(notifications.inApp, true),
+    lte(notifications.notifyAt, new Date())
+  );
+
+  const [items, [unread]] = await Promise.all([
+    db.select().from(notifications).where(visible).orderBy(desc(notifications.notifyAt)).limit(limit),
+    db.select({ count: sql<number>`count(*)` }).from(notifications).where(and(visible, isNull(notifications.readAt))),
+  ]);
+
+  return { items, unreadCount: Number(unread?.count ?? 0) };
+}
+
+/**
+ * Mark some (or, without ids, all) of a wallet's notifications read
+ */
+export async function markNotificationsRead(
+  network: NetworkType,
+  walletAddress: string,
+  ids?: string[]
+): Promise<number> {
+  const updated = await db
+    .update(notifications)
+    .set({ readAt: new Date() })
+    .where(and(
+      eq(notifications.network, network),
+      eq(notifications.walletAddress, normalizeAddress(walletAddress)),
+      isNull(notifications.readAt),
+      lte(notifications.notifyAt, new Date()),
+      ids ? inArray(notifications.id, ids) : undefined
+    ))
+    .returning({ id: notifications.id });
+
+  return updated.length;
+}
+
+// ============================================
+// Delivery
+// ============================================
+
+let mailTransport: Transporter | null | undefined;
+
+function getMailTransport(): Transporter | null {
+  if (mailTransport !== undefined) return mailTransport;
+
+  if (process.env.SMTP_URL) {
+    mailTransport = nodemailer.createTransport(process.env.SMTP_URL);
+  } else if (process.env.SMTP_HOST) {
+    const port = parseInt(process.env.SMTP_PORT ?? "587", 10);
+    mailTransport = nodemailer.createTransport({
+      host: process.env.SMTP_HOST,
+      port,
+      secure: process.env.SMTP_SECURE ? process.env.SMTP_SECURE === "true" : port === 465,
+      auth: process.env.SMTP_USER ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS } : undefined,
+    });
+  } else {
+    mailTransport = null;
+  }
+  return mailTransport;
+}
+
+function absoluteLink(link: string | null): string | null {
+  if (!link) return null;
+  return process.env.APP_URL ? new URL(link, process.env.APP_URL).toString() : link;
+}
+
+async function sendEmail(to: string, notification: Notification): Promise<void> {
+  const transport = getMailTransport();
+  if (!transport) throw new Error("SMTP is not configured");
+
+  const link = absoluteLink(notification.link);
+  await transport.sendMail({
+    from: process.env.NOTIFICATION_EMAIL_FROM || "MVPulse <notifications@mvpulse.local>",
+    to,
+    subject: notification.title,
+    text: link ? `${notification.body}\n\n${link}` : notification.body,
+  });
+}
+
+/**
+ * Header value proving a webhook body came from this server
+ */
+export function signWebhookBody(secret: string, body: string, timestamp: number): string {
+  const signature = createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+  return `t=${timestamp},v1=${signature}`;
+}
+
+async function sendWebhook(url: string, secret: string, notification: Notification): Promise<void> {
+  const body = JSON.stringify({
+    id: notification.id,
+    type: notification.type,
+    network: notification.network,
+    walletAddress: notification.walletAddress,
+    title: notification.title,
+    body: notification.body,
+    link: absoluteLink(notification.link),
+    data: notification.data,
+    createdAt: notification.notifyAt.toISOString(),
+  });
+
+  // Re-checked on every delivery: IP literals skip the lookup below, and rows
+  // saved before the check existed are still queued
+  const target = new URL(url);
+  await assertPublicHost(target.hostname);
+
+  // Redirects aren't followed, so the checked host is the only one contacted
+  await new Promise<void>((resolve, reject) => {
+    const request = (target.protocol === "https:" ? https : http).request(
+      target,
+      {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "Content-Length": Buffer.byteLength(body),
+          "X-MVPulse-Event": notification.type,
+          "X-MVPulse-Signature": signWebhookBody(secret, body, Math.floor(Date.now() / 1000)),
+        },
+        lookup: publicLookup,
+        timeout: WEBHOOK_TIMEOUT_MS,
+      },
+      (response) => {
+        response.resume();
+        const status = response.statusCode ?? 0;
+        if (status >= 200 && status < 300) {
+          resolve();
+        } else {
+          reject(new Error(`Webhook responded ${status} ${response.statusMessage ?? ""}`.trim()));
+        }
+      }
+    );
+    request.on("timeout", () => request.destroy(new Error("Webhook timed out")));
+    request.on("error", reject);
+    request.end(body);
+  });
+}
+
+let dispatchInProgress = false;
+
+/**
+ * Send deliveries that are due, backing off exponentially between attempts
+ */
+export async function dispatchDueDeliveries(): Promise<number> {
+  if (dispatchInProgress) return 0;
+  dispatchInProgress = true;
+
+  let sent = 0;
+  try {
+    const due = await db
+      .select({ delivery: notificationDeliveries, notification: notifications, prefs: notificationPreferences })
+      .from(notificationDeliveries)
+      .innerJoin(notifications, eq(notifications.id, notificationDeliveries.notificationId))
+      .leftJoin(notificationPreferences, eq(notificationPreferences.walletAddress, notifications.walletAddress))
+      .where(and(
+        eq(notificationDeliveries.status, NOTIFICATION_DELIVERY_STATUS.PENDING),
+        lte(notificationDeliveries.nextAttemptAt, new Date())
+      ))
+      .orderBy(asc(notificationDeliveries.nextAttemptAt))
+      .limit(DELIVERY_BATCH_SIZE);
+
+    for (const { delivery, notification, prefs } of due) {
+      const attempts = delivery.attempts + 1;
+      try {
+        if (delivery.channel === NOTIFICATION_CHANNELS.EMAIL) {
+          if (!prefs?.emailConfirmedAt || prefs.email !== delivery.target) {
+            throw new Error("Email address is not confirmed");
+          }
+          await sendEmail(delivery.target, notification);
+        } else {
+          if (!prefs?.webhookSecret) throw new Error("Webhook secret missing");
+          await sendWebhook(delivery.target, prefs.webhookSecret, notification);
+        }
+
+        await db
+          .update(notificationDeliveries)
+          .set({ status: NOTIFICATION_DELIVERY_STATUS.SENT, attempts, lastError: null, sentAt: new Date() })
+          .where(eq(notificationDeliveries.id, delivery.id));
+        sent++;
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        await db
+          .update(notificationDeliveries)
+          .set({
+            status: attempts >= MAX_DELIVERY_ATTEMPTS ? NOTIFICATION_DELIVERY_STATUS.FAILED : NOTIFICATION_DELIVERY_STATUS.PENDING,
+            attempts,
+            lastError: message.slice(0, 1000),
+            nextAttemptAt: new Date(Date.now() + 2 ** attempts * 60 * 1000),
+          })
+          .where(eq(notificationDeliveries.id, delivery.id));
+      }
+    }
+  } finally {
+    dispatchInProgress = false;
+  }
+
+  return sent;
+}
+
+/**
+ * Send a sample notification straight to the wallet's confirmed email and webhook
+ * Returns each channel's outcome, "sent" or "failed"; the cause is only logged,
+ * since it can describe whatever the webhook host answered.
+ */
+export async function sendTestNotification(
+  network: NetworkType,
+  walletAddress: string
+): Promise<Partial<Record<NotificationChannel, string>>> {
+  const prefs = await getNotificationPreferences(walletAddress);
+  const sample: Notification = {
+    id: "test",
+    network,
+    walletAddress: prefs.walletAddress,
+    type: NOTIFICATION_TYPES.POLL_CLAIMING,
+    dedupeKey: "test",
+    title: "Test notification",
+    body: "Notifications from MVPulse will look like this.",
+    link: "/settings",
+    data: {},
+    inApp: false,
+    notifyAt: new Date(),
+    readAt: null,
+    createdAt: new Date(),
+  };
+
+  const results: Partial<Record<NotificationChannel, string>> = {};
+  const attempt = async (channel: NotificationChannel, send: () => Promise<void>) => {
+    try {
+      await send();
+      results[channel] = "sent";
+    } catch (error) {
+      console.error(`Test ${channel} notification failed:`, error);
+      results[channel] = "failed";
+    }
+  };
+
+  if (prefs.email && prefs.emailConfirmedAt) await attempt(NOTIFICATION_CHANNELS.EMAIL, () => sendEmail(prefs.email!, sample));
+  if (prefs.webhookUrl && prefs.webhookSecret) {
+    await attempt(NOTIFICATION_CHANNELS.WEBHOOK, () => sendWebhook(prefs.webhookUrl!, prefs.webhookSecret!, sample));
+  }
+  return results;
+}
+
+// ============================================
+// Triggers
+// ============================================
+
+/**
+ * A poll entered CLAIMING: tell voters who haven't claimed
+ * claimDeadline is when the claim window ends (see claim-deadlines.ts), if known;
+ * the reminder before it is scheduled by the claim deadline watcher.
+ */
+export async function notifyPollClaiming(
+  network: NetworkType,
+  poll: IndexedPoll,
+  claimDeadline: Date | null
+): Promise<void> {
+  if (poll.status !== POLL_STATUS_CLAIMING) return;
+
+  const claimed = new Set(poll.claimed);
+  const voters = poll.voters.filter((voter) => !claimed.has(voter));
+  if (voters.length === 0) return;
+
+  await notify(voters.map((voter) => ({
+    network,
+    walletAddress: voter,
+    type: NOTIFICATION_TYPES.POLL_CLAIMING,
+    dedupeKey: `poll_claiming:${poll.pollId}`,
+    title: "Rewards ready to claim",
+    body: claimDeadline
+      ? `"${poll.title}" is open for claims until ${claimDeadline.toUTCString()}.`
+      : `"${poll.title}" is open for claims.`,
+    link: `/poll/${poll.pollId}`,
+    data: { pollId: poll.pollId, ...(claimDeadline ? { claimDeadline: claimDeadline.toISOString() } : {}) },
+  })));
+}
+
+/**
+ * A season ended: every wallet with a snapshot can see its final standing
+ */
+export async function notifySeasonEnded(season: Season, snapshots: UserSeasonSnapshot[]): Promise<void> {
+  await notify(snapshots.map((snapshot) => ({
+    network: season.network as NetworkType,
+    walletAddress: snapshot.walletAddress,
+    type: NOTIFICATION_TYPES.SEASON_ENDED,
+    dedupeKey: `season_ended:${season.id}`,
+    title: `${season.name} has ended`,
+    body: `You finished #${snapshot.finalRank} with ${snapshot.totalPoints} points. Your season snapshot reward is ready to claim once it's distributed.`,
+    link: "/leaderboard",
+    data: { seasonId: season.id, rank: snapshot.finalRank, points: snapshot.totalPoints },
+  })));
+}
+
+const STAKE_EVENTS_QUERY = `
+  query GetStakeEvents($eventTypes: [String!]!, $fromVersion: bigint!, $limit: Int!) {
+    events(
+      where: {
+        indexed_type: { _in: $eventTypes },
+        transaction_version: { _gte: $fromVersion }
+      },
+      order_by: [{ transaction_version: asc }, { event_index: asc }],
+      limit: $limit
+    ) {
+      type
+      data
+      transaction_version
+      event_index
+    }
+  }
+`;
+
+interface StakeEventRow {
+  type: string;
+  data: Record<string, unknown>;
+  transaction_version: string | number;
+  event_index: number;
+}
+
+/**
+ * Schedule an unlock notice for every new stake and drop it when the position
+ * is unstaked early. Follows Staked/Unstaked events from a stored cursor.
+ */
+export async function syncStakeUnlocks(network: NetworkType): Promise<number> {
+  const contract = getStakingContractAddress(network);
+  if (!contract) return 0;
+
+  const cursorName = `stake-notifications:${network}`;
+  const [cursor] = await db.select().from(indexerCursors).where(eq(indexerCursors.name, cursorName)).limit(1);
+  let lastVersion = cursor?.lastVersion ?? "0";
+  let lastEventIndex = cursor?.lastEventIndex ?? -1;
+  let processed = 0;
+
+  while (true) {
+    const response = await fetch(getIndexerUrl(network), {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        query: STAKE_EVENTS_QUERY,
+        variables: {
+          eventTypes: [`${contract}::staking::Staked`, `${contract}::staking::Unstaked`],
+          fromVersion: lastVersion,
+          limit: STAKE_EVENT_PAGE_SIZE,
+        },
+      }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Indexer request failed: ${response.status} ${response.statusText}`);
+    }
+
+    const result: { data?: { events: StakeEventRow[] }; errors?: { message: string }[] } = await response.json();
+    if (result.errors) {
+      throw new Error(`Indexer query failed: ${result.errors.map((e) => e.message).join("; ")}`);
+    }
+
+    const page = result.data?.events ?? [];
+    const fresh = page.filter((event) => {
+      const version = BigInt(String(event.transaction_version));
+      const last = BigInt(lastVersion);
+      return version > last || (version === last && event.event_index > lastEventIndex);
+    });
+
+    for (const event of fresh) {
+      const staker = String(event.data.staker);
+      const position = String(event.data.position_index);
+
+      if (event.type.endsWith("::Staked")) {
+        const unlockAt = parseInt(String(event.data.unlock_at), 10);
+        // Stakes that unlocked before we started watching aren't news
+        if (unlockAt * 1000 > Date.now()) {
+          await notify([{
+            network,
+            walletAddress: staker,
+            type: NOTIFICATION_TYPES.STAKE_UNLOCKED,
+            dedupeKey: `stake_unlocked:${position}:${unlockAt}`,
+            title: "Stake unlocked",
+            body: `Your stake of ${formatUnits(toAmount(String(event.data.amount)), 8)} PULSE is unlocked and can be withdrawn.`,
+            link: "/staking",
+            data: { position, amount: String(event.data.amount) },
+            notifyAt: new Date(unlockAt * 1000),
+          }]);
+        }
+      } else {
+        await cancelScheduledNotifications(network, `stake_unlocked:${position}:%`, staker);
+      }
+
+      lastVersion = String(event.transaction_version);
+      lastEventIndex = event.event_index;
+    }
+
+    processed += fresh.length;
+    if (fresh.length > 0) {
+      await db
+        .insert(indexerCursors)
+        .values({ name: cursorName, lastVersion, lastEventIndex, updatedAt: new Date() })
+        .onConflictDoUpdate({
+          target: indexerCursors.name,
+          set: { lastVersion, lastEventIndex, updatedAt: new Date() },
+        });
+    }
+
+    if (page.length < STAKE_EVENT_PAGE_SIZE || fresh.length === 0) break;
+  }
+
+  return processed;
+}
+
+// ============================================
+// Background Job
+// ============================================
+
+/**
+ * Start the notification worker
+ * Interval comes from NOTIFICATION_INTERVAL_MS (default 60s, 0 disables)
+ */
+export function startNotificationWorker(log: (message: string, source?: string) => void): void {
+  const intervalMs = parseInt(process.env.NOTIFICATION_INTERVAL_MS ?? "", 10);
+  const interval = isNaN(intervalMs) ? DEFAULT_INTERVAL_MS : intervalMs;
+  if (interval <= 0) {
+    log("notification worker disabled", "notifications");
+    return;
+  }
+
+  const run = async () => {
+    for (const network of ["testnet", "mainnet"] as NetworkType[]) {
+      try {
+        await syncStakeUnlocks(network);
+      } catch (error) {
+        console.error(`Error syncing ${network} stake unlocks:`, error);
+      }
+    }
+
+    try {
+      const sent = await dispatchDueDeliveries();
+      if (sent > 0) log(`${sent} notifications delivered`, "notifications");
+    } catch (error) {
+      console.error("Error delivering notifications:", error);
+    }
+  };
+
+  run();
+  setInterval(run, interval).unref();
+}
@@ -0,0 +1,77 @@
+import path from "path";
+import { asc, eq } from "drizzle-orm";
+import { beforeAll, describe, expect, it, vi } from "vitest";
+import {
+  indexedPollClaims,
+  indexedPollOptions,
+  indexedPolls,
+  indexedPollVotes,
+  indexerCursors,
+} from "@shared/schema";
+
+vi.mock("./db", async () => ({ db: await (await import("./test-db")).createTestDb() }));
+
+const { db } = await import("./db");
+const { getPollChainSource, syncPolls } = await import("./poll-indexer");
+const { normalizeAddress } = await import("./movement");
+
+const FIXTURE = path.resolve(import.meta.dirname, "fixtures", "polls.testnet.json");
+
+describe("syncPolls over the recorded testnet fixture", () => {
+  beforeAll(() => {
+    process.env.POLL_INDEXER_FIXTURE = FIXTURE;
+  });
+
+  it("indexes every poll, vote and claim and advances the cursor", async () => {
+    const source = getPollChainSource("testnet");
+    expect(source).not.toBeNull();
+    expect(getPollChainSource("mainnet")).toBeNull();
+
+    const result = await syncPolls("testnet", source!);
+    expect(result).toEqual({ network: "testnet", eventsProcessed: 8, pollsRefreshed: 2 });
+
+    const polls = await db.select().from(indexedPolls).orderBy(asc(indexedPolls.pollId));
+    expect(polls.map((poll) => [poll.pollId, poll.status, poll.totalVotes, poll.rewardPool])).toEqual([
+      [0, 2, 3, "98000000"],
+      [1, 0, 1, "0"],
+    ]);
+    expect(polls[0].creator).toBe(normalizeAddress("0xa11ce"));
+    expect(polls[0].claimed).toEqual([normalizeAddress("0xb0b")]);
+
+    const options = await db
+      .select()
+      .from(indexedPollOptions)
+      .where(eq(indexedPollOptions.pollId, 0))
+      .orderBy(asc(indexedPollOptions.optionIndex));
+    expect(options.map((option) => [option.label, option.votes])).toEqual([
+      ["Mobile app", 2],
+      ["Questionnaires", 1],
+      ["Staking rewards", 0],
+    ]);
+
+    const votes = await db.select().from(indexedPollVotes).orderBy(asc(indexedPollVotes.txVersion));
+    expect(votes.map((vote) => [vote.pollId, vote.voter, vote.optionIndex, vote.txVersion])).toEqual([
+      [0, normalizeAddress("0xb0b"), 0, "1010"],
+      [1, normalizeAddress("0xa11ce"), 1, "1030"],
+      [0, normalizeAddress("0xca401"), 1, "1040"],
+      [0, normalizeAddress("0xda7e"), 0, "1050"],
+    ]);
+    expect(votes[0].votedAt?.toISOString()).toBe("2025-12-01T11:00:00.000Z");
+
+    const claims = await db.select().from(indexedPollClaims);
+    expect(claims.map((claim) => [claim.pollId, claim.claimer, claim.amount])).toEqual([
+      [0, normalizeAddress("0xb0b"), "10000000"],
+    ]);
+
+    const [cursor] = await db.select().from(indexerCursors).where(eq(indexerCursors.name, "poll:testnet"));
+    expect([cursor.lastVersion, cursor.lastEventIndex]).toEqual(["1070", 0]);
+  });
+
+  it("does nothing when re-run from the stored cursor", async () => {
+    const result = await syncPolls("testnet", getPollChainSource("testnet")!);
+    expect(result).toEqual({ network: "testnet", eventsProcessed: 0, pollsRefreshed: 0 });
+
+    const votes = await db.select().from(indexedPollVotes);
+    expect(votes).toHaveLength(4);
+  });
+});
@@ -0,0 +1,727 @@
+/**
+ * Poll indexer
+ * Mirrors on-chain polls into Postgres so clients can list and filter polls
+ * without one get_poll view call per poll. Each run ingests poll:: events after
+ * the stored cursor (votes, claims) and refreshes the view data of every poll
+ * those events touched, plus any poll ids the indexer hasn't seen yet.
+ *
+ * Chain data comes from a PollChainSource: the live source reads events from the
+ * GraphQL indexer and polls from the full node; the fixture source replays a
+ * recorded JSON file (POLL_INDEXER_FIXTURE) so the indexer can run offline.
+ */
+
+import { readFileSync } from "fs";
+import { and, eq, sql } from "drizzle-orm";
+import { db } from "./db";
+import {
+  indexedPolls,
+  indexedPollOptions,
+  indexedPollVotes,
+  indexedPollClaims,
+  indexedPollDistributions,
+  indexerCursors,
+  type AmountString,
+  type IndexedPoll,
+  type IndexedPollOption,
+} from "@shared/schema";
+import {
+  callViewFunction,
+  getIndexerUrl,
+  getPollContractAddress,
+  normalizeAddress,
+  type NetworkType,
+} from "./movement";
+import { hasLiveSubscribers, publishPollEvent } from "./live-updates";
+import { cancelScheduledNotifications, notifyPollClaiming } from "./notifications";
+import { getClaimDeadline } from "./claim-deadlines";
+
+// ============================================
+// Types
+// ============================================
+
+/**
+ * Poll struct as returned by the get_poll view (u64 fields arrive as strings)
+ */
+export interface ChainPoll {
+  id: string;
+  creator: string;
+  title: string;
+  description: string;
+  options: string[];
+  votes: string[];
+  voters: string[];
+  reward_per_vote: string;
+  reward_pool: string;
+  max_voters: string;
+  distribution_mode: number | string;
+  claimed: string[];
+  rewards_distributed: boolean;
+  end_time: string;
+  status: number | string;
+  coin_type_id: number | string;
+  closed_at: string;
+}
+
+export interface ChainEvent {
+  type: string; // e.g. "0x...::poll::VoteCast"
+  data: Record<string, unknown>;
+  transactionVersion: string;
+  eventIndex: number;
+  timestamp: string | null;
+}
+
+export interface PollChainSource {
+  getPollCount(): Promise<number>;
+  getPoll(pollId: number): Promise<ChainPoll | null>;
+  /** Events with transaction version >= fromVersion, oldest first */
+  getEvents(fromVersion: string, limit: number): Promise<ChainEvent[]>;
+}
+
+export interface SyncResult {
+  network: NetworkType;
+  eventsProcessed: number;
+  pollsRefreshed: number;
+}
+
+const EVENT_PAGE_SIZE = 100;
+const DEFAULT_INTERVAL_MS = 15000;
+const POLL_STATUS_CLAIMING = 2;
+const POLL_STATUS_FINALIZED = 3;
+
+/**
+ * API shape of an indexed poll, matching the contract's Poll struct
+ * u64 amounts are sent as strings, as the node's view functions do.
+ */
+export interface PollResponse {
+  id: number;
+  creator: string;
+  title: string;
+  description: string;
+  options: string[];
+  votes: number[];
+  voters: string[];
+  reward_per_vote: AmountString;
+  reward_pool: AmountString;
+  max_voters: number;
+  distribution_mode: number;
+  claimed: string[];
+  rewards_distributed: boolean;
+  end_time: number;
+  status: number;
+  coin_type_id: number;
+  closed_at: number;
+}
+
+// ============================================
+// Chain Sources
+// ============================================
+
+const POLL_EVENTS_QUERY = `
+  query GetPollEvents($eventTypePattern: String!, $fromVersion: bigint!, $limit: Int!) {
+    events(
+      where: {
+        indexed_type: { _like: $eventTypePattern },
+        transaction_version: { _gte: $fromVersion }
+      },
+      order_by: [{ transaction_version: asc }, { event_index: asc }],
+      limit: $limit
+    ) {
+      type
+      data
+      transaction_version
+      event_index
+      block_metadata_transaction {
+        timestamp
+      }
+    }
+  }
+`;
+
+interface IndexerEventRow {
+  type: string;
+  data: Record<string, unknown>;
+  transaction_version: string | number;
+  event_index: number;
+  block_metadata_transaction?: { timestamp: string } | null;
+}
+
+/**
+ * Live source: events from the GraphQL indexer, poll data from full node views
+ */
+export function createNodeSource(network: NetworkType, contractAddress: string): PollChainSource {
+  return {
+    async getPollCount() {
+      const [count] = await callViewFunction<[string]>(
+        network,
+        `${contractAddress}::poll::get_poll_count`,
+        [contractAddress]
+      );
+      return parseInt(count, 10);
+    },
+
+    async getPoll(pollId) {
+      const [poll] = await callViewFunction<[ChainPoll]>(
+        network,
+        `${contractAddress}::poll::get_poll`,
+        [contractAddress, pollId.toString()]
+      );
+      return poll ?? null;
+    },
+
+    async getEvents(fromVersion, limit) {
+      const response = await fetch(getIndexerUrl(network), {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          query: POLL_EVENTS_QUERY,
+          variables: {
+            eventTypePattern: `${contractAddress}::poll::%`,
+            fromVersion,
+            limit,
+          },
+        }),
+      });
+
+      if (!response.ok) {
+        throw new Error(`Indexer request failed: ${response.status} ${response.statusText}`);
+      }
+
+      const result: { data?: { events: IndexerEventRow[] }; errors?: { message: string }[] } =
+        await response.json();
+
+      if (result.errors) {
+        throw new Error(`Indexer query failed: ${result.errors.map((e) => e.message).join("; ")}`);
+      }
+
+      return (result.data?.events ?? []).map((event) => ({
+        type: event.type,
+        data: event.data,
+        transactionVersion: String(event.transaction_version),
+        eventIndex: event.event_index,
+        timestamp: event.block_metadata_transaction?.timestamp ?? null,
+      }));
+    },
+  };
+}
+
+/**
+ * Recorded chain state for offline runs
+ */
+export interface PollFixture {
+  network: NetworkType;
+  polls: ChainPoll[];
+  events: {
+    type: string;
+    data: Record<string, unknown>;
+    transaction_version: string;
+    event_index: number;
+    timestamp?: string | null;
+  }[];
+}
+
+/**
+ * Fixture source: replays a recorded PollFixture JSON file
+ */
+export function createFixtureSource(fixture: PollFixture): PollChainSource {
+  const events: ChainEvent[] = fixture.events
+    .map((event) => ({
+      type: event.type,
+      data: event.data,
+      transactionVersion: event.transaction_version,
+      eventIndex: event.event_index,
+      timestamp: event.timestamp ?? null,
+    }))
+    .sort((a, b) => compareEventPosition(a, b.transactionVersion, b.eventIndex));
+
+  return {
+    async getPollCount() {
+      return fixture.polls.length;
+    },
+
+    async getPoll(pollId) {
+      return fixture.polls.find((poll) => parseInt(poll.id, 10) === pollId) ?? null;
+    },
+
+    async getEvents(fromVersion, limit) {
+      return events
+        .filter((event) => BigInt(event.transactionVersion) >= BigInt(fromVersion))
+        .slice(0, limit);
+    },
+  };
+}
+
+export function loadPollFixture(path: string): PollFixture {
+  return JSON.parse(readFileSync(path, "utf8"));
+}
+
+/**
+ * Pick the chain source for a network
+ * Returns null when the network has no contract configured (and no fixture)
+ */
+export function getPollChainSource(network: NetworkType): PollChainSource | null {
+  const fixturePath = process.env.POLL_INDEXER_FIXTURE;
+  if (fixturePath) {
+    const fixture = loadPollFixture(fixturePath);
+    return fixture.network === network ? createFixtureSource(fixture) : null;
+  }
+
+  const contractAddress = getPollContractAddress(network);
+  return contractAddress ? createNodeSource(network, contractAddress) : null;
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+function compareEventPosition(event: ChainEvent, version: string, eventIndex: number): number {
+  const a = BigInt(event.transactionVersion);
+  const b = BigInt(version);
+  if (a !== b) return a < b ? -1 : 1;
+  return event.eventIndex - eventIndex;
+}
+
+function eventName(event: ChainEvent): string {
+  return event.type.split("::").pop() ?? "";
+}
+
+function toU64List(value: unknown): number[] {
+  return Array.isArray(value) ? value.map((item) => parseInt(String(item), 10)) : [];
+}
+
+function toTimestamp(value: string | null): Date | null {
+  // Indexer timestamps are UTC without a zone suffix
+  if (!value) return null;
+  const date = new Date(/[zZ]|[+-]\d\d:?\d\d$/.test(value) ? value : `${value}Z`);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+// ============================================
+// Ingestion
+// ============================================
+
+/**
+ * Record a single event; returns the poll ids whose view data must be refreshed
+ */
+async function applyEvent(network: NetworkType, event: ChainEvent): Promise<number[]> {
+  const data = event.data;
+  const txVersion = event.transactionVersion;
+
+  switch (eventName(event)) {
+    case "VoteCast": {
+      const pollId = parseInt(String(data.poll_id), 10);
+      await db
+        .insert(indexedPollVotes)
+        .values({
+          network,
+          pollId,
+          voter: normalizeAddress(String(data.voter)),
+          optionIndex: parseInt(String(data.option_index), 10),
+          txVersion,
+          votedAt: toTimestamp(event.timestamp),
+        })
+        .onConflictDoNothing();
+      return [pollId];
+    }
+
+    case "BulkVoteCast": {
+      const pollIds = toU64List(data.poll_ids);
+      const optionIndices = toU64List(data.option_indices);
+      if (pollIds.length > 0) {
+        await db
+          .insert(indexedPollVotes)
+          .values(
+            pollIds.map((pollId, i) => ({
+              network,
+              pollId,
+              voter: normalizeAddress(String(data.voter)),
+              optionIndex: optionIndices[i],
+              txVersion,
+              votedAt: toTimestamp(event.timestamp),
+            }))
+          )
+          .onConflictDoNothing();
+      }
+      return pollIds;
+    }
+
+    case "RewardClaimed": {
+      const pollId = parseInt(String(data.poll_id), 10);
+      const claimer = normalizeAddress(String(data.claimer));
+      const amount = String(data.amount);
+      const inserted = await db
+        .insert(indexedPollClaims)
+        .values({
+          network,
+          pollId,
+          claimer,
+          amount,
+          txVersion,
+          claimedAt: toTimestamp(event.timestamp),
+        })
+        .onConflictDoNothing()
+        .returning({ id: indexedPollClaims.id });
+
+      if (inserted.length > 0) {
+        await publishPollEvent({ type: "poll_claim", network, pollId, claimer, amount });
+        await cancelScheduledNotifications(network, `claim_expiring:${pollId}`, claimer);
+      }
+      return [pollId];
+    }
+
+    case "RewardsDistributed": {
+      const pollId = parseInt(String(data.poll_id), 10);
+      await db
+        .insert(indexedPollDistributions)
+        .values({
+          network,
+          pollId,
+          totalDistributed: String(data.total_distributed),
+          recipientCount: parseInt(String(data.recipient_count), 10),
+          txVersion,
+          distributedAt: toTimestamp(event.timestamp),
+        })
+        .onConflictDoNothing();
+      return [pollId];
+    }
+
+    default: {
+      // PollCreated, PollClosed, PollFinalized, PollsBatchCreated, ...
+      if (data.poll_id !== undefined) return [parseInt(String(data.poll_id), 10)];
+      if (eventName(event) === "PollsBatchCreated") return toU64List(data.poll_ids);
+      return [];
+    }
+  }
+}
+
+interface StoredPollState {
+  status: number;
+  votes: number[];
+}
+
+/**
+ * Read a poll's stored status and per-option votes (null when not indexed yet)
+ */
+async function loadStoredState(network: NetworkType, pollId: number): Promise<StoredPollState | null> {
+  const [stored] = await db
+    .select({ status: indexedPolls.status })
+    .from(indexedPolls)
+    .where(and(eq(indexedPolls.network, network), eq(indexedPolls.pollId, pollId)))
+    .limit(1);
+
+  if (!stored) return null;
+
+  const options = await db
+    .select({ optionIndex: indexedPollOptions.optionIndex, votes: indexedPollOptions.votes })
+    .from(indexedPollOptions)
+    .where(and(eq(indexedPollOptions.network, network), eq(indexedPollOptions.pollId, pollId)));
+
+  const votes: number[] = [];
+  for (const option of options) votes[option.optionIndex] = option.votes;
+  return { status: stored.status, votes };
+}
+
+/**
+ * Push vote-count deltas and status changes between the stored and fresh view data
+ */
+async function publishPollChanges(
+  network: NetworkType,
+  pollId: number,
+  previous: StoredPollState,
+  votes: number[],
+  status: number
+): Promise<void> {
+  const delta = votes.map((v, i) => v - (previous.votes[i] ?? 0));
+
+  if (delta.some((d) => d !== 0)) {
+    await publishPollEvent({
+      type: "poll_votes",
+      network,
+      pollId,
+      votes,
+      delta,
+      totalVotes: votes.reduce((sum, v) => sum + v, 0),
+    });
+  }
+
+  if (previous.status !== status) {
+    await publishPollEvent({ type: "poll_status", network, pollId, status, previousStatus: previous.status });
+  }
+}
+
+/**
+ * Upsert a poll and its options from get_poll view data
+ */
+async function storePoll(network: NetworkType, poll: ChainPoll): Promise<void> {
+  const pollId = parseInt(poll.id, 10);
+  const votes = poll.votes.map((v) => parseInt(String(v), 10));
+  const now = new Date();
+
+  // First sighting of a poll has nothing to diff against (and nobody watching it yet)
+  const previous = await loadStoredState(network, pollId);
+
+  const values = {
+    creator: normalizeAddress(poll.creator),
+    title: poll.title,
+    description: poll.description,
+    rewardPerVote: String(poll.reward_per_vote),
+    rewardPool: String(poll.reward_pool),
+    maxVoters: parseInt(String(poll.max_voters), 10),
+    distributionMode: Number(poll.distribution_mode),
+    rewardsDistributed: poll.rewards_distributed,
+    coinTypeId: Number(poll.coin_type_id),
+    status: Number(poll.status),
+    endTime: parseInt(String(poll.end_time), 10),
+    closedAt: parseInt(String(poll.closed_at), 10),
+    totalVotes: votes.reduce((sum, v) => sum + v, 0),
+    voters: poll.voters.map(normalizeAddress),
+    claimed: poll.claimed.map(normalizeAddress),
+    updatedAt: now,
+  };
+
+  const [stored] = await db
+    .insert(indexedPolls)
+    .values({ network, pollId, ...values })
+    .onConflictDoUpdate({
+      target: [indexedPolls.network, indexedPolls.pollId],
+      set: values,
+    })
+    .returning();
+
+  if (poll.options.length > 0) {
+    await db
+      .insert(indexedPollOptions)
+      .values(
+        poll.options.map((label, optionIndex) => ({
+          network,
+          pollId,
+          optionIndex,
+          label,
+          votes: votes[optionIndex] ?? 0,
+        }))
+      )
+      .onConflictDoUpdate({
+        target: [indexedPollOptions.network, indexedPollOptions.pollId, indexedPollOptions.optionIndex],
+        set: { label: sql`excluded.label`, votes: sql`excluded.votes` },
+      });
+  }
+
+  if (previous && hasLiveSubscribers()) {
+    await publishPollChanges(network, pollId, previous, votes, values.status);
+  }
+
+  if (previous && previous.status !== values.status) {
+    await notifyStatusChange(network, stored);
+  }
+}
+
+/**
+ * Tell voters a poll opened for claims; drop pending claim reminders once it's finalized
+ * Notification failures are logged so they never stall the sync.
+ */
+async function notifyStatusChange(network: NetworkType, poll: IndexedPoll): Promise<void> {
+  try {
+    if (poll.status === POLL_STATUS_CLAIMING) {
+      await notifyPollClaiming(network, poll, await getClaimDeadline(network, poll));
+    } else if (poll.status === POLL_STATUS_FINALIZED) {
+      await cancelScheduledNotifications(network, `claim_expiring:${poll.pollId}`);
+    }
+  } catch (error) {
+    console.error(`Error sending notifications for poll ${poll.pollId}:`, error);
+  }
+}
+
+/**
+ * Fetch a poll from the chain and store it
+ * Returns false when the poll doesn't exist on chain
+ */
+export async function indexPoll(
+  network: NetworkType,
+  pollId: number,
+  source: PollChainSource | null = getPollChainSource(network)
+): Promise<boolean> {
+  if (!source) return false;
+
+  const poll = await source.getPoll(pollId);
+  if (!poll) return false;
+
+  await storePoll(network, poll);
+  return true;
+}
+
+/**
+ * Re-index polls in the background right after a verified vote, so live
+ * subscribers see the new counts without waiting for the next sync
+ */
+export function refreshPollsSoon(network: NetworkType, pollIds: number[]): void {
+  void (async () => {
+    for (const pollId of pollIds) {
+      try {
+        await indexPoll(network, pollId);
+      } catch (error) {
+        console.error(`Error refreshing indexed poll ${pollId}:`, error);
+      }
+    }
+  })();
+}
+
+/**
+ * Catch a network up from its stored cursor
+ */
+export async function syncPolls(network: NetworkType, source: PollChainSource): Promise<SyncResult> {
+  const cursorName = `poll:${network}`;
+
+  const [cursor] = await db
+    .select()
+    .from(indexerCursors)
+    .where(eq(indexerCursors.name, cursorName))
+    .limit(1);
+
+  let lastVersion = cursor?.lastVersion ?? "0";
+  let lastEventIndex = cursor?.lastEventIndex ?? -1;
+  let eventsProcessed = 0;
+  const dirtyPollIds = new Set<number>();
+
+  // Events are fetched from the cursor's version (inclusive) so a version split
+  // across pages is finished; anything at or before the cursor is skipped
+  while (true) {
+    const page = await source.getEvents(lastVersion, EVENT_PAGE_SIZE);
+    const fresh = page.filter((event) => compareEventPosition(event, lastVersion, lastEventIndex) > 0);
+
+    for (const event of fresh) {
+      for (const pollId of await applyEvent(network, event)) {
+        if (!isNaN(pollId)) dirtyPollIds.add(pollId);
+      }
+      lastVersion = event.transactionVersion;
+      lastEventIndex = event.eventIndex;
+    }
+
+    eventsProcessed += fresh.length;
+
+    if (fresh.length > 0) {
+      await db
+        .insert(indexerCursors)
+        .values({ name: cursorName, lastVersion, lastEventIndex, updatedAt: new Date() })
+        .onConflictDoUpdate({
+          target: indexerCursors.name,
+          set: { lastVersion, lastEventIndex, updatedAt: new Date() },
+        });
+    }
+
+    if (page.length < EVENT_PAGE_SIZE || fresh.length === 0) break;
+  }
+
+  // Pick up polls the event stream hasn't told us about (e.g. first run without an indexer)
+  const pollCount = await source.getPollCount();
+  const [stored] = await db
+    .select({ count: sql<number>`count(*)` })
+    .from(indexedPolls)
+    .where(eq(indexedPolls.network, network));
+
+  if (Number(stored?.count || 0) < pollCount) {
+    const known = new Set(
+      (
+        await db
+          .select({ pollId: indexedPolls.pollId })
+          .from(indexedPolls)
+          .where(eq(indexedPolls.network, network))
+      ).map((row) => row.pollId)
+    );
+    for (let pollId = 0; pollId < pollCount; pollId++) {
+      if (!known.has(pollId)) dirtyPollIds.add(pollId);
+    }
+  }
+
+  let pollsRefreshed = 0;
+  for (const pollId of Array.from(dirtyPollIds).sort((a, b) => a - b)) {
+    if (await indexPoll(network, pollId, source)) {
+      pollsRefreshed++;
+    }
+  }
+
+  return { network, eventsProcessed, pollsRefreshed };
+}
+
+/**
+ * Convert stored rows to the API response shape
+ */
+export function toPollResponse(poll: IndexedPoll, options: IndexedPollOption[]): PollResponse {
+  const sorted = [...options].sort((a, b) => a.optionIndex - b.optionIndex);
+  return {
+    id: poll.pollId,
+    creator: poll.creator,
+    title: poll.title,
+    description: poll.description,
+    options: sorted.map((option) => option.label),
+    votes: sorted.map((option) => option.votes),
+    voters: poll.voters,
+    reward_per_vote: poll.rewardPerVote,
+    reward_pool: poll.rewardPool,
+    max_voters: poll.maxVoters,
+    distribution_mode: poll.distributionMode,
+    claimed: poll.claimed,
+    rewards_distributed: poll.rewardsDistributed,
+    end_time: poll.endTime,
+    status: poll.status,
+    coin_type_id: poll.coinTypeId,
+    closed_at: poll.closedAt,
+  };
+}
+
+// ============================================
+// Background Job
+// ============================================
+
+let syncInProgress = false;
+
+/**
+ * Run one sync pass for every network that has a chain source
+ */
+export async function syncAllNetworks(): Promise<SyncResult[]> {
+  if (syncInProgress) return [];
+  syncInProgress = true;
+
+  const results: SyncResult[] = [];
+  try {
+    for (const network of ["testnet", "mainnet"] as NetworkType[]) {
+      const source = getPollChainSource(network);
+      if (!source) continue;
+
+      try {
+        results.push(await syncPolls(network, source));
+      } catch (error) {
+        console.error(`Error syncing ${network} polls:`, error);
+      }
+    }
+  } finally {
+    syncInProgress = false;
+  }
+
+  return results;
+}
+
+/**
+ * Start the background indexer
+ * Interval comes from POLL_INDEXER_INTERVAL_MS (default 15s, 0 disables)
+ */
+export function startPollIndexer(log: (message: string, source?: string) => void): void {
+  const intervalMs = parseInt(process.env.POLL_INDEXER_INTERVAL_MS ?? "", 10);
+  const interval = isNaN(intervalMs) ? DEFAULT_INTERVAL_MS : intervalMs;
+  if (interval <= 0) {
+    log("poll indexer disabled", "indexer");
+    return;
+  }
+
+  const run = async () => {
+    for (const result of await syncAllNetworks()) {
+      if (result.eventsProcessed > 0 || result.pollsRefreshed > 0) {
+        log(
+          `${result.network}: ${result.eventsProcessed} events, ${result.pollsRefreshed} polls refreshed`,
+          "indexer"
+        );
+      }
+    }
+  };
+
+  run();
+  setInterval(run, interval).unref();
+}
@@ -0,0 +1,244 @@
+/**
+ * Quest progress engine
+ * Turns recorded user actions into quest_progress updates for the network's active season.
+ * Daily/weekly quests track progress per period (periodStart) and reset when a
+ * new period begins; startsAt/endsAt windows and maxCompletions are respected.
+ */
+
+import { eq, and, inArray, sql } from "drizzle-orm";
+import { db } from "./db";
+import {
+  quests,
+  questProgress,
+  seasons,
+  QUEST_TYPES,
+  QUEST_ACTIONS,
+  SEASON_STATUS,
+  type Quest,
+  type QuestAction,
+  type QuestProgress,
+} from "@shared/schema";
+
+// ============================================
+// Types
+// ============================================
+
+export interface QuestActionInput {
+  action: QuestAction;
+  amount?: number; // Increment for countable actions (default 1)
+  value?: number;  // Absolute value for cumulative metrics (streak, total votes)
+}
+
+export interface CompletedQuest {
+  questId: string;
+  questName: string;
+  points: number;
+}
+
+// Actions whose progress is the latest metric value rather than a running count
+const ABSOLUTE_ACTIONS: QuestAction[] = [QUEST_ACTIONS.STREAK, QUEST_ACTIONS.TOTAL_VOTES];
+
+// ============================================
+// Period Helpers
+// ============================================
+
+/**
+ * Get the period a quest's progress belongs to (YYYY-MM-DD, UTC)
+ * Daily quests reset each day, weekly quests each Monday; others never reset.
+ */
+export function getPeriodStart(questType: number, now: Date = new Date()): string | null {
+  if (questType === QUEST_TYPES.DAILY) {
+    return now.toISOString().split("T")[0];
+  }
+
+  if (questType === QUEST_TYPES.WEEKLY) {
+    const monday = new Date(now);
+    const daysSinceMonday = (monday.getUTCDay() + 6) % 7;
+    monday.setUTCDate(monday.getUTCDate() - daysSinceMonday);
+    return monday.toISOString().split("T")[0];
+  }
+
+  return null;
+}
+
+/**
+ * Whether a progress row belongs to the quest's current period
+ */
+export function isCurrentPeriod(quest: Quest, progress: QuestProgress, now: Date = new Date()): boolean {
+  const periodStart = getPeriodStart(quest.questType, now);
+  return periodStart === null || progress.periodStart === periodStart;
+}
+
+/**
+ * Present a progress row as of now: rows from a previous period read as reset
+ */
+export function getCurrentProgress(quest: Quest, progress: QuestProgress, now: Date = new Date()): QuestProgress {
+  if (isCurrentPeriod(quest, progress, now)) {
+    return progress;
+  }
+
+  return {
+    ...progress,
+    currentValue: 0,
+    completed: false,
+    completedAt: null,
+    pointsAwarded: 0,
+    periodStart: getPeriodStart(quest.questType, now),
+  };
+}
+
+function isWithinWindow(quest: Quest, now: Date): boolean {
+  if (quest.startsAt && new Date(quest.startsAt) > now) return false;
+  if (quest.endsAt && new Date(quest.endsAt) <= now) return false;
+  return true;
+}
+
+// ============================================
+// Engine
+// ============================================
+
+/**
+ * Count how many users have completed a quest (in the current period for daily/weekly)
+ */
+async function countCompletions(quest: Quest, periodStart: string | null): Promise<number> {
+  const conditions = [eq(questProgress.questId, quest.id), eq(questProgress.completed, true)];
+  if (periodStart) {
+    conditions.push(eq(questProgress.periodStart, periodStart));
+  }
+
+  const [result] = await db
+    .select({ count: sql<number>`count(*)` })
+    .from(questProgress)
+    .where(and(...conditions));
+
+  return Number(result?.count || 0);
+}
+
+/**
+ * Apply user actions to every matching quest in the network's active season
+ * Returns the quests that reached their target as a result (ready to claim)
+ */
+export async function recordQuestActions(
+  network: string,
+  walletAddress: string,
+  actions: QuestActionInput[]
+): Promise<CompletedQuest[]> {
+  if (actions.length === 0) return [];
+
+  const normalizedAddress = walletAddress.toLowerCase();
+  const now = new Date();
+
+  const [season] = await db
+    .select()
+    .from(seasons)
+    .where(and(eq(seasons.network, network), eq(seasons.status, SEASON_STATUS.ACTIVE)))
+    .limit(1);
+
+  if (!season) return [];
+
+  const candidateQuests = (
+    await db
+      .select()
+      .from(quests)
+      .where(
+        and(
+          eq(quests.seasonId, season.id),
+          eq(quests.active, true),
+          inArray(quests.targetAction, actions.map((a) => a.action))
+        )
+      )
+  ).filter((quest) => isWithinWindow(quest, now));
+
+  if (candidateQuests.length === 0) return [];
+
+  const existingRows = await db
+    .select()
+    .from(questProgress)
+    .where(
+      and(
+        eq(questProgress.walletAddress, normalizedAddress),
+        inArray(questProgress.questId, candidateQuests.map((q) => q.id))
+      )
+    );
+
+  const completed: CompletedQuest[] = [];
+
+  for (const quest of candidateQuests) {
+    const input = actions.find((a) => a.action === quest.targetAction)!;
+    const periodStart = getPeriodStart(quest.questType, now);
+    const existing = existingRows.find((row) => row.questId === quest.id);
+    const current = existing ? getCurrentProgress(quest, existing, now) : null;
+
+    // Already reached the target this period (claimed or awaiting claim)
+    if (current?.completed) continue;
+
+    const previousValue = current?.currentValue ?? 0;
+    let newValue = ABSOLUTE_ACTIONS.includes(input.action)
+      ? Math.max(previousValue, input.value ?? 0)
+      : previousValue + (input.amount ?? 1);
+    newValue = Math.min(newValue, quest.targetValue);
+
+    let reachedTarget = newValue >= quest.targetValue;
+    if (reachedTarget && quest.maxCompletions !== null) {
+      const completions = await countCompletions(quest, periodStart);
+      if (completions >= quest.maxCompletions) {
+        // Quest is full: keep progress just short of the target
+        newValue = quest.targetValue - 1;
+        reachedTarget = false;
+      }
+    }
+
+    if (existing && current === existing && newValue === previousValue) continue;
+
+    const values = {
+      currentValue: newValue,
+      completed: reachedTarget,
+      completedAt: reachedTarget ? now : null,
+      pointsAwarded: current?.pointsAwarded ?? 0,
+      periodStart,
+      updatedAt: now,
+    };
+
+    if (existing) {
+      await db
+        .update(questProgress)
+        .set(values)
+        .where(eq(questProgress.id, existing.id));
+    } else {
+      await db.insert(questProgress).values({
+        walletAddress: normalizedAddress,
+        questId: quest.id,
+        seasonId: season.id,
+        ...values,
+      });
+    }
+
+    if (reachedTarget) {
+      completed.push({ questId: quest.id, questName: quest.name, points: quest.points });
+    }
+  }
+
+  return completed;
+}
+
+/**
+ * Whether the network's active season has any live quest for an action
+ * Lets callers skip expensive lookups (e.g. chain reads) nobody would be credited for
+ */
+export async function hasActiveQuestsFor(network: string, action: QuestAction): Promise<boolean> {
+  const [quest] = await db
+    .select({ id: quests.id })
+    .from(quests)
+    .innerJoin(seasons, eq(quests.seasonId, seasons.id))
+    .where(
+      and(
+        eq(seasons.network, network),
+        eq(seasons.status, SEASON_STATUS.ACTIVE),
+        eq(quests.active, true),
+        eq(quests.targetAction, action)
+      )
+    )
+    .limit(1);
+
+  return !!quest;
+}
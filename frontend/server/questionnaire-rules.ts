@@ -0,0 +1,320 @@
+/**
+ * Questionnaire settings and completion rules
+ * Creators choose shufflePolls, allowPartialSave, requireAllPolls and
+ * showProgressBar; the answer flow applies them in the client and the rules
+ * here enforce the ones that matter server-side: saved (unsubmitted) answers
+ * need allowPartialSave, and completion needs every poll voted on chain unless
+ * requireAllPolls is off. Shared pools always require every poll: the same
+ * rule the contract applies on its own when the respondent registers with
+ * mark_questionnaire_completed, so a server completion never admits a wallet
+ * the pool would reject. Claims are recorded only from a verified transaction.
+ *
+ * Branching rules (skip logic) narrow "every poll" to the polls on the path the
+ * respondent took, evaluated from their on-chain answers with the same
+ * questionnairePath the answer flow uses.
+ */
+
+import { and, eq, inArray } from "drizzle-orm";
+import { db } from "./db";
+import {
+  indexedPollVotes,
+  questionnairePolls,
+  questionnairePath,
+  conditionalItemIds,
+  QUESTIONNAIRE_ITEM_KIND,
+  QUESTIONNAIRE_REWARD_TYPE,
+  QUESTIONNAIRE_SETTING_DEFAULTS,
+  resolveQuestionnaireSettings,
+  type Questionnaire,
+  type QuestionnaireBranching,
+  type QuestionnairePoll,
+  type QuestionnaireProgress,
+  type QuestionnaireSettings,
+} from "@shared/schema";
+import { normalizeAddress, normalizeNetwork } from "./movement";
+import { hasVotedOnChain } from "./tx-verification";
+import { missingTextAnswers } from "./text-answers";
+
+// ============================================
+// Types
+// ============================================
+
+export type SavedPollAnswer = QuestionnaireProgress["pollsAnswered"][number];
+
+export class QuestionnaireRuleError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.status = status;
+  }
+}
+
+const SETTING_KEYS = Object.keys(QUESTIONNAIRE_SETTING_DEFAULTS) as (keyof QuestionnaireSettings)[];
+
+// ============================================
+// Settings
+// ============================================
+
+/**
+ * Validate a creator's settings, keeping only known keys
+ */
+export function normalizeQuestionnaireSettings(input: unknown, rewardType: number): QuestionnaireSettings {
+  if (input === undefined || input === null) return {};
+  if (typeof input !== "object" || Array.isArray(input)) {
+    throw new QuestionnaireRuleError(400, "settings must be an object");
+  }
+
+  const settings: QuestionnaireSettings = {};
+  for (const key of SETTING_KEYS) {
+    const value = (input as Record<string, unknown>)[key];
+    if (value === undefined) continue;
+    if (typeof value !== "boolean") {
+      throw new QuestionnaireRuleError(400, `settings.${key} must be a boolean`);
+    }
+    settings[key] = value;
+  }
+
+  if (rewardType === QUESTIONNAIRE_REWARD_TYPE.SHARED_POOL && settings.requireAllPolls === false) {
+    throw new QuestionnaireRuleError(400, "Shared pool questionnaires must require every poll");
+  }
+  return settings;
+}
+
+// ============================================
+// Items & Branching
+// ============================================
+
+type PollItem = QuestionnairePoll & { pollId: number };
+
+function isPollItem(item: QuestionnairePoll): item is PollItem {
+  return item.kind !== QUESTIONNAIRE_ITEM_KIND.TEXT && item.pollId !== null;
+}
+
+/**
+ * A questionnaire's polls and text questions in display order
+ */
+export async function getQuestionnaireItems(questionnaireId: string): Promise<QuestionnairePoll[]> {
+  return db
+    .select()
+    .from(questionnairePolls)
+    .where(eq(questionnairePolls.questionnaireId, questionnaireId))
+    .orderBy(questionnairePolls.sortOrder);
+}
+
+async function getQuestionnairePollIds(questionnaireId: string): Promise<number[]> {
+  const items = await getQuestionnaireItems(questionnaireId);
+  return items.filter(isPollItem).map((item) => item.pollId);
+}
+
+function normalizeOptionIndices(input: unknown): number[] {
+  if (
+    !Array.isArray(input) ||
+    input.length === 0 ||
+    !input.every((index) => Number.isInteger(index) && index >= 0)
+  ) {
+    throw new QuestionnaireRuleError(400, "optionIndices must be a non-empty list of option indices");
+  }
+  return Array.from(new Set(input as number[]));
+}
+
+/**
+ * Validate an item's branching rules against the questionnaire's current order
+ * Jumps go forward from a poll; showIf conditions refer to earlier polls.
+ */
+export function normalizeBranching(
+  items: QuestionnairePoll[],
+  itemId: string,
+  input: unknown
+): QuestionnaireBranching | null {
+  const index = items.findIndex((item) => item.id === itemId);
+  if (index === -1) {
+    throw new QuestionnaireRuleError(404, "Item not found in questionnaire");
+  }
+  if (input === undefined || input === null) return null;
+  if (typeof input !== "object" || Array.isArray(input)) {
+    throw new QuestionnaireRuleError(400, "branching must be an object");
+  }
+
+  const { skipTo = [], showIf = [] } = input as { skipTo?: unknown; showIf?: unknown };
+  if (!Array.isArray(skipTo) || !Array.isArray(showIf)) {
+    throw new QuestionnaireRuleError(400, "skipTo and showIf must be arrays");
+  }
+  if (skipTo.length > 0 && !isPollItem(items[index])) {
+    throw new QuestionnaireRuleError(400, "Only polls can skip ahead");
+  }
+
+  const branching: QuestionnaireBranching = {
+    skipTo: skipTo.map((rule) => {
+      const target = items.findIndex((item) => item.id === rule?.targetItemId);
+      if (target <= index) {
+        throw new QuestionnaireRuleError(400, "Skips must go to a later question");
+      }
+      return { optionIndices: normalizeOptionIndices(rule.optionIndices), targetItemId: rule.targetItemId };
+    }),
+    showIf: showIf.map((condition) => {
+      const source = items.findIndex((item) => item.id === condition?.sourceItemId);
+      if (source === -1 || source >= index || !isPollItem(items[source])) {
+        throw new QuestionnaireRuleError(400, "Conditions must refer to an earlier poll");
+      }
+      return { sourceItemId: condition.sourceItemId, optionIndices: normalizeOptionIndices(condition.optionIndices) };
+    }),
+  };
+
+  return branching.skipTo!.length > 0 || branching.showIf!.length > 0 ? branching : null;
+}
+
+/**
+ * Drop rules that refer to a removed item
+ * A showIf on a missing poll would otherwise hide its question for everyone.
+ */
+export async function removeBranchingReferences(questionnaireId: string, removedItemId: string): Promise<void> {
+  const items = await getQuestionnaireItems(questionnaireId);
+
+  for (const item of items) {
+    if (!item.branching) continue;
+    const skipTo = (item.branching.skipTo ?? []).filter((rule) => rule.targetItemId !== removedItemId);
+    const showIf = (item.branching.showIf ?? []).filter((condition) => condition.sourceItemId !== removedItemId);
+    if (skipTo.length === (item.branching.skipTo ?? []).length && showIf.length === (item.branching.showIf ?? []).length) {
+      continue;
+    }
+
+    await db
+      .update(questionnairePolls)
+      .set({ branching: skipTo.length > 0 || showIf.length > 0 ? { skipTo, showIf } : null })
+      .where(eq(questionnairePolls.id, item.id));
+  }
+}
+
+/**
+ * Shared pools already on chain need a vote on every poll, so no path may leave one out
+ */
+export function assertPoolPollsOnEveryPath(
+  questionnaire: Pick<Questionnaire, "rewardType" | "onChainId">,
+  items: QuestionnairePoll[]
+): void {
+  if (questionnaire.rewardType !== QUESTIONNAIRE_REWARD_TYPE.SHARED_POOL || questionnaire.onChainId === null) {
+    return;
+  }
+  const conditional = conditionalItemIds(items);
+  if (items.some((item) => isPollItem(item) && conditional.has(item.id))) {
+    throw new QuestionnaireRuleError(
+      400,
+      "Polls in an on-chain reward pool can't be skipped; only text questions can be conditional"
+    );
+  }
+}
+
+// ============================================
+// Saved Answers
+// ============================================
+
+/**
+ * Validate selections a respondent saves before submitting
+ * Only allowed when the questionnaire keeps partial progress.
+ */
+export async function normalizeSavedAnswers(
+  questionnaire: Pick<Questionnaire, "id" | "settings" | "rewardType">,
+  input: unknown
+): Promise<SavedPollAnswer[]> {
+  if (!resolveQuestionnaireSettings(questionnaire).allowPartialSave) {
+    throw new QuestionnaireRuleError(403, "This questionnaire doesn't save answers before submission");
+  }
+  if (!Array.isArray(input)) {
+    throw new QuestionnaireRuleError(400, "pollsAnswered must be an array");
+  }
+
+  const pollIds = await getQuestionnairePollIds(questionnaire.id);
+  return input.map((answer) => {
+    const selections: unknown = answer?.selections ?? [answer?.optionIndex];
+    if (!pollIds.includes(answer?.pollId)) {
+      throw new QuestionnaireRuleError(400, `Poll ${answer?.pollId} is not part of this questionnaire`);
+    }
+    if (
+      !Array.isArray(selections) ||
+      selections.length === 0 ||
+      !selections.every((index) => Number.isInteger(index) && index >= 0)
+    ) {
+      throw new QuestionnaireRuleError(400, `Invalid selection for poll ${answer.pollId}`);
+    }
+
+    return {
+      pollId: answer.pollId,
+      optionIndex: selections[0],
+      selections,
+      answeredAt: new Date().toISOString(),
+    };
+  });
+}
+
+// ============================================
+// Completion
+// ============================================
+
+/**
+ * Check a respondent may complete the questionnaire
+ * answers map poll ID -> option index for polls this wallet has voted on chain
+ * (verified by the caller); indexed votes take precedence. Only items on the
+ * respondent's path count: with requireAllPolls every path poll needs an
+ * on-chain vote, without it at least one question must be answered. Required
+ * text questions on the path always apply.
+ */
+export async function assertCanComplete(
+  questionnaire: Pick<Questionnaire, "id" | "network" | "settings" | "rewardType">,
+  walletAddress: string,
+  answers: Map<number, number>,
+  progress: Pick<QuestionnaireProgress, "textAnswers"> | undefined
+): Promise<void> {
+  const items = await getQuestionnaireItems(questionnaire.id);
+  const polls = items.filter(isPollItem);
+  const pollIds = polls.map((item) => item.pollId);
+  const foreign = Array.from(answers.keys()).find((pollId) => !pollIds.includes(pollId));
+  if (foreign !== undefined) {
+    throw new QuestionnaireRuleError(400, `Poll ${foreign} is not part of this questionnaire`);
+  }
+
+  const network = normalizeNetwork(questionnaire.network);
+  const votes = new Map(answers);
+  if (pollIds.length > 0) {
+    const indexed = await db
+      .select({ pollId: indexedPollVotes.pollId, optionIndex: indexedPollVotes.optionIndex })
+      .from(indexedPollVotes)
+      .where(
+        and(
+          eq(indexedPollVotes.network, network),
+          eq(indexedPollVotes.voter, normalizeAddress(walletAddress)),
+          inArray(indexedPollVotes.pollId, pollIds)
+        )
+      );
+    indexed.forEach((vote) => votes.set(vote.pollId, vote.optionIndex));
+  }
+
+  const path = questionnairePath(
+    items,
+    new Map(polls.filter((item) => votes.has(item.pollId)).map((item) => [item.id, votes.get(item.pollId)!]))
+  );
+
+  const missingText = missingTextAnswers(
+    path.filter((item) => item.kind === QUESTIONNAIRE_ITEM_KIND.TEXT),
+    progress
+  );
+  if (missingText.length > 0) {
+    throw new QuestionnaireRuleError(400, `Answer "${missingText[0].prompt}" before completing the questionnaire`);
+  }
+
+  if (resolveQuestionnaireSettings(questionnaire).requireAllPolls) {
+    const unanswered = path
+      .filter(isPollItem)
+      .map((item) => item.pollId)
+      .filter((pollId) => !votes.has(pollId));
+    const onChain = await Promise.all(
+      unanswered.map((pollId) => hasVotedOnChain(pollId, walletAddress, network))
+    );
+    const missingIndex = onChain.indexOf(false);
+    if (missingIndex !== -1) {
+      throw new QuestionnaireRuleError(400, `Answer poll ${unanswered[missingIndex]} before completing the questionnaire`);
+    }
+  } else if (votes.size === 0 && (progress?.textAnswers ?? []).length === 0) {
+    throw new QuestionnaireRuleError(400, "Answer at least one question before completing the questionnaire");
+  }
+}
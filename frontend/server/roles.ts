@@ -0,0 +1,80 @@
+/**
+ * Server-side role-based access control
+ * Roles are stored in Postgres (admin_roles). Addresses listed in ADMIN_ADDRESSES
+ * are always admins so a fresh deployment can bootstrap its first grants.
+ */
+
+import type { Request, Response, NextFunction } from "express";
+import { eq } from "drizzle-orm";
+import { db } from "./db";
+import { adminRoles, ADMIN_ROLES, type AdminRole } from "@shared/schema";
+
+export const ALL_ADMIN_ROLES = Object.values(ADMIN_ROLES) as AdminRole[];
+
+/**
+ * Get bootstrap admin addresses from the environment
+ * Format: comma-separated addresses (case-insensitive). Falls back to
+ * VITE_ADMIN_ADDRESSES so existing deployments keep their admins.
+ */
+export function getBootstrapAdmins(): string[] {
+  const raw = process.env.ADMIN_ADDRESSES || process.env.VITE_ADMIN_ADDRESSES || "";
+  return raw
+    .split(",")
+    .map((addr) => addr.trim().toLowerCase())
+    .filter((addr) => addr.length > 0);
+}
+
+export function isAdminRole(value: unknown): value is AdminRole {
+  return typeof value === "string" && (ALL_ADMIN_ROLES as string[]).includes(value);
+}
+
+/**
+ * Get the effective roles for an address (stored grants plus bootstrap admin)
+ */
+export async function getRolesForAddress(address: string): Promise<AdminRole[]> {
+  const normalizedAddress = address.toLowerCase();
+
+  const grants = await db
+    .select({ role: adminRoles.role })
+    .from(adminRoles)
+    .where(eq(adminRoles.walletAddress, normalizedAddress));
+
+  const roles = new Set<AdminRole>(grants.map((g) => g.role).filter(isAdminRole));
+  if (getBootstrapAdmins().includes(normalizedAddress)) {
+    roles.add(ADMIN_ROLES.ADMIN);
+  }
+
+  return Array.from(roles);
+}
+
+/**
+ * Check whether an address holds any of the given roles (admins hold every role)
+ */
+export async function hasAnyRole(address: string, required: AdminRole[]): Promise<boolean> {
+  const roles = await getRolesForAddress(address);
+  if (roles.includes(ADMIN_ROLES.ADMIN)) return true;
+  return required.some((role) => roles.includes(role));
+}
+
+/**
+ * Require the session wallet to hold one of the given roles
+ * Must run after requireWalletSession
+ */
+export function requireRole(...required: AdminRole[]) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const session = req.walletSession;
+    if (!session) {
+      return res.status(401).json({ success: false, error: "Wallet session required" });
+    }
+
+    try {
+      if (!(await hasAnyRole(session.address, required))) {
+        return res.status(403).json({ success: false, error: "Insufficient role" });
+      }
+      next();
+    } catch (error) {
+      console.error("Error checking roles:", error);
+      res.status(500).json({ success: false, error: "Failed to check roles" });
+    }
+  };
+}
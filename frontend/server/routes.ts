@@ -1,6 +1,6 @@
-import type { Express } from "express";
+import type { Express, Request, Response, NextFunction } from "express";
 import { createServer, type Server } from "http";
-import { eq, and, desc, sql, gte } from "drizzle-orm";
+import { eq, and, asc, desc, sql, gte, gt, inArray, type SQL } from "drizzle-orm";
 import { db } from "./db";
 import {
   userProfiles,
@@ -10,7 +10,6 @@ import {
   dailyVoteLogs,
   seasonLeaderboard,
   userSeasonSnapshots,
-  sponsorshipLogs,
   userSettings,
   referralCodes,
   referrals,
@@ -19,10 +18,14 @@ import {
   questionnaires,
   questionnairePolls,
   questionnaireProgress,
+  adminRoles,
+  adminRoleAudit,
+  indexedPolls,
+  indexedPollOptions,
   TIERS,
   TIER_VOTE_LIMITS,
-  TIER_PULSE_THRESHOLDS,
   QUEST_TYPES,
+  QUEST_ACTIONS,
   SEASON_STATUS,
   REFERRAL_STATUS,
   REFERRAL_MILESTONES,
@@ -32,46 +35,168 @@ import {
   REFERRAL_TIER_MULTIPLIERS,
   QUESTIONNAIRE_STATUS,
   QUESTIONNAIRE_REWARD_TYPE,
+  QUESTIONNAIRE_ITEM_KIND,
+  TEXT_ANSWER_LIMITS,
+  ADMIN_ROLES,
+  ROLE_AUDIT_ACTIONS,
+  BPS_DENOMINATOR,
+  getTierForPulse,
+  isAmountString,
+  toAmount,
+  type AmountString,
   type UserProfile,
   type Season,
+  type UserSeasonSnapshot,
   type Quest,
   type Questionnaire,
   type QuestionnairePoll,
   type QuestionnaireProgress,
 } from "@shared/schema";
+import {
+  AuthError,
+  issueNonce,
+  parseSignInProof,
+  verifySignIn,
+  createSessionToken,
+  refreshSession,
+  requireWalletSession,
+} from "./auth";
+import {
+  callViewFunction,
+  getStakingContractAddress,
+  normalizeNetwork,
+  normalizeAddress,
+  type NetworkType,
+} from "./movement";
+import {
+  TxVerificationError,
+  verifyVoteTransaction,
+  verifyCreatePollTransaction,
+  verifyClaimRewardTransaction,
+  verifyStakeTransaction,
+  verifyFundingTransaction,
+  claimTransaction,
+  hasVotedOnChain,
+  countEarlyVotes,
+  type VerifiedTransaction,
+} from "./tx-verification";
+import {
+  recordQuestActions,
+  hasActiveQuestsFor,
+  getCurrentProgress,
+  type CompletedQuest,
+  type QuestActionInput,
+} from "./quest-engine";
+import { getRolesForAddress, getBootstrapAdmins, isAdminRole, requireRole } from "./roles";
+import { indexPoll, refreshPollsSoon, toPollResponse } from "./poll-indexer";
+import { publishQuestionnaireCompletions } from "./live-updates";
+import { search, SearchError, SEARCH_SORTS, type SearchSort } from "./search";
+import {
+  buildPollExport,
+  buildQuestionnaireExport,
+  renderExport,
+  ExportError,
+  EXPORT_FORMATS,
+  type ExportDocument,
+  type ExportFormat,
+} from "./exports";
+import { getPollQuestions, getPollResults, recordPollQuestions, recordBallots, BallotError } from "./ballots";
+import { getDonorFundings, recordFundingTransaction, syncDonorFundings } from "./donor-ledger";
+import { ActivityError, getWalletActivity, parseActivityQuery } from "./activity";
+import {
+  SwapAnalyticsError,
+  getLiquidityPositionPnl,
+  getSwapCandles,
+  getSwapPoolStats,
+  parseCandleQuery,
+} from "./swap-analytics";
+import {
+  confirmNotificationEmail,
+  getNotificationPreferences,
+  getNotifications,
+  markNotificationsRead,
+  notifySeasonEnded,
+  NotificationError,
+  saveNotificationPreferences,
+  sendTestNotification,
+  toPreferencesView,
+} from "./notifications";
+import { getClaimDeadlineOverview } from "./claim-deadlines";
+import { describeSponsoredTransaction, getSponsorProvider } from "./sponsorship";
+import {
+  checkSponsorshipPolicy,
+  getDailySponsorshipCount,
+  getSponsorshipPolicy,
+  getSponsorshipSpend,
+  getTierDailyLimit,
+  normalizeSponsorshipPolicy,
+  recordSponsorship,
+  releaseSponsorship,
+  saveSponsorshipPolicy,
+  setCampaignBudget,
+  settlePendingSponsorships,
+  SponsorshipPolicyError,
+} from "./sponsorship-policy";
+import {
+  getTextResponses,
+  normalizeTextSettings,
+  recordTextAnswers,
+  TextAnswerError,
+} from "./text-answers";
+import {
+  assertCanComplete,
+  assertPoolPollsOnEveryPath,
+  getQuestionnaireItems,
+  normalizeBranching,
+  normalizeQuestionnaireSettings,
+  normalizeSavedAnswers,
+  QuestionnaireRuleError,
+  removeBranchingReferences,
+} from "./questionnaire-rules";
 
 // ============================================
-// Gas Sponsorship Constants
+// Helper Functions
 // ============================================
 
-const DAILY_SPONSORSHIP_LIMIT = 50; // Max sponsored transactions per address per day
+/**
+ * Whether staked PULSE counts toward tiers at its lock multiplier (TIER_LOCK_WEIGHTING=true)
+ */
+function isTierLockWeightingEnabled(): boolean {
+  return process.env.TIER_LOCK_WEIGHTING === "true";
+}
 
-// ============================================
-// Helper Functions
-// ============================================
+/**
+ * Read a wallet's lock-weighted stake from the staking contract, in octas.
+ * get_reward_weight sums amount * multiplier (bps) over positions, with
+ * expired locks counted at 1x.
+ */
+async function fetchWeightedStake(network: NetworkType, address: string): Promise<AmountString> {
+  const contract = getStakingContractAddress(network);
+  if (!contract) {
+    throw new Error(`Staking contract not configured for ${network}`);
+  }
+  const [weight] = await callViewFunction<[string]>(
+    network,
+    `${contract}::staking::get_reward_weight`,
+    [normalizeAddress(address)]
+  );
+  return (toAmount(weight) / BigInt(BPS_DENOMINATOR)).toString() as AmountString;
+}
 
 /**
  * Calculate tier based on PULSE holdings (balance + staked) and streak
- * Tier is determined by total PULSE (wallet balance + staked amount)
+ * Tier is determined by total PULSE (wallet balance + staked amount). With lock
+ * weighting enabled, the lock-weighted stake replaces the staked amount once known.
  */
 function calculateTier(
-  pulseBalance: bigint | string,
-  stakedPulse: bigint | string,
-  streak: number
+  pulseBalance: AmountString,
+  stakedPulse: AmountString,
+  streak: number,
+  weightedStakedPulse?: AmountString | null
 ): number {
-  const balance = typeof pulseBalance === "string" ? BigInt(pulseBalance) : pulseBalance;
-  const staked = typeof stakedPulse === "string" ? BigInt(stakedPulse) : stakedPulse;
-  const totalPulse = balance + staked;
-
-  // Determine tier from total PULSE (balance + staked)
-  let tierFromPulse: number = TIERS.BRONZE;
-  if (totalPulse >= BigInt(TIER_PULSE_THRESHOLDS[TIERS.PLATINUM])) {
-    tierFromPulse = TIERS.PLATINUM;
-  } else if (totalPulse >= BigInt(TIER_PULSE_THRESHOLDS[TIERS.GOLD])) {
-    tierFromPulse = TIERS.GOLD;
-  } else if (totalPulse >= BigInt(TIER_PULSE_THRESHOLDS[TIERS.SILVER])) {
-    tierFromPulse = TIERS.SILVER;
-  }
+  const countedStake =
+    isTierLockWeightingEnabled() && weightedStakedPulse ? weightedStakedPulse : stakedPulse;
+  const tierFromPulse = getTierForPulse(toAmount(pulseBalance) + toAmount(countedStake));
 
   // Streak bonuses: 7+ days = +1 tier, 30+ days = +2 tiers
   const streakBonus = streak >= 30 ? 2 : streak >= 7 ? 1 : 0;
@@ -80,6 +205,31 @@ function calculateTier(
   return Math.min(tierFromPulse + streakBonus, TIERS.PLATINUM);
 }
 
+/**
+ * Tier a wallet's sponsorship limit is based on (Bronze until it has a profile)
+ */
+async function getSponsorshipTier(walletAddress: string, network: NetworkType): Promise<number> {
+  const [profile] = await db
+    .select()
+    .from(userProfiles)
+    .where(
+      and(
+        eq(userProfiles.network, network),
+        eq(userProfiles.walletAddress, walletAddress.toLowerCase())
+      )
+    )
+    .limit(1);
+
+  return profile
+    ? calculateTier(
+        profile.cachedPulseBalance,
+        profile.cachedStakedPulse,
+        profile.currentStreak,
+        profile.cachedWeightedStakedPulse
+      )
+    : TIERS.BRONZE;
+}
+
 /**
  * Get today's date string (YYYY-MM-DD) in UTC
  */
@@ -97,16 +247,31 @@ function getYesterdayString(): string {
 }
 
 /**
- * Get or create user profile
+ * Network a request is scoped to: the wallet session's network on authenticated
+ * requests (requireWalletSession rejects a different ?network= or body network),
+ * else ?network= or body network
+ * Off-chain data (profiles, seasons, quests, referrals, questionnaires) is kept per network.
  */
-async function getOrCreateProfile(walletAddress: string): Promise<UserProfile> {
+function getRequestNetwork(req: Request): NetworkType {
+  return req.walletSession?.network ?? normalizeNetwork(req.query.network ?? req.body?.network);
+}
+
+/**
+ * Get or create user profile on a network
+ */
+async function getOrCreateProfile(walletAddress: string, network: NetworkType): Promise<UserProfile> {
   const normalizedAddress = walletAddress.toLowerCase();
 
   // Try to find existing profile
   const [existing] = await db
     .select()
     .from(userProfiles)
-    .where(eq(userProfiles.walletAddress, normalizedAddress))
+    .where(
+      and(
+        eq(userProfiles.network, network),
+        eq(userProfiles.walletAddress, normalizedAddress)
+      )
+    )
     .limit(1);
 
   if (existing) {
@@ -117,6 +282,7 @@ async function getOrCreateProfile(walletAddress: string): Promise<UserProfile> {
   const [newProfile] = await db
     .insert(userProfiles)
     .values({
+      network,
       walletAddress: normalizedAddress,
       currentStreak: 0,
       longestStreak: 0,
@@ -136,6 +302,81 @@ export async function registerRoutes(
   httpServer: Server,
   app: Express
 ): Promise<Server> {
+  // ============================================
+  // Wallet Auth Routes
+  // ============================================
+
+  /**
+   * POST /api/auth/nonce
+   * Issue a single-use sign-in nonce and the message to sign
+   */
+  app.post("/api/auth/nonce", async (req, res) => {
+    try {
+      const { address, network } = req.body;
+
+      if (!address || typeof address !== "string") {
+        return res.status(400).json({ success: false, error: "Address is required" });
+      }
+
+      const data = issueNonce(address, normalizeNetwork(network));
+      res.json({ success: true, data });
+    } catch (error) {
+      console.error("Error issuing nonce:", error);
+      res.status(500).json({ success: false, error: "Failed to issue nonce" });
+    }
+  });
+
+  /**
+   * POST /api/auth/verify
+   * Verify a signed nonce and issue a session token
+   */
+  app.post("/api/auth/verify", async (req, res) => {
+    try {
+      const session = await verifySignIn(parseSignInProof(req.body));
+
+      res.json({
+        success: true,
+        data: {
+          token: createSessionToken(session),
+          address: session.address,
+          expiresAt: session.expiresAt,
+        },
+      });
+    } catch (error) {
+      if (error instanceof AuthError) {
+        return res.status(error.status).json({ success: false, error: error.message });
+      }
+      console.error("Error verifying sign-in:", error);
+      res.status(500).json({ success: false, error: "Failed to verify sign-in" });
+    }
+  });
+
+  /**
+   * POST /api/auth/refresh
+   * Exchange a valid session token for one with a fresh expiry.
+   * Refused once the session is older than the maximum age since sign-in.
+   */
+  app.post("/api/auth/refresh", requireWalletSession(() => undefined), async (req, res) => {
+    try {
+      const session = refreshSession(req.walletSession!);
+
+      res.json({
+        success: true,
+        data: {
+          token: createSessionToken(session),
+          address: session.address,
+          expiresAt: session.expiresAt,
+        },
+      });
+    } catch (error) {
+      if (error instanceof AuthError) {
+        return res.status(error.status).json({ success: false, error: error.message });
+      }
+      console.error("Error refreshing session:", error);
+      res.status(500).json({ success: false, error: "Failed to refresh session" });
+    }
+  });
+
   // ============================================
   // User Profile Routes
   // ============================================
@@ -147,7 +388,7 @@ export async function registerRoutes(
   app.get("/api/user/profile/:address", async (req, res) => {
     try {
       const { address } = req.params;
-      const profile = await getOrCreateProfile(address);
+      const profile = await getOrCreateProfile(address, getRequestNetwork(req));
 
       // Check if we need to reset daily votes (new day)
       const today = getTodayString();
@@ -167,7 +408,12 @@ export async function registerRoutes(
       }
 
       // Calculate tier (uses balance + staked)
-      const tier = calculateTier(profile.cachedPulseBalance, profile.cachedStakedPulse, profile.currentStreak);
+      const tier = calculateTier(
+        profile.cachedPulseBalance,
+        profile.cachedStakedPulse,
+        profile.currentStreak,
+        profile.cachedWeightedStakedPulse
+      );
       const voteLimit = TIER_VOTE_LIMITS[tier as keyof typeof TIER_VOTE_LIMITS];
 
       res.json({
@@ -190,27 +436,44 @@ export async function registerRoutes(
    * POST /api/user/sync-tier/:address
    * Recalculate tier from on-chain PULSE balance and staked amount
    */
-  app.post("/api/user/sync-tier/:address", async (req, res) => {
+  app.post("/api/user/sync-tier/:address", requireWalletSession(), async (req, res) => {
     try {
       const { address } = req.params;
-      const { pulseBalance, stakedAmount } = req.body; // Frontend sends both balance and staked amount
+      // Frontend sends balance and staked amount in octas
+      const { pulseBalance, stakedAmount } = req.body;
 
-      if (pulseBalance === undefined) {
-        return res.status(400).json({ success: false, error: "pulseBalance is required" });
+      if (!isAmountString(pulseBalance)) {
+        return res.status(400).json({ success: false, error: "pulseBalance must be a u64 amount string" });
+      }
+      if (stakedAmount !== undefined && !isAmountString(stakedAmount)) {
+        return res.status(400).json({ success: false, error: "stakedAmount must be a u64 amount string" });
       }
 
-      const profile = await getOrCreateProfile(address);
+      const network = getRequestNetwork(req);
+      const profile = await getOrCreateProfile(address, network);
       // Use provided stakedAmount or fall back to cached value
-      const staked = stakedAmount !== undefined ? stakedAmount.toString() : profile.cachedStakedPulse;
-      const tier = calculateTier(pulseBalance, staked, profile.currentStreak);
+      const staked = stakedAmount ?? profile.cachedStakedPulse;
+      // The lock-weighted stake comes from the contract, never from the client
+      let weightedStaked: AmountString | null = null;
+      if (isTierLockWeightingEnabled()) {
+        try {
+          weightedStaked = await fetchWeightedStake(network, address);
+        } catch (error) {
+          console.error("Error reading reward weight:", error);
+          weightedStaked = profile.cachedWeightedStakedPulse;
+        }
+      }
+
+      const tier = calculateTier(pulseBalance, staked, profile.currentStreak, weightedStaked);
 
       // Update cached tier, balance, and staked amount
       const [updated] = await db
         .update(userProfiles)
         .set({
           cachedTier: tier,
-          cachedPulseBalance: pulseBalance.toString(),
+          cachedPulseBalance: pulseBalance,
           cachedStakedPulse: staked,
+          cachedWeightedStakedPulse: weightedStaked,
           tierLastUpdated: new Date(),
           updatedAt: new Date(),
         })
@@ -227,6 +490,7 @@ export async function registerRoutes(
           voteLimit,
           votesRemaining: Math.max(0, voteLimit - updated.votesToday),
           canVote: updated.votesToday < voteLimit,
+          lockWeighted: isTierLockWeightingEnabled(),
         },
       });
     } catch (error) {
@@ -246,7 +510,7 @@ export async function registerRoutes(
   app.get("/api/votes/remaining/:address", async (req, res) => {
     try {
       const { address } = req.params;
-      const profile = await getOrCreateProfile(address);
+      const profile = await getOrCreateProfile(address, getRequestNetwork(req));
 
       const today = getTodayString();
       let votesToday = profile.votesToday;
@@ -256,7 +520,12 @@ export async function registerRoutes(
         votesToday = 0;
       }
 
-      const tier = calculateTier(profile.cachedPulseBalance, profile.cachedStakedPulse, profile.currentStreak);
+      const tier = calculateTier(
+        profile.cachedPulseBalance,
+        profile.cachedStakedPulse,
+        profile.currentStreak,
+        profile.cachedWeightedStakedPulse
+      );
       const voteLimit = TIER_VOTE_LIMITS[tier as keyof typeof TIER_VOTE_LIMITS];
 
       res.json({
@@ -279,13 +548,24 @@ export async function registerRoutes(
   /**
    * POST /api/votes/record/:address
    * Record a vote (called after successful on-chain vote)
+   * The vote transaction is verified on chain and credited only once
    */
-  app.post("/api/votes/record/:address", async (req, res) => {
+  app.post("/api/votes/record/:address", requireWalletSession(), async (req, res) => {
     try {
       const { address } = req.params;
-      const { pollId } = req.body;
+      const { txHash } = req.body;
+
+      if (!txHash) {
+        return res.status(400).json({ success: false, error: "txHash is required" });
+      }
 
-      const profile = await getOrCreateProfile(address);
+      const network = getRequestNetwork(req);
+      const verified = await verifyVoteTransaction(txHash, address, network);
+      await claimTransaction(verified, address);
+      refreshPollsSoon(network, verified.pollIds);
+
+      const voteCount = verified.pollIds.length;
+      const profile = await getOrCreateProfile(address, network);
       const today = getTodayString();
       const yesterday = getYesterdayString();
 
@@ -313,7 +593,7 @@ export async function registerRoutes(
       }
 
       // Increment votes
-      votesToday += 1;
+      votesToday += voteCount;
 
       // Update profile
       const [updated] = await db
@@ -324,7 +604,7 @@ export async function registerRoutes(
           longestStreak,
           lastVoteDate: today,
           lastVoteResetDate: today,
-          seasonVotes: profile.seasonVotes + 1,
+          seasonVotes: profile.seasonVotes + voteCount,
           updatedAt: new Date(),
         })
         .where(eq(userProfiles.id, profile.id))
@@ -336,6 +616,7 @@ export async function registerRoutes(
         .from(dailyVoteLogs)
         .where(
           and(
+            eq(dailyVoteLogs.network, network),
             eq(dailyVoteLogs.walletAddress, profile.walletAddress),
             eq(dailyVoteLogs.voteDate, today)
           )
@@ -345,38 +626,65 @@ export async function registerRoutes(
       if (existingLog) {
         // Update existing log
         const pollIds = existingLog.pollIds || [];
-        if (pollId && !pollIds.includes(pollId)) {
-          pollIds.push(pollId);
+        for (const pollId of verified.pollIds) {
+          if (!pollIds.includes(pollId)) {
+            pollIds.push(pollId);
+          }
         }
         await db
           .update(dailyVoteLogs)
           .set({
-            voteCount: existingLog.voteCount + 1,
+            voteCount: existingLog.voteCount + voteCount,
             pollIds,
           })
           .where(eq(dailyVoteLogs.id, existingLog.id));
       } else {
         // Create new log
         await db.insert(dailyVoteLogs).values({
+          network,
           walletAddress: profile.walletAddress,
           voteDate: today,
-          voteCount: 1,
-          pollIds: pollId ? [pollId] : [],
+          voteCount,
+          pollIds: verified.pollIds,
         });
       }
 
-      // Update quest progress for vote-related quests
-      // (This would trigger quest progress updates)
+      // Advance vote-related quests (don't fail the vote recording if this fails)
+      let questsCompleted: CompletedQuest[] = [];
+      try {
+        const questActions: QuestActionInput[] = [
+          { action: QUEST_ACTIONS.VOTE, amount: voteCount },
+          { action: QUEST_ACTIONS.TOTAL_VOTES, value: updated.seasonVotes },
+          { action: QUEST_ACTIONS.STREAK, value: newStreak },
+        ];
+
+        // Early-vote ranks need a chain read per poll, so only look them up when a quest needs them
+        if (await hasActiveQuestsFor(network, QUEST_ACTIONS.EARLY_VOTE)) {
+          const earlyVotes = await countEarlyVotes(verified.pollIds, profile.walletAddress, network);
+          if (earlyVotes > 0) {
+            questActions.push({ action: QUEST_ACTIONS.EARLY_VOTE, amount: earlyVotes });
+          }
+        }
+
+        questsCompleted = await recordQuestActions(network, profile.walletAddress, questActions);
+      } catch (questError) {
+        console.error("Error updating quest progress:", questError);
+      }
 
       // Check and award referral milestones based on total votes
       try {
-        await checkReferralMilestones(profile.walletAddress, updated.seasonVotes);
+        await checkReferralMilestones(network, profile.walletAddress, updated.seasonVotes);
       } catch (refError) {
         console.error("Error checking referral milestones:", refError);
         // Don't fail the vote recording if referral check fails
       }
 
-      const tier = calculateTier(updated.cachedPulseBalance, updated.cachedStakedPulse, updated.currentStreak);
+      const tier = calculateTier(
+        updated.cachedPulseBalance,
+        updated.cachedStakedPulse,
+        updated.currentStreak,
+        updated.cachedWeightedStakedPulse
+      );
       const voteLimit = TIER_VOTE_LIMITS[tier as keyof typeof TIER_VOTE_LIMITS];
 
       res.json({
@@ -389,9 +697,14 @@ export async function registerRoutes(
           canVote: updated.votesToday < voteLimit,
           streakIncreased: isFirstVoteOfDay,
           newStreak,
+          creditedPollIds: verified.pollIds,
+          questsCompleted,
         },
       });
     } catch (error) {
+      if (error instanceof TxVerificationError) {
+        return res.status(error.status).json({ success: false, error: error.message });
+      }
       console.error("Error recording vote:", error);
       res.status(500).json({ success: false, error: "Failed to record vote" });
     }
@@ -404,7 +717,9 @@ export async function registerRoutes(
   /**
    * End a season: create snapshots for all users, reset points, deactivate quests
    */
-  async function endSeason(seasonId: string): Promise<void> {
+  async function endSeason(season: Season): Promise<void> {
+    const seasonId = season.id;
+
     // 1. Update season status to ENDED
     await db
       .update(seasons)
@@ -419,6 +734,7 @@ export async function registerRoutes(
       .orderBy(desc(seasonLeaderboard.totalPoints));
 
     // 3. Create snapshots for each user with their final rank
+    const snapshots: UserSeasonSnapshot[] = [];
     for (let i = 0; i < leaderboardEntries.length; i++) {
       const entry = leaderboardEntries[i];
       const rank = i + 1;
@@ -427,11 +743,16 @@ export async function registerRoutes(
       const [profile] = await db
         .select()
         .from(userProfiles)
-        .where(eq(userProfiles.walletAddress, entry.walletAddress))
+        .where(
+          and(
+            eq(userProfiles.network, season.network),
+            eq(userProfiles.walletAddress, entry.walletAddress)
+          )
+        )
         .limit(1);
 
       // Create snapshot
-      await db.insert(userSeasonSnapshots).values({
+      const [snapshot] = await db.insert(userSeasonSnapshots).values({
         seasonId,
         walletAddress: entry.walletAddress,
         finalTier: profile?.cachedTier || 0,
@@ -441,7 +762,8 @@ export async function registerRoutes(
         pulseBalanceSnapshot: profile?.cachedPulseBalance || "0",
         maxStreak: profile?.longestStreak || 0,
         questsCompleted: entry.questsCompleted,
-      });
+      }).returning();
+      snapshots.push(snapshot);
     }
 
     // 4. Reset seasonPoints and seasonVotes for users in this season
@@ -455,7 +777,12 @@ export async function registerRoutes(
           currentSeasonId: null,
           updatedAt: new Date(),
         })
-        .where(eq(userProfiles.walletAddress, entry.walletAddress));
+        .where(
+          and(
+            eq(userProfiles.network, season.network),
+            eq(userProfiles.walletAddress, entry.walletAddress)
+          )
+        );
     }
 
     // 5. Deactivate all quests for this season
@@ -464,6 +791,13 @@ export async function registerRoutes(
       .set({ active: false, updatedAt: new Date() })
       .where(eq(quests.seasonId, seasonId));
 
+    // 6. Let participants know (a delivery problem shouldn't undo the season end)
+    try {
+      await notifySeasonEnded(season, snapshots);
+    } catch (error) {
+      console.error(`Error sending season ${seasonId} notifications:`, error);
+    }
+
     console.log(`Season ${seasonId} ended: ${leaderboardEntries.length} snapshots created`);
   }
 
@@ -488,8 +822,8 @@ export async function registerRoutes(
     // End each expired season
     for (const season of expiredSeasons) {
       try {
-        await endSeason(season.id);
-        console.log(`Auto-ended expired season: ${season.name} (${season.id})`);
+        await endSeason(season);
+        console.log(`Auto-ended expired season: ${season.name} (${season.id}, ${season.network})`);
       } catch (error) {
         console.error(`Failed to auto-end season ${season.id}:`, error);
       }
@@ -504,7 +838,7 @@ export async function registerRoutes(
 
   /**
    * GET /api/seasons
-   * List all seasons with optional status filter
+   * List a network's seasons with optional status filter
    */
   app.get("/api/seasons", async (req, res) => {
     try {
@@ -512,13 +846,15 @@ export async function registerRoutes(
       const limit = parseInt(limitParam as string) || 20;
       const offset = parseInt(offsetParam as string) || 0;
 
-      let query = db.select().from(seasons);
-
+      const conditions = [eq(seasons.network, getRequestNetwork(req))];
       if (status !== undefined && status !== "") {
-        query = query.where(eq(seasons.status, parseInt(status as string))) as typeof query;
+        conditions.push(eq(seasons.status, parseInt(status as string)));
       }
 
-      const allSeasons = await query
+      const allSeasons = await db
+        .select()
+        .from(seasons)
+        .where(and(...conditions))
         .orderBy(desc(seasons.seasonNumber))
         .limit(limit)
         .offset(offset);
@@ -532,7 +868,7 @@ export async function registerRoutes(
 
   /**
    * GET /api/seasons/current
-   * Get the current active season (with auto-end check)
+   * Get the network's current active season (with auto-end check)
    */
   app.get("/api/seasons/current", async (req, res) => {
     try {
@@ -542,7 +878,12 @@ export async function registerRoutes(
       const [currentSeason] = await db
         .select()
         .from(seasons)
-        .where(eq(seasons.status, SEASON_STATUS.ACTIVE))
+        .where(
+          and(
+            eq(seasons.network, getRequestNetwork(req)),
+            eq(seasons.status, SEASON_STATUS.ACTIVE)
+          )
+        )
         .limit(1);
 
       if (!currentSeason) {
@@ -570,7 +911,12 @@ export async function registerRoutes(
         const [currentSeason] = await db
           .select()
           .from(seasons)
-          .where(eq(seasons.status, SEASON_STATUS.ACTIVE))
+          .where(
+            and(
+              eq(seasons.network, getRequestNetwork(req)),
+              eq(seasons.status, SEASON_STATUS.ACTIVE)
+            )
+          )
           .limit(1);
         return res.json({ success: true, data: currentSeason || null });
       }
@@ -722,24 +1068,19 @@ export async function registerRoutes(
       const { seasonId } = req.query;
       const normalizedAddress = address.toLowerCase();
 
-      let query = db
-        .select()
-        .from(quests)
-        .where(eq(quests.creatorAddress, normalizedAddress));
-
+      const conditions = [
+        eq(quests.network, getRequestNetwork(req)),
+        eq(quests.creatorAddress, normalizedAddress),
+      ];
       if (seasonId && typeof seasonId === "string") {
-        query = db
-          .select()
-          .from(quests)
-          .where(
-            and(
-              eq(quests.creatorAddress, normalizedAddress),
-              eq(quests.seasonId, seasonId)
-            )
-          );
+        conditions.push(eq(quests.seasonId, seasonId));
       }
 
-      const creatorQuests = await query.orderBy(quests.questType, quests.createdAt);
+      const creatorQuests = await db
+        .select()
+        .from(quests)
+        .where(and(...conditions))
+        .orderBy(quests.questType, quests.createdAt);
 
       res.json({ success: true, quests: creatorQuests });
     } catch (error) {
@@ -750,16 +1091,17 @@ export async function registerRoutes(
 
   /**
    * GET /api/quests/progress/:address/:seasonId
-   * Get user's progress on all quests
+   * Get user's progress on all quests (daily/weekly rows from a past period read as reset)
    */
   app.get("/api/quests/progress/:address/:seasonId", async (req, res) => {
     try {
       const { address, seasonId } = req.params;
       const normalizedAddress = address.toLowerCase();
 
-      const progress = await db
-        .select()
+      const rows = await db
+        .select({ progress: questProgress, quest: quests })
         .from(questProgress)
+        .innerJoin(quests, eq(questProgress.questId, quests.id))
         .where(
           and(
             eq(questProgress.walletAddress, normalizedAddress),
@@ -767,6 +1109,9 @@ export async function registerRoutes(
           )
         );
 
+      const now = new Date();
+      const progress = rows.map((row) => getCurrentProgress(row.quest, row.progress, now));
+
       res.json({ success: true, data: progress });
     } catch (error) {
       console.error("Error fetching quest progress:", error);
@@ -778,7 +1123,7 @@ export async function registerRoutes(
    * POST /api/quests/claim/:address/:questId
    * Claim points for a completed quest
    */
-  app.post("/api/quests/claim/:address/:questId", async (req, res) => {
+  app.post("/api/quests/claim/:address/:questId", requireWalletSession(), async (req, res) => {
     try {
       const { address, questId } = req.params;
       const normalizedAddress = address.toLowerCase();
@@ -809,6 +1154,11 @@ export async function registerRoutes(
         return res.status(404).json({ success: false, error: "No progress found" });
       }
 
+      // Progress from a previous daily/weekly period can no longer be claimed
+      if (getCurrentProgress(quest, progress) !== progress) {
+        return res.status(400).json({ success: false, error: "Quest not completed" });
+      }
+
       if (progress.completed && progress.pointsAwarded > 0) {
         return res.status(400).json({ success: false, error: "Quest already claimed" });
       }
@@ -830,7 +1180,7 @@ export async function registerRoutes(
         .returning();
 
       // Update user's season points
-      const profile = await getOrCreateProfile(address);
+      const profile = await getOrCreateProfile(address, normalizeNetwork(quest.network));
       await db
         .update(userProfiles)
         .set({
@@ -882,21 +1232,77 @@ export async function registerRoutes(
     }
   });
 
+  /**
+   * POST /api/quests/actions/:address
+   * Report an on-chain action (create_poll, claim_reward, stake) for quest progress
+   * The transaction is verified on chain and credited only once
+   */
+  app.post("/api/quests/actions/:address", requireWalletSession(), async (req, res) => {
+    try {
+      const { address } = req.params;
+      const { action, txHash } = req.body;
+
+      if (!action || !txHash) {
+        return res.status(400).json({ success: false, error: "action and txHash are required" });
+      }
+
+      const network = getRequestNetwork(req);
+
+      let verified: VerifiedTransaction;
+      let amount: number;
+      switch (action) {
+        case QUEST_ACTIONS.CREATE_POLL:
+          verified = await verifyCreatePollTransaction(txHash, address, network);
+          amount = verified.pollIds.length;
+          break;
+        case QUEST_ACTIONS.CLAIM_REWARD: {
+          const claim = await verifyClaimRewardTransaction(txHash, address, network);
+          verified = claim;
+          amount = claim.pollIds.length + claim.questionnaireIds.length;
+          break;
+        }
+        case QUEST_ACTIONS.STAKE:
+          verified = await verifyStakeTransaction(txHash, address, network);
+          amount = 1;
+          break;
+        default:
+          return res.status(400).json({ success: false, error: "Unsupported quest action" });
+      }
+
+      await claimTransaction(verified, address);
+
+      const questsCompleted = amount > 0
+        ? await recordQuestActions(network, address, [{ action, amount }])
+        : [];
+
+      res.json({ success: true, data: { action, amount, questsCompleted } });
+    } catch (error) {
+      if (error instanceof TxVerificationError) {
+        return res.status(error.status).json({ success: false, error: error.message });
+      }
+      console.error("Error recording quest action:", error);
+      res.status(500).json({ success: false, error: "Failed to record quest action" });
+    }
+  });
+
   // ============================================
   // Admin/Creator Routes (for quest/season management)
   // ============================================
 
   /**
    * POST /api/seasons
-   * Create a new season (admin/creator only)
+   * Create a new season on the request's network (season operator only)
    */
-  app.post("/api/seasons", async (req, res) => {
+  app.post("/api/seasons", requireWalletSession((req) => req.body.creatorAddress), requireRole(ADMIN_ROLES.SEASON_OPERATOR), async (req, res) => {
     try {
       const { name, description, startTime, endTime, totalPulsePool, creatorAddress } = req.body;
 
       if (!name || !startTime || !endTime || !creatorAddress) {
         return res.status(400).json({ success: false, error: "Missing required fields" });
       }
+      if (totalPulsePool !== undefined && !isAmountString(totalPulsePool)) {
+        return res.status(400).json({ success: false, error: "totalPulsePool must be a u64 amount string in octas" });
+      }
 
       const start = new Date(startTime);
       const end = new Date(endTime);
@@ -905,12 +1311,15 @@ export async function registerRoutes(
         return res.status(400).json({ success: false, error: "End time must be after start time" });
       }
 
+      const network = getRequestNetwork(req);
+
       // Check for overlapping active/pending seasons
       const overlapping = await db
         .select()
         .from(seasons)
         .where(
           and(
+            eq(seasons.network, network),
             sql`${seasons.status} IN (${SEASON_STATUS.PENDING}, ${SEASON_STATUS.ACTIVE})`,
             sql`(${seasons.startTime} < ${end} AND ${seasons.endTime} > ${start})`
           )
@@ -928,6 +1337,7 @@ export async function registerRoutes(
       const [lastSeason] = await db
         .select()
         .from(seasons)
+        .where(eq(seasons.network, network))
         .orderBy(desc(seasons.seasonNumber))
         .limit(1);
 
@@ -936,12 +1346,13 @@ export async function registerRoutes(
       const [newSeason] = await db
         .insert(seasons)
         .values({
+          network,
           seasonNumber,
           name,
           description,
           startTime: start,
           endTime: end,
-          totalPulsePool: totalPulsePool?.toString() || "0",
+          totalPulsePool: totalPulsePool ?? "0",
           status: SEASON_STATUS.PENDING,
           creatorAddress: creatorAddress.toLowerCase(),
         })
@@ -958,7 +1369,7 @@ export async function registerRoutes(
    * POST /api/seasons/:seasonId/start
    * Manually start a pending season
    */
-  app.post("/api/seasons/:seasonId/start", async (req, res) => {
+  app.post("/api/seasons/:seasonId/start", requireWalletSession(() => undefined), requireRole(ADMIN_ROLES.SEASON_OPERATOR), async (req, res) => {
     try {
       const { seasonId } = req.params;
 
@@ -976,11 +1387,16 @@ export async function registerRoutes(
         return res.status(400).json({ success: false, error: "Season is not pending" });
       }
 
-      // Check no other active season
+      // Check no other active season on the same network
       const [activeSeason] = await db
         .select()
         .from(seasons)
-        .where(eq(seasons.status, SEASON_STATUS.ACTIVE))
+        .where(
+          and(
+            eq(seasons.network, season.network),
+            eq(seasons.status, SEASON_STATUS.ACTIVE)
+          )
+        )
         .limit(1);
 
       if (activeSeason) {
@@ -1015,7 +1431,7 @@ export async function registerRoutes(
    * POST /api/seasons/:seasonId/end
    * Manually end an active season (triggers snapshot creation)
    */
-  app.post("/api/seasons/:seasonId/end", async (req, res) => {
+  app.post("/api/seasons/:seasonId/end", requireWalletSession(() => undefined), requireRole(ADMIN_ROLES.SEASON_OPERATOR), async (req, res) => {
     try {
       const { seasonId } = req.params;
 
@@ -1034,7 +1450,7 @@ export async function registerRoutes(
       }
 
       // End the season (creates snapshots, resets points, deactivates quests)
-      await endSeason(seasonId);
+      await endSeason(season);
 
       const [updated] = await db
         .select()
@@ -1053,7 +1469,7 @@ export async function registerRoutes(
    * POST /api/seasons/:seasonId/distribute
    * Mark an ended season as distributed (after manual PULSE distribution)
    */
-  app.post("/api/seasons/:seasonId/distribute", async (req, res) => {
+  app.post("/api/seasons/:seasonId/distribute", requireWalletSession(() => undefined), requireRole(ADMIN_ROLES.SEASON_OPERATOR), async (req, res) => {
     try {
       const { seasonId } = req.params;
 
@@ -1116,7 +1532,7 @@ export async function registerRoutes(
    * POST /api/seasons/:seasonId/copy-quests
    * Copy quests from another season to this one
    */
-  app.post("/api/seasons/:seasonId/copy-quests", async (req, res) => {
+  app.post("/api/seasons/:seasonId/copy-quests", requireWalletSession(() => undefined), requireRole(ADMIN_ROLES.SEASON_OPERATOR), async (req, res) => {
     try {
       const { seasonId } = req.params;
       const { fromSeasonId } = req.body;
@@ -1150,8 +1566,9 @@ export async function registerRoutes(
         return res.status(400).json({ success: false, error: "No quests in source season" });
       }
 
-      // Copy quests to new season
+      // Copy quests to new season (on the target season's network)
       const newQuests = sourceQuests.map((q) => ({
+        network: targetSeason.network,
         seasonId,
         questType: q.questType,
         name: q.name,
@@ -1177,9 +1594,9 @@ export async function registerRoutes(
 
   /**
    * POST /api/quests
-   * Create a new quest (admin/creator only)
+   * Create a new quest (quest author only)
    */
-  app.post("/api/quests", async (req, res) => {
+  app.post("/api/quests", requireWalletSession((req) => req.body.creatorAddress), requireRole(ADMIN_ROLES.QUEST_AUTHOR), async (req, res) => {
     try {
       const {
         seasonId,
@@ -1199,9 +1616,21 @@ export async function registerRoutes(
         return res.status(400).json({ success: false, error: "Missing required fields" });
       }
 
+      // Quests live on their season's network
+      const [season] = await db
+        .select({ network: seasons.network })
+        .from(seasons)
+        .where(eq(seasons.id, seasonId))
+        .limit(1);
+
+      if (!season) {
+        return res.status(404).json({ success: false, error: "Season not found" });
+      }
+
       const [newQuest] = await db
         .insert(quests)
         .values({
+          network: season.network,
           seasonId,
           questType,
           name,
@@ -1226,9 +1655,9 @@ export async function registerRoutes(
 
   /**
    * PATCH /api/seasons/:seasonId/status
-   * Update season status (admin only)
+   * Update season status (season operator only)
    */
-  app.patch("/api/seasons/:seasonId/status", async (req, res) => {
+  app.patch("/api/seasons/:seasonId/status", requireWalletSession(() => undefined), requireRole(ADMIN_ROLES.SEASON_OPERATOR), async (req, res) => {
     try {
       const { seasonId } = req.params;
       const { status } = req.body;
@@ -1254,183 +1683,298 @@ export async function registerRoutes(
   });
 
   // ============================================
-  // Gas Sponsorship Routes
+  // Admin Role Routes
   // ============================================
 
   /**
-   * GET /api/sponsorship-status
-   * Check gas sponsorship availability for an address
+   * GET /api/admin/roles
+   * List all role grants and bootstrap admins (admin only)
    */
-  app.get("/api/sponsorship-status", async (req, res) => {
+  app.get("/api/admin/roles", requireWalletSession(() => undefined), requireRole(ADMIN_ROLES.ADMIN), async (req, res) => {
     try {
-      const { address, network } = req.query;
-
-      if (!address || typeof address !== "string") {
-        return res.status(400).json({ success: false, error: "Address is required" });
-      }
-
-      const normalizedAddress = address.toLowerCase();
-      const today = new Date();
-      today.setHours(0, 0, 0, 0);
-
-      // Count today's sponsored transactions
-      const dailyLogs = await db
-        .select()
-        .from(sponsorshipLogs)
-        .where(
-          and(
-            eq(sponsorshipLogs.walletAddress, normalizedAddress),
-            gte(sponsorshipLogs.createdAt, today)
-          )
-        );
-
-      const dailyUsed = dailyLogs.length;
-      const remaining = Math.max(0, DAILY_SPONSORSHIP_LIMIT - dailyUsed);
-
-      // Get user settings
-      const [settings] = await db
+      const grants = await db
         .select()
-        .from(userSettings)
-        .where(eq(userSettings.walletAddress, normalizedAddress))
-        .limit(1);
+        .from(adminRoles)
+        .orderBy(desc(adminRoles.createdAt));
 
       res.json({
         success: true,
-        dailyUsed,
-        dailyLimit: DAILY_SPONSORSHIP_LIMIT,
-        remaining,
-        enabled: settings?.gasSponsorshipEnabled ?? true, // Default to enabled
+        data: {
+          grants,
+          bootstrapAdmins: getBootstrapAdmins(),
+        },
       });
     } catch (error) {
-      console.error("Error checking sponsorship status:", error);
-      res.status(500).json({ success: false, error: "Failed to check status" });
+      console.error("Error fetching roles:", error);
+      res.status(500).json({ success: false, error: "Failed to fetch roles" });
     }
   });
 
   /**
-   * POST /api/sponsor-transaction
-   * Sponsor and submit a transaction via Shinami Gas Station
+   * GET /api/admin/roles/audit
+   * Get the role grant/revoke audit trail (admin only)
    */
-  app.post("/api/sponsor-transaction", async (req, res) => {
+  app.get("/api/admin/roles/audit", requireWalletSession(() => undefined), requireRole(ADMIN_ROLES.ADMIN), async (req, res) => {
     try {
-      const { serializedTransaction, senderSignature, senderAddress, network } = req.body;
-
-      if (!serializedTransaction || !senderSignature || !senderAddress) {
-        return res.status(400).json({
-          success: false,
-          error: "Missing required parameters",
-          fallbackRequired: true,
-        });
-      }
+      const limit = Math.min(parseInt(req.query.limit as string) || 50, 200);
+      const offset = parseInt(req.query.offset as string) || 0;
 
-      const normalizedAddress = senderAddress.toLowerCase();
-      const networkType = network === "mainnet" ? "mainnet" : "testnet";
+      const entries = await db
+        .select()
+        .from(adminRoleAudit)
+        .orderBy(desc(adminRoleAudit.createdAt))
+        .limit(limit)
+        .offset(offset);
 
-      // Check rate limit
-      const today = new Date();
-      today.setHours(0, 0, 0, 0);
+      res.json({ success: true, data: entries });
+    } catch (error) {
+      console.error("Error fetching role audit log:", error);
+      res.status(500).json({ success: false, error: "Failed to fetch audit log" });
+    }
+  });
 
-      const dailyLogs = await db
-        .select()
-        .from(sponsorshipLogs)
-        .where(
-          and(
-            eq(sponsorshipLogs.walletAddress, normalizedAddress),
-            gte(sponsorshipLogs.createdAt, today)
-          )
-        );
+  /**
+   * GET /api/admin/roles/:address
+   * Get the effective roles for a wallet address
+   */
+  app.get("/api/admin/roles/:address", async (req, res) => {
+    try {
+      const roles = await getRolesForAddress(req.params.address);
+      res.json({ success: true, data: { address: req.params.address.toLowerCase(), roles } });
+    } catch (error) {
+      console.error("Error fetching address roles:", error);
+      res.status(500).json({ success: false, error: "Failed to fetch roles" });
+    }
+  });
 
-      const dailyUsed = dailyLogs.length;
+  /**
+   * POST /api/admin/roles
+   * Grant a role to a wallet address (admin only)
+   */
+  app.post("/api/admin/roles", requireWalletSession(() => undefined), requireRole(ADMIN_ROLES.ADMIN), async (req, res) => {
+    try {
+      const { walletAddress, role } = req.body;
 
-      if (dailyUsed >= DAILY_SPONSORSHIP_LIMIT) {
-        return res.json({
-          success: false,
-          fallbackRequired: true,
-          reason: "daily_limit",
-          dailyUsed,
-          dailyLimit: DAILY_SPONSORSHIP_LIMIT,
-        });
+      if (!walletAddress || !role) {
+        return res.status(400).json({ success: false, error: "walletAddress and role are required" });
       }
 
-      // Select API key based on network
-      const apiKey = networkType === "mainnet"
-        ? process.env.SHINAMI_GAS_KEY_MAINNET
-        : process.env.SHINAMI_GAS_KEY_TESTNET;
-
-      if (!apiKey) {
-        console.error(`Shinami API key not configured for ${networkType}`);
-        return res.json({
-          success: false,
-          fallbackRequired: true,
-          error: "Gas sponsorship not configured for this network",
-        });
+      if (!isAdminRole(role)) {
+        return res.status(400).json({ success: false, error: "Unknown role" });
       }
 
-      // Call Shinami Gas Station API
-      const shinamiResponse = await fetch("https://api.us1.shinami.com/movement/gas/v1", {
-        method: "POST",
-        headers: {
-          "X-API-Key": apiKey,
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          jsonrpc: "2.0",
-          method: "gas_sponsorAndSubmitSignedTransaction",
-          params: [serializedTransaction, senderSignature],
-          id: 1,
-        }),
-      });
+      const normalizedAddress = walletAddress.toLowerCase();
+      const actorAddress = req.walletSession!.address;
 
-      if (!shinamiResponse.ok) {
-        const errorText = await shinamiResponse.text();
-        console.error("Shinami API error:", errorText);
-        return res.json({
-          success: false,
-          fallbackRequired: true,
-          error: "Shinami API error",
-        });
+      const [existing] = await db
+        .select()
+        .from(adminRoles)
+        .where(and(eq(adminRoles.walletAddress, normalizedAddress), eq(adminRoles.role, role)))
+        .limit(1);
+
+      if (existing) {
+        return res.status(400).json({ success: false, error: "Address already has this role" });
       }
 
-      const result = await shinamiResponse.json();
+      const [grant] = await db
+        .insert(adminRoles)
+        .values({
+          walletAddress: normalizedAddress,
+          role,
+          grantedBy: actorAddress,
+        })
+        .returning();
 
-      // Check for JSON-RPC errors
-      if (result.error) {
-        console.error("Shinami RPC error:", result.error);
-        return res.json({
+      await db.insert(adminRoleAudit).values({
+        action: ROLE_AUDIT_ACTIONS.GRANT,
+        walletAddress: normalizedAddress,
+        role,
+        actorAddress,
+      });
+
+      res.json({ success: true, data: grant });
+    } catch (error) {
+      console.error("Error granting role:", error);
+      res.status(500).json({ success: false, error: "Failed to grant role" });
+    }
+  });
+
+  /**
+   * DELETE /api/admin/roles/:address/:role
+   * Revoke a role from a wallet address (admin only)
+   */
+  app.delete("/api/admin/roles/:address/:role", requireWalletSession(() => undefined), requireRole(ADMIN_ROLES.ADMIN), async (req, res) => {
+    try {
+      const { role } = req.params;
+      const normalizedAddress = req.params.address.toLowerCase();
+      const actorAddress = req.walletSession!.address;
+
+      if (!isAdminRole(role)) {
+        return res.status(400).json({ success: false, error: "Unknown role" });
+      }
+
+      // Prevent admins from locking themselves out
+      if (role === ADMIN_ROLES.ADMIN && normalizedAddress === actorAddress) {
+        return res.status(400).json({ success: false, error: "Cannot revoke your own admin role" });
+      }
+
+      const removed = await db
+        .delete(adminRoles)
+        .where(and(eq(adminRoles.walletAddress, normalizedAddress), eq(adminRoles.role, role)))
+        .returning();
+
+      if (removed.length === 0) {
+        return res.status(404).json({ success: false, error: "Role grant not found" });
+      }
+
+      await db.insert(adminRoleAudit).values({
+        action: ROLE_AUDIT_ACTIONS.REVOKE,
+        walletAddress: normalizedAddress,
+        role,
+        actorAddress,
+      });
+
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error revoking role:", error);
+      res.status(500).json({ success: false, error: "Failed to revoke role" });
+    }
+  });
+
+  // ============================================
+  // Gas Sponsorship Routes
+  // ============================================
+
+  /**
+   * GET /api/sponsorship-status
+   * Check gas sponsorship availability for an address
+   */
+  app.get("/api/sponsorship-status", async (req, res) => {
+    try {
+      const { address } = req.query;
+
+      if (!address || typeof address !== "string") {
+        return res.status(400).json({ success: false, error: "Address is required" });
+      }
+
+      const normalizedAddress = address.toLowerCase();
+      const network = getRequestNetwork(req);
+
+      const [policy, dailyUsed, tier] = await Promise.all([
+        getSponsorshipPolicy(network),
+        getDailySponsorshipCount(network, normalizedAddress),
+        getSponsorshipTier(normalizedAddress, network),
+      ]);
+      const dailyLimit = getTierDailyLimit(policy, tier);
+      const remaining = Math.max(0, dailyLimit - dailyUsed);
+
+      // Get user settings
+      const [settings] = await db
+        .select()
+        .from(userSettings)
+        .where(and(eq(userSettings.network, network), eq(userSettings.walletAddress, normalizedAddress)))
+        .limit(1);
+
+      res.json({
+        success: true,
+        dailyUsed,
+        dailyLimit,
+        remaining,
+        tier,
+        provider: getSponsorProvider(network)?.name ?? null,
+        enabled: settings?.gasSponsorshipEnabled ?? true, // Default to enabled
+      });
+    } catch (error) {
+      console.error("Error checking sponsorship status:", error);
+      res.status(500).json({ success: false, error: "Failed to check status" });
+    }
+  });
+
+  /**
+   * POST /api/sponsor-transaction
+   * Sponsor and submit a transaction via the network's sponsor provider,
+   * subject to the network's sponsorship policy
+   */
+  app.post("/api/sponsor-transaction", async (req, res) => {
+    try {
+      const { serializedTransaction, senderSignature, senderAddress, network } = req.body;
+
+      if (!serializedTransaction || !senderSignature || !senderAddress) {
+        return res.status(400).json({
           success: false,
+          error: "Missing required parameters",
           fallbackRequired: true,
-          error: result.error.message || "Shinami RPC error",
         });
       }
 
-      const pendingTx = result.result?.pendingTransaction;
+      const normalizedAddress = senderAddress.toLowerCase();
+      const networkType = normalizeNetwork(network);
+
+      // Policy and limits apply to the transaction's real sender and function
+      const transaction = describeSponsoredTransaction(serializedTransaction);
+      if (transaction.sender !== normalizeAddress(normalizedAddress)) {
+        return res.status(400).json({
+          success: false,
+          fallbackRequired: true,
+          error: "Transaction sender does not match senderAddress",
+        });
+      }
 
-      if (!pendingTx?.hash) {
-        console.error("Unexpected Shinami response:", result);
+      const provider = getSponsorProvider(networkType);
+      if (!provider) {
+        console.error(`Gas sponsorship not configured for ${networkType}`);
         return res.json({
           success: false,
           fallbackRequired: true,
-          error: "Unexpected response from Shinami",
+          error: "Gas sponsorship not configured for this network",
         });
       }
 
-      // Log successful sponsorship
-      await db.insert(sponsorshipLogs).values({
+      const allowance = await checkSponsorshipPolicy({
+        network: networkType,
         walletAddress: normalizedAddress,
-        txHash: pendingTx.hash,
+        tier: await getSponsorshipTier(normalizedAddress, networkType),
+        moduleAddress: transaction.moduleAddress,
+        entryFunction: transaction.entryFunction,
+        maxGasAmount: transaction.maxGasAmount,
+        gasUnitPrice: transaction.gasUnitPrice,
+      });
+
+      let pendingTx;
+      try {
+        pendingTx = await provider.sponsorAndSubmit(serializedTransaction, senderSignature);
+      } catch (error) {
+        await releaseSponsorship(allowance.reservationId);
+        throw error;
+      }
+
+      // The reservation is settled with the gas actually used once it commits
+      await recordSponsorship({
         network: networkType,
+        reservationId: allowance.reservationId,
+        txHash: pendingTx.hash,
+        provider: provider.name,
       });
 
       res.json({
         success: true,
         transactionHash: pendingTx.hash,
         sender: pendingTx.sender,
-        sequenceNumber: pendingTx.sequence_number,
+        sequenceNumber: pendingTx.sequenceNumber,
         sponsored: true,
-        dailyUsed: dailyUsed + 1,
-        dailyLimit: DAILY_SPONSORSHIP_LIMIT,
+        provider: provider.name,
+        dailyUsed: allowance.dailyUsed + 1,
+        dailyLimit: allowance.dailyLimit,
       });
     } catch (error) {
+      if (error instanceof SponsorshipPolicyError) {
+        return res.status(error.status).json({
+          success: false,
+          fallbackRequired: true,
+          reason: error.reason,
+          error: error.message,
+        });
+      }
       console.error("Error sponsoring transaction:", error);
       res.json({
         success: false,
@@ -1440,6 +1984,68 @@ export async function registerRoutes(
     }
   });
 
+  /**
+   * GET /api/admin/sponsorship
+   * Sponsorship policy and gas spend for the request's network (admin only)
+   */
+  app.get("/api/admin/sponsorship", requireWalletSession(() => undefined), requireRole(ADMIN_ROLES.ADMIN), async (req, res) => {
+    try {
+      const network = getRequestNetwork(req);
+      await settlePendingSponsorships(network);
+      const spend = await getSponsorshipSpend(network);
+
+      res.json({
+        success: true,
+        data: { ...spend, provider: getSponsorProvider(network)?.name ?? null },
+      });
+    } catch (error) {
+      console.error("Error fetching sponsorship spend:", error);
+      res.status(500).json({ success: false, error: "Failed to fetch sponsorship spend" });
+    }
+  });
+
+  /**
+   * PUT /api/admin/sponsorship/policy
+   * Replace the request network's sponsorship policy (admin only)
+   * Body: { allowedFunctions, tierDailyLimits, dailyGasBudget }
+   */
+  app.put("/api/admin/sponsorship/policy", requireWalletSession(() => undefined), requireRole(ADMIN_ROLES.ADMIN), async (req, res) => {
+    try {
+      const settings = normalizeSponsorshipPolicy(req.body);
+      const policy = await saveSponsorshipPolicy(getRequestNetwork(req), settings, req.walletSession!.address);
+
+      res.json({ success: true, data: policy });
+    } catch (error) {
+      if (error instanceof SponsorshipPolicyError) {
+        return res.status(error.status).json({ success: false, error: error.message });
+      }
+      console.error("Error saving sponsorship policy:", error);
+      res.status(500).json({ success: false, error: "Failed to save sponsorship policy" });
+    }
+  });
+
+  /**
+   * PUT /api/admin/sponsorship/campaigns/:seasonId
+   * Set or clear a season's sponsorship campaign budget (admin only)
+   * Body: { budget: string (octas) | null }
+   */
+  app.put("/api/admin/sponsorship/campaigns/:seasonId", requireWalletSession(() => undefined), requireRole(ADMIN_ROLES.ADMIN), async (req, res) => {
+    try {
+      const season = await setCampaignBudget(getRequestNetwork(req), req.params.seasonId, req.body.budget ?? null);
+      if (!season) {
+        return res.status(404).json({ success: false, error: "Season not found" });
+      }
+
+      res.json({ success: true, data: season });
+    } catch (error) {
+      if (error instanceof SponsorshipPolicyError) {
+        return res.status(error.status).json({ success: false, error: error.message });
+      }
+      console.error("Error setting campaign budget:", error);
+      res.status(500).json({ success: false, error: "Failed to set campaign budget" });
+    }
+  });
+
   /**
    * GET /api/user/settings/:address
    * Get user settings including gas sponsorship preference
@@ -1448,11 +2054,12 @@ export async function registerRoutes(
     try {
       const { address } = req.params;
       const normalizedAddress = address.toLowerCase();
+      const network = getRequestNetwork(req);
 
       const [settings] = await db
         .select()
         .from(userSettings)
-        .where(eq(userSettings.walletAddress, normalizedAddress))
+        .where(and(eq(userSettings.network, network), eq(userSettings.walletAddress, normalizedAddress)))
         .limit(1);
 
       if (!settings) {
@@ -1460,6 +2067,7 @@ export async function registerRoutes(
         return res.json({
           success: true,
           data: {
+            network,
             walletAddress: normalizedAddress,
             gasSponsorshipEnabled: true, // Default to enabled
           },
@@ -1477,17 +2085,18 @@ export async function registerRoutes(
    * PUT /api/user/settings/:address
    * Update user settings
    */
-  app.put("/api/user/settings/:address", async (req, res) => {
+  app.put("/api/user/settings/:address", requireWalletSession(), async (req, res) => {
     try {
       const { address } = req.params;
       const { gasSponsorshipEnabled } = req.body;
       const normalizedAddress = address.toLowerCase();
+      const network = getRequestNetwork(req);
 
       // Upsert settings
       const [existing] = await db
         .select()
         .from(userSettings)
-        .where(eq(userSettings.walletAddress, normalizedAddress))
+        .where(and(eq(userSettings.network, network), eq(userSettings.walletAddress, normalizedAddress)))
         .limit(1);
 
       if (existing) {
@@ -1505,6 +2114,7 @@ export async function registerRoutes(
         const [created] = await db
           .insert(userSettings)
           .values({
+            network,
             walletAddress: normalizedAddress,
             gasSponsorshipEnabled: gasSponsorshipEnabled ?? true,
           })
@@ -1518,6 +2128,119 @@ export async function registerRoutes(
     }
   });
 
+  // ============================================
+  // Notification Endpoints
+  // ============================================
+
+  /**
+   * GET /api/notifications
+   * The session wallet's in-app notifications, newest first, with its unread count
+   * Query: network, limit (default 30, max 100)
+   */
+  app.get("/api/notifications", requireWalletSession(() => undefined), async (req, res) => {
+    try {
+      const limit = Math.min(Math.max(parseInt(req.query.limit as string) || 30, 1), 100);
+      const data = await getNotifications(getRequestNetwork(req), req.walletSession!.address, limit);
+      res.json({ success: true, data });
+    } catch (error) {
+      console.error("Error fetching notifications:", error);
+      res.status(500).json({ success: false, error: "Failed to fetch notifications" });
+    }
+  });
+
+  /**
+   * POST /api/notifications/read
+   * Mark notifications read
+   * Body: { network, ids? } (no ids = all)
+   */
+  app.post("/api/notifications/read", requireWalletSession(() => undefined), async (req, res) => {
+    try {
+      const { ids } = req.body;
+      if (ids !== undefined && (!Array.isArray(ids) || ids.some((id) => typeof id !== "string"))) {
+        return res.status(400).json({ success: false, error: "ids must be a list of notification IDs" });
+      }
+
+      const updated = await markNotificationsRead(getRequestNetwork(req), req.walletSession!.address, ids);
+      res.json({ success: true, data: { updated } });
+    } catch (error) {
+      console.error("Error marking notifications read:", error);
+      res.status(500).json({ success: false, error: "Failed to mark notifications read" });
+    }
+  });
+
+  /**
+   * GET /api/notifications/preferences
+   * The session wallet's channels per notification type, email and webhook (with its signing secret)
+   */
+  app.get("/api/notifications/preferences", requireWalletSession(() => undefined), async (req, res) => {
+    try {
+      const data = await getNotificationPreferences(req.walletSession!.address);
+      res.json({ success: true, data: toPreferencesView(data) });
+    } catch (error) {
+      console.error("Error fetching notification preferences:", error);
+      res.status(500).json({ success: false, error: "Failed to fetch notification preferences" });
+    }
+  });
+
+  /**
+   * PUT /api/notifications/preferences
+   * Update notification preferences; omitted fields are kept
+   * A new email address is sent a confirmation link before it receives anything.
+   * Body: { channels?, email?, webhookUrl?, rotateWebhookSecret?, resendEmailConfirmation? }
+   */
+  app.put("/api/notifications/preferences", requireWalletSession(() => undefined), async (req, res) => {
+    try {
+      const { channels, email, webhookUrl, rotateWebhookSecret, resendEmailConfirmation } = req.body;
+      const data = await saveNotificationPreferences(req.walletSession!.address, {
+        channels,
+        email,
+        webhookUrl,
+        rotateWebhookSecret: rotateWebhookSecret === true,
+        resendEmailConfirmation: resendEmailConfirmation === true,
+      });
+      res.json({ success: true, data: toPreferencesView(data) });
+    } catch (error) {
+      if (error instanceof NotificationError) {
+        return res.status(error.status).json({ success: false, error: error.message });
+      }
+      console.error("Error saving notification preferences:", error);
+      res.status(500).json({ success: false, error: "Failed to save notification preferences" });
+    }
+  });
+
+  /**
+   * POST /api/notifications/email/confirm
+   * Confirm a notification email from the link it was sent; needs no wallet session
+   * Body: { token }
+   */
+  app.post("/api/notifications/email/confirm", async (req, res) => {
+    try {
+      const confirmed = await confirmNotificationEmail(req.body?.token);
+      res.json({ success: true, data: { email: confirmed.email } });
+    } catch (error) {
+      if (error instanceof NotificationError) {
+        return res.status(error.status).json({ success: false, error: error.message });
+      }
+      console.error("Error confirming notification email:", error);
+      res.status(500).json({ success: false, error: "Failed to confirm email" });
+    }
+  });
+
+  /**
+   * POST /api/notifications/test
+   * Send a sample notification to the session wallet's email and webhook
+   * Body: { network }
+   */
+  app.post("/api/notifications/test", requireWalletSession(() => undefined), async (req, res) => {
+    try {
+      const data = await sendTestNotification(getRequestNetwork(req), req.walletSession!.address);
+      res.json({ success: true, data });
+    } catch (error) {
+      console.error("Error sending test notification:", error);
+      res.status(500).json({ success: false, error: "Failed to send test notification" });
+    }
+  });
+
   // ============================================
   // Referral System Endpoints
   // ============================================
@@ -1549,22 +2272,27 @@ export async function registerRoutes(
   }
 
   /**
-   * Get or create referral stats for a user
+   * Get or create referral stats for a user on a network
    */
-  async function getOrCreateReferralStats(walletAddress: string) {
+  async function getOrCreateReferralStats(walletAddress: string, network: NetworkType) {
     const normalizedAddress = walletAddress.toLowerCase();
 
     const [existing] = await db
       .select()
       .from(referralStats)
-      .where(eq(referralStats.walletAddress, normalizedAddress))
+      .where(
+        and(
+          eq(referralStats.network, network),
+          eq(referralStats.walletAddress, normalizedAddress)
+        )
+      )
       .limit(1);
 
     if (existing) return existing;
 
     const [created] = await db
       .insert(referralStats)
-      .values({ walletAddress: normalizedAddress })
+      .values({ network, walletAddress: normalizedAddress })
       .returning();
 
     return created;
@@ -1574,6 +2302,7 @@ export async function registerRoutes(
    * Award referral milestone and update stats
    */
   async function awardReferralMilestone(
+    network: NetworkType,
     referralId: string,
     referrerAddress: string,
     refereeAddress: string,
@@ -1585,6 +2314,7 @@ export async function registerRoutes(
       .from(referralMilestones)
       .where(
         and(
+          eq(referralMilestones.network, network),
           eq(referralMilestones.referralId, referralId),
           eq(referralMilestones.milestoneType, milestoneType)
         )
@@ -1594,7 +2324,7 @@ export async function registerRoutes(
     if (existingMilestone) return null;
 
     // Get referrer's stats to calculate tier multiplier
-    const referrerStats = await getOrCreateReferralStats(referrerAddress);
+    const referrerStats = await getOrCreateReferralStats(referrerAddress, network);
     const tierMultiplier = REFERRAL_TIER_MULTIPLIERS[referrerStats.currentTier as keyof typeof REFERRAL_TIER_MULTIPLIERS] || 1;
 
     // Get base rewards
@@ -1606,6 +2336,7 @@ export async function registerRoutes(
 
     // Create milestone record
     await db.insert(referralMilestones).values({
+      network,
       referralId,
       milestoneType,
       referrerPointsAwarded: referrerPoints,
@@ -1619,7 +2350,12 @@ export async function registerRoutes(
         totalPointsEarned: sql`${referralStats.totalPointsEarned} + ${referrerPoints}`,
         updatedAt: new Date(),
       })
-      .where(eq(referralStats.walletAddress, referrerAddress.toLowerCase()));
+      .where(
+        and(
+          eq(referralStats.network, network),
+          eq(referralStats.walletAddress, referrerAddress.toLowerCase())
+        )
+      );
 
     // Update referee's season points if they have a profile
     if (refereePoints > 0) {
@@ -1629,7 +2365,12 @@ export async function registerRoutes(
           seasonPoints: sql`${userProfiles.seasonPoints} + ${refereePoints}`,
           updatedAt: new Date(),
         })
-        .where(eq(userProfiles.walletAddress, refereeAddress.toLowerCase()));
+        .where(
+          and(
+            eq(userProfiles.network, network),
+            eq(userProfiles.walletAddress, refereeAddress.toLowerCase())
+          )
+        );
     }
 
     // Update referrer's season points
@@ -1640,7 +2381,12 @@ export async function registerRoutes(
           seasonPoints: sql`${userProfiles.seasonPoints} + ${referrerPoints}`,
           updatedAt: new Date(),
         })
-        .where(eq(userProfiles.walletAddress, referrerAddress.toLowerCase()));
+        .where(
+          and(
+            eq(userProfiles.network, network),
+            eq(userProfiles.walletAddress, referrerAddress.toLowerCase())
+          )
+        );
     }
 
     return { referrerPoints, refereePoints };
@@ -1654,12 +2400,13 @@ export async function registerRoutes(
     try {
       const { address } = req.params;
       const normalizedAddress = address.toLowerCase();
+      const network = getRequestNetwork(req);
 
       // Check for existing code
       const [existing] = await db
         .select()
         .from(referralCodes)
-        .where(eq(referralCodes.walletAddress, normalizedAddress))
+        .where(and(eq(referralCodes.network, network), eq(referralCodes.walletAddress, normalizedAddress)))
         .limit(1);
 
       if (existing) {
@@ -1673,7 +2420,7 @@ export async function registerRoutes(
         const [collision] = await db
           .select()
           .from(referralCodes)
-          .where(eq(referralCodes.code, code))
+          .where(and(eq(referralCodes.network, network), eq(referralCodes.code, code)))
           .limit(1);
 
         if (!collision) break;
@@ -1685,13 +2432,14 @@ export async function registerRoutes(
       const [created] = await db
         .insert(referralCodes)
         .values({
+          network,
           walletAddress: normalizedAddress,
           code,
         })
         .returning();
 
       // Ensure referral stats exist
-      await getOrCreateReferralStats(normalizedAddress);
+      await getOrCreateReferralStats(normalizedAddress, network);
 
       res.json({ success: true, data: created });
     } catch (error) {
@@ -1711,7 +2459,7 @@ export async function registerRoutes(
       const [referralCode] = await db
         .select()
         .from(referralCodes)
-        .where(eq(referralCodes.code, code.toUpperCase()))
+        .where(and(eq(referralCodes.network, getRequestNetwork(req)), eq(referralCodes.code, code.toUpperCase())))
         .limit(1);
 
       if (!referralCode) {
@@ -1735,7 +2483,7 @@ export async function registerRoutes(
    * POST /api/referral/track
    * Track a referral when a new user connects with a referral code
    */
-  app.post("/api/referral/track", async (req, res) => {
+  app.post("/api/referral/track", requireWalletSession((req) => req.body.refereeAddress), async (req, res) => {
     try {
       const { refereeAddress, referralCode } = req.body;
 
@@ -1744,12 +2492,18 @@ export async function registerRoutes(
       }
 
       const normalizedRefereeAddress = refereeAddress.toLowerCase();
+      const network = getRequestNetwork(req);
 
-      // Check if referee has already been referred
+      // Check if referee has already been referred on this network
       const [existingReferral] = await db
         .select()
         .from(referrals)
-        .where(eq(referrals.refereeAddress, normalizedRefereeAddress))
+        .where(
+          and(
+            eq(referrals.network, network),
+            eq(referrals.refereeAddress, normalizedRefereeAddress)
+          )
+        )
         .limit(1);
 
       if (existingReferral) {
@@ -1760,7 +2514,7 @@ export async function registerRoutes(
       const [codeRecord] = await db
         .select()
         .from(referralCodes)
-        .where(eq(referralCodes.code, referralCode.toUpperCase()))
+        .where(and(eq(referralCodes.network, network), eq(referralCodes.code, referralCode.toUpperCase())))
         .limit(1);
 
       if (!codeRecord) {
@@ -1780,6 +2534,7 @@ export async function registerRoutes(
         .from(referrals)
         .where(
           and(
+            eq(referrals.network, network),
             eq(referrals.referrerAddress, normalizedRefereeAddress),
             eq(referrals.refereeAddress, referrerAddress)
           )
@@ -1794,6 +2549,7 @@ export async function registerRoutes(
       const [newReferral] = await db
         .insert(referrals)
         .values({
+          network,
           referrerAddress,
           refereeAddress: normalizedRefereeAddress,
           referralCode: referralCode.toUpperCase(),
@@ -1803,22 +2559,35 @@ export async function registerRoutes(
         .returning();
 
       // Update referrer's total referrals count
+      await getOrCreateReferralStats(referrerAddress, network);
       await db
         .update(referralStats)
         .set({
           totalReferrals: sql`${referralStats.totalReferrals} + 1`,
           updatedAt: new Date(),
         })
-        .where(eq(referralStats.walletAddress, referrerAddress));
+        .where(
+          and(
+            eq(referralStats.network, network),
+            eq(referralStats.walletAddress, referrerAddress)
+          )
+        );
 
       // Award wallet_connect milestone
       const milestoneResult = await awardReferralMilestone(
+        network,
         newReferral.id,
         referrerAddress,
         normalizedRefereeAddress,
         REFERRAL_MILESTONES.WALLET_CONNECT
       );
 
+      try {
+        await recordQuestActions(network, referrerAddress, [{ action: QUEST_ACTIONS.REFERRAL }]);
+      } catch (questError) {
+        console.error("Error updating quest progress:", questError);
+      }
+
       res.json({
         success: true,
         data: {
@@ -1841,13 +2610,14 @@ export async function registerRoutes(
       const { address } = req.params;
       const normalizedAddress = address.toLowerCase();
 
-      const stats = await getOrCreateReferralStats(normalizedAddress);
+      const network = getRequestNetwork(req);
+      const stats = await getOrCreateReferralStats(normalizedAddress, network);
 
       // Get referral code
       const [codeRecord] = await db
         .select()
         .from(referralCodes)
-        .where(eq(referralCodes.walletAddress, normalizedAddress))
+        .where(and(eq(referralCodes.network, network), eq(referralCodes.walletAddress, normalizedAddress)))
         .limit(1);
 
       // Calculate next tier threshold
@@ -1886,6 +2656,7 @@ export async function registerRoutes(
     try {
       const { address } = req.params;
       const normalizedAddress = address.toLowerCase();
+      const network = getRequestNetwork(req);
 
       const refereeList = await db
         .select({
@@ -1897,7 +2668,12 @@ export async function registerRoutes(
           completedAt: referrals.completedAt,
         })
         .from(referrals)
-        .where(eq(referrals.referrerAddress, normalizedAddress))
+        .where(
+          and(
+            eq(referrals.network, network),
+            eq(referrals.referrerAddress, normalizedAddress)
+          )
+        )
         .orderBy(desc(referrals.createdAt));
 
       // Get milestones for each referral
@@ -1906,7 +2682,7 @@ export async function registerRoutes(
           const milestones = await db
             .select()
             .from(referralMilestones)
-            .where(eq(referralMilestones.referralId, referee.id))
+            .where(and(eq(referralMilestones.network, network), eq(referralMilestones.referralId, referee.id)))
             .orderBy(desc(referralMilestones.achievedAt));
 
           const totalPointsFromReferee = milestones.reduce(
@@ -1931,7 +2707,7 @@ export async function registerRoutes(
 
   /**
    * GET /api/referral/leaderboard
-   * Get referral leaderboard
+   * Get a network's referral leaderboard
    */
   app.get("/api/referral/leaderboard", async (req, res) => {
     try {
@@ -1941,7 +2717,12 @@ export async function registerRoutes(
       const leaderboard = await db
         .select()
         .from(referralStats)
-        .where(gte(referralStats.totalReferrals, 1))
+        .where(
+          and(
+            eq(referralStats.network, getRequestNetwork(req)),
+            gte(referralStats.totalReferrals, 1)
+          )
+        )
         .orderBy(desc(referralStats.totalPointsEarned))
         .limit(limit)
         .offset(offset);
@@ -1964,14 +2745,19 @@ export async function registerRoutes(
    * Internal function: Check and award referral milestones based on vote count
    * Called after recording a vote
    */
-  async function checkReferralMilestones(walletAddress: string, totalVotes: number) {
+  async function checkReferralMilestones(network: NetworkType, walletAddress: string, totalVotes: number) {
     const normalizedAddress = walletAddress.toLowerCase();
 
     // Find referral where this address is the referee
     const [referral] = await db
       .select()
       .from(referrals)
-      .where(eq(referrals.refereeAddress, normalizedAddress))
+      .where(
+        and(
+          eq(referrals.network, network),
+          eq(referrals.refereeAddress, normalizedAddress)
+        )
+      )
       .limit(1);
 
     if (!referral) return;
@@ -1981,6 +2767,7 @@ export async function registerRoutes(
     // Check first_vote milestone
     if (totalVotes >= 1 && referral.status < REFERRAL_STATUS.FIRST_VOTE) {
       await awardReferralMilestone(
+        network,
         referral.id,
         referrerAddress,
         normalizedAddress,
@@ -1997,13 +2784,14 @@ export async function registerRoutes(
         .where(eq(referrals.id, referral.id));
 
       // Update referrer's active referrals and recalculate tier
+      const referrerStats = await getOrCreateReferralStats(referrerAddress, network);
       const [updatedStats] = await db
         .update(referralStats)
         .set({
           activeReferrals: sql`${referralStats.activeReferrals} + 1`,
           updatedAt: new Date(),
         })
-        .where(eq(referralStats.walletAddress, referrerAddress))
+        .where(eq(referralStats.id, referrerStats.id))
         .returning();
 
       if (updatedStats) {
@@ -2012,7 +2800,7 @@ export async function registerRoutes(
           await db
             .update(referralStats)
             .set({ currentTier: newTier, updatedAt: new Date() })
-            .where(eq(referralStats.walletAddress, referrerAddress));
+            .where(eq(referralStats.id, updatedStats.id));
         }
       }
     }
@@ -2020,6 +2808,7 @@ export async function registerRoutes(
     // Check votes_10 milestone
     if (totalVotes >= 10) {
       await awardReferralMilestone(
+        network,
         referral.id,
         referrerAddress,
         normalizedAddress,
@@ -2030,6 +2819,7 @@ export async function registerRoutes(
     // Check votes_50 milestone
     if (totalVotes >= 50) {
       await awardReferralMilestone(
+        network,
         referral.id,
         referrerAddress,
         normalizedAddress,
@@ -2040,6 +2830,7 @@ export async function registerRoutes(
     // Check votes_100 milestone
     if (totalVotes >= 100) {
       await awardReferralMilestone(
+        network,
         referral.id,
         referrerAddress,
         normalizedAddress,
@@ -2057,73 +2848,564 @@ export async function registerRoutes(
   }
 
   // ============================================
-  // Questionnaire System Endpoints
+  // Question Type & Ballot Endpoints
   // ============================================
 
   /**
-   * GET /api/questionnaires
-   * List questionnaires with optional filters
+   * POST /api/polls/questions
+   * Record question types for the polls created by a transaction (creator only)
+   * Body: { network, txHash, questions: ({ questionType, maxSelections? } | null)[] } in creation order
    */
-  app.get("/api/questionnaires", async (req, res) => {
+  app.post("/api/polls/questions", requireWalletSession(() => undefined), async (req, res) => {
     try {
-      const { status, creator, category, limit: limitParam, offset: offsetParam } = req.query;
-      const limit = parseInt(limitParam as string) || 20;
-      const offset = parseInt(offsetParam as string) || 0;
-
-      // Build conditions array
-      const conditions = [];
-      if (status !== undefined) {
-        conditions.push(eq(questionnaires.status, parseInt(status as string)));
-      }
-      if (creator) {
-        conditions.push(eq(questionnaires.creatorAddress, (creator as string).toLowerCase()));
-      }
-      if (category) {
-        conditions.push(eq(questionnaires.category, category as string));
+      const { txHash, questions } = req.body;
+      if (!txHash || !Array.isArray(questions)) {
+        return res.status(400).json({ success: false, error: "txHash and questions are required" });
       }
 
-      let result;
-      if (conditions.length > 0) {
-        result = await db
-          .select()
-          .from(questionnaires)
-          .where(conditions.length === 1 ? conditions[0] : and(...conditions))
-          .orderBy(desc(questionnaires.createdAt))
-          .limit(limit)
-          .offset(offset);
-      } else {
-        result = await db
-          .select()
-          .from(questionnaires)
-          .orderBy(desc(questionnaires.createdAt))
-          .limit(limit)
-          .offset(offset);
-      }
+      const network = getRequestNetwork(req);
+      const recorded = await recordPollQuestions(network, txHash, req.walletSession!.address, questions);
 
-      res.json({ success: true, data: result });
+      res.json({ success: true, data: recorded });
     } catch (error) {
-      console.error("Error fetching questionnaires:", error);
-      res.status(500).json({ success: false, error: "Failed to fetch questionnaires" });
+      if (error instanceof BallotError || error instanceof TxVerificationError) {
+        return res.status(error.status).json({ success: false, error: error.message });
+      }
+      console.error("Error recording poll questions:", error);
+      res.status(500).json({ success: false, error: "Failed to record poll questions" });
     }
   });
 
   /**
-   * GET /api/questionnaires/:id
-   * Get questionnaire details
+   * GET /api/polls/questions
+   * Question types for a set of polls (polls not listed are single choice)
+   * Query: network, ids (comma-separated poll IDs)
    */
-  app.get("/api/questionnaires/:id", async (req, res) => {
+  app.get("/api/polls/questions", async (req, res) => {
     try {
-      const { id } = req.params;
-
-      const [questionnaire] = await db
-        .select()
-        .from(questionnaires)
-        .where(eq(questionnaires.id, id))
-        .limit(1);
+      const network = normalizeNetwork(req.query.network);
+      const pollIds = String(req.query.ids ?? "")
+        .split(",")
+        .map((id) => parseInt(id, 10))
+        .filter((id) => !isNaN(id) && id >= 0)
+        .slice(0, 200);
 
-      if (!questionnaire) {
-        return res.status(404).json({ success: false, error: "Questionnaire not found" });
-      }
+      const questions = await getPollQuestions(network, pollIds);
+
+      res.json({
+        success: true,
+        data: questions.map(({ pollId, questionType, maxSelections }) => ({ pollId, questionType, maxSelections })),
+      });
+    } catch (error) {
+      console.error("Error fetching poll questions:", error);
+      res.status(500).json({ success: false, error: "Failed to fetch poll questions" });
+    }
+  });
+
+  /**
+   * GET /api/polls/claim-deadlines
+   * A creator's polls in CLAIMING or CLOSED with claim deadlines, finalizability
+   * and automatic finalization status
+   * Query: network, creator
+   */
+  app.get("/api/polls/claim-deadlines", async (req, res) => {
+    try {
+      const network = normalizeNetwork(req.query.network);
+      const creator = req.query.creator;
+      if (typeof creator !== "string" || !creator) {
+        return res.status(400).json({ success: false, error: "creator is required" });
+      }
+
+      const overview = await getClaimDeadlineOverview(network, creator);
+
+      res.json({ success: true, data: overview });
+    } catch (error) {
+      console.error("Error fetching claim deadlines:", error);
+      res.status(500).json({ success: false, error: "Failed to fetch claim deadlines" });
+    }
+  });
+
+  /**
+   * GET /api/polls/:id/results
+   * Aggregated results for the poll's question type (multi-select counts, instant-runoff rounds, rating, NPS)
+   */
+  app.get("/api/polls/:id/results", async (req, res) => {
+    try {
+      const pollId = parseInt(req.params.id);
+      if (isNaN(pollId) || pollId < 0) {
+        return res.status(400).json({ success: false, error: "Invalid poll ID" });
+      }
+
+      const results = await getPollResults(normalizeNetwork(req.query.network), pollId);
+      res.json({ success: true, data: results });
+    } catch (error) {
+      if (error instanceof BallotError) {
+        return res.status(error.status).json({ success: false, error: error.message });
+      }
+      console.error("Error fetching poll results:", error);
+      res.status(500).json({ success: false, error: "Failed to fetch poll results" });
+    }
+  });
+
+  /**
+   * POST /api/ballots
+   * Record full multi-select / ranked ballots for a signed vote transaction
+   * Body: { network, txHash, ballots: [{ pollId, selections }] } - selections[0] must match the on-chain vote
+   */
+  app.post("/api/ballots", requireWalletSession(() => undefined), async (req, res) => {
+    try {
+      const { txHash, ballots } = req.body;
+      if (!txHash) {
+        return res.status(400).json({ success: false, error: "txHash is required" });
+      }
+
+      const network = getRequestNetwork(req);
+      const recorded = await recordBallots(network, txHash, req.walletSession!.address, ballots);
+
+      res.json({ success: true, data: { recorded } });
+    } catch (error) {
+      if (error instanceof BallotError || error instanceof TxVerificationError) {
+        return res.status(error.status).json({ success: false, error: error.message });
+      }
+      console.error("Error recording ballots:", error);
+      res.status(500).json({ success: false, error: "Failed to record ballots" });
+    }
+  });
+
+  // ============================================
+  // Indexed Poll Endpoints
+  // ============================================
+
+  /**
+   * GET /api/polls
+   * List indexed polls with filters and pagination
+   * Query: network, status, creator, coinType, voter, active=true, sort (newest|oldest|votes|ending), limit, offset
+   */
+  app.get("/api/polls", async (req, res) => {
+    try {
+      const network = normalizeNetwork(req.query.network);
+      const { status, creator, coinType, voter, active, sort } = req.query;
+      const limit = Math.min(parseInt(req.query.limit as string) || 20, 100);
+      const offset = parseInt(req.query.offset as string) || 0;
+
+      const conditions: SQL[] = [eq(indexedPolls.network, network)];
+      if (status !== undefined) {
+        conditions.push(eq(indexedPolls.status, parseInt(status as string)));
+      }
+      if (creator) {
+        conditions.push(eq(indexedPolls.creator, normalizeAddress(creator as string)));
+      }
+      if (coinType !== undefined) {
+        conditions.push(eq(indexedPolls.coinTypeId, parseInt(coinType as string)));
+      }
+      if (voter) {
+        conditions.push(sql`${indexedPolls.voters} @> ${JSON.stringify([normalizeAddress(voter as string)])}::jsonb`);
+      }
+      if (active === "true") {
+        // Status ACTIVE and not past its end time
+        conditions.push(eq(indexedPolls.status, 0));
+        conditions.push(gt(indexedPolls.endTime, Math.floor(Date.now() / 1000)));
+      }
+
+      const orderBy = {
+        oldest: [asc(indexedPolls.pollId)],
+        votes: [desc(indexedPolls.totalVotes), desc(indexedPolls.pollId)],
+        ending: [asc(indexedPolls.endTime), asc(indexedPolls.pollId)],
+      }[sort as string] ?? [desc(indexedPolls.pollId)];
+
+      const where = and(...conditions);
+
+      const [{ total }] = await db
+        .select({ total: sql<number>`count(*)` })
+        .from(indexedPolls)
+        .where(where);
+
+      const polls = await db
+        .select()
+        .from(indexedPolls)
+        .where(where)
+        .orderBy(...orderBy)
+        .limit(limit)
+        .offset(offset);
+
+      const options = polls.length > 0
+        ? await db
+            .select()
+            .from(indexedPollOptions)
+            .where(
+              and(
+                eq(indexedPollOptions.network, network),
+                inArray(indexedPollOptions.pollId, polls.map((p) => p.pollId))
+              )
+            )
+        : [];
+
+      res.json({
+        success: true,
+        data: polls.map((poll) =>
+          toPollResponse(poll, options.filter((option) => option.pollId === poll.pollId))
+        ),
+        pagination: { total: Number(total), limit, offset },
+      });
+    } catch (error) {
+      console.error("Error fetching polls:", error);
+      res.status(500).json({ success: false, error: "Failed to fetch polls" });
+    }
+  });
+
+  /**
+   * GET /api/polls/:id
+   * Get a single indexed poll (indexed on demand if the indexer hasn't reached it yet)
+   */
+  app.get("/api/polls/:id", async (req, res) => {
+    try {
+      const network = normalizeNetwork(req.query.network);
+      const pollId = parseInt(req.params.id);
+
+      if (isNaN(pollId) || pollId < 0) {
+        return res.status(400).json({ success: false, error: "Invalid poll ID" });
+      }
+
+      const findPoll = () =>
+        db
+          .select()
+          .from(indexedPolls)
+          .where(and(eq(indexedPolls.network, network), eq(indexedPolls.pollId, pollId)))
+          .limit(1);
+
+      let [poll] = await findPoll();
+      if (!poll && (await indexPoll(network, pollId))) {
+        [poll] = await findPoll();
+      }
+
+      if (!poll) {
+        return res.status(404).json({ success: false, error: "Poll not found" });
+      }
+
+      const options = await db
+        .select()
+        .from(indexedPollOptions)
+        .where(and(eq(indexedPollOptions.network, network), eq(indexedPollOptions.pollId, pollId)));
+
+      res.json({ success: true, data: toPollResponse(poll, options) });
+    } catch (error) {
+      console.error("Error fetching poll:", error);
+      res.status(500).json({ success: false, error: "Failed to fetch poll" });
+    }
+  });
+
+  // ============================================
+  // Donor Funding Ledger Endpoints
+  // ============================================
+
+  /**
+   * GET /api/donor/:address/fundings
+   * A wallet's poll fundings and refunds with per-poll and per-token totals,
+   * including how much of each funding has been paid out to voters
+   * Query: network
+   */
+  app.get("/api/donor/:address/fundings", async (req, res) => {
+    try {
+      const network = getRequestNetwork(req);
+
+      // Pick up transactions sent from other browsers; the ledger is still served if the indexer is down
+      try {
+        await syncDonorFundings(network, req.params.address);
+      } catch (syncError) {
+        console.error("Error syncing donor fundings:", syncError);
+      }
+
+      const data = await getDonorFundings(network, req.params.address);
+      res.json({ success: true, data });
+    } catch (error) {
+      console.error("Error fetching donor fundings:", error);
+      res.status(500).json({ success: false, error: "Failed to fetch fundings" });
+    }
+  });
+
+  /**
+   * POST /api/donor/:address/fundings
+   * Record a fund_poll_with_* or withdraw_remaining_* transaction right after it is sent
+   * Body: { txHash, network }
+   */
+  app.post("/api/donor/:address/fundings", requireWalletSession((req) => req.params.address), async (req, res) => {
+    try {
+      const { txHash } = req.body;
+      if (!txHash) {
+        return res.status(400).json({ success: false, error: "txHash is required" });
+      }
+
+      const network = getRequestNetwork(req);
+      const verified = await verifyFundingTransaction(txHash, req.params.address, network);
+      const funding = await recordFundingTransaction(network, verified.transaction);
+
+      res.json({ success: true, data: funding });
+    } catch (error) {
+      if (error instanceof TxVerificationError) {
+        return res.status(error.status).json({ success: false, error: error.message });
+      }
+      console.error("Error recording funding:", error);
+      res.status(500).json({ success: false, error: "Failed to record funding" });
+    }
+  });
+
+  // ============================================
+  // Activity Feed Endpoints
+  // ============================================
+
+  /**
+   * GET /api/activity/:address
+   * A wallet's on-chain and off-chain activity, newest first
+   * Query: network, types (comma-separated ACTIVITY_TYPES), from, to, cursor, limit (default 20, max 100)
+   */
+  app.get("/api/activity/:address", async (req, res) => {
+    try {
+      const query = parseActivityQuery(req.query);
+      const data = await getWalletActivity(getRequestNetwork(req), req.params.address, query);
+      res.json({ success: true, data });
+    } catch (error) {
+      if (error instanceof ActivityError) {
+        return res.status(error.status).json({ success: false, error: error.message });
+      }
+      console.error("Error fetching activity:", error);
+      res.status(500).json({ success: false, error: "Failed to fetch activity" });
+    }
+  });
+
+  // ============================================
+  // Swap Analytics Endpoints
+  // ============================================
+
+  /**
+   * GET /api/swap/candles
+   * PULSE price candles (USDC per PULSE) with stable volume, oldest first
+   * Query: network, interval (15m | 1h | 4h | 1d, default 1h), limit (default 96, max 500)
+   */
+  app.get("/api/swap/candles", async (req, res) => {
+    try {
+      const { interval, limit } = parseCandleQuery(req.query);
+      const data = await getSwapCandles(getRequestNetwork(req), interval, limit);
+      res.json({ success: true, data });
+    } catch (error) {
+      if (error instanceof SwapAnalyticsError) {
+        return res.status(error.status).json({ success: false, error: error.message });
+      }
+      console.error("Error fetching swap candles:", error);
+      res.status(500).json({ success: false, error: "Failed to fetch swap candles" });
+    }
+  });
+
+  /**
+   * GET /api/swap/stats
+   * Pool reserves, price, TVL, 24h volume and LP fees, and a fee APR estimate
+   * Query: network
+   */
+  app.get("/api/swap/stats", async (req, res) => {
+    try {
+      const data = await getSwapPoolStats(getRequestNetwork(req));
+      res.json({ success: true, data });
+    } catch (error) {
+      console.error("Error fetching swap stats:", error);
+      res.status(500).json({ success: false, error: "Failed to fetch swap stats" });
+    }
+  });
+
+  /**
+   * GET /api/swap/positions/:address
+   * A wallet's LP position history, cost basis, fee earnings and impermanent loss
+   * Query: network
+   */
+  app.get("/api/swap/positions/:address", async (req, res) => {
+    try {
+      const data = await getLiquidityPositionPnl(getRequestNetwork(req), req.params.address);
+      res.json({ success: true, data });
+    } catch (error) {
+      console.error("Error fetching LP position:", error);
+      res.status(500).json({ success: false, error: "Failed to fetch LP position" });
+    }
+  });
+
+  // ============================================
+  // Result Export Endpoints
+  // ============================================
+
+  /**
+   * Render an export document as a file download
+   * Query: format (csv | json | columnar), sheet (csv only; default votes)
+   */
+  function sendExport(req: Request, res: Response, doc: ExportDocument) {
+    const format = (req.query.format as string) || "csv";
+    if (!EXPORT_FORMATS.includes(format as ExportFormat)) {
+      throw new ExportError(400, `format must be one of: ${EXPORT_FORMATS.join(", ")}`);
+    }
+
+    const file = renderExport(doc, format as ExportFormat, req.query.sheet as string | undefined);
+    res.setHeader("Content-Disposition", `attachment; filename="${file.filename}"`);
+    res.type(file.contentType).send(file.body);
+  }
+
+  /**
+   * GET /api/polls/:id/export
+   * Download a poll's results (creator only)
+   * Query: network, format, sheet (votes | options | summary), hashAddresses=true
+   */
+  app.get("/api/polls/:id/export", requireWalletSession(() => undefined), async (req, res) => {
+    try {
+      const pollId = parseInt(req.params.id);
+      if (isNaN(pollId) || pollId < 0) {
+        return res.status(400).json({ success: false, error: "Invalid poll ID" });
+      }
+
+      const doc = await buildPollExport(pollId, {
+        network: getRequestNetwork(req),
+        requester: req.walletSession!.address,
+        hashAddresses: req.query.hashAddresses === "true",
+      });
+
+      sendExport(req, res, doc);
+    } catch (error) {
+      if (error instanceof ExportError) {
+        return res.status(error.status).json({ success: false, error: error.message });
+      }
+      console.error("Error exporting poll results:", error);
+      res.status(500).json({ success: false, error: "Failed to export poll results" });
+    }
+  });
+
+  // ============================================
+  // Search Endpoints
+  // ============================================
+
+  /**
+   * GET /api/search
+   * Full-text search over indexed polls or questionnaires with facet counts
+   * Query: kind (polls|questionnaires), network, q, status, coinType, rewardType, category,
+   * rewardPool (comma-separated lists), creator, endingSoon=true, active (true|false),
+   * sort (relevance|newest|votes|ending|reward), limit, cursor
+   */
+  app.get("/api/search", async (req, res) => {
+    try {
+      const list = (value: unknown) =>
+        typeof value === "string" && value.length > 0 ? value.split(",").map((v) => v.trim()) : undefined;
+      const numberList = (value: unknown) => list(value)?.map((v) => parseInt(v)).filter((v) => !isNaN(v));
+
+      const sort = (req.query.sort as SearchSort) || "relevance";
+      if (!SEARCH_SORTS.includes(sort)) {
+        return res.status(400).json({ success: false, error: "Invalid sort" });
+      }
+
+      const result = await search({
+        kind: req.query.kind === "questionnaires" ? "questionnaires" : "polls",
+        network: normalizeNetwork(req.query.network),
+        q: req.query.q as string | undefined,
+        status: numberList(req.query.status),
+        coinType: numberList(req.query.coinType),
+        rewardType: list(req.query.rewardType),
+        category: list(req.query.category),
+        rewardPool: list(req.query.rewardPool),
+        creator: req.query.creator as string | undefined,
+        endingSoon: req.query.endingSoon === "true",
+        active: req.query.active === undefined ? undefined : req.query.active === "true",
+        sort,
+        limit: Math.min(parseInt(req.query.limit as string) || 20, 100),
+        cursor: req.query.cursor as string | undefined,
+      });
+
+      res.json({ success: true, data: result });
+    } catch (error) {
+      if (error instanceof SearchError) {
+        return res.status(error.status).json({ success: false, error: error.message });
+      }
+      console.error("Error searching:", error);
+      res.status(500).json({ success: false, error: "Failed to search" });
+    }
+  });
+
+  // ============================================
+  // Questionnaire System Endpoints
+  // ============================================
+
+  /**
+   * Middleware: only the questionnaire's creator may modify it
+   * Must run after requireWalletSession
+   */
+  async function requireQuestionnaireCreator(req: Request, res: Response, next: NextFunction) {
+    try {
+      const [questionnaire] = await db
+        .select({ creatorAddress: questionnaires.creatorAddress })
+        .from(questionnaires)
+        .where(eq(questionnaires.id, req.params.id))
+        .limit(1);
+
+      if (!questionnaire) {
+        return res.status(404).json({ success: false, error: "Questionnaire not found" });
+      }
+
+      if (questionnaire.creatorAddress !== req.walletSession?.address) {
+        return res.status(403).json({ success: false, error: "Only the creator can modify this questionnaire" });
+      }
+
+      next();
+    } catch (error) {
+      console.error("Error checking questionnaire ownership:", error);
+      res.status(500).json({ success: false, error: "Failed to verify questionnaire ownership" });
+    }
+  }
+
+  /**
+   * GET /api/questionnaires
+   * List questionnaires with optional filters
+   */
+  app.get("/api/questionnaires", async (req, res) => {
+    try {
+      const { status, creator, category, limit: limitParam, offset: offsetParam } = req.query;
+      const limit = parseInt(limitParam as string) || 20;
+      const offset = parseInt(offsetParam as string) || 0;
+
+      // Build conditions array
+      const conditions = [eq(questionnaires.network, getRequestNetwork(req))];
+      if (status !== undefined) {
+        conditions.push(eq(questionnaires.status, parseInt(status as string)));
+      }
+      if (creator) {
+        conditions.push(eq(questionnaires.creatorAddress, (creator as string).toLowerCase()));
+      }
+      if (category) {
+        conditions.push(eq(questionnaires.category, category as string));
+      }
+
+      const result = await db
+        .select()
+        .from(questionnaires)
+        .where(and(...conditions))
+        .orderBy(desc(questionnaires.createdAt))
+        .limit(limit)
+        .offset(offset);
+
+      res.json({ success: true, data: result });
+    } catch (error) {
+      console.error("Error fetching questionnaires:", error);
+      res.status(500).json({ success: false, error: "Failed to fetch questionnaires" });
+    }
+  });
+
+  /**
+   * GET /api/questionnaires/:id
+   * Get questionnaire details
+   */
+  app.get("/api/questionnaires/:id", async (req, res) => {
+    try {
+      const { id } = req.params;
+
+      const [questionnaire] = await db
+        .select()
+        .from(questionnaires)
+        .where(eq(questionnaires.id, id))
+        .limit(1);
+
+      if (!questionnaire) {
+        return res.status(404).json({ success: false, error: "Questionnaire not found" });
+      }
 
       // Get polls in this questionnaire
       const polls = await db
@@ -2145,6 +3427,28 @@ export async function registerRoutes(
     }
   });
 
+  /**
+   * GET /api/questionnaires/:id/export
+   * Download a questionnaire's results across its polls and text questions (creator only)
+   * Query: network, format, sheet (votes | options | respondents | text_responses | summary), hashAddresses=true
+   */
+  app.get("/api/questionnaires/:id/export", requireWalletSession(() => undefined), requireQuestionnaireCreator, async (req, res) => {
+    try {
+      const doc = await buildQuestionnaireExport(req.params.id, {
+        requester: req.walletSession!.address,
+        hashAddresses: req.query.hashAddresses === "true",
+      });
+
+      sendExport(req, res, doc);
+    } catch (error) {
+      if (error instanceof ExportError) {
+        return res.status(error.status).json({ success: false, error: error.message });
+      }
+      console.error("Error exporting questionnaire results:", error);
+      res.status(500).json({ success: false, error: "Failed to export questionnaire results" });
+    }
+  });
+
   /**
    * GET /api/questionnaires/:id/polls
    * Get polls in a questionnaire
@@ -2170,7 +3474,7 @@ export async function registerRoutes(
    * POST /api/questionnaires
    * Create a new questionnaire
    */
-  app.post("/api/questionnaires", async (req, res) => {
+  app.post("/api/questionnaires", requireWalletSession((req) => req.body.creatorAddress), async (req, res) => {
     try {
       const {
         creatorAddress,
@@ -2191,13 +3495,24 @@ export async function registerRoutes(
       if (!creatorAddress || !title || !startTime || !endTime) {
         return res.status(400).json({ success: false, error: "Missing required fields" });
       }
+      if (totalRewardAmount !== undefined && !isAmountString(totalRewardAmount)) {
+        return res.status(400).json({ success: false, error: "totalRewardAmount must be a u64 amount string" });
+      }
+      if (rewardPerCompletion !== undefined && !isAmountString(rewardPerCompletion)) {
+        return res.status(400).json({ success: false, error: "rewardPerCompletion must be a u64 amount string" });
+      }
 
       const normalizedCreator = creatorAddress.toLowerCase();
+      const questionnaireSettings = normalizeQuestionnaireSettings(
+        settings,
+        rewardType ?? QUESTIONNAIRE_REWARD_TYPE.PER_POLL
+      );
 
       // Create questionnaire
       const [newQuestionnaire] = await db
         .insert(questionnaires)
         .values({
+          network: getRequestNetwork(req),
           creatorAddress: normalizedCreator,
           title,
           description,
@@ -2205,11 +3520,11 @@ export async function registerRoutes(
           startTime: new Date(startTime),
           endTime: new Date(endTime),
           rewardType: rewardType ?? QUESTIONNAIRE_REWARD_TYPE.PER_POLL,
-          totalRewardAmount: totalRewardAmount?.toString() || "0",
+          totalRewardAmount: totalRewardAmount ?? "0",
           coinTypeId: coinTypeId ?? 0,
-          rewardPerCompletion: rewardPerCompletion?.toString() || "0",
+          rewardPerCompletion: rewardPerCompletion ?? "0",
           maxCompleters: maxCompleters || null,
-          settings: settings || {},
+          settings: questionnaireSettings,
           status: QUESTIONNAIRE_STATUS.DRAFT,
           pollCount: 0,
           completionCount: 0,
@@ -2238,6 +3553,9 @@ export async function registerRoutes(
 
       res.json({ success: true, data: newQuestionnaire });
     } catch (error) {
+      if (error instanceof QuestionnaireRuleError) {
+        return res.status(error.status).json({ success: false, error: error.message });
+      }
       console.error("Error creating questionnaire:", error);
       res.status(500).json({ success: false, error: "Failed to create questionnaire" });
     }
@@ -2247,7 +3565,7 @@ export async function registerRoutes(
    * PUT /api/questionnaires/:id
    * Update a questionnaire
    */
-  app.put("/api/questionnaires/:id", async (req, res) => {
+  app.put("/api/questionnaires/:id", requireWalletSession(() => undefined), requireQuestionnaireCreator, async (req, res) => {
     try {
       const { id } = req.params;
       const {
@@ -2266,6 +3584,13 @@ export async function registerRoutes(
         onChainId,
       } = req.body;
 
+      if (totalRewardAmount !== undefined && !isAmountString(totalRewardAmount)) {
+        return res.status(400).json({ success: false, error: "totalRewardAmount must be a u64 amount string" });
+      }
+      if (rewardPerCompletion !== undefined && !isAmountString(rewardPerCompletion)) {
+        return res.status(400).json({ success: false, error: "rewardPerCompletion must be a u64 amount string" });
+      }
+
       // Build update object
       const updateData: Partial<typeof questionnaires.$inferInsert> = {
         updatedAt: new Date(),
@@ -2277,14 +3602,28 @@ export async function registerRoutes(
       if (startTime !== undefined) updateData.startTime = new Date(startTime);
       if (endTime !== undefined) updateData.endTime = new Date(endTime);
       if (rewardType !== undefined) updateData.rewardType = rewardType;
-      if (totalRewardAmount !== undefined) updateData.totalRewardAmount = totalRewardAmount.toString();
+      if (totalRewardAmount !== undefined) updateData.totalRewardAmount = totalRewardAmount;
       if (coinTypeId !== undefined) updateData.coinTypeId = coinTypeId;
-      if (rewardPerCompletion !== undefined) updateData.rewardPerCompletion = rewardPerCompletion.toString();
+      if (rewardPerCompletion !== undefined) updateData.rewardPerCompletion = rewardPerCompletion;
       if (maxCompleters !== undefined) updateData.maxCompleters = maxCompleters;
-      if (settings !== undefined) updateData.settings = settings;
       if (status !== undefined) updateData.status = status;
       if (onChainId !== undefined) updateData.onChainId = onChainId;
 
+      // Settings are checked against the (possibly new) reward type
+      if (settings !== undefined || rewardType !== undefined) {
+        const [current] = await db
+          .select({ settings: questionnaires.settings, rewardType: questionnaires.rewardType })
+          .from(questionnaires)
+          .where(eq(questionnaires.id, id))
+          .limit(1);
+        if (current) {
+          updateData.settings = normalizeQuestionnaireSettings(
+            settings ?? current.settings,
+            rewardType ?? current.rewardType
+          );
+        }
+      }
+
       const [updated] = await db
         .update(questionnaires)
         .set(updateData)
@@ -2297,6 +3636,9 @@ export async function registerRoutes(
 
       res.json({ success: true, data: updated });
     } catch (error) {
+      if (error instanceof QuestionnaireRuleError) {
+        return res.status(error.status).json({ success: false, error: error.message });
+      }
       console.error("Error updating questionnaire:", error);
       res.status(500).json({ success: false, error: "Failed to update questionnaire" });
     }
@@ -2306,7 +3648,7 @@ export async function registerRoutes(
    * DELETE /api/questionnaires/:id
    * Archive a questionnaire (soft delete)
    */
-  app.delete("/api/questionnaires/:id", async (req, res) => {
+  app.delete("/api/questionnaires/:id", requireWalletSession(() => undefined), requireQuestionnaireCreator, async (req, res) => {
     try {
       const { id } = req.params;
 
@@ -2334,7 +3676,7 @@ export async function registerRoutes(
    * POST /api/questionnaires/:id/polls
    * Add a poll to a questionnaire
    */
-  app.post("/api/questionnaires/:id/polls", async (req, res) => {
+  app.post("/api/questionnaires/:id/polls", requireWalletSession(() => undefined), requireQuestionnaireCreator, async (req, res) => {
     try {
       const { id } = req.params;
       const { pollId, source, rewardPercentage } = req.body;
@@ -2383,7 +3725,7 @@ export async function registerRoutes(
    * DELETE /api/questionnaires/:id/polls/:pollId
    * Remove a poll from a questionnaire
    */
-  app.delete("/api/questionnaires/:id/polls/:pollId", async (req, res) => {
+  app.delete("/api/questionnaires/:id/polls/:pollId", requireWalletSession(() => undefined), requireQuestionnaireCreator, async (req, res) => {
     try {
       const { id, pollId } = req.params;
 
@@ -2400,6 +3742,7 @@ export async function registerRoutes(
       if (!deleted) {
         return res.status(404).json({ success: false, error: "Poll not found in questionnaire" });
       }
+      await removeBranchingReferences(id, deleted.id);
 
       // Update poll count
       await db
@@ -2421,24 +3764,38 @@ export async function registerRoutes(
    * PUT /api/questionnaires/:id/polls/order
    * Reorder polls in a questionnaire
    */
-  app.put("/api/questionnaires/:id/polls/order", async (req, res) => {
+  app.put("/api/questionnaires/:id/polls/order", requireWalletSession(() => undefined), requireQuestionnaireCreator, async (req, res) => {
     try {
       const { id } = req.params;
-      const { pollOrder } = req.body; // Array of { pollId, sortOrder }
+      const { pollOrder } = req.body; // Array of { pollId, sortOrder } or { id, sortOrder } (text questions)
 
       if (!Array.isArray(pollOrder)) {
         return res.status(400).json({ success: false, error: "pollOrder must be an array" });
       }
 
-      // Update each poll's sort order
-      for (const { pollId, sortOrder } of pollOrder) {
+      // Branching must still keep on-chain pool polls on every path in the new order
+      const [questionnaire] = await db
+        .select()
+        .from(questionnaires)
+        .where(eq(questionnaires.id, id))
+        .limit(1);
+      const newOrder = (await getQuestionnaireItems(id))
+        .map((item) => {
+          const entry = pollOrder.find((order) => (order.id ? order.id === item.id : order.pollId === item.pollId));
+          return { ...item, sortOrder: entry?.sortOrder ?? item.sortOrder };
+        })
+        .sort((a, b) => a.sortOrder - b.sortOrder);
+      assertPoolPollsOnEveryPath(questionnaire, newOrder);
+
+      // Update each item's sort order
+      for (const { id: itemId, pollId, sortOrder } of pollOrder) {
         await db
           .update(questionnairePolls)
           .set({ sortOrder })
           .where(
             and(
               eq(questionnairePolls.questionnaireId, id),
-              eq(questionnairePolls.pollId, pollId)
+              itemId ? eq(questionnairePolls.id, itemId) : eq(questionnairePolls.pollId, pollId)
             )
           );
       }
@@ -2452,11 +3809,163 @@ export async function registerRoutes(
 
       res.json({ success: true, data: polls });
     } catch (error) {
+      if (error instanceof QuestionnaireRuleError) {
+        return res.status(error.status).json({ success: false, error: error.message });
+      }
       console.error("Error reordering polls:", error);
       res.status(500).json({ success: false, error: "Failed to reorder polls" });
     }
   });
 
+  /**
+   * PUT /api/questionnaires/:id/items/:itemId/branching
+   * Set an item's branching rules (null clears them)
+   * Body: { branching: { skipTo?: [{ optionIndices, targetItemId }], showIf?: [{ sourceItemId, optionIndices }] } | null }
+   */
+  app.put("/api/questionnaires/:id/items/:itemId/branching", requireWalletSession(() => undefined), requireQuestionnaireCreator, async (req, res) => {
+    try {
+      const { id, itemId } = req.params;
+
+      const [questionnaire] = await db
+        .select()
+        .from(questionnaires)
+        .where(eq(questionnaires.id, id))
+        .limit(1);
+      const items = await getQuestionnaireItems(id);
+      const branching = normalizeBranching(items, itemId, req.body.branching);
+      assertPoolPollsOnEveryPath(
+        questionnaire,
+        items.map((item) => (item.id === itemId ? { ...item, branching } : item))
+      );
+
+      const [updated] = await db
+        .update(questionnairePolls)
+        .set({ branching })
+        .where(and(eq(questionnairePolls.questionnaireId, id), eq(questionnairePolls.id, itemId)))
+        .returning();
+
+      await db
+        .update(questionnaires)
+        .set({ updatedAt: new Date() })
+        .where(eq(questionnaires.id, id));
+
+      res.json({ success: true, data: updated });
+    } catch (error) {
+      if (error instanceof QuestionnaireRuleError) {
+        return res.status(error.status).json({ success: false, error: error.message });
+      }
+      console.error("Error updating branching rules:", error);
+      res.status(500).json({ success: false, error: "Failed to update branching rules" });
+    }
+  });
+
+  /**
+   * POST /api/questionnaires/:id/text-questions
+   * Add a free-text question to a questionnaire
+   * Body: { prompt, minLength?, maxLength?, required? }
+   */
+  app.post("/api/questionnaires/:id/text-questions", requireWalletSession(() => undefined), requireQuestionnaireCreator, async (req, res) => {
+    try {
+      const { id } = req.params;
+      const prompt = typeof req.body.prompt === "string" ? req.body.prompt.trim() : "";
+
+      if (!prompt || prompt.length > TEXT_ANSWER_LIMITS.PROMPT_MAX) {
+        return res.status(400).json({
+          success: false,
+          error: `prompt is required (at most ${TEXT_ANSWER_LIMITS.PROMPT_MAX} characters)`,
+        });
+      }
+
+      const textSettings = normalizeTextSettings({
+        minLength: req.body.minLength,
+        maxLength: req.body.maxLength,
+        required: req.body.required,
+      });
+
+      const [maxSort] = await db
+        .select({ maxOrder: sql<number>`COALESCE(MAX(${questionnairePolls.sortOrder}), -1)` })
+        .from(questionnairePolls)
+        .where(eq(questionnairePolls.questionnaireId, id));
+
+      const [question] = await db
+        .insert(questionnairePolls)
+        .values({
+          questionnaireId: id,
+          kind: QUESTIONNAIRE_ITEM_KIND.TEXT,
+          prompt,
+          textSettings,
+          sortOrder: (maxSort?.maxOrder ?? -1) + 1,
+          source: "new",
+        })
+        .returning();
+
+      await db
+        .update(questionnaires)
+        .set({ updatedAt: new Date() })
+        .where(eq(questionnaires.id, id));
+
+      res.json({ success: true, data: question });
+    } catch (error) {
+      if (error instanceof TextAnswerError) {
+        return res.status(error.status).json({ success: false, error: error.message });
+      }
+      console.error("Error adding text question:", error);
+      res.status(500).json({ success: false, error: "Failed to add text question" });
+    }
+  });
+
+  /**
+   * DELETE /api/questionnaires/:id/text-questions/:questionId
+   * Remove a free-text question (answers already given stay in progress records)
+   */
+  app.delete("/api/questionnaires/:id/text-questions/:questionId", requireWalletSession(() => undefined), requireQuestionnaireCreator, async (req, res) => {
+    try {
+      const { id, questionId } = req.params;
+
+      const [deleted] = await db
+        .delete(questionnairePolls)
+        .where(
+          and(
+            eq(questionnairePolls.questionnaireId, id),
+            eq(questionnairePolls.id, questionId),
+            eq(questionnairePolls.kind, QUESTIONNAIRE_ITEM_KIND.TEXT)
+          )
+        )
+        .returning();
+
+      if (!deleted) {
+        return res.status(404).json({ success: false, error: "Text question not found in questionnaire" });
+      }
+      await removeBranchingReferences(id, deleted.id);
+
+      res.json({ success: true, data: deleted });
+    } catch (error) {
+      console.error("Error removing text question:", error);
+      res.status(500).json({ success: false, error: "Failed to remove text question" });
+    }
+  });
+
+  /**
+   * GET /api/questionnaires/:id/text-responses
+   * Browse answers to a questionnaire's text questions, with keyword frequencies (creator only)
+   * Query: questionId, keyword, limit, offset
+   */
+  app.get("/api/questionnaires/:id/text-responses", requireWalletSession(() => undefined), requireQuestionnaireCreator, async (req, res) => {
+    try {
+      const page = await getTextResponses(req.params.id, {
+        questionId: req.query.questionId as string | undefined,
+        keyword: req.query.keyword as string | undefined,
+        limit: Math.min(parseInt(req.query.limit as string) || 50, 200),
+        offset: parseInt(req.query.offset as string) || 0,
+      });
+
+      res.json({ success: true, data: page });
+    } catch (error) {
+      console.error("Error fetching text responses:", error);
+      res.status(500).json({ success: false, error: "Failed to fetch text responses" });
+    }
+  });
+
   /**
    * GET /api/questionnaires/:id/progress/:address
    * Get user's progress on a questionnaire
@@ -2503,7 +4012,7 @@ export async function registerRoutes(
    * POST /api/questionnaires/:id/start/:address
    * Start a questionnaire for a user
    */
-  app.post("/api/questionnaires/:id/start/:address", async (req, res) => {
+  app.post("/api/questionnaires/:id/start/:address", requireWalletSession(), async (req, res) => {
     try {
       const { id, address } = req.params;
       const normalizedAddress = address.toLowerCase();
@@ -2548,33 +4057,33 @@ export async function registerRoutes(
   /**
    * PUT /api/questionnaires/:id/progress/:address
    * Update user's progress on a questionnaire
+   * Body: { pollsAnswered?, isComplete?, claimTxHash? }. A bulk vote is recorded
+   * through /bulk-vote; a claim only with the hash of its verified transaction.
    */
-  app.put("/api/questionnaires/:id/progress/:address", async (req, res) => {
+  app.put("/api/questionnaires/:id/progress/:address", requireWalletSession(), async (req, res) => {
     try {
       const { id, address } = req.params;
-      const { pollsAnswered, isComplete, bulkVoteTxHash, claimed, claimTxHash } = req.body;
+      const { pollsAnswered, isComplete, claimTxHash } = req.body;
       const normalizedAddress = address.toLowerCase();
 
-      // Build update object
-      const updateData: Partial<typeof questionnaireProgress.$inferInsert> = {
-        updatedAt: new Date(),
-      };
-
-      if (pollsAnswered !== undefined) updateData.pollsAnswered = pollsAnswered;
-      if (isComplete !== undefined) {
-        updateData.isComplete = isComplete;
-        if (isComplete) {
-          updateData.completedAt = new Date();
-        }
+      if (req.body.bulkVoteTxHash !== undefined || req.body.claimed !== undefined) {
+        return res.status(400).json({
+          success: false,
+          error: "Votes are recorded through bulk-vote and claims through claimTxHash",
+        });
       }
-      if (bulkVoteTxHash !== undefined) updateData.bulkVoteTxHash = bulkVoteTxHash;
-      if (claimed !== undefined) {
-        updateData.claimed = claimed;
-        if (claimed) {
-          updateData.claimedAt = new Date();
-        }
+      if (claimTxHash !== undefined && typeof claimTxHash !== "string") {
+        return res.status(400).json({ success: false, error: "claimTxHash must be a transaction hash" });
+      }
+
+      const [questionnaire] = await db
+        .select()
+        .from(questionnaires)
+        .where(eq(questionnaires.id, id))
+        .limit(1);
+      if (!questionnaire) {
+        return res.status(404).json({ success: false, error: "Questionnaire not found" });
       }
-      if (claimTxHash !== undefined) updateData.claimTxHash = claimTxHash;
 
       // Check if progress exists
       const [existing] = await db
@@ -2588,6 +4097,71 @@ export async function registerRoutes(
         )
         .limit(1);
 
+      // Build update object
+      const updateData: Partial<typeof questionnaireProgress.$inferInsert> = {
+        updatedAt: new Date(),
+      };
+
+      // Saved selections (partial progress) until the questionnaire is completed
+      if (pollsAnswered !== undefined) {
+        if (existing?.isComplete) {
+          return res.status(409).json({ success: false, error: "Answers are locked once the questionnaire is complete" });
+        }
+        updateData.pollsAnswered = await normalizeSavedAnswers(questionnaire, pollsAnswered);
+      }
+
+      // Completion follows the same rules as bulk-vote; only polls voted on chain count
+      if (isComplete && !existing?.isComplete) {
+        const saved = updateData.pollsAnswered ?? existing?.pollsAnswered ?? [];
+        const network = normalizeNetwork(questionnaire.network);
+        const voted = await Promise.all(
+          saved.map((answer) => hasVotedOnChain(answer.pollId, normalizedAddress, network))
+        );
+        await assertCanComplete(
+          questionnaire,
+          normalizedAddress,
+          new Map(
+            saved
+              .filter((_, index) => voted[index])
+              .map((answer) => [answer.pollId, answer.optionIndex] as [number, number])
+          ),
+          existing
+        );
+      }
+
+      if (isComplete !== undefined) {
+        updateData.isComplete = isComplete;
+        if (isComplete) {
+          updateData.completedAt = new Date();
+        }
+      }
+
+      // A claim counts once its transaction paid this questionnaire's pool to the wallet
+      if (claimTxHash !== undefined) {
+        if (existing?.claimed) {
+          return res.status(409).json({ success: false, error: "Reward already claimed" });
+        }
+        if (!(existing?.isComplete || isComplete)) {
+          return res.status(400).json({ success: false, error: "Complete the questionnaire before claiming" });
+        }
+        if (questionnaire.onChainId === null) {
+          return res.status(400).json({ success: false, error: "Questionnaire has no on-chain reward pool" });
+        }
+        const claim = await verifyClaimRewardTransaction(
+          claimTxHash,
+          normalizedAddress,
+          normalizeNetwork(questionnaire.network)
+        );
+        if (!claim.questionnaireIds.includes(questionnaire.onChainId)) {
+          return res.status(400).json({ success: false, error: "Transaction did not claim this questionnaire's reward" });
+        }
+        await claimTransaction(claim, normalizedAddress);
+
+        updateData.claimed = true;
+        updateData.claimedAt = new Date();
+        updateData.claimTxHash = claim.txHash;
+      }
+
       let result;
       if (existing) {
         [result] = await db
@@ -2611,27 +4185,58 @@ export async function registerRoutes(
 
       // If marked as complete, update questionnaire completion count
       if (isComplete && !existing?.isComplete) {
-        await db
+        const [updated] = await db
           .update(questionnaires)
           .set({
             completionCount: sql`${questionnaires.completionCount} + 1`,
             updatedAt: new Date(),
           })
-          .where(eq(questionnaires.id, id));
+          .where(eq(questionnaires.id, id))
+          .returning({ completionCount: questionnaires.completionCount });
+        if (updated) publishQuestionnaireCompletions(id, updated.completionCount);
       }
 
       res.json({ success: true, data: result });
     } catch (error) {
+      if (error instanceof TxVerificationError || error instanceof QuestionnaireRuleError) {
+        return res.status(error.status).json({ success: false, error: error.message });
+      }
       console.error("Error updating questionnaire progress:", error);
       res.status(500).json({ success: false, error: "Failed to update progress" });
     }
   });
 
+  /**
+   * POST /api/questionnaires/:id/text-answers/:address
+   * Save answers to text questions (length-checked, profanity masked)
+   * Body: { answers: [{ questionId, text }] }
+   */
+  app.post("/api/questionnaires/:id/text-answers/:address", requireWalletSession(), async (req, res) => {
+    try {
+      const progress = await recordTextAnswers(
+        req.params.id,
+        req.params.address.toLowerCase(),
+        req.body.answers
+      );
+
+      res.json({ success: true, data: progress });
+    } catch (error) {
+      if (error instanceof TextAnswerError) {
+        return res.status(error.status).json({ success: false, error: error.message });
+      }
+      console.error("Error saving text answers:", error);
+      res.status(500).json({ success: false, error: "Failed to save text answers" });
+    }
+  });
+
+  // Sentinel txHash sent when every poll was already voted on chain earlier
+  const ALREADY_VOTED_TX_HASH = "already-voted";
+
   /**
    * POST /api/questionnaires/:id/bulk-vote
    * Record a bulk vote for a questionnaire (called after successful on-chain bulk_vote)
    */
-  app.post("/api/questionnaires/:id/bulk-vote", async (req, res) => {
+  app.post("/api/questionnaires/:id/bulk-vote", requireWalletSession((req) => req.body.walletAddress), async (req, res) => {
     try {
       const { id } = req.params;
       const { walletAddress, pollIds, optionIndices, txHash } = req.body;
@@ -2642,12 +4247,53 @@ export async function registerRoutes(
 
       const normalizedAddress = walletAddress.toLowerCase();
 
-      // Build pollsAnswered array
-      const pollsAnswered = pollIds.map((pollId: number, index: number) => ({
-        pollId,
-        optionIndex: optionIndices[index],
-        answeredAt: new Date().toISOString(),
-      }));
+      const [questionnaire] = await db
+        .select()
+        .from(questionnaires)
+        .where(eq(questionnaires.id, id))
+        .limit(1);
+      if (!questionnaire) {
+        return res.status(404).json({ success: false, error: "Questionnaire not found" });
+      }
+      // Votes and quest credit land on the questionnaire's network
+      const network = normalizeNetwork(questionnaire.network);
+      if (req.body.network !== undefined && normalizeNetwork(req.body.network) !== network) {
+        return res.status(400).json({ success: false, error: `This questionnaire is on ${network}` });
+      }
+
+      // Polls voted in this transaction are credited; any other answered poll
+      // must already carry an on-chain vote from this wallet
+      const verified = txHash === ALREADY_VOTED_TX_HASH
+        ? null
+        : await verifyVoteTransaction(txHash, normalizedAddress, network);
+      const creditedPollIds = verified?.pollIds ?? [];
+
+      const previouslyVoted = (pollIds as number[]).filter((pollId) => !creditedPollIds.includes(pollId));
+      const onChainVotes = await Promise.all(
+        previouslyVoted.map((pollId) => hasVotedOnChain(pollId, normalizedAddress, network))
+      );
+      const missingIndex = onChainVotes.indexOf(false);
+      if (missingIndex !== -1) {
+        return res.status(400).json({
+          success: false,
+          error: `No on-chain vote found for poll ${previouslyVoted[missingIndex]}`,
+        });
+      }
+
+      if (verified) {
+        await claimTransaction(verified, normalizedAddress);
+        refreshPollsSoon(network, verified.pollIds);
+      }
+
+      // Build pollsAnswered array (option indices from the transaction where available)
+      const pollsAnswered = pollIds.map((pollId: number, index: number) => {
+        const txIndex = creditedPollIds.indexOf(pollId);
+        return {
+          pollId,
+          optionIndex: txIndex !== -1 ? verified!.optionIndices[txIndex] : optionIndices[index],
+          answeredAt: new Date().toISOString(),
+        };
+      });
 
       // Get or create progress record
       const [existing] = await db
@@ -2661,6 +4307,14 @@ export async function registerRoutes(
         )
         .limit(1);
 
+      // Text questions are answered off chain beforehand; only the respondent's branching path counts
+      await assertCanComplete(
+        questionnaire,
+        normalizedAddress,
+        new Map(pollsAnswered.map((answer: { pollId: number; optionIndex: number }) => [answer.pollId, answer.optionIndex])),
+        existing
+      );
+
       let result;
       if (existing) {
         [result] = await db
@@ -2693,37 +4347,63 @@ export async function registerRoutes(
 
       // Update questionnaire completion count if newly completed
       if (!existing?.isComplete) {
-        await db
+        const [updated] = await db
           .update(questionnaires)
           .set({
             completionCount: sql`${questionnaires.completionCount} + 1`,
             updatedAt: new Date(),
           })
-          .where(eq(questionnaires.id, id));
+          .where(eq(questionnaires.id, id))
+          .returning({ completionCount: questionnaires.completionCount });
+        if (updated) publishQuestionnaireCompletions(id, updated.completionCount);
       }
 
-      // Record votes for each poll in dailyVoteLogs
-      const today = getTodayString();
-      const profile = await getOrCreateProfile(normalizedAddress);
+      // Credit only the votes cast in the verified transaction
+      if (creditedPollIds.length > 0) {
+        const today = getTodayString();
+        const profile = await getOrCreateProfile(normalizedAddress, network);
 
-      // Update user's vote count
-      const votesToday = profile.lastVoteResetDate === today
-        ? profile.votesToday + pollIds.length
-        : pollIds.length;
+        // Update user's vote count
+        const votesToday = profile.lastVoteResetDate === today
+          ? profile.votesToday + creditedPollIds.length
+          : creditedPollIds.length;
 
-      await db
-        .update(userProfiles)
-        .set({
-          votesToday,
-          lastVoteDate: today,
-          lastVoteResetDate: today,
-          seasonVotes: profile.seasonVotes + pollIds.length,
-          updatedAt: new Date(),
-        })
-        .where(eq(userProfiles.id, profile.id));
+        await db
+          .update(userProfiles)
+          .set({
+            votesToday,
+            lastVoteDate: today,
+            lastVoteResetDate: today,
+            seasonVotes: profile.seasonVotes + creditedPollIds.length,
+            updatedAt: new Date(),
+          })
+          .where(eq(userProfiles.id, profile.id));
+      }
 
-      res.json({ success: true, data: result });
+      // Advance vote and questionnaire quests (don't fail the recording if this fails)
+      let questsCompleted: CompletedQuest[] = [];
+      try {
+        const questActions: QuestActionInput[] = [];
+        if (creditedPollIds.length > 0) {
+          const profile = await getOrCreateProfile(normalizedAddress, network);
+          questActions.push(
+            { action: QUEST_ACTIONS.VOTE, amount: creditedPollIds.length },
+            { action: QUEST_ACTIONS.TOTAL_VOTES, value: profile.seasonVotes }
+          );
+        }
+        if (!existing?.isComplete) {
+          questActions.push({ action: QUEST_ACTIONS.COMPLETE_QUESTIONNAIRE });
+        }
+        questsCompleted = await recordQuestActions(network, normalizedAddress, questActions);
+      } catch (questError) {
+        console.error("Error updating quest progress:", questError);
+      }
+
+      res.json({ success: true, data: result, questsCompleted });
     } catch (error) {
+      if (error instanceof TxVerificationError || error instanceof QuestionnaireRuleError) {
+        return res.status(error.status).json({ success: false, error: error.message });
+      }
       console.error("Error recording bulk vote:", error);
       res.status(500).json({ success: false, error: "Failed to record bulk vote" });
     }
@@ -2744,6 +4424,7 @@ export async function registerRoutes(
         .from(questionnaires)
         .where(
           and(
+            eq(questionnaires.network, getRequestNetwork(req)),
             eq(questionnaires.status, QUESTIONNAIRE_STATUS.ACTIVE),
             gte(questionnaires.endTime, now)
           )
@@ -2771,7 +4452,12 @@ export async function registerRoutes(
       const creatorQuestionnaires = await db
         .select()
         .from(questionnaires)
-        .where(eq(questionnaires.creatorAddress, normalizedAddress))
+        .where(
+          and(
+            eq(questionnaires.network, getRequestNetwork(req)),
+            eq(questionnaires.creatorAddress, normalizedAddress)
+          )
+        )
         .orderBy(desc(questionnaires.createdAt));
 
       res.json({ success: true, data: creatorQuestionnaires });
@@ -0,0 +1,61 @@
+import { beforeAll, describe, expect, it, vi } from "vitest";
+import { indexedPolls } from "@shared/schema";
+
+vi.mock("./db", async () => ({ db: await (await import("./test-db")).createTestDb() }));
+
+const { db } = await import("./db");
+const { search, SearchError } = await import("./search");
+
+const CREATOR = `0x${"a".repeat(64)}`;
+const VOTES = [5, 3, 5, 0, 3, 5, 1];
+
+function cursorOf(value: unknown): string {
+  return Buffer.from(JSON.stringify(value)).toString("base64url");
+}
+
+async function pageThrough(sort: "votes" | "ending", limit: number): Promise<number[]> {
+  const ids: number[] = [];
+  let cursor: string | undefined;
+  do {
+    const page = await search({ kind: "polls", network: "testnet", sort, limit, cursor });
+    ids.push(...page.items.map((item) => (item as { id: number }).id));
+    cursor = page.nextCursor ?? undefined;
+  } while (cursor);
+  return ids;
+}
+
+beforeAll(async () => {
+  await db.insert(indexedPolls).values(
+    VOTES.map((totalVotes, pollId) => ({
+      network: "testnet",
+      pollId,
+      creator: CREATOR,
+      title: `Poll ${pollId}`,
+      distributionMode: 0,
+      status: 0,
+      endTime: 4102444800 + (pollId % 3),
+      totalVotes,
+    }))
+  );
+});
+
+describe("search keyset pagination", () => {
+  it("pages through ties in sort order without skipping or repeating rows", async () => {
+    expect(await pageThrough("votes", 2)).toEqual([5, 2, 0, 4, 1, 6, 3]);
+    expect(await pageThrough("ending", 3)).toEqual([0, 3, 6, 1, 4, 2, 5]);
+  });
+
+  it("continues after a cursor whose sort value is null", async () => {
+    // Null sort values order last, so nothing with a value follows them
+    const page = await search({ kind: "polls", network: "testnet", sort: "votes", limit: 10, cursor: cursorOf([null, 4]) });
+    expect(page.items).toEqual([]);
+  });
+
+  it("rejects malformed cursors", async () => {
+    for (const cursor of ["not-base64-json", cursorOf(["1; drop table", 1]), cursorOf([5]), cursorOf([5, 1])]) {
+      await expect(
+        search({ kind: "polls", network: "testnet", sort: "votes", limit: 2, cursor })
+      ).rejects.toBeInstanceOf(SearchError);
+    }
+  });
+});
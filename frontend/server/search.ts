@@ -0,0 +1,367 @@
+/**
+ * Poll and questionnaire search
+ * Postgres full-text search over titles and descriptions (with a substring
+ * fallback for partial words), faceted counts and keyset cursor pagination.
+ * Polls are searched in the poll index (indexed_polls), so results are only as
+ * fresh as the last indexer run.
+ */
+
+import { and, eq, inArray, sql, type SQL } from "drizzle-orm";
+import { db } from "./db";
+import {
+  indexedPolls,
+  indexedPollOptions,
+  questionnaires,
+  type IndexedPoll,
+  type Questionnaire,
+} from "@shared/schema";
+import { normalizeAddress, type NetworkType } from "./movement";
+import { toPollResponse, type PollResponse } from "./poll-indexer";
+
+// ============================================
+// Types
+// ============================================
+
+export type SearchKind = "polls" | "questionnaires";
+export type SearchSort = "relevance" | "newest" | "votes" | "ending" | "reward";
+export type FacetName = "status" | "coinType" | "rewardType" | "category" | "creator" | "endingSoon" | "rewardPool";
+
+export interface SearchParams {
+  kind: SearchKind;
+  network: NetworkType;
+  q?: string;
+  status?: number[];
+  coinType?: number[];
+  rewardType?: string[];
+  category?: string[];
+  creator?: string;
+  endingSoon?: boolean;
+  active?: boolean; // true: open for answers, false: ended/closed (not a facet)
+  rewardPool?: string[]; // REWARD_POOL_BUCKETS keys
+  sort: SearchSort;
+  limit: number;
+  cursor?: string;
+}
+
+export interface FacetBucket {
+  value: string;
+  count: number;
+}
+
+export interface SearchResponse<T> {
+  items: T[];
+  total: number;
+  facets: Record<FacetName, FacetBucket[]>;
+  nextCursor: string | null;
+}
+
+export class SearchError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.status = status;
+  }
+}
+
+export const SEARCH_SORTS: SearchSort[] = ["relevance", "newest", "votes", "ending", "reward"];
+
+const ENDING_SOON_SECS = 24 * 60 * 60;
+const MAX_CREATOR_BUCKETS = 10;
+
+// Remaining reward pool buckets, in whole tokens: 0, <1, 1-10, 10-100, 100+
+export const REWARD_POOL_BUCKETS = ["none", "lt1", "1to10", "10to100", "gte100"];
+
+// ============================================
+// Search Targets
+// ============================================
+
+/**
+ * Column expressions for one searchable table
+ * Facet expressions must evaluate to text so buckets can be returned uniformly
+ */
+interface SearchTarget {
+  table: typeof indexedPolls | typeof questionnaires;
+  id: SQL;
+  document: SQL;
+  scope: SQL;
+  active: SQL;
+  facets: Record<FacetName, SQL>;
+  sorts: Record<Exclude<SearchSort, "relevance">, { expr: SQL; dir: "asc" | "desc" }>;
+}
+
+function tokenUnits(amount: SQL, coinTypeId: SQL): SQL {
+  // USDC (coin type 2) has 6 decimals, MOVE and PULSE have 8
+  return sql`(${amount})::numeric / (case when ${coinTypeId} = 2 then 1e6 else 1e8 end)`;
+}
+
+function rewardPoolBucket(tokens: SQL): SQL {
+  return sql`case
+    when ${tokens} <= 0 then 'none'
+    when ${tokens} < 1 then 'lt1'
+    when ${tokens} < 10 then '1to10'
+    when ${tokens} < 100 then '10to100'
+    else 'gte100' end`;
+}
+
+function pollTarget(network: NetworkType): SearchTarget {
+  const t = indexedPolls;
+  const now = sql`extract(epoch from now())`;
+  const active = sql`(${t.status} = 0 and ${t.endTime} > ${now})`;
+  const rewardPoolTokens = tokenUnits(sql`${t.rewardPool}`, sql`${t.coinTypeId}`);
+
+  // Polls have no category on chain; they inherit one from a questionnaire that includes them
+  const category = sql`coalesce((
+    select q.category from questionnaire_polls qp
+    join questionnaires q on q.id = qp.questionnaire_id
+    where qp.poll_id = ${t.pollId} and q.network = ${t.network} and q.category is not null
+    order by qp.added_at limit 1
+  ), 'uncategorized')`;
+
+  return {
+    table: t,
+    id: sql`${t.pollId}`,
+    document: sql`to_tsvector('english', ${t.title} || ' ' || ${t.description})`,
+    scope: sql`${t.network} = ${network}`,
+    active,
+    facets: {
+      status: sql`${t.status}::text`,
+      coinType: sql`${t.coinTypeId}::text`,
+      // Mirrors REWARD_TYPE in client/src/types/poll.ts
+      rewardType: sql`case
+        when ${t.rewardPool}::numeric = 0 and ${t.rewardPerVote}::numeric = 0 then 'none'
+        when ${t.rewardPerVote}::numeric > 0 then 'fixed_per_vote'
+        else 'equal_split' end`,
+      category,
+      creator: sql`${t.creator}`,
+      endingSoon: sql`(${active} and ${t.endTime} <= ${now} + ${ENDING_SOON_SECS})::text`,
+      rewardPool: rewardPoolBucket(rewardPoolTokens),
+    },
+    sorts: {
+      newest: { expr: sql`${t.pollId}`, dir: "desc" },
+      votes: { expr: sql`${t.totalVotes}`, dir: "desc" },
+      ending: { expr: sql`${t.endTime}`, dir: "asc" },
+      reward: { expr: rewardPoolTokens, dir: "desc" },
+    },
+  };
+}
+
+function questionnaireTarget(network: NetworkType): SearchTarget {
+  const t = questionnaires;
+  const active = sql`(${t.status} = 1 and ${t.endTime} > now())`;
+  const endTimeSecs = sql`extract(epoch from ${t.endTime})`;
+  const rewardPoolTokens = tokenUnits(sql`${t.totalRewardAmount}`, sql`${t.coinTypeId}`);
+
+  return {
+    table: t,
+    id: sql`${t.id}`,
+    document: sql`to_tsvector('english', ${t.title} || ' ' || coalesce(${t.description}, ''))`,
+    scope: sql`${t.network} = ${network}`,
+    active,
+    facets: {
+      status: sql`${t.status}::text`,
+      coinType: sql`${t.coinTypeId}::text`,
+      rewardType: sql`case when ${t.rewardType} = 1 then 'shared_pool' else 'per_poll' end`,
+      category: sql`coalesce(${t.category}, 'uncategorized')`,
+      creator: sql`${t.creatorAddress}`,
+      endingSoon: sql`(${active} and ${t.endTime} <= now() + make_interval(secs => ${ENDING_SOON_SECS}))::text`,
+      rewardPool: rewardPoolBucket(rewardPoolTokens),
+    },
+    sorts: {
+      newest: { expr: sql`extract(epoch from ${t.createdAt})`, dir: "desc" },
+      votes: { expr: sql`${t.completionCount}`, dir: "desc" },
+      ending: { expr: endTimeSecs, dir: "asc" },
+      reward: { expr: rewardPoolTokens, dir: "desc" },
+    },
+  };
+}
+
+// ============================================
+// Query Building
+// ============================================
+
+function textMatch(target: SearchTarget, q: string, titleCol: SQL): SQL {
+  const pattern = `%${q.replace(/[\\%_]/g, "\\$&")}%`;
+  return sql`(${target.document} @@ websearch_to_tsquery('english', ${q}) or ${titleCol} ilike ${pattern})`;
+}
+
+/**
+ * Filter conditions per facet, so facet counts can exclude their own filter
+ */
+function facetFilters(target: SearchTarget, params: SearchParams): Partial<Record<FacetName, SQL>> {
+  const filters: Partial<Record<FacetName, SQL>> = {};
+  const inList = (expr: SQL, values: string[]) =>
+    sql`${expr} in (${sql.join(values.map((v) => sql`${v}`), sql`, `)})`;
+
+  if (params.status?.length) filters.status = inList(target.facets.status, params.status.map(String));
+  if (params.coinType?.length) filters.coinType = inList(target.facets.coinType, params.coinType.map(String));
+  if (params.rewardType?.length) filters.rewardType = inList(target.facets.rewardType, params.rewardType);
+  if (params.category?.length) filters.category = inList(target.facets.category, params.category);
+  if (params.endingSoon) filters.endingSoon = sql`${target.facets.endingSoon} = 'true'`;
+  if (params.rewardPool?.length) {
+    const buckets = params.rewardPool.filter((bucket) => REWARD_POOL_BUCKETS.includes(bucket));
+    if (buckets.length) filters.rewardPool = inList(target.facets.rewardPool, buckets);
+  }
+  if (params.creator) {
+    const creator = target.table === indexedPolls
+      ? normalizeAddress(params.creator)
+      : params.creator.toLowerCase();
+    filters.creator = sql`${target.facets.creator} = ${creator}`;
+  }
+
+  return filters;
+}
+
+function combine(conditions: (SQL | null | undefined)[]): SQL {
+  const present = conditions.filter((c): c is SQL => !!c);
+  return present.length ? sql.join(present, sql` and `) : sql`true`;
+}
+
+/**
+ * Cursors carry the last row's sort value (null when its sort column is null)
+ * and id. Nulls sort last in both directions, so the keyset predicate has to
+ * step across the null boundary explicitly rather than compare row values.
+ */
+function encodeCursor(sortValue: string | null, id: string | number): string {
+  return Buffer.from(JSON.stringify([sortValue, id])).toString("base64url");
+}
+
+function decodeCursor(cursor: string): [string | null, string | number] {
+  try {
+    const decoded = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+    if (
+      Array.isArray(decoded) &&
+      decoded.length === 2 &&
+      (decoded[0] === null || (typeof decoded[0] === "string" && /^-?\d+(\.\d+)?$/.test(decoded[0]))) &&
+      (typeof decoded[1] === "string" || typeof decoded[1] === "number")
+    ) {
+      return decoded as [string | null, string | number];
+    }
+  } catch {
+    // Fall through
+  }
+  throw new SearchError(400, "Invalid cursor");
+}
+
+/**
+ * Rows that come after the cursor in `order by sort dir nulls last, id dir`
+ */
+function afterCursor(sortExpr: SQL, idExpr: SQL, dir: "asc" | "desc", cursor: string): SQL {
+  const [sortValue, id] = decodeCursor(cursor);
+  const comparison = dir === "asc" ? sql`>` : sql`<`;
+
+  if (sortValue === null) {
+    return sql`(${sortExpr} is null and ${idExpr} ${comparison} ${id})`;
+  }
+  return sql`(${sortExpr} is null
+    or ${sortExpr} ${comparison} ${sortValue}::numeric
+    or (${sortExpr} = ${sortValue}::numeric and ${idExpr} ${comparison} ${id}))`;
+}
+
+// ============================================
+// Search
+// ============================================
+
+export async function search(
+  params: SearchParams
+): Promise<SearchResponse<PollResponse | Questionnaire>> {
+  const target = params.kind === "polls" ? pollTarget(params.network) : questionnaireTarget(params.network);
+  const q = params.q?.trim() ?? "";
+  const titleCol = params.kind === "polls" ? sql`${indexedPolls.title}` : sql`${questionnaires.title}`;
+
+  const activeCondition = params.active === undefined
+    ? null
+    : params.active ? target.active : sql`not ${target.active}`;
+  const baseConditions = [target.scope, activeCondition, q ? textMatch(target, q, titleCol) : null];
+  const filters = facetFilters(target, params);
+  const where = combine([...baseConditions, ...Object.values(filters)]);
+
+  // Relevance falls back to newest when there is no query to rank by
+  const sort = params.sort === "relevance" && !q ? "newest" : params.sort;
+  const order = sort === "relevance"
+    ? { expr: sql`round(ts_rank(${target.document}, websearch_to_tsquery('english', ${q}))::numeric, 6)`, dir: "desc" as const }
+    : target.sorts[sort];
+  const sortExpr = sql`(${order.expr})::numeric`;
+  const dir = order.dir === "asc" ? sql`asc` : sql`desc`;
+
+  const pageWhere = params.cursor
+    ? sql`${where} and ${afterCursor(sortExpr, target.id, order.dir, params.cursor)}`
+    : where;
+
+  const rows = await db.execute<{ sort_value: string | null; id: string | number }>(sql`
+    select ${sortExpr}::text as sort_value, ${target.id} as id
+    from ${target.table}
+    where ${pageWhere}
+    order by ${sortExpr} ${dir} nulls last, ${target.id} ${dir}
+    limit ${params.limit + 1}
+  `);
+
+  const pageRows = rows.rows.slice(0, params.limit);
+  const hasMore = rows.rows.length > params.limit;
+
+  const [{ total }] = (
+    await db.execute<{ total: string }>(sql`select count(*)::text as total from ${target.table} where ${where}`)
+  ).rows;
+
+  // Each facet is counted with every filter except its own
+  const facetNames = Object.keys(target.facets) as FacetName[];
+  const facetEntries = await Promise.all(
+    facetNames.map(async (name) => {
+      const otherFilters = Object.entries(filters)
+        .filter(([key]) => key !== name)
+        .map(([, condition]) => condition);
+      const result = await db.execute<{ value: string; count: string }>(sql`
+        select ${target.facets[name]} as value, count(*)::text as count
+        from ${target.table}
+        where ${combine([...baseConditions, ...otherFilters])}
+        group by 1
+        order by count(*) desc
+        limit ${name === "creator" ? MAX_CREATOR_BUCKETS : 50}
+      `);
+      return [name, result.rows.map((r) => ({ value: r.value, count: Number(r.count) }))] as const;
+    })
+  );
+
+  const ids = pageRows.map((r) => r.id);
+  const items = params.kind === "polls"
+    ? await loadPolls(params.network, ids.map(Number))
+    : await loadQuestionnaires(ids.map(String));
+
+  const last = pageRows[pageRows.length - 1];
+
+  return {
+    items,
+    total: Number(total),
+    facets: Object.fromEntries(facetEntries) as Record<FacetName, FacetBucket[]>,
+    nextCursor: hasMore && last ? encodeCursor(last.sort_value, last.id) : null,
+  };
+}
+
+// ============================================
+// Loading (keeps the ranked order of ids)
+// ============================================
+
+async function loadPolls(network: NetworkType, pollIds: number[]): Promise<PollResponse[]> {
+  if (pollIds.length === 0) return [];
+
+  const scope = and(eq(indexedPolls.network, network), inArray(indexedPolls.pollId, pollIds));
+  const polls = await db.select().from(indexedPolls).where(scope);
+  const options = await db
+    .select()
+    .from(indexedPollOptions)
+    .where(and(eq(indexedPollOptions.network, network), inArray(indexedPollOptions.pollId, pollIds)));
+
+  return pollIds
+    .map((pollId) => polls.find((poll) => poll.pollId === pollId))
+    .filter((poll): poll is IndexedPoll => !!poll)
+    .map((poll) => toPollResponse(poll, options.filter((o) => o.pollId === poll.pollId)));
+}
+
+async function loadQuestionnaires(ids: string[]): Promise<Questionnaire[]> {
+  if (ids.length === 0) return [];
+
+  const rows = await db.select().from(questionnaires).where(inArray(questionnaires.id, ids));
+  return ids
+    .map((id) => rows.find((row) => row.id === id))
+    .filter((row): row is Questionnaire => !!row);
+}
@@ -0,0 +1,132 @@
+import { eq } from "drizzle-orm";
+import { beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { sponsorshipLogs, TIERS } from "@shared/schema";
+
+vi.mock("./db", async () => ({ db: await (await import("./test-db")).createTestDb() }));
+
+const { db } = await import("./db");
+const {
+  SponsorshipPolicyError,
+  checkSponsorshipPolicy,
+  releaseSponsorship,
+  saveSponsorshipPolicy,
+} = await import("./sponsorship-policy");
+
+const CONTRACT = `0x${"a".repeat(64)}`;
+const WALLET = `0x${"b".repeat(64)}`;
+const ADMIN = `0x${"c".repeat(64)}`;
+
+function admit(maxGasAmount = 1000, gasUnitPrice = 100, entryFunction = "poll::vote") {
+  return checkSponsorshipPolicy({
+    network: "testnet",
+    walletAddress: WALLET,
+    tier: TIERS.BRONZE,
+    moduleAddress: CONTRACT,
+    entryFunction,
+    maxGasAmount: BigInt(maxGasAmount),
+    gasUnitPrice: BigInt(gasUnitPrice),
+  });
+}
+
+async function denial(promise: Promise<unknown>): Promise<string | undefined> {
+  const error = await promise.then(() => null, (err: unknown) => err);
+  expect(error).toBeInstanceOf(SponsorshipPolicyError);
+  return (error as InstanceType<typeof SponsorshipPolicyError>).reason;
+}
+
+beforeAll(() => {
+  process.env.VITE_TESTNET_CONTRACT_ADDRESS = CONTRACT;
+});
+
+beforeEach(async () => {
+  await db.delete(sponsorshipLogs);
+});
+
+describe("function allowlist", () => {
+  it("sponsors nothing until functions are allowed", async () => {
+    await saveSponsorshipPolicy("testnet", { allowedFunctions: [], tierDailyLimits: {}, dailyGasBudget: null }, ADMIN);
+
+    expect(await denial(admit())).toBe("function_not_allowed");
+  });
+
+  it("sponsors only the listed functions", async () => {
+    await saveSponsorshipPolicy(
+      "testnet",
+      { allowedFunctions: ["poll::vote"], tierDailyLimits: {}, dailyGasBudget: null },
+      ADMIN
+    );
+
+    await expect(admit()).resolves.toMatchObject({ dailyUsed: 0 });
+    expect(await denial(admit(1000, 100, "poll::create_poll_with_move"))).toBe("function_not_allowed");
+  });
+});
+
+describe("gas reservations", () => {
+  beforeEach(async () => {
+    // Room for exactly two transactions at 1000 gas * 100 octas
+    await saveSponsorshipPolicy(
+      "testnet",
+      { allowedFunctions: ["poll::vote"], tierDailyLimits: {}, dailyGasBudget: "200000" },
+      ADMIN
+    );
+  });
+
+  it("reserves each admission's worst-case fee against the budget", async () => {
+    const first = await admit();
+    await admit();
+
+    expect(await denial(admit())).toBe("gas_budget");
+
+    const [log] = await db.select().from(sponsorshipLogs).where(eq(sponsorshipLogs.id, first.reservationId));
+    expect(log.reservedFee).toBe("100000");
+  });
+
+  it("refuses a transaction whose worst case alone exceeds the budget", async () => {
+    expect(await denial(admit(2001, 100))).toBe("gas_budget");
+  });
+
+  it("releases the difference once the transaction settles", async () => {
+    const first = await admit();
+    await admit();
+    await db
+      .update(sponsorshipLogs)
+      .set({ txHash: `0x${"1".repeat(64)}`, gasUsed: 10, gasUnitPrice: "100", gasFee: "1000", settledAt: new Date() })
+      .where(eq(sponsorshipLogs.id, first.reservationId));
+
+    await expect(admit(990, 100)).resolves.toBeDefined();
+  });
+
+  it("releases the whole reservation when submission fails", async () => {
+    const first = await admit();
+    await admit();
+    await releaseSponsorship(first.reservationId);
+
+    await expect(admit()).resolves.toMatchObject({ dailyUsed: 1 });
+  });
+});
+
+describe("concurrent admissions", () => {
+  const settle = (admissions: Promise<unknown>[]) =>
+    Promise.allSettled(admissions).then((results) => results.filter((result) => result.status === "fulfilled").length);
+
+  it("holds a wallet to its daily limit when its requests arrive together", async () => {
+    await saveSponsorshipPolicy(
+      "testnet",
+      { allowedFunctions: ["poll::vote"], tierDailyLimits: { [TIERS.BRONZE]: 2 }, dailyGasBudget: null },
+      ADMIN
+    );
+
+    expect(await settle(Array.from({ length: 5 }, () => admit()))).toBe(2);
+    expect(await db.select().from(sponsorshipLogs)).toHaveLength(2);
+  });
+
+  it("holds the network to its gas budget when requests arrive together", async () => {
+    await saveSponsorshipPolicy(
+      "testnet",
+      { allowedFunctions: ["poll::vote"], tierDailyLimits: {}, dailyGasBudget: "200000" },
+      ADMIN
+    );
+
+    expect(await settle(Array.from({ length: 5 }, () => admit()))).toBe(2);
+  });
+});
@@ -0,0 +1,519 @@
+/**
+ * Gas sponsorship policy and spend accounting
+ * Before a transaction is sponsored it has to pass the network's policy: the
+ * entry function must be on the network's allowlist (an empty list sponsors
+ * nothing), the wallet must be under its tier's daily limit, and neither the
+ * network's daily gas budget nor the active season's campaign budget may be
+ * used up.
+ *
+ * Admission reserves the transaction's worst-case fee (max_gas_amount *
+ * gas_unit_price) against the budgets by logging it before submission. Once it
+ * commits the log is settled with the gas actually used, which releases the
+ * difference; a submission that fails releases the whole reservation.
+ *
+ * The checks and the reservation run in one transaction holding advisory locks
+ * on the wallet (daily limit) and, when a budget applies, the network, so
+ * concurrent admissions can't all pass on the same totals.
+ */
+
+import { and, desc, eq, gt, gte, isNull, isNotNull, lt, sql } from "drizzle-orm";
+import { db } from "./db";
+import {
+  seasons,
+  sponsorshipLogs,
+  sponsorshipPolicies,
+  SEASON_STATUS,
+  SPONSORSHIP_TIER_DAILY_LIMITS,
+  TIERS,
+  isAmountString,
+  toAmount,
+  type Season,
+} from "@shared/schema";
+import {
+  getPollContractAddress,
+  getStakingContractAddress,
+  getTransactionByHash,
+  normalizeAddress,
+  waitForTransaction,
+  type NetworkType,
+  type NodeTransaction,
+} from "./movement";
+
+// ============================================
+// Types
+// ============================================
+
+export type SponsorshipDenialReason = "function_not_allowed" | "daily_limit" | "gas_budget" | "campaign_budget";
+
+export class SponsorshipPolicyError extends Error {
+  status: number;
+  reason?: SponsorshipDenialReason; // Set when a transaction is refused
+
+  constructor(status: number, message: string, reason?: SponsorshipDenialReason) {
+    super(message);
+    this.status = status;
+    this.reason = reason;
+  }
+}
+
+export interface SponsorshipPolicySettings {
+  allowedFunctions: string[];
+  tierDailyLimits: Record<number, number>;
+  dailyGasBudget: string | null; // Octas; null = no cap
+}
+
+export interface ResolvedSponsorshipPolicy extends SponsorshipPolicySettings {
+  network: NetworkType;
+  updatedBy: string | null;
+  updatedAt: string | null;
+}
+
+export interface SponsorshipAllowance {
+  dailyUsed: number;
+  dailyLimit: number;
+  seasonId: string | null; // Active season the gas will be charged to
+  reservationId: string; // Sponsorship log holding the reserved fee
+}
+
+export interface SponsorshipSpendRow {
+  transactions: number;
+  gasSpent: string; // Octas, settled transactions only
+}
+
+export interface SponsorshipCampaign extends SponsorshipSpendRow {
+  seasonId: string;
+  seasonNumber: number;
+  name: string;
+  status: number;
+  budget: string | null;
+}
+
+export interface SponsorshipSpend {
+  policy: ResolvedSponsorshipPolicy;
+  today: SponsorshipSpendRow & { pending: number };
+  daily: (SponsorshipSpendRow & { date: string })[];
+  byFunction: (SponsorshipSpendRow & { entryFunction: string })[];
+  topWallets: (SponsorshipSpendRow & { walletAddress: string })[];
+  campaigns: SponsorshipCampaign[];
+}
+
+const ENTRY_FUNCTION_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*::[A-Za-z_][A-Za-z0-9_]*$/;
+const SETTLE_BATCH_SIZE = 50;
+const SETTLE_AFTER_MS = 30 * 1000; // Leave fresh transactions to the post-submit wait
+const RELEASE_AFTER_MS = 15 * 60 * 1000; // Sponsored transactions expire within 10 minutes
+
+// ============================================
+// Helpers
+// ============================================
+
+function startOfUtcDay(date = new Date()): Date {
+  const start = new Date(date);
+  start.setUTCHours(0, 0, 0, 0);
+  return start;
+}
+
+const gasSpentSql = sql<string>`coalesce(sum(${sponsorshipLogs.gasFee}::numeric), 0)::text`;
+const transactionCountSql = sql<number>`count(*)::int`;
+// Settled fees plus the reservations of transactions still pending
+const gasCommittedSql = sql<string>`coalesce(sum(coalesce(${sponsorshipLogs.gasFee}, ${sponsorshipLogs.reservedFee}, '0')::numeric), 0)::text`;
+
+// The database or an open transaction
+type Executor = Pick<typeof db, "select" | "insert" | "execute">;
+
+async function getGasCommitted(
+  network: NetworkType,
+  filter: ReturnType<typeof and>,
+  executor: Executor = db
+): Promise<bigint> {
+  const [row] = await executor
+    .select({ gasCommitted: gasCommittedSql })
+    .from(sponsorshipLogs)
+    .where(and(eq(sponsorshipLogs.network, network), filter));
+  return toAmount(row?.gasCommitted ?? "0");
+}
+
+/**
+ * The network's active season, which sponsored gas is attributed to
+ */
+async function getActiveSeason(network: NetworkType, executor: Executor = db): Promise<Season | null> {
+  const now = new Date();
+  const [season] = await executor
+    .select()
+    .from(seasons)
+    .where(
+      and(
+        eq(seasons.network, network),
+        eq(seasons.status, SEASON_STATUS.ACTIVE),
+        lt(seasons.startTime, now),
+        gt(seasons.endTime, now)
+      )
+    )
+    .limit(1);
+  return season ?? null;
+}
+
+// Transaction-scoped advisory lock; locks are always taken wallet first, then network
+async function lockSponsorship(tx: Executor, key: string): Promise<void> {
+  await tx.execute(sql`select pg_advisory_xact_lock(hashtext(${`sponsorship:${key}`}))`);
+}
+
+// ============================================
+// Policy
+// ============================================
+
+/**
+ * The network's policy, falling back to the defaults
+ */
+export async function getSponsorshipPolicy(network: NetworkType): Promise<ResolvedSponsorshipPolicy> {
+  const [row] = await db
+    .select()
+    .from(sponsorshipPolicies)
+    .where(eq(sponsorshipPolicies.network, network))
+    .limit(1);
+
+  return {
+    network,
+    allowedFunctions: row?.allowedFunctions ?? [],
+    tierDailyLimits: { ...SPONSORSHIP_TIER_DAILY_LIMITS, ...row?.tierDailyLimits },
+    dailyGasBudget: row?.dailyGasBudget ?? null,
+    updatedBy: row?.updatedBy ?? null,
+    updatedAt: row?.updatedAt?.toISOString() ?? null,
+  };
+}
+
+/**
+ * Validate an admin's policy edit
+ */
+export function normalizeSponsorshipPolicy(input: unknown): SponsorshipPolicySettings {
+  if (!input || typeof input !== "object" || Array.isArray(input)) {
+    throw new SponsorshipPolicyError(400, "policy must be an object");
+  }
+  const { allowedFunctions = [], tierDailyLimits = {}, dailyGasBudget = null } = input as Record<string, unknown>;
+
+  if (!Array.isArray(allowedFunctions) || !allowedFunctions.every((fn) => typeof fn === "string")) {
+    throw new SponsorshipPolicyError(400, "allowedFunctions must be a list of module::function names");
+  }
+  const functions = Array.from(new Set(allowedFunctions.map((fn: string) => fn.trim()).filter((fn) => fn.length > 0)));
+  const invalid = functions.find((fn) => !ENTRY_FUNCTION_PATTERN.test(fn));
+  if (invalid) {
+    throw new SponsorshipPolicyError(400, `"${invalid}" is not a module::function name`);
+  }
+
+  if (typeof tierDailyLimits !== "object" || tierDailyLimits === null || Array.isArray(tierDailyLimits)) {
+    throw new SponsorshipPolicyError(400, "tierDailyLimits must be an object");
+  }
+  const limits: Record<number, number> = {};
+  for (const tier of Object.values(TIERS)) {
+    const value = (tierDailyLimits as Record<string, unknown>)[tier];
+    if (value === undefined) continue;
+    if (!Number.isInteger(value) || (value as number) < 0) {
+      throw new SponsorshipPolicyError(400, "Daily limits must be whole numbers of transactions");
+    }
+    limits[tier] = value as number;
+  }
+
+  if (dailyGasBudget !== null && !isAmountString(dailyGasBudget)) {
+    throw new SponsorshipPolicyError(400, "dailyGasBudget must be an amount in octas");
+  }
+
+  return { allowedFunctions: functions, tierDailyLimits: limits, dailyGasBudget };
+}
+
+export async function saveSponsorshipPolicy(
+  network: NetworkType,
+  settings: SponsorshipPolicySettings,
+  actorAddress: string
+): Promise<ResolvedSponsorshipPolicy> {
+  const values = { ...settings, updatedBy: actorAddress.toLowerCase(), updatedAt: new Date() };
+  await db
+    .insert(sponsorshipPolicies)
+    .values({ network, ...values })
+    .onConflictDoUpdate({ target: sponsorshipPolicies.network, set: values });
+  return getSponsorshipPolicy(network);
+}
+
+/**
+ * Set or clear a season's sponsorship campaign budget (octas)
+ */
+export async function setCampaignBudget(network: NetworkType, seasonId: string, budget: unknown): Promise<Season | null> {
+  if (budget !== null && !isAmountString(budget)) {
+    throw new SponsorshipPolicyError(400, "budget must be an amount in octas or null");
+  }
+  const [season] = await db
+    .update(seasons)
+    .set({ sponsorshipBudget: budget, updatedAt: new Date() })
+    .where(and(eq(seasons.id, seasonId), eq(seasons.network, network)))
+    .returning();
+  return season ?? null;
+}
+
+/**
+ * Sponsored transactions a wallet has used today on a network
+ */
+export async function getDailySponsorshipCount(
+  network: NetworkType,
+  walletAddress: string,
+  executor: Executor = db
+): Promise<number> {
+  const [row] = await executor
+    .select({ count: transactionCountSql })
+    .from(sponsorshipLogs)
+    .where(
+      and(
+        eq(sponsorshipLogs.network, network),
+        eq(sponsorshipLogs.walletAddress, walletAddress.toLowerCase()),
+        gte(sponsorshipLogs.createdAt, startOfUtcDay())
+      )
+    );
+  return row?.count ?? 0;
+}
+
+export function getTierDailyLimit(policy: SponsorshipPolicySettings, tier: number): number {
+  return policy.tierDailyLimits[tier] ?? SPONSORSHIP_TIER_DAILY_LIMITS[tier as keyof typeof SPONSORSHIP_TIER_DAILY_LIMITS] ?? 0;
+}
+
+/**
+ * Check a transaction against the network's policy before sponsoring it, and
+ * reserve its worst-case fee against the budgets when it passes
+ * moduleAddress / entryFunction / gas terms come from the transaction itself.
+ * The caller must record or release the returned reservation.
+ */
+export async function checkSponsorshipPolicy(params: {
+  network: NetworkType;
+  walletAddress: string;
+  tier: number;
+  moduleAddress: string;
+  entryFunction: string;
+  maxGasAmount: bigint;
+  gasUnitPrice: bigint;
+}): Promise<SponsorshipAllowance> {
+  const { network, walletAddress, tier, moduleAddress, entryFunction } = params;
+  const policy = await getSponsorshipPolicy(network);
+  const maxFee = params.maxGasAmount * params.gasUnitPrice;
+
+  const platformContracts = [getPollContractAddress(network), getStakingContractAddress(network)]
+    .filter((address): address is string => !!address)
+    .map(normalizeAddress);
+  if (
+    !platformContracts.includes(normalizeAddress(moduleAddress)) ||
+    !policy.allowedFunctions.includes(entryFunction)
+  ) {
+    throw new SponsorshipPolicyError(403, `${entryFunction} is not eligible for gas sponsorship`, "function_not_allowed");
+  }
+
+  const dailyLimit = getTierDailyLimit(policy, tier);
+  const wallet = walletAddress.toLowerCase();
+
+  return db.transaction(async (tx) => {
+    // Held until commit, so the next admission sees this reservation
+    await lockSponsorship(tx, `${network}:${wallet}`);
+
+    const dailyUsed = await getDailySponsorshipCount(network, wallet, tx);
+    if (dailyUsed >= dailyLimit) {
+      throw new SponsorshipPolicyError(429, "Daily sponsorship limit reached", "daily_limit");
+    }
+
+    const season = await getActiveSeason(network, tx);
+    if (policy.dailyGasBudget !== null || season?.sponsorshipBudget) {
+      // Budgets are shared by every wallet on the network
+      await lockSponsorship(tx, network);
+    }
+
+    if (policy.dailyGasBudget !== null) {
+      const committedToday = await getGasCommitted(network, gte(sponsorshipLogs.createdAt, startOfUtcDay()), tx);
+      if (committedToday + maxFee > toAmount(policy.dailyGasBudget)) {
+        throw new SponsorshipPolicyError(429, "Today's sponsorship budget is used up", "gas_budget");
+      }
+    }
+
+    if (season?.sponsorshipBudget) {
+      const committedInSeason = await getGasCommitted(network, eq(sponsorshipLogs.seasonId, season.id), tx);
+      if (committedInSeason + maxFee > toAmount(season.sponsorshipBudget)) {
+        throw new SponsorshipPolicyError(429, `${season.name}'s sponsorship budget is used up`, "campaign_budget");
+      }
+    }
+
+    const [reservation] = await tx
+      .insert(sponsorshipLogs)
+      .values({
+        network,
+        walletAddress: wallet,
+        entryFunction,
+        seasonId: season?.id ?? null,
+        reservedFee: maxFee.toString(),
+      })
+      .returning({ id: sponsorshipLogs.id });
+
+    return { dailyUsed, dailyLimit, seasonId: season?.id ?? null, reservationId: reservation.id };
+  });
+}
+
+// ============================================
+// Spend Ledger
+// ============================================
+
+function gasFromTransaction(transaction: NodeTransaction | null) {
+  if (!transaction || transaction.type === "pending_transaction" || !transaction.gas_used || !transaction.gas_unit_price) {
+    return null;
+  }
+  const gasUsed = BigInt(transaction.gas_used);
+  const gasUnitPrice = BigInt(transaction.gas_unit_price);
+  return {
+    gasUsed: Number(gasUsed),
+    gasUnitPrice: gasUnitPrice.toString(),
+    gasFee: (gasUsed * gasUnitPrice).toString(),
+    settledAt: new Date(),
+  };
+}
+
+async function settleSponsorship(logId: string, txHash: string, network: NetworkType): Promise<void> {
+  const gas = gasFromTransaction(await waitForTransaction(txHash, network, 30000));
+  if (gas) {
+    await db.update(sponsorshipLogs).set(gas).where(eq(sponsorshipLogs.id, logId));
+  }
+}
+
+/**
+ * Attach the submitted transaction to its reservation and settle its gas in the
+ * background once it commits
+ */
+export async function recordSponsorship(params: {
+  network: NetworkType;
+  reservationId: string;
+  txHash: string;
+  provider: string;
+}): Promise<void> {
+  await db
+    .update(sponsorshipLogs)
+    .set({ txHash: params.txHash, provider: params.provider })
+    .where(eq(sponsorshipLogs.id, params.reservationId));
+
+  settleSponsorship(params.reservationId, params.txHash, params.network).catch((error) => {
+    console.error(`Failed to settle sponsored transaction ${params.txHash}:`, error);
+  });
+}
+
+/**
+ * Drop a reservation whose transaction was never submitted
+ */
+export async function releaseSponsorship(reservationId: string): Promise<void> {
+  await db
+    .delete(sponsorshipLogs)
+    .where(and(eq(sponsorshipLogs.id, reservationId), isNull(sponsorshipLogs.txHash)));
+}
+
+/**
+ * Settle logged transactions whose gas wasn't recorded after submission
+ * (e.g. the server restarted or the node was slow). Transactions the node still
+ * doesn't know once they must have expired settle at zero, releasing their
+ * reservation, as do reservations that never got a transaction.
+ */
+export async function settlePendingSponsorships(network: NetworkType): Promise<number> {
+  const pending = await db
+    .select({ id: sponsorshipLogs.id, txHash: sponsorshipLogs.txHash, createdAt: sponsorshipLogs.createdAt })
+    .from(sponsorshipLogs)
+    .where(
+      and(
+        eq(sponsorshipLogs.network, network),
+        isNull(sponsorshipLogs.settledAt),
+        lt(sponsorshipLogs.createdAt, new Date(Date.now() - SETTLE_AFTER_MS))
+      )
+    )
+    .orderBy(sponsorshipLogs.createdAt)
+    .limit(SETTLE_BATCH_SIZE);
+
+  const expiredBefore = Date.now() - RELEASE_AFTER_MS;
+  let settled = 0;
+  for (const log of pending) {
+    const transaction = log.txHash ? await getTransactionByHash(log.txHash, network) : null;
+    const gas = gasFromTransaction(transaction)
+      ?? (!transaction && log.createdAt.getTime() < expiredBefore
+        ? { gasUsed: 0, gasUnitPrice: "0", gasFee: "0", settledAt: new Date() }
+        : null);
+    if (!gas) continue;
+    await db.update(sponsorshipLogs).set(gas).where(eq(sponsorshipLogs.id, log.id));
+    settled++;
+  }
+  return settled;
+}
+
+/**
+ * Sponsorship spend for the admin dashboard
+ */
+export async function getSponsorshipSpend(network: NetworkType, days = 14): Promise<SponsorshipSpend> {
+  const today = startOfUtcDay();
+  const since = new Date(today.getTime() - (days - 1) * 24 * 60 * 60 * 1000);
+  const inWindow = and(eq(sponsorshipLogs.network, network), gte(sponsorshipLogs.createdAt, since));
+  const day = sql<string>`to_char(${sponsorshipLogs.createdAt}, 'YYYY-MM-DD')`;
+
+  const [policy, [todayRow], daily, byFunction, topWallets, seasonRows] = await Promise.all([
+    getSponsorshipPolicy(network),
+    db
+      .select({
+        transactions: transactionCountSql,
+        gasSpent: gasSpentSql,
+        pending: sql<number>`count(*) filter (where ${sponsorshipLogs.settledAt} is null)::int`,
+      })
+      .from(sponsorshipLogs)
+      .where(and(eq(sponsorshipLogs.network, network), gte(sponsorshipLogs.createdAt, today))),
+    db
+      .select({ date: day, transactions: transactionCountSql, gasSpent: gasSpentSql })
+      .from(sponsorshipLogs)
+      .where(inWindow)
+      .groupBy(day)
+      .orderBy(day),
+    db
+      .select({
+        entryFunction: sql<string>`coalesce(${sponsorshipLogs.entryFunction}, 'unknown')`,
+        transactions: transactionCountSql,
+        gasSpent: gasSpentSql,
+      })
+      .from(sponsorshipLogs)
+      .where(inWindow)
+      .groupBy(sponsorshipLogs.entryFunction)
+      .orderBy(desc(gasSpentSql)),
+    db
+      .select({ walletAddress: sponsorshipLogs.walletAddress, transactions: transactionCountSql, gasSpent: gasSpentSql })
+      .from(sponsorshipLogs)
+      .where(inWindow)
+      .groupBy(sponsorshipLogs.walletAddress)
+      .orderBy(desc(sql`sum(${sponsorshipLogs.gasFee}::numeric)`), desc(transactionCountSql))
+      .limit(10),
+    db
+      .select()
+      .from(seasons)
+      .where(eq(seasons.network, network))
+      .orderBy(desc(seasons.seasonNumber))
+      .limit(10),
+  ]);
+
+  const campaignSpend = seasonRows.length === 0 ? [] : await db
+    .select({ seasonId: sponsorshipLogs.seasonId, transactions: transactionCountSql, gasSpent: gasSpentSql })
+    .from(sponsorshipLogs)
+    .where(and(eq(sponsorshipLogs.network, network), isNotNull(sponsorshipLogs.seasonId)))
+    .groupBy(sponsorshipLogs.seasonId);
+
+  return {
+    policy,
+    today: {
+      transactions: todayRow?.transactions ?? 0,
+      gasSpent: todayRow?.gasSpent ?? "0",
+      pending: todayRow?.pending ?? 0,
+    },
+    daily,
+    byFunction,
+    topWallets,
+    campaigns: seasonRows.map((season) => {
+      const spend = campaignSpend.find((row) => row.seasonId === season.id);
+      return {
+        seasonId: season.id,
+        seasonNumber: season.seasonNumber,
+        name: season.name,
+        status: season.status,
+        budget: season.sponsorshipBudget,
+        transactions: spend?.transactions ?? 0,
+        gasSpent: spend?.gasSpent ?? "0",
+      };
+    }),
+  };
+}
@@ -0,0 +1,210 @@
+import { createServer, type IncomingMessage, type Server } from "http";
+import type { AddressInfo } from "net";
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import { FeePayerSponsorProvider, ShinamiSponsorProvider, type SponsorProvider } from "./sponsorship";
+import { bcsAddress, bcsU64 } from "./transaction-signer";
+
+const CONTRACT = `0x${"a".repeat(64)}`;
+const SENDER = `0x${"b".repeat(64)}`;
+const CHAIN_ID = 250;
+const GAS_ESTIMATE = 100;
+const FEE_PAYER_KEY = "11".repeat(32);
+// BCS AccountAuthenticator::Ed25519 (the providers pass it through unchecked)
+const SENDER_SIGNATURE = `0x0020${"cd".repeat(32)}40${"ef".repeat(64)}`;
+
+interface TransactionTerms {
+  moduleAddress: string;
+  maxGasAmount: number;
+  gasUnitPrice: number;
+  expiresInSecs: number;
+  chainId: number;
+}
+
+const DEFAULT_TERMS: TransactionTerms = {
+  moduleAddress: CONTRACT,
+  maxGasAmount: 20000,
+  gasUnitPrice: GAS_ESTIMATE,
+  expiresInSecs: 30,
+  chainId: CHAIN_ID,
+};
+
+function bcsString(value: string): Buffer {
+  const bytes = Buffer.from(value, "utf8");
+  return Buffer.concat([Buffer.from([bytes.length]), bytes]);
+}
+
+// BCS SimpleTransaction: poll::vote(registry, 7, 1) with the fee payer left as 0x0
+function buildTransaction(overrides: Partial<TransactionTerms> = {}): string {
+  const terms = { ...DEFAULT_TERMS, ...overrides };
+  const args = [bcsAddress(CONTRACT), bcsU64(7), bcsU64(1)];
+  return `0x${Buffer.concat([
+    bcsAddress(SENDER),
+    bcsU64(3),
+    Buffer.from([2]), // entry function payload
+    bcsAddress(terms.moduleAddress),
+    bcsString("poll"),
+    bcsString("vote"),
+    Buffer.from([0, args.length]),
+    ...args.map((arg) => Buffer.concat([Buffer.from([arg.length]), arg])),
+    bcsU64(terms.maxGasAmount),
+    bcsU64(terms.gasUnitPrice),
+    bcsU64(Math.floor(Date.now() / 1000) + terms.expiresInSecs),
+    Buffer.from([terms.chainId]),
+    Buffer.from([1]),
+    bcsAddress("0x0"),
+  ]).toString("hex")}`;
+}
+
+// ============================================
+// Mock node and Shinami Gas Station
+// ============================================
+
+let node: Server;
+let shinami: Server;
+const submitted: Buffer[] = [];
+const rpcCalls: { method: string; params: unknown[] }[] = [];
+let rpcError: { code: number; message: string } | null = null;
+
+async function readBody(req: IncomingMessage): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) chunks.push(chunk as Buffer);
+  return Buffer.concat(chunks);
+}
+
+async function listen(server: Server): Promise<string> {
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  return `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+}
+
+beforeAll(async () => {
+  node = createServer(async (req, res) => {
+    const body = await readBody(req);
+    res.setHeader("Content-Type", "application/json");
+    if (req.method === "GET" && req.url === "/v1") {
+      res.end(JSON.stringify({ chain_id: CHAIN_ID }));
+    } else if (req.method === "GET" && req.url === "/v1/estimate_gas_price") {
+      res.end(JSON.stringify({ gas_estimate: GAS_ESTIMATE, prioritized_gas_estimate: GAS_ESTIMATE * 2 }));
+    } else if (req.method === "POST" && req.url === "/v1/transactions") {
+      submitted.push(body);
+      res.statusCode = 202;
+      res.end(JSON.stringify({ hash: `0x${"e".repeat(64)}`, sender: SENDER, sequence_number: "3" }));
+    } else {
+      res.statusCode = 404;
+      res.end("{}");
+    }
+  });
+
+  shinami = createServer(async (req, res) => {
+    const call = JSON.parse((await readBody(req)).toString());
+    rpcCalls.push(call);
+    res.setHeader("Content-Type", "application/json");
+    res.end(
+      JSON.stringify(
+        rpcError
+          ? { jsonrpc: "2.0", id: call.id, error: rpcError }
+          : {
+              jsonrpc: "2.0",
+              id: call.id,
+              result: { pendingTransaction: { hash: `0x${"f".repeat(64)}`, sender: SENDER, sequence_number: "3" } },
+            }
+      )
+    );
+  });
+
+  process.env.MOVEMENT_TESTNET_NODE_URL = await listen(node);
+  process.env.SHINAMI_GAS_URL = await listen(shinami);
+  process.env.VITE_TESTNET_CONTRACT_ADDRESS = CONTRACT;
+});
+
+afterAll(async () => {
+  await Promise.all([node, shinami].map((server) => new Promise((resolve) => server.close(resolve))));
+});
+
+beforeEach(() => {
+  submitted.length = 0;
+  rpcCalls.length = 0;
+  rpcError = null;
+  delete process.env.SPONSOR_MAX_GAS_AMOUNT_TESTNET;
+});
+
+// ============================================
+// Shared gas-term checks
+// ============================================
+
+const providers: [string, () => SponsorProvider, () => number][] = [
+  ["shinami", () => new ShinamiSponsorProvider("test-key", "testnet"), () => rpcCalls.length],
+  ["fee_payer", () => new FeePayerSponsorProvider(FEE_PAYER_KEY, "testnet"), () => submitted.length],
+];
+
+describe.each(providers)("%s provider gas terms", (_name, createProvider, submissions) => {
+  it("sponsors a transaction within the gas terms", async () => {
+    const result = await createProvider().sponsorAndSubmit(buildTransaction(), SENDER_SIGNATURE);
+
+    expect(result.sender).toBe(SENDER);
+    expect(submissions()).toBe(1);
+  });
+
+  it.each<[string, Partial<TransactionTerms>, RegExp]>([
+    ["max_gas_amount above the cap", { maxGasAmount: 200001 }, /sponsorship cap of 200000/],
+    ["gas_unit_price above the node's estimate", { gasUnitPrice: GAS_ESTIMATE + 1 }, /above the network's estimate/],
+    ["another chain id", { chainId: 1 }, /chain 1/],
+    ["an expiration too far out", { expiresInSecs: 60 * 60 }, /expire within 10 minutes/],
+    ["an expiration in the past", { expiresInSecs: -1 }, /expired/],
+  ])("rejects %s without submitting", async (_case, terms, message) => {
+    await expect(createProvider().sponsorAndSubmit(buildTransaction(terms), SENDER_SIGNATURE)).rejects.toThrow(message);
+    expect(submissions()).toBe(0);
+  });
+
+  it("applies a configured max gas cap", async () => {
+    process.env.SPONSOR_MAX_GAS_AMOUNT_TESTNET = "10000";
+
+    await expect(createProvider().sponsorAndSubmit(buildTransaction(), SENDER_SIGNATURE)).rejects.toThrow(
+      /sponsorship cap of 10000/
+    );
+  });
+});
+
+// ============================================
+// Provider specifics
+// ============================================
+
+describe("ShinamiSponsorProvider", () => {
+  it("forwards the sender-signed transaction over JSON-RPC", async () => {
+    const transaction = buildTransaction();
+    await new ShinamiSponsorProvider("test-key", "testnet").sponsorAndSubmit(transaction, SENDER_SIGNATURE);
+
+    expect(rpcCalls).toEqual([
+      expect.objectContaining({
+        method: "gas_sponsorAndSubmitSignedTransaction",
+        params: [transaction, SENDER_SIGNATURE],
+      }),
+    ]);
+  });
+
+  it("surfaces JSON-RPC errors", async () => {
+    rpcError = { code: -32602, message: "Insufficient fund balance" };
+
+    await expect(
+      new ShinamiSponsorProvider("test-key", "testnet").sponsorAndSubmit(buildTransaction(), SENDER_SIGNATURE)
+    ).rejects.toThrow("Insufficient fund balance");
+  });
+});
+
+describe("FeePayerSponsorProvider", () => {
+  it("co-signs as the fee payer and submits to the node", async () => {
+    const provider = new FeePayerSponsorProvider(FEE_PAYER_KEY, "testnet");
+    await provider.sponsorAndSubmit(buildTransaction(), SENDER_SIGNATURE);
+
+    const [signed] = submitted;
+    expect(signed.includes(Buffer.from(provider.address.slice(2), "hex"))).toBe(true);
+  });
+
+  it("only pays for calls into the platform contracts", async () => {
+    const provider = new FeePayerSponsorProvider(FEE_PAYER_KEY, "testnet");
+
+    await expect(
+      provider.sponsorAndSubmit(buildTransaction({ moduleAddress: SENDER }), SENDER_SIGNATURE)
+    ).rejects.toThrow("not eligible");
+    expect(submitted).toHaveLength(0);
+  });
+});
@@ -0,0 +1,422 @@
+/**
+ * Gas sponsorship providers
+ * The client builds a fee-payer transaction, signs it as the sender and posts
+ * the BCS bytes to /api/sponsor-transaction; the network's provider pays the
+ * gas and submits it. Two providers are available:
+ *
+ * - shinami:   Shinami Gas Station (gas_sponsorAndSubmitSignedTransaction),
+ *              keyed by SHINAMI_GAS_KEY_{NETWORK}. SHINAMI_GAS_URL overrides
+ *              the endpoint (e.g. a local mock JSON-RPC server).
+ * - fee_payer: a self-hosted fee payer that co-signs with the Ed25519 key in
+ *              SPONSOR_FEE_PAYER_KEY_{NETWORK} and submits to the network's node.
+ *              It only pays for calls into the poll and staking contracts.
+ *              SPONSOR_FEE_PAYER_ADDRESS_{NETWORK} is needed if the key was rotated.
+ *
+ * SPONSOR_PROVIDER_{NETWORK} picks one explicitly; otherwise Shinami is used
+ * when its key is set, then the fee payer.
+ *
+ * Either way the transaction's gas terms are checked before anything is paid:
+ * max_gas_amount is capped (SPONSOR_MAX_GAS_AMOUNT_{NETWORK}), the gas unit price
+ * may not exceed the node's estimate, the chain id must match the network, and
+ * the expiration must be within a few minutes.
+ */
+
+import { createHash } from "crypto";
+import {
+  getPollContractAddress,
+  getStakingContractAddress,
+  normalizeAddress,
+  type NetworkType,
+} from "./movement";
+import { Ed25519Account, fromHex, getNodeJson, stripHexPrefix, submitSignedTransaction } from "./transaction-signer";
+
+// ============================================
+// Types
+// ============================================
+
+export type SponsorProviderName = "shinami" | "fee_payer";
+
+export interface SponsoredSubmission {
+  hash: string;
+  sender: string;
+  sequenceNumber: string;
+}
+
+export interface SponsorProvider {
+  name: SponsorProviderName;
+  /**
+   * Pay for and submit a transaction the sender has signed
+   * serializedTransaction is a BCS SimpleTransaction, senderSignature a BCS
+   * AccountAuthenticator, both hex-encoded.
+   */
+  sponsorAndSubmit(serializedTransaction: string, senderSignature: string): Promise<SponsoredSubmission>;
+}
+
+// ============================================
+// Constants
+// ============================================
+
+const DEFAULT_SHINAMI_GAS_URL = "https://api.us1.shinami.com/movement/gas/v1";
+const DEFAULT_MAX_SPONSORED_GAS_AMOUNT = 200000; // The SDK's default max_gas_amount
+const MAX_EXPIRATION_SECS = 10 * 60; // Signed transactions can't be held for later
+
+// Prefix of sha3-256("APTOS::RawTransactionWithData"), prepended to fee-payer signing messages
+const RAW_TRANSACTION_WITH_DATA_SALT = createHash("sha3-256").update("APTOS::RawTransactionWithData").digest();
+const MULTI_AGENT_WITH_FEE_PAYER_VARIANT = 1;
+const FEE_PAYER_AUTHENTICATOR_VARIANT = 3;
+const ED25519_ACCOUNT_AUTHENTICATOR_VARIANT = 0;
+const ENTRY_FUNCTION_PAYLOAD_VARIANT = 2;
+
+// ============================================
+// Shinami Gas Station
+// ============================================
+
+export class ShinamiSponsorProvider implements SponsorProvider {
+  name = "shinami" as const;
+
+  constructor(
+    private apiKey: string,
+    private network: NetworkType,
+    private url = process.env.SHINAMI_GAS_URL || DEFAULT_SHINAMI_GAS_URL
+  ) {}
+
+  async sponsorAndSubmit(serializedTransaction: string, senderSignature: string): Promise<SponsoredSubmission> {
+    await checkGasTerms(parseSimpleTransaction(fromHex(serializedTransaction, "serializedTransaction")), this.network);
+
+    const response = await fetch(this.url, {
+      method: "POST",
+      headers: {
+        "X-API-Key": this.apiKey,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        jsonrpc: "2.0",
+        method: "gas_sponsorAndSubmitSignedTransaction",
+        params: [serializedTransaction, senderSignature],
+        id: 1,
+      }),
+    });
+
+    if (!response.ok) {
+      console.error("Shinami API error:", await response.text());
+      throw new Error("Shinami API error");
+    }
+
+    const result = await response.json();
+
+    // Check for JSON-RPC errors
+    if (result.error) {
+      console.error("Shinami RPC error:", result.error);
+      throw new Error(result.error.message || "Shinami RPC error");
+    }
+
+    const pendingTx = result.result?.pendingTransaction;
+    if (!pendingTx?.hash) {
+      console.error("Unexpected Shinami response:", result);
+      throw new Error("Unexpected response from Shinami");
+    }
+
+    return {
+      hash: pendingTx.hash,
+      sender: pendingTx.sender,
+      sequenceNumber: pendingTx.sequence_number,
+    };
+  }
+}
+
+// ============================================
+// BCS Reading
+// ============================================
+
+/**
+ * Minimal BCS cursor, enough to walk a RawTransaction with an entry function payload
+ */
+class BcsReader {
+  offset = 0;
+
+  constructor(private bytes: Buffer) {}
+
+  get remaining(): number {
+    return this.bytes.length - this.offset;
+  }
+
+  take(length: number): Buffer {
+    if (length > this.remaining) {
+      throw new Error("Malformed transaction: unexpected end of bytes");
+    }
+    const slice = this.bytes.subarray(this.offset, this.offset + length);
+    this.offset += length;
+    return slice;
+  }
+
+  uleb128(): number {
+    let value = 0;
+    for (let shift = 0; shift < 32; shift += 7) {
+      const byte = this.take(1)[0];
+      value += (byte & 0x7f) * 2 ** shift;
+      if ((byte & 0x80) === 0) return value;
+    }
+    throw new Error("Malformed transaction: invalid length prefix");
+  }
+
+  address(): string {
+    return `0x${this.take(32).toString("hex")}`;
+  }
+
+  u64(): bigint {
+    return this.take(8).readBigUInt64LE();
+  }
+
+  string(): string {
+    return this.take(this.uleb128()).toString("utf8");
+  }
+
+  skipBytes(): void {
+    this.take(this.uleb128());
+  }
+
+  skipTypeTag(): void {
+    const variant = this.uleb128();
+    if (variant === 6) {
+      this.skipTypeTag(); // vector<T>
+    } else if (variant === 7) {
+      this.take(32); // struct: address, module, name, type args
+      this.string();
+      this.string();
+      const count = this.uleb128();
+      for (let i = 0; i < count; i++) this.skipTypeTag();
+    } else if (variant > 10) {
+      throw new Error("Malformed transaction: unknown type tag");
+    }
+  }
+}
+
+interface ParsedFeePayerTransaction {
+  rawTransaction: Buffer;
+  sender: string;
+  moduleAddress: string;
+  moduleName: string;
+  functionName: string;
+  maxGasAmount: bigint;
+  gasUnitPrice: bigint;
+  expirationTimestampSecs: bigint;
+  chainId: number;
+  feePayerAddress: string | null;
+}
+
+/**
+ * Split a BCS SimpleTransaction into its RawTransaction and optional fee payer address
+ * Only entry function payloads are accepted.
+ */
+function parseSimpleTransaction(bytes: Buffer): ParsedFeePayerTransaction {
+  const reader = new BcsReader(bytes);
+  const sender = reader.address();
+  reader.take(8); // sequence number
+
+  if (reader.uleb128() !== ENTRY_FUNCTION_PAYLOAD_VARIANT) {
+    throw new Error("Only entry function transactions can be sponsored");
+  }
+  const moduleAddress = reader.address();
+  const moduleName = reader.string();
+  const functionName = reader.string();
+  const typeArgCount = reader.uleb128();
+  for (let i = 0; i < typeArgCount; i++) reader.skipTypeTag();
+  const argCount = reader.uleb128();
+  for (let i = 0; i < argCount; i++) reader.skipBytes();
+
+  const maxGasAmount = reader.u64();
+  const gasUnitPrice = reader.u64();
+  const expirationTimestampSecs = reader.u64();
+  const chainId = reader.take(1)[0];
+  const rawTransaction = bytes.subarray(0, reader.offset);
+
+  const hasFeePayer = reader.take(1)[0] === 1;
+  const feePayerAddress = hasFeePayer ? reader.address() : null;
+  if (reader.remaining !== 0) {
+    throw new Error("Malformed transaction: trailing bytes");
+  }
+
+  return {
+    rawTransaction,
+    sender,
+    moduleAddress,
+    moduleName,
+    functionName,
+    maxGasAmount,
+    gasUnitPrice,
+    expirationTimestampSecs,
+    chainId,
+    feePayerAddress,
+  };
+}
+
+/**
+ * Largest max_gas_amount the network's sponsor will pay for
+ */
+export function getMaxSponsoredGasAmount(network: NetworkType): bigint {
+  const configured = networkEnv("SPONSOR_MAX_GAS_AMOUNT", network);
+  return BigInt(configured && /^\d+$/.test(configured) ? configured : DEFAULT_MAX_SPONSORED_GAS_AMOUNT);
+}
+
+/**
+ * Refuse gas terms a sponsor shouldn't sign up for: more gas than the cap, a
+ * price above the node's estimate, another chain, or an expiration that is
+ * past or far enough out for the transaction to be held and submitted later
+ */
+async function checkGasTerms(transaction: ParsedFeePayerTransaction, network: NetworkType): Promise<void> {
+  const maxGasAmount = getMaxSponsoredGasAmount(network);
+  if (transaction.maxGasAmount > maxGasAmount) {
+    throw new Error(`max_gas_amount exceeds the sponsorship cap of ${maxGasAmount}`);
+  }
+
+  const now = BigInt(Math.floor(Date.now() / 1000));
+  if (transaction.expirationTimestampSecs <= now) {
+    throw new Error("Transaction has expired");
+  }
+  if (transaction.expirationTimestampSecs > now + BigInt(MAX_EXPIRATION_SECS)) {
+    throw new Error(`Transaction must expire within ${MAX_EXPIRATION_SECS / 60} minutes`);
+  }
+
+  const [ledgerInfo, gasEstimate] = await Promise.all([
+    getNodeJson<{ chain_id: number }>(network, ""),
+    getNodeJson<{ gas_estimate: number }>(network, "/estimate_gas_price"),
+  ]);
+  if (transaction.chainId !== ledgerInfo.chain_id) {
+    throw new Error(`Transaction is for chain ${transaction.chainId}, not ${network}`);
+  }
+  if (transaction.gasUnitPrice > BigInt(gasEstimate.gas_estimate)) {
+    throw new Error(`gas_unit_price is above the network's estimate of ${gasEstimate.gas_estimate}`);
+  }
+}
+
+/**
+ * Sender and entry function of a transaction submitted for sponsorship
+ */
+export function describeSponsoredTransaction(serializedTransaction: string): {
+  sender: string;
+  moduleAddress: string;
+  entryFunction: string; // "module::function"
+  maxGasAmount: bigint;
+  gasUnitPrice: bigint;
+} {
+  const transaction = parseSimpleTransaction(fromHex(serializedTransaction, "serializedTransaction"));
+  return {
+    sender: normalizeAddress(transaction.sender),
+    moduleAddress: normalizeAddress(transaction.moduleAddress),
+    entryFunction: `${transaction.moduleName}::${transaction.functionName}`,
+    maxGasAmount: transaction.maxGasAmount,
+    gasUnitPrice: transaction.gasUnitPrice,
+  };
+}
+
+// ============================================
+// Self-hosted Fee Payer
+// ============================================
+
+export class FeePayerSponsorProvider implements SponsorProvider {
+  name = "fee_payer" as const;
+  private account: Ed25519Account;
+
+  /**
+   * privateKeyHex is the 32-byte Ed25519 seed; AIP-80 "ed25519-priv-0x..." keys are accepted.
+   * address defaults to the key's original account address.
+   */
+  constructor(
+    privateKeyHex: string,
+    private network: NetworkType,
+    address?: string
+  ) {
+    this.account = new Ed25519Account(privateKeyHex, "Fee payer key", address);
+  }
+
+  get address(): string {
+    return this.account.address;
+  }
+
+  private allowedModuleAddresses(): string[] {
+    return [getPollContractAddress(this.network), getStakingContractAddress(this.network)]
+      .filter((address): address is string => !!address)
+      .map(normalizeAddress);
+  }
+
+  async sponsorAndSubmit(serializedTransaction: string, senderSignature: string): Promise<SponsoredSubmission> {
+    const transaction = parseSimpleTransaction(fromHex(serializedTransaction, "serializedTransaction"));
+    const senderAuthenticator = fromHex(senderSignature, "senderSignature");
+
+    if (!this.allowedModuleAddresses().includes(normalizeAddress(transaction.moduleAddress))) {
+      throw new Error("This transaction is not eligible for gas sponsorship");
+    }
+    // Senders sign with the fee payer left unset (0x0); anything else must be us
+    const feePayer = transaction.feePayerAddress ? normalizeAddress(transaction.feePayerAddress) : null;
+    if (feePayer && feePayer !== normalizeAddress("0x0") && feePayer !== this.address) {
+      throw new Error("Transaction names a different fee payer");
+    }
+    await checkGasTerms(transaction, this.network);
+
+    const feePayerAddress = Buffer.from(stripHexPrefix(this.address), "hex");
+    const signingMessage = Buffer.concat([
+      RAW_TRANSACTION_WITH_DATA_SALT,
+      Buffer.from([MULTI_AGENT_WITH_FEE_PAYER_VARIANT]),
+      transaction.rawTransaction,
+      Buffer.from([0]), // no secondary signers
+      feePayerAddress,
+    ]);
+    const signature = this.account.sign(signingMessage);
+
+    const signedTransaction = Buffer.concat([
+      transaction.rawTransaction,
+      Buffer.from([FEE_PAYER_AUTHENTICATOR_VARIANT]),
+      senderAuthenticator,
+      Buffer.from([0, 0]), // no secondary signer addresses or authenticators
+      feePayerAddress,
+      Buffer.from([ED25519_ACCOUNT_AUTHENTICATOR_VARIANT, 32]),
+      this.account.publicKey,
+      Buffer.from([64]),
+      signature,
+    ]);
+
+    try {
+      return await submitSignedTransaction(this.network, signedTransaction);
+    } catch (error) {
+      console.error("Fee payer submission failed:", error);
+      throw error;
+    }
+  }
+}
+
+// ============================================
+// Provider Selection
+// ============================================
+
+function networkEnv(name: string, network: NetworkType): string | undefined {
+  return process.env[`${name}_${network.toUpperCase()}`] || undefined;
+}
+
+const feePayers = new Map<NetworkType, FeePayerSponsorProvider>();
+
+/**
+ * The sponsor configured for a network, or null when sponsorship is unavailable
+ */
+export function getSponsorProvider(network: NetworkType): SponsorProvider | null {
+  const shinamiKey = networkEnv("SHINAMI_GAS_KEY", network);
+  const feePayerKey = networkEnv("SPONSOR_FEE_PAYER_KEY", network);
+  const configured = networkEnv("SPONSOR_PROVIDER", network) ?? (shinamiKey ? "shinami" : feePayerKey ? "fee_payer" : null);
+
+  if (configured === "shinami") {
+    return shinamiKey ? new ShinamiSponsorProvider(shinamiKey, network) : null;
+  }
+  if (configured === "fee_payer") {
+    if (!feePayerKey) return null;
+    if (!feePayers.has(network)) {
+      feePayers.set(
+        network,
+        new FeePayerSponsorProvider(feePayerKey, network, networkEnv("SPONSOR_FEE_PAYER_ADDRESS", network))
+      );
+    }
+    return feePayers.get(network)!;
+  }
+  if (configured) {
+    console.error(`Unknown sponsor provider "${configured}" for ${network}`);
+  }
+  return null;
+}
@@ -0,0 +1,86 @@
+import { asc } from "drizzle-orm";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { stakeBoostExpiries } from "@shared/schema";
+
+const CONTRACT = "0x5";
+const POKE_TX = `0x${"ab".repeat(32)}`;
+
+vi.mock("./db", async () => ({ db: await (await import("./test-db")).createTestDb() }));
+vi.mock("./movement", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("./movement")>()),
+  getStakingContractAddress: () => CONTRACT,
+  callViewFunction: vi.fn(),
+  waitForTransaction: vi.fn(async () => ({ type: "user_transaction", success: true })),
+}));
+vi.mock("./transaction-signer", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("./transaction-signer")>()),
+  submitEntryFunction: vi.fn(async () => POKE_TX),
+}));
+
+const { db } = await import("./db");
+const { callViewFunction, normalizeAddress } = await import("./movement");
+const { submitEntryFunction } = await import("./transaction-signer");
+const { pokeExpiredBoosts } = await import("./staking-keeper");
+
+const ALICE = normalizeAddress("0xa11ce");
+const BOB = normalizeAddress("0xb0b");
+
+describe("pokeExpiredBoosts", () => {
+  beforeEach(async () => {
+    process.env.STAKING_KEEPER_KEY_TESTNET = `0x${"11".repeat(32)}`;
+    vi.mocked(submitEntryFunction).mockClear();
+    await db.delete(stakeBoostExpiries);
+  });
+
+  it("pokes stakers whose boost expired and still counts, once per staker", async () => {
+    const nowSecs = Math.floor(Date.now() / 1000);
+    await db.insert(stakeBoostExpiries).values([
+      { network: "testnet", staker: ALICE, unlockAt: nowSecs - 120 },
+      { network: "testnet", staker: ALICE, unlockAt: nowSecs - 60 },
+      { network: "testnet", staker: ALICE, unlockAt: nowSecs + 3600 },
+      { network: "testnet", staker: BOB, unlockAt: nowSecs - 60 },
+    ]);
+    // Bob already settled their weight by claiming
+    vi.mocked(callViewFunction).mockImplementation(async (_network, _fn, args) => [args[0] === ALICE]);
+
+    expect(await pokeExpiredBoosts("testnet")).toBe(1);
+    expect(submitEntryFunction).toHaveBeenCalledTimes(1);
+    expect(vi.mocked(submitEntryFunction).mock.calls[0][2]).toBe(`${CONTRACT}::staking::poke`);
+
+    const rows = await db.select().from(stakeBoostExpiries).orderBy(asc(stakeBoostExpiries.unlockAt));
+    expect(rows.map((row) => [row.staker, row.resolvedAt !== null, row.pokeTxHash])).toEqual([
+      [ALICE, true, POKE_TX],
+      [ALICE, true, POKE_TX],
+      [BOB, true, null],
+      [ALICE, false, null],
+    ]);
+
+    // Nothing left to do until the next unlock
+    expect(await pokeExpiredBoosts("testnet")).toBe(0);
+    expect(submitEntryFunction).toHaveBeenCalledTimes(1);
+  });
+
+  it("records a failed poke and waits before retrying it", async () => {
+    await db.insert(stakeBoostExpiries).values({
+      network: "testnet",
+      staker: ALICE,
+      unlockAt: Math.floor(Date.now() / 1000) - 60,
+    });
+    vi.mocked(callViewFunction).mockResolvedValue([true]);
+    vi.mocked(submitEntryFunction).mockRejectedValueOnce(new Error("out of gas"));
+
+    expect(await pokeExpiredBoosts("testnet")).toBe(0);
+    const [row] = await db.select().from(stakeBoostExpiries);
+    expect([row.resolvedAt, row.pokeAttempts, row.pokeError]).toEqual([null, 1, "out of gas"]);
+
+    expect(await pokeExpiredBoosts("testnet")).toBe(0);
+    expect(submitEntryFunction).toHaveBeenCalledTimes(1);
+  });
+
+  it("does nothing without a keeper key", async () => {
+    delete process.env.STAKING_KEEPER_KEY_TESTNET;
+    await db.insert(stakeBoostExpiries).values({ network: "testnet", staker: ALICE, unlockAt: 1 });
+    expect(await pokeExpiredBoosts("testnet")).toBe(0);
+    expect(submitEntryFunction).not.toHaveBeenCalled();
+  });
+});
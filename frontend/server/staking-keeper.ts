@@ -0,0 +1,281 @@
+/**
+ * Staking keeper
+ * A position's lock boost ends at unlock_at, but staking.move only drops the
+ * weight rewards accrue at when the staker next stakes, unstakes, claims or
+ * compounds, or when someone calls poke. The keeper follows Staked and
+ * RewardsCompounded events for unlock times and, once one has passed, pokes
+ * the staker if needs_poke says their weight still counts an expired boost.
+ *
+ * The keeper signs with the Ed25519 key in STAKING_KEEPER_KEY_{NETWORK};
+ * STAKING_KEEPER_ADDRESS_{NETWORK} is needed if the key was rotated. Networks
+ * without a key are skipped.
+ */
+
+import { and, eq, inArray, isNull, lte } from "drizzle-orm";
+import { db } from "./db";
+import { indexerCursors, stakeBoostExpiries, type StakeBoostExpiry } from "@shared/schema";
+import {
+  callViewFunction,
+  getIndexerUrl,
+  getStakingContractAddress,
+  normalizeAddress,
+  waitForTransaction,
+  type NetworkType,
+} from "./movement";
+import { bcsAddress, Ed25519Account, submitEntryFunction } from "./transaction-signer";
+
+// ============================================
+// Constants
+// ============================================
+
+const EVENT_PAGE_SIZE = 100;
+const MAX_POKE_ATTEMPTS = 5;
+const POKE_RETRY_MS = 30 * 60 * 1000;
+const POKE_CONFIRM_TIMEOUT_MS = 30000;
+const DEFAULT_INTERVAL_MS = 5 * 60 * 1000;
+
+// ============================================
+// Keeper Account
+// ============================================
+
+const keepers = new Map<NetworkType, Ed25519Account>();
+
+/**
+ * The account that pokes stakers, or null when not configured
+ */
+export function getStakingKeeper(network: NetworkType): Ed25519Account | null {
+  const key = process.env[`STAKING_KEEPER_KEY_${network.toUpperCase()}`];
+  if (!key) return null;
+
+  if (!keepers.has(network)) {
+    const address = process.env[`STAKING_KEEPER_ADDRESS_${network.toUpperCase()}`] || undefined;
+    keepers.set(network, new Ed25519Account(key, "Staking keeper key", address));
+  }
+  return keepers.get(network)!;
+}
+
+// ============================================
+// Tracking
+// ============================================
+
+const BOOST_EVENTS_QUERY = `
+  query GetBoostEvents($eventTypes: [String!]!, $fromVersion: bigint!, $limit: Int!) {
+    events(
+      where: {
+        indexed_type: { _in: $eventTypes },
+        transaction_version: { _gte: $fromVersion }
+      },
+      order_by: [{ transaction_version: asc }, { event_index: asc }],
+      limit: $limit
+    ) {
+      data
+      transaction_version
+      event_index
+    }
+  }
+`;
+
+interface BoostEventRow {
+  data: Record<string, unknown>;
+  transaction_version: string | number;
+  event_index: number;
+}
+
+/**
+ * Record the unlock time of every new position (staked or compounded)
+ * Follows the events from a stored cursor; returns how many were processed.
+ */
+export async function syncBoostExpiries(network: NetworkType): Promise<number> {
+  const contract = getStakingContractAddress(network);
+  if (!contract) return 0;
+
+  const cursorName = `staking-keeper:${network}`;
+  const [cursor] = await db.select().from(indexerCursors).where(eq(indexerCursors.name, cursorName)).limit(1);
+  let lastVersion = cursor?.lastVersion ?? "0";
+  let lastEventIndex = cursor?.lastEventIndex ?? -1;
+  let processed = 0;
+
+  while (true) {
+    const response = await fetch(getIndexerUrl(network), {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        query: BOOST_EVENTS_QUERY,
+        variables: {
+          eventTypes: [`${contract}::staking::Staked`, `${contract}::staking::RewardsCompounded`],
+          fromVersion: lastVersion,
+          limit: EVENT_PAGE_SIZE,
+        },
+      }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Indexer request failed: ${response.status} ${response.statusText}`);
+    }
+
+    const result: { data?: { events: BoostEventRow[] }; errors?: { message: string }[] } = await response.json();
+    if (result.errors) {
+      throw new Error(`Indexer query failed: ${result.errors.map((e) => e.message).join("; ")}`);
+    }
+
+    const page = result.data?.events ?? [];
+    const fresh = page.filter((event) => {
+      const version = BigInt(String(event.transaction_version));
+      const last = BigInt(lastVersion);
+      return version > last || (version === last && event.event_index > lastEventIndex);
+    });
+
+    for (const event of fresh) {
+      const unlockAt = parseInt(String(event.data.unlock_at), 10);
+      if (!isNaN(unlockAt)) {
+        await db
+          .insert(stakeBoostExpiries)
+          .values({ network, staker: normalizeAddress(String(event.data.staker)), unlockAt })
+          .onConflictDoNothing();
+      }
+
+      lastVersion = String(event.transaction_version);
+      lastEventIndex = event.event_index;
+    }
+
+    processed += fresh.length;
+    if (fresh.length > 0) {
+      await db
+        .insert(indexerCursors)
+        .values({ name: cursorName, lastVersion, lastEventIndex, updatedAt: new Date() })
+        .onConflictDoUpdate({
+          target: indexerCursors.name,
+          set: { lastVersion, lastEventIndex, updatedAt: new Date() },
+        });
+    }
+
+    if (page.length < EVENT_PAGE_SIZE || fresh.length === 0) break;
+  }
+
+  return processed;
+}
+
+// ============================================
+// Poking
+// ============================================
+
+async function updateExpiries(expiries: StakeBoostExpiry[], values: Partial<StakeBoostExpiry>): Promise<void> {
+  await db
+    .update(stakeBoostExpiries)
+    .set(values)
+    .where(inArray(stakeBoostExpiries.id, expiries.map((expiry) => expiry.id)));
+}
+
+/**
+ * Poke every staker with a passed unlock time whose reward weight still counts
+ * the expired boost. Failed pokes are retried a few times, half an hour apart.
+ * Returns how many stakers were poked.
+ */
+export async function pokeExpiredBoosts(network: NetworkType): Promise<number> {
+  const keeper = getStakingKeeper(network);
+  const contract = getStakingContractAddress(network);
+  if (!keeper || !contract) return 0;
+
+  const nowSecs = Math.floor(Date.now() / 1000);
+  const expired = await db
+    .select()
+    .from(stakeBoostExpiries)
+    .where(and(
+      eq(stakeBoostExpiries.network, network),
+      lte(stakeBoostExpiries.unlockAt, nowSecs),
+      isNull(stakeBoostExpiries.resolvedAt)
+    ));
+
+  const due = expired.filter((expiry) => {
+    if (!expiry.pokeAttemptedAt) return true;
+    return expiry.pokeAttempts < MAX_POKE_ATTEMPTS
+      && expiry.pokeAttemptedAt.getTime() + POKE_RETRY_MS <= Date.now();
+  });
+
+  // One poke settles every expired position of a staker
+  const byStaker = new Map<string, StakeBoostExpiry[]>();
+  for (const expiry of due) {
+    byStaker.set(expiry.staker, [...(byStaker.get(expiry.staker) ?? []), expiry]);
+  }
+
+  let poked = 0;
+  for (const [staker, expiries] of Array.from(byStaker)) {
+    let txHash: string | null = null;
+
+    try {
+      const [needsPoke] = await callViewFunction<[boolean]>(network, `${contract}::staking::needs_poke`, [staker]);
+      if (needsPoke !== true) {
+        // Unstaked, never registered for rewards, or already settled by the staker
+        await updateExpiries(expiries, { resolvedAt: new Date() });
+        continue;
+      }
+
+      txHash = await submitEntryFunction(network, keeper, `${contract}::staking::poke`, [bcsAddress(staker)]);
+      const transaction = await waitForTransaction(txHash, network, POKE_CONFIRM_TIMEOUT_MS);
+      if (!transaction || transaction.type === "pending_transaction") {
+        throw new Error("Poke transaction not confirmed in time");
+      }
+      if (!transaction.success) {
+        throw new Error(`Poke transaction failed: ${transaction.vm_status}`);
+      }
+
+      await updateExpiries(expiries, { resolvedAt: new Date(), pokeTxHash: txHash, pokeError: null });
+      poked++;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`Error poking staker ${staker} on ${network}:`, message);
+      for (const expiry of expiries) {
+        await updateExpiries([expiry], {
+          pokeAttempts: expiry.pokeAttempts + 1,
+          pokeAttemptedAt: new Date(),
+          pokeTxHash: txHash,
+          pokeError: message,
+        });
+      }
+    }
+  }
+
+  return poked;
+}
+
+// ============================================
+// Background Job
+// ============================================
+
+/**
+ * Start the staking keeper
+ * Interval comes from STAKING_KEEPER_INTERVAL_MS (default 5 minutes, 0 disables)
+ */
+export function startStakingKeeper(log: (message: string, source?: string) => void): void {
+  const intervalMs = parseInt(process.env.STAKING_KEEPER_INTERVAL_MS ?? "", 10);
+  const interval = isNaN(intervalMs) ? DEFAULT_INTERVAL_MS : intervalMs;
+  if (interval <= 0) {
+    log("staking keeper disabled", "staking");
+    return;
+  }
+
+  let running = false;
+  const run = async () => {
+    // A slow poke must not overlap the next tick
+    if (running) return;
+    running = true;
+    try {
+      for (const network of ["testnet", "mainnet"] as NetworkType[]) {
+        if (!getStakingKeeper(network)) continue;
+
+        try {
+          await syncBoostExpiries(network);
+          const poked = await pokeExpiredBoosts(network);
+          if (poked > 0) log(`${network}: ${poked} stakers poked`, "staking");
+        } catch (error) {
+          console.error(`Error running ${network} staking keeper:`, error);
+        }
+      }
+    } finally {
+      running = false;
+    }
+  };
+
+  run();
+  setInterval(run, interval).unref();
+}
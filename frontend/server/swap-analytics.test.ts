@@ -0,0 +1,83 @@
+import { asc, sql } from "drizzle-orm";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { swapPoolEvents } from "@shared/schema";
+
+vi.mock("./db", async () => ({ db: await (await import("./test-db")).createTestDb() }));
+
+const { db } = await import("./db");
+const { backfillPoolState, syncSwapEvents } = await import("./swap-analytics");
+
+const CONTRACT = `0x${"5".repeat(64)}`;
+const LP = `0x${"e".repeat(64)}`;
+const TRADER = `0x${"f".repeat(64)}`;
+
+// Events the stubbed indexer returns, in chain order
+const indexed: Record<string, unknown>[] = [];
+
+function event(version: number, name: string, data: Record<string, unknown>) {
+  return {
+    type: `${CONTRACT}::swap::${name}`,
+    data,
+    transaction_version: String(version),
+    event_index: 0,
+    block_metadata_transaction: { timestamp: new Date(version * 1000).toISOString().replace("Z", "") },
+  };
+}
+
+const history = [
+  event(1, "LiquidityAdded", { provider: LP, pulse_amount: "1000000000", stable_amount: "5000000", lp_shares_minted: "70709678" }),
+  event(2, "Swap", { trader: TRADER, pulse_in: "0", stable_in: "100000", pulse_out: "19540000", stable_out: "0", fee_amount: "300" }),
+  event(3, "LiquidityAdded", { provider: TRADER, pulse_amount: "100000000", stable_amount: "510000", lp_shares_minted: "7100000" }),
+  event(4, "Swap", { trader: TRADER, pulse_in: "5000000", stable_in: "0", pulse_out: "0", stable_out: "24000", fee_amount: "15000" }),
+  event(5, "LiquidityRemoved", { provider: LP, pulse_amount: "50000000", stable_amount: "250000", lp_shares_burned: "3500000" }),
+];
+
+const rows = () =>
+  db
+    .select({ txVersion: swapPoolEvents.txVersion, totalLpShares: swapPoolEvents.totalLpShares, feesPerShare: swapPoolEvents.feesPerShare })
+    .from(swapPoolEvents)
+    .orderBy(asc(sql`${swapPoolEvents.txVersion}::numeric`));
+
+beforeAll(() => {
+  process.env.VITE_TESTNET_SWAP_CONTRACT_ADDRESS = CONTRACT;
+  vi.stubGlobal("fetch", async (_url: string, init: { body: string }) => {
+    const { variables } = JSON.parse(init.body);
+    const events = indexed.filter((e) => BigInt(String(e.transaction_version)) >= BigInt(variables.fromVersion));
+    return new Response(JSON.stringify({ data: { events: events.slice(0, variables.limit) } }));
+  });
+});
+
+afterAll(() => {
+  vi.unstubAllGlobals();
+  delete process.env.VITE_TESTNET_SWAP_CONTRACT_ADDRESS;
+});
+
+describe("backfillPoolState", () => {
+  it("rebuilds LP shares and fees per share for rows indexed before the columns existed", async () => {
+    indexed.push(...history.slice(0, 4));
+    await syncSwapEvents("testnet");
+    const expected = await rows();
+    expect(expected[0].totalLpShares).toBe("70710678");
+    expect(expected[3].feesPerShare).not.toBe("0");
+
+    // What the column defaults left behind for existing rows
+    await db.update(swapPoolEvents).set({ totalLpShares: "0", feesPerShare: "0" });
+
+    expect(await backfillPoolState("testnet")).toBe(4);
+    expect(await rows()).toEqual(expected);
+    expect(await backfillPoolState("testnet")).toBe(0);
+  });
+
+  it("runs before a sync continues from the latest row", async () => {
+    const before = await rows();
+    await db.update(swapPoolEvents).set({ totalLpShares: "0", feesPerShare: "0" });
+
+    indexed.push(history[4]);
+    await syncSwapEvents("testnet");
+
+    const after = await rows();
+    expect(after.slice(0, 4)).toEqual(before);
+    expect(after[4].totalLpShares).toBe((BigInt(before[3].totalLpShares) - BigInt(3500000)).toString());
+    expect(after[4].feesPerShare).toBe(before[3].feesPerShare);
+  });
+});
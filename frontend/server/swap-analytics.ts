@@ -0,0 +1,683 @@
+/**
+ * Swap analytics
+ * Ingests the PULSE/stable pool's swap and liquidity events into swap_pool_events
+ * and serves price candles and pool stats (volume, LP fees, TVL, fee APR) from it.
+ *
+ * Events carry amounts but not reserves, so the indexer replays them in order
+ * from the pool's first event: liquidity moves both reserves, a swap adds the
+ * full amount in (fee included, it stays in the pool) and removes the amount out.
+ * The same replay tracks total LP shares and a fees-per-share accumulator, from
+ * which each wallet's LP position, cost basis and fee earnings are derived.
+ * Rows stored before those two columns existed are backfilled by replaying the
+ * stored events before the next sync continues from them.
+ */
+
+import { and, asc, desc, eq, gte, inArray, lt, ne, sql } from "drizzle-orm";
+import { db } from "./db";
+import {
+  indexerCursors,
+  swapPoolEvents,
+  SWAP_CANDLE_INTERVALS,
+  SWAP_EVENT_KINDS,
+  SWAP_FEES_PER_SHARE_SCALE,
+  ZERO_AMOUNT,
+  amountToNumber,
+  getLiquidityValue,
+  mulDiv,
+  toAmount,
+  type Amount,
+  type InsertSwapPoolEvent,
+  type LiquidityPositionEvent,
+  type LiquidityPositionPnl,
+  type SwapPoolEvent,
+  type SwapCandle,
+  type SwapCandleInterval,
+  type SwapPoolStats,
+} from "@shared/schema";
+import { getIndexerUrl, getSwapContractAddress, normalizeAddress, type NetworkType } from "./movement";
+
+// ============================================
+// Types
+// ============================================
+
+export class SwapAnalyticsError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.status = status;
+  }
+}
+
+interface SwapEventRow {
+  type: string;
+  data: Record<string, unknown>;
+  transaction_version: string | number;
+  event_index: number;
+  block_metadata_transaction?: { timestamp: string } | null;
+}
+
+interface PoolReserves {
+  pulse: Amount;
+  stable: Amount;
+}
+
+interface PoolState extends PoolReserves {
+  totalShares: Amount;
+  feesPerShare: Amount;
+}
+
+export interface SwapSyncResult {
+  network: NetworkType;
+  eventsProcessed: number;
+}
+
+const EVENT_PAGE_SIZE = 100;
+const DEFAULT_INTERVAL_MS = 30000;
+const DEFAULT_CANDLE_LIMIT = 96;
+const MAX_CANDLE_LIMIT = 500;
+
+// PULSE has 8 decimals, the stable (USDC) 6
+const PULSE_DECIMALS = 8;
+const STABLE_DECIMALS = 6;
+
+// Shares locked forever by the first deposit (MINIMUM_LIQUIDITY in swap.move)
+const MINIMUM_LIQUIDITY = BigInt(1000);
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const APR_WINDOW_MS = 7 * DAY_MS;
+
+const SWAP_EVENTS_QUERY = `
+  query GetSwapEvents($eventTypePattern: String!, $fromVersion: bigint!, $limit: Int!) {
+    events(
+      where: {
+        indexed_type: { _like: $eventTypePattern },
+        transaction_version: { _gte: $fromVersion }
+      },
+      order_by: [{ transaction_version: asc }, { event_index: asc }],
+      limit: $limit
+    ) {
+      type
+      data
+      transaction_version
+      event_index
+      block_metadata_transaction {
+        timestamp
+      }
+    }
+  }
+`;
+
+// USDC per PULSE after the event, null while either reserve is empty
+const eventPrice = sql<number | null>`(
+  (${swapPoolEvents.stableReserve}::numeric / ${sql.raw(String(10 ** STABLE_DECIMALS))})
+  / nullif(${swapPoolEvents.pulseReserve}::numeric / ${sql.raw(String(10 ** PULSE_DECIMALS))}, 0)
+)::float8`;
+
+const eventOrder = sql`${swapPoolEvents.txVersion}::numeric, ${swapPoolEvents.eventIndex}`;
+
+// ============================================
+// Helpers
+// ============================================
+
+function toTimestamp(value: string | null | undefined): Date | null {
+  // Indexer timestamps are UTC without a zone suffix
+  if (!value) return null;
+  const date = new Date(/[zZ]|[+-]\d\d:?\d\d$/.test(value) ? value : `${value}Z`);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+function field(event: SwapEventRow, name: string): Amount {
+  return toAmount(String(event.data[name] ?? "0"));
+}
+
+function getPrice(reserves: PoolReserves): number | null {
+  if (reserves.pulse <= ZERO_AMOUNT || reserves.stable <= ZERO_AMOUNT) return null;
+  return amountToNumber(reserves.stable, STABLE_DECIMALS) / amountToNumber(reserves.pulse, PULSE_DECIMALS);
+}
+
+// Value of a PULSE amount in stable base units at the pool price
+function pulseToStable(pulse: Amount, reserves: PoolReserves): Amount {
+  return reserves.pulse > ZERO_AMOUNT ? mulDiv(pulse, reserves.stable, reserves.pulse) : ZERO_AMOUNT;
+}
+
+async function getLatestEvent(network: NetworkType): Promise<SwapPoolEvent | undefined> {
+  const [latest] = await db
+    .select()
+    .from(swapPoolEvents)
+    .where(eq(swapPoolEvents.network, network))
+    .orderBy(desc(sql`${swapPoolEvents.txVersion}::numeric`), desc(swapPoolEvents.eventIndex))
+    .limit(1);
+  return latest;
+}
+
+function toPoolState(row: SwapPoolEvent | undefined): PoolState {
+  return row
+    ? {
+        pulse: toAmount(row.pulseReserve),
+        stable: toAmount(row.stableReserve),
+        totalShares: toAmount(row.totalLpShares),
+        feesPerShare: toAmount(row.feesPerShare),
+      }
+    : { pulse: ZERO_AMOUNT, stable: ZERO_AMOUNT, totalShares: ZERO_AMOUNT, feesPerShare: ZERO_AMOUNT };
+}
+
+// ============================================
+// Ingestion
+// ============================================
+
+/**
+ * Apply one swap:: event to the running pool state and build its row
+ * Returns null for events that don't move the reserves (FeeUpdated, PoolInitialized)
+ */
+function applyEvent(
+  network: NetworkType,
+  event: SwapEventRow,
+  state: PoolState
+): Omit<
+  InsertSwapPoolEvent,
+  "pulseReserve" | "stableReserve" | "totalLpShares" | "feesPerShare" | "txVersion" | "eventIndex" | "occurredAt"
+> | null {
+  const name = event.type.split("::").pop();
+
+  if (name === "PoolInitialized") {
+    state.pulse = ZERO_AMOUNT;
+    state.stable = ZERO_AMOUNT;
+    state.totalShares = ZERO_AMOUNT;
+    state.feesPerShare = ZERO_AMOUNT;
+    return null;
+  }
+
+  if (name === "LiquidityAdded" || name === "LiquidityRemoved") {
+    const pulse = field(event, "pulse_amount");
+    const stable = field(event, "stable_amount");
+    const added = name === "LiquidityAdded";
+    const shares = field(event, added ? "lp_shares_minted" : "lp_shares_burned");
+
+    state.pulse = added ? state.pulse + pulse : state.pulse - pulse;
+    state.stable = added ? state.stable + stable : state.stable - stable;
+    if (added && state.totalShares === ZERO_AMOUNT) {
+      state.totalShares = MINIMUM_LIQUIDITY;
+    }
+    state.totalShares = added ? state.totalShares + shares : state.totalShares - shares;
+
+    return {
+      network,
+      kind: added ? SWAP_EVENT_KINDS.LIQUIDITY_ADDED : SWAP_EVENT_KINDS.LIQUIDITY_REMOVED,
+      wallet: normalizeAddress(String(event.data.provider)),
+      pulseIn: added ? pulse.toString() : "0",
+      stableIn: added ? stable.toString() : "0",
+      pulseOut: added ? "0" : pulse.toString(),
+      stableOut: added ? "0" : stable.toString(),
+      lpShares: shares.toString(),
+    };
+  }
+
+  if (name === "Swap") {
+    const pulseIn = field(event, "pulse_in");
+    const stableIn = field(event, "stable_in");
+    const pulseOut = field(event, "pulse_out");
+    const stableOut = field(event, "stable_out");
+    const fee = field(event, "fee_amount"); // In the input token
+
+    state.pulse = state.pulse + pulseIn - pulseOut;
+    state.stable = state.stable + stableIn - stableOut;
+
+    const sellingPulse = pulseIn > ZERO_AMOUNT;
+    const feeStable = sellingPulse ? pulseToStable(fee, state) : fee;
+    if (state.totalShares > ZERO_AMOUNT) {
+      state.feesPerShare += mulDiv(feeStable, SWAP_FEES_PER_SHARE_SCALE, state.totalShares);
+    }
+
+    return {
+      network,
+      kind: SWAP_EVENT_KINDS.SWAP,
+      wallet: normalizeAddress(String(event.data.trader)),
+      pulseIn: pulseIn.toString(),
+      stableIn: stableIn.toString(),
+      pulseOut: pulseOut.toString(),
+      stableOut: stableOut.toString(),
+      volumeStable: (sellingPulse ? stableOut : stableIn).toString(),
+      feeStable: feeStable.toString(),
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Recompute totalLpShares and feesPerShare for rows indexed before the columns
+ * existed (they read "0" although the pool holds liquidity)
+ * Stored rows carry every amount the replay needs, so the chain isn't re-read.
+ * Updates are idempotent; an interrupted backfill is redone on the next sync.
+ * Returns the number of rows updated.
+ */
+export async function backfillPoolState(network: NetworkType): Promise<number> {
+  const [stale] = await db
+    .select({ id: swapPoolEvents.id })
+    .from(swapPoolEvents)
+    .where(and(
+      eq(swapPoolEvents.network, network),
+      eq(swapPoolEvents.totalLpShares, "0"),
+      ne(swapPoolEvents.pulseReserve, "0")
+    ))
+    .limit(1);
+  if (!stale) return 0;
+
+  const rows = await db
+    .select()
+    .from(swapPoolEvents)
+    .where(eq(swapPoolEvents.network, network))
+    .orderBy(eventOrder);
+
+  let totalShares = ZERO_AMOUNT;
+  let feesPerShare = ZERO_AMOUNT;
+  let updated = 0;
+  for (const row of rows) {
+    const shares = toAmount(row.lpShares);
+    if (row.kind === SWAP_EVENT_KINDS.LIQUIDITY_ADDED) {
+      if (totalShares === ZERO_AMOUNT) totalShares = MINIMUM_LIQUIDITY;
+      totalShares += shares;
+    } else if (row.kind === SWAP_EVENT_KINDS.LIQUIDITY_REMOVED) {
+      totalShares -= shares;
+    } else if (totalShares > ZERO_AMOUNT) {
+      feesPerShare += mulDiv(toAmount(row.feeStable), SWAP_FEES_PER_SHARE_SCALE, totalShares);
+    }
+
+    if (row.totalLpShares !== totalShares.toString() || row.feesPerShare !== feesPerShare.toString()) {
+      await db
+        .update(swapPoolEvents)
+        .set({ totalLpShares: totalShares.toString(), feesPerShare: feesPerShare.toString() })
+        .where(eq(swapPoolEvents.id, row.id));
+      updated++;
+    }
+  }
+
+  return updated;
+}
+
+/**
+ * Ingest swap:: events after the stored cursor
+ */
+export async function syncSwapEvents(network: NetworkType): Promise<SwapSyncResult> {
+  const contract = getSwapContractAddress(network);
+  if (!contract) return { network, eventsProcessed: 0 };
+
+  const cursorName = `swap:${network}`;
+  const [cursor] = await db.select().from(indexerCursors).where(eq(indexerCursors.name, cursorName)).limit(1);
+  let lastVersion = cursor?.lastVersion ?? "0";
+  let lastEventIndex = cursor?.lastEventIndex ?? -1;
+  let eventsProcessed = 0;
+
+  await backfillPoolState(network);
+  const state = toPoolState(await getLatestEvent(network));
+
+  while (true) {
+    const response = await fetch(getIndexerUrl(network), {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        query: SWAP_EVENTS_QUERY,
+        variables: {
+          eventTypePattern: `${contract}::swap::%`,
+          fromVersion: lastVersion,
+          limit: EVENT_PAGE_SIZE,
+        },
+      }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Indexer request failed: ${response.status} ${response.statusText}`);
+    }
+
+    const result: { data?: { events: SwapEventRow[] }; errors?: { message: string }[] } = await response.json();
+    if (result.errors) {
+      throw new Error(`Indexer query failed: ${result.errors.map((e) => e.message).join("; ")}`);
+    }
+
+    // Fetched from the cursor's version (inclusive); anything at or before the cursor is skipped
+    const page = result.data?.events ?? [];
+    const fresh = page.filter((event) => {
+      const version = BigInt(String(event.transaction_version));
+      const last = BigInt(lastVersion);
+      return version > last || (version === last && event.event_index > lastEventIndex);
+    });
+
+    for (const event of fresh) {
+      const row = applyEvent(network, event, state);
+      if (row) {
+        await db
+          .insert(swapPoolEvents)
+          .values({
+            ...row,
+            pulseReserve: state.pulse.toString(),
+            stableReserve: state.stable.toString(),
+            totalLpShares: state.totalShares.toString(),
+            feesPerShare: state.feesPerShare.toString(),
+            txVersion: String(event.transaction_version),
+            eventIndex: event.event_index,
+            // Events the indexer hasn't timestamped yet are only seconds old
+            occurredAt: toTimestamp(event.block_metadata_transaction?.timestamp) ?? new Date(),
+          })
+          .onConflictDoNothing();
+      }
+
+      lastVersion = String(event.transaction_version);
+      lastEventIndex = event.event_index;
+    }
+
+    eventsProcessed += fresh.length;
+    if (fresh.length > 0) {
+      await db
+        .insert(indexerCursors)
+        .values({ name: cursorName, lastVersion, lastEventIndex, updatedAt: new Date() })
+        .onConflictDoUpdate({
+          target: indexerCursors.name,
+          set: { lastVersion, lastEventIndex, updatedAt: new Date() },
+        });
+    }
+
+    if (page.length < EVENT_PAGE_SIZE || fresh.length === 0) break;
+  }
+
+  return { network, eventsProcessed };
+}
+
+// ============================================
+// Queries
+// ============================================
+
+/**
+ * Read ?interval= and ?limit= from a request query
+ */
+export function parseCandleQuery(query: Record<string, unknown>): { interval: SwapCandleInterval; limit: number } {
+  const interval = query.interval === undefined ? "1h" : String(query.interval);
+  if (!(interval in SWAP_CANDLE_INTERVALS)) {
+    throw new SwapAnalyticsError(400, `interval must be one of ${Object.keys(SWAP_CANDLE_INTERVALS).join(", ")}`);
+  }
+
+  const limit = query.limit === undefined ? DEFAULT_CANDLE_LIMIT : parseInt(String(query.limit), 10);
+  if (!Number.isInteger(limit) || limit < 1) {
+    throw new SwapAnalyticsError(400, "limit must be a positive integer");
+  }
+
+  return { interval: interval as SwapCandleInterval, limit: Math.min(limit, MAX_CANDLE_LIMIT) };
+}
+
+/**
+ * The last `limit` candles up to now, oldest first
+ * Buckets without events repeat the previous close; each candle opens at the
+ * previous close so the series has no gaps.
+ */
+export async function getSwapCandles(
+  network: NetworkType,
+  interval: SwapCandleInterval,
+  limit: number
+): Promise<SwapCandle[]> {
+  const seconds = SWAP_CANDLE_INTERVALS[interval];
+  const lastBucket = Math.floor(Date.now() / 1000 / seconds);
+  const firstBucket = lastBucket - limit + 1;
+  const from = new Date(firstBucket * seconds * 1000);
+
+  const bucket = sql<number>`floor(extract(epoch from ${swapPoolEvents.occurredAt}) / ${sql.raw(String(seconds))})::int`;
+  const priced = and(
+    eq(swapPoolEvents.network, network),
+    ne(swapPoolEvents.pulseReserve, "0"),
+    ne(swapPoolEvents.stableReserve, "0")
+  );
+
+  const [rows, [previous]] = await Promise.all([
+    db
+      .select({
+        bucket,
+        open: sql<number>`(array_agg(${eventPrice} order by ${eventOrder}))[1]`,
+        close: sql<number>`(array_agg(${eventPrice} order by ${eventOrder} desc))[1]`,
+        high: sql<number>`max(${eventPrice})`,
+        low: sql<number>`min(${eventPrice})`,
+        volume: sql<string>`coalesce(sum(${swapPoolEvents.volumeStable}::numeric), 0)::text`,
+        trades: sql<number>`(count(*) filter (where ${swapPoolEvents.kind} = ${SWAP_EVENT_KINDS.SWAP}))::int`,
+      })
+      .from(swapPoolEvents)
+      .where(and(priced, gte(swapPoolEvents.occurredAt, from)))
+      .groupBy(bucket)
+      .orderBy(bucket),
+    db
+      .select({ price: eventPrice })
+      .from(swapPoolEvents)
+      .where(and(priced, lt(swapPoolEvents.occurredAt, from)))
+      .orderBy(desc(swapPoolEvents.occurredAt), desc(sql`${swapPoolEvents.txVersion}::numeric`), desc(swapPoolEvents.eventIndex))
+      .limit(1),
+  ]);
+
+  const byBucket = new Map(rows.map((row) => [Number(row.bucket), row]));
+  let previousClose = previous?.price ?? null;
+  const candles: SwapCandle[] = [];
+
+  for (let b = firstBucket; b <= lastBucket; b++) {
+    const row = byBucket.get(b);
+    const time = new Date(b * seconds * 1000).toISOString();
+
+    if (row) {
+      const open = previousClose ?? row.open;
+      candles.push({
+        time,
+        open,
+        high: Math.max(row.high, open),
+        low: Math.min(row.low, open),
+        close: row.close,
+        volume: row.volume,
+        trades: row.trades,
+      });
+      previousClose = row.close;
+    } else if (previousClose !== null) {
+      candles.push({
+        time,
+        open: previousClose,
+        high: previousClose,
+        low: previousClose,
+        close: previousClose,
+        volume: "0",
+        trades: 0,
+      });
+    }
+  }
+
+  return candles;
+}
+
+/**
+ * Current reserves and price, 24h volume and LP fees, TVL and a fee APR estimate
+ */
+export async function getSwapPoolStats(network: NetworkType): Promise<SwapPoolStats> {
+  const now = Date.now();
+  const since24h = new Date(now - DAY_MS);
+  const since7d = new Date(now - APR_WINDOW_MS);
+
+  const swapWindow = (since: Date) =>
+    db
+      .select({
+        volume: sql<string>`coalesce(sum(${swapPoolEvents.volumeStable}::numeric), 0)::text`,
+        fees: sql<string>`coalesce(sum(${swapPoolEvents.feeStable}::numeric), 0)::text`,
+        trades: sql<number>`count(*)::int`,
+      })
+      .from(swapPoolEvents)
+      .where(and(
+        eq(swapPoolEvents.network, network),
+        eq(swapPoolEvents.kind, SWAP_EVENT_KINDS.SWAP),
+        gte(swapPoolEvents.occurredAt, since)
+      ));
+
+  const [latest, [first], [day], [week]] = await Promise.all([
+    getLatestEvent(network),
+    db
+      .select({ occurredAt: sql<Date | null>`min(${swapPoolEvents.occurredAt})` })
+      .from(swapPoolEvents)
+      .where(eq(swapPoolEvents.network, network)),
+    swapWindow(since24h),
+    swapWindow(since7d),
+  ]);
+
+  const reserves = toPoolState(latest);
+  // Constant-product pools hold equal value on both sides at the pool price
+  const tvl = reserves.stable * BigInt(2);
+
+  let feeApr: number | null = null;
+  const firstEventAt = first?.occurredAt ? new Date(first.occurredAt).getTime() : null;
+  if (tvl > ZERO_AMOUNT && firstEventAt !== null) {
+    // Young pools are annualized over at least a day so one early trade can't explode the figure
+    const windowMs = Math.max(Math.min(APR_WINDOW_MS, now - firstEventAt), DAY_MS);
+    const fees = amountToNumber(toAmount(week.fees), STABLE_DECIMALS);
+    feeApr = (fees / amountToNumber(tvl, STABLE_DECIMALS)) * ((365 * DAY_MS) / windowMs) * 100;
+  }
+
+  return {
+    pulseReserve: reserves.pulse.toString(),
+    stableReserve: reserves.stable.toString(),
+    price: getPrice(reserves),
+    tvl: tvl.toString(),
+    volume24h: day.volume,
+    fees24h: day.fees,
+    trades24h: day.trades,
+    feeApr,
+    lastEventAt: latest ? latest.occurredAt.toISOString() : null,
+  };
+}
+
+/**
+ * A wallet's LP position replayed from its deposits and withdrawals
+ * Fees come from the pool's fees-per-share accumulator: between two of the
+ * wallet's events it held a fixed number of shares, so it earned
+ * shares * (accumulator growth) over that stretch.
+ */
+export async function getLiquidityPositionPnl(network: NetworkType, address: string): Promise<LiquidityPositionPnl> {
+  const [rows, latest] = await Promise.all([
+    db
+      .select()
+      .from(swapPoolEvents)
+      .where(and(
+        eq(swapPoolEvents.network, network),
+        eq(swapPoolEvents.wallet, normalizeAddress(address)),
+        inArray(swapPoolEvents.kind, [SWAP_EVENT_KINDS.LIQUIDITY_ADDED, SWAP_EVENT_KINDS.LIQUIDITY_REMOVED])
+      ))
+      .orderBy(asc(sql`${swapPoolEvents.txVersion}::numeric`), asc(swapPoolEvents.eventIndex)),
+    getLatestEvent(network),
+  ]);
+
+  let shares = ZERO_AMOUNT;
+  let costPulse = ZERO_AMOUNT;
+  let costStable = ZERO_AMOUNT;
+  let costBasis = ZERO_AMOUNT;
+  let feesEarned = ZERO_AMOUNT;
+  let lastFeesPerShare = ZERO_AMOUNT;
+  const history: LiquidityPositionEvent[] = [];
+
+  for (const row of rows) {
+    const state = toPoolState(row);
+    feesEarned += mulDiv(shares, state.feesPerShare - lastFeesPerShare, SWAP_FEES_PER_SHARE_SCALE);
+    lastFeesPerShare = state.feesPerShare;
+
+    const lpShares = toAmount(row.lpShares);
+    if (row.kind === SWAP_EVENT_KINDS.LIQUIDITY_ADDED) {
+      const pulse = toAmount(row.pulseIn);
+      const stable = toAmount(row.stableIn);
+      costPulse += pulse;
+      costStable += stable;
+      costBasis += stable + pulseToStable(pulse, state);
+      shares += lpShares;
+    } else if (shares > ZERO_AMOUNT) {
+      const burned = lpShares < shares ? lpShares : shares;
+      costPulse -= mulDiv(costPulse, burned, shares);
+      costStable -= mulDiv(costStable, burned, shares);
+      costBasis -= mulDiv(costBasis, burned, shares);
+      shares -= burned;
+    }
+
+    history.push({
+      kind: row.kind as LiquidityPositionEvent["kind"],
+      pulseAmount: row.kind === SWAP_EVENT_KINDS.LIQUIDITY_ADDED ? row.pulseIn : row.pulseOut,
+      stableAmount: row.kind === SWAP_EVENT_KINDS.LIQUIDITY_ADDED ? row.stableIn : row.stableOut,
+      lpShares: row.lpShares,
+      price: getPrice(state),
+      txVersion: row.txVersion,
+      occurredAt: row.occurredAt.toISOString(),
+    });
+  }
+
+  const pool = toPoolState(latest);
+  feesEarned += mulDiv(shares, pool.feesPerShare - lastFeesPerShare, SWAP_FEES_PER_SHARE_SCALE);
+
+  const pulseValue = getLiquidityValue(shares, pool.pulse, pool.totalShares);
+  const stableValue = getLiquidityValue(shares, pool.stable, pool.totalShares);
+  const value = stableValue + pulseToStable(pulseValue, pool);
+  const holdValue = costStable + pulseToStable(costPulse, pool);
+  const impermanentLoss = value - feesEarned - holdValue;
+
+  return {
+    shares: shares.toString(),
+    pulseValue: pulseValue.toString(),
+    stableValue: stableValue.toString(),
+    value: value.toString(),
+    costPulse: costPulse.toString(),
+    costStable: costStable.toString(),
+    costBasis: costBasis.toString(),
+    holdValue: holdValue.toString(),
+    feesEarned: feesEarned.toString(),
+    impermanentLoss: impermanentLoss.toString(),
+    impermanentLossPercent: holdValue > ZERO_AMOUNT ? (Number(impermanentLoss) / Number(holdValue)) * 100 : null,
+    pnl: (value - costBasis).toString(),
+    history: history.reverse(),
+  };
+}
+
+// ============================================
+// Background Job
+// ============================================
+
+let syncInProgress = false;
+
+/**
+ * Run one sync pass for every network with a swap contract
+ */
+export async function syncAllSwapEvents(): Promise<SwapSyncResult[]> {
+  if (syncInProgress) return [];
+  syncInProgress = true;
+
+  const results: SwapSyncResult[] = [];
+  try {
+    for (const network of ["testnet", "mainnet"] as NetworkType[]) {
+      try {
+        results.push(await syncSwapEvents(network));
+      } catch (error) {
+        console.error(`Error syncing ${network} swap events:`, error);
+      }
+    }
+  } finally {
+    syncInProgress = false;
+  }
+
+  return results;
+}
+
+/**
+ * Start the background swap indexer
+ * Interval comes from SWAP_INDEXER_INTERVAL_MS (default 30s, 0 disables)
+ */
+export function startSwapIndexer(log: (message: string, source?: string) => void): void {
+  const intervalMs = parseInt(process.env.SWAP_INDEXER_INTERVAL_MS ?? "", 10);
+  const interval = isNaN(intervalMs) ? DEFAULT_INTERVAL_MS : intervalMs;
+  if (interval <= 0) {
+    log("swap indexer disabled", "swap");
+    return;
+  }
+
+  const run = async () => {
+    for (const result of await syncAllSwapEvents()) {
+      if (result.eventsProcessed > 0) {
+        log(`${result.network}: ${result.eventsProcessed} swap events`, "swap");
+      }
+    }
+  };
+
+  run();
+  setInterval(run, interval).unref();
+}
@@ -0,0 +1,24 @@
+/**
+ * In-process Postgres for server tests
+ * Builds every table in @shared/schema on a fresh PGlite instance, so tests can
+ * swap it in for ./db with vi.mock and exercise real queries without Neon.
+ */
+
+import { createRequire } from "module";
+import { PGlite } from "@electric-sql/pglite";
+import { drizzle } from "drizzle-orm/pglite";
+import * as schema from "@shared/schema";
+
+// drizzle-kit's ESM build can't load its own CommonJS dependencies
+const { generateDrizzleJson, generateMigration } = createRequire(import.meta.url)(
+  "drizzle-kit/api"
+) as typeof import("drizzle-kit/api");
+
+export async function createTestDb() {
+  const client = new PGlite();
+  const statements = await generateMigration(generateDrizzleJson({}), generateDrizzleJson(schema));
+  for (const statement of statements) {
+    await client.exec(statement);
+  }
+  return drizzle(client, { schema });
+}
@@ -0,0 +1,320 @@
+/**
+ * Free-text questionnaire questions
+ * Text questions live in questionnairePolls (kind "text", no poll ID) and their
+ * answers in questionnaireProgress.textAnswers, so they never touch the chain.
+ * Answers are length-checked against the question's settings and profanity is
+ * masked (and the answer flagged) before storing. Creators browse responses with
+ * keyword frequencies computed here.
+ */
+
+import { and, eq } from "drizzle-orm";
+import { db } from "./db";
+import {
+  questionnairePolls,
+  questionnaireProgress,
+  QUESTIONNAIRE_ITEM_KIND,
+  TEXT_ANSWER_LIMITS,
+  type QuestionnairePoll,
+  type QuestionnaireProgress,
+  type TextQuestionSettings,
+} from "@shared/schema";
+
+// ============================================
+// Types
+// ============================================
+
+export interface TextAnswerInput {
+  questionId: string;
+  text: string;
+}
+
+export interface KeywordCount {
+  word: string;
+  count: number; // Number of responses containing the word
+}
+
+export interface TextResponse {
+  questionId: string;
+  walletAddress: string;
+  text: string;
+  flagged: boolean;
+  answeredAt: string;
+}
+
+export interface TextResponsesPage {
+  questions: {
+    id: string;
+    prompt: string | null;
+    settings: TextQuestionSettings | null;
+    responseCount: number;
+    keywords: KeywordCount[];
+  }[];
+  responses: TextResponse[];
+  total: number;
+}
+
+export class TextAnswerError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.status = status;
+  }
+}
+
+const MAX_KEYWORDS = 30;
+
+// ============================================
+// Settings
+// ============================================
+
+/**
+ * Validate and fill in defaults for a text question's settings
+ */
+export function normalizeTextSettings(input: Partial<TextQuestionSettings> | undefined): TextQuestionSettings {
+  const minLength = input?.minLength ?? 0;
+  const maxLength = input?.maxLength ?? TEXT_ANSWER_LIMITS.DEFAULT_MAX;
+
+  if (!Number.isInteger(maxLength) || maxLength < 1 || maxLength > TEXT_ANSWER_LIMITS.MAX) {
+    throw new TextAnswerError(400, `maxLength must be between 1 and ${TEXT_ANSWER_LIMITS.MAX}`);
+  }
+  if (!Number.isInteger(minLength) || minLength < 0 || minLength > maxLength) {
+    throw new TextAnswerError(400, "minLength must be between 0 and maxLength");
+  }
+
+  return { minLength, maxLength, required: input?.required ?? true };
+}
+
+// ============================================
+// Profanity Filter
+// ============================================
+
+// Words are matched whole after undoing simple character substitutions and
+// repeated letters (so "sh1t" and "fuuuck" still match). Stems also match with
+// common suffixes; other words only as-is or plural, to avoid hits like "pricked".
+const PROFANITY_STEMS = ["fuck", "motherfuck", "shit", "bullshit", "bitch", "wank", "cocksuck"];
+const PROFANITY_WORDS = [
+  "cunt", "asshole", "arsehole", "bastard", "dick", "dickhead", "pussy", "cock", "slut",
+  "whore", "wanker", "twat", "prick", "douche", "douchebag", "fag", "faggot", "retard",
+  "nigger", "nigga", "chink", "kike", "bollocks", "jackass", "dumbass",
+];
+const STEM_SUFFIXES = ["", "s", "es", "ed", "er", "ers", "ing", "in", "y", "ey", "head", "heads"];
+
+const SUBSTITUTIONS: Record<string, string> = {
+  "0": "o", "1": "i", "3": "e", "4": "a", "5": "s", "7": "t", "@": "a", "$": "s",
+};
+
+function normalizeWord(word: string): string {
+  return word
+    .toLowerCase()
+    .replace(/[013457@$]/g, (char) => SUBSTITUTIONS[char])
+    .replace(/(.)\1+/g, "$1");
+}
+
+const PROFANE_FORMS = new Set([
+  ...PROFANITY_STEMS.flatMap((stem) => STEM_SUFFIXES.map((suffix) => normalizeWord(stem + suffix))),
+  ...PROFANITY_WORDS.flatMap((word) => [normalizeWord(word), normalizeWord(word + "s")]),
+]);
+
+function isProfane(word: string): boolean {
+  return PROFANE_FORMS.has(normalizeWord(word));
+}
+
+/**
+ * Mask profane words, keeping their first letter ("f***")
+ */
+export function filterProfanity(text: string): { text: string; flagged: boolean } {
+  let flagged = false;
+  const filtered = text.replace(/[A-Za-z0-9@$]+/g, (word) => {
+    if (!/[A-Za-z]/.test(word) || !isProfane(word)) return word;
+    flagged = true;
+    return word[0] + "*".repeat(word.length - 1);
+  });
+  return { text: filtered, flagged };
+}
+
+// ============================================
+// Keyword Frequency
+// ============================================
+
+const STOPWORDS = new Set(
+  (
+    "a about above after again against all am an and any are as at be because been before being below " +
+    "between both but by can could did do does doing down during each few for from further had has have " +
+    "having he her here hers herself him himself his how i if in into is it its itself just me more most " +
+    "my myself no nor not now of off on once only or other our ours ourselves out over own same she should " +
+    "so some such than that the their theirs them themselves then there these they this those through to " +
+    "too under until up very was we were what when where which while who whom why will with would you your " +
+    "yours yourself yourselves also really much many get got like one dont im ive thats"
+  ).split(" ")
+);
+
+/**
+ * Most common words across responses, counted once per response
+ * Stopwords, numbers, very short words and masked profanity are skipped.
+ */
+export function keywordFrequencies(texts: string[], limit = MAX_KEYWORDS): KeywordCount[] {
+  const counts = new Map<string, number>();
+
+  for (const text of texts) {
+    const words = new Set(
+      (text.toLowerCase().replace(/['’]/g, "").match(/[a-z][a-z0-9-]*/g) ?? [])
+        .filter((word) => word.length > 2 && !STOPWORDS.has(word))
+    );
+    words.forEach((word) => counts.set(word, (counts.get(word) ?? 0) + 1));
+  }
+
+  return Array.from(counts.entries())
+    .map(([word, count]) => ({ word, count }))
+    .sort((a, b) => b.count - a.count || a.word.localeCompare(b.word))
+    .slice(0, limit);
+}
+
+// ============================================
+// Questions & Answers
+// ============================================
+
+/**
+ * Text questions of a questionnaire, in order
+ */
+export async function getTextQuestions(questionnaireId: string): Promise<QuestionnairePoll[]> {
+  return db
+    .select()
+    .from(questionnairePolls)
+    .where(
+      and(
+        eq(questionnairePolls.questionnaireId, questionnaireId),
+        eq(questionnairePolls.kind, QUESTIONNAIRE_ITEM_KIND.TEXT)
+      )
+    )
+    .orderBy(questionnairePolls.sortOrder);
+}
+
+/**
+ * Validate, filter and store a respondent's text answers
+ * Answers replace earlier ones for the same question until the questionnaire is completed.
+ */
+export async function recordTextAnswers(
+  questionnaireId: string,
+  walletAddress: string,
+  answers: TextAnswerInput[]
+): Promise<QuestionnaireProgress> {
+  if (!Array.isArray(answers) || answers.length === 0) {
+    throw new TextAnswerError(400, "answers are required");
+  }
+
+  const questions = await getTextQuestions(questionnaireId);
+  const stored = answers.map((answer) => {
+    const question = questions.find((q) => q.id === answer?.questionId);
+    if (!question) {
+      throw new TextAnswerError(400, "Unknown text question");
+    }
+    if (typeof answer.text !== "string") {
+      throw new TextAnswerError(400, "Answer text must be a string");
+    }
+
+    const settings = question.textSettings ?? normalizeTextSettings(undefined);
+    const text = answer.text.trim();
+    if (text.length > settings.maxLength) {
+      throw new TextAnswerError(400, `Answers to "${question.prompt}" can be at most ${settings.maxLength} characters`);
+    }
+    if (text.length < settings.minLength || (settings.required && text.length === 0)) {
+      throw new TextAnswerError(400, `Answers to "${question.prompt}" need at least ${Math.max(settings.minLength, 1)} characters`);
+    }
+
+    return { questionId: question.id, ...filterProfanity(text), answeredAt: new Date().toISOString() };
+  });
+
+  const [existing] = await db
+    .select()
+    .from(questionnaireProgress)
+    .where(
+      and(
+        eq(questionnaireProgress.questionnaireId, questionnaireId),
+        eq(questionnaireProgress.walletAddress, walletAddress)
+      )
+    )
+    .limit(1);
+
+  if (existing?.isComplete) {
+    throw new TextAnswerError(409, "Answers are locked once the questionnaire is complete");
+  }
+
+  const answeredIds = new Set(stored.map((answer) => answer.questionId));
+  const textAnswers = [
+    ...(existing?.textAnswers ?? []).filter((answer) => !answeredIds.has(answer.questionId)),
+    ...stored,
+  ];
+
+  if (existing) {
+    const [updated] = await db
+      .update(questionnaireProgress)
+      .set({ textAnswers, updatedAt: new Date() })
+      .where(eq(questionnaireProgress.id, existing.id))
+      .returning();
+    return updated;
+  }
+
+  const [created] = await db
+    .insert(questionnaireProgress)
+    .values({
+      questionnaireId,
+      walletAddress,
+      started: true,
+      startedAt: new Date(),
+      textAnswers,
+    })
+    .returning();
+  return created;
+}
+
+/**
+ * Required text questions the respondent hasn't answered yet
+ */
+export function missingTextAnswers(
+  questions: QuestionnairePoll[],
+  progress: Pick<QuestionnaireProgress, "textAnswers"> | undefined
+): QuestionnairePoll[] {
+  const answered = new Set((progress?.textAnswers ?? []).map((answer) => answer.questionId));
+  return questions.filter((question) => (question.textSettings?.required ?? true) && !answered.has(question.id));
+}
+
+/**
+ * Responses to a questionnaire's text questions with per-question keyword frequencies
+ * Filters: questionId, keyword (substring match, case-insensitive)
+ */
+export async function getTextResponses(
+  questionnaireId: string,
+  filters: { questionId?: string; keyword?: string; limit: number; offset: number }
+): Promise<TextResponsesPage> {
+  const questions = await getTextQuestions(questionnaireId);
+  const progress = await db
+    .select({ walletAddress: questionnaireProgress.walletAddress, textAnswers: questionnaireProgress.textAnswers })
+    .from(questionnaireProgress)
+    .where(eq(questionnaireProgress.questionnaireId, questionnaireId));
+
+  const all: TextResponse[] = progress.flatMap((row) =>
+    row.textAnswers.map((answer) => ({ walletAddress: row.walletAddress, ...answer }))
+  );
+
+  const keyword = filters.keyword?.trim().toLowerCase();
+  const matching = all
+    .filter((response) => !filters.questionId || response.questionId === filters.questionId)
+    .filter((response) => !keyword || response.text.toLowerCase().includes(keyword))
+    .sort((a, b) => b.answeredAt.localeCompare(a.answeredAt));
+
+  return {
+    questions: questions.map((question) => {
+      const texts = all.filter((response) => response.questionId === question.id).map((response) => response.text);
+      return {
+        id: question.id,
+        prompt: question.prompt,
+        settings: question.textSettings,
+        responseCount: texts.length,
+        keywords: keywordFrequencies(texts),
+      };
+    }),
+    responses: matching.slice(filters.offset, filters.offset + filters.limit),
+    total: matching.length,
+  };
+}
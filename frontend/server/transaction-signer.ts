@@ -0,0 +1,202 @@
+/**
+ * Server-side transaction signing
+ * Holds an Ed25519 account key and builds, signs and submits entry function
+ * transactions as plain BCS, without the TypeScript SDK. Used by the
+ * self-hosted fee payer (sponsorship.ts), the poll finalizer
+ * (claim-deadlines.ts) and the staking keeper (staking-keeper.ts).
+ */
+
+import { createHash, createPrivateKey, createPublicKey, sign, type KeyObject } from "crypto";
+import { getNodeApiUrl, normalizeAddress, type NetworkType } from "./movement";
+
+// ============================================
+// Constants
+// ============================================
+
+// Prefix of sha3-256("APTOS::RawTransaction"), prepended to single-signer signing messages
+const RAW_TRANSACTION_SALT = createHash("sha3-256").update("APTOS::RawTransaction").digest();
+const ENTRY_FUNCTION_PAYLOAD_VARIANT = 2;
+const ED25519_TRANSACTION_AUTHENTICATOR_VARIANT = 0;
+
+// DER PKCS#8 prefix for a raw 32-byte Ed25519 private key
+const ED25519_PKCS8_PREFIX = Buffer.from("302e020100300506032b657004220420", "hex");
+// Authentication key scheme byte for single Ed25519 keys
+const ED25519_SCHEME = 0x00;
+
+const DEFAULT_MAX_GAS_AMOUNT = 20000;
+const DEFAULT_EXPIRATION_SECS = 60;
+
+// ============================================
+// Hex and BCS helpers
+// ============================================
+
+export function stripHexPrefix(value: string): string {
+  return value.startsWith("0x") ? value.slice(2) : value;
+}
+
+export function fromHex(value: string, label: string): Buffer {
+  const clean = stripHexPrefix(value);
+  if (clean.length === 0 || clean.length % 2 !== 0 || !/^[0-9a-fA-F]+$/.test(clean)) {
+    throw new Error(`${label} must be hex-encoded`);
+  }
+  return Buffer.from(clean, "hex");
+}
+
+function uleb128(value: number): Buffer {
+  const bytes: number[] = [];
+  let remaining = value;
+  do {
+    let byte = remaining & 0x7f;
+    remaining = Math.floor(remaining / 128);
+    if (remaining > 0) byte |= 0x80;
+    bytes.push(byte);
+  } while (remaining > 0);
+  return Buffer.from(bytes);
+}
+
+function bcsBytes(bytes: Buffer): Buffer {
+  return Buffer.concat([uleb128(bytes.length), bytes]);
+}
+
+function bcsString(value: string): Buffer {
+  return bcsBytes(Buffer.from(value, "utf8"));
+}
+
+export function bcsU64(value: bigint | number | string): Buffer {
+  const bytes = Buffer.alloc(8);
+  bytes.writeBigUInt64LE(BigInt(value));
+  return bytes;
+}
+
+export function bcsAddress(address: string): Buffer {
+  return Buffer.from(stripHexPrefix(normalizeAddress(address)), "hex");
+}
+
+// ============================================
+// Ed25519 Account
+// ============================================
+
+export class Ed25519Account {
+  readonly address: string;
+  readonly publicKey: Buffer;
+  private privateKey: KeyObject;
+
+  /**
+   * privateKeyHex is the 32-byte Ed25519 seed; AIP-80 "ed25519-priv-0x..." keys are accepted.
+   * address defaults to the key's original account address.
+   */
+  constructor(privateKeyHex: string, label: string, address?: string) {
+    const seed = fromHex(privateKeyHex.replace(/^ed25519-priv-/, ""), label);
+    if (seed.length !== 32) {
+      throw new Error(`${label} must be a 32-byte Ed25519 private key`);
+    }
+
+    this.privateKey = createPrivateKey({
+      key: Buffer.concat([ED25519_PKCS8_PREFIX, seed]),
+      format: "der",
+      type: "pkcs8",
+    });
+    this.publicKey = createPublicKey(this.privateKey).export({ format: "der", type: "spki" }).subarray(-32);
+
+    const derivedAddress = createHash("sha3-256")
+      .update(Buffer.concat([this.publicKey, Buffer.from([ED25519_SCHEME])]))
+      .digest("hex");
+    this.address = normalizeAddress(address || derivedAddress);
+  }
+
+  sign(message: Buffer): Buffer {
+    return sign(null, message, this.privateKey);
+  }
+}
+
+// ============================================
+// Submission
+// ============================================
+
+/**
+ * GET a node REST path (relative to /v1) as JSON
+ */
+export async function getNodeJson<T>(network: NetworkType, path: string): Promise<T> {
+  const response = await fetch(`${getNodeApiUrl(network)}${path}`);
+  if (!response.ok) {
+    throw new Error(`Node request ${path} failed: ${response.status} ${response.statusText}`);
+  }
+  return response.json();
+}
+
+/**
+ * Post a BCS SignedTransaction to the node; throws with the node's message on rejection
+ */
+export async function submitSignedTransaction(network: NetworkType, signedTransaction: Buffer): Promise<{
+  hash: string;
+  sender: string;
+  sequenceNumber: string;
+}> {
+  const response = await fetch(`${getNodeApiUrl(network)}/transactions`, {
+    method: "POST",
+    headers: { "Content-Type": "application/x.aptos.signed_transaction+bcs" },
+    body: signedTransaction,
+  });
+  const result = await response.json().catch(() => null);
+
+  if (!response.ok || !result?.hash) {
+    throw new Error(result?.message || `Node rejected transaction: ${response.status}`);
+  }
+
+  return {
+    hash: result.hash,
+    sender: result.sender,
+    sequenceNumber: result.sequence_number,
+  };
+}
+
+/**
+ * Build, sign and submit an entry function call (no type arguments) as `account`
+ * args are the BCS encodings of each argument, e.g. bcsAddress(...), bcsU64(...).
+ */
+export async function submitEntryFunction(
+  network: NetworkType,
+  account: Ed25519Account,
+  functionId: string,
+  args: Buffer[],
+  maxGasAmount = DEFAULT_MAX_GAS_AMOUNT
+): Promise<string> {
+  const [moduleAddress, moduleName, functionName] = functionId.split("::");
+  if (!moduleAddress || !moduleName || !functionName) {
+    throw new Error(`Invalid function id: ${functionId}`);
+  }
+
+  const [accountInfo, ledgerInfo, gasEstimate] = await Promise.all([
+    getNodeJson<{ sequence_number: string }>(network, `/accounts/${account.address}`),
+    getNodeJson<{ chain_id: number }>(network, ""),
+    getNodeJson<{ gas_estimate: number }>(network, "/estimate_gas_price"),
+  ]);
+
+  const rawTransaction = Buffer.concat([
+    bcsAddress(account.address),
+    bcsU64(accountInfo.sequence_number),
+    uleb128(ENTRY_FUNCTION_PAYLOAD_VARIANT),
+    bcsAddress(moduleAddress),
+    bcsString(moduleName),
+    bcsString(functionName),
+    uleb128(0), // type arguments
+    uleb128(args.length),
+    ...args.map(bcsBytes),
+    bcsU64(maxGasAmount),
+    bcsU64(gasEstimate.gas_estimate),
+    bcsU64(Math.floor(Date.now() / 1000) + DEFAULT_EXPIRATION_SECS),
+    Buffer.from([ledgerInfo.chain_id]),
+  ]);
+
+  const signature = account.sign(Buffer.concat([RAW_TRANSACTION_SALT, rawTransaction]));
+  const signedTransaction = Buffer.concat([
+    rawTransaction,
+    Buffer.from([ED25519_TRANSACTION_AUTHENTICATOR_VARIANT, 32]),
+    account.publicKey,
+    Buffer.from([64]),
+    signature,
+  ]);
+
+  const { hash } = await submitSignedTransaction(network, signedTransaction);
+  return hash;
+}
@@ -0,0 +1,205 @@
+import { createServer, type Server } from "http";
+import type { AddressInfo } from "net";
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { eq } from "drizzle-orm";
+import { verifiedTransactions } from "@shared/schema";
+import type { NodeTransaction } from "./movement";
+
+vi.mock("./db", async () => ({ db: await (await import("./test-db")).createTestDb() }));
+
+const { db } = await import("./db");
+const {
+  TxVerificationError,
+  claimTransaction,
+  verifyClaimRewardTransaction,
+  verifyEntryFunctionTransaction,
+  verifyVoteTransaction,
+} = await import("./tx-verification");
+
+const CONTRACT = `0x${"a".repeat(64)}`;
+const SENDER = `0x${"b".repeat(64)}`;
+const OTHER = `0x${"c".repeat(64)}`;
+
+// Transactions served by the stub node, keyed by hash
+const transactions = new Map<string, NodeTransaction>();
+let node: Server;
+
+function hash(n: number): string {
+  return `0x${n.toString(16).padStart(64, "0")}`;
+}
+
+function voteTx(txHash: string, overrides: Partial<NodeTransaction> = {}): NodeTransaction {
+  return {
+    type: "user_transaction",
+    hash: txHash,
+    sender: SENDER,
+    success: true,
+    vm_status: "Executed successfully",
+    payload: {
+      type: "entry_function_payload",
+      function: `${CONTRACT}::poll::vote`,
+      arguments: [CONTRACT, "7", "1"],
+    },
+    events: [],
+    ...overrides,
+  };
+}
+
+async function expectRejection(promise: Promise<unknown>, status: number): Promise<void> {
+  const error = await promise.then(() => null, (err: unknown) => err);
+  expect(error).toBeInstanceOf(TxVerificationError);
+  expect((error as InstanceType<typeof TxVerificationError>).status).toBe(status);
+}
+
+beforeAll(async () => {
+  node = createServer((req, res) => {
+    const match = req.url?.match(/^\/v1\/transactions\/by_hash\/(0x[0-9a-f]+)$/);
+    const transaction = match ? transactions.get(match[1]) : undefined;
+    res.writeHead(transaction ? 200 : 404, { "Content-Type": "application/json" });
+    res.end(JSON.stringify(transaction ?? { error_code: "transaction_not_found" }));
+  });
+  await new Promise<void>((resolve) => node.listen(0, "127.0.0.1", resolve));
+  const { port } = node.address() as AddressInfo;
+  process.env.MOVEMENT_TESTNET_NODE_URL = `http://127.0.0.1:${port}`;
+  process.env.VITE_TESTNET_CONTRACT_ADDRESS = CONTRACT;
+});
+
+afterAll(async () => {
+  await new Promise<void>((resolve) => node.close(() => resolve()));
+});
+
+beforeEach(async () => {
+  transactions.clear();
+  await db.delete(verifiedTransactions);
+});
+
+describe("verifyVoteTransaction", () => {
+  it("returns the polls and options of a successful vote", async () => {
+    transactions.set(hash(1), voteTx(hash(1)));
+
+    const verified = await verifyVoteTransaction(hash(1), SENDER, "testnet");
+
+    expect(verified.functionName).toBe("vote");
+    expect(verified.pollIds).toEqual([7]);
+    expect(verified.optionIndices).toEqual([1]);
+  });
+
+  it("rejects a vote sent by a different wallet", async () => {
+    transactions.set(hash(2), voteTx(hash(2), { sender: OTHER }));
+
+    await expectRejection(verifyVoteTransaction(hash(2), SENDER, "testnet"), 403);
+  });
+
+  it("rejects a transaction that failed on chain", async () => {
+    transactions.set(hash(3), voteTx(hash(3), { success: false, vm_status: "Move abort" }));
+
+    await expectRejection(verifyVoteTransaction(hash(3), SENDER, "testnet"), 400);
+  });
+
+  it("rejects a vote cast against a different registry", async () => {
+    transactions.set(
+      hash(4),
+      voteTx(hash(4), {
+        payload: { type: "entry_function_payload", function: `${CONTRACT}::poll::vote`, arguments: [OTHER, "7", "1"] },
+      })
+    );
+
+    await expectRejection(verifyVoteTransaction(hash(4), SENDER, "testnet"), 400);
+  });
+
+  it("refuses to credit the same hash twice", async () => {
+    transactions.set(hash(5), voteTx(hash(5)));
+
+    const verified = await verifyVoteTransaction(hash(5), SENDER, "testnet");
+    await claimTransaction(verified, SENDER);
+
+    const replayed = await verifyVoteTransaction(hash(5), SENDER, "testnet");
+    await expectRejection(claimTransaction(replayed, SENDER), 409);
+
+    const recorded = await db.select().from(verifiedTransactions).where(eq(verifiedTransactions.txHash, hash(5)));
+    expect(recorded).toHaveLength(1);
+    expect(recorded[0].pollIds).toEqual([7]);
+  });
+
+  it("lets the unique key settle concurrent claims of one hash", async () => {
+    transactions.set(hash(9), voteTx(hash(9)));
+    const verified = await verifyVoteTransaction(hash(9), SENDER, "testnet");
+
+    // Both requests pass the lookup before either inserts
+    const results = await Promise.allSettled([claimTransaction(verified, SENDER), claimTransaction(verified, SENDER)]);
+
+    expect(results.map((result) => result.status).sort()).toEqual(["fulfilled", "rejected"]);
+    const rejected = results.find((result) => result.status === "rejected") as PromiseRejectedResult;
+    expect(rejected.reason).toBeInstanceOf(TxVerificationError);
+    expect(rejected.reason.status).toBe(409);
+    expect(await db.select().from(verifiedTransactions)).toHaveLength(1);
+  });
+});
+
+describe("verifyClaimRewardTransaction", () => {
+  it("collects both poll and questionnaire claims from a batch", async () => {
+    transactions.set(
+      hash(8),
+      voteTx(hash(8), {
+        payload: {
+          type: "entry_function_payload",
+          function: `${CONTRACT}::poll::claim_rewards_batch`,
+          arguments: [CONTRACT, ["3", "4"], ["9"]],
+        },
+        events: [
+          { type: `${CONTRACT}::poll::RewardClaimed`, data: { poll_id: "3", claimer: SENDER, amount: "10" } },
+          { type: `${CONTRACT}::poll::RewardClaimed`, data: { poll_id: "4", claimer: SENDER, amount: "10" } },
+          {
+            type: `${CONTRACT}::poll::QuestionnaireRewardClaimed`,
+            data: { questionnaire_id: "9", claimer: SENDER, amount: "20" },
+          },
+        ],
+      })
+    );
+
+    const verified = await verifyClaimRewardTransaction(hash(8), SENDER, "testnet");
+
+    expect(verified.functionName).toBe("claim_rewards_batch");
+    expect(verified.pollIds).toEqual([3, 4]);
+    expect(verified.questionnaireIds).toEqual([9]);
+  });
+});
+
+describe("verifyEntryFunctionTransaction", () => {
+  const allowVote = (fn: string) => fn === "vote";
+
+  it("rejects a call into a different module", async () => {
+    transactions.set(
+      hash(6),
+      voteTx(hash(6), {
+        payload: { type: "entry_function_payload", function: `${CONTRACT}::staking::vote`, arguments: [] },
+      })
+    );
+
+    await expectRejection(
+      verifyEntryFunctionTransaction(hash(6), SENDER, "testnet", CONTRACT, "poll", allowVote),
+      400
+    );
+  });
+
+  it("rejects the same module published at a different address", async () => {
+    transactions.set(
+      hash(7),
+      voteTx(hash(7), {
+        payload: { type: "entry_function_payload", function: `${OTHER}::poll::vote`, arguments: [] },
+      })
+    );
+
+    await expectRejection(
+      verifyEntryFunctionTransaction(hash(7), SENDER, "testnet", CONTRACT, "poll", allowVote),
+      400
+    );
+  });
+
+  it("rejects a malformed hash without asking the node", async () => {
+    await expectRejection(
+      verifyEntryFunctionTransaction("0x1234", SENDER, "testnet", CONTRACT, "poll", allowVote),
+      400
+    );
+  });
+});
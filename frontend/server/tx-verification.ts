@@ -0,0 +1,380 @@
+/**
+ * On-chain transaction verification
+ * Confirms a transaction exists on the Movement full node, succeeded, and called
+ * the expected entry function from the claimed sender before the server credits
+ * votes, streaks, points or quest progress. Each transaction hash can be credited once.
+ */
+
+import { eq } from "drizzle-orm";
+import { db } from "./db";
+import { verifiedTransactions, EARLY_VOTE_RANK } from "@shared/schema";
+import {
+  callViewFunction,
+  getPollContractAddress,
+  getStakingContractAddress,
+  normalizeAddress,
+  waitForTransaction,
+  type NetworkType,
+  type NodeTransaction,
+} from "./movement";
+
+// ============================================
+// Types
+// ============================================
+
+export type VoteFunctionName = "vote" | "bulk_vote";
+
+export interface VerifiedTransaction {
+  txHash: string;
+  network: NetworkType;
+  functionName: string;
+  pollIds: number[];
+  transaction: NodeTransaction;
+}
+
+export interface VerifiedClaim extends VerifiedTransaction {
+  questionnaireIds: number[];
+}
+
+export interface VerifiedVote extends VerifiedTransaction {
+  functionName: VoteFunctionName;
+  optionIndices: number[];
+}
+
+export class TxVerificationError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.status = status;
+  }
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+function requirePollContract(network: NetworkType): string {
+  const contractAddress = getPollContractAddress(network);
+  if (!contractAddress) {
+    throw new TxVerificationError(500, `Poll contract address not configured for ${network}`);
+  }
+  return contractAddress;
+}
+
+function requireStakingContract(network: NetworkType): string {
+  const contractAddress = getStakingContractAddress(network);
+  if (!contractAddress) {
+    throw new TxVerificationError(500, `Staking contract address not configured for ${network}`);
+  }
+  return contractAddress;
+}
+
+function parseU64List(value: unknown): number[] {
+  if (!Array.isArray(value)) {
+    throw new TxVerificationError(400, "Unexpected transaction arguments");
+  }
+  return value.map((item) => parseInt(String(item), 10));
+}
+
+/**
+ * Find events whose type ends with "<module>::<Struct>"
+ */
+function findEvents(transaction: NodeTransaction, typeSuffix: string): { type: string; data: unknown }[] {
+  return (transaction.events ?? []).filter((event) => event.type.endsWith(`::${typeSuffix}`));
+}
+
+// ============================================
+// Verification
+// ============================================
+
+/**
+ * Verify that a transaction succeeded, was sent by `sender`, and called one of
+ * the allowed functions in `<contractAddress>::<moduleName>`
+ */
+export async function verifyEntryFunctionTransaction(
+  txHash: string,
+  sender: string,
+  network: NetworkType,
+  contractAddress: string,
+  moduleName: string,
+  allowedFunctions: (fn: string) => boolean
+): Promise<{ transaction: NodeTransaction; functionName: string }> {
+  if (!/^0x[0-9a-fA-F]{64}$/.test(txHash)) {
+    throw new TxVerificationError(400, "Invalid transaction hash");
+  }
+
+  const transaction = await waitForTransaction(txHash, network);
+
+  if (!transaction) {
+    throw new TxVerificationError(404, "Transaction not found");
+  }
+
+  if (transaction.type === "pending_transaction") {
+    throw new TxVerificationError(409, "Transaction is still pending");
+  }
+
+  if (transaction.type !== "user_transaction" || !transaction.success) {
+    throw new TxVerificationError(400, `Transaction did not succeed (${transaction.vm_status ?? transaction.type})`);
+  }
+
+  if (!transaction.sender || normalizeAddress(transaction.sender) !== normalizeAddress(sender)) {
+    throw new TxVerificationError(403, "Transaction was not sent by this wallet");
+  }
+
+  // Function id looks like "0x<contract>::poll::vote"
+  const [moduleAddress, txModule, functionName] = (transaction.payload?.function ?? "").split("::");
+  if (
+    !moduleAddress ||
+    normalizeAddress(moduleAddress) !== normalizeAddress(contractAddress) ||
+    txModule !== moduleName ||
+    !functionName ||
+    !allowedFunctions(functionName)
+  ) {
+    throw new TxVerificationError(400, `Transaction is not an expected ${moduleName} call`);
+  }
+
+  return { transaction, functionName };
+}
+
+/**
+ * Verify a vote transaction by hash and return the polls it voted on
+ */
+export async function verifyVoteTransaction(
+  txHash: string,
+  sender: string,
+  network: NetworkType
+): Promise<VerifiedVote> {
+  const contractAddress = requirePollContract(network);
+  const { transaction, functionName } = await verifyEntryFunctionTransaction(
+    txHash,
+    sender,
+    network,
+    contractAddress,
+    "poll",
+    (fn) => fn === "vote" || fn === "bulk_vote"
+  );
+
+  const args = transaction.payload?.arguments ?? [];
+  if (typeof args[0] !== "string" || normalizeAddress(args[0]) !== normalizeAddress(contractAddress)) {
+    throw new TxVerificationError(400, "Vote was cast against a different registry");
+  }
+
+  let pollIds: number[];
+  let optionIndices: number[];
+  if (functionName === "vote") {
+    pollIds = parseU64List([args[1]]);
+    optionIndices = parseU64List([args[2]]);
+  } else {
+    pollIds = parseU64List(args[1]);
+    optionIndices = parseU64List(args[2]);
+  }
+
+  if (pollIds.some(isNaN) || optionIndices.some(isNaN) || pollIds.length !== optionIndices.length) {
+    throw new TxVerificationError(400, "Unexpected transaction arguments");
+  }
+
+  return {
+    txHash: txHash.toLowerCase(),
+    network,
+    functionName: functionName as VoteFunctionName,
+    pollIds,
+    optionIndices,
+    transaction,
+  };
+}
+
+/**
+ * Verify a poll creation transaction (single or batch)
+ * pollIds come from the creation events it emitted
+ */
+export async function verifyCreatePollTransaction(
+  txHash: string,
+  sender: string,
+  network: NetworkType
+): Promise<VerifiedTransaction> {
+  const { transaction, functionName } = await verifyEntryFunctionTransaction(
+    txHash,
+    sender,
+    network,
+    requirePollContract(network),
+    "poll",
+    (fn) => fn.startsWith("create_poll_with_") || fn.startsWith("create_polls_batch_with_")
+  );
+
+  // Single creates emit PollCreated; batches emit one PollsBatchCreated with all ids
+  const singleIds = findEvents(transaction, "poll::PollCreated")
+    .map((event) => String((event.data as { poll_id?: string }).poll_id));
+  const batchIds = findEvents(transaction, "poll::PollsBatchCreated")
+    .flatMap((event) => (event.data as { poll_ids?: string[] }).poll_ids ?? []);
+  const pollIds = [...singleIds, ...batchIds]
+    .map((id) => parseInt(id, 10))
+    .filter((id) => !isNaN(id));
+
+  return { txHash: txHash.toLowerCase(), network, functionName, pollIds, transaction };
+}
+
+/**
+ * Verify a reward claim transaction (poll, questionnaire or batch)
+ * pollIds and questionnaireIds come from the RewardClaimed and
+ * QuestionnaireRewardClaimed events it emitted
+ */
+export async function verifyClaimRewardTransaction(
+  txHash: string,
+  sender: string,
+  network: NetworkType
+): Promise<VerifiedClaim> {
+  const { transaction, functionName } = await verifyEntryFunctionTransaction(
+    txHash,
+    sender,
+    network,
+    requirePollContract(network),
+    "poll",
+    (fn) => fn.startsWith("claim_reward_") || fn.startsWith("claim_questionnaire_reward_") || fn === "claim_rewards_batch"
+  );
+
+  const pollIds = findEvents(transaction, "poll::RewardClaimed")
+    .map((event) => parseInt(String((event.data as { poll_id?: string }).poll_id), 10))
+    .filter((id) => !isNaN(id));
+  const questionnaireIds = findEvents(transaction, "poll::QuestionnaireRewardClaimed")
+    .map((event) => parseInt(String((event.data as { questionnaire_id?: string }).questionnaire_id), 10))
+    .filter((id) => !isNaN(id));
+
+  return { txHash: txHash.toLowerCase(), network, functionName, pollIds, questionnaireIds, transaction };
+}
+
+/**
+ * Verify a poll funding (fund_poll_with_*) or refund (withdraw_remaining_*) transaction
+ */
+export async function verifyFundingTransaction(
+  txHash: string,
+  sender: string,
+  network: NetworkType
+): Promise<VerifiedTransaction> {
+  const contractAddress = requirePollContract(network);
+  const { transaction, functionName } = await verifyEntryFunctionTransaction(
+    txHash,
+    sender,
+    network,
+    contractAddress,
+    "poll",
+    (fn) => fn.startsWith("fund_poll_with_") || fn.startsWith("withdraw_remaining_")
+  );
+
+  const args = transaction.payload?.arguments ?? [];
+  if (typeof args[0] !== "string" || normalizeAddress(args[0]) !== normalizeAddress(contractAddress)) {
+    throw new TxVerificationError(400, "Transaction targeted a different registry");
+  }
+
+  const pollIds = parseU64List([args[1]]);
+  if (pollIds.some(isNaN)) {
+    throw new TxVerificationError(400, "Unexpected transaction arguments");
+  }
+
+  return { txHash: txHash.toLowerCase(), network, functionName, pollIds, transaction };
+}
+
+/**
+ * Verify a staking transaction
+ */
+export async function verifyStakeTransaction(
+  txHash: string,
+  sender: string,
+  network: NetworkType
+): Promise<VerifiedTransaction> {
+  const { transaction, functionName } = await verifyEntryFunctionTransaction(
+    txHash,
+    sender,
+    network,
+    requireStakingContract(network),
+    "staking",
+    (fn) => fn === "stake"
+  );
+
+  return { txHash: txHash.toLowerCase(), network, functionName, pollIds: [], transaction };
+}
+
+/**
+ * Record a verified transaction as credited
+ * Throws a 409 if the hash was already used (including concurrent requests)
+ */
+export async function claimTransaction(verified: VerifiedTransaction, walletAddress: string): Promise<void> {
+  const [existing] = await db
+    .select({ id: verifiedTransactions.id })
+    .from(verifiedTransactions)
+    .where(eq(verifiedTransactions.txHash, verified.txHash))
+    .limit(1);
+
+  if (existing) {
+    throw new TxVerificationError(409, "Transaction has already been recorded");
+  }
+
+  try {
+    await db.insert(verifiedTransactions).values({
+      txHash: verified.txHash,
+      network: verified.network,
+      walletAddress: walletAddress.toLowerCase(),
+      functionName: verified.functionName,
+      pollIds: verified.pollIds,
+    });
+  } catch (error) {
+    // Unique violation: another request claimed the hash first
+    if ((error as { code?: string }).code === "23505") {
+      throw new TxVerificationError(409, "Transaction has already been recorded");
+    }
+    throw error;
+  }
+}
+
+// ============================================
+// Chain Reads
+// ============================================
+
+/**
+ * Check on chain whether an address has voted on a poll
+ */
+export async function hasVotedOnChain(
+  pollId: number,
+  voter: string,
+  network: NetworkType
+): Promise<boolean> {
+  const contractAddress = requirePollContract(network);
+  const [voted] = await callViewFunction<[boolean]>(
+    network,
+    `${contractAddress}::poll::has_voted`,
+    [contractAddress, pollId.toString(), voter]
+  );
+  return voted;
+}
+
+/**
+ * Get a voter's 1-based position among a poll's voters (null if not found)
+ */
+export async function getVoterRank(
+  pollId: number,
+  voter: string,
+  network: NetworkType
+): Promise<number | null> {
+  const contractAddress = requirePollContract(network);
+  const [poll] = await callViewFunction<[{ voters: string[] }]>(
+    network,
+    `${contractAddress}::poll::get_poll`,
+    [contractAddress, pollId.toString()]
+  );
+
+  const normalizedVoter = normalizeAddress(voter);
+  const index = poll.voters.findIndex((addr) => normalizeAddress(addr) === normalizedVoter);
+  return index === -1 ? null : index + 1;
+}
+
+/**
+ * Count how many of the given polls the voter was among the first EARLY_VOTE_RANK voters of
+ */
+export async function countEarlyVotes(
+  pollIds: number[],
+  voter: string,
+  network: NetworkType
+): Promise<number> {
+  const ranks = await Promise.all(pollIds.map((pollId) => getVoterRank(pollId, voter, network)));
+  return ranks.filter((rank) => rank !== null && rank <= EARLY_VOTE_RANK).length;
+}
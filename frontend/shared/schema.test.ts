@@ -0,0 +1,159 @@
+import { describe, expect, it } from "vitest";
+import fc from "fast-check";
+import {
+  U64_MAX,
+  calculateGrossAmount,
+  calculateNetAmount,
+  calculatePlatformFee,
+  formatAmount,
+  formatUnits,
+  getAmountOut,
+  getLpSharesForDeposit,
+  parseAmount,
+  sqrtAmount,
+  type Amount,
+} from "./schema";
+
+// Reference implementations transcribed from the Move sources. u64 values are
+// widened to u128 where the contracts cast them, and bigint has no overflow, so
+// only the integer-division order matters.
+
+const u64 = fc.bigInt({ min: BigInt(0), max: U64_MAX });
+const positive = (max: Amount) => fc.bigInt({ min: BigInt(1), max });
+const feeBps = fc.integer({ min: 0, max: 1000 }); // poll.move MAX_FEE_BPS is 10%
+const poolFeeBps = fc.integer({ min: 0, max: 1000 });
+const decimals = fc.integer({ min: 0, max: 18 });
+
+// poll.move: platform_fee = (fund_amount * platform_fee_bps) / 10000
+function movePlatformFee(fundAmount: Amount, platformFeeBps: number): Amount {
+  return (fundAmount * BigInt(platformFeeBps)) / BigInt(10000);
+}
+
+// swap.move get_amount_out / swap_*
+function moveAmountOut(amountIn: Amount, reserveIn: Amount, reserveOut: Amount, fee: number): Amount {
+  const amountInWithFee = amountIn * BigInt(10000 - fee);
+  const numerator = reserveOut * amountInWithFee;
+  const denominator = reserveIn * BigInt(10000) + amountInWithFee;
+  return numerator / denominator;
+}
+
+// swap.move sqrt (Babylonian)
+function moveSqrt(x: Amount): Amount {
+  if (x === BigInt(0)) return BigInt(0);
+  let z = (x + BigInt(1)) / BigInt(2);
+  let y = x;
+  while (z < y) {
+    y = z;
+    z = (x / z + z) / BigInt(2);
+  }
+  return y;
+}
+
+// swap.move add_liquidity share calculation
+function moveLpShares(pulse: Amount, stable: Amount, pulseReserve: Amount, stableReserve: Amount, total: Amount): Amount {
+  if (total === BigInt(0)) {
+    return moveSqrt(pulse * stable) - BigInt(1000);
+  }
+  const fromPulse = (pulse * total) / pulseReserve;
+  const fromStable = (stable * total) / stableReserve;
+  return fromPulse < fromStable ? fromPulse : fromStable;
+}
+
+describe("parseAmount / formatAmount", () => {
+  it("round-trips every u64 amount at full precision", () => {
+    fc.assert(
+      fc.property(u64, decimals, (amount, places) => {
+        expect(parseAmount(formatUnits(amount, places), places)).toBe(amount);
+        expect(parseAmount(formatAmount(amount, places, places), places)).toBe(amount);
+      })
+    );
+  });
+
+  it("rounds half up when showing fewer places", () => {
+    fc.assert(
+      fc.property(u64, decimals, fc.integer({ min: 0, max: 18 }), (amount, places, shown) => {
+        fc.pre(shown < places);
+        const step = BigInt(`1${"0".repeat(places - shown)}`);
+        const rounded = parseAmount(formatAmount(amount, places, shown), places);
+        const expected = ((amount + step / BigInt(2)) / step) * step;
+        expect(rounded).toBe(expected);
+      })
+    );
+  });
+
+  it("truncates digits beyond the token's decimals", () => {
+    expect(parseAmount("1.123456789", 8)).toBe(BigInt(112345678));
+    expect(parseAmount("0.0000001", 6)).toBe(BigInt(0));
+    expect(() => parseAmount("1.2.3", 8)).toThrow(RangeError);
+  });
+});
+
+describe("platform fee (poll.move)", () => {
+  it("matches the contract's fee and net amount", () => {
+    fc.assert(
+      fc.property(u64, feeBps, (amount, fee) => {
+        expect(calculatePlatformFee(amount, fee)).toBe(movePlatformFee(amount, fee));
+        expect(calculateNetAmount(amount, fee)).toBe(amount - movePlatformFee(amount, fee));
+      })
+    );
+  });
+
+  it("grosses up to the smallest deposit whose net covers the target", () => {
+    fc.assert(
+      fc.property(positive(U64_MAX / BigInt(2)), feeBps, (net, fee) => {
+        const gross = calculateGrossAmount(net, fee);
+        expect(gross - movePlatformFee(gross, fee)).toBeGreaterThanOrEqual(net);
+        const smaller = gross - BigInt(1);
+        expect(smaller - movePlatformFee(smaller, fee)).toBeLessThan(net);
+      })
+    );
+  });
+});
+
+describe("constant-product AMM (swap.move)", () => {
+  const reserve = positive(U64_MAX);
+
+  it("quotes the contract's swap output", () => {
+    fc.assert(
+      fc.property(positive(U64_MAX), reserve, reserve, poolFeeBps, (amountIn, reserveIn, reserveOut, fee) => {
+        expect(getAmountOut(amountIn, reserveIn, reserveOut, fee)).toBe(
+          moveAmountOut(amountIn, reserveIn, reserveOut, fee)
+        );
+      })
+    );
+  });
+
+  it("never pays out the whole output reserve", () => {
+    fc.assert(
+      fc.property(positive(U64_MAX), reserve, reserve, poolFeeBps, (amountIn, reserveIn, reserveOut, fee) => {
+        expect(getAmountOut(amountIn, reserveIn, reserveOut, fee)).toBeLessThan(reserveOut);
+      })
+    );
+  });
+
+  it("matches the contract's integer square root", () => {
+    fc.assert(
+      fc.property(fc.bigInt({ min: BigInt(0), max: U64_MAX * U64_MAX }), (value) => {
+        expect(sqrtAmount(value)).toBe(moveSqrt(value));
+      })
+    );
+  });
+
+  it("mints the contract's LP shares for first and later deposits", () => {
+    fc.assert(
+      fc.property(
+        positive(U64_MAX),
+        positive(U64_MAX),
+        reserve,
+        reserve,
+        fc.bigInt({ min: BigInt(0), max: U64_MAX }),
+        (pulse, stable, pulseReserve, stableReserve, total) => {
+          const expected = moveLpShares(pulse, stable, pulseReserve, stableReserve, total);
+          // The contract aborts when a first deposit can't cover MINIMUM_LIQUIDITY
+          fc.pre(expected >= BigInt(0));
+          expect(getLpSharesForDeposit(pulse, stable, pulseReserve, stableReserve, total)).toBe(expected);
+        }
+      )
+    );
+  });
+});
@@ -1,8 +1,240 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, integer, boolean, timestamp, date, jsonb } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, integer, bigint, boolean, timestamp, date, jsonb, unique, index } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
+// ============================================
+// Token Amounts
+// ============================================
+
+// On-chain amounts are u64 base units (octas for MOVE/PULSE, micro-units for USDC)
+// and outgrow Number.MAX_SAFE_INTEGER, so they are carried as bigint. They travel
+// over JSON and through the database as base-unit integer strings, and are only
+// turned into numbers for ratios and charts.
+export type Amount = bigint;
+export type AmountString = string;
+
+export const ZERO_AMOUNT: Amount = BigInt(0);
+export const U64_MAX: Amount = (BigInt(1) << BigInt(64)) - BigInt(1);
+export const BPS_DENOMINATOR = 10000;
+
+const BPS = BigInt(BPS_DENOMINATOR);
+
+function pow10(exponent: number): Amount {
+  return BigInt(`1${"0".repeat(exponent)}`);
+}
+
+/**
+ * Whether a value is a base-unit amount string that fits in a u64
+ */
+export function isAmountString(value: unknown): value is AmountString {
+  return typeof value === "string" && /^\d{1,20}$/.test(value) && BigInt(value) <= U64_MAX;
+}
+
+/**
+ * Read a base-unit amount from a view function result, event field, JSON body or row
+ * Numbers are only accepted while they are still exact (safe integers).
+ */
+export function toAmount(value: Amount | number | string): Amount {
+  if (typeof value === "bigint") return value;
+  if (typeof value === "number") {
+    if (!Number.isSafeInteger(value)) {
+      throw new RangeError(`Amount ${value} is not a safe integer`);
+    }
+    return BigInt(value);
+  }
+  if (!/^-?\d+$/.test(value.trim())) {
+    throw new RangeError(`Invalid amount: "${value}"`);
+  }
+  return BigInt(value.trim());
+}
+
+/**
+ * Parse a decimal token amount ("12.5") into base units
+ * Digits beyond the token's decimals are truncated, like the contract's integer math.
+ */
+export function parseAmount(value: string | number, decimals: number): Amount {
+  const text =
+    typeof value === "number"
+      ? value.toLocaleString("en-US", { useGrouping: false, maximumFractionDigits: 20 })
+      : value.trim().replace(/,/g, "");
+  const match = /^(\d*)(?:\.(\d*))?$/.exec(text);
+  if (!match || (match[1] === "" && !match[2])) {
+    throw new RangeError(`Invalid amount: "${value}"`);
+  }
+
+  const fraction = (match[2] ?? "").slice(0, decimals).padEnd(decimals, "0");
+  return BigInt((match[1] || "0") + fraction);
+}
+
+/**
+ * Format base units as a decimal string with a fixed number of places, rounding half up
+ */
+export function formatAmount(amount: Amount, decimals: number, displayDecimals: number = 4): string {
+  const negative = amount < ZERO_AMOUNT;
+  let scaled = negative ? -amount : amount;
+
+  if (displayDecimals < decimals) {
+    const step = pow10(decimals - displayDecimals);
+    scaled = (scaled + step / BigInt(2)) / step;
+  } else {
+    scaled = scaled * pow10(displayDecimals - decimals);
+  }
+
+  const digits = scaled.toString().padStart(displayDecimals + 1, "0");
+  const whole = digits.slice(0, digits.length - displayDecimals);
+  const fraction = digits.slice(digits.length - displayDecimals);
+  return `${negative ? "-" : ""}${whole}${displayDecimals > 0 ? `.${fraction}` : ""}`;
+}
+
+/**
+ * Format base units at full precision without trailing zeros ("1.5", "20")
+ */
+export function formatUnits(amount: Amount, decimals: number): string {
+  const formatted = formatAmount(amount, decimals, decimals);
+  return decimals > 0 ? formatted.replace(/\.?0+$/, "") : formatted;
+}
+
+/**
+ * Convert base units to a token number for percentages and charts (not for math)
+ */
+export function amountToNumber(amount: Amount, decimals: number): number {
+  return Number(formatAmount(amount, decimals, decimals));
+}
+
+export function compareAmounts(a: Amount, b: Amount): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+export function minAmount(a: Amount, b: Amount): Amount {
+  return a < b ? a : b;
+}
+
+export function maxAmount(a: Amount, b: Amount): Amount {
+  return a > b ? a : b;
+}
+
+export function sumAmounts(amounts: Amount[]): Amount {
+  return amounts.reduce((total, amount) => total + amount, ZERO_AMOUNT);
+}
+
+/**
+ * floor(amount * numerator / denominator), the contracts' u128 intermediate math
+ */
+export function mulDiv(amount: Amount, numerator: Amount, denominator: Amount): Amount {
+  return (amount * numerator) / denominator;
+}
+
+// Platform fee math, mirroring poll.move: fee = amount * fee_bps / 10000
+
+export function calculatePlatformFee(grossAmount: Amount, feeBps: number): Amount {
+  return mulDiv(grossAmount, BigInt(feeBps), BPS);
+}
+
+export function calculateNetAmount(grossAmount: Amount, feeBps: number): Amount {
+  return grossAmount - calculatePlatformFee(grossAmount, feeBps);
+}
+
+/**
+ * Smallest gross deposit whose net (after the platform fee) is at least netAmount
+ */
+export function calculateGrossAmount(netAmount: Amount, feeBps: number): Amount {
+  if (netAmount <= ZERO_AMOUNT) return ZERO_AMOUNT;
+  // net(gross) = ceil(gross * (10000 - fee_bps) / 10000), so solve net(gross) > netAmount - 1
+  return ((netAmount - BigInt(1)) * BPS) / (BPS - BigInt(feeBps)) + BigInt(1);
+}
+
+// Constant-product AMM math, mirroring swap.move
+
+/**
+ * Output of swapping amountIn against reserves, after the pool fee (get_amount_out)
+ */
+export function getAmountOut(amountIn: Amount, reserveIn: Amount, reserveOut: Amount, feeBps: number): Amount {
+  if (amountIn <= ZERO_AMOUNT || reserveIn <= ZERO_AMOUNT || reserveOut <= ZERO_AMOUNT) return ZERO_AMOUNT;
+  const amountInWithFee = amountIn * (BPS - BigInt(feeBps));
+  return (reserveOut * amountInWithFee) / (reserveIn * BPS + amountInWithFee);
+}
+
+/**
+ * Price impact of a swap in basis points (get_price_impact)
+ */
+export function getPriceImpactBps(amountIn: Amount, reserveIn: Amount, reserveOut: Amount, feeBps: number): number {
+  if (amountIn <= ZERO_AMOUNT || reserveIn <= ZERO_AMOUNT || reserveOut <= ZERO_AMOUNT) return 0;
+
+  const amountOut = getAmountOut(amountIn, reserveIn, reserveOut, feeBps);
+  if (amountOut === ZERO_AMOUNT) return BPS_DENOMINATOR;
+
+  const spotPrice = (reserveOut * BPS) / reserveIn;
+  const executionPrice = (amountOut * BPS) / amountIn;
+  return spotPrice > executionPrice ? Number(((spotPrice - executionPrice) * BPS) / spotPrice) : 0;
+}
+
+/**
+ * Integer square root, rounding down (the pool's geometric mean for first deposits)
+ */
+export function sqrtAmount(value: Amount): Amount {
+  if (value <= ZERO_AMOUNT) return ZERO_AMOUNT;
+  let y = value;
+  let z = (value + BigInt(1)) / BigInt(2);
+  while (z < y) {
+    y = z;
+    z = (value / z + z) / BigInt(2);
+  }
+  return y;
+}
+
+/**
+ * LP shares minted for a deposit (add_liquidity); MINIMUM_LIQUIDITY is locked on the first one
+ */
+export function getLpSharesForDeposit(
+  amountA: Amount,
+  amountB: Amount,
+  reserveA: Amount,
+  reserveB: Amount,
+  totalShares: Amount,
+  minimumLiquidity: Amount = BigInt(1000)
+): Amount {
+  if (totalShares === ZERO_AMOUNT) {
+    const shares = sqrtAmount(amountA * amountB) - minimumLiquidity;
+    return maxAmount(shares, ZERO_AMOUNT);
+  }
+  if (reserveA === ZERO_AMOUNT || reserveB === ZERO_AMOUNT) return ZERO_AMOUNT;
+  return minAmount(mulDiv(amountA, totalShares, reserveA), mulDiv(amountB, totalShares, reserveB));
+}
+
+/**
+ * Amount of token B that matches a deposit of amountA at the pool ratio
+ */
+export function quoteLiquidity(amountA: Amount, reserveA: Amount, reserveB: Amount): Amount {
+  return reserveA > ZERO_AMOUNT ? mulDiv(amountA, reserveB, reserveA) : ZERO_AMOUNT;
+}
+
+/**
+ * How far a deposit moves the pool price, in basis points
+ * add_liquidity keeps both amounts whole but mints shares for the scarcer side,
+ * so whatever exceeds the pool ratio is donated and shifts the price.
+ */
+export function getDepositPriceImpactBps(amountA: Amount, amountB: Amount, reserveA: Amount, reserveB: Amount): number {
+  if (reserveA <= ZERO_AMOUNT || reserveB <= ZERO_AMOUNT) return 0;
+  const cross = amountB * reserveA - reserveB * amountA;
+  const deviation = cross < ZERO_AMOUNT ? -cross : cross;
+  return Number(mulDiv(deviation, BPS, reserveB * (reserveA + amountA)));
+}
+
+/**
+ * Reserve amount returned for burning LP shares (remove_liquidity)
+ */
+export function getLiquidityValue(shares: Amount, reserve: Amount, totalShares: Amount): Amount {
+  return totalShares > ZERO_AMOUNT ? mulDiv(shares, reserve, totalShares) : ZERO_AMOUNT;
+}
+
+/**
+ * Lowest acceptable output for a slippage tolerance in basis points
+ */
+export function applySlippage(amount: Amount, slippageBps: number): Amount {
+  return mulDiv(amount, BPS - BigInt(slippageBps), BPS);
+}
+
 // ============================================
 // Tier & Quest System Constants
 // ============================================
@@ -29,12 +261,56 @@ export const TIER_VOTE_LIMITS = {
 } as const;
 
 // PULSE thresholds for tier calculation (in octas, 1e8 = 1 PULSE)
-export const TIER_PULSE_THRESHOLDS = {
-  [TIERS.BRONZE]: 0,
-  [TIERS.SILVER]: 1000 * 1e8,    // 1,000 PULSE
-  [TIERS.GOLD]: 10000 * 1e8,     // 10,000 PULSE
-  [TIERS.PLATINUM]: 100000 * 1e8, // 100,000 PULSE
-} as const;
+export const TIER_PULSE_THRESHOLDS: Record<number, Amount> = {
+  [TIERS.BRONZE]: ZERO_AMOUNT,
+  [TIERS.SILVER]: parseAmount("1000", 8),     // 1,000 PULSE
+  [TIERS.GOLD]: parseAmount("10000", 8),      // 10,000 PULSE
+  [TIERS.PLATINUM]: parseAmount("100000", 8), // 100,000 PULSE
+};
+
+/**
+ * Tier earned by total PULSE holdings (wallet balance + staked), before streak bonuses
+ */
+export function getTierForPulse(totalPulse: Amount): number {
+  if (totalPulse >= TIER_PULSE_THRESHOLDS[TIERS.PLATINUM]) return TIERS.PLATINUM;
+  if (totalPulse >= TIER_PULSE_THRESHOLDS[TIERS.GOLD]) return TIERS.GOLD;
+  if (totalPulse >= TIER_PULSE_THRESHOLDS[TIERS.SILVER]) return TIERS.SILVER;
+  return TIERS.BRONZE;
+}
+
+// Reward weight of each staking lock period (seconds) in bps - must match the
+// staking contract's MULTIPLIER_* constants
+export const STAKE_LOCK_MULTIPLIERS_BPS: Record<number, number> = {
+  604800: 10000,   // 7 days, 1.0x
+  1209600: 11000,  // 14 days, 1.1x
+  1814400: 12000,  // 21 days, 1.2x
+  2592000: 13000,  // 30 days, 1.3x
+  7776000: 15000,  // 90 days, 1.5x
+  15552000: 20000, // 180 days, 2.0x
+  31536000: 30000, // 1 year, 3.0x
+};
+
+export const MAX_STAKE_LOCK_MULTIPLIER_BPS = Math.max(...Object.values(STAKE_LOCK_MULTIPLIERS_BPS));
+
+export function getStakeLockMultiplierBps(lockDuration: number): number {
+  return STAKE_LOCK_MULTIPLIERS_BPS[lockDuration] ?? BPS_DENOMINATOR;
+}
+
+/**
+ * Staked PULSE with each position scaled by its lock multiplier
+ * Unlocked positions count at 1x, as in the contract's get_reward_weight.
+ */
+export function getLockWeightedStake(
+  positions: { amount: Amount; lockDuration: number; isUnlocked?: boolean }[]
+): Amount {
+  return positions.reduce(
+    (total, position) =>
+      position.isUnlocked
+        ? total + position.amount
+        : total + mulDiv(position.amount, BigInt(getStakeLockMultiplierBps(position.lockDuration)), BPS),
+    ZERO_AMOUNT
+  );
+}
 
 export const QUEST_TYPES = {
   DAILY: 0,
@@ -50,6 +326,34 @@ export const QUEST_TYPE_NAMES = {
   [QUEST_TYPES.SPECIAL]: "Special",
 } as const;
 
+export const QUEST_ACTIONS = {
+  VOTE: "vote",                                     // Each poll voted on
+  STREAK: "streak",                                 // Current voting streak (days)
+  TOTAL_VOTES: "total_votes",                       // Season vote count
+  EARLY_VOTE: "early_vote",                         // Each vote among a poll's first EARLY_VOTE_RANK voters
+  CREATE_POLL: "create_poll",                       // Each poll created
+  CLAIM_REWARD: "claim_reward",                     // Each poll reward claimed
+  COMPLETE_QUESTIONNAIRE: "complete_questionnaire", // Each questionnaire completed
+  REFERRAL: "referral",                             // Each referred user
+  STAKE: "stake",                                   // Each staking position opened
+} as const;
+
+export const EARLY_VOTE_RANK = 100;
+
+export type QuestAction = typeof QUEST_ACTIONS[keyof typeof QUEST_ACTIONS];
+
+export const QUEST_ACTION_NAMES: Record<QuestAction, string> = {
+  vote: "Vote",
+  streak: "Streak Days",
+  total_votes: "Total Votes",
+  early_vote: "Early Votes",
+  create_poll: "Create Polls",
+  claim_reward: "Claim Rewards",
+  complete_questionnaire: "Complete Questionnaires",
+  referral: "Refer Users",
+  stake: "Stake PULSE",
+};
+
 export const SEASON_STATUS = {
   PENDING: 0,
   ACTIVE: 1,
@@ -77,7 +381,8 @@ export type User = typeof users.$inferSelect;
 
 export const userProfiles = pgTable("user_profiles", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
-  walletAddress: varchar("wallet_address", { length: 66 }).notNull().unique(),
+  network: varchar("network", { length: 10 }).notNull(), // "testnet" | "mainnet"
+  walletAddress: varchar("wallet_address", { length: 66 }).notNull(),
 
   // Streak tracking
   currentStreak: integer("current_streak").default(0).notNull(),
@@ -97,11 +402,15 @@ export const userProfiles = pgTable("user_profiles", {
   cachedTier: integer("cached_tier").default(0).notNull(),
   cachedPulseBalance: varchar("cached_pulse_balance", { length: 50 }).default("0").notNull(),
   cachedStakedPulse: varchar("cached_staked_pulse", { length: 50 }).default("0").notNull(),
+  // Staked PULSE scaled by lock multipliers; null until a client reports it
+  cachedWeightedStakedPulse: varchar("cached_weighted_staked_pulse", { length: 50 }),
   tierLastUpdated: timestamp("tier_last_updated"),
 
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
-});
+}, (table) => [
+  unique("user_profiles_network_wallet").on(table.network, table.walletAddress),
+]);
 
 export type UserProfile = typeof userProfiles.$inferSelect;
 export type InsertUserProfile = typeof userProfiles.$inferInsert;
@@ -112,7 +421,8 @@ export type InsertUserProfile = typeof userProfiles.$inferInsert;
 
 export const seasons = pgTable("seasons", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
-  seasonNumber: integer("season_number").notNull().unique(),
+  network: varchar("network", { length: 10 }).notNull(), // "testnet" | "mainnet"
+  seasonNumber: integer("season_number").notNull(),
   name: varchar("name", { length: 100 }).notNull(),
   description: text("description"),
 
@@ -121,12 +431,16 @@ export const seasons = pgTable("seasons", {
 
   totalPulsePool: varchar("total_pulse_pool", { length: 50 }).default("0").notNull(), // In octas
   status: integer("status").default(SEASON_STATUS.PENDING).notNull(),
+  // Gas sponsorship campaign: octas of gas the platform pays during the season (null = no cap)
+  sponsorshipBudget: varchar("sponsorship_budget", { length: 50 }),
 
   creatorAddress: varchar("creator_address", { length: 66 }).notNull(),
 
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
-});
+}, (table) => [
+  unique("seasons_network_season_number").on(table.network, table.seasonNumber),
+]);
 
 export type Season = typeof seasons.$inferSelect;
 export type InsertSeason = typeof seasons.$inferInsert;
@@ -137,6 +451,7 @@ export type InsertSeason = typeof seasons.$inferInsert;
 
 export const quests = pgTable("quests", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  network: varchar("network", { length: 10 }).notNull(), // Same as the season's network
   seasonId: varchar("season_id", { length: 36 }).notNull(),
 
   questType: integer("quest_type").notNull(), // 0=daily, 1=weekly, 2=achievement, 3=special
@@ -164,6 +479,7 @@ export type InsertQuest = typeof quests.$inferInsert;
 
 // ============================================
 // Quest Progress (user progress on quests)
+// Scoped to a network through its quest and season
 // ============================================
 
 export const questProgress = pgTable("quest_progress", {
@@ -193,6 +509,7 @@ export type InsertQuestProgress = typeof questProgress.$inferInsert;
 
 export const dailyVoteLogs = pgTable("daily_vote_logs", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  network: varchar("network", { length: 10 }).notNull(), // "testnet" | "mainnet"
   walletAddress: varchar("wallet_address", { length: 66 }).notNull(),
   voteDate: date("vote_date").notNull(),
   voteCount: integer("vote_count").default(0).notNull(),
@@ -204,8 +521,27 @@ export const dailyVoteLogs = pgTable("daily_vote_logs", {
 export type DailyVoteLog = typeof dailyVoteLogs.$inferSelect;
 export type InsertDailyVoteLog = typeof dailyVoteLogs.$inferInsert;
 
+// ============================================
+// Verified Transactions (each tx hash can be credited once)
+// ============================================
+
+export const verifiedTransactions = pgTable("verified_transactions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  txHash: varchar("tx_hash", { length: 66 }).notNull().unique(),
+  network: varchar("network", { length: 10 }).notNull(), // "testnet" | "mainnet"
+  walletAddress: varchar("wallet_address", { length: 66 }).notNull(),
+  functionName: varchar("function_name", { length: 50 }).notNull(), // e.g. "vote", "bulk_vote", "stake"
+  pollIds: jsonb("poll_ids").$type<number[]>().default([]).notNull(),
+
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export type VerifiedTransaction = typeof verifiedTransactions.$inferSelect;
+export type InsertVerifiedTransaction = typeof verifiedTransactions.$inferInsert;
+
 // ============================================
 // Season Leaderboard Cache
+// Scoped to a network through its season
 // ============================================
 
 export const seasonLeaderboard = pgTable("season_leaderboard", {
@@ -226,6 +562,7 @@ export type InsertSeasonLeaderboardEntry = typeof seasonLeaderboard.$inferInsert
 
 // ============================================
 // User Season Snapshots (immutable end-of-season records)
+// Scoped to a network through its season
 // ============================================
 
 export const userSeasonSnapshots = pgTable("user_season_snapshots", {
@@ -254,7 +591,7 @@ export type UserSeasonSnapshot = typeof userSeasonSnapshots.$inferSelect;
 export type InsertUserSeasonSnapshot = typeof userSeasonSnapshots.$inferInsert;
 
 // ============================================
-// Gas Sponsorship Logs (for rate limiting)
+// Gas Sponsorship Logs (rate limiting and spend accounting)
 // ============================================
 
 export const sponsorshipLogs = pgTable("sponsorship_logs", {
@@ -262,27 +599,170 @@ export const sponsorshipLogs = pgTable("sponsorship_logs", {
   walletAddress: varchar("wallet_address", { length: 66 }).notNull(),
   txHash: varchar("tx_hash", { length: 66 }),
   network: varchar("network", { length: 20 }).notNull(), // "testnet" | "mainnet"
+  entryFunction: varchar("entry_function", { length: 200 }), // "module::function"
+  provider: varchar("provider", { length: 20 }),
+  seasonId: varchar("season_id", { length: 36 }), // Campaign the gas was charged to
+  reservedFee: varchar("reserved_fee", { length: 50 }), // max_gas_amount * gas_unit_price, held until settled
+
+  // Filled in once the transaction is committed
+  gasUsed: integer("gas_used"),
+  gasUnitPrice: varchar("gas_unit_price", { length: 50 }),
+  gasFee: varchar("gas_fee", { length: 50 }), // gasUsed * gasUnitPrice, in octas
+  settledAt: timestamp("settled_at"),
+
   createdAt: timestamp("created_at").defaultNow().notNull(),
-});
+}, (table) => [
+  index("sponsorship_logs_network_created").on(table.network, table.createdAt),
+]);
 
 export type SponsorshipLog = typeof sponsorshipLogs.$inferSelect;
 export type InsertSponsorshipLog = typeof sponsorshipLogs.$inferInsert;
 
+// ============================================
+// Gas Sponsorship Policies
+// ============================================
+
+// Default sponsored transactions per wallet per day, by tier
+export const SPONSORSHIP_TIER_DAILY_LIMITS = {
+  [TIERS.BRONZE]: 10,
+  [TIERS.SILVER]: 20,
+  [TIERS.GOLD]: 35,
+  [TIERS.PLATINUM]: 50,
+};
+
+/**
+ * One policy per network; a network without a row uses the defaults
+ * allowedFunctions lists "module::function" entry functions of the platform's
+ * poll and staking contracts; empty means any of them. dailyGasBudget caps the
+ * gas (in octas) the platform pays per UTC day; null means no cap.
+ */
+export const sponsorshipPolicies = pgTable("sponsorship_policies", {
+  network: varchar("network", { length: 10 }).primaryKey(),
+  allowedFunctions: jsonb("allowed_functions").$type<string[]>().default([]).notNull(),
+  tierDailyLimits: jsonb("tier_daily_limits").$type<Record<number, number>>().default(SPONSORSHIP_TIER_DAILY_LIMITS).notNull(),
+  dailyGasBudget: varchar("daily_gas_budget", { length: 50 }),
+  updatedBy: varchar("updated_by", { length: 66 }),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export type SponsorshipPolicy = typeof sponsorshipPolicies.$inferSelect;
+
 // ============================================
 // User Settings (for gas sponsorship preference)
 // ============================================
 
 export const userSettings = pgTable("user_settings", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
-  walletAddress: varchar("wallet_address", { length: 66 }).notNull().unique(),
+  network: varchar("network", { length: 10 }).notNull(), // "testnet" | "mainnet"
+  walletAddress: varchar("wallet_address", { length: 66 }).notNull(),
   gasSponsorshipEnabled: boolean("gas_sponsorship_enabled").default(true).notNull(),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
-});
+}, (table) => [
+  unique("user_settings_network_wallet").on(table.network, table.walletAddress),
+]);
 
 export type UserSettings = typeof userSettings.$inferSelect;
 export type InsertUserSettings = typeof userSettings.$inferInsert;
 
+// ============================================
+// Notifications
+// Stored per wallet and network; email and webhook copies are tracked as
+// deliveries so failed sends can be retried
+// ============================================
+
+export const NOTIFICATION_TYPES = {
+  POLL_CLAIMING: "poll_claiming", // A poll the wallet voted on opened for claims
+  CLAIM_EXPIRING: "claim_expiring", // An unclaimed reward's claim window is closing
+  STAKE_UNLOCKED: "stake_unlocked", // A staking position's lock ended
+  SEASON_ENDED: "season_ended", // A season ended with a snapshot for the wallet
+} as const;
+
+export type NotificationType = (typeof NOTIFICATION_TYPES)[keyof typeof NOTIFICATION_TYPES];
+
+export const NOTIFICATION_CHANNELS = {
+  IN_APP: "in_app",
+  EMAIL: "email",
+  WEBHOOK: "webhook",
+} as const;
+
+export type NotificationChannel = (typeof NOTIFICATION_CHANNELS)[keyof typeof NOTIFICATION_CHANNELS];
+
+// Channels each type goes to until the wallet saves its own choice
+export const DEFAULT_NOTIFICATION_CHANNELS: Record<NotificationType, NotificationChannel[]> = {
+  [NOTIFICATION_TYPES.POLL_CLAIMING]: [NOTIFICATION_CHANNELS.IN_APP],
+  [NOTIFICATION_TYPES.CLAIM_EXPIRING]: [NOTIFICATION_CHANNELS.IN_APP, NOTIFICATION_CHANNELS.EMAIL],
+  [NOTIFICATION_TYPES.STAKE_UNLOCKED]: [NOTIFICATION_CHANNELS.IN_APP],
+  [NOTIFICATION_TYPES.SEASON_ENDED]: [NOTIFICATION_CHANNELS.IN_APP, NOTIFICATION_CHANNELS.EMAIL],
+};
+
+export const notifications = pgTable("notifications", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  network: varchar("network", { length: 10 }).notNull(), // "testnet" | "mainnet"
+  walletAddress: varchar("wallet_address", { length: 66 }).notNull(), // normalizeAddress form
+  type: varchar("type", { length: 30 }).$type<NotificationType>().notNull(),
+  // One notification per event, e.g. "poll_claiming:12"
+  dedupeKey: varchar("dedupe_key", { length: 100 }).notNull(),
+  title: varchar("title", { length: 200 }).notNull(),
+  body: text("body").notNull(),
+  link: varchar("link", { length: 200 }), // In-app path, e.g. "/poll/12"
+  data: jsonb("data").$type<Record<string, string | number>>().default({}).notNull(),
+  inApp: boolean("in_app").default(true).notNull(), // False when only emailed or webhooked
+  // Scheduled notifications (e.g. a stake unlock) stay hidden and undelivered until then
+  notifyAt: timestamp("notify_at").defaultNow().notNull(),
+  readAt: timestamp("read_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  unique("notifications_network_wallet_dedupe").on(table.network, table.walletAddress, table.dedupeKey),
+  index("notifications_wallet_notify_at_idx").on(table.walletAddress, table.notifyAt),
+]);
+
+export type Notification = typeof notifications.$inferSelect;
+export type InsertNotification = typeof notifications.$inferInsert;
+
+export const NOTIFICATION_DELIVERY_STATUS = {
+  PENDING: 0,
+  SENT: 1,
+  FAILED: 2, // Out of attempts
+} as const;
+
+export const notificationDeliveries = pgTable("notification_deliveries", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  notificationId: varchar("notification_id", { length: 36 }).notNull(),
+  channel: varchar("channel", { length: 10 }).$type<NotificationChannel>().notNull(),
+  target: varchar("target", { length: 500 }).notNull(), // Email address or webhook URL
+  status: integer("status").default(NOTIFICATION_DELIVERY_STATUS.PENDING).notNull(),
+  attempts: integer("attempts").default(0).notNull(),
+  lastError: text("last_error"),
+  nextAttemptAt: timestamp("next_attempt_at").defaultNow().notNull(),
+  sentAt: timestamp("sent_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("notification_deliveries_pending_idx").on(table.status, table.nextAttemptAt),
+]);
+
+export type NotificationDelivery = typeof notificationDeliveries.$inferSelect;
+
+// Preferences follow the wallet across networks, like userSettings
+export const notificationPreferences = pgTable("notification_preferences", {
+  walletAddress: varchar("wallet_address", { length: 66 }).primaryKey(), // normalizeAddress form
+  channels: jsonb("channels")
+    .$type<Record<NotificationType, NotificationChannel[]>>()
+    .default(DEFAULT_NOTIFICATION_CHANNELS)
+    .notNull(),
+  email: varchar("email", { length: 254 }),
+  // Email deliveries start once the address is confirmed through the emailed link
+  emailConfirmedAt: timestamp("email_confirmed_at"),
+  emailConfirmTokenHash: varchar("email_confirm_token_hash", { length: 64 }), // sha256 hex of the link token
+  emailConfirmExpiresAt: timestamp("email_confirm_expires_at"),
+  webhookUrl: varchar("webhook_url", { length: 500 }),
+  // HMAC-SHA256 key for the X-MVPulse-Signature header
+  webhookSecret: varchar("webhook_secret", { length: 64 }),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export type NotificationPreferences = typeof notificationPreferences.$inferSelect;
+
 // ============================================
 // Referral System Constants
 // ============================================
@@ -348,10 +828,14 @@ export const REFERRAL_TIER_MULTIPLIERS = {
 
 export const referralCodes = pgTable("referral_codes", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
-  walletAddress: varchar("wallet_address", { length: 66 }).notNull().unique(),
-  code: varchar("code", { length: 20 }).notNull().unique(),
+  network: varchar("network", { length: 10 }).notNull(), // "testnet" | "mainnet"
+  walletAddress: varchar("wallet_address", { length: 66 }).notNull(),
+  code: varchar("code", { length: 20 }).notNull(),
   createdAt: timestamp("created_at").defaultNow().notNull(),
-});
+}, (table) => [
+  unique("referral_codes_network_wallet").on(table.network, table.walletAddress),
+  unique("referral_codes_network_code").on(table.network, table.code),
+]);
 
 export type ReferralCode = typeof referralCodes.$inferSelect;
 export type InsertReferralCode = typeof referralCodes.$inferInsert;
@@ -362,8 +846,9 @@ export type InsertReferralCode = typeof referralCodes.$inferInsert;
 
 export const referrals = pgTable("referrals", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  network: varchar("network", { length: 10 }).notNull(), // "testnet" | "mainnet"
   referrerAddress: varchar("referrer_address", { length: 66 }).notNull(),
-  refereeAddress: varchar("referee_address", { length: 66 }).notNull().unique(), // Each user can only be referred once
+  refereeAddress: varchar("referee_address", { length: 66 }).notNull(), // Each user can only be referred once per network
   referralCode: varchar("referral_code", { length: 20 }).notNull(),
 
   status: integer("status").default(REFERRAL_STATUS.PENDING).notNull(),
@@ -371,7 +856,9 @@ export const referrals = pgTable("referrals", {
   createdAt: timestamp("created_at").defaultNow().notNull(),
   activatedAt: timestamp("activated_at"), // When referee connected wallet
   completedAt: timestamp("completed_at"), // When first vote milestone reached
-});
+}, (table) => [
+  unique("referrals_network_referee").on(table.network, table.refereeAddress),
+]);
 
 export type Referral = typeof referrals.$inferSelect;
 export type InsertReferral = typeof referrals.$inferInsert;
@@ -382,6 +869,7 @@ export type InsertReferral = typeof referrals.$inferInsert;
 
 export const referralMilestones = pgTable("referral_milestones", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  network: varchar("network", { length: 10 }).notNull(), // "testnet" | "mainnet"; same as the referral's
   referralId: varchar("referral_id", { length: 36 }).notNull(),
   milestoneType: varchar("milestone_type", { length: 30 }).notNull(),
 
@@ -389,7 +877,9 @@ export const referralMilestones = pgTable("referral_milestones", {
   refereePointsAwarded: integer("referee_points_awarded").default(0).notNull(),
 
   achievedAt: timestamp("achieved_at").defaultNow().notNull(),
-});
+}, (table) => [
+  unique("referral_milestones_network_referral_type").on(table.network, table.referralId, table.milestoneType),
+]);
 
 export type ReferralMilestone = typeof referralMilestones.$inferSelect;
 export type InsertReferralMilestone = typeof referralMilestones.$inferInsert;
@@ -400,7 +890,8 @@ export type InsertReferralMilestone = typeof referralMilestones.$inferInsert;
 
 export const referralStats = pgTable("referral_stats", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
-  walletAddress: varchar("wallet_address", { length: 66 }).notNull().unique(),
+  network: varchar("network", { length: 10 }).notNull(), // "testnet" | "mainnet"
+  walletAddress: varchar("wallet_address", { length: 66 }).notNull(),
 
   totalReferrals: integer("total_referrals").default(0).notNull(),
   activeReferrals: integer("active_referrals").default(0).notNull(), // Referees who completed first_vote
@@ -409,7 +900,9 @@ export const referralStats = pgTable("referral_stats", {
   currentTier: integer("current_tier").default(0).notNull(), // 0=none, 1=bronze, 2=silver, 3=gold, 4=platinum
 
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
-});
+}, (table) => [
+  unique("referral_stats_network_wallet").on(table.network, table.walletAddress),
+]);
 
 export type ReferralStats = typeof referralStats.$inferSelect;
 export type InsertReferralStats = typeof referralStats.$inferInsert;
@@ -436,12 +929,69 @@ export const QUESTIONNAIRE_POLL_SOURCE = {
   EXISTING: "existing",
 } as const;
 
+// Questionnaire items are on-chain polls or off-chain free-text questions
+export const QUESTIONNAIRE_ITEM_KIND = {
+  POLL: "poll",
+  TEXT: "text",
+} as const;
+
+export type QuestionnaireItemKind = (typeof QUESTIONNAIRE_ITEM_KIND)[keyof typeof QUESTIONNAIRE_ITEM_KIND];
+
+// Answer length bounds for free-text questions (characters, after trimming)
+export const TEXT_ANSWER_LIMITS = {
+  DEFAULT_MAX: 500,
+  MAX: 5000,
+  PROMPT_MAX: 500,
+} as const;
+
+export interface TextQuestionSettings {
+  minLength: number;
+  maxLength: number;
+  required: boolean;
+}
+
+// Branching (skip logic) on a questionnaire item. Conditions match the respondent's
+// on-chain answer to a poll: the first selection for multi-select and ranked questions.
+export interface QuestionnaireBranching {
+  // On a poll: answered with one of optionIndices -> jump forward to targetItemId
+  skipTo?: { optionIndices: number[]; targetItemId: string }[];
+  // Shown only if every condition holds: an earlier poll on the path answered with one of optionIndices
+  showIf?: { sourceItemId: string; optionIndices: number[] }[];
+}
+
+export interface QuestionnaireSettings {
+  allowPartialSave?: boolean; // Keep unsubmitted answers so respondents can resume later
+  showProgressBar?: boolean;
+  shufflePolls?: boolean;     // Per-wallet question order (same order on every visit)
+  requireAllPolls?: boolean;  // false = polls may be skipped; text questions keep their own "required"
+}
+
+export const QUESTIONNAIRE_SETTING_DEFAULTS: Required<QuestionnaireSettings> = {
+  allowPartialSave: true,
+  showProgressBar: true,
+  shufflePolls: false,
+  requireAllPolls: true,
+};
+
+// Settings with defaults filled in. Shared pools always require every poll:
+// mark_questionnaire_completed checks for a vote on each of the pool's polls.
+export function resolveQuestionnaireSettings(
+  questionnaire: { settings: QuestionnaireSettings | null; rewardType: number }
+): Required<QuestionnaireSettings> {
+  const settings = { ...QUESTIONNAIRE_SETTING_DEFAULTS, ...questionnaire.settings };
+  if (questionnaire.rewardType === QUESTIONNAIRE_REWARD_TYPE.SHARED_POOL) {
+    settings.requireAllPolls = true;
+  }
+  return settings;
+}
+
 // ============================================
 // Questionnaires
 // ============================================
 
 export const questionnaires = pgTable("questionnaires", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  network: varchar("network", { length: 10 }).notNull(), // "testnet" | "mainnet"; chain its polls live on
   onChainId: integer("on_chain_id"), // For shared pool questionnaires (QuestionnaireRewardPool id)
   creatorAddress: varchar("creator_address", { length: 66 }).notNull(),
 
@@ -460,12 +1010,7 @@ export const questionnaires = pgTable("questionnaires", {
   maxCompleters: integer("max_completers"), // null = unlimited
 
   // Settings (flexible JSON for future extensions)
-  settings: jsonb("settings").$type<{
-    allowPartialSave?: boolean;
-    showProgressBar?: boolean;
-    shufflePolls?: boolean;
-    requireAllPolls?: boolean;
-  }>().default({}).notNull(),
+  settings: jsonb("settings").$type<QuestionnaireSettings>().default({}).notNull(),
 
   status: integer("status").default(QUESTIONNAIRE_STATUS.DRAFT).notNull(),
   pollCount: integer("poll_count").default(0).notNull(),
@@ -473,19 +1018,33 @@ export const questionnaires = pgTable("questionnaires", {
 
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
-});
+}, (table) => [
+  // Full-text search over title + description (see server/search.ts)
+  index("questionnaires_search_idx").using(
+    "gin",
+    sql`to_tsvector('english', ${table.title} || ' ' || coalesce(${table.description}, ''))`
+  ),
+]);
 
 export type Questionnaire = typeof questionnaires.$inferSelect;
 export type InsertQuestionnaire = typeof questionnaires.$inferInsert;
 
 // ============================================
 // Questionnaire Polls (junction table)
+// Scoped to a network through its questionnaire
 // ============================================
 
 export const questionnairePolls = pgTable("questionnaire_polls", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   questionnaireId: varchar("questionnaire_id", { length: 36 }).notNull(),
-  pollId: integer("poll_id").notNull(), // On-chain poll ID
+  kind: varchar("kind", { length: 10 }).$type<QuestionnaireItemKind>().default(QUESTIONNAIRE_ITEM_KIND.POLL).notNull(),
+  pollId: integer("poll_id"), // On-chain poll ID; null for text questions
+
+  // Text questions only
+  prompt: text("prompt"),
+  textSettings: jsonb("text_settings").$type<TextQuestionSettings>(),
+
+  branching: jsonb("branching").$type<QuestionnaireBranching>(), // null = always shown, no jumps
 
   sortOrder: integer("sort_order").default(0).notNull(),
   rewardPercentage: integer("reward_percentage"), // For shared pool, percentage of reward attributed to this poll
@@ -497,8 +1056,61 @@ export const questionnairePolls = pgTable("questionnaire_polls", {
 export type QuestionnairePoll = typeof questionnairePolls.$inferSelect;
 export type InsertQuestionnairePoll = typeof questionnairePolls.$inferInsert;
 
+type BranchingItem = Pick<QuestionnairePoll, "id" | "branching">;
+
+/**
+ * The items a respondent sees, given their answers so far
+ * items are in display order; answers map item ID -> on-chain option index.
+ * Unanswered polls continue in order, and showIf conditions on them don't hold yet.
+ */
+export function questionnairePath<T extends BranchingItem>(items: T[], answers: Map<string, number>): T[] {
+  const path: T[] = [];
+  let index = 0;
+
+  while (index < items.length) {
+    const item = items[index];
+    index++;
+
+    const shown = (item.branching?.showIf ?? []).every((condition) => {
+      const answer = answers.get(condition.sourceItemId);
+      return (
+        answer !== undefined &&
+        condition.optionIndices.includes(answer) &&
+        path.some((earlier) => earlier.id === condition.sourceItemId)
+      );
+    });
+    if (!shown) continue;
+    path.push(item);
+
+    const answer = answers.get(item.id);
+    const jump = answer === undefined
+      ? undefined
+      : item.branching?.skipTo?.find((rule) => rule.optionIndices.includes(answer));
+    const target = jump ? items.findIndex((candidate) => candidate.id === jump.targetItemId) : -1;
+    if (target >= index) index = target; // Forward jumps only
+  }
+
+  return path;
+}
+
+/**
+ * Items some path can leave out: those with showIf conditions or after a jump's source and before its target
+ */
+export function conditionalItemIds(items: BranchingItem[]): Set<string> {
+  const conditional = new Set<string>();
+  items.forEach((item, index) => {
+    if (item.branching?.showIf?.length) conditional.add(item.id);
+    for (const rule of item.branching?.skipTo ?? []) {
+      const target = items.findIndex((candidate) => candidate.id === rule.targetItemId);
+      if (target > index) items.slice(index + 1, target).forEach((skipped) => conditional.add(skipped.id));
+    }
+  });
+  return conditional;
+}
+
 // ============================================
 // Questionnaire Progress (user progress tracking)
+// Scoped to a network through its questionnaire
 // ============================================
 
 export const questionnaireProgress = pgTable("questionnaire_progress", {
@@ -507,9 +1119,17 @@ export const questionnaireProgress = pgTable("questionnaire_progress", {
   walletAddress: varchar("wallet_address", { length: 66 }).notNull(),
 
   started: boolean("started").default(false).notNull(),
+  // Before completion: saved selections not yet voted (allowPartialSave); after: the votes
   pollsAnswered: jsonb("polls_answered").$type<{
     pollId: number;
     optionIndex: number;
+    selections?: number[]; // Full multi-select / ranked ballot of a saved selection
+    answeredAt: string;
+  }[]>().default([]).notNull(),
+  textAnswers: jsonb("text_answers").$type<{
+    questionId: string; // questionnairePolls.id of the text question
+    text: string;
+    flagged: boolean; // Profanity was masked
     answeredAt: string;
   }[]>().default([]).notNull(),
   isComplete: boolean("is_complete").default(false).notNull(),
@@ -531,3 +1151,624 @@ export const questionnaireProgress = pgTable("questionnaire_progress", {
 
 export type QuestionnaireProgress = typeof questionnaireProgress.$inferSelect;
 export type InsertQuestionnaireProgress = typeof questionnaireProgress.$inferInsert;
+
+// ============================================
+// Admin Roles (server-side access control)
+// ============================================
+
+export const ADMIN_ROLES = {
+  ADMIN: "admin",                     // Full access, can grant/revoke roles
+  SEASON_OPERATOR: "season_operator", // Create and run seasons
+  QUEST_AUTHOR: "quest_author",       // Create quests
+} as const;
+
+export type AdminRole = typeof ADMIN_ROLES[keyof typeof ADMIN_ROLES];
+
+export const ADMIN_ROLE_NAMES: Record<AdminRole, string> = {
+  admin: "Admin",
+  season_operator: "Season Operator",
+  quest_author: "Quest Author",
+};
+
+export const ROLE_AUDIT_ACTIONS = {
+  GRANT: "grant",
+  REVOKE: "revoke",
+} as const;
+
+export const adminRoles = pgTable("admin_roles", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  walletAddress: varchar("wallet_address", { length: 66 }).notNull(),
+  role: varchar("role", { length: 30 }).notNull(), // ADMIN_ROLES value
+
+  grantedBy: varchar("granted_by", { length: 66 }).notNull(), // "env" for bootstrap admins
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export type AdminRoleGrant = typeof adminRoles.$inferSelect;
+export type InsertAdminRoleGrant = typeof adminRoles.$inferInsert;
+
+// ============================================
+// Admin Role Audit Log (append-only)
+// ============================================
+
+export const adminRoleAudit = pgTable("admin_role_audit", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  action: varchar("action", { length: 10 }).notNull(), // "grant" | "revoke"
+  walletAddress: varchar("wallet_address", { length: 66 }).notNull(),
+  role: varchar("role", { length: 30 }).notNull(),
+  actorAddress: varchar("actor_address", { length: 66 }).notNull(),
+
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export type AdminRoleAuditEntry = typeof adminRoleAudit.$inferSelect;
+export type InsertAdminRoleAuditEntry = typeof adminRoleAudit.$inferInsert;
+
+// ============================================
+// Poll Indexer (server-side mirror of on-chain polls)
+// ============================================
+
+export const indexedPolls = pgTable("indexed_polls", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  network: varchar("network", { length: 10 }).notNull(), // "testnet" | "mainnet"
+  pollId: integer("poll_id").notNull(), // On-chain poll ID
+  creator: varchar("creator", { length: 66 }).notNull(),
+
+  title: text("title").notNull(),
+  description: text("description").default("").notNull(),
+
+  // u64 amounts are stored as strings to avoid precision loss
+  rewardPerVote: varchar("reward_per_vote", { length: 50 }).default("0").notNull(),
+  rewardPool: varchar("reward_pool", { length: 50 }).default("0").notNull(),
+  maxVoters: integer("max_voters").default(0).notNull(),
+  distributionMode: integer("distribution_mode").notNull(),
+  rewardsDistributed: boolean("rewards_distributed").default(false).notNull(),
+  coinTypeId: integer("coin_type_id").default(0).notNull(),
+
+  status: integer("status").notNull(),
+  // u64 on chain; bigint so end times past 2038 fit
+  endTime: bigint("end_time", { mode: "number" }).notNull(), // Unix seconds
+  closedAt: bigint("closed_at", { mode: "number" }).default(0).notNull(), // Unix seconds, set by start_claims; 0 before
+
+  totalVotes: integer("total_votes").default(0).notNull(),
+  voters: jsonb("voters").$type<string[]>().default([]).notNull(), // In voting order (from get_poll)
+  claimed: jsonb("claimed").$type<string[]>().default([]).notNull(),
+
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  unique("indexed_polls_network_poll_id").on(table.network, table.pollId),
+  // Full-text search over title + description (see server/search.ts)
+  index("indexed_polls_search_idx").using(
+    "gin",
+    sql`to_tsvector('english', ${table.title} || ' ' || ${table.description})`
+  ),
+]);
+
+export type IndexedPoll = typeof indexedPolls.$inferSelect;
+export type InsertIndexedPoll = typeof indexedPolls.$inferInsert;
+
+export const indexedPollOptions = pgTable("indexed_poll_options", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  network: varchar("network", { length: 10 }).notNull(),
+  pollId: integer("poll_id").notNull(),
+  optionIndex: integer("option_index").notNull(),
+
+  label: text("label").notNull(),
+  votes: integer("votes").default(0).notNull(),
+}, (table) => [
+  unique("indexed_poll_options_network_poll_option").on(table.network, table.pollId, table.optionIndex),
+]);
+
+export type IndexedPollOption = typeof indexedPollOptions.$inferSelect;
+export type InsertIndexedPollOption = typeof indexedPollOptions.$inferInsert;
+
+export const indexedPollVotes = pgTable("indexed_poll_votes", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  network: varchar("network", { length: 10 }).notNull(),
+  pollId: integer("poll_id").notNull(),
+  voter: varchar("voter", { length: 66 }).notNull(),
+  optionIndex: integer("option_index").notNull(),
+
+  txVersion: varchar("tx_version", { length: 30 }).notNull(),
+  txHash: varchar("tx_hash", { length: 66 }), // Resolved from txVersion on first export
+  votedAt: timestamp("voted_at"),
+}, (table) => [
+  unique("indexed_poll_votes_network_poll_voter").on(table.network, table.pollId, table.voter),
+]);
+
+export type IndexedPollVote = typeof indexedPollVotes.$inferSelect;
+export type InsertIndexedPollVote = typeof indexedPollVotes.$inferInsert;
+
+export const indexedPollClaims = pgTable("indexed_poll_claims", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  network: varchar("network", { length: 10 }).notNull(),
+  pollId: integer("poll_id").notNull(),
+  claimer: varchar("claimer", { length: 66 }).notNull(),
+  amount: varchar("amount", { length: 50 }).notNull(),
+
+  txVersion: varchar("tx_version", { length: 30 }).notNull(),
+  txHash: varchar("tx_hash", { length: 66 }), // Resolved from txVersion on first export
+  claimedAt: timestamp("claimed_at"),
+}, (table) => [
+  unique("indexed_poll_claims_network_poll_claimer").on(table.network, table.pollId, table.claimer),
+]);
+
+export type IndexedPollClaim = typeof indexedPollClaims.$inferSelect;
+export type InsertIndexedPollClaim = typeof indexedPollClaims.$inferInsert;
+
+// Push distributions (MANUAL_PUSH): one per poll, every voter received totalDistributed / recipientCount
+export const indexedPollDistributions = pgTable("indexed_poll_distributions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  network: varchar("network", { length: 10 }).notNull(),
+  pollId: integer("poll_id").notNull(),
+  totalDistributed: varchar("total_distributed", { length: 50 }).notNull(),
+  recipientCount: integer("recipient_count").notNull(),
+
+  txVersion: varchar("tx_version", { length: 30 }).notNull(),
+  txHash: varchar("tx_hash", { length: 66 }),
+  distributedAt: timestamp("distributed_at"),
+}, (table) => [
+  unique("indexed_poll_distributions_network_poll").on(table.network, table.pollId),
+]);
+
+export type IndexedPollDistribution = typeof indexedPollDistributions.$inferSelect;
+export type InsertIndexedPollDistribution = typeof indexedPollDistributions.$inferInsert;
+
+// Last event processed per indexer stream, e.g. "poll:testnet"
+export const indexerCursors = pgTable("indexer_cursors", {
+  name: varchar("name", { length: 50 }).primaryKey(),
+  lastVersion: varchar("last_version", { length: 30 }).default("0").notNull(),
+  lastEventIndex: integer("last_event_index").default(-1).notNull(),
+
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export type IndexerCursor = typeof indexerCursors.$inferSelect;
+
+// Claim reminder and auto-finalization bookkeeping per poll (see server/claim-deadlines.ts)
+export const pollClaimDeadlines = pgTable("poll_claim_deadlines", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  network: varchar("network", { length: 10 }).notNull(),
+  pollId: integer("poll_id").notNull(),
+  remindersScheduledAt: timestamp("reminders_scheduled_at"),
+
+  // Automatic finalization through the creator's finalize delegate
+  finalizeAttempts: integer("finalize_attempts").default(0).notNull(),
+  finalizeAttemptedAt: timestamp("finalize_attempted_at"),
+  finalizeTxHash: varchar("finalize_tx_hash", { length: 66 }),
+  finalizeError: text("finalize_error"),
+
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  unique("poll_claim_deadlines_network_poll").on(table.network, table.pollId),
+]);
+
+export type PollClaimDeadline = typeof pollClaimDeadlines.$inferSelect;
+export type InsertPollClaimDeadline = typeof pollClaimDeadlines.$inferInsert;
+
+// Lock boost expiries the staking keeper pokes stakers at (see server/staking-keeper.ts)
+// One row per unlock time a Staked or RewardsCompounded event announced
+export const stakeBoostExpiries = pgTable("stake_boost_expiries", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  network: varchar("network", { length: 10 }).notNull(),
+  staker: varchar("staker", { length: 66 }).notNull(),
+  unlockAt: bigint("unlock_at", { mode: "number" }).notNull(), // Unix seconds
+
+  // Set once the staker's weight no longer counts the boost (poked, or settled by the staker)
+  resolvedAt: timestamp("resolved_at"),
+  pokeAttempts: integer("poke_attempts").default(0).notNull(),
+  pokeAttemptedAt: timestamp("poke_attempted_at"),
+  pokeTxHash: varchar("poke_tx_hash", { length: 66 }),
+  pokeError: text("poke_error"),
+
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  unique("stake_boost_expiries_network_staker_unlock").on(table.network, table.staker, table.unlockAt),
+  index("stake_boost_expiries_due_idx").on(table.network, table.unlockAt),
+]);
+
+export type StakeBoostExpiry = typeof stakeBoostExpiries.$inferSelect;
+export type InsertStakeBoostExpiry = typeof stakeBoostExpiries.$inferInsert;
+
+// A creator's poll that is collecting claims or waiting to be finalized (GET /api/polls/claim-deadlines)
+export interface ClaimDeadlinePoll {
+  pollId: number;
+  title: string;
+  status: number;
+  distributionMode: number;
+  coinTypeId: number;
+  rewardPool: string;
+  unclaimedVoters: number;
+  closedAt: string | null; // set by start_claims
+  claimDeadline: string | null; // closedAt + claim period
+  finalizableAt: string | null; // same moment: finalize_poll_* opens once the poll is CLOSED
+  finalizable: boolean;
+  autoFinalize: {
+    attempts: number;
+    attemptedAt: string | null;
+    txHash: string | null;
+    error: string | null;
+  } | null;
+}
+
+export interface ClaimDeadlineOverview {
+  claimPeriodSecs: number | null;
+  finalizerAddress: string | null; // null when automatic finalization isn't configured
+  delegated: boolean; // creator named the finalizer as their finalize delegate
+  polls: ClaimDeadlinePoll[];
+}
+
+// ============================================
+// Donor Funding Ledger
+// ============================================
+
+export const POLL_FUNDING_KIND = {
+  FUND: "fund", // fund_poll_with_move / _fa / _pulse
+  REFUND: "refund", // withdraw_remaining_move / _fa / _pulse
+} as const;
+
+export type PollFundingKind = (typeof POLL_FUNDING_KIND)[keyof typeof POLL_FUNDING_KIND];
+
+// One row per funding or refund transaction. The contract emits no events for
+// either, so rows are read from the transactions themselves (see server/donor-ledger.ts)
+export const pollFundings = pgTable("poll_fundings", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  network: varchar("network", { length: 10 }).notNull(), // "testnet" | "mainnet"
+  walletAddress: varchar("wallet_address", { length: 66 }).notNull(), // Transaction sender
+  pollId: integer("poll_id").notNull(),
+  kind: varchar("kind", { length: 10 }).$type<PollFundingKind>().notNull(),
+  functionName: varchar("function_name", { length: 50 }).notNull(),
+  coinTypeId: integer("coin_type_id").notNull(),
+
+  // u64 amounts as strings. For funds, amount is what left the wallet and
+  // netAmount what reached the pool after the platform fee; for refunds both
+  // are the amount returned to the wallet
+  amount: varchar("amount", { length: 50 }).notNull(),
+  platformFee: varchar("platform_fee", { length: 50 }).default("0").notNull(),
+  netAmount: varchar("net_amount", { length: 50 }).notNull(),
+
+  txHash: varchar("tx_hash", { length: 66 }).notNull(),
+  txVersion: varchar("tx_version", { length: 30 }).notNull(),
+  occurredAt: timestamp("occurred_at").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  unique("poll_fundings_network_tx_hash").on(table.network, table.txHash),
+  index("poll_fundings_wallet_idx").on(table.network, table.walletAddress),
+  index("poll_fundings_poll_idx").on(table.network, table.pollId),
+]);
+
+export type PollFunding = typeof pollFundings.$inferSelect;
+export type InsertPollFunding = typeof pollFundings.$inferInsert;
+
+// ============================================
+// Question Types & Ballots
+// ============================================
+
+// On-chain a poll is always single choice; other question types are recorded here.
+// Multi-select and ranked votes cast their first selection on chain and keep the
+// full ballot off chain; rating and NPS polls use one option per scale point.
+export const QUESTION_TYPES = {
+  SINGLE: "single",
+  MULTI_SELECT: "multi_select",
+  RANKED: "ranked",
+  RATING: "rating",
+  NPS: "nps",
+} as const;
+
+export type QuestionType = (typeof QUESTION_TYPES)[keyof typeof QUESTION_TYPES];
+
+// Scale points for rating and NPS questions (the poll's options, in order)
+export const QUESTION_SCALES = {
+  rating: { min: 1, max: 5 },
+  nps: { min: 0, max: 10 },
+} as const;
+
+export function scaleOptions(questionType: "rating" | "nps"): string[] {
+  const { min, max } = QUESTION_SCALES[questionType];
+  return Array.from({ length: max - min + 1 }, (_, i) => String(min + i));
+}
+
+// Question types whose full answer lives in pollBallots
+export function usesOffChainBallot(questionType: QuestionType): boolean {
+  return questionType === QUESTION_TYPES.MULTI_SELECT || questionType === QUESTION_TYPES.RANKED;
+}
+
+export const pollQuestions = pgTable("poll_questions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  network: varchar("network", { length: 10 }).notNull(),
+  pollId: integer("poll_id").notNull(),
+  questionType: varchar("question_type", { length: 20 }).$type<QuestionType>().notNull(),
+  maxSelections: integer("max_selections"), // Multi-select only; null = any number of options
+
+  createdTxHash: varchar("created_tx_hash", { length: 66 }).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  unique("poll_questions_network_poll").on(table.network, table.pollId),
+]);
+
+export type PollQuestion = typeof pollQuestions.$inferSelect;
+export type InsertPollQuestion = typeof pollQuestions.$inferInsert;
+
+// Full multi-select / ranked answers, keyed to the signed vote transaction
+export const pollBallots = pgTable("poll_ballots", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  network: varchar("network", { length: 10 }).notNull(),
+  pollId: integer("poll_id").notNull(),
+  voter: varchar("voter", { length: 66 }).notNull(),
+  // Option indices; in preference order for ranked ballots. selections[0] is the on-chain vote.
+  selections: jsonb("selections").$type<number[]>().notNull(),
+
+  txHash: varchar("tx_hash", { length: 66 }).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  unique("poll_ballots_network_poll_voter").on(table.network, table.pollId, table.voter),
+]);
+
+export type PollBallot = typeof pollBallots.$inferSelect;
+export type InsertPollBallot = typeof pollBallots.$inferInsert;
+
+// Results returned by GET /api/polls/:id/results
+export interface InstantRunoffRound {
+  round: number;
+  counts: number[]; // Per option; 0 for eliminated options
+  eliminated: number[]; // Options eliminated at the end of this round
+  exhausted: number; // Ballots with no remaining preference
+}
+
+export type QuestionResults =
+  | { questionType: "single"; counts: number[] }
+  | { questionType: "multi_select"; counts: number[]; ballots: number; maxSelections: number | null }
+  | {
+      questionType: "ranked";
+      firstChoice: number[];
+      ballots: number;
+      rounds: InstantRunoffRound[];
+      winner: number | null;
+    }
+  | {
+      questionType: "rating";
+      distribution: number[];
+      responses: number;
+      average: number | null;
+    }
+  | {
+      questionType: "nps";
+      distribution: number[];
+      responses: number;
+      promoters: number;
+      passives: number;
+      detractors: number;
+      score: number | null; // -100..100
+    };
+
+export interface PollResults {
+  network: string;
+  pollId: number;
+  options: string[];
+  results: QuestionResults;
+}
+
+// ============================================
+// Live Update Events (pushed over /ws/live)
+// ============================================
+
+export const LIVE_UPDATES_PATH = "/ws/live";
+
+// Channels: one per poll and one per questionnaire (carries events for all of its polls)
+export function pollChannel(network: string, pollId: number): string {
+  return `poll:${network}:${pollId}`;
+}
+
+export function questionnaireChannel(questionnaireId: string): string {
+  return `questionnaire:${questionnaireId}`;
+}
+
+export type LiveEvent =
+  | {
+      type: "poll_votes";
+      network: string;
+      pollId: number;
+      votes: number[];
+      delta: number[]; // Change per option since the previous push
+      totalVotes: number;
+    }
+  | {
+      type: "poll_status";
+      network: string;
+      pollId: number;
+      status: number;
+      previousStatus: number;
+    }
+  | {
+      type: "poll_claim";
+      network: string;
+      pollId: number;
+      claimer: string;
+      amount: string;
+    }
+  | {
+      type: "questionnaire_completions";
+      questionnaireId: string;
+      completionCount: number;
+    };
+
+// Client -> server
+export interface LiveSubscribeMessage {
+  action: "subscribe" | "unsubscribe";
+  channels: string[];
+}
+
+// Server -> client
+export interface LiveEventMessage {
+  channel: string;
+  event: LiveEvent;
+}
+
+// ============================================
+// Activity Feed
+// ============================================
+
+// Everything a wallet did, newest first. On-chain events come from the poll
+// indexer, the donor ledger and the GraphQL indexer; the rest are server records.
+export const ACTIVITY_TYPES = {
+  VOTE: "vote",
+  POLL_CREATED: "poll_created",
+  POLL_FUNDED: "poll_funded",
+  POLL_REFUNDED: "poll_refunded",
+  POLL_CLOSED: "poll_closed",
+  POLL_FINALIZED: "poll_finalized",
+  REWARDS_DISTRIBUTED: "rewards_distributed",
+  REWARD_CLAIMED: "reward_claimed",
+  QUESTIONNAIRE_COMPLETED: "questionnaire_completed",
+  QUESTIONNAIRE_REWARD_CLAIMED: "questionnaire_reward_claimed",
+  STAKED: "staked",
+  UNSTAKED: "unstaked",
+  STAKING_REWARDS_CLAIMED: "staking_rewards_claimed",
+  STAKING_REWARDS_COMPOUNDED: "staking_rewards_compounded",
+  SWAP: "swap",
+  LIQUIDITY_ADDED: "liquidity_added",
+  LIQUIDITY_REMOVED: "liquidity_removed",
+  QUEST_CLAIMED: "quest_claimed",
+  REFERRAL_MILESTONE: "referral_milestone",
+} as const;
+
+export type ActivityType = (typeof ACTIVITY_TYPES)[keyof typeof ACTIVITY_TYPES];
+
+export interface ActivityItem {
+  id: string; // Stable across pages, e.g. "vote:<pollId>" or "swap:<txVersion>:<eventIndex>"
+  type: ActivityType;
+  occurredAt: string; // ISO timestamp
+  source: "chain" | "server";
+  txHash?: string | null;
+  txVersion?: string | null;
+  pollId?: number;
+  pollTitle?: string | null;
+  questionnaireId?: string;
+  title?: string | null; // Questionnaire, quest or milestone name
+  amount?: string; // u64 base units
+  coinTypeId?: number;
+  optionIndex?: number;
+  // Type-specific figures (swap legs, LP shares, points), u64 values as strings
+  details?: Record<string, string | number>;
+}
+
+export interface ActivityPage {
+  items: ActivityItem[];
+  nextCursor: string | null;
+}
+
+// ============================================
+// Swap Analytics
+// ============================================
+
+export const SWAP_EVENT_KINDS = {
+  SWAP: "swap",
+  LIQUIDITY_ADDED: "liquidity_added",
+  LIQUIDITY_REMOVED: "liquidity_removed",
+} as const;
+
+export type SwapEventKind = (typeof SWAP_EVENT_KINDS)[keyof typeof SWAP_EVENT_KINDS];
+
+// Every swap and liquidity event of the PULSE/stable pool, with the reserves right
+// after it. Events don't carry reserves, so they are replayed in order from the
+// first event (see server/swap-analytics.ts)
+export const swapPoolEvents = pgTable("swap_pool_events", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  network: varchar("network", { length: 10 }).notNull(),
+  kind: varchar("kind", { length: 20 }).notNull(), // SwapEventKind
+  wallet: varchar("wallet", { length: 66 }).notNull(), // Trader or liquidity provider
+
+  // Tokens into and out of the pool, u64 base units
+  pulseIn: varchar("pulse_in", { length: 50 }).default("0").notNull(),
+  stableIn: varchar("stable_in", { length: 50 }).default("0").notNull(),
+  pulseOut: varchar("pulse_out", { length: 50 }).default("0").notNull(),
+  stableOut: varchar("stable_out", { length: 50 }).default("0").notNull(),
+  lpShares: varchar("lp_shares", { length: 50 }).default("0").notNull(), // Minted or burned
+
+  // Swaps only, valued in stable base units at the pool price after the swap
+  volumeStable: varchar("volume_stable", { length: 50 }).default("0").notNull(),
+  feeStable: varchar("fee_stable", { length: 50 }).default("0").notNull(),
+
+  pulseReserve: varchar("pulse_reserve", { length: 50 }).notNull(),
+  stableReserve: varchar("stable_reserve", { length: 50 }).notNull(),
+  totalLpShares: varchar("total_lp_shares", { length: 50 }).default("0").notNull(),
+  // Running sum of feeStable / totalLpShares, scaled by SWAP_FEES_PER_SHARE_SCALE;
+  // an LP's fees between two events are shares * (difference between them)
+  feesPerShare: varchar("fees_per_share", { length: 80 }).default("0").notNull(),
+
+  txVersion: varchar("tx_version", { length: 30 }).notNull(),
+  eventIndex: integer("event_index").notNull(),
+  occurredAt: timestamp("occurred_at").notNull(),
+}, (table) => [
+  index("swap_pool_events_network_wallet_idx").on(table.network, table.wallet),
+  unique("swap_pool_events_network_position").on(table.network, table.txVersion, table.eventIndex),
+  index("swap_pool_events_network_occurred_idx").on(table.network, table.occurredAt),
+]);
+
+export type SwapPoolEvent = typeof swapPoolEvents.$inferSelect;
+export type InsertSwapPoolEvent = typeof swapPoolEvents.$inferInsert;
+
+export const SWAP_FEES_PER_SHARE_SCALE = BigInt("1000000000000000000");
+
+// Candle widths in seconds (GET /api/swap/candles?interval=)
+export const SWAP_CANDLE_INTERVALS = {
+  "15m": 15 * 60,
+  "1h": 60 * 60,
+  "4h": 4 * 60 * 60,
+  "1d": 24 * 60 * 60,
+} as const;
+
+export type SwapCandleInterval = keyof typeof SWAP_CANDLE_INTERVALS;
+
+// Prices are USDC per PULSE in whole tokens
+export interface SwapCandle {
+  time: string; // ISO start of the bucket
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: AmountString; // Stable base units
+  trades: number;
+}
+
+export interface SwapPoolStats {
+  pulseReserve: AmountString;
+  stableReserve: AmountString;
+  price: number | null; // USDC per PULSE
+  tvl: AmountString; // Stable base units, both sides valued at the pool price
+  volume24h: AmountString;
+  fees24h: AmountString; // Earned by LPs, stable base units
+  trades24h: number;
+  feeApr: number | null; // Percent, fees of the last 7 days annualized over TVL
+  lastEventAt: string | null;
+}
+
+export interface LiquidityPositionEvent {
+  kind: "liquidity_added" | "liquidity_removed";
+  pulseAmount: AmountString;
+  stableAmount: AmountString;
+  lpShares: AmountString;
+  price: number | null; // USDC per PULSE after the event
+  txVersion: string;
+  occurredAt: string;
+}
+
+// A wallet's LP position with its cost basis and returns (GET /api/swap/positions/:address)
+// Values are stable base units at the current pool price; fields marked signed may be negative.
+// Withdrawals take cost basis out in proportion to the shares burned.
+export interface LiquidityPositionPnl {
+  shares: AmountString;
+  pulseValue: AmountString;
+  stableValue: AmountString;
+  value: AmountString;
+  costPulse: AmountString; // Tokens deposited for the shares still held
+  costStable: AmountString;
+  costBasis: AmountString; // Those deposits valued at the pool price when they were made
+  holdValue: AmountString; // costPulse + costStable at today's price
+  feesEarned: AmountString; // Share of swap fees while the shares were held
+  impermanentLoss: AmountString; // Signed: value - feesEarned - holdValue
+  impermanentLossPercent: number | null; // Of holdValue
+  pnl: AmountString; // Signed: value - costBasis
+  history: LiquidityPositionEvent[]; // Newest first
+}